@@ -1,6 +1,6 @@
 import { app, BrowserWindow, ipcMain, dialog } from 'electron';
 import path from 'path';
-import { promises as fs } from 'fs';
+import { promises as fs, watch } from 'fs';
 import Store from 'electron-store';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
@@ -13,6 +13,10 @@ const store = new Store();
 
 let mainWindow;
 
+// Directory watchers started by the renderer, by watch ID
+const watchers = new Map();
+let nextWatchId = 1;
+
 function createWindow() {
   mainWindow = new BrowserWindow({
     width: 1400,
@@ -200,6 +204,64 @@ ipcMain.handle('create-directory', async (event, dirPath) => {
   }
 });
 
+/**
+ * File modification time and size
+ */
+ipcMain.handle('stat-file', async (event, filePath) => {
+  try {
+    const stats = await fs.stat(filePath);
+    if (!stats.isFile()) {
+      return { success: false, error: 'Not a file' };
+    }
+    return { success: true, modifiedAt: stats.mtimeMs, size: stats.size };
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error.message || 'Failed to stat file' 
+    };
+  }
+});
+
+/**
+ * Watch a directory recursively; changes are sent to the renderer as
+ * 'directory-changed' events with the file path relative to the directory
+ */
+ipcMain.handle('watch-directory', async (event, dirPath) => {
+  try {
+    await fs.mkdir(dirPath, { recursive: true });
+    const watchId = nextWatchId++;
+    const sender = event.sender;
+    const watcher = watch(dirPath, { recursive: true }, (eventType, fileName) => {
+      if (fileName && !sender.isDestroyed()) {
+        sender.send('directory-changed', watchId, fileName.toString().split(path.sep).join('/'));
+      }
+    });
+    watcher.on('error', (error) => {
+      console.error(`Watcher for ${dirPath} failed:`, error);
+    });
+    watchers.set(watchId, watcher);
+    sender.once('destroyed', () => {
+      watcher.close();
+      watchers.delete(watchId);
+    });
+    return { success: true, watchId };
+  } catch (error) {
+    return { 
+      success: false, 
+      error: error.message || 'Failed to watch directory' 
+    };
+  }
+});
+
+/**
+ * Stop a directory watcher
+ */
+ipcMain.handle('unwatch-directory', (event, watchId) => {
+  watchers.get(watchId)?.close();
+  watchers.delete(watchId);
+  return { success: true };
+});
+
 /**
  * Read file as ArrayBuffer (for binary files like images)
  */
@@ -22,6 +22,16 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Directory operations
   readDirectory: (dirPath) => ipcRenderer.invoke('read-directory', dirPath),
   createDirectory: (dirPath) => ipcRenderer.invoke('create-directory', dirPath),
+  statFile: (filePath) => ipcRenderer.invoke('stat-file', filePath),
+
+  // Change notifications (external edits to the data directory)
+  watchDirectory: (dirPath) => ipcRenderer.invoke('watch-directory', dirPath),
+  unwatchDirectory: (watchId) => ipcRenderer.invoke('unwatch-directory', watchId),
+  onDirectoryChanged: (callback) => {
+    const listener = (event, watchId, fileName) => callback(watchId, fileName);
+    ipcRenderer.on('directory-changed', listener);
+    return () => ipcRenderer.removeListener('directory-changed', listener);
+  },
   
   // Store operations (replaces localStorage)
   getStoreValue: (key) => ipcRenderer.invoke('store-get', key),
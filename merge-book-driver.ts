@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+/**
+ * Book Merge Driver
+ *
+ * Git merge driver for directory-format books kept in a git repository.
+ * Merges book.json and stories/*.json field by field with BookMergeService
+ * (scenes matched by id, characters and elements by name) instead of line
+ * by line, so concurrent edits to different scenes or fields of a story
+ * merge cleanly.
+ *
+ * Setup, in the repository holding the books:
+ *   git config merge.prompter-book.name "Prompter book merge"
+ *   git config merge.prompter-book.driver "npx tsx /path/to/merge-book-driver.ts %O %A %B %P"
+ *
+ *   plus the .gitattributes and .gitignore lines below
+ *
+ * Usage: npx tsx merge-book-driver.ts <base> <ours> <theirs> [path]
+ *
+ *   base, ours, theirs  Files of the common ancestor and the two versions;
+ *                       the merged file is written over <ours>
+ *   path                Path of the file in the repository (default: <ours>),
+ *                       used to tell book.json from story files and to find
+ *                       the book directory
+ *
+ * Fields edited differently on both sides keep our value and are listed in
+ * merge-conflicts.json in the book directory; the exit status is then 1, so
+ * git reports the file as conflicted. Open the book in the app to choose a
+ * side for each conflict, then `git add` the book's files. Other JSON files
+ * fall back to `git merge-file`.
+ */
+
+// .gitattributes:
+//   prompter-cache/books/*/book.json merge=prompter-book
+//   prompter-cache/books/*/stories/*.json merge=prompter-book
+//
+// .gitignore:
+//   merge-conflicts.json
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { BookMergeService, MERGE_CONFLICTS_FILE } from './src/services/BookMergeService';
+
+function readFile(file: string): string | null {
+  return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : null;
+}
+
+function fileKind(repoPath: string): 'book' | 'story' | null {
+  if (path.basename(repoPath) === 'book.json') return 'book';
+  if (path.basename(path.dirname(repoPath)) === 'stories' && repoPath.endsWith('.json')) return 'story';
+  return null;
+}
+
+function main(args: string[]): number {
+  const [basePath, oursPath, theirsPath, repoPath = oursPath] = args;
+  if (!basePath || !oursPath || !theirsPath) {
+    console.error('Usage: merge-book-driver.ts <base> <ours> <theirs> [path]');
+    return 2;
+  }
+
+  const kind = fileKind(repoPath);
+  if (!kind) {
+    // Not a book file: merge it the way git would
+    const result = spawnSync('git', ['merge-file', oursPath, basePath, theirsPath], { stdio: 'inherit' });
+    return result.status === 0 ? 0 : 1;
+  }
+
+  const ours = readFile(oursPath);
+  const theirs = readFile(theirsPath);
+  if (ours === null || theirs === null) {
+    console.error(`❌ ${repoPath}: missing input file`);
+    return 2;
+  }
+
+  let merged;
+  try {
+    merged = BookMergeService.mergeFile(readFile(basePath), ours, theirs, kind);
+  } catch (error) {
+    // Leave ours in place; git reports the file as conflicted
+    console.error(`❌ ${repoPath}: could not merge (${error instanceof Error ? error.message : error})`);
+    return 1;
+  }
+
+  fs.writeFileSync(oursPath, merged.content);
+  if (merged.conflicts.length === 0) {
+    return 0;
+  }
+
+  const bookDir = kind === 'book' ? path.dirname(repoPath) : path.dirname(path.dirname(repoPath));
+  const conflictsPath = path.join(bookDir, MERGE_CONFLICTS_FILE);
+  const existing = BookMergeService.parseConflictFile(readFile(conflictsPath));
+  fs.mkdirSync(bookDir, { recursive: true });
+  fs.writeFileSync(conflictsPath, BookMergeService.serializeConflictFile([...existing, ...merged.conflicts]));
+
+  console.error(`⚠️  ${repoPath}: ${merged.conflicts.length} conflict(s), listed in ${conflictsPath}`);
+  for (const conflict of merged.conflicts) {
+    console.error(`   - ${conflict.location}: ${conflict.field}`);
+  }
+  return 1;
+}
+
+process.exit(main(process.argv.slice(2)));
@@ -12,9 +12,12 @@ import {
   Tab,
   TextField,
   IconButton,
-  Tooltip
+  Tooltip,
+  Badge,
+  Snackbar,
+  Alert
 } from '@mui/material';
-import { Book as BookIcon, Settings as SettingsIcon } from '@mui/icons-material';
+import { Book as BookIcon, Settings as SettingsIcon, Queue as QueueIcon, ReceiptLong as UsageIcon, Undo as UndoIcon, Redo as RedoIcon, History as HistoryIcon } from '@mui/icons-material';
 import { BackgroundSetup } from './components/BackgroundSetup';
 import { SceneList } from './components/SceneList';
 import { SceneEditor } from './components/SceneEditor';
@@ -30,11 +33,31 @@ import { DirectoryReconnectDialog } from './components/DirectoryReconnectDialog'
 import { ImagePanel } from './components/ImagePanel';
 import { OperationsPanel } from './components/OperationsPanel';
 import { ExperimentPanel } from './components/ExperimentPanel';
+import { GenerationQueueDrawer } from './components/GenerationQueueDrawer';
+import { UsageReportDialog } from './components/UsageReportDialog';
+import { PromptDiffDialog } from './components/PromptDiffDialog';
+import { BookHistoryDrawer } from './components/BookHistoryDrawer';
+import { SaveRecoveryDialog } from './components/SaveRecoveryDialog';
+import { ExternalChangeConflictDialog } from './components/ExternalChangeConflictDialog';
+import { BookMergeDialog } from './components/BookMergeDialog';
 import { ImageStorageService } from './services/ImageStorageService';
 import { FileSystemService } from './services/FileSystemService';
 import type { Scene, Story, GeneratedImage } from './types/Story';
 import type { StoryData } from './types/Story';
 import { BookService } from './services/BookService';
+import { GenerationQueueService } from './services/GenerationQueueService';
+import { BookHistoryService } from './services/BookHistoryService';
+import { BookSnapshotService } from './services/BookSnapshotService';
+import { SaveJournalService } from './services/SaveJournalService';
+import { ImageRetentionService } from './services/ImageRetentionService';
+import type { SaveRecoveryReport } from './types/SaveJournal';
+import { SceneImageGenerationService } from './services/SceneImageGenerationService';
+import { LayoutResolver } from './services/LayoutResolver';
+import { DEFAULT_VARIATION_STRENGTH } from './services/ImageGenerationService';
+import { saveSceneImageToHistory } from './services/GenerationJobExecutor';
+import { useGenerationQueue } from './hooks/useGenerationQueue';
+import { useBookHistory } from './hooks/useBookHistory';
+import { useExternalChanges } from './hooks/useExternalChanges';
 import type { Book } from './models/Book';
 
 const theme = createTheme({
@@ -63,6 +86,13 @@ function App() {
   const [activeBook, setActiveBook] = useState<Book | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [reconnectDialogOpen, setReconnectDialogOpen] = useState(false);
+  const [queueDrawerOpen, setQueueDrawerOpen] = useState(false);
+  const [historyDrawerOpen, setHistoryDrawerOpen] = useState(false);
+  const [usageReportOpen, setUsageReportOpen] = useState(false);
+  const [promptDiffImage, setPromptDiffImage] = useState<GeneratedImage | null>(null);
+  const [saveRecoveryReport, setSaveRecoveryReport] = useState<SaveRecoveryReport | null>(null);
+  const [reproduceStatus, setReproduceStatus] = useState<{ message: string; severity: 'info' | 'success' | 'error' } | null>(null);
+  const { activeCount: activeQueueCount } = useGenerationQueue();
   const hasCheckedDirectory = useRef(false);
 
   // Check if directory handle is available on startup
@@ -90,6 +120,14 @@ function App() {
     checkDirectoryOnStartup();
   }, []); // Empty deps - only run once on mount
 
+  // Scheduled book snapshots (interval from Settings, restarted when it changes)
+  useEffect(() => {
+    BookSnapshotService.startAutoSnapshots().catch(error => {
+      console.error('Failed to start scheduled snapshots:', error);
+    });
+    return () => BookSnapshotService.stopAutoSnapshots();
+  }, []);
+
   const handleStorySelect = (story: Story | null) => {
     setSelectedStory(story);
     setSelectedScene(null); // Reset selected scene when switching stories
@@ -127,10 +165,12 @@ function App() {
     const activeBookData = await BookService.getActiveBookData();
     if (!activeBookData) return;
     
+    let baseImageId: string | undefined;
     const updatedStories = activeBookData.stories.map(s => {
       if (s.id === selectedStory.id) {
         const updatedScenes = s.scenes.map(scene => {
           if (scene.id === selectedScene.id) {
+            baseImageId = scene.imageHistory?.find(img => img.id === imageId)?.baseImageId;
             const updatedHistory = (scene.imageHistory || []).filter(img => img.id !== imageId);
             // Also clear lastGeneratedImage if this was the last image
             const updates: Partial<typeof scene> = { 
@@ -152,11 +192,14 @@ function App() {
     const updatedData = { ...activeBookData, stories: updatedStories };
     await BookService.saveActiveBookData(updatedData);
     
-    // Delete from filesystem
-    ImageStorageService.deleteImage(imageId).catch(error => {
-      console.error('Failed to delete image from filesystem:', error);
-      // Continue anyway - image is already removed from metadata
-    });
+    // Delete from filesystem (with the image before overlays, if stored)
+    for (const id of [imageId, baseImageId]) {
+      if (!id) continue;
+      ImageStorageService.deleteImage(id).catch(error => {
+        console.error('Failed to delete image from filesystem:', error);
+        // Continue anyway - image is already removed from metadata
+      });
+    }
     
     // Update the imageHistory state immediately to refresh the UI
     const newHistory = imageHistory.filter(img => img.id !== imageId);
@@ -233,6 +276,26 @@ function App() {
     setRefreshKey(prev => prev + 1);
   }, [selectedStory, selectedScene, imageHistory]);
 
+  const handleToggleStarImage = useCallback(async (image: GeneratedImage) => {
+    if (!selectedStory || !selectedScene) return;
+
+    const activeBookId = await BookService.getActiveBookId();
+    if (!activeBookId) return;
+
+    const starred = !image.starred;
+    const updated = await ImageRetentionService.setStarred({
+      imageId: image.id,
+      kind: 'scene',
+      bookId: activeBookId,
+      storyId: selectedStory.id,
+      sceneId: selectedScene.id
+    }, starred);
+    if (!updated) return;
+
+    setImageHistory(history => history.map(img => img.id === image.id ? { ...img, starred: starred || undefined } : img));
+    setRefreshKey(prev => prev + 1);
+  }, [selectedStory, selectedScene]);
+
   const handleSaveSpecificImage = useCallback(async (imageUrl: string) => {
     if (!selectedStory || !selectedScene) return;
     
@@ -249,6 +312,93 @@ function App() {
     }
   }, [selectedStory, selectedScene]);
 
+  const handleReproduceImage = useCallback(async (image: GeneratedImage) => {
+    if (!selectedStory || !selectedScene || !image.provenance) return;
+
+    const activeBookId = await BookService.getActiveBookId();
+    const book = activeBookId ? await BookService.getBook(activeBookId) : null;
+    const story = book?.stories.find(s => s.id === selectedStory.id);
+    const scene = story?.scenes.find(s => s.id === selectedScene.id);
+    if (!book || !story || !scene) return;
+
+    setReproduceStatus({ message: `Reproducing image with ${image.provenance.model}...`, severity: 'info' });
+    try {
+      const result = await SceneImageGenerationService.reproduceSceneImage(
+        image.provenance,
+        { scene, story, book },
+        image.id
+      );
+      const imageId = await saveSceneImageToHistory(
+        book.id,
+        story.id,
+        scene.id,
+        result.imageUrl,
+        result.provenance.model,
+        result.provenance,
+        result.baseImageUrl
+      );
+
+      const url = await ImageStorageService.getImage(imageId);
+      if (url) {
+        setImageUrl(url);
+      }
+      await handleStoryUpdate();
+      setReproduceStatus({ message: 'Image reproduced and added to history', severity: 'success' });
+    } catch (error) {
+      console.error('Failed to reproduce image:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      setReproduceStatus({ message: `Failed to reproduce image: ${message}`, severity: 'error' });
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedStory, selectedScene]);
+
+  const handleMoreLikeThis = useCallback(async (image: GeneratedImage) => {
+    if (!selectedStory || !selectedScene) return;
+
+    const activeBookId = await BookService.getActiveBookId();
+    const book = activeBookId ? await BookService.getBook(activeBookId) : null;
+    const story = book?.stories.find(s => s.id === selectedStory.id);
+    const scene = story?.scenes.find(s => s.id === selectedScene.id);
+    if (!book || !story || !scene) return;
+
+    // Same model and strategy as the chosen image, current scene content
+    const model = image.provenance?.model ?? image.modelName;
+    setReproduceStatus({ message: `Generating a variation with ${model}...`, severity: 'info' });
+    try {
+      const result = await SceneImageGenerationService.generateCompleteSceneImageWithProvenance({
+        scene,
+        story,
+        book,
+        model,
+        // @ts-expect-error: Type mismatch between model Story and type Story (Character interface differences)
+        aspectRatio: LayoutResolver.getAspectRatio(scene, story, book),
+        promptStrategy: image.provenance?.requestedPromptStrategy,
+        variationOf: { imageId: image.baseImageId ?? image.id, strength: DEFAULT_VARIATION_STRENGTH }
+      });
+      const imageId = await saveSceneImageToHistory(
+        book.id,
+        story.id,
+        scene.id,
+        result.imageUrl,
+        model,
+        result.provenance,
+        result.baseImageUrl
+      );
+
+      const url = await ImageStorageService.getImage(imageId);
+      if (url) {
+        setImageUrl(url);
+      }
+      await handleStoryUpdate();
+      setReproduceStatus({ message: 'Variation added to history', severity: 'success' });
+    } catch (error) {
+      console.error('Failed to generate variation:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      setReproduceStatus({ message: `Failed to generate variation: ${message}`, severity: 'error' });
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedStory, selectedScene]);
+
   const handleStoryUpdate = async () => {
     setRefreshKey(prev => prev + 1);
     // Update selected story if it still exists
@@ -271,6 +421,23 @@ function App() {
     }
   };
 
+  // Undo/redo replaced the book instance - reload everything derived from it
+  const bookHistory = useBookHistory(activeBook?.id ?? null, {
+    enableShortcuts: true,
+    onRestore: async () => {
+      await handleBookUpdate();
+      await handleStoryUpdate();
+    }
+  });
+
+  // Book files edited outside the app are reloaded; conflicts with unsaved changes ask the user
+  const externalChanges = useExternalChanges({
+    onBooksChanged: async () => {
+      await handleBookUpdate();
+      await handleStoryUpdate();
+    }
+  });
+
   const handleDirectoryReconnect = () => {
     console.log('📁 Directory reconnected - reloading data...');
     setReconnectDialogOpen(false);
@@ -369,10 +536,27 @@ function App() {
         const book = await BookService.getBook(activeBookId);
         setActiveBook(book);
       }
+
+      // Saves interrupted by a crash were recovered while the books loaded
+      setSaveRecoveryReport(SaveJournalService.consumeRecoveryReport());
     };
     loadData();
   }, []);
 
+  // Restore the persisted generation queues of every book (each is loaded
+  // once, so this also picks up books that appear later, e.g. after
+  // reconnecting the storage folder) and the active book's undo history
+  useEffect(() => {
+    GenerationQueueService.loadAllQueues().catch(error => {
+      console.error('Failed to load generation queues:', error);
+    });
+    if (activeBook) {
+      BookHistoryService.loadBookHistory(activeBook.id).catch(error => {
+        console.error('Failed to load book history:', error);
+      });
+    }
+  }, [activeBook]);
+
   const handleTabChange = async (_event: React.SyntheticEvent, newValue: number) => {
     setActiveTab(newValue);
     
@@ -399,6 +583,52 @@ function App() {
           <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
             Story Prompt Editor
           </Typography>
+          <Tooltip title="Undo (Ctrl+Z)">
+            <span>
+              <IconButton color="inherit" onClick={bookHistory.undo} disabled={!bookHistory.canUndo}>
+                <UndoIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title="Redo (Ctrl+Shift+Z)">
+            <span>
+              <IconButton color="inherit" onClick={bookHistory.redo} disabled={!bookHistory.canRedo}>
+                <RedoIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title="History">
+            <span>
+              <IconButton
+                color="inherit"
+                onClick={() => setHistoryDrawerOpen(true)}
+                disabled={!activeBook}
+                sx={{ mr: 1 }}
+              >
+                <HistoryIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title="Generation Queue">
+            <IconButton 
+              color="inherit" 
+              onClick={() => setQueueDrawerOpen(true)}
+              sx={{ mr: 1 }}
+            >
+              <Badge badgeContent={activeQueueCount} color="secondary">
+                <QueueIcon />
+              </Badge>
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Usage & Costs">
+            <IconButton 
+              color="inherit" 
+              onClick={() => setUsageReportOpen(true)}
+              sx={{ mr: 1 }}
+            >
+              <UsageIcon />
+            </IconButton>
+          </Tooltip>
           <Tooltip title="Settings">
             <IconButton 
               color="inherit" 
@@ -417,6 +647,73 @@ function App() {
         onClose={() => setSettingsOpen(false)} 
       />
       
+      <GenerationQueueDrawer
+        open={queueDrawerOpen}
+        onClose={() => setQueueDrawerOpen(false)}
+      />
+      
+      <SaveRecoveryDialog
+        report={saveRecoveryReport}
+        onClose={() => setSaveRecoveryReport(null)}
+      />
+
+      <ExternalChangeConflictDialog
+        conflict={externalChanges.pendingMerges.length > 0 ? null : externalChanges.conflicts[0] ?? null}
+        onResolve={externalChanges.resolveConflict}
+        onMerge={externalChanges.mergeConflict}
+      />
+
+      <BookMergeDialog
+        merge={externalChanges.pendingMerges[0] ?? null}
+        onComplete={externalChanges.completeMerge}
+        onDiscard={externalChanges.discardMerge}
+      />
+
+      <Snackbar
+        open={externalChanges.lastChange !== null && externalChanges.lastChange.kind !== 'conflict'}
+        autoHideDuration={6000}
+        onClose={externalChanges.dismissLastChange}
+      >
+        <Alert severity="info" onClose={externalChanges.dismissLastChange}>
+          {externalChanges.lastChange?.kind === 'added' && `"${externalChanges.lastChange.bookTitle}" appeared on disk and was loaded`}
+          {externalChanges.lastChange?.kind === 'reloaded' && `"${externalChanges.lastChange.bookTitle}" was reloaded with changes made outside the app`}
+          {externalChanges.lastChange?.kind === 'removed' && `"${externalChanges.lastChange.bookTitle}" was deleted on disk and removed from the app`}
+          {externalChanges.lastChange?.kind === 'resolved' && `Kept the app's version of "${externalChanges.lastChange.bookTitle}"`}
+          {externalChanges.lastChange?.kind === 'merged' && `Saved the merged version of "${externalChanges.lastChange.bookTitle}"`}
+        </Alert>
+      </Snackbar>
+
+      <BookHistoryDrawer
+        open={historyDrawerOpen}
+        onClose={() => setHistoryDrawerOpen(false)}
+        bookTitle={activeBook?.title}
+        history={bookHistory}
+      />
+      
+      <UsageReportDialog
+        open={usageReportOpen}
+        onClose={() => setUsageReportOpen(false)}
+        activeBook={activeBook}
+      />
+
+      <PromptDiffDialog
+        open={promptDiffImage !== null}
+        onClose={() => setPromptDiffImage(null)}
+        image={promptDiffImage}
+        storyId={selectedStory?.id ?? null}
+        sceneId={selectedScene?.id ?? null}
+      />
+
+      <Snackbar
+        open={reproduceStatus !== null}
+        autoHideDuration={reproduceStatus?.severity === 'info' ? null : 6000}
+        onClose={() => setReproduceStatus(null)}
+      >
+        <Alert severity={reproduceStatus?.severity ?? 'info'} onClose={() => setReproduceStatus(null)}>
+          {reproduceStatus?.message}
+        </Alert>
+      </Snackbar>
+      
       <DirectoryReconnectDialog
         open={reconnectDialogOpen}
         onReconnect={handleDirectoryReconnect}
@@ -544,6 +841,10 @@ function App() {
                   onDeleteImage={handleDeleteImage}
                   onSaveSpecificImage={handleSaveSpecificImage}
                   onCleanupMissingImages={handleCleanupMissingImages}
+                  onReproduceImage={handleReproduceImage}
+                  onMoreLikeThis={handleMoreLikeThis}
+                  onShowPromptDiff={setPromptDiffImage}
+                  onToggleStarImage={handleToggleStarImage}
                 />
               </Box>
             </Box>
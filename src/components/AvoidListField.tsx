@@ -0,0 +1,76 @@
+import React from 'react';
+import { Autocomplete, Box, Chip, TextField, Typography } from '@mui/material';
+import type { AvoidListEntry } from '../services/AvoidListResolver';
+import { AvoidListResolver } from '../services/AvoidListResolver';
+
+// Common unwanted artifacts offered as suggestions
+const AVOID_SUGGESTIONS = [
+  'text',
+  'watermarks',
+  'signatures',
+  'logos',
+  'extra limbs',
+  'extra fingers',
+  'distorted faces',
+  'blurry details',
+  'borders or frames',
+  'speech bubbles'
+];
+
+interface AvoidListFieldProps {
+  /** Avoid-list at this level */
+  value: string[];
+  onChange: (value: string[] | undefined) => void;
+  label?: string;
+  helperText?: string;
+  /** Terms inherited from higher levels (shown read-only) */
+  inherited?: AvoidListEntry[];
+}
+
+/**
+ * Chip input for a book, story or scene avoid-list (negative prompt terms).
+ * Type a term and press Enter, or pick a suggestion.
+ */
+export const AvoidListField: React.FC<AvoidListFieldProps> = ({
+  value,
+  onChange,
+  label = 'Avoid',
+  helperText,
+  inherited = []
+}) => {
+  return (
+    <Box>
+      <Autocomplete
+        multiple
+        freeSolo
+        options={AVOID_SUGGESTIONS.filter(s => !value.some(v => v.toLowerCase() === s))}
+        value={value}
+        onChange={(_, newValue) => onChange(AvoidListResolver.normalize(newValue))}
+        renderValue={(tags, getItemProps) =>
+          tags.map((tag, index) => {
+            const { key, ...itemProps } = getItemProps({ index });
+            return <Chip key={key} label={tag} size="small" color="error" variant="outlined" {...itemProps} />;
+          })
+        }
+        renderInput={(params) => (
+          <TextField
+            {...params}
+            label={label}
+            placeholder={value.length === 0 ? 'e.g., watermarks, extra limbs' : undefined}
+            helperText={helperText}
+          />
+        )}
+      />
+      {inherited.length > 0 && (
+        <Box display="flex" alignItems="center" flexWrap="wrap" gap={0.5} mt={1}>
+          <Typography variant="caption" color="text.secondary" sx={{ mr: 0.5 }}>
+            Also avoided:
+          </Typography>
+          {inherited.map(entry => (
+            <Chip key={`${entry.source}-${entry.term}`} label={`${entry.term} (${entry.source})`} size="small" />
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
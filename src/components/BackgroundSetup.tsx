@@ -10,6 +10,7 @@ import {
 import { Save as SaveIcon } from '@mui/icons-material';
 import { BookService } from '../services/BookService';
 import type { Story } from '../types/Story';
+import { AvoidListField } from './AvoidListField';
 
 interface BackgroundSetupProps {
   story: Story | null;
@@ -18,6 +19,7 @@ interface BackgroundSetupProps {
 
 export const BackgroundSetup: React.FC<BackgroundSetupProps> = ({ story, onStoryUpdate }) => {
   const [backgroundSetup, setBackgroundSetup] = useState('');
+  const [avoid, setAvoid] = useState<string[]>([]);
   const [isDirty, setIsDirty] = useState(false);
   const autoSaveTimerRef = useRef<number | null>(null);
   const isEditingRef = useRef(false);
@@ -31,6 +33,7 @@ export const BackgroundSetup: React.FC<BackgroundSetupProps> = ({ story, onStory
       setBackgroundSetup('');
       setIsDirty(false);
     }
+    setAvoid(story?.avoid || []);
   }, [story]);
 
   // Cleanup timer on unmount
@@ -63,6 +66,20 @@ export const BackgroundSetup: React.FC<BackgroundSetupProps> = ({ story, onStory
     isEditingRef.current = false;
   };
 
+  const handleAvoidChange = async (value: string[] | undefined) => {
+    setAvoid(value || []);
+    if (!story) return;
+
+    const activeBookData = await BookService.getActiveBookData();
+    if (!activeBookData) return;
+
+    const updatedStories = activeBookData.stories.map(s =>
+      s.id === story.id ? { ...s, avoid: value, updatedAt: new Date() } : s
+    );
+    await BookService.saveActiveBookData({ ...activeBookData, stories: updatedStories });
+    onStoryUpdate();
+  };
+
   const handleSave = () => {
     if (story) {
       performSave(backgroundSetup);
@@ -130,6 +147,15 @@ export const BackgroundSetup: React.FC<BackgroundSetupProps> = ({ story, onStory
         onChange={handleChange}
         helperText="This will serve as the foundation for all your scenes. Changes are auto-saved."
       />
+
+      <Box mt={2}>
+        <AvoidListField
+          label="Avoid in this story's images"
+          value={avoid}
+          onChange={handleAvoidChange}
+          helperText="Added to the book's avoid-list for every scene in this story."
+        />
+      </Box>
     </Paper>
   );
 }; 
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -27,116 +27,109 @@ import {
 } from '@mui/icons-material';
 import type { Story } from '../types/Story';
 import type { Book } from '../types/Book';
-import { IMAGE_MODELS } from '../constants/imageModels';
+import type { GenerationJob, GenerationJobStatus } from '../types/GenerationQueue';
+import type { BudgetCheckResult } from '../types/UsageLedger';
+import { getImageModels } from '../constants/imageModels';
+import { BookService } from '../services/BookService';
+import { GenerationQueueService } from '../services/GenerationQueueService';
+import { UsageLedgerService } from '../services/UsageLedgerService';
+import { useGenerationQueue } from '../hooks/useGenerationQueue';
+import type { PromptStrategyOption } from '../types/PromptTemplate';
 
 interface BatchImageGenerationDialogProps {
   open: boolean;
   onClose: () => void;
   story: Story;
   activeBook: Book | null;
-  onGenerate: (sceneId: string, modelName: string, promptStrategy?: 'auto' | 'legacy' | 'gemini') => Promise<void>;
 }
 
-type SceneStatus = 'pending' | 'generating' | 'completed' | 'error';
-
-interface SceneProgress {
-  sceneId: string;
-  status: SceneStatus;
-  error?: string;
-}
+type SceneStatus = GenerationJobStatus;
 
 export const BatchImageGenerationDialog: React.FC<BatchImageGenerationDialogProps> = ({
   open,
   onClose,
   story,
-  activeBook: _activeBook,
-  onGenerate
+  activeBook
 }) => {
-  const [selectedModel, setSelectedModel] = useState(IMAGE_MODELS[0].value);
-  const [promptStrategy, setPromptStrategy] = useState<'auto' | 'legacy' | 'gemini'>('auto');
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [progress, setProgress] = useState<Map<string, SceneProgress>>(new Map());
-  const [currentSceneIndex, setCurrentSceneIndex] = useState(0);
-  const [stopRequested, setStopRequested] = useState(false);
+  const [selectedModel, setSelectedModel] = useState(getImageModels()[0].value);
+  const [promptStrategy, setPromptStrategy] = useState<PromptStrategyOption>('auto');
+  const [jobIds, setJobIds] = useState<Set<string>>(new Set());
+  const [enqueueError, setEnqueueError] = useState<string | null>(null);
+  const [budgetCheck, setBudgetCheck] = useState<BudgetCheckResult | null>(null);
 
-  const handleStart = async () => {
-    setIsGenerating(true);
-    setStopRequested(false);
-    setCurrentSceneIndex(0);
+  // Only track the jobs this dialog queued - the queue itself is global
+  const jobFilter = useCallback((job: GenerationJob) => jobIds.has(job.id), [jobIds]);
+  const { jobs, paused } = useGenerationQueue(jobFilter);
 
-    // Initialize progress for all scenes
-    const initialProgress = new Map<string, SceneProgress>();
-    story.scenes.forEach(scene => {
-      initialProgress.set(scene.id, { sceneId: scene.id, status: 'pending' });
-    });
-    setProgress(initialProgress);
+  const progress = new Map<string, GenerationJob>();
+  jobs.forEach(job => {
+    if (job.sceneId) progress.set(job.sceneId, job);
+  });
+  const isGenerating = jobs.some(j => j.status === 'pending' || j.status === 'running');
+  const estimatedCost = UsageLedgerService.estimateImageCost(selectedModel, story.scenes.length);
 
-    // Generate images for each scene
-    for (let i = 0; i < story.scenes.length; i++) {
-      if (stopRequested) {
-        break;
-      }
-
-      const scene = story.scenes[i];
-      setCurrentSceneIndex(i);
-
-      // Update status to generating
-      setProgress(prev => {
-        const newProgress = new Map(prev);
-        newProgress.set(scene.id, { sceneId: scene.id, status: 'generating' });
-        return newProgress;
-      });
+  const handleStart = async () => {
+    setEnqueueError(null);
 
-      try {
-        await onGenerate(scene.id, selectedModel, promptStrategy);
-        
-        // Update status to completed
-        setProgress(prev => {
-          const newProgress = new Map(prev);
-          newProgress.set(scene.id, { sceneId: scene.id, status: 'completed' });
-          return newProgress;
-        });
-      } catch (error) {
-        // Update status to error
-        setProgress(prev => {
-          const newProgress = new Map(prev);
-          newProgress.set(scene.id, {
-            sceneId: scene.id,
-            status: 'error',
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-          return newProgress;
-        });
-      }
+    const bookId = activeBook?.id ?? await BookService.getActiveBookId();
+    if (!bookId) {
+      setEnqueueError('No active book selected.');
+      return;
+    }
 
-      // Small delay between generations to avoid rate limiting
-      if (i < story.scenes.length - 1 && !stopRequested) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+    // Check the budget cap on every click, counting jobs already in the queue.
+    // A warning needs a second click; it only counts as confirmed if the
+    // projected spend hasn't grown since it was shown.
+    const check = await UsageLedgerService.checkBudget(bookId, estimatedCost, GenerationQueueService.getState().jobs);
+    const confirmed = check.status === 'warn' && budgetCheck?.status === 'warn'
+      && check.spent + check.queued + check.planned <= budgetCheck.spent + budgetCheck.queued + budgetCheck.planned;
+    if (check.status !== 'ok' && !confirmed) {
+      setBudgetCheck(check);
+      return;
     }
+    setBudgetCheck(null);
 
-    setIsGenerating(false);
+    // Jobs run in scene order; the queue handles pacing and retries
+    try {
+      const created = await GenerationQueueService.enqueue(story.scenes.map((scene, index) => ({
+        kind: 'scene' as const,
+        bookId,
+        storyId: story.id,
+        sceneId: scene.id,
+        label: `${story.title} #${index + 1}: ${scene.title}`,
+        model: selectedModel,
+        promptStrategy
+      })));
+      setJobIds(new Set(created.map(j => j.id)));
+    } catch (error) {
+      setEnqueueError(`Could not queue the images: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   };
 
-  const handleStop = () => {
-    setStopRequested(true);
+  const handleStop = async () => {
+    for (const job of jobs) {
+      if (job.status === 'pending') {
+        await GenerationQueueService.cancel(job.id);
+      }
+    }
   };
 
   const handleClose = () => {
-    if (!isGenerating) {
-      setProgress(new Map());
-      setCurrentSceneIndex(0);
-      onClose();
-    }
+    // Closing is always safe - queued jobs keep running in the background
+    setJobIds(new Set());
+    setEnqueueError(null);
+    setBudgetCheck(null);
+    onClose();
   };
 
   const getStatusIcon = (status: SceneStatus) => {
     switch (status) {
       case 'completed':
         return <CheckIcon color="success" />;
-      case 'error':
+      case 'failed':
+      case 'cancelled':
         return <ErrorIcon color="error" />;
-      case 'generating':
+      case 'running':
         return <GeneratingIcon color="primary" />;
       default:
         return <PendingIcon color="disabled" />;
@@ -147,17 +140,17 @@ export const BatchImageGenerationDialog: React.FC<BatchImageGenerationDialogProp
     switch (status) {
       case 'completed':
         return 'success';
-      case 'error':
+      case 'failed':
         return 'error';
-      case 'generating':
+      case 'running':
         return 'primary';
       default:
         return 'default';
     }
   };
 
-  const completedCount = Array.from(progress.values()).filter(p => p.status === 'completed').length;
-  const errorCount = Array.from(progress.values()).filter(p => p.status === 'error').length;
+  const completedCount = jobs.filter(j => j.status === 'completed').length;
+  const errorCount = jobs.filter(j => j.status === 'failed').length;
   const progressPercentage = story.scenes.length > 0 
     ? (completedCount / story.scenes.length) * 100 
     : 0;
@@ -168,23 +161,12 @@ export const BatchImageGenerationDialog: React.FC<BatchImageGenerationDialogProp
       onClose={handleClose} 
       maxWidth="md" 
       fullWidth
-      disableEscapeKeyDown={isGenerating}
-      slotProps={{
-        backdrop: {
-          // Prevent closing by clicking backdrop during generation
-          onClick: (e) => {
-            if (isGenerating) {
-              e.stopPropagation();
-            }
-          }
-        }
-      }}
     >
       <DialogTitle>
         Generate All Scene Images
         {isGenerating && (
           <Typography variant="caption" display="block" color="primary" sx={{ mt: 0.5 }}>
-            Generation in progress... Please wait or click Stop
+            {paused ? 'Queue is paused - resume it from the queue drawer' : 'Generation in progress... You can close this dialog; the queue keeps running'}
           </Typography>
         )}
       </DialogTitle>
@@ -197,7 +179,22 @@ export const BatchImageGenerationDialog: React.FC<BatchImageGenerationDialogProp
           
           {!isGenerating && progress.size === 0 && (
             <Alert severity="info" sx={{ mt: 2 }}>
-              Select a model and prompt strategy, then click "Start Generation". Images will be generated one at a time to avoid rate limits.
+              Select a model and prompt strategy, then click "Add to Queue". Jobs run in the background queue, survive app restarts, and retry automatically on rate limits.
+            </Alert>
+          )}
+
+          {enqueueError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {enqueueError}
+            </Alert>
+          )}
+
+          {budgetCheck && budgetCheck.status !== 'ok' && (
+            <Alert severity={budgetCheck.status === 'block' ? 'error' : 'warning'} sx={{ mt: 2 }}>
+              {budgetCheck.message}
+              {budgetCheck.status === 'block'
+                ? ' Raise the budget in Settings to continue.'
+                : ' Click "Queue Anyway" to continue.'}
             </Alert>
           )}
         </Box>
@@ -210,9 +207,12 @@ export const BatchImageGenerationDialog: React.FC<BatchImageGenerationDialogProp
               <Select
                 value={selectedModel}
                 label="Image Generation Model"
-                onChange={(e) => setSelectedModel(e.target.value)}
+                onChange={(e) => {
+                  setSelectedModel(e.target.value);
+                  setBudgetCheck(null);
+                }}
               >
-                {IMAGE_MODELS.map((model) => (
+                {getImageModels().map((model) => (
                   <MenuItem key={model.value} value={model.value}>
                     {model.label}
                   </MenuItem>
@@ -220,16 +220,23 @@ export const BatchImageGenerationDialog: React.FC<BatchImageGenerationDialogProp
               </Select>
             </FormControl>
 
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: -1, mb: 2 }}>
+              Estimated cost: {estimatedCost > 0
+                ? `~${UsageLedgerService.formatCost(estimatedCost)} for ${story.scenes.length} image${story.scenes.length === 1 ? '' : 's'}`
+                : 'no pricing available for this model'}
+            </Typography>
+
             <FormControl fullWidth sx={{ mb: 3 }}>
               <InputLabel>Prompt Strategy</InputLabel>
               <Select
                 value={promptStrategy}
                 label="Prompt Strategy"
-                onChange={(e) => setPromptStrategy(e.target.value as 'auto' | 'legacy' | 'gemini')}
+                onChange={(e) => setPromptStrategy(e.target.value as PromptStrategyOption)}
               >
                 <MenuItem value="auto">Auto (Detect from Model)</MenuItem>
                 <MenuItem value="legacy">Legacy (Simple)</MenuItem>
                 <MenuItem value="gemini">Gemini (Structured)</MenuItem>
+                <MenuItem value="template">Book Template (Custom)</MenuItem>
               </Select>
             </FormControl>
             
@@ -240,9 +247,12 @@ export const BatchImageGenerationDialog: React.FC<BatchImageGenerationDialogProp
               <Typography variant="caption" display="block" gutterBottom>
                 <strong>Legacy:</strong> Simple concatenated prompts (works with all models)
               </Typography>
-              <Typography variant="caption" display="block">
+              <Typography variant="caption" display="block" gutterBottom>
                 <strong>Gemini:</strong> Structured prompts optimized for Gemini/Imagen models
               </Typography>
+              <Typography variant="caption" display="block">
+                <strong>Book Template:</strong> The book's own prompt templates
+              </Typography>
             </Alert>
           </>
         )}
@@ -281,7 +291,7 @@ export const BatchImageGenerationDialog: React.FC<BatchImageGenerationDialogProp
                   <ListItem
                     key={scene.id}
                     sx={{
-                      bgcolor: index === currentSceneIndex && isGenerating 
+                      bgcolor: status === 'running'
                         ? 'action.selected' 
                         : 'transparent',
                       borderRadius: 1,
@@ -305,9 +315,9 @@ export const BatchImageGenerationDialog: React.FC<BatchImageGenerationDialogProp
                         </Box>
                       }
                       secondary={
-                        sceneProgress?.error && (
+                        sceneProgress?.lastError && (
                           <Typography variant="caption" color="error">
-                            Error: {sceneProgress.error}
+                            Error: {sceneProgress.lastError}
                           </Typography>
                         )
                       }
@@ -327,21 +337,22 @@ export const BatchImageGenerationDialog: React.FC<BatchImageGenerationDialogProp
       }}>
         {isGenerating && (
           <Typography variant="caption" color="text.secondary" sx={{ flexGrow: 1, ml: 2 }}>
-            ⚠️ Do not close this window or navigate away during generation
+            Progress is also shown in the generation queue drawer
           </Typography>
         )}
         
-        <Button onClick={handleClose} disabled={isGenerating}>
-          {progress.size > 0 && !isGenerating ? 'Close' : 'Cancel'}
+        <Button onClick={handleClose}>
+          {progress.size > 0 ? 'Close' : 'Cancel'}
         </Button>
         
         {!isGenerating && progress.size === 0 && (
           <Button 
             onClick={handleStart} 
             variant="contained" 
-            color="primary"
+            color={budgetCheck?.status === 'warn' ? 'warning' : 'primary'}
+            disabled={budgetCheck?.status === 'block'}
           >
-            Start Generation
+            {budgetCheck?.status === 'warn' ? 'Queue Anyway' : 'Add to Queue'}
           </Button>
         )}
         
@@ -351,7 +362,7 @@ export const BatchImageGenerationDialog: React.FC<BatchImageGenerationDialogProp
             variant="contained" 
             color="error"
           >
-            Stop Generation
+            Cancel Remaining
           </Button>
         )}
       </DialogActions>
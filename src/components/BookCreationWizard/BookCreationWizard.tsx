@@ -453,6 +453,9 @@ You can edit these or add more characters below.`,
       const { BookService } = await import('../../services/BookService');
       const book = await BookService.createBook(bookData);
 
+      // Move the wizard's generation costs to the new book's usage ledger
+      await BookCreationWizardService.assignUsageToBook(book.id);
+
       // Clear wizard state
       await BookCreationWizardService.clearWizardState();
       clearState();
@@ -0,0 +1,107 @@
+import React from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  IconButton,
+  Button,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Divider,
+  Chip
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Undo as UndoIcon,
+  Redo as RedoIcon,
+  RadioButtonChecked as CurrentIcon
+} from '@mui/icons-material';
+import type { BookHistoryEntrySummary } from '../types/BookHistory';
+import type { UseBookHistoryReturn } from '../hooks/useBookHistory';
+import { PERSISTED_HISTORY_LIMIT } from '../services/BookHistoryService';
+
+interface BookHistoryDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  bookTitle?: string;
+  history: UseBookHistoryReturn;
+}
+
+const formatTime = (timestamp: Date): string =>
+  timestamp.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Drawer listing the active book's undo/redo history
+ *
+ * Newest at the top: undone operations (redo stack), the current state, then
+ * past operations. Clicking an entry jumps to it, undoing or redoing every
+ * operation in between.
+ */
+export const BookHistoryDrawer: React.FC<BookHistoryDrawerProps> = ({ open, onClose, bookTitle, history }) => {
+  const { undoStack, redoStack, canUndo, canRedo, undo, redo, moveTo } = history;
+
+  // Furthest redo first, so the list reads top-to-bottom as newest-to-oldest
+  const futureEntries = [...redoStack].reverse();
+
+  const renderEntry = (entry: BookHistoryEntrySummary, undone: boolean) => (
+    <ListItemButton key={entry.id} onClick={() => moveTo(entry.id)} dense>
+      <ListItemIcon sx={{ minWidth: 36 }}>
+        {undone ? <RedoIcon fontSize="small" color="disabled" /> : <UndoIcon fontSize="small" color="action" />}
+      </ListItemIcon>
+      <ListItemText
+        primary={entry.label}
+        secondary={formatTime(entry.timestamp)}
+        slotProps={{
+          primary: { variant: 'body2', noWrap: true, color: undone ? 'text.disabled' : 'text.primary' }
+        }}
+      />
+    </ListItemButton>
+  );
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box sx={{ width: 380, p: 2, display: 'flex', flexDirection: 'column', height: '100%' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6" sx={{ flex: 1 }}>
+            History
+          </Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {bookTitle ? `${bookTitle} · ` : ''}Ctrl+Z to undo, Ctrl+Shift+Z to redo. The last {PERSISTED_HISTORY_LIMIT} steps are kept across reloads.
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 1, my: 1 }}>
+          <Button variant="outlined" size="small" startIcon={<UndoIcon />} disabled={!canUndo} onClick={undo}>
+            Undo
+          </Button>
+          <Button variant="outlined" size="small" startIcon={<RedoIcon />} disabled={!canRedo} onClick={redo}>
+            Redo
+          </Button>
+        </Box>
+
+        <Divider />
+
+        {!canUndo && !canRedo ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            No changes yet. Edits to characters, elements, scenes, layouts and style will appear here.
+          </Typography>
+        ) : (
+          <List dense sx={{ overflow: 'auto', flex: 1 }}>
+            {futureEntries.map(entry => renderEntry(entry, true))}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, px: 2, py: 1 }}>
+              <CurrentIcon fontSize="small" color="primary" />
+              <Chip label="Current state" size="small" color="primary" variant="outlined" />
+            </Box>
+            {undoStack.map(entry => renderEntry(entry, false))}
+          </List>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Alert,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Divider,
+  FormControlLabel
+} from '@mui/material';
+import {
+  FactCheck as FactCheckIcon,
+  Preview as PreviewIcon,
+  Build as BuildIcon
+} from '@mui/icons-material';
+import { BookIntegrityService } from '../services/BookIntegrityService';
+import type {
+  IntegrityFixResult,
+  IntegrityIssue,
+  IntegrityReport,
+  IntegritySeverity
+} from '../types/BookIntegrity';
+
+const SEVERITY_LABELS: Record<IntegritySeverity, string> = {
+  error: 'Errors',
+  warning: 'Warnings',
+  info: 'Info'
+};
+
+/**
+ * Whole-book integrity check with selectable fixes, a dry-run preview and
+ * apply (Operations panel section)
+ */
+export const BookIntegrityPanel: React.FC = () => {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [preview, setPreview] = useState<IntegrityFixResult | null>(null);
+  const [applied, setApplied] = useState<IntegrityFixResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedIssues = report?.issues.filter(issue => selectedIds.has(issue.id)) ?? [];
+
+  const runCheck = async () => {
+    setBusy(true);
+    setError(null);
+    setPreview(null);
+    try {
+      const result = await BookIntegrityService.checkAll();
+      setReport(result);
+      // Errors and warnings are selected for fixing by default
+      setSelectedIds(new Set(result.issues.filter(issue => issue.fix && issue.severity !== 'info').map(issue => issue.id)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Integrity check failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCheck = () => {
+    setApplied(null);
+    runCheck();
+  };
+
+  const handlePreview = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setPreview(await BookIntegrityService.applyFixes(selectedIssues, { dryRun: true }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!window.confirm(`Apply ${selectedIssues.length} fix(es)? Affected books are snapshotted first.`)) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      setApplied(await BookIntegrityService.applyFixes(selectedIssues));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Applying fixes failed');
+      setBusy(false);
+      return;
+    }
+    await runCheck();
+  };
+
+  const toggleIssue = (issue: IntegrityIssue) => {
+    setPreview(null);
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(issue.id)) {
+        next.delete(issue.id);
+      } else {
+        next.add(issue.id);
+      }
+      return next;
+    });
+  };
+
+  const toggleGroup = (issues: IntegrityIssue[], checked: boolean) => {
+    setPreview(null);
+    setSelectedIds(current => {
+      const next = new Set(current);
+      issues.filter(issue => issue.fix).forEach(issue => (checked ? next.add(issue.id) : next.delete(issue.id)));
+      return next;
+    });
+  };
+
+  const renderFixResult = (result: IntegrityFixResult) => (
+    <Box>
+      {result.bookChanges.map(change => (
+        <Box key={change.bookId} sx={{ mb: 1 }}>
+          <Typography variant="subtitle2">{change.bookTitle}</Typography>
+          {change.diff.bookChanges.map(line => (
+            <Typography key={line} variant="body2" sx={{ pl: 2 }}>• {line}</Typography>
+          ))}
+          {change.diff.stories.filter(story => story.status !== 'unchanged').map(story => (
+            <Box key={story.storyId} sx={{ pl: 2 }}>
+              <Typography variant="body2">{story.title}</Typography>
+              {story.changes.map(line => (
+                <Typography key={line} variant="body2" color="text.secondary" sx={{ pl: 2 }}>• {line}</Typography>
+              ))}
+            </Box>
+          ))}
+        </Box>
+      ))}
+      {result.deletedFiles.length > 0 && (
+        <Box sx={{ mb: 1 }}>
+          <Typography variant="subtitle2">
+            {result.dryRun ? 'Files to move' : 'Files moved'} to prompter-cache/removed-images ({result.deletedFiles.length})
+          </Typography>
+          {result.deletedFiles.map(path => (
+            <Typography key={path} variant="body2" sx={{ pl: 2, fontFamily: 'monospace' }}>{path}</Typography>
+          ))}
+        </Box>
+      )}
+      {result.skipped.length > 0 && (
+        <Typography variant="body2" color="text.secondary">
+          {result.skipped.length} fix(es) no longer applied and were skipped.
+        </Typography>
+      )}
+    </Box>
+  );
+
+  return (
+    <Paper elevation={2} sx={{ p: 3, mb: 3 }}>
+      <Typography variant="h5" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <FactCheckIcon /> Book Integrity
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Checks every book for dangling scene references, missing and orphaned image files, colliding
+        book and story names, broken layouts and stale selected images.
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+        <Button variant="contained" startIcon={busy ? <CircularProgress size={20} /> : <FactCheckIcon />} onClick={handleCheck} disabled={busy}>
+          Check Books
+        </Button>
+        <Button variant="outlined" startIcon={<PreviewIcon />} onClick={handlePreview} disabled={busy || selectedIssues.length === 0}>
+          Preview Fixes
+        </Button>
+        <Button variant="contained" color="warning" startIcon={<BuildIcon />} onClick={handleApply} disabled={busy || selectedIssues.length === 0}>
+          Apply Fixes ({selectedIssues.length})
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {applied && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setApplied(null)}>
+          <Typography variant="body2" sx={{ mb: 1 }}>Applied {applied.applied.length} fix(es).</Typography>
+          {renderFixResult(applied)}
+        </Alert>
+      )}
+
+      {report && (
+        <Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            Checked {report.booksChecked} book(s) and {report.imageFilesChecked} image file(s) at {report.checkedAt.toLocaleTimeString()}.
+          </Typography>
+          {!report.filesChecked && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              No save directory is configured, so image files were not checked.
+            </Alert>
+          )}
+          {report.imageCheckError && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Missing image files were not looked for: {report.imageCheckError}
+            </Alert>
+          )}
+          {report.orphanCheckError && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Unused images were not looked for: {report.orphanCheckError}
+            </Alert>
+          )}
+          {report.issues.length === 0 && (
+            <Alert severity="success">No problems found.</Alert>
+          )}
+
+          {BookIntegrityService.groupBySeverity(report.issues).map(group => {
+            const fixable = group.issues.filter(issue => issue.fix);
+            const allSelected = fixable.length > 0 && fixable.every(issue => selectedIds.has(issue.id));
+            return (
+              <Box key={group.severity} sx={{ mb: 2 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={allSelected}
+                        disabled={fixable.length === 0}
+                        onChange={(_, checked) => toggleGroup(group.issues, checked)}
+                      />
+                    }
+                    label={<Typography variant="subtitle1">{SEVERITY_LABELS[group.severity]}</Typography>}
+                  />
+                  <Chip label={group.issues.length} size="small" color={group.severity === 'info' ? 'default' : group.severity} />
+                </Box>
+                {group.issues.map(issue => (
+                  <Box key={issue.id} sx={{ display: 'flex', alignItems: 'flex-start', pl: 2 }}>
+                    <Checkbox
+                      size="small"
+                      checked={selectedIds.has(issue.id)}
+                      disabled={!issue.fix}
+                      onChange={() => toggleIssue(issue)}
+                    />
+                    <Box sx={{ pt: 1 }}>
+                      <Typography variant="body2">
+                        {issue.location.bookTitle && <strong>{issue.location.bookTitle}: </strong>}
+                        {issue.message}
+                      </Typography>
+                      {issue.fix && (
+                        <Typography variant="caption" color="text.secondary">Fix: {issue.fix}</Typography>
+                      )}
+                    </Box>
+                  </Box>
+                ))}
+              </Box>
+            );
+          })}
+        </Box>
+      )}
+
+      {preview && (
+        <>
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="h6" gutterBottom>Preview (nothing saved yet)</Typography>
+          {preview.bookChanges.length === 0 && preview.deletedFiles.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">The selected fixes change nothing.</Typography>
+          ) : (
+            renderFixResult(preview)
+          )}
+        </>
+      )}
+    </Paper>
+  );
+};
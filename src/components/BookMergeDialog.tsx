@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Radio,
+  RadioGroup,
+  FormControlLabel,
+  Divider,
+  CircularProgress
+} from '@mui/material';
+import type { BookMergeConflict, MergeResolutions, MergeSide, PendingBookMerge } from '../types/BookMerge';
+
+interface BookMergeDialogProps {
+  merge: PendingBookMerge | null;
+  onComplete: (bookId: string, resolutions: MergeResolutions) => Promise<void>;
+  onDiscard: (bookId: string) => void;
+}
+
+const SIDE_LABELS: Record<PendingBookMerge['source'], Record<MergeSide, string>> = {
+  app: { ours: 'App version', theirs: 'Version on disk' },
+  git: { ours: 'Current branch', theirs: 'Merged branch' }
+};
+
+const PREVIEW_LENGTH = 400;
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(deleted)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
+
+const ValuePreview: React.FC<{ value: unknown }> = ({ value }) => (
+  <Typography
+    component="pre"
+    variant="body2"
+    sx={{ m: 0, whiteSpace: 'pre-wrap', wordBreak: 'break-word', fontFamily: 'monospace', fontSize: '0.8rem' }}
+  >
+    {formatValue(value)}
+  </Typography>
+);
+
+/**
+ * Pick a side for each conflicting edit of a book merge (see BookMergeService)
+ */
+export const BookMergeDialog: React.FC<BookMergeDialogProps> = ({ merge, onComplete, onDiscard }) => {
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setResolutions({});
+    setError(null);
+  }, [merge]);
+
+  if (!merge) {
+    return null;
+  }
+
+  const labels = SIDE_LABELS[merge.source];
+  const sideOf = (conflict: BookMergeConflict): MergeSide => resolutions[conflict.id] ?? 'ours';
+
+  const chooseAll = (side: MergeSide) => {
+    setResolutions(Object.fromEntries(merge.conflicts.map(conflict => [conflict.id, side])));
+  };
+
+  const handleComplete = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onComplete(merge.bookId, resolutions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the merge');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open maxWidth="md" fullWidth>
+      <DialogTitle>Merge Conflicts in "{merge.bookTitle}"</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {merge.source === 'app'
+            ? 'Changes that don\'t overlap were merged. These were edited differently in the app and on disk; choose which to keep.'
+            : 'A git merge combined the changes that don\'t overlap. These were edited differently on both branches; choose which to keep.'}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <Button size="small" onClick={() => chooseAll('ours')} disabled={busy}>
+            Use {labels.ours} for All
+          </Button>
+          <Button size="small" onClick={() => chooseAll('theirs')} disabled={busy}>
+            Use {labels.theirs} for All
+          </Button>
+        </Box>
+
+        {merge.conflicts.map((conflict, index) => (
+          <Box key={conflict.id}>
+            {index > 0 && <Divider sx={{ my: 2 }} />}
+            <Typography variant="subtitle2">
+              {conflict.location}
+              {conflict.field && ` — ${conflict.field}`}
+            </Typography>
+            <RadioGroup
+              value={sideOf(conflict)}
+              onChange={event => setResolutions(prev => ({ ...prev, [conflict.id]: event.target.value as MergeSide }))}
+            >
+              {(['ours', 'theirs'] as const).map(side => (
+                <FormControlLabel
+                  key={side}
+                  value={side}
+                  disabled={busy}
+                  control={<Radio size="small" />}
+                  sx={{ alignItems: 'flex-start', mt: 1 }}
+                  label={
+                    <Box>
+                      <Typography variant="caption" color="text.secondary">{labels[side]}</Typography>
+                      <ValuePreview value={conflict[side]} />
+                    </Box>
+                  }
+                />
+              ))}
+            </RadioGroup>
+          </Box>
+        ))}
+      </DialogContent>
+      <DialogActions>
+        {busy && <CircularProgress size={20} sx={{ mr: 1 }} />}
+        <Button onClick={() => onDiscard(merge.bookId)} disabled={busy}>
+          {merge.source === 'app' ? 'Back' : 'Later'}
+        </Button>
+        <Button onClick={handleComplete} variant="contained" disabled={busy}>
+          Save Merge
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  List,
+  ListItemButton,
+  ListItemText,
+  Chip,
+  Divider,
+  Alert,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup
+} from '@mui/material';
+import {
+  CameraAlt as SnapshotIcon,
+  Delete as DeleteIcon,
+  Restore as RestoreIcon
+} from '@mui/icons-material';
+import type { BookSnapshotDiff, BookSnapshotInfo, BookSnapshotReason, StorySnapshotDiff } from '../types/BookSnapshot';
+import { BookSnapshotService } from '../services/BookSnapshotService';
+
+interface BookSnapshotsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  bookId: string | null;
+  onUpdated?: (message: string) => void;
+}
+
+type CompareMode = 'previous' | 'current';
+
+const REASON_LABELS: Record<BookSnapshotReason, string> = {
+  scheduled: 'Scheduled',
+  manual: 'Manual',
+  import: 'Import',
+  migration: 'Repair',
+  'story-delete': 'Story deleted',
+  restore: 'Restore',
+  'external-change': 'Edit conflict'
+};
+
+const STATUS_COLORS: Record<StorySnapshotDiff['status'], 'success' | 'error' | 'warning' | 'default'> = {
+  added: 'success',
+  removed: 'error',
+  modified: 'warning',
+  unchanged: 'default'
+};
+
+const formatTime = (date: Date): string =>
+  date.toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Snapshot browser for one book: lists its snapshots, shows what changed in
+ * each one (or since it was taken), and restores the whole book or a single
+ * story from it
+ */
+export const BookSnapshotsDialog: React.FC<BookSnapshotsDialogProps> = ({ open, onClose, bookId, onUpdated }) => {
+  const [snapshots, setSnapshots] = useState<BookSnapshotInfo[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous');
+  const [diff, setDiff] = useState<BookSnapshotDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    if (!bookId) return;
+    const list = await BookSnapshotService.listSnapshots(bookId);
+    setSnapshots(list);
+    setSelectedId(current => (current && list.some(info => info.id === current) ? current : list[0]?.id ?? null));
+  }, [bookId]);
+
+  useEffect(() => {
+    if (!open || !bookId) return;
+    setError(null);
+    setSelectedId(null);
+    loadSnapshots();
+  }, [open, bookId, loadSnapshots]);
+
+  const selectedIndex = snapshots.findIndex(info => info.id === selectedId);
+  const selected = selectedIndex >= 0 ? snapshots[selectedIndex] : null;
+  const previous = selectedIndex >= 0 ? snapshots[selectedIndex + 1] ?? null : null;
+
+  useEffect(() => {
+    // The oldest snapshot has nothing earlier to compare with
+    const request = !bookId || !selected
+      ? null
+      : compareMode === 'current'
+        ? BookSnapshotService.diffSnapshots(bookId, selected.id, 'current')
+        : previous && BookSnapshotService.diffSnapshots(bookId, previous.id, selected.id);
+    if (!request) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    request
+      .then(result => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to compare snapshots');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookId, selected, previous, compareMode]);
+
+  const runAction = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const message = await action();
+      await loadSnapshots();
+      onUpdated?.(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Snapshot operation failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTakeSnapshot = () => {
+    if (!bookId) return;
+    runAction(async () => {
+      await BookSnapshotService.createSnapshot(bookId, 'manual');
+      return 'Snapshot taken';
+    });
+  };
+
+  const handleRestoreBook = () => {
+    if (!bookId || !selected || !window.confirm(`Restore the whole book to ${formatTime(selected.createdAt)}? The current state is snapshotted first.`)) {
+      return;
+    }
+    runAction(async () => {
+      await BookSnapshotService.restoreBook(bookId, selected.id);
+      return `Book restored to ${formatTime(selected.createdAt)}`;
+    });
+  };
+
+  const handleRestoreStory = (storyId: string, title: string) => {
+    if (!bookId || !selected || !window.confirm(`Restore "${title}" to ${formatTime(selected.createdAt)}? The current state is snapshotted first.`)) {
+      return;
+    }
+    runAction(async () => {
+      await BookSnapshotService.restoreStory(bookId, selected.id, storyId);
+      return `Story "${title}" restored`;
+    });
+  };
+
+  const handleDeleteSnapshot = () => {
+    if (!bookId || !selected || !window.confirm(`Delete the snapshot from ${formatTime(selected.createdAt)}? It can't be restored afterwards.`)) {
+      return;
+    }
+    runAction(async () => {
+      await BookSnapshotService.deleteSnapshot(bookId, selected.id);
+      return 'Snapshot deleted';
+    });
+  };
+
+  const changedStories = diff?.stories.filter(story => story.status !== 'unchanged') ?? [];
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Book Snapshots</DialogTitle>
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {snapshots.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No snapshots yet. Snapshots are taken automatically (see Settings) and before story imports,
+            story deletions and repairs.
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', gap: 2, minHeight: 400 }}>
+            <List dense sx={{ width: 260, flexShrink: 0, overflow: 'auto', maxHeight: 500, borderRight: 1, borderColor: 'divider' }}>
+              {snapshots.map(info => (
+                <ListItemButton key={info.id} selected={info.id === selectedId} onClick={() => setSelectedId(info.id)}>
+                  <ListItemText
+                    primary={formatTime(info.createdAt)}
+                    secondary={info.label ?? `${info.stories.length} ${info.stories.length === 1 ? 'story' : 'stories'}`}
+                    slotProps={{ secondary: { noWrap: true } }}
+                  />
+                  <Chip label={REASON_LABELS[info.reason]} size="small" variant="outlined" sx={{ ml: 1 }} />
+                </ListItemButton>
+              ))}
+            </List>
+
+            {selected && (
+              <Box sx={{ flex: 1, overflow: 'auto', maxHeight: 500 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+                  <ToggleButtonGroup
+                    size="small"
+                    exclusive
+                    value={compareMode}
+                    onChange={(_, mode: CompareMode | null) => mode && setCompareMode(mode)}
+                  >
+                    <ToggleButton value="previous">Changes in this snapshot</ToggleButton>
+                    <ToggleButton value="current">Changed since</ToggleButton>
+                  </ToggleButtonGroup>
+                  {loading && <CircularProgress size={20} />}
+                </Box>
+
+                {compareMode === 'previous' && !previous ? (
+                  <Typography variant="body2" color="text.secondary">
+                    Oldest snapshot - nothing earlier to compare with.
+                  </Typography>
+                ) : diff && diff.bookChanges.length === 0 && changedStories.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    No content changes.
+                  </Typography>
+                ) : diff && (
+                  <Box>
+                    {diff.bookChanges.map(change => (
+                      <Typography key={change} variant="body2">• {change}</Typography>
+                    ))}
+                    {changedStories.map(story => (
+                      <Box key={story.storyId} sx={{ mt: 1 }}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <Typography variant="subtitle2">{story.title}</Typography>
+                          <Chip label={story.status} size="small" color={STATUS_COLORS[story.status]} />
+                        </Box>
+                        {story.changes.map(change => (
+                          <Typography key={change} variant="body2" color="text.secondary" sx={{ pl: 2 }}>
+                            • {change}
+                          </Typography>
+                        ))}
+                      </Box>
+                    ))}
+                  </Box>
+                )}
+
+                <Divider sx={{ my: 2 }} />
+
+                <Typography variant="subtitle2" gutterBottom>
+                  Stories in this snapshot
+                </Typography>
+                {selected.stories.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">No stories</Typography>
+                ) : (
+                  selected.stories.map(story => (
+                    <Box key={story.id} sx={{ display: 'flex', alignItems: 'center', py: 0.5 }}>
+                      <Typography variant="body2" sx={{ flex: 1 }}>{story.title}</Typography>
+                      <Button
+                        size="small"
+                        startIcon={<RestoreIcon />}
+                        disabled={busy}
+                        onClick={() => handleRestoreStory(story.id, story.title)}
+                      >
+                        Restore story
+                      </Button>
+                    </Box>
+                  ))
+                )}
+              </Box>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button startIcon={<SnapshotIcon />} onClick={handleTakeSnapshot} disabled={busy || !bookId}>
+          Take Snapshot
+        </Button>
+        <Button color="error" startIcon={<DeleteIcon />} onClick={handleDeleteSnapshot} disabled={busy || !selected}>
+          Delete Snapshot
+        </Button>
+        <Box sx={{ flex: 1 }} />
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          variant="contained"
+          startIcon={<RestoreIcon />}
+          onClick={handleRestoreBook}
+          disabled={busy || !selected}
+        >
+          Restore Book
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -24,6 +24,7 @@ import { Stack } from '@mui/material';
 import type { BookStyle } from '../types/BookStyle';
 import type { PanelPosition } from '../types/Book';
 import { DEFAULT_PANEL_CONFIG } from '../types/Book';
+import { AvoidListField } from './AvoidListField';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -66,6 +67,7 @@ export const BookStyleEditor: React.FC<BookStyleEditorProps> = ({
     characterStyle: initialStyle?.characterStyle || '',
     environmentStyle: initialStyle?.environmentStyle || '',
     artStyle: initialStyle?.artStyle || '',
+    avoid: initialStyle?.avoid,
     panelConfig: initialStyle?.panelConfig || DEFAULT_PANEL_CONFIG
   });
 
@@ -77,6 +79,7 @@ export const BookStyleEditor: React.FC<BookStyleEditorProps> = ({
         characterStyle: initialStyle.characterStyle || '',
         environmentStyle: initialStyle.environmentStyle || '',
         artStyle: initialStyle.artStyle || '',
+        avoid: initialStyle.avoid,
         panelConfig: initialStyle.panelConfig || DEFAULT_PANEL_CONFIG
       });
     }
@@ -90,6 +93,7 @@ export const BookStyleEditor: React.FC<BookStyleEditorProps> = ({
       characterStyle: style.characterStyle?.trim() || undefined,
       environmentStyle: style.environmentStyle?.trim() || undefined,
       artStyle: style.artStyle?.trim() || undefined,
+      avoid: style.avoid,
       panelConfig: style.panelConfig
     };
     onSave(cleanedStyle);
@@ -105,7 +109,8 @@ export const BookStyleEditor: React.FC<BookStyleEditorProps> = ({
         visualTheme: '',
         characterStyle: '',
         environmentStyle: '',
-        artStyle: ''
+        artStyle: '',
+        avoid: undefined
       });
     } else {
       // Reset panel config
@@ -216,6 +221,12 @@ export const BookStyleEditor: React.FC<BookStyleEditorProps> = ({
                   </Select>
                 </FormControl>
               </Tooltip>
+              <AvoidListField
+                label="Avoid in every image"
+                value={style.avoid || []}
+                onChange={(avoid) => setStyle({ ...style, avoid })}
+                helperText="Negative prompt for the whole book. Stories and scenes can add their own terms."
+              />
               <Typography variant="caption" color="text.secondary">
                 💡 Tip: These style guidelines will be included in every image generation prompt for this book.
                 Be specific but concise for best results.
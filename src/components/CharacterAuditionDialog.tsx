@@ -41,13 +41,16 @@ import {
   Visibility as VisibilityIcon,
   Upload as UploadIcon,
   ContentCopy as ContentCopyIcon,
-  ContentPaste as ContentPasteIcon
+  ContentPaste as ContentPasteIcon,
+  Queue as QueueIcon
 } from '@mui/icons-material';
 import type { Character } from '../models/Story';
 import type { Book } from '../models/Book';
 import { CharacterImageService } from '../services/CharacterImageService';
-import { IMAGE_MODELS } from '../constants/imageModels';
+import { GenerationQueueService } from '../services/GenerationQueueService';
+import { getImageModels } from '../constants/imageModels';
 import { CharacterImagePreviewDialog, type CharacterPreviewData } from './CharacterImagePreviewDialog';
+import type { PromptStrategyOption } from '../types/PromptTemplate';
 
 interface CharacterAuditionDialogProps {
   open: boolean;
@@ -71,8 +74,8 @@ export const CharacterAuditionDialog: React.FC<CharacterAuditionDialogProps> = (
   // For book-level characters, use book ID as context; for story-level, use story ID
   const contextId = storyId || `book:${book.id}`;
   const backgroundSetup = storyBackgroundSetup || book.backgroundSetup || '';
-  const [selectedModel, setSelectedModel] = useState(IMAGE_MODELS[0].value);
-  const [promptStrategy, setPromptStrategy] = useState<'auto' | 'legacy' | 'gemini'>('auto');
+  const [selectedModel, setSelectedModel] = useState(getImageModels()[0].value);
+  const [promptStrategy, setPromptStrategy] = useState<PromptStrategyOption>('auto');
   const [generating, setGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -96,6 +99,7 @@ export const CharacterAuditionDialog: React.FC<CharacterAuditionDialogProps> = (
   
   // Reference image state
   const [referenceImage, setReferenceImage] = useState<string | null>(null);
+  const [referenceImageId, setReferenceImageId] = useState<string | null>(null);
   const [includeReferenceImage, setIncludeReferenceImage] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
@@ -156,6 +160,7 @@ export const CharacterAuditionDialog: React.FC<CharacterAuditionDialogProps> = (
       // Convert file to blob URL for immediate display
       const blobUrl = URL.createObjectURL(file);
       setReferenceImage(blobUrl);
+      setReferenceImageId(null);
       setIncludeReferenceImage(true);
 
       // Generate a unique ID for this reference image
@@ -173,6 +178,7 @@ export const CharacterAuditionDialog: React.FC<CharacterAuditionDialogProps> = (
 
       // Update character metadata with the reference image ID
       character.referenceImageId = imageId;
+      setReferenceImageId(imageId);
       
       // Save the updated character metadata
       onUpdate();
@@ -218,6 +224,7 @@ export const CharacterAuditionDialog: React.FC<CharacterAuditionDialogProps> = (
     }
 
     setReferenceImage(null);
+    setReferenceImageId(null);
     setIncludeReferenceImage(false);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -288,6 +295,7 @@ export const CharacterAuditionDialog: React.FC<CharacterAuditionDialogProps> = (
   const loadReferenceImage = useCallback(async () => {
     if (!character.referenceImageId) {
       setReferenceImage(null);
+      setReferenceImageId(null);
       setIncludeReferenceImage(false);
       return;
     }
@@ -302,16 +310,19 @@ export const CharacterAuditionDialog: React.FC<CharacterAuditionDialogProps> = (
       
       if (imageUrl) {
         setReferenceImage(imageUrl);
+        setReferenceImageId(character.referenceImageId);
         setIncludeReferenceImage(true); // Auto-check when loading existing reference image
       } else {
         // Reference image not found - clear the invalid reference
         character.referenceImageId = undefined;
         setReferenceImage(null);
+        setReferenceImageId(null);
         setIncludeReferenceImage(false);
       }
     } catch (err) {
       console.error('Failed to load reference image:', err);
       setReferenceImage(null);
+      setReferenceImageId(null);
       setIncludeReferenceImage(false);
     }
   }, [character, contextId]);
@@ -454,6 +465,26 @@ export const CharacterAuditionDialog: React.FC<CharacterAuditionDialogProps> = (
     }
   };
 
+  // Add a background job instead of generating now; uses the saved description
+  const handleQueueImage = async () => {
+    setError(null);
+    try {
+      await GenerationQueueService.enqueue([{
+        kind: 'character',
+        bookId: book.id,
+        storyId,
+        characterName: character.name,
+        label: `Character: ${character.name}`,
+        model: selectedModel,
+        promptStrategy,
+        aspectRatio: '1:1'
+      }]);
+      setSuccess('Added to the generation queue. The image will appear in the gallery when the job completes.');
+    } catch (error) {
+      setError(`Failed to queue the image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleGenerateImage = async () => {
     console.log('=== Starting Character Image Generation ===');
     console.log('Character:', character.name);
@@ -502,7 +533,8 @@ export const CharacterAuditionDialog: React.FC<CharacterAuditionDialogProps> = (
         selectedModel,
         '1:1',
         referenceImageToUse,
-        promptStrategy // Pass the selected prompt strategy
+        promptStrategy, // Pass the selected prompt strategy
+        referenceImageToUse ? referenceImageId ?? undefined : undefined
       );
       console.log('✓ Step 1 complete: Image generated', characterImage.id);
 
@@ -706,6 +738,7 @@ export const CharacterAuditionDialog: React.FC<CharacterAuditionDialogProps> = (
                       console.error('Failed to load reference image');
                       setError('Failed to load reference image. Please try uploading again.');
                       setReferenceImage(null);
+                      setReferenceImageId(null);
                     }}
                   />
                 </Box>
@@ -795,7 +828,7 @@ export const CharacterAuditionDialog: React.FC<CharacterAuditionDialogProps> = (
                 onChange={(e) => setSelectedModel(e.target.value)}
                 disabled={generating}
               >
-                {IMAGE_MODELS.map((model) => (
+                {getImageModels().map((model) => (
                   <MenuItem key={model.value} value={model.value}>
                     {model.label}
                   </MenuItem>
@@ -808,12 +841,13 @@ export const CharacterAuditionDialog: React.FC<CharacterAuditionDialogProps> = (
               <Select
                 value={promptStrategy}
                 label="Prompt Strategy"
-                onChange={(e) => setPromptStrategy(e.target.value as 'auto' | 'legacy' | 'gemini')}
+                onChange={(e) => setPromptStrategy(e.target.value as PromptStrategyOption)}
                 disabled={generating}
               >
                 <MenuItem value="auto">Auto (Detect from Model)</MenuItem>
                 <MenuItem value="legacy">Legacy (Simple)</MenuItem>
                 <MenuItem value="gemini">Gemini (Structured)</MenuItem>
+                <MenuItem value="template">Book Template (Custom)</MenuItem>
               </Select>
             </FormControl>
 
@@ -826,6 +860,19 @@ export const CharacterAuditionDialog: React.FC<CharacterAuditionDialogProps> = (
               {generating ? 'Generating...' : 'Generate'}
             </Button>
 
+            <Tooltip title="Generate in the background queue (uses the saved description, no reference image)">
+              <span>
+                <Button
+                  variant="outlined"
+                  onClick={handleQueueImage}
+                  startIcon={<QueueIcon />}
+                  disabled={generating || descriptionChanged}
+                >
+                  Queue
+                </Button>
+              </span>
+            </Tooltip>
+
             <Button
               variant="outlined"
               onClick={handleShowPreview}
@@ -14,6 +14,7 @@ import CloseIcon from '@mui/icons-material/Close';
 import InfoIcon from '@mui/icons-material/Info';
 import ImageIcon from '@mui/icons-material/Image';
 import TextFieldsIcon from '@mui/icons-material/TextFields';
+import { PROMPT_STRATEGY_LABELS, type PromptStrategyOption } from '../types/PromptTemplate';
 
 export interface CharacterPreviewData {
   characterName: string;
@@ -23,7 +24,7 @@ export interface CharacterPreviewData {
   includeReferenceImage: boolean;
   aspectRatio: string;
   model: string;
-  promptStrategy: 'auto' | 'legacy' | 'gemini';
+  promptStrategy: PromptStrategyOption;
 }
 
 interface CharacterImagePreviewDialogProps {
@@ -116,9 +117,7 @@ export const CharacterImagePreviewDialog: React.FC<CharacterImagePreviewDialogPr
                 Prompt Strategy
               </Typography>
               <Typography variant="body2" fontWeight="medium">
-                {previewData.promptStrategy === 'auto' ? 'Auto (Detect from Model)' :
-                 previewData.promptStrategy === 'gemini' ? 'Gemini (Structured)' :
-                 'Legacy (Simple)'}
+                {PROMPT_STRATEGY_LABELS[previewData.promptStrategy]}
               </Typography>
             </Box>
           </Box>
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  TextField,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Checkbox,
+  ToggleButton,
+  ToggleButtonGroup,
+  Divider,
+  CircularProgress
+} from '@mui/material';
+import type { Book } from '../models/Book';
+import { BookService } from '../services/BookService';
+import { EpubExportService } from '../services/EpubExportService';
+import { ExportDownloadService } from '../services/ExportDownloadService';
+import {
+  DEFAULT_EPUB_EXPORT_SETTINGS,
+  type EpubExportIssue,
+  type EpubExportSettings
+} from '../types/EpubExport';
+
+interface EpubExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  bookId: string | null;
+  /** Export one story; the whole book when absent */
+  storyId?: string;
+  onExported?: (message: string) => void;
+}
+
+const IssueList: React.FC<{ issues: EpubExportIssue[] }> = ({ issues }) => (
+  <>
+    {issues.map((issue, index) => (
+      <Alert key={index} severity={issue.severity} sx={{ mb: 1 }}>
+        {issue.message}
+      </Alert>
+    ))}
+  </>
+);
+
+/**
+ * Settings and checks for exporting a story or a whole book as an EPUB 3
+ * e-book (see EpubExportService)
+ */
+export const EpubExportDialog: React.FC<EpubExportDialogProps> = ({ open, onClose, bookId, storyId, onExported }) => {
+  const [book, setBook] = useState<Book | null>(null);
+  const [settings, setSettings] = useState<EpubExportSettings>(DEFAULT_EPUB_EXPORT_SETTINGS);
+  const [issues, setIssues] = useState<EpubExportIssue[]>([]);
+  const [exportIssues, setExportIssues] = useState<EpubExportIssue[] | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !bookId) return;
+    setExportIssues(null);
+    setError(null);
+    BookService.getBook(bookId).then(setBook).catch(err => {
+      setError(err instanceof Error ? err.message : 'Failed to load the book');
+    });
+  }, [open, bookId]);
+
+  useEffect(() => {
+    if (!open || !bookId) return;
+    let cancelled = false;
+    EpubExportService.validateExport({ bookId, storyId }, settings)
+      .then(found => { if (!cancelled) setIssues(found); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to check the book'); });
+    return () => { cancelled = true; };
+  }, [open, bookId, storyId, settings]);
+
+  if (!bookId) {
+    return null;
+  }
+
+  const story = storyId ? book?.stories.find(s => s.id === storyId) : undefined;
+  const coverScenes = (story ? [story] : book?.stories ?? [])
+    .flatMap(s => s.scenes)
+    .filter(scene => scene.imageHistory?.length);
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+
+  const update = (changes: Partial<EpubExportSettings>) => {
+    setSettings(previous => ({ ...previous, ...changes }));
+    setExportIssues(null);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const result = await EpubExportService.exportToEpub({ bookId, storyId }, settings);
+      ExportDownloadService.downloadBlob(result.blob, ExportDownloadService.generateFilename('epub', book?.title ?? 'Book', story?.title));
+      setExportIssues(result.issues);
+      onExported?.(`Exported EPUB with ${result.sceneCount} scenes and ${result.imageCount} images`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the EPUB');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={exporting ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Export {story ? `"${story.title}"` : 'Book'} to EPUB
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <Typography variant="subtitle2" gutterBottom>Layout</Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={settings.layout}
+          onChange={(_, value) => value && update({ layout: value })}
+          sx={{ mb: 1 }}
+        >
+          <ToggleButton value="fixed">Fixed layout (picture book)</ToggleButton>
+          <ToggleButton value="reflowable">Reflowable (image and text)</ToggleButton>
+        </ToggleButtonGroup>
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          {settings.layout === 'fixed'
+            ? 'One page per scene, showing the scene image exactly as composed.'
+            : 'Each scene image followed by its text panel as real text that readers can resize.'}
+        </Typography>
+
+        <Box display="flex" flexDirection="column" mb={2}>
+          {settings.layout === 'fixed' ? (
+            <FormControlLabel
+              label="Show pages side by side on wide screens"
+              control={<Checkbox size="small" checked={settings.spreads} onChange={(e) => update({ spreads: e.target.checked })} />}
+            />
+          ) : (
+            <FormControlLabel
+              label="Scene titles as headings"
+              control={<Checkbox size="small" checked={settings.sceneTitles} onChange={(e) => update({ sceneTitles: e.target.checked })} />}
+            />
+          )}
+        </Box>
+
+        <Typography variant="subtitle2" gutterBottom>Book details</Typography>
+        <Box display="flex" flexWrap="wrap" gap={2} mb={2}>
+          <TextField
+            label="Author"
+            size="small"
+            value={settings.author ?? ''}
+            onChange={(e) => update({ author: e.target.value })}
+            sx={{ flex: 1, minWidth: 200 }}
+          />
+          <TextField
+            label="Language"
+            size="small"
+            value={settings.language}
+            onChange={(e) => update({ language: e.target.value })}
+            helperText='e.g. "en" or "de-AT"'
+            sx={{ width: 140 }}
+          />
+        </Box>
+        {coverScenes.length > 0 && (
+          <FormControl size="small" sx={{ minWidth: 280, mb: 2 }}>
+            <InputLabel>Cover image</InputLabel>
+            <Select
+              label="Cover image"
+              value={settings.coverSceneId ?? coverScenes[0].id}
+              onChange={(e) => update({ coverSceneId: e.target.value })}
+            >
+              {coverScenes.map(scene => (
+                <MenuItem key={scene.id} value={scene.id}>{scene.title}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+        {exportIssues ? (
+          <>
+            <Typography variant="subtitle2" gutterBottom>Export report</Typography>
+            {exportIssues.length === 0
+              ? <Alert severity="success">Every scene was exported.</Alert>
+              : <IssueList issues={exportIssues} />}
+          </>
+        ) : (
+          <>
+            <Typography variant="subtitle2" gutterBottom>Checks</Typography>
+            {issues.length === 0
+              ? <Alert severity="success" sx={{ mb: 1 }}>No problems found.</Alert>
+              : <IssueList issues={issues} />}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={exporting}>Close</Button>
+        <Button
+          variant="contained"
+          onClick={handleExport}
+          disabled={exporting || hasErrors || !book}
+          startIcon={exporting ? <CircularProgress size={16} /> : undefined}
+        >
+          {exporting ? 'Exporting...' : 'Export EPUB'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -20,7 +20,7 @@ import {
   Divider
 } from '@mui/material';
 import { ImageGenerationService } from '../services/ImageGenerationService';
-import { IMAGE_MODELS } from '../constants/imageModels';
+import { getImageModels } from '../constants/imageModels';
 
 interface AspectRatio {
   id: string;
@@ -60,8 +60,8 @@ const ASPECT_RATIOS: AspectRatio[] = [
   { id: '21:9', label: '21:9', value: '21:9', description: 'Ultrawide' },
 ];
 
-// Derive LLM_MODELS from the single source of truth (IMAGE_MODELS)
-const LLM_MODELS: LLMModel[] = IMAGE_MODELS.map(model => ({
+// Derive the models from the single source of truth (the registered image models)
+const getLLMModels = (): LLMModel[] => getImageModels().map(model => ({
   id: model.value,
   name: model.label.split('(')[0].trim(), // Extract name before parentheses
   description: model.label.includes('(') 
@@ -119,6 +119,7 @@ const compareAspectRatios = (requested: string, actual: string): boolean => {
 };
 
 export const ExperimentPanel: React.FC = () => {
+  const llmModels = getLLMModels();
   const [prompt, setPrompt] = useState('A serene mountain landscape at sunset with a lake in the foreground');
   const [selectedRatios, setSelectedRatios] = useState<string[]>(['1:1', '3:4', '16:9']);
   const [customRatios, setCustomRatios] = useState<AspectRatio[]>([]);
@@ -204,7 +205,8 @@ export const ExperimentPanel: React.FC = () => {
         const generationResult = await ImageGenerationService.generateImage({
           prompt,
           model: result.model,
-          aspectRatio: result.aspectRatio
+          aspectRatio: result.aspectRatio,
+          usageContext: { purpose: 'experiment' }
         });
 
         if (generationResult.success && generationResult.imageUrl) {
@@ -288,10 +290,10 @@ export const ExperimentPanel: React.FC = () => {
   };
 
   const handleSelectAllModels = () => {
-    if (selectedModels.length === LLM_MODELS.length) {
+    if (selectedModels.length === llmModels.length) {
       setSelectedModels([]);
     } else {
-      setSelectedModels(LLM_MODELS.map(m => m.id));
+      setSelectedModels(llmModels.map(m => m.id));
     }
   };
 
@@ -375,11 +377,11 @@ export const ExperimentPanel: React.FC = () => {
               <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
                 <FormLabel component="legend">LLM Models</FormLabel>
                 <Button size="small" onClick={handleSelectAllModels}>
-                  {selectedModels.length === LLM_MODELS.length ? 'Deselect All' : 'Select All'}
+                  {selectedModels.length === llmModels.length ? 'Deselect All' : 'Select All'}
                 </Button>
               </Box>
               <FormGroup>
-                {LLM_MODELS.map(model => (
+                {llmModels.map(model => (
                   <FormControlLabel
                     key={model.id}
                     control={
@@ -517,7 +519,7 @@ export const ExperimentPanel: React.FC = () => {
                       const passCount = modelResults.filter(r => r.aspectRatioMatch === 'pass').length;
                       const completedCount = modelResults.filter(r => r.status !== 'pending').length;
                       const successRate = completedCount > 0 ? Math.round((passCount / completedCount) * 100) : 0;
-                      const model = LLM_MODELS.find(m => m.id === modelId);
+                      const model = llmModels.find(m => m.id === modelId);
                       
                       return (
                         <Grid item xs={12} sm={6} key={modelId}>
@@ -544,7 +546,7 @@ export const ExperimentPanel: React.FC = () => {
           
           <Grid container spacing={2}>
             {results.map((result, idx) => {
-              const model = LLM_MODELS.find(m => m.id === result.model);
+              const model = llmModels.find(m => m.id === result.model);
               const ratio = [...ASPECT_RATIOS, ...customRatios].find(r => r.id === result.aspectRatio);
 
               return (
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  CircularProgress
+} from '@mui/material';
+import type { ExternalChangeConflict, ExternalConflictResolution } from '../types/ExternalChange';
+
+interface ExternalChangeConflictDialogProps {
+  conflict: ExternalChangeConflict | null;
+  onResolve: (bookId: string, resolution: ExternalConflictResolution) => Promise<void>;
+
+  /** Merge both versions; conflicting edits are then picked in the merge dialog */
+  onMerge: (bookId: string) => Promise<void>;
+}
+
+/**
+ * Shown when a book's files changed on disk while the app had unsaved
+ * changes to it; the user picks which version to keep
+ */
+export const ExternalChangeConflictDialog: React.FC<ExternalChangeConflictDialogProps> = ({ conflict, onResolve, onMerge }) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: (bookId: string) => Promise<void>) => {
+    if (!conflict) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await action(conflict.bookId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve the conflict');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleResolve = (resolution: ExternalConflictResolution) => run(bookId => onResolve(bookId, resolution));
+
+  const changedStories = conflict?.diskChanges?.stories.filter(story => story.status !== 'unchanged') ?? [];
+  const bookChanges = conflict?.diskChanges?.bookChanges ?? [];
+
+  return (
+    <Dialog open={conflict !== null} maxWidth="sm" fullWidth>
+      <DialogTitle>"{conflict?.bookTitle}" Changed Outside the App</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {conflict?.deletedOnDisk
+            ? 'The book\'s files were deleted on disk, but the app has changes to it that were not saved yet.'
+            : 'The book\'s files were edited on disk, but the app has changes to it that were not saved yet.'}
+          {' '}Saving is paused until you choose a version or merge both. Replaced versions are kept as snapshots.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {conflict && !conflict.deletedOnDisk && (
+          <Box sx={{ mb: 1 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              Changes on disk
+            </Typography>
+            {!conflict.diskChanges && (
+              <Typography variant="body2" color="text.secondary">
+                The files on disk could not be read as a book, so there is no summary.
+              </Typography>
+            )}
+            {conflict.diskChanges && bookChanges.length === 0 && changedStories.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                Only timestamps or formatting differ.
+              </Typography>
+            )}
+            {bookChanges.map(change => (
+              <Typography key={change} variant="body2">{change}</Typography>
+            ))}
+            {changedStories.map(story => (
+              <Box key={story.storyId} sx={{ mt: 1 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Typography variant="body2" fontWeight="bold">{story.title}</Typography>
+                  <Chip size="small" label={story.status} />
+                </Box>
+                {story.changes.map(change => (
+                  <Typography key={change} variant="body2" sx={{ pl: 2 }}>{change}</Typography>
+                ))}
+              </Box>
+            ))}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {busy && <CircularProgress size={20} sx={{ mr: 1 }} />}
+        <Button onClick={() => handleResolve('use-disk')} disabled={busy}>
+          {conflict?.deletedOnDisk ? 'Remove Book From App' : 'Use Version on Disk'}
+        </Button>
+        {!conflict?.deletedOnDisk && (
+          <Button onClick={() => run(onMerge)} disabled={busy}>
+            Merge Both
+          </Button>
+        )}
+        <Button onClick={() => handleResolve('keep-app')} variant="contained" disabled={busy}>
+          Keep App Version
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
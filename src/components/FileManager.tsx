@@ -28,17 +28,30 @@ import {
   Palette as PaletteIcon,
   Folder as FolderIcon,
   FolderOpen as FolderOpenIcon,
-  GridOn as LayoutIcon
+  GridOn as LayoutIcon,
+  TextSnippet as TemplateIcon,
+  History as SnapshotsIcon,
+  PictureAsPdf as PdfIcon,
+  MenuBook as EpubIcon,
+  Slideshow as PptxIcon,
+  Public as SiteIcon
 } from '@mui/icons-material';
 import { FormControl, InputLabel, Select, MenuItem, CircularProgress } from '@mui/material';
 import { BookService } from '../services/BookService';
 import { BookExportWithImagesService } from '../services/BookExportWithImagesService';
+import { ExportDownloadService } from '../services/ExportDownloadService';
 import type { BookMetadata, PanelConfig } from '../types/Book';
 import { DEFAULT_PANEL_CONFIG } from '../types/Book';
 import type { BookStyle } from '../types/BookStyle';
 import { DEFAULT_BOOK_STYLE } from '../types/BookStyle';
 import { PanelConfigDialog } from './PanelConfigDialog';
 import { BookStyleEditor } from './BookStyleEditor';
+import { PromptTemplateEditorDialog } from './PromptTemplateEditorDialog';
+import { BookSnapshotsDialog } from './BookSnapshotsDialog';
+import { PdfExportDialog } from './PdfExportDialog';
+import { EpubExportDialog } from './EpubExportDialog';
+import { PptxExportDialog } from './PptxExportDialog';
+import { HtmlSiteExportDialog } from './HtmlSiteExportDialog';
 import { SceneLayoutEditor } from './SceneLayoutEditor';
 import { BookCreationWizard } from './BookCreationWizard';
 import type { SceneLayout } from '../types/Story';
@@ -68,6 +81,12 @@ export const FileManager: React.FC<FileManagerProps> = ({ onBookSelect, onBookUp
   const [panelConfigDialogMode, setPanelConfigDialogMode] = useState<'create' | 'edit'>('create');
   const [styleEditorOpen, setStyleEditorOpen] = useState(false);
   const [editingBookStyle, setEditingBookStyle] = useState<{ bookId: string, style: BookStyle } | null>(null);
+  const [templateEditorBookId, setTemplateEditorBookId] = useState<string | null>(null);
+  const [snapshotsBookId, setSnapshotsBookId] = useState<string | null>(null);
+  const [pdfExportBookId, setPdfExportBookId] = useState<string | null>(null);
+  const [epubExportBookId, setEpubExportBookId] = useState<string | null>(null);
+  const [pptxExportBookId, setPptxExportBookId] = useState<string | null>(null);
+  const [siteExportBookId, setSiteExportBookId] = useState<string | null>(null);
   const [snackbarOpen, setSnackbarOpen] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
   const [snackbarSeverity, setSnackbarSeverity] = useState<'success' | 'error'>('success');
@@ -222,7 +241,7 @@ export const FileManager: React.FC<FileManagerProps> = ({ onBookSelect, onBookUp
 
       // Download the ZIP file
       const filename = BookExportWithImagesService.generateExportFilename(book.title);
-      BookExportWithImagesService.downloadBlob(result.blob, filename);
+      ExportDownloadService.downloadBlob(result.blob, filename);
       
       const stats = result.stats;
       const sizeMB = stats ? (stats.totalSize / (1024 * 1024)).toFixed(2) : '?';
@@ -573,6 +592,50 @@ export const FileManager: React.FC<FileManagerProps> = ({ onBookSelect, onBookUp
                           )}
                         </IconButton>
                       </Tooltip>
+                      <Tooltip title="Export Book to print-ready PDF">
+                        <IconButton
+                          size="small"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setPdfExportBookId(book.id);
+                          }}
+                        >
+                          <PdfIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Export Book to EPUB">
+                        <IconButton
+                          size="small"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setEpubExportBookId(book.id);
+                          }}
+                        >
+                          <EpubIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Export Book to PowerPoint">
+                        <IconButton
+                          size="small"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setPptxExportBookId(book.id);
+                          }}
+                        >
+                          <PptxIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Export Book as Website">
+                        <IconButton
+                          size="small"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setSiteExportBookId(book.id);
+                          }}
+                        >
+                          <SiteIcon />
+                        </IconButton>
+                      </Tooltip>
                       <Tooltip title="Edit Book Metadata">
                         <IconButton
                           size="small"
@@ -595,6 +658,28 @@ export const FileManager: React.FC<FileManagerProps> = ({ onBookSelect, onBookUp
                           <PaletteIcon />
                         </IconButton>
                       </Tooltip>
+                      <Tooltip title="Edit Prompt Templates">
+                        <IconButton
+                          size="small"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setTemplateEditorBookId(book.id);
+                          }}
+                        >
+                          <TemplateIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Snapshots">
+                        <IconButton
+                          size="small"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setSnapshotsBookId(book.id);
+                          }}
+                        >
+                          <SnapshotsIcon />
+                        </IconButton>
+                      </Tooltip>
                       <Tooltip title="Delete Book">
                         <IconButton
                           size="small"
@@ -779,6 +864,57 @@ export const FileManager: React.FC<FileManagerProps> = ({ onBookSelect, onBookUp
         onSave={handleSaveBookStyle}
       />
 
+      {/* Prompt Template Editor */}
+      <PromptTemplateEditorDialog
+        open={templateEditorBookId !== null}
+        onClose={() => setTemplateEditorBookId(null)}
+        bookId={templateEditorBookId}
+        onSaved={() => {
+          onBookUpdate();
+          showSnackbar('Prompt templates saved', 'success');
+        }}
+      />
+
+      {/* Snapshot Browser */}
+      <BookSnapshotsDialog
+        open={snapshotsBookId !== null}
+        onClose={() => setSnapshotsBookId(null)}
+        bookId={snapshotsBookId}
+        onUpdated={(message) => {
+          loadBooks();
+          onBookUpdate();
+          showSnackbar(message, 'success');
+        }}
+      />
+
+      <PdfExportDialog
+        open={pdfExportBookId !== null}
+        onClose={() => setPdfExportBookId(null)}
+        bookId={pdfExportBookId}
+        onExported={(message) => showSnackbar(message, 'success')}
+      />
+
+      <EpubExportDialog
+        open={epubExportBookId !== null}
+        onClose={() => setEpubExportBookId(null)}
+        bookId={epubExportBookId}
+        onExported={(message) => showSnackbar(message, 'success')}
+      />
+
+      <PptxExportDialog
+        open={pptxExportBookId !== null}
+        onClose={() => setPptxExportBookId(null)}
+        bookId={pptxExportBookId}
+        onExported={(message) => showSnackbar(message, 'success')}
+      />
+
+      <HtmlSiteExportDialog
+        open={siteExportBookId !== null}
+        onClose={() => setSiteExportBookId(null)}
+        bookId={siteExportBookId}
+        onExported={(message) => showSnackbar(message, 'success')}
+      />
+
       {/* Snackbar */}
       <Snackbar
         open={snackbarOpen}
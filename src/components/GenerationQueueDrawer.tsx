@@ -0,0 +1,226 @@
+import React from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  IconButton,
+  Button,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Chip,
+  Tooltip,
+  Divider,
+  TextField,
+  Alert
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Pause as PauseIcon,
+  PlayArrow as ResumeIcon,
+  Cancel as CancelIcon,
+  Replay as RetryIcon,
+  ArrowUpward as UpIcon,
+  ArrowDownward as DownIcon,
+  CheckCircle as CheckIcon,
+  Error as ErrorIcon,
+  HourglassEmpty as PendingIcon,
+  Autorenew as RunningIcon,
+  Block as CancelledIcon
+} from '@mui/icons-material';
+import type { GenerationJob, GenerationJobStatus } from '../types/GenerationQueue';
+import { GenerationQueueService } from '../services/GenerationQueueService';
+import { useGenerationQueue } from '../hooks/useGenerationQueue';
+
+interface GenerationQueueDrawerProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const getStatusIcon = (status: GenerationJobStatus) => {
+  switch (status) {
+    case 'completed':
+      return <CheckIcon color="success" />;
+    case 'failed':
+      return <ErrorIcon color="error" />;
+    case 'running':
+      return <RunningIcon color="primary" />;
+    case 'cancelled':
+      return <CancelledIcon color="disabled" />;
+    default:
+      return <PendingIcon color="disabled" />;
+  }
+};
+
+const getStatusColor = (status: GenerationJobStatus): 'default' | 'primary' | 'success' | 'error' => {
+  switch (status) {
+    case 'completed':
+      return 'success';
+    case 'failed':
+      return 'error';
+    case 'running':
+      return 'primary';
+    default:
+      return 'default';
+  }
+};
+
+const describeJob = (job: GenerationJob): string => {
+  const parts = [job.kind === 'scene' ? 'Scene' : 'Character', job.model];
+  if (job.attempts > 0) parts.push(`attempt ${job.attempts}/${job.maxAttempts}`);
+  if (job.status === 'pending' && job.nextAttemptAt) {
+    parts.push(`retry at ${job.nextAttemptAt.toLocaleTimeString()}`);
+  }
+  return parts.join(' · ');
+};
+
+/**
+ * Global drawer listing all queued generation jobs across books and stories
+ */
+export const GenerationQueueDrawer: React.FC<GenerationQueueDrawerProps> = ({ open, onClose }) => {
+  const { jobs, paused, concurrency, activeCount, completedCount, failedCount } = useGenerationQueue();
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box sx={{ width: 420, p: 2, display: 'flex', flexDirection: 'column', height: '100%' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6" sx={{ flex: 1 }}>
+            Generation Queue
+          </Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {activeCount} active · {completedCount} completed · {failedCount} failed
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', my: 1 }}>
+          {paused ? (
+            <Button
+              variant="contained"
+              size="small"
+              startIcon={<ResumeIcon />}
+              onClick={() => GenerationQueueService.resume()}
+            >
+              Resume
+            </Button>
+          ) : (
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<PauseIcon />}
+              onClick={() => GenerationQueueService.pause()}
+            >
+              Pause
+            </Button>
+          )}
+          <Button size="small" onClick={() => GenerationQueueService.clearFinished()}>
+            Clear Finished
+          </Button>
+          <Box sx={{ flex: 1 }} />
+          <TextField
+            label="Parallel"
+            type="number"
+            size="small"
+            value={concurrency}
+            onChange={(e) => GenerationQueueService.setConcurrency(Number(e.target.value) || 1)}
+            slotProps={{ htmlInput: { min: 1, max: 8 } }}
+            sx={{ width: 90 }}
+          />
+        </Box>
+
+        {paused && (
+          <Alert severity="warning" sx={{ mb: 1 }}>
+            Queue is paused. Running jobs will finish; no new jobs will start.
+          </Alert>
+        )}
+
+        <Divider />
+
+        {jobs.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            No jobs in the queue. Use "Generate All Images" on a story to add some.
+          </Typography>
+        ) : (
+          <List dense sx={{ overflow: 'auto', flex: 1 }}>
+            {jobs.map((job, index) => (
+              <ListItem
+                key={job.id}
+                secondaryAction={
+                  <Box>
+                    {job.status === 'pending' && (
+                      <>
+                        <Tooltip title="Move up">
+                          <span>
+                            <IconButton
+                              size="small"
+                              disabled={index === 0}
+                              onClick={() => GenerationQueueService.move(job.id, index - 1)}
+                            >
+                              <UpIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title="Move down">
+                          <span>
+                            <IconButton
+                              size="small"
+                              disabled={index === jobs.length - 1}
+                              onClick={() => GenerationQueueService.move(job.id, index + 1)}
+                            >
+                              <DownIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </>
+                    )}
+                    {(job.status === 'pending' || job.status === 'running') && (
+                      <Tooltip title="Cancel">
+                        <IconButton size="small" onClick={() => GenerationQueueService.cancel(job.id)}>
+                          <CancelIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    {(job.status === 'failed' || job.status === 'cancelled') && (
+                      <Tooltip title="Retry">
+                        <IconButton size="small" onClick={() => GenerationQueueService.retry(job.id)}>
+                          <RetryIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </Box>
+                }
+                sx={{ pr: 14 }}
+              >
+                <ListItemIcon sx={{ minWidth: 36 }}>{getStatusIcon(job.status)}</ListItemIcon>
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Typography variant="body2" noWrap sx={{ flex: 1 }}>
+                        {job.label}
+                      </Typography>
+                      <Chip label={job.status} size="small" color={getStatusColor(job.status)} />
+                    </Box>
+                  }
+                  secondary={
+                    <>
+                      {describeJob(job)}
+                      {job.lastError && (
+                        <Typography component="span" variant="caption" color="error" display="block" noWrap>
+                          {job.lastError}
+                        </Typography>
+                      )}
+                    </>
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  TextField,
+  FormControlLabel,
+  Checkbox,
+  Divider,
+  CircularProgress
+} from '@mui/material';
+import {
+  Archive as ZipIcon,
+  FolderOpen as FolderIcon
+} from '@mui/icons-material';
+import { HtmlSiteExportService } from '../services/HtmlSiteExportService';
+import { ExportDownloadService } from '../services/ExportDownloadService';
+import { BrowserStorageBackend } from '../services/BrowserStorageBackend';
+import {
+  DEFAULT_HTML_SITE_SETTINGS,
+  type HtmlSiteExportResult,
+  type HtmlSiteSettings
+} from '../types/HtmlSiteExport';
+
+interface HtmlSiteExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  bookId: string | null;
+  onExported?: (message: string) => void;
+}
+
+// showDirectoryPicker is missing from TypeScript's DOM typings
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker(options?: { mode?: 'read' | 'readwrite'; startIn?: string }): Promise<FileSystemDirectoryHandle>;
+};
+
+const OPTION_LABELS: Array<[keyof Omit<HtmlSiteSettings, 'language'>, string]> = [
+  ['sceneText', 'Scene text panels as text under each image'],
+  ['diagrams', 'Diagrams rendered on their own, with their source'],
+  ['characterGallery', 'Character gallery page']
+];
+
+/**
+ * Settings for exporting a book as a static website (see
+ * HtmlSiteExportService), as a zip or straight into a folder
+ */
+export const HtmlSiteExportDialog: React.FC<HtmlSiteExportDialogProps> = ({ open, onClose, bookId, onExported }) => {
+  const [settings, setSettings] = useState<HtmlSiteSettings>(DEFAULT_HTML_SITE_SETTINGS);
+  const [result, setResult] = useState<HtmlSiteExportResult | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canWriteFolders = typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+  useEffect(() => {
+    if (open) {
+      setResult(null);
+      setError(null);
+    }
+  }, [open, bookId]);
+
+  if (!bookId) {
+    return null;
+  }
+
+  const update = (changes: Partial<HtmlSiteSettings>) => {
+    setSettings(previous => ({ ...previous, ...changes }));
+    setResult(null);
+  };
+
+  const runExport = async (target: 'zip' | 'folder') => {
+    setExporting(true);
+    setError(null);
+    try {
+      let exported: HtmlSiteExportResult;
+      if (target === 'folder') {
+        const handle = await (window as unknown as DirectoryPickerWindow).showDirectoryPicker({ mode: 'readwrite', startIn: 'documents' });
+        exported = await HtmlSiteExportService.exportToDirectory(bookId, settings, new BrowserStorageBackend(async () => handle));
+        onExported?.(`Website written to the folder "${exported.path}"`);
+      } else {
+        exported = await HtmlSiteExportService.exportToZip(bookId, settings);
+        ExportDownloadService.downloadBlob(exported.blob!, `${exported.site.name}-site.zip`);
+        onExported?.(`Exported website with ${exported.site.pageCount} pages and ${exported.site.imageCount} images`);
+      }
+      setResult(exported);
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Failed to export the website');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={exporting ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Export Book as Website</DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          A self-contained website with a page per story and all images, which works from any web server
+          folder or straight from disk. Readers move between scenes with the arrow keys.
+        </Typography>
+
+        <Typography variant="subtitle2" gutterBottom>Include</Typography>
+        <Box display="flex" flexDirection="column" mb={2}>
+          {OPTION_LABELS.map(([key, label]) => (
+            <FormControlLabel
+              key={key}
+              label={label}
+              control={
+                <Checkbox
+                  size="small"
+                  checked={settings[key]}
+                  onChange={(e) => update({ [key]: e.target.checked })}
+                />
+              }
+            />
+          ))}
+        </Box>
+        <TextField
+          label="Language"
+          size="small"
+          value={settings.language}
+          onChange={(e) => update({ language: e.target.value })}
+          helperText='Language of the book text, e.g. "en" or "de-AT"'
+          sx={{ width: 260 }}
+        />
+
+        {result && (
+          <>
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle2" gutterBottom>Export report</Typography>
+            <Alert severity="success" sx={{ mb: 1 }}>
+              {result.site.pageCount} pages and {result.site.imageCount} images
+              {result.path ? ` written to "${result.path}"` : ' downloaded as a zip'}.
+            </Alert>
+            {result.site.issues.map((issue, index) => (
+              <Alert key={index} severity={issue.severity} sx={{ mb: 1 }}>
+                {issue.message}
+              </Alert>
+            ))}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={exporting}>Close</Button>
+        {canWriteFolders && (
+          <Button
+            onClick={() => runExport('folder')}
+            disabled={exporting || !settings.language.trim()}
+            startIcon={<FolderIcon />}
+          >
+            Save to Folder
+          </Button>
+        )}
+        <Button
+          variant="contained"
+          onClick={() => runExport('zip')}
+          disabled={exporting || !settings.language.trim()}
+          startIcon={exporting ? <CircularProgress size={16} /> : <ZipIcon />}
+        >
+          {exporting ? 'Exporting...' : 'Download Zip'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -21,7 +21,12 @@ import {
   Delete as DeleteIcon,
   Save as SaveIcon,
   ContentCopy as CopyIcon,
-  CleaningServices as CleanIcon
+  CleaningServices as CleanIcon,
+  Replay as ReproduceIcon,
+  AutoAwesome as MoreLikeThisIcon,
+  Difference as DiffIcon,
+  Star as StarIcon,
+  StarBorder as StarBorderIcon
 } from '@mui/icons-material';
 import type { GeneratedImage } from '../types/Story';
 import { ImageStorageService } from '../services/ImageStorageService';
@@ -34,6 +39,10 @@ interface ImageComparisonDialogProps {
   onSaveImage: (imageUrl: string) => void;
   onCopyImage: (imageUrl: string) => void;
   onCleanupMissingImages?: (missingIds: string[]) => void;
+  onReproduceImage?: (image: GeneratedImage) => void; // Re-run generation from the image's provenance
+  onMoreLikeThis?: (image: GeneratedImage) => void; // Generate a variation of the image
+  onShowPromptDiff?: (image: GeneratedImage) => void; // Compare the image's prompt with the current scene
+  onToggleStar?: (image: GeneratedImage) => void; // Starred images are kept by image cleanup
 }
 
 // Type for enriched image with loaded URL
@@ -48,7 +57,11 @@ export const ImageComparisonDialog: React.FC<ImageComparisonDialogProps> = ({
   onDeleteImage,
   onSaveImage,
   onCopyImage,
-  onCleanupMissingImages
+  onCleanupMissingImages,
+  onReproduceImage,
+  onMoreLikeThis,
+  onShowPromptDiff,
+  onToggleStar
 }) => {
   const [selectedImages, setSelectedImages] = useState<Set<string>>(new Set());
   const [viewMode, setViewMode] = useState<'gallery' | 'compare'>('gallery');
@@ -273,6 +286,46 @@ export const ImageComparisonDialog: React.FC<ImageComparisonDialogProps> = ({
                         >
                           <SaveIcon fontSize="small" />
                         </IconButton>
+                        {onReproduceImage && (
+                          <span title={image.provenance ? 'Reproduce this image' : 'No provenance recorded'}>
+                            <IconButton 
+                              size="small" 
+                              onClick={() => onReproduceImage(image)}
+                              disabled={!image.provenance}
+                            >
+                              <ReproduceIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        )}
+                        {onMoreLikeThis && (
+                          <IconButton 
+                            size="small" 
+                            onClick={() => onMoreLikeThis(image)}
+                            title="More like this"
+                          >
+                            <MoreLikeThisIcon fontSize="small" />
+                          </IconButton>
+                        )}
+                        {onShowPromptDiff && (
+                          <span title={image.provenance ? 'What changed since this image' : 'No provenance recorded'}>
+                            <IconButton 
+                              size="small" 
+                              onClick={() => onShowPromptDiff(image)}
+                              disabled={!image.provenance}
+                            >
+                              <DiffIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        )}
+                        {onToggleStar && (
+                          <IconButton 
+                            size="small" 
+                            onClick={() => onToggleStar(image)}
+                            title={image.starred ? 'Unstar (cleanup may delete it)' : 'Star (cleanup keeps it)'}
+                          >
+                            {image.starred ? <StarIcon fontSize="small" color="warning" /> : <StarBorderIcon fontSize="small" />}
+                          </IconButton>
+                        )}
                         <IconButton 
                           size="small" 
                           onClick={() => onDeleteImage(image.id)}
@@ -310,6 +363,20 @@ export const ImageComparisonDialog: React.FC<ImageComparisonDialogProps> = ({
                           {formatDate(image.timestamp)}
                         </Typography>
                       </Box>
+                      {(image.provenance?.seed !== undefined || image.provenance?.variationOf) && (
+                        <Box display="flex" gap={0.5} flexWrap="wrap">
+                          {image.provenance.seed !== undefined && (
+                            <Chip label={`Seed ${image.provenance.seed}`} size="small" variant="outlined" />
+                          )}
+                          {image.provenance.variationOf && (
+                            <Chip
+                              label={`Variation (${Math.round(image.provenance.variationOf.strength * 100)}%)`}
+                              size="small"
+                              variant="outlined"
+                            />
+                          )}
+                        </Box>
+                      )}
                     </CardContent>
                     <CardMedia
                       component="img"
@@ -338,6 +405,35 @@ export const ImageComparisonDialog: React.FC<ImageComparisonDialogProps> = ({
                         >
                           Save
                         </Button>
+                        {onReproduceImage && (
+                          <Button 
+                            size="small" 
+                            startIcon={<ReproduceIcon />}
+                            onClick={() => onReproduceImage(image)}
+                            disabled={!image.provenance}
+                          >
+                            Reproduce
+                          </Button>
+                        )}
+                        {onMoreLikeThis && (
+                          <Button 
+                            size="small" 
+                            startIcon={<MoreLikeThisIcon />}
+                            onClick={() => onMoreLikeThis(image)}
+                          >
+                            More like this
+                          </Button>
+                        )}
+                        {onShowPromptDiff && (
+                          <Button 
+                            size="small" 
+                            startIcon={<DiffIcon />}
+                            onClick={() => onShowPromptDiff(image)}
+                            disabled={!image.provenance}
+                          >
+                            Diff
+                          </Button>
+                        )}
                       </Box>
                     </CardContent>
                   </Card>
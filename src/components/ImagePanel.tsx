@@ -19,7 +19,9 @@ import {
   Save as SaveIcon, 
   Close as CloseIcon, 
   ContentCopy as CopyIcon,
-  CompareArrows as CompareIcon
+  CompareArrows as CompareIcon,
+  Replay as ReproduceIcon,
+  AutoAwesome as MoreLikeThisIcon
 } from '@mui/icons-material';
 import { ImageComparisonDialog } from './ImageComparisonDialog';
 import type { GeneratedImage } from '../types/Story';
@@ -32,6 +34,10 @@ interface ImagePanelProps {
   onDeleteImage: (imageId: string) => void;
   onSaveSpecificImage: (imageUrl: string) => void;
   onCleanupMissingImages?: (missingIds: string[]) => void;
+  onReproduceImage?: (image: GeneratedImage) => void;
+  onMoreLikeThis?: (image: GeneratedImage) => void;
+  onShowPromptDiff?: (image: GeneratedImage) => void;
+  onToggleStarImage?: (image: GeneratedImage) => void;
 }
 
 export const ImagePanel: React.FC<ImagePanelProps> = ({
@@ -41,7 +47,11 @@ export const ImagePanel: React.FC<ImagePanelProps> = ({
   onClear,
   onDeleteImage,
   onSaveSpecificImage,
-  onCleanupMissingImages
+  onCleanupMissingImages,
+  onReproduceImage,
+  onMoreLikeThis,
+  onShowPromptDiff,
+  onToggleStarImage
 }) => {
   const [fullScreenOpen, setFullScreenOpen] = useState(false);
   const [comparisonDialogOpen, setComparisonDialogOpen] = useState(false);
@@ -49,6 +59,9 @@ export const ImagePanel: React.FC<ImagePanelProps> = ({
   const [snackbarMessage, setSnackbarMessage] = useState('');
   const [snackbarSeverity, setSnackbarSeverity] = useState<'success' | 'error'>('success');
 
+  // The displayed image is the latest in history
+  const latestImage = imageHistory.length > 0 ? imageHistory[imageHistory.length - 1] : undefined;
+
   const handleCopyImage = async (urlToCopy?: string) => {
     const targetUrl = urlToCopy || imageUrl;
     if (!targetUrl) return;
@@ -269,6 +282,26 @@ export const ImagePanel: React.FC<ImagePanelProps> = ({
             >
               Copy
             </Button>
+            {onReproduceImage && latestImage?.provenance && (
+              <Button
+                size="small"
+                startIcon={<ReproduceIcon />}
+                onClick={() => onReproduceImage(latestImage)}
+                title="Generate again with the exact prompt, model and references recorded for this image"
+              >
+                Reproduce
+              </Button>
+            )}
+            {onMoreLikeThis && latestImage && (
+              <Button
+                size="small"
+                startIcon={<MoreLikeThisIcon />}
+                onClick={() => onMoreLikeThis(latestImage)}
+                title="Generate a new variation that stays close to this image"
+              >
+                More like this
+              </Button>
+            )}
             <Button
               size="small"
               onClick={onClear}
@@ -356,6 +389,10 @@ export const ImagePanel: React.FC<ImagePanelProps> = ({
         onSaveImage={onSaveSpecificImage}
         onCopyImage={handleCopyImage}
         onCleanupMissingImages={onCleanupMissingImages}
+        onReproduceImage={onReproduceImage}
+        onMoreLikeThis={onMoreLikeThis}
+        onShowPromptDiff={onShowPromptDiff}
+        onToggleStar={onToggleStarImage}
       />
     </>
   );
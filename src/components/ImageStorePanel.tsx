@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Alert,
+  CircularProgress,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow
+} from '@mui/material';
+import {
+  Storage as StorageIcon,
+  Refresh as RefreshIcon,
+  MoveDown as MoveDownIcon,
+  DeleteSweep as DeleteSweepIcon
+} from '@mui/icons-material';
+import { ImageStoreService } from '../services/ImageStoreService';
+import { ImageMigrationService } from '../services/ImageMigrationService';
+import type { ImageStoreMigrationProgress, ImageStoreReport } from '../types/ImageStore';
+
+const formatBytes = (bytes: number) => ImageMigrationService.formatBytes(bytes);
+
+/**
+ * Image store usage, migration of the old per-ID image files and garbage
+ * collection of unused blobs (Operations panel section)
+ */
+export const ImageStorePanel: React.FC = () => {
+  const [report, setReport] = useState<ImageStoreReport | null>(null);
+  const [progress, setProgress] = useState<ImageStoreMigrationProgress | null>(null);
+  const [message, setMessage] = useState<{ severity: 'success' | 'warning'; text: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setReport(await ImageStoreService.getStorageReport());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Image store operation failed');
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const handleRefresh = () => run(async () => {
+    setMessage(null);
+  });
+
+  const handleMigrate = () => run(async () => {
+    const result = await ImageStoreService.migrateLegacyImages(setProgress);
+    setMessage(result.failed.length > 0
+      ? { severity: 'warning', text: `Moved ${result.migrated} image(s); ${result.failed.length} failed: ${result.failed.map(f => f.path).join(', ')}` }
+      : { severity: 'success', text: `Moved ${result.migrated} image(s), ${result.deduplicated} duplicate(s), saving ${formatBytes(result.bytesSaved)}` });
+  });
+
+  const handleCollect = () => run(async () => {
+    // Confirm what collection would actually do, not the last report
+    const preview = await ImageStoreService.collectGarbage({ dryRun: true });
+    const parts = [`delete ${preview.deletedBlobs.length} unused image blob(s) (${formatBytes(preview.freedBytes)})`];
+    if (preview.quarantinedBlobs.length > 0) {
+      parts.push(`move ${preview.quarantinedBlobs.length} blob file(s) missing from the index to prompter-cache/blobs-quarantine`);
+    }
+    if (!window.confirm(`This will ${parts.join(' and ')}. Continue?`)) {
+      return;
+    }
+
+    const result = await ImageStoreService.collectGarbage();
+    const quarantined = result.quarantinedBlobs.length > 0 ? `; moved ${result.quarantinedBlobs.length} unindexed blob file(s) to quarantine` : '';
+    setMessage({ severity: 'success', text: `Deleted ${result.deletedBlobs.length} blob(s), freeing ${formatBytes(result.freedBytes)}${quarantined}` });
+  });
+
+  const rows: Array<[string, string]> = report ? [
+    ['Images', `${report.imageCount}`],
+    ['Distinct images (blobs)', `${report.blobCount}`],
+    ['Size without deduplication', formatBytes(report.logicalBytes)],
+    ['Size on disk', formatBytes(report.storedBytes)],
+    ['Saved by deduplication', formatBytes(Math.max(0, report.logicalBytes - (report.storedBytes - report.unreferencedBytes)))],
+    ['Unused blobs', `${report.unreferencedBlobs} (${formatBytes(report.unreferencedBytes)})`],
+    ['Blob files missing from the index', `${report.unindexedBlobs} (${formatBytes(report.unindexedBytes)})`],
+    ['Images in the old layout', `${report.legacyFiles} (${formatBytes(report.legacyBytes)})`]
+  ] : [];
+
+  return (
+    <Paper elevation={2} sx={{ p: 3, mb: 3 }}>
+      <Typography variant="h5" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <StorageIcon /> Image Store
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Images are stored once per distinct content in prompter-cache/blobs, so duplicates share one file.
+        Images saved before the store existed are still read from prompter-cache/scenes and characters
+        until they are moved.
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+        <Button variant="outlined" startIcon={busy ? <CircularProgress size={20} /> : <RefreshIcon />} onClick={handleRefresh} disabled={busy}>
+          Storage Report
+        </Button>
+        <Button variant="contained" startIcon={<MoveDownIcon />} onClick={handleMigrate} disabled={busy || !report || report.legacyFiles === 0}>
+          Move Old Images Into Store
+        </Button>
+        <Button variant="outlined" color="warning" startIcon={<DeleteSweepIcon />} onClick={handleCollect} disabled={busy || !report || !!report.indexError || report.unreferencedBlobs + report.unindexedBlobs === 0}>
+          Delete Unused Blobs
+        </Button>
+      </Box>
+
+      {progress && (
+        <Box sx={{ mb: 2 }}>
+          <LinearProgress variant="determinate" value={(progress.current / progress.total) * 100} />
+          <Typography variant="caption" color="text.secondary">
+            {progress.current} / {progress.total}: {progress.path}
+          </Typography>
+        </Box>
+      )}
+
+      {report?.indexError && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          The image store index could not be read ({report.indexError}). A copy was kept in prompter-cache/blobs.
+          Until prompter-cache/blobs/index.json loads again, images can't be saved, removed or collected.
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {message && (
+        <Alert severity={message.severity} sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+          {message.text}
+        </Alert>
+      )}
+
+      {report && (
+        <Table size="small" sx={{ maxWidth: 480 }}>
+          <TableBody>
+            {rows.map(([label, value]) => (
+              <TableRow key={label}>
+                <TableCell>{label}</TableCell>
+                <TableCell align="right">{value}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+};
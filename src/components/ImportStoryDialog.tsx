@@ -23,7 +23,9 @@ import { Upload as UploadIcon, CheckCircle as CheckIcon } from '@mui/icons-mater
 import { MarkdownStoryParser } from '../services/MarkdownStoryParser';
 import type { ParsedStoryBundle } from '../services/MarkdownStoryParser';
 import { BookService } from '../services/BookService';
-import type { Story, Scene, StoryElement } from '../types/Story';
+import { BookSnapshotService } from '../services/BookSnapshotService';
+import { AvoidListResolver } from '../services/AvoidListResolver';
+import type { Chapter, Story, Scene, StoryElement } from '../types/Story';
 import type { Character } from '../models/Story';
 // Note: Character is now in models/Story.ts (name-based, not ID-based)
 
@@ -146,6 +148,9 @@ export const ImportStoryDialog: React.FC<ImportStoryDialogProps> = ({ open, onCl
         throw new Error('No active book selected. Please create or select a book first.');
       }
 
+      // Snapshot before the book is modified below
+      await BookSnapshotService.createSnapshot(activeBookId, 'import', `Before importing "${storyTitle.trim()}"`);
+
       // Get book data for StoryData format (used for saving)
       const bookData = await BookService.getActiveBookData();
       if (!bookData) {
@@ -193,12 +198,21 @@ export const ImportStoryDialog: React.FC<ImportStoryDialogProps> = ({ open, onCl
       // If JSON file was uploaded, read it once for elements and diagramPanels
       let jsonElements: any[] = [];
       let jsonScenes: any[] = [];
+      let jsonStoryAvoid: string[] | undefined;
+      const chapters: Chapter[] = [];
+      const chapterIds = new Map<string, string>(); // title -> id
       if (importMode === 'json' && jsonFile) {
         try {
           const content = await MarkdownStoryParser.readFile(jsonFile);
           const jsonData = JSON.parse(content);
           jsonElements = jsonData.elements || [];
           jsonScenes = jsonData.scenes || [];
+          jsonStoryAvoid = AvoidListResolver.normalize(jsonData.story?.avoid);
+          (jsonData.chapters || []).forEach((chapter: { title: string; description?: string }) => {
+            const id = crypto.randomUUID();
+            chapters.push({ id, title: chapter.title, description: chapter.description });
+            if (!chapterIds.has(chapter.title)) chapterIds.set(chapter.title, id);
+          });
         } catch (e) {
           // Ignore if can't read
         }
@@ -304,8 +318,10 @@ export const ImportStoryDialog: React.FC<ImportStoryDialogProps> = ({ open, onCl
           id: crypto.randomUUID(),
           title: ps.title,
           description: ps.description,
+          chapterId: jsonScene?.chapter ? chapterIds.get(jsonScene.chapter) : undefined,
           textPanel: textPanel,
           diagramPanel: diagramPanel,
+          avoid: AvoidListResolver.normalize(jsonScene?.avoid),
           characters: characters,
           elements: elements,
           createdAt: new Date(),
@@ -333,7 +349,9 @@ export const ImportStoryDialog: React.FC<ImportStoryDialogProps> = ({ open, onCl
         characters: [], // Characters are at book level, not story level
         elements: elements, // Elements remain at story level
         scenes: scenes,
+        chapters: chapters.length > 0 ? chapters : undefined,
         diagramStyle: diagramStyle,
+        avoid: jsonStoryAvoid,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -14,14 +14,15 @@ import {
   Alert,
 } from '@mui/material';
 import PreviewIcon from '@mui/icons-material/Preview';
-import { IMAGE_MODELS } from '../constants/imageModels';
+import { ImageProviderRegistry } from '../services/ImageProviderRegistry';
 import { SettingsService } from '../services/SettingsService';
+import type { PromptStrategyOption } from '../types/PromptTemplate';
 
 interface ModelSelectionDialogProps {
   open: boolean;
   onClose: () => void;
-  onConfirm: (modelName: string, promptStrategy?: 'auto' | 'legacy' | 'gemini') => void;
-  onPreview?: (modelName: string, promptStrategy?: 'auto' | 'legacy' | 'gemini') => void; // Optional preview callback
+  onConfirm: (modelName: string, promptStrategy?: PromptStrategyOption) => void;
+  onPreview?: (modelName: string, promptStrategy?: PromptStrategyOption) => void; // Optional preview callback
 }
 
 export const ModelSelectionDialog: React.FC<ModelSelectionDialogProps> = ({
@@ -31,7 +32,7 @@ export const ModelSelectionDialog: React.FC<ModelSelectionDialogProps> = ({
   onPreview,
 }) => {
   const [selectedModel, setSelectedModel] = useState('');
-  const [promptStrategy, setPromptStrategy] = useState<'auto' | 'legacy' | 'gemini'>('auto');
+  const [promptStrategy, setPromptStrategy] = useState<PromptStrategyOption>('auto');
   const [rememberChoice, setRememberChoice] = useState(false);
 
   useEffect(() => {
@@ -74,9 +75,11 @@ export const ModelSelectionDialog: React.FC<ModelSelectionDialogProps> = ({
     // Don't close here - SceneEditor will handle closing after preview is built
   };
 
+  const models = ImageProviderRegistry.getAllModels();
+  const selectedModelInfo = ImageProviderRegistry.getModel(selectedModel);
+
   const getModelInfo = () => {
-    const model = IMAGE_MODELS.find(m => m.value === selectedModel);
-    return model ? model.label : '';
+    return selectedModelInfo ? selectedModelInfo.label : selectedModel;
   };
 
   return (
@@ -96,7 +99,7 @@ export const ModelSelectionDialog: React.FC<ModelSelectionDialogProps> = ({
               label="Model"
               onChange={(e) => setSelectedModel(e.target.value)}
             >
-              {IMAGE_MODELS.map((model) => (
+              {models.map((model) => (
                 <MenuItem key={model.value} value={model.value}>
                   {model.label}
                 </MenuItem>
@@ -109,11 +112,12 @@ export const ModelSelectionDialog: React.FC<ModelSelectionDialogProps> = ({
             <Select
               value={promptStrategy}
               label="Prompt Strategy"
-              onChange={(e) => setPromptStrategy(e.target.value as 'auto' | 'legacy' | 'gemini')}
+              onChange={(e) => setPromptStrategy(e.target.value as PromptStrategyOption)}
             >
               <MenuItem value="auto">Auto (Detect from Model)</MenuItem>
               <MenuItem value="legacy">Legacy (Simple)</MenuItem>
               <MenuItem value="gemini">Gemini (Structured)</MenuItem>
+              <MenuItem value="template">Book Template (Custom)</MenuItem>
             </Select>
           </FormControl>
 
@@ -124,9 +128,12 @@ export const ModelSelectionDialog: React.FC<ModelSelectionDialogProps> = ({
             <Typography variant="caption" display="block" gutterBottom>
               <strong>Legacy:</strong> Simple concatenated prompts (works with all models)
             </Typography>
-            <Typography variant="caption" display="block">
+            <Typography variant="caption" display="block" gutterBottom>
               <strong>Gemini:</strong> Structured prompts optimized for Gemini Nano Banana Pro
             </Typography>
+            <Typography variant="caption" display="block">
+              <strong>Book Template:</strong> The book's own prompt templates (edit them from the Books tab)
+            </Typography>
           </Alert>
 
           {selectedModel && (
@@ -134,6 +141,14 @@ export const ModelSelectionDialog: React.FC<ModelSelectionDialogProps> = ({
               <Typography variant="body2">
                 <strong>Selected:</strong> {getModelInfo()}
               </Typography>
+              {selectedModelInfo && (
+                <Typography variant="caption" display="block">
+                  Provider: {ImageProviderRegistry.getProvider(selectedModelInfo.providerId)?.name ?? selectedModelInfo.providerId}
+                  {' · '}Aspect ratios: {selectedModelInfo.capabilities.supportedAspectRatios.join(', ')}
+                  {' · '}Max reference images: {selectedModelInfo.capabilities.maxReferenceImages}
+                  {selectedModelInfo.cost?.note && ` · ${selectedModelInfo.cost.note}`}
+                </Typography>
+              )}
             </Alert>
           )}
 
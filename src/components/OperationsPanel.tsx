@@ -35,6 +35,10 @@ import {
   CloudDownload as CloudDownloadIcon
 } from '@mui/icons-material';
 import { BookService } from '../services/BookService';
+import { BookSnapshotService } from '../services/BookSnapshotService';
+import { BookIntegrityPanel } from './BookIntegrityPanel';
+import { ImageStorePanel } from './ImageStorePanel';
+import { StorageManagerPanel } from './StorageManagerPanel';
 import { ImageStorageService } from '../services/ImageStorageService';
 
 interface DiagnosticResult {
@@ -275,6 +279,7 @@ export const OperationsPanel: React.FC = () => {
     
     try {
       console.log('=== Fixing Missing Metadata ===');
+      await BookSnapshotService.snapshotAllBooks('migration', 'Before fixing missing image metadata');
       let fixedCount = 0;
       
       for (const mismatch of missingMetadataMismatches) {
@@ -412,6 +417,7 @@ export const OperationsPanel: React.FC = () => {
     
     try {
       console.log('=== Rebuilding Galleries from Filesystem ===');
+      await BookSnapshotService.snapshotAllBooks('migration', 'Before rebuilding galleries');
       
       const books = await BookService.getAllBooks();
       let fixedCount = 0;
@@ -1181,6 +1187,12 @@ export const OperationsPanel: React.FC = () => {
         </Box>
       )}
 
+      <Box sx={{ mt: 3 }}>
+        <BookIntegrityPanel />
+        <ImageStorePanel />
+        <StorageManagerPanel />
+      </Box>
+
       {/* Test Panel */}
       <Paper elevation={2} sx={{ p: 3, mt: 3 }}>
         <Typography variant="h5" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  TextField,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Checkbox,
+  ToggleButton,
+  ToggleButtonGroup,
+  Divider,
+  CircularProgress
+} from '@mui/material';
+import type { Book } from '../models/Book';
+import { BookService } from '../services/BookService';
+import { PdfExportService } from '../services/PdfExportService';
+import { ExportDownloadService } from '../services/ExportDownloadService';
+import {
+  DEFAULT_PDF_PRINT_SETTINGS,
+  TRIM_SIZE_PRESETS,
+  type PageMargins,
+  type PdfExportIssue,
+  type PdfPrintSettings
+} from '../types/PdfExport';
+
+interface PdfExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  bookId: string | null;
+  /** Export one story; the whole book when absent */
+  storyId?: string;
+  onExported?: (message: string) => void;
+}
+
+const CUSTOM_TRIM = 'custom';
+
+const MARGIN_LABELS: Record<keyof PageMargins, string> = {
+  top: 'Top',
+  bottom: 'Bottom',
+  inside: 'Inside',
+  outside: 'Outside'
+};
+
+const OPTION_LABELS: Array<[keyof PdfPrintSettings, string]> = [
+  ['coverPage', 'Cover page'],
+  ['titlePage', 'Title page'],
+  ['sectionPages', 'Story and chapter title pages'],
+  ['pageNumbers', 'Page numbers'],
+  ['facingPages', 'Facing pages (mirrored margins, sections start on the right)'],
+  ['spreads', 'Export as two-page spreads (for screen review)']
+];
+
+const IssueList: React.FC<{ issues: PdfExportIssue[] }> = ({ issues }) => (
+  <>
+    {issues.map((issue, index) => (
+      <Alert key={index} severity={issue.severity} sx={{ mb: 1 }}>
+        {issue.message}
+      </Alert>
+    ))}
+  </>
+);
+
+/**
+ * Print settings and checks for exporting a story or a whole book as a
+ * print-ready PDF (see PdfExportService)
+ */
+export const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ open, onClose, bookId, storyId, onExported }) => {
+  const [book, setBook] = useState<Book | null>(null);
+  const [settings, setSettings] = useState<PdfPrintSettings>(DEFAULT_PDF_PRINT_SETTINGS);
+  const [issues, setIssues] = useState<PdfExportIssue[]>([]);
+  const [exportIssues, setExportIssues] = useState<PdfExportIssue[] | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !bookId) return;
+    setExportIssues(null);
+    setError(null);
+    BookService.getBook(bookId).then(setBook).catch(err => {
+      setError(err instanceof Error ? err.message : 'Failed to load the book');
+    });
+  }, [open, bookId]);
+
+  useEffect(() => {
+    if (!open || !bookId) return;
+    let cancelled = false;
+    PdfExportService.validateExport({ bookId, storyId }, settings)
+      .then(found => { if (!cancelled) setIssues(found); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to check the book'); });
+    return () => { cancelled = true; };
+  }, [open, bookId, storyId, settings]);
+
+  if (!bookId) {
+    return null;
+  }
+
+  const story = storyId ? book?.stories.find(s => s.id === storyId) : undefined;
+  const coverScenes = (story ? [story] : book?.stories ?? [])
+    .flatMap(s => s.scenes)
+    .filter(scene => scene.imageHistory?.length);
+  const trimPreset = TRIM_SIZE_PRESETS.find(preset =>
+    preset.size.width === settings.trimSize.width && preset.size.height === settings.trimSize.height
+  );
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+
+  const update = (changes: Partial<PdfPrintSettings>) => {
+    setSettings(previous => ({ ...previous, ...changes }));
+    setExportIssues(null);
+  };
+
+  const numberField = (label: string, value: number, onChange: (value: number) => void, step = 0.125) => (
+    <TextField
+      label={label}
+      type="number"
+      size="small"
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      inputProps={{ step, min: 0 }}
+      sx={{ width: 110 }}
+    />
+  );
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const result = await PdfExportService.exportToPdf({ bookId, storyId }, settings);
+      ExportDownloadService.downloadBlob(result.blob, ExportDownloadService.generateFilename('pdf', book?.title ?? 'Book', story?.title));
+      setExportIssues(result.issues);
+      onExported?.(`Exported ${result.pageCount} PDF pages with ${result.imageCount} images`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the PDF');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={exporting ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Export {story ? `"${story.title}"` : 'Book'} to PDF
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <Typography variant="subtitle2" gutterBottom>Page</Typography>
+        <Box display="flex" flexWrap="wrap" gap={2} alignItems="center" mb={2}>
+          <FormControl size="small" sx={{ minWidth: 280 }}>
+            <InputLabel>Trim size</InputLabel>
+            <Select
+              label="Trim size"
+              value={trimPreset?.id ?? CUSTOM_TRIM}
+              onChange={(e) => {
+                const preset = TRIM_SIZE_PRESETS.find(p => p.id === e.target.value);
+                if (preset) update({ trimSize: { ...preset.size } });
+              }}
+            >
+              {TRIM_SIZE_PRESETS.map(preset => (
+                <MenuItem key={preset.id} value={preset.id}>{preset.label}</MenuItem>
+              ))}
+              <MenuItem value={CUSTOM_TRIM} disabled>Custom</MenuItem>
+            </Select>
+          </FormControl>
+          {numberField('Width (in)', settings.trimSize.width, width => update({ trimSize: { ...settings.trimSize, width } }))}
+          {numberField('Height (in)', settings.trimSize.height, height => update({ trimSize: { ...settings.trimSize, height } }))}
+          {numberField('Bleed (in)', settings.bleed, bleed => update({ bleed }))}
+        </Box>
+
+        <Typography variant="subtitle2" gutterBottom>Margins (inches)</Typography>
+        <Box display="flex" flexWrap="wrap" gap={2} mb={2}>
+          {(Object.keys(MARGIN_LABELS) as Array<keyof PageMargins>).map(key => (
+            <React.Fragment key={key}>
+              {numberField(MARGIN_LABELS[key], settings.margins[key], value => update({ margins: { ...settings.margins, [key]: value } }))}
+            </React.Fragment>
+          ))}
+        </Box>
+
+        <Typography variant="subtitle2" gutterBottom>Images</Typography>
+        <Box display="flex" flexWrap="wrap" gap={2} alignItems="center" mb={2}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={settings.imageFit}
+            onChange={(_, value) => value && update({ imageFit: value })}
+          >
+            <ToggleButton value="bleed">Full page (to bleed)</ToggleButton>
+            <ToggleButton value="margins">Inside margins</ToggleButton>
+          </ToggleButtonGroup>
+          {numberField('Minimum DPI', settings.minDpi, minDpi => update({ minDpi }), 50)}
+          {book?.aspectRatio && (
+            <Typography variant="body2" color="text.secondary">
+              Book aspect ratio: {book.aspectRatio}
+            </Typography>
+          )}
+        </Box>
+
+        <Typography variant="subtitle2" gutterBottom>Pages</Typography>
+        <Box display="flex" flexDirection="column" mb={1}>
+          {OPTION_LABELS.map(([key, label]) => (
+            <FormControlLabel
+              key={key}
+              label={label}
+              control={
+                <Checkbox
+                  size="small"
+                  checked={settings[key] as boolean}
+                  disabled={key === 'spreads' && !settings.facingPages}
+                  onChange={(e) => update({ [key]: e.target.checked })}
+                />
+              }
+            />
+          ))}
+        </Box>
+        {settings.coverPage && coverScenes.length > 0 && (
+          <FormControl size="small" sx={{ minWidth: 280, mb: 2 }}>
+            <InputLabel>Cover image</InputLabel>
+            <Select
+              label="Cover image"
+              value={settings.coverSceneId ?? coverScenes[0].id}
+              onChange={(e) => update({ coverSceneId: e.target.value })}
+            >
+              {coverScenes.map(scene => (
+                <MenuItem key={scene.id} value={scene.id}>{scene.title}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+        {exportIssues ? (
+          <>
+            <Typography variant="subtitle2" gutterBottom>Export report</Typography>
+            {exportIssues.length === 0
+              ? <Alert severity="success">All pages are ready for print.</Alert>
+              : <IssueList issues={exportIssues} />}
+          </>
+        ) : (
+          <>
+            <Typography variant="subtitle2" gutterBottom>Checks</Typography>
+            {issues.length === 0
+              ? <Alert severity="success" sx={{ mb: 1 }}>No problems found. Image resolution is checked during export.</Alert>
+              : <IssueList issues={issues} />}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={exporting}>Close</Button>
+        <Button
+          variant="contained"
+          onClick={handleExport}
+          disabled={exporting || hasErrors || !book}
+          startIcon={exporting ? <CircularProgress size={16} /> : undefined}
+        >
+          {exporting ? 'Exporting...' : 'Export PDF'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
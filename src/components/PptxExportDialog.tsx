@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  FormControlLabel,
+  Checkbox,
+  ToggleButton,
+  ToggleButtonGroup,
+  Divider,
+  CircularProgress
+} from '@mui/material';
+import type { Book } from '../models/Book';
+import { BookService } from '../services/BookService';
+import { PptxExportService } from '../services/PptxExportService';
+import { ExportDownloadService } from '../services/ExportDownloadService';
+import {
+  DEFAULT_PPTX_EXPORT_SETTINGS,
+  type PptxExportIssue,
+  type PptxExportSettings
+} from '../types/PptxExport';
+
+interface PptxExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  bookId: string | null;
+  /** Export one story; the whole book when absent */
+  storyId?: string;
+  onExported?: (message: string) => void;
+}
+
+/**
+ * Settings for exporting a story or a whole book as a PowerPoint deck
+ * (see PptxExportService)
+ */
+export const PptxExportDialog: React.FC<PptxExportDialogProps> = ({ open, onClose, bookId, storyId, onExported }) => {
+  const [book, setBook] = useState<Book | null>(null);
+  const [settings, setSettings] = useState<PptxExportSettings>(DEFAULT_PPTX_EXPORT_SETTINGS);
+  const [exportIssues, setExportIssues] = useState<PptxExportIssue[] | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !bookId) return;
+    setExportIssues(null);
+    setError(null);
+    BookService.getBook(bookId).then(setBook).catch(err => {
+      setError(err instanceof Error ? err.message : 'Failed to load the book');
+    });
+  }, [open, bookId]);
+
+  if (!bookId) {
+    return null;
+  }
+
+  const story = storyId ? book?.stories.find(s => s.id === storyId) : undefined;
+
+  const update = (changes: Partial<PptxExportSettings>) => {
+    setSettings(previous => ({ ...previous, ...changes }));
+    setExportIssues(null);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const result = await PptxExportService.exportToPptx({ bookId, storyId }, settings);
+      ExportDownloadService.downloadBlob(result.blob, ExportDownloadService.generateFilename('pptx', book?.title ?? 'Book', story?.title));
+      setExportIssues(result.issues);
+      onExported?.(`Exported slide deck with ${result.slideCount} slides`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the slide deck');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={exporting ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Export {story ? `"${story.title}"` : 'Book'} to PowerPoint
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          One slide per scene, placed by the scene's layout: the scene image, with its text panel as an
+          editable text box. Text panels and diagrams drawn onto the picture itself stay in it, under
+          their editable copies.
+        </Typography>
+
+        <Typography variant="subtitle2" gutterBottom>Diagrams</Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={settings.diagramMode}
+          onChange={(_, value) => value && update({ diagramMode: value })}
+          sx={{ mb: 1 }}
+        >
+          <ToggleButton value="image">Rendered pictures</ToggleButton>
+          <ToggleButton value="editable">Editable text</ToggleButton>
+        </ToggleButtonGroup>
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          {settings.diagramMode === 'image'
+            ? 'Diagrams look the way they do in the scene images.'
+            : 'Code, math (as LaTeX) and markdown become editable text; Mermaid diagrams are still rendered.'}
+        </Typography>
+
+        <Box display="flex" flexDirection="column" mb={1}>
+          <FormControlLabel
+            label="Scene descriptions as speaker notes"
+            control={<Checkbox size="small" checked={settings.speakerNotes} onChange={(e) => update({ speakerNotes: e.target.checked })} />}
+          />
+          <FormControlLabel
+            label="Title slide"
+            control={<Checkbox size="small" checked={settings.titleSlide} onChange={(e) => update({ titleSlide: e.target.checked })} />}
+          />
+        </Box>
+
+        {exportIssues && (
+          <>
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle2" gutterBottom>Export report</Typography>
+            {exportIssues.length === 0
+              ? <Alert severity="success">Every scene was exported.</Alert>
+              : exportIssues.map((issue, index) => (
+                <Alert key={index} severity={issue.severity} sx={{ mb: 1 }}>
+                  {issue.message}
+                </Alert>
+              ))}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={exporting}>Close</Button>
+        <Button
+          variant="contained"
+          onClick={handleExport}
+          disabled={exporting || !book}
+          startIcon={exporting ? <CircularProgress size={16} /> : undefined}
+        >
+          {exporting ? 'Exporting...' : 'Export PPTX'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
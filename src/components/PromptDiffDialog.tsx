@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Paper,
+  Chip,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import type { GeneratedImage } from '../types/Story';
+import type { PromptDiffResult, PromptDiffSegment, PromptInputChange } from '../types/PromptDiff';
+import { BookService } from '../services/BookService';
+import { PromptDiffService } from '../services/PromptDiffService';
+
+interface PromptDiffDialogProps {
+  open: boolean;
+  onClose: () => void;
+  image: GeneratedImage | null;
+  storyId: string | null;
+  sceneId: string | null;
+}
+
+const CATEGORY_LABELS: Record<PromptInputChange['category'], string> = {
+  character: 'Characters',
+  element: 'Elements',
+  style: 'Book Style',
+  layout: 'Layout'
+};
+
+const describeChange = (change: PromptInputChange): string => {
+  if (change.category === 'character' || change.category === 'element') {
+    return change.after ? `+ ${change.label}` : `− ${change.label}`;
+  }
+  return `${change.label}: ${change.before ?? '(none)'} → ${change.after ?? '(none)'}`;
+};
+
+const promptBoxSx = {
+  p: 2,
+  flex: 1,
+  bgcolor: 'grey.50',
+  border: 1,
+  borderColor: 'grey.300',
+  maxHeight: '50vh',
+  overflow: 'auto',
+  fontFamily: 'monospace',
+  fontSize: '0.8rem',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word'
+} as const;
+
+/**
+ * Side-by-side word diff between the prompt that produced a past image and
+ * the prompt the scene would produce now, plus the changed inputs
+ * (characters, elements, book style fields, layout)
+ */
+export const PromptDiffDialog: React.FC<PromptDiffDialogProps> = ({ open, onClose, image, storyId, sceneId }) => {
+  const [diff, setDiff] = useState<PromptDiffResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !image?.provenance || !storyId || !sceneId) {
+      setDiff(null);
+      return;
+    }
+
+    const provenance = image.provenance;
+    const loadDiff = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const activeBookId = await BookService.getActiveBookId();
+        const book = activeBookId ? await BookService.getBook(activeBookId) : null;
+        const story = book?.stories.find(s => s.id === storyId);
+        const scene = story?.scenes.find(s => s.id === sceneId);
+        if (!story || !scene) {
+          throw new Error('Scene no longer exists');
+        }
+
+        const current = PromptDiffService.getCurrentState(provenance, scene, story, book);
+        setDiff(PromptDiffService.compare(provenance, current));
+      } catch (err) {
+        console.error('Failed to build prompt diff:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDiff();
+  }, [open, image, storyId, sceneId]);
+
+  const renderSegments = (segments: PromptDiffSegment[], side: 'removed' | 'added') =>
+    segments
+      .filter(segment => segment.op === 'equal' || segment.op === side)
+      .map((segment, index) => (
+        <Box
+          key={index}
+          component="span"
+          sx={segment.op === 'equal' ? undefined : {
+            bgcolor: side === 'removed' ? 'error.light' : 'success.light',
+            textDecoration: side === 'removed' ? 'line-through' : undefined,
+            borderRadius: 0.5
+          }}
+        >
+          {segment.text}
+        </Box>
+      ));
+
+  const changesByCategory = (diff?.changes ?? []).reduce<Record<string, PromptInputChange[]>>((groups, change) => {
+    (groups[change.category] ||= []).push(change);
+    return groups;
+  }, {});
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Prompt Changes Since This Image</DialogTitle>
+
+      <DialogContent>
+        {!image?.provenance ? (
+          <Alert severity="info">
+            This image was generated before prompts were recorded, so there is nothing to compare.
+          </Alert>
+        ) : loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : diff && (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Generated {new Date(image.timestamp).toLocaleString()} with {image.provenance.model}
+              {' '}({image.provenance.promptStrategy} prompt strategy)
+            </Typography>
+
+            {diff.changes.length > 0 && (
+              <Box sx={{ mb: 2 }}>
+                {Object.entries(changesByCategory).map(([category, changes]) => (
+                  <Box key={category} sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+                    <Typography variant="subtitle2" sx={{ minWidth: 90 }}>
+                      {CATEGORY_LABELS[category as PromptInputChange['category']]}
+                    </Typography>
+                    {changes.map((change, index) => (
+                      <Chip
+                        key={index}
+                        size="small"
+                        label={describeChange(change)}
+                        color={change.after === undefined ? 'error' : change.before === undefined ? 'success' : 'warning'}
+                        variant="outlined"
+                      />
+                    ))}
+                  </Box>
+                ))}
+              </Box>
+            )}
+
+            {diff.identical ? (
+              <Alert severity="success">
+                The prompt is unchanged. Differences between images come from the model, not the scene.
+              </Alert>
+            ) : (
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
+                  <Typography variant="subtitle2" gutterBottom>Prompt for this image</Typography>
+                  <Paper elevation={0} sx={promptBoxSx}>
+                    {renderSegments(diff.segments, 'removed')}
+                  </Paper>
+                </Box>
+                <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
+                  <Typography variant="subtitle2" gutterBottom>Prompt now</Typography>
+                  <Paper elevation={0} sx={promptBoxSx}>
+                    {renderSegments(diff.segments, 'added')}
+                  </Paper>
+                </Box>
+              </Box>
+            )}
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,302 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  Tabs,
+  Tab,
+  Chip,
+  Tooltip,
+  Paper,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert
+} from '@mui/material';
+import type { Book } from '../models/Book';
+import type { Character } from '../models/Story';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_PLACEHOLDERS,
+  type PromptTemplateKind,
+  type PromptTemplates
+} from '../types/PromptTemplate';
+import { BookService } from '../services/BookService';
+import { SceneImageGenerationService } from '../services/SceneImageGenerationService';
+import { CharacterImageService } from '../services/CharacterImageService';
+import { TemplatePromptBuildingService } from '../services/TemplatePromptBuildingService';
+
+interface PromptTemplateEditorDialogProps {
+  open: boolean;
+  onClose: () => void;
+  bookId: string | null;
+  onSaved?: () => void;
+}
+
+const KINDS: PromptTemplateKind[] = ['scene', 'character'];
+
+// Preview characters are keyed by their storage context ("book" or story ID) and name
+const characterKey = (contextId: string, name: string) => `${contextId}::${name}`;
+
+/**
+ * Editor for a book's scene and character prompt templates (used by the
+ * 'template' prompt strategy), with a live preview rendered against a
+ * chosen scene or character of the book
+ */
+export const PromptTemplateEditorDialog: React.FC<PromptTemplateEditorDialogProps> = ({
+  open,
+  onClose,
+  bookId,
+  onSaved
+}) => {
+  const [book, setBook] = useState<Book | null>(null);
+  const [tab, setTab] = useState(0);
+  const [drafts, setDrafts] = useState<Required<PromptTemplates>>({ ...DEFAULT_PROMPT_TEMPLATES });
+  const [previewStoryId, setPreviewStoryId] = useState('');
+  const [previewSceneId, setPreviewSceneId] = useState('');
+  const [previewCharacter, setPreviewCharacter] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const kind = KINDS[tab];
+
+  useEffect(() => {
+    if (!open || !bookId) return;
+
+    setSaveError(null);
+    BookService.getBook(bookId).then(loaded => {
+      setBook(loaded);
+      if (!loaded) return;
+
+      setDrafts({
+        scene: loaded.promptTemplates?.scene ?? DEFAULT_PROMPT_TEMPLATES.scene,
+        character: loaded.promptTemplates?.character ?? DEFAULT_PROMPT_TEMPLATES.character
+      });
+      const firstStory = loaded.stories.find(s => s.scenes.length > 0) ?? loaded.stories[0];
+      setPreviewStoryId(firstStory?.id ?? '');
+      setPreviewSceneId(firstStory?.scenes[0]?.id ?? '');
+      const firstCharacter = loaded.characters[0]
+        ? characterKey('book', loaded.characters[0].name)
+        : firstStory?.characters[0] ? characterKey(firstStory.id, firstStory.characters[0].name) : '';
+      setPreviewCharacter(firstCharacter);
+    });
+  }, [open, bookId]);
+
+  const previewStory = book?.stories.find(s => s.id === previewStoryId);
+  const previewScene = previewStory?.scenes.find(s => s.id === previewSceneId);
+
+  const characterOptions = useMemo(() => {
+    if (!book) return [];
+    return [
+      ...book.characters.map(c => ({ key: characterKey('book', c.name), label: `${c.name} (book)`, character: c, backgroundSetup: book.backgroundSetup || '' })),
+      ...book.stories.flatMap(story => story.characters.map(c => ({
+        key: characterKey(story.id, c.name),
+        label: `${c.name} (${story.title})`,
+        character: c as Character,
+        backgroundSetup: story.backgroundSetup || book.backgroundSetup || ''
+      })))
+    ];
+  }, [book]);
+
+  const unknownPlaceholders = TemplatePromptBuildingService.findUnknownPlaceholders(drafts[kind], kind);
+
+  const preview = useMemo(() => {
+    if (!book) return '';
+    // Render against a copy of the book carrying the unsaved drafts
+    const draftBook = { ...book, promptTemplates: drafts } as Book;
+
+    try {
+      if (kind === 'scene') {
+        if (!previewStory || !previewScene) return '';
+        return SceneImageGenerationService.buildCurrentScenePrompt(previewScene, previewStory, draftBook, undefined, 'template');
+      }
+      const option = characterOptions.find(o => o.key === previewCharacter);
+      if (!option) return '';
+      return CharacterImageService.buildCharacterPrompt(option.character, option.backgroundSetup, draftBook, undefined, false, 'template');
+    } catch (error) {
+      console.error('Error rendering template preview:', error);
+      return 'Error rendering template';
+    }
+  }, [book, drafts, kind, previewStory, previewScene, previewCharacter, characterOptions]);
+
+  const updateDraft = (value: string) => {
+    setDrafts(prev => ({ ...prev, [kind]: value }));
+  };
+
+  const handleInsertPlaceholder = (name: string) => {
+    const placeholder = `{{${name}}}`;
+    const input = inputRef.current;
+    const current = drafts[kind];
+    const start = input?.selectionStart ?? current.length;
+    const end = input?.selectionEnd ?? current.length;
+    updateDraft(current.slice(0, start) + placeholder + current.slice(end));
+
+    // Restore the cursor after the inserted placeholder
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!bookId) return;
+
+    // Templates equal to the defaults are not stored, so default improvements still apply
+    const templates: PromptTemplates = {
+      scene: drafts.scene !== DEFAULT_PROMPT_TEMPLATES.scene ? drafts.scene : undefined,
+      character: drafts.character !== DEFAULT_PROMPT_TEMPLATES.character ? drafts.character : undefined
+    };
+    const hasCustomTemplates = templates.scene !== undefined || templates.character !== undefined;
+
+    try {
+      await BookService.updateBook(bookId, { promptTemplates: hasCustomTemplates ? templates : undefined });
+      onSaved?.();
+      onClose();
+    } catch (error) {
+      console.error('Error saving prompt templates:', error);
+      setSaveError(error instanceof Error ? error.message : 'Failed to save templates');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Prompt Templates{book ? ` - ${book.title}` : ''}</DialogTitle>
+
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          Used when the "Book Template" prompt strategy is selected. Click a placeholder to insert it at the cursor.
+        </Typography>
+
+        <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+          <Tab label="Scene Template" />
+          <Tab label="Character Template" />
+        </Tabs>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 2 }}>
+          {PROMPT_TEMPLATE_PLACEHOLDERS[kind].map(placeholder => (
+            <Tooltip key={placeholder.name} title={placeholder.description}>
+              <Chip
+                label={`{{${placeholder.name}}}`}
+                size="small"
+                variant="outlined"
+                onClick={() => handleInsertPlaceholder(placeholder.name)}
+              />
+            </Tooltip>
+          ))}
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <Box sx={{ flex: 1 }}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={16}
+              maxRows={24}
+              label={kind === 'scene' ? 'Scene prompt template' : 'Character prompt template'}
+              value={drafts[kind]}
+              onChange={(e) => updateDraft(e.target.value)}
+              inputRef={inputRef}
+              inputProps={{ style: { fontFamily: 'monospace', fontSize: '0.85rem' } }}
+            />
+            {unknownPlaceholders.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                Unknown placeholder{unknownPlaceholders.length > 1 ? 's' : ''}: {unknownPlaceholders.map(name => `{{${name}}}`).join(', ')}
+              </Alert>
+            )}
+          </Box>
+
+          <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 1 }}>
+            {kind === 'scene' ? (
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <FormControl size="small" sx={{ flex: 1 }}>
+                  <InputLabel>Story</InputLabel>
+                  <Select
+                    value={previewStoryId}
+                    label="Story"
+                    onChange={(e) => {
+                      const story = book?.stories.find(s => s.id === e.target.value);
+                      setPreviewStoryId(e.target.value);
+                      setPreviewSceneId(story?.scenes[0]?.id ?? '');
+                    }}
+                  >
+                    {book?.stories.map(story => (
+                      <MenuItem key={story.id} value={story.id}>{story.title}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl size="small" sx={{ flex: 1 }}>
+                  <InputLabel>Scene</InputLabel>
+                  <Select
+                    value={previewSceneId}
+                    label="Scene"
+                    onChange={(e) => setPreviewSceneId(e.target.value)}
+                  >
+                    {previewStory?.scenes.map(scene => (
+                      <MenuItem key={scene.id} value={scene.id}>{scene.title}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Box>
+            ) : (
+              <FormControl size="small" fullWidth>
+                <InputLabel>Character</InputLabel>
+                <Select
+                  value={previewCharacter}
+                  label="Character"
+                  onChange={(e) => setPreviewCharacter(e.target.value)}
+                >
+                  {characterOptions.map(option => (
+                    <MenuItem key={option.key} value={option.key}>{option.label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+
+            <Paper
+              elevation={0}
+              sx={{
+                p: 2,
+                flex: 1,
+                bgcolor: 'grey.50',
+                border: 1,
+                borderColor: 'grey.300',
+                maxHeight: '420px',
+                overflow: 'auto',
+                fontFamily: 'monospace',
+                fontSize: '0.8rem',
+                whiteSpace: 'pre-wrap',
+                wordBreak: 'break-word'
+              }}
+            >
+              {preview || (kind === 'scene' ? 'Select a scene to preview' : 'Select a character to preview')}
+            </Paper>
+          </Box>
+        </Box>
+
+        {saveError && (
+          <Alert severity="error" sx={{ mt: 2 }}>{saveError}</Alert>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button
+          onClick={() => updateDraft(DEFAULT_PROMPT_TEMPLATES[kind])}
+          disabled={drafts[kind] === DEFAULT_PROMPT_TEMPLATES[kind]}
+          sx={{ mr: 'auto' }}
+        >
+          Reset to Default
+        </Button>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained" disabled={!book}>
+          Save Templates
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip
+} from '@mui/material';
+import type { SaveRecoveryReport } from '../types/SaveJournal';
+
+interface SaveRecoveryDialogProps {
+  report: SaveRecoveryReport | null;
+  onClose: () => void;
+}
+
+/**
+ * Shown after loading when SaveJournalService found saves interrupted by a
+ * crash, listing which were completed and which were discarded
+ */
+export const SaveRecoveryDialog: React.FC<SaveRecoveryDialogProps> = ({ report, onClose }) => {
+  const entries = report?.entries ?? [];
+  const hasErrors = entries.some(entry => entry.errors.length > 0);
+
+  return (
+    <Dialog open={entries.length > 0} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Interrupted Saves Recovered</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          The app stopped while saving. Saves that had been committed were completed; saves that
+          hadn't were discarded, leaving the book as it was before them.
+        </Typography>
+
+        {hasErrors && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Some files could not be recovered. Check the affected books, or restore them from a snapshot.
+          </Alert>
+        )}
+
+        {entries.map((entry, index) => (
+          <Box key={`${entry.book}-${index}`} sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography variant="subtitle2">{entry.book}</Typography>
+              <Chip
+                size="small"
+                label={entry.action === 'rolled-forward' ? 'Save completed' : 'Save discarded'}
+                color={entry.action === 'rolled-forward' ? 'success' : 'default'}
+              />
+              {entry.startedAt && (
+                <Typography variant="caption" color="text.secondary">
+                  {entry.startedAt.toLocaleString()}
+                </Typography>
+              )}
+            </Box>
+            <Typography variant="body2" color="text.secondary">
+              {entry.files.length} file(s) {entry.action === 'rolled-forward' ? 'updated' : 'discarded'}
+            </Typography>
+            {entry.errors.map(error => (
+              <Typography key={error} variant="body2" color="error">
+                {error}
+              </Typography>
+            ))}
+          </Box>
+        ))}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} variant="contained">
+          OK
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -37,9 +37,12 @@ import { SceneImageGenerator } from './SceneImageGenerator';
 import { ScenePromptPreview } from './ScenePromptPreview';
 import { SceneDiagramPanel } from './SceneDiagramPanel';
 import { SceneTextPanel } from './SceneTextPanel';
+import { AvoidListField } from './AvoidListField';
+import { AvoidListResolver } from '../services/AvoidListResolver';
 import { useSceneEditor } from '../hooks/useSceneEditor';
 import { useImageGeneration } from '../hooks/useImageGeneration';
 import { useLayoutManagement } from '../hooks/useLayoutManagement';
+import type { PromptStrategyOption } from '../types/PromptTemplate';
 
 /**
  * Calculate the minimum height needed for a text panel based on content
@@ -111,11 +114,13 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ story, selectedScene,
     textPanelContent: textPanel,
     selectedCharacters,
     selectedElements,
+    sceneAvoid,
     handleTitleChange,
     handleDescriptionChange,
     handleTextPanelChange,
     handleCharacterSelectionChange,
     handleElementSelectionChange,
+    handleAvoidChange,
     handleInsertMacro
   } = useSceneEditor(story, currentScene, onStoryUpdate);
   
@@ -205,6 +210,8 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ story, selectedScene,
   const textPanelFieldRef = React.useRef<HTMLTextAreaElement>(null);
   const lastNotifiedImageUrl = useRef<string | null>(null);
   const lastSelectedModel = useRef<string | null>(null);
+  // Model the prompt preview is built for (default model until the user generates with another)
+  const [previewModel, setPreviewModel] = useState<string | undefined>(undefined);
 
   /**
    * Load image from filesystem
@@ -301,6 +308,18 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ story, selectedScene,
     loadScene();
   }, [selectedScene, story, onStoryUpdate]);
 
+  useEffect(() => {
+    const loadPreviewModel = async () => {
+      try {
+        const model = await SettingsService.getImageGenerationModel();
+        setPreviewModel(current => current ?? model);
+      } catch (error) {
+        console.error('Failed to load image generation model:', error);
+      }
+    };
+    loadPreviewModel();
+  }, []);
+
   // Load active book to access book-level characters
   useEffect(() => {
     const loadBook = async () => {
@@ -564,6 +583,9 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ story, selectedScene,
         for (const image of currentScene.imageHistory) {
           try {
             await ImageStorageService.deleteImage(image.id);
+            if (image.baseImageId) {
+              await ImageStorageService.deleteImage(image.baseImageId);
+            }
             deletedCount++;
           } catch (err) {
             console.error(`Failed to delete image ${image.id}:`, err);
@@ -615,14 +637,15 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ story, selectedScene,
   };
 
   // Build preview data for SceneImageGenerator (uses hook)
-  const handleBuildPreview = async (modelName: string, promptStrategy?: 'auto' | 'legacy' | 'gemini'): Promise<PreviewData> => {
+  const handleBuildPreview = async (modelName: string, promptStrategy?: PromptStrategyOption): Promise<PreviewData> => {
     return await buildPreview(modelName, promptStrategy);
   };
 
   // Perform image generation for SceneImageGenerator (uses hook)
-  const handlePerformImageGeneration = async (modelName: string, promptStrategy?: 'auto' | 'legacy' | 'gemini') => {
+  const handlePerformImageGeneration = async (modelName: string, promptStrategy?: PromptStrategyOption) => {
     // Store the selected model for potential retry
     lastSelectedModel.current = modelName;
+    setPreviewModel(modelName);
     
     // Get the active book to retrieve aspect ratio and panel config
     const activeBookId = await BookService.getActiveBookId();
@@ -942,6 +965,17 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ story, selectedScene,
         onSelectionChange={handleElementSelectionChange}
       />
 
+      {/* Scene avoid-list (story and book terms are inherited) */}
+      <Box sx={{ my: 2 }}>
+        <AvoidListField
+          label="Avoid in this scene"
+          value={sceneAvoid}
+          onChange={handleAvoidChange}
+          inherited={AvoidListResolver.resolveAvoidEntries(null, story, activeBook)
+            .filter(entry => !sceneAvoid.some(term => term.toLowerCase() === entry.term.toLowerCase()))}
+        />
+      </Box>
+
       {/* Prompt Preview - Extracted Component */}
       <ScenePromptPreview
         scene={currentScene}
@@ -953,6 +987,7 @@ export const SceneEditor: React.FC<SceneEditorProps> = ({ story, selectedScene,
         selectedElements={selectedElements}
         textPanelContent={textPanel}
         onInsertMacro={insertMacroToTextPanel}
+        model={previewModel}
       />
 
       {/* Diagram Preview Dialog */}
@@ -4,6 +4,7 @@ import { Image as ImageIcon } from '@mui/icons-material';
 import { ModelSelectionDialog } from './ModelSelectionDialog';
 import { ImageGenerationPreviewDialog, type PreviewData } from './ImageGenerationPreviewDialog';
 import type { Scene, Story } from '../types/Story';
+import type { PromptStrategyOption } from '../types/PromptTemplate';
 
 export interface SceneImageGeneratorProps {
   /** Current scene being edited */
@@ -17,9 +18,9 @@ export interface SceneImageGeneratorProps {
   /** Callback when image generation fails */
   onGenerationError: (error: Error) => void;
   /** Callback to build preview data */
-  onBuildPreview: (modelName: string, promptStrategy?: 'auto' | 'legacy' | 'gemini') => Promise<PreviewData>;
+  onBuildPreview: (modelName: string, promptStrategy?: PromptStrategyOption) => Promise<PreviewData>;
   /** Callback to perform actual image generation */
-  onPerformGeneration: (modelName: string, promptStrategy?: 'auto' | 'legacy' | 'gemini') => Promise<void>;
+  onPerformGeneration: (modelName: string, promptStrategy?: PromptStrategyOption) => Promise<void>;
   /** Whether generation is currently in progress */
   isGenerating?: boolean;
 }
@@ -51,7 +52,7 @@ export const SceneImageGenerator: React.FC<SceneImageGeneratorProps> = ({
   const [previewDialogOpen, setPreviewDialogOpen] = useState(false);
   const [previewData, setPreviewData] = useState<PreviewData | null>(null);
   const [pendingModelForGeneration, setPendingModelForGeneration] = useState<string | null>(null);
-  const [pendingPromptStrategy, setPendingPromptStrategy] = useState<'auto' | 'legacy' | 'gemini' | undefined>(undefined);
+  const [pendingPromptStrategy, setPendingPromptStrategy] = useState<PromptStrategyOption | undefined>(undefined);
 
   /**
    * Handle Generate Image button click
@@ -65,7 +66,7 @@ export const SceneImageGenerator: React.FC<SceneImageGeneratorProps> = ({
    * Handle preview request from model selection dialog
    * Builds preview data and opens preview dialog
    */
-  const handleShowPreview = async (modelName: string, promptStrategy?: 'auto' | 'legacy' | 'gemini') => {
+  const handleShowPreview = async (modelName: string, promptStrategy?: PromptStrategyOption) => {
     try {
       setPendingModelForGeneration(modelName);
       setPendingPromptStrategy(promptStrategy);
@@ -83,7 +84,7 @@ export const SceneImageGenerator: React.FC<SceneImageGeneratorProps> = ({
    * Handle direct generation from model selection dialog
    * Bypasses preview and starts generation immediately
    */
-  const handleDirectGeneration = async (modelName: string, promptStrategy?: 'auto' | 'legacy' | 'gemini') => {
+  const handleDirectGeneration = async (modelName: string, promptStrategy?: PromptStrategyOption) => {
     try {
       onGenerationStart();
       await onPerformGeneration(modelName, promptStrategy);
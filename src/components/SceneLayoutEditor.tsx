@@ -35,13 +35,13 @@ interface SceneLayoutEditorProps {
   open: boolean;
   currentLayout?: SceneLayout;
   bookAspectRatio: string; // e.g., "3:4", "16:9"
-  layoutSource?: 'scene' | 'story' | 'book' | 'default'; // Where the layout comes from
+  layoutSource?: 'scene' | 'chapter' | 'story' | 'book' | 'default'; // Where the layout comes from
   layoutSourceDescription?: string; // Human-readable description
-  inheritedLayout?: SceneLayout; // The layout that would be used if scene layout is cleared (from story or book)
+  inheritedLayout?: SceneLayout; // The layout that would be used if scene layout is cleared (from chapter, story or book)
   inheritedLayoutSource?: string; // Description of where inherited layout comes from
   onSave: (layout: SceneLayout) => void;
   onCancel: () => void;
-  onClearLayout?: () => void; // Optional: Clear scene-specific layout to use inherited layout
+  onClearLayout?: () => void; // Optional: Clear the scene (or chapter) layout to use inherited layout
 }
 
 type ElementType = 'image' | 'textPanel' | 'diagramPanel';
@@ -541,6 +541,7 @@ export const SceneLayoutEditor: React.FC<SceneLayoutEditorProps> = ({
                   borderRadius: 1,
                   backgroundColor: 
                     layoutSource === 'scene' ? 'primary.main' :
+                    layoutSource === 'chapter' ? 'success.main' :
                     layoutSource === 'story' ? 'secondary.main' :
                     layoutSource === 'book' ? 'info.main' :
                     'grey.500',
@@ -856,13 +857,13 @@ export const SceneLayoutEditor: React.FC<SceneLayoutEditorProps> = ({
             Copy from {inheritedLayoutSource || 'Inherited Layout'}
           </Button>
         )}
-        {onClearLayout && layoutSource === 'scene' && (
+        {onClearLayout && (layoutSource === 'scene' || layoutSource === 'chapter') && (
           <Button 
             onClick={onClearLayout}
             color="warning"
             variant="outlined"
           >
-            Clear Scene Layout
+            Clear {layoutSource === 'chapter' ? 'Chapter' : 'Scene'} Layout
           </Button>
         )}
         <Button onClick={onCancel}>Cancel</Button>
@@ -20,10 +20,21 @@ import {
   ExpandMore as ExpandMoreIcon,
   ExpandLess as ExpandLessIcon,
   DragIndicator as DragIndicatorIcon,
-  ContentCopy as ContentCopyIcon
+  ContentCopy as ContentCopyIcon,
+  DriveFileMove as DriveFileMoveIcon,
+  CreateNewFolder as CreateNewFolderIcon,
+  Edit as EditIcon,
+  ArrowUpward as ArrowUpwardIcon,
+  ArrowDownward as ArrowDownwardIcon,
+  ViewQuilt as ViewQuiltIcon
 } from '@mui/icons-material';
-import type { Scene, Story } from '../types/Story';
+import type { Chapter, Scene, SceneLayout, Story } from '../types/Story';
+import { Story as StoryModel } from '../models/Story';
 import { BookService } from '../services/BookService';
+import { SceneOrganizerService } from '../services/SceneOrganizerService';
+import type { StoryLocation } from '../types/SceneOrganizer';
+import { SceneTransferDialog } from './SceneTransferDialog';
+import { SceneLayoutEditor } from './SceneLayoutEditor';
 
 interface SceneListProps {
   story: Story | null;
@@ -45,6 +56,15 @@ export const SceneList: React.FC<SceneListProps> = ({
   const [sceneDescription, setSceneDescription] = useState('');
   const [expandedScenes, setExpandedScenes] = useState<Set<string>>(new Set());
   const [draggedSceneId, setDraggedSceneId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null); // Scene or chapter ID
+  const [activeBookId, setActiveBookId] = useState<string | null>(null);
+  const [activeBookAspectRatio, setActiveBookAspectRatio] = useState<string>('3:4');
+  const [chapterDialogOpen, setChapterDialogOpen] = useState(false);
+  const [editingChapter, setEditingChapter] = useState<Chapter | null>(null);
+  const [chapterTitle, setChapterTitle] = useState('');
+  const [chapterDescription, setChapterDescription] = useState('');
+  const [layoutChapter, setLayoutChapter] = useState<Chapter | null>(null);
+  const [transferScene, setTransferScene] = useState<Scene | null>(null);
 
   useEffect(() => {
     if (story) {
@@ -54,6 +74,31 @@ export const SceneList: React.FC<SceneListProps> = ({
     }
   }, [story]);
 
+  useEffect(() => {
+    BookService.getActiveBook().then(book => {
+      setActiveBookId(book?.id ?? null);
+      setActiveBookAspectRatio(book?.aspectRatio || '3:4');
+    });
+  }, [story]);
+
+  const location: StoryLocation | null = story && activeBookId ? { bookId: activeBookId, storyId: story.id } : null;
+  const chapters = story?.chapters ?? [];
+  const sections = StoryModel.groupScenes(chapters, scenes);
+
+  /**
+   * Run a SceneOrganizerService change on this story, then reload it
+   */
+  const organize = async (change: (location: StoryLocation) => Promise<unknown>) => {
+    if (!location) return;
+    try {
+      await change(location);
+      onStoryUpdate();
+    } catch (error) {
+      console.error('Failed to update scene order:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update scene order');
+    }
+  };
+
   const handleAddScene = () => {
     if (!story) return;
     setEditingScene(null);
@@ -104,6 +149,7 @@ export const SceneList: React.FC<SceneListProps> = ({
       ...sceneToDuplicate,
       id: crypto.randomUUID(),
       title: `${sceneToDuplicate.title} (Copy)`,
+      chapterId: sceneToDuplicate.chapterId,
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -206,50 +252,83 @@ export const SceneList: React.FC<SceneListProps> = ({
     e.dataTransfer.effectAllowed = 'move';
   };
 
-  const handleDragOver = (e: React.DragEvent) => {
+  const handleDragOver = (e: React.DragEvent, targetId: string) => {
     e.preventDefault();
     e.dataTransfer.dropEffect = 'move';
+    setDropTarget(targetId);
   };
 
-  const handleDrop = async (e: React.DragEvent, targetSceneId: string) => {
+  /**
+   * Drop the dragged scene at a position of a chapter (null: no chapter).
+   * Dropping on a scene takes its place; dropping on a chapter heading
+   * puts the scene at the end of the chapter.
+   */
+  const handleDrop = async (e: React.DragEvent, chapterId: string | null, index?: number) => {
     e.preventDefault();
-    if (!story || !draggedSceneId || draggedSceneId === targetSceneId) {
-      setDraggedSceneId(null);
-      return;
-    }
+    e.stopPropagation();
+    const sceneId = draggedSceneId;
+    setDraggedSceneId(null);
+    setDropTarget(null);
+    if (!sceneId) return;
 
-    const draggedIndex = scenes.findIndex(scene => scene.id === draggedSceneId);
-    const targetIndex = scenes.findIndex(scene => scene.id === targetSceneId);
-    
-    if (draggedIndex === -1 || targetIndex === -1) {
-      setDraggedSceneId(null);
-      return;
-    }
+    const section = sections.find(sec => (sec.chapter?.id ?? null) === chapterId);
+    if (!section) return;
+    if (index !== undefined && section.scenes[index]?.id === sceneId) return; // Dropped on itself
+    const otherCount = section.scenes.filter(scene => scene.id !== sceneId).length;
+    const targetIndex = Math.min(index ?? otherCount, otherCount);
 
-    const newScenes = [...scenes];
-    const [draggedScene] = newScenes.splice(draggedIndex, 1);
-    newScenes.splice(targetIndex, 0, draggedScene);
+    await organize(loc => SceneOrganizerService.moveScene(loc, sceneId, targetIndex, chapterId));
+  };
 
-    // Update the story with the new scene order
-    const activeBookData = await BookService.getActiveBookData();
-    if (!activeBookData) return;
-    
-    const updatedStories = activeBookData.stories.map(s => {
-      if (s.id === story.id) {
-        return { ...s, scenes: newScenes, updatedAt: new Date() };
+  const handleDragEnd = () => {
+    setDraggedSceneId(null);
+    setDropTarget(null);
+  };
+
+  // ========================================
+  // Chapters
+  // ========================================
+
+  const handleOpenChapterDialog = (chapter: Chapter | null) => {
+    setEditingChapter(chapter);
+    setChapterTitle(chapter?.title ?? '');
+    setChapterDescription(chapter?.description ?? '');
+    setChapterDialogOpen(true);
+  };
+
+  const handleSaveChapter = async () => {
+    const title = chapterTitle.trim();
+    if (!title) return;
+    const description = chapterDescription.trim() || undefined;
+    setChapterDialogOpen(false);
+    await organize(async loc => {
+      if (editingChapter) {
+        await SceneOrganizerService.updateChapter(loc, editingChapter.id, { title, description });
+      } else {
+        const chapter = await SceneOrganizerService.addChapter(loc, title);
+        if (description) {
+          await SceneOrganizerService.updateChapter(loc, chapter.id, { description });
+        }
       }
-      return s;
     });
-    
-    const updatedData = { ...activeBookData, stories: updatedStories };
-    await BookService.saveActiveBookData(updatedData);
-    setScenes(newScenes);
-    onStoryUpdate();
-    setDraggedSceneId(null);
   };
 
-  const handleDragEnd = () => {
-    setDraggedSceneId(null);
+  const handleDeleteChapter = async (chapter: Chapter) => {
+    if (!window.confirm(`Delete chapter "${chapter.title}"? Its scenes are kept and join the previous chapter.`)) return;
+    await organize(loc => SceneOrganizerService.deleteChapter(loc, chapter.id));
+  };
+
+  const handleMoveChapter = async (chapter: Chapter, offset: number) => {
+    const index = chapters.findIndex(c => c.id === chapter.id) + offset;
+    if (index < 0 || index >= chapters.length) return;
+    await organize(loc => SceneOrganizerService.moveChapter(loc, chapter.id, index));
+  };
+
+  const handleSaveChapterLayout = async (layout: SceneLayout | undefined) => {
+    if (!layoutChapter) return;
+    const chapterId = layoutChapter.id;
+    setLayoutChapter(null);
+    await organize(loc => SceneOrganizerService.updateChapter(loc, chapterId, { layout }));
   };
 
   if (!story) {
@@ -268,33 +347,126 @@ export const SceneList: React.FC<SceneListProps> = ({
         <Typography variant="h5" component="h2">
           Scenes
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={handleAddScene}
-        >
-          Add Scene
-        </Button>
+        <Box display="flex" gap={1}>
+          <Tooltip title="Group scenes into chapters">
+            <span>
+              <Button
+                variant="outlined"
+                startIcon={<CreateNewFolderIcon />}
+                onClick={() => handleOpenChapterDialog(null)}
+                disabled={!location}
+              >
+                Add Chapter
+              </Button>
+            </span>
+          </Tooltip>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={handleAddScene}
+          >
+            Add Scene
+          </Button>
+        </Box>
       </Box>
 
       <Box sx={{ maxHeight: '550px', overflow: 'auto' }}>
-        {scenes.length === 0 ? (
+        {scenes.length === 0 && chapters.length === 0 ? (
           <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
             No scenes created yet. Click "Add Scene" to get started.
           </Typography>
         ) : (
           <List>
-          {scenes.map((scene) => {
+          {sections.map((section) => {
+            const chapter = section.chapter;
+            const chapterId = chapter?.id ?? null;
+            const chapterIndex = chapter ? chapters.indexOf(chapter) : -1;
+            return (
+            <React.Fragment key={chapter?.id ?? 'no-chapter'}>
+            {chapter && (
+              <Box
+                onDragOver={(e) => handleDragOver(e, chapter.id)}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(e) => handleDrop(e, chapter.id)}
+                sx={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  mt: 2,
+                  mb: 1,
+                  px: 1,
+                  py: 0.5,
+                  borderBottom: 2,
+                  borderColor: dropTarget === chapter.id ? 'primary.main' : 'divider',
+                  backgroundColor: dropTarget === chapter.id ? 'action.hover' : 'transparent'
+                }}
+              >
+                <Box minWidth={0}>
+                  <Typography variant="subtitle1" fontWeight="bold" noWrap>
+                    {chapter.title}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {section.scenes.length} scene{section.scenes.length === 1 ? '' : 's'}
+                    {chapter.layout && ' · own layout'}
+                  </Typography>
+                </Box>
+                <Box display="flex" gap={0.5} flexShrink={0}>
+                  <Tooltip title="Move chapter up">
+                    <span>
+                      <IconButton size="small" disabled={chapterIndex === 0} onClick={() => handleMoveChapter(chapter, -1)}>
+                        <ArrowUpwardIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Move chapter down">
+                    <span>
+                      <IconButton size="small" disabled={chapterIndex === chapters.length - 1} onClick={() => handleMoveChapter(chapter, 1)}>
+                        <ArrowDownwardIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Chapter layout">
+                    <IconButton size="small" color={chapter.layout ? 'primary' : 'default'} onClick={() => setLayoutChapter(chapter)}>
+                      <ViewQuiltIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Rename chapter">
+                    <IconButton size="small" onClick={() => handleOpenChapterDialog(chapter)}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete chapter">
+                    <IconButton size="small" color="error" onClick={() => handleDeleteChapter(chapter)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              </Box>
+            )}
+            {chapter && section.scenes.length === 0 && (
+              <Typography
+                variant="body2"
+                color="text.secondary"
+                onDragOver={(e) => handleDragOver(e, chapter.id)}
+                onDrop={(e) => handleDrop(e, chapter.id)}
+                sx={{ textAlign: 'center', py: 1, mb: 1, border: 1, borderStyle: 'dashed', borderColor: 'divider', borderRadius: 1 }}
+              >
+                Drag scenes here
+              </Typography>
+            )}
+          {section.scenes.map((scene, sceneIndex) => {
             if (!scene || !scene.id) return null;
             return (
             <Box 
               key={scene.id}
               draggable
               onDragStart={(e) => handleDragStart(e, scene.id)}
-              onDragOver={handleDragOver}
-              onDrop={(e) => handleDrop(e, scene.id)}
+              onDragOver={(e) => handleDragOver(e, scene.id)}
+              onDrop={(e) => handleDrop(e, chapterId, sceneIndex)}
               onDragEnd={handleDragEnd}
               sx={{
+                borderTop: dropTarget === scene.id && draggedSceneId !== scene.id ? 2 : 0,
+                borderColor: 'primary.main',
                 opacity: draggedSceneId === scene.id ? 0.5 : 1,
                 transform: draggedSceneId === scene.id ? 'rotate(2deg)' : 'none',
                 transition: 'opacity 0.2s, transform 0.2s'
@@ -346,6 +518,21 @@ export const SceneList: React.FC<SceneListProps> = ({
                       </IconButton>
                     </Tooltip>
 
+                    <Tooltip title="Move or copy to another story or chapter">
+                      <span>
+                        <IconButton
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setTransferScene(scene);
+                          }}
+                          size="small"
+                          disabled={!location}
+                        >
+                          <DriveFileMoveIcon />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+
                     <Tooltip title="Duplicate scene">
                       <IconButton
                         onClick={(e) => {
@@ -415,6 +602,9 @@ export const SceneList: React.FC<SceneListProps> = ({
             </Box>
           );
         })}
+            </React.Fragment>
+            );
+          })}
       </List>
         )}
       </Box>
@@ -454,6 +644,63 @@ export const SceneList: React.FC<SceneListProps> = ({
           </Button>
         </DialogActions>
       </Dialog>
+
+      <Dialog open={chapterDialogOpen} onClose={() => setChapterDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editingChapter ? 'Edit Chapter' : 'Add Chapter'}
+        </DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Chapter Title"
+            fullWidth
+            variant="outlined"
+            value={chapterTitle}
+            onChange={(e) => setChapterTitle(e.target.value)}
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            margin="dense"
+            label="Chapter Description (optional)"
+            fullWidth
+            multiline
+            rows={2}
+            variant="outlined"
+            value={chapterDescription}
+            onChange={(e) => setChapterDescription(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setChapterDialogOpen(false)}>Cancel</Button>
+          <Button onClick={handleSaveChapter} variant="contained" disabled={!chapterTitle.trim()}>
+            {editingChapter ? 'Update' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <SceneTransferDialog
+        open={!!transferScene}
+        from={location}
+        scene={transferScene}
+        onClose={() => setTransferScene(null)}
+        onTransferred={() => onStoryUpdate()}
+      />
+
+      {layoutChapter && (
+        <SceneLayoutEditor
+          open={!!layoutChapter}
+          currentLayout={layoutChapter.layout || story.layout}
+          bookAspectRatio={activeBookAspectRatio}
+          layoutSource={layoutChapter.layout ? 'chapter' : story.layout ? 'story' : 'default'}
+          layoutSourceDescription={`Chapter: "${layoutChapter.title}"`}
+          inheritedLayout={story.layout}
+          inheritedLayoutSource={story.layout ? 'Story' : undefined}
+          onSave={handleSaveChapterLayout}
+          onCancel={() => setLayoutChapter(null)}
+          onClearLayout={layoutChapter.layout ? () => handleSaveChapterLayout(undefined) : undefined}
+        />
+      )}
     </Paper>
   );
 }; 
\ No newline at end of file
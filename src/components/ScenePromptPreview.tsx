@@ -9,16 +9,20 @@ import {
   AccordionDetails,
   Snackbar,
   Alert,
-  Tooltip
+  Tooltip,
+  Chip
 } from '@mui/material';
 import {
   ExpandMore as ExpandMoreIcon,
   ContentCopy as CopyIcon,
-  Code as CodeIcon
+  Code as CodeIcon,
+  Difference as DiffIcon
 } from '@mui/icons-material';
 import type { Scene, Story } from '../types/Story';
 import type { Character } from '../models/Story';
-import { SceneImageGenerationService } from '../services/SceneImageGenerationService';
+import { SceneImageGenerationService, type ScenePromptBuildResult } from '../services/SceneImageGenerationService';
+import { AvoidListResolver } from '../services/AvoidListResolver';
+import { PromptDiffDialog } from './PromptDiffDialog';
 
 export interface ScenePromptPreviewProps {
   /** Current scene for prompt generation */
@@ -39,6 +43,8 @@ export interface ScenePromptPreviewProps {
   textPanelContent: string;
   /** Callback to insert macro into text panel */
   onInsertMacro: (macro: string) => void;
+  /** Model the prompt will be sent to (selects the strategy and token budget) */
+  model?: string;
 }
 
 /**
@@ -48,6 +54,9 @@ export interface ScenePromptPreviewProps {
  * - Prompt generation from scene data
  * - Copy to clipboard functionality
  * - Macro insertion buttons
+ * - Diff against the prompt of the latest generated image
+ * - Token budget usage and what was compacted to fit the model's budget
+ * - The merged scene → story → book avoid-list included in the prompt
  * - Success/error notifications
  */
 export const ScenePromptPreview: React.FC<ScenePromptPreviewProps> = ({
@@ -59,15 +68,21 @@ export const ScenePromptPreview: React.FC<ScenePromptPreviewProps> = ({
   selectedCharacters,
   selectedElements,
   textPanelContent,
-  onInsertMacro
+  onInsertMacro,
+  model
 }) => {
   const [snackbarOpen, setSnackbarOpen] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
   const [snackbarSeverity, setSnackbarSeverity] = useState<'success' | 'error'>('success');
+  const [diffOpen, setDiffOpen] = useState(false);
+
+  const latestImage = scene?.imageHistory && scene.imageHistory.length > 0
+    ? scene.imageHistory[scene.imageHistory.length - 1]
+    : null;
 
   // Generate prompt whenever dependencies change
-  const prompt = useMemo(() => {
-    if (!scene || !story) return '';
+  const promptResult = useMemo<ScenePromptBuildResult | null>(() => {
+    if (!scene || !story) return null;
 
     try {
       // Filter selected characters
@@ -81,18 +96,23 @@ export const ScenePromptPreview: React.FC<ScenePromptPreviewProps> = ({
       );
 
       // Build prompt using the service
-      return SceneImageGenerationService.buildScenePrompt(
+      return SceneImageGenerationService.buildScenePromptWithStrategy(
         scene,
         story,
         activeBook,
         selectedCast,
-        selectedElementsList
+        selectedElementsList,
+        model
       );
     } catch (error) {
       console.error('Error generating prompt:', error);
-      return 'Error generating prompt';
+      return { prompt: 'Error generating prompt', strategy: 'unknown' };
     }
-  }, [scene, story, activeBook, availableCharacters, availableElements, selectedCharacters, selectedElements]);
+  }, [scene, story, activeBook, availableCharacters, availableElements, selectedCharacters, selectedElements, model]);
+
+  const prompt = promptResult?.prompt ?? '';
+  const budget = promptResult?.budget;
+  const avoidEntries = scene && story ? AvoidListResolver.resolveAvoidEntries(scene, story, activeBook) : [];
 
   // Handle copy to clipboard
   const handleCopyPrompt = async () => {
@@ -145,6 +165,19 @@ export const ScenePromptPreview: React.FC<ScenePromptPreviewProps> = ({
                     {'{SceneDescription}'}
                   </Button>
                 </Tooltip>
+                <Tooltip title={latestImage?.provenance ? 'Compare with the prompt of the latest image' : 'No recorded prompt for the latest image'}>
+                  <span>
+                    <Button
+                      size="small"
+                      startIcon={<DiffIcon />}
+                      onClick={() => setDiffOpen(true)}
+                      variant="outlined"
+                      disabled={!latestImage?.provenance}
+                    >
+                      Diff vs Last Image
+                    </Button>
+                  </span>
+                </Tooltip>
                 <Button
                   variant="contained"
                   startIcon={<CopyIcon />}
@@ -173,10 +206,69 @@ export const ScenePromptPreview: React.FC<ScenePromptPreviewProps> = ({
             >
               {prompt || 'No prompt generated yet'}
             </Paper>
+
+            {avoidEntries.length > 0 && (
+              <Box display="flex" alignItems="center" flexWrap="wrap" gap={0.5} mt={1}>
+                <Typography variant="caption" color="text.secondary" sx={{ mr: 0.5 }}>
+                  Avoiding:
+                </Typography>
+                {avoidEntries.map(entry => (
+                  <Chip
+                    key={`${entry.source}-${entry.term}`}
+                    size="small"
+                    color="error"
+                    variant="outlined"
+                    label={`${entry.term} (${entry.source})`}
+                  />
+                ))}
+              </Box>
+            )}
+
+            {budget && (
+              <Box mt={1}>
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  color={!budget.withinBudget ? 'error' : budget.steps.length > 0 ? 'warning' : 'default'}
+                  label={`~${budget.finalTokens} / ${budget.maxTokens} tokens${model ? ` (${model})` : ''}`}
+                />
+                {budget.steps.length > 0 && (
+                  <Alert severity={budget.withinBudget ? 'info' : 'warning'} sx={{ mt: 1 }}>
+                    <Typography variant="body2" gutterBottom>
+                      {budget.withinBudget
+                        ? `Compacted from ~${budget.originalTokens} tokens to fit the model's budget:`
+                        : `Still over the model's budget after compacting from ~${budget.originalTokens} tokens:`}
+                    </Typography>
+                    <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                      {budget.steps.map((step, index) => (
+                        <li key={index}>
+                          <Typography variant="body2">
+                            {step.action} ({step.items.join(', ')}) - {step.reason}. Saved ~{step.tokensSaved} tokens.
+                          </Typography>
+                        </li>
+                      ))}
+                    </Box>
+                  </Alert>
+                )}
+                {!budget.withinBudget && budget.steps.length === 0 && (
+                  <Alert severity="warning" sx={{ mt: 1 }}>
+                    The prompt exceeds the model's budget and nothing lower-priority is left to cut. Consider shortening the scene description.
+                  </Alert>
+                )}
+              </Box>
+            )}
           </Box>
         </AccordionDetails>
       </Accordion>
 
+      <PromptDiffDialog
+        open={diffOpen}
+        onClose={() => setDiffOpen(false)}
+        image={latestImage}
+        storyId={story?.id ?? null}
+        sceneId={scene?.id ?? null}
+      />
+
       <Snackbar
         open={snackbarOpen}
         autoHideDuration={3000}
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Radio,
+  RadioGroup,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  CircularProgress
+} from '@mui/material';
+import type { Book } from '../models/Book';
+import { BookService } from '../services/BookService';
+import { SceneOrganizerService } from '../services/SceneOrganizerService';
+import type { SceneTransferMode, SceneTransferResult, StoryLocation } from '../types/SceneOrganizer';
+
+interface SceneTransferDialogProps {
+  open: boolean;
+  from: StoryLocation | null;
+  scene: { id: string; title: string } | null;
+  onClose: () => void;
+  onTransferred: (result: SceneTransferResult, mode: SceneTransferMode) => void;
+}
+
+// Select value for "no chapter"
+const NO_CHAPTER = '';
+
+function describeResult(result: SceneTransferResult): string | null {
+  const notes: string[] = [];
+  if (result.addedCharacters.length > 0) notes.push(`characters added: ${result.addedCharacters.join(', ')}`);
+  if (result.addedElements.length > 0) notes.push(`elements added: ${result.addedElements.join(', ')}`);
+  if (result.skippedImages > 0) notes.push(`${result.skippedImages} image(s) could not be copied`);
+  return notes.length > 0 ? notes.join('; ') : null;
+}
+
+/**
+ * Move or copy a scene to a chapter of any story in any book
+ * (see SceneOrganizerService.transferScene)
+ */
+export const SceneTransferDialog: React.FC<SceneTransferDialogProps> = ({
+  open,
+  from,
+  scene,
+  onClose,
+  onTransferred
+}) => {
+  const [books, setBooks] = useState<Book[]>([]);
+  const [mode, setMode] = useState<SceneTransferMode>('move');
+  const [bookId, setBookId] = useState('');
+  const [storyId, setStoryId] = useState('');
+  const [chapterId, setChapterId] = useState(NO_CHAPTER);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !from) return;
+    setMode('move');
+    setBookId(from.bookId);
+    setStoryId(from.storyId);
+    setChapterId(NO_CHAPTER);
+    setError(null);
+    setNotice(null);
+    BookService.getAllBooks().then(setBooks).catch(err => {
+      setError(err instanceof Error ? err.message : 'Failed to load books');
+    });
+  }, [open, from]);
+
+  const book = books.find(b => b.id === bookId);
+  const story = book?.stories.find(s => s.id === storyId);
+  const sameStory = !!from && from.bookId === bookId && from.storyId === storyId;
+
+  const handleBookChange = (id: string) => {
+    setBookId(id);
+    setStoryId(books.find(b => b.id === id)?.stories[0]?.id ?? '');
+    setChapterId(NO_CHAPTER);
+  };
+
+  const handleStoryChange = (id: string) => {
+    setStoryId(id);
+    setChapterId(NO_CHAPTER);
+  };
+
+  const handleTransfer = async () => {
+    if (!from || !scene || !story) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await SceneOrganizerService.transferScene({
+        from,
+        sceneId: scene.id,
+        to: { bookId, storyId, chapterId: chapterId || null },
+        mode
+      });
+      onTransferred(result, mode);
+      const summary = describeResult(result);
+      if (summary) {
+        setNotice(`${mode === 'move' ? 'Moved' : 'Copied'} "${scene.title}" to "${story.title}" (${summary})`);
+      } else {
+        onClose();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to transfer the scene');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Move or Copy Scene</DialogTitle>
+      <DialogContent>
+        {scene && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Scene: <strong>{scene.title}</strong>
+          </Typography>
+        )}
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {notice && <Alert severity="info" sx={{ mb: 2 }}>{notice}</Alert>}
+
+        <RadioGroup row value={mode} onChange={(e) => setMode(e.target.value as SceneTransferMode)}>
+          <FormControlLabel value="move" control={<Radio />} label="Move" disabled={busy || !!notice} />
+          <FormControlLabel value="copy" control={<Radio />} label="Copy" disabled={busy || !!notice} />
+        </RadioGroup>
+
+        <Box display="flex" flexDirection="column" gap={2} mt={2}>
+          <FormControl fullWidth size="small" disabled={busy || !!notice}>
+            <InputLabel>Book</InputLabel>
+            <Select label="Book" value={book ? bookId : ''} onChange={(e) => handleBookChange(e.target.value)}>
+              {books.map(b => (
+                <MenuItem key={b.id} value={b.id}>{b.title}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl fullWidth size="small" disabled={busy || !!notice || !book}>
+            <InputLabel>Story</InputLabel>
+            <Select label="Story" value={story ? storyId : ''} onChange={(e) => handleStoryChange(e.target.value)}>
+              {book?.stories.map(s => (
+                <MenuItem key={s.id} value={s.id}>{s.title}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl fullWidth size="small" disabled={busy || !!notice || !story}>
+            <InputLabel shrink>Chapter</InputLabel>
+            <Select
+              label="Chapter"
+              displayEmpty
+              notched
+              value={chapterId}
+              onChange={(e) => setChapterId(e.target.value)}
+            >
+              <MenuItem value={NO_CHAPTER}><em>No chapter</em></MenuItem>
+              {story?.chapters.map(c => (
+                <MenuItem key={c.id} value={c.id}>{c.title}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+
+        {sameStory && mode === 'copy' && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            Copying within the same story duplicates the scene.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {notice ? (
+          <Button onClick={onClose} variant="contained">Done</Button>
+        ) : (
+          <>
+            <Button onClick={onClose} disabled={busy}>Cancel</Button>
+            <Button
+              onClick={handleTransfer}
+              variant="contained"
+              disabled={busy || !scene || !story}
+              startIcon={busy ? <CircularProgress size={16} /> : undefined}
+            >
+              {mode === 'move' ? 'Move' : 'Copy'}
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -27,11 +27,14 @@ import {
   Warning as WarningIcon
 } from '@mui/icons-material';
 import { SettingsService } from '../services/SettingsService';
+import { BookSnapshotService, MAX_SNAPSHOTS_PER_BOOK } from '../services/BookSnapshotService';
 import { FileSystemService } from '../services/FileSystemService';
 import { DirectoryMigrationService } from '../services/DirectoryMigrationService';
 import type { MigrationProgress } from '../services/DirectoryMigrationService';
-import { IMAGE_MODELS } from '../constants/imageModels';
+import { getImageModels } from '../constants/imageModels';
+import { MOCK_IMAGE_MODEL } from '../services/MockImageProvider';
 import { TEXT_LLM_MODELS } from '../constants/textLLMModels';
+import type { UsageBudget } from '../types/UsageLedger';
 
 interface SettingsDialogProps {
   open: boolean;
@@ -46,6 +49,10 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ open, onClose })
   const [saveDirectory, setSaveDirectory] = useState<string | null>(null);
   const [isSelectingDirectory, setIsSelectingDirectory] = useState(false);
   const [autoSaveEnabled, setAutoSaveEnabled] = useState(false);
+  const [budgetLimit, setBudgetLimit] = useState('');
+  const [budgetPeriod, setBudgetPeriod] = useState<UsageBudget['period']>('month');
+  const [budgetAction, setBudgetAction] = useState<UsageBudget['action']>('warn');
+  const [snapshotInterval, setSnapshotInterval] = useState(15);
   
   // Migration state
   const [showMigrationWarning, setShowMigrationWarning] = useState(false);
@@ -63,6 +70,10 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ open, onClose })
         setModel(settings.imageGenerationModel || 'google/gemini-2.5-flash-image');
         setTextLLMModel(settings.textLLMModel || 'google/gemini-2.0-flash-exp');
         setAutoSaveEnabled(settings.autoSaveImages ?? false);
+        setBudgetLimit(settings.usageBudget ? String(settings.usageBudget.limit) : '');
+        setBudgetPeriod(settings.usageBudget?.period ?? 'month');
+        setBudgetAction(settings.usageBudget?.action ?? 'warn');
+        setSnapshotInterval(settings.snapshotIntervalMinutes ?? 15);
         setSaved(false);
       };
       loadSettings();
@@ -75,12 +86,16 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ open, onClose })
   }, [open]);
 
   const handleSave = async () => {
+    const limit = parseFloat(budgetLimit);
     await SettingsService.updateSettings({
       openRouterApiKey: apiKey.trim() || undefined,
       imageGenerationModel: model,
       textLLMModel: textLLMModel,
-      autoSaveImages: autoSaveEnabled
+      autoSaveImages: autoSaveEnabled,
+      usageBudget: limit > 0 ? { limit, period: budgetPeriod, action: budgetAction } : undefined,
+      snapshotIntervalMinutes: snapshotInterval
     });
+    await BookSnapshotService.startAutoSnapshots();
     setSaved(true);
     setTimeout(() => {
       onClose();
@@ -275,7 +290,7 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ open, onClose })
               onChange={(e) => setModel(e.target.value)}
               label="Image Generation Model"
             >
-              {IMAGE_MODELS.map((m) => (
+              {getImageModels().map((m) => (
                 <MenuItem key={m.value} value={m.value}>
                   {m.label}
                 </MenuItem>
@@ -283,6 +298,15 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ open, onClose })
             </Select>
           </FormControl>
 
+          {model === MOCK_IMAGE_MODEL && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              <Typography variant="caption">
+                <strong>Offline mock:</strong> Images are placeholders rendered locally from the prompt. 
+                No API key or network is needed - use this for demos, layout work and testing.
+              </Typography>
+            </Alert>
+          )}
+
           <FormControl fullWidth sx={{ mb: 2 }}>
             <InputLabel>Text LLM Model (for Wizard)</InputLabel>
             <Select
@@ -318,6 +342,79 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ open, onClose })
 
           <Divider sx={{ my: 3 }} />
 
+          {/* Budget Section */}
+          <Typography variant="h6" gutterBottom>
+            Usage Budget
+          </Typography>
+
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Every generation call is recorded in the book's usage ledger. Set a cap to be warned
+            (or blocked) before a batch generation would exceed it. Leave empty for no cap.
+          </Typography>
+
+          <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+            <TextField
+              label="Budget (USD)"
+              type="number"
+              value={budgetLimit}
+              onChange={(e) => setBudgetLimit(e.target.value)}
+              inputProps={{ min: 0, step: 0.5 }}
+              sx={{ flex: 1 }}
+            />
+            <FormControl sx={{ flex: 1 }}>
+              <InputLabel>Period</InputLabel>
+              <Select
+                value={budgetPeriod}
+                onChange={(e) => setBudgetPeriod(e.target.value as UsageBudget['period'])}
+                label="Period"
+              >
+                <MenuItem value="month">Per month (all books)</MenuItem>
+                <MenuItem value="book">Per book (lifetime)</MenuItem>
+              </Select>
+            </FormControl>
+            <FormControl sx={{ flex: 1 }}>
+              <InputLabel>When exceeded</InputLabel>
+              <Select
+                value={budgetAction}
+                onChange={(e) => setBudgetAction(e.target.value as UsageBudget['action'])}
+                label="When exceeded"
+              >
+                <MenuItem value="warn">Warn</MenuItem>
+                <MenuItem value="block">Block</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+
+          <Divider sx={{ my: 3 }} />
+
+          {/* Snapshots Section */}
+          <Typography variant="h6" gutterBottom>
+            Book Snapshots
+          </Typography>
+
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Books are also snapshotted before story imports, story deletions and repairs. The last{' '}
+            {MAX_SNAPSHOTS_PER_BOOK} snapshots of each book, and every snapshot taken before a story import or
+            deletion, can be browsed and restored from the File Manager.
+          </Typography>
+
+          <FormControl fullWidth sx={{ mb: 2 }}>
+            <InputLabel>Automatic snapshots</InputLabel>
+            <Select
+              value={snapshotInterval}
+              onChange={(e) => setSnapshotInterval(Number(e.target.value))}
+              label="Automatic snapshots"
+            >
+              <MenuItem value={0}>Off</MenuItem>
+              <MenuItem value={5}>Every 5 minutes</MenuItem>
+              <MenuItem value={15}>Every 15 minutes</MenuItem>
+              <MenuItem value={30}>Every 30 minutes</MenuItem>
+              <MenuItem value={60}>Every hour</MenuItem>
+            </Select>
+          </FormControl>
+
+          <Divider sx={{ my: 3 }} />
+
           {/* Storage Directory Section */}
           <Typography variant="h6" gutterBottom>
             Persistent Image Storage
@@ -0,0 +1,380 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  FormControlLabel,
+  Checkbox,
+  TextField,
+  MenuItem,
+  IconButton,
+  Tooltip,
+  Divider,
+  LinearProgress,
+  CircularProgress
+} from '@mui/material';
+import {
+  AudioFile as AudioIcon,
+  Close as RemoveIcon
+} from '@mui/icons-material';
+import type { Book } from '../models/Book';
+import { BookService } from '../services/BookService';
+import { FileSystemService } from '../services/FileSystemService';
+import { SceneAudioService } from '../services/SceneAudioService';
+import { SlideshowExportService } from '../services/SlideshowExportService';
+import { ExportDownloadService } from '../services/ExportDownloadService';
+import {
+  DEFAULT_SCENE_DURATION,
+  DEFAULT_SLIDESHOW_SETTINGS,
+  SLIDESHOW_RESOLUTIONS,
+  type KenBurnsMotion,
+  type SceneSlideshow,
+  type SlideshowExportProgress,
+  type SlideshowIssue,
+  type SlideshowSettings
+} from '../types/Slideshow';
+
+interface SlideshowTimelineDialogProps {
+  open: boolean;
+  onClose: () => void;
+  bookId: string | null;
+  storyId: string | null;
+  onExported?: (message: string) => void;
+}
+
+const MOTIONS: Array<{ value: KenBurnsMotion; label: string }> = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'zoom-in', label: 'Zoom in' },
+  { value: 'zoom-out', label: 'Zoom out' },
+  { value: 'pan-left', label: 'Pan left' },
+  { value: 'pan-right', label: 'Pan right' },
+  { value: 'none', label: 'Still' }
+];
+
+const FRAME_RATES = [24, 25, 30, 60];
+
+// Colors of alternating scenes on the timeline bar
+const BAR_COLORS = ['primary.main', 'secondary.main'];
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+/**
+ * Timeline editor and export for a story's slideshow video: per-scene
+ * duration, camera motion and audio, and the video settings
+ * (see SlideshowExportService)
+ */
+export const SlideshowTimelineDialog: React.FC<SlideshowTimelineDialogProps> = ({ open, onClose, bookId, storyId, onExported }) => {
+  const [book, setBook] = useState<Book | null>(null);
+  const [timings, setTimings] = useState<Record<string, SceneSlideshow | undefined>>({});
+  const [dirty, setDirty] = useState(false);
+  const [settings, setSettings] = useState<SlideshowSettings>(DEFAULT_SLIDESHOW_SETTINGS);
+  const [progress, setProgress] = useState<SlideshowExportProgress | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [exportIssues, setExportIssues] = useState<SlideshowIssue[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!open || !bookId || !storyId) return;
+    setExportIssues(null);
+    setError(null);
+    setDirty(false);
+    BookService.getBook(bookId).then(loaded => {
+      setBook(loaded);
+      const story = loaded?.stories.find(s => s.id === storyId);
+      setTimings(Object.fromEntries((story?.scenes ?? []).map(scene => [scene.id, scene.slideshow])));
+    }).catch(err => {
+      setError(err instanceof Error ? err.message : 'Failed to load the book');
+    });
+  }, [open, bookId, storyId]);
+
+  const story = book?.stories.find(s => s.id === storyId);
+  const timeline = useMemo(
+    () => (story ? SlideshowExportService.buildTimeline(story, settings, timings) : null),
+    [story, settings, timings]
+  );
+
+  if (!bookId || !storyId) {
+    return null;
+  }
+
+  const scope = { bookId, storyId };
+
+  const updateTiming = (sceneId: string, changes: Partial<SceneSlideshow>) => {
+    setTimings(previous => ({ ...previous, [sceneId]: { ...previous[sceneId], ...changes } }));
+    setDirty(true);
+  };
+
+  const updateSettings = (changes: Partial<SlideshowSettings>) => {
+    setSettings(previous => ({ ...previous, ...changes }));
+    setExportIssues(null);
+  };
+
+  const handleAudioFile = async (sceneId: string, file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      updateTiming(sceneId, { audio: await SceneAudioService.saveAudio(file) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add the audio file');
+    }
+  };
+
+  const handleSave = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await SlideshowExportService.saveSceneTimings(scope, timings);
+      setDirty(false);
+      onExported?.('Saved slideshow timing');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the timing');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = async (target: 'webm' | 'frames') => {
+    setBusy(true);
+    setError(null);
+    setExportIssues(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      // Exports read the saved story, so keep the edits
+      if (dirty) {
+        await SlideshowExportService.saveSceneTimings(scope, timings);
+        setDirty(false);
+      }
+      const options = { onProgress: setProgress, signal: controller.signal };
+      if (target === 'webm') {
+        const result = await SlideshowExportService.exportToWebm(scope, settings, options);
+        ExportDownloadService.downloadBlob(result.blob!, ExportDownloadService.generateFilename('webm', book?.title ?? 'Book', story?.title ?? 'Story'));
+        setExportIssues(result.issues);
+        onExported?.(`Exported ${formatTime(result.duration)} video`);
+      } else {
+        const result = await SlideshowExportService.exportFrames(scope, settings, FileSystemService.getBackend(), options);
+        setExportIssues(result.issues);
+        onExported?.(`Exported ${result.frameCount} frames to ${result.path}`);
+      }
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Failed to export the video');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      setBusy(false);
+    }
+  };
+
+  const resolution = SLIDESHOW_RESOLUTIONS.findIndex(r => r.width === settings.width && r.height === settings.height);
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Slideshow video{story ? ` of "${story.title}"` : ''}
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          Each scene's latest image is shown for its duration with a slow pan or zoom, fading into the next.
+          Leave a duration empty to use the length of the scene's audio, or {DEFAULT_SCENE_DURATION} seconds without
+          audio.
+        </Typography>
+
+        {timeline && timeline.duration > 0 && (
+          <Box display="flex" height={20} mb={2} borderRadius={1} overflow="hidden">
+            {timeline.entries.map((entry, index) => (
+              <Tooltip key={entry.sceneId} title={`${entry.title}: ${formatTime(entry.start)} – ${formatTime(entry.start + entry.duration)}`}>
+                <Box
+                  bgcolor={BAR_COLORS[index % BAR_COLORS.length]}
+                  sx={{ opacity: 0.8, borderRight: 1, borderColor: 'background.paper' }}
+                  width={`${(100 * (index < timeline.entries.length - 1 ? entry.duration - timeline.crossfade : entry.duration)) / timeline.duration}%`}
+                />
+              </Tooltip>
+            ))}
+          </Box>
+        )}
+
+        {story?.scenes.map((scene, index) => {
+          const timing = timings[scene.id];
+          const entry = timeline?.entries[index];
+          return (
+            <Box key={scene.id} display="flex" alignItems="center" gap={1} mb={1}>
+              <Typography variant="body2" color="text.secondary" width={56}>
+                {entry ? formatTime(entry.start) : ''}
+              </Typography>
+              <Typography variant="body2" flex={1} noWrap title={scene.title}>
+                {scene.title}
+              </Typography>
+              <TextField
+                size="small"
+                type="number"
+                label="Seconds"
+                placeholder={entry ? entry.duration.toFixed(1) : ''}
+                value={timing?.duration ?? ''}
+                onChange={(e) => updateTiming(scene.id, { duration: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                inputProps={{ min: 1, step: 0.5 }}
+                InputLabelProps={{ shrink: true }}
+                sx={{ width: 96 }}
+                disabled={busy}
+              />
+              <TextField
+                select
+                size="small"
+                label="Motion"
+                value={timing?.motion ?? 'auto'}
+                onChange={(e) => updateTiming(scene.id, { motion: e.target.value as KenBurnsMotion })}
+                sx={{ width: 120 }}
+                disabled={busy || !settings.kenBurns}
+              >
+                {MOTIONS.map(motion => <MenuItem key={motion.value} value={motion.value}>{motion.label}</MenuItem>)}
+              </TextField>
+              {timing?.audio ? (
+                <Box display="flex" alignItems="center" width={180}>
+                  <Typography variant="body2" noWrap flex={1} title={timing.audio.fileName}>
+                    {timing.audio.fileName} ({timing.audio.duration.toFixed(1)} s)
+                  </Typography>
+                  <Tooltip title="Remove audio">
+                    <IconButton size="small" onClick={() => updateTiming(scene.id, { audio: undefined })} disabled={busy}>
+                      <RemoveIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              ) : (
+                <Button size="small" component="label" startIcon={<AudioIcon />} sx={{ width: 180 }} disabled={busy}>
+                  Add audio
+                  <input
+                    type="file"
+                    hidden
+                    accept="audio/*"
+                    onChange={(e) => {
+                      handleAudioFile(scene.id, e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                </Button>
+              )}
+            </Box>
+          );
+        })}
+
+        <Divider sx={{ my: 2 }} />
+
+        <Box display="flex" gap={2} flexWrap="wrap" mb={1}>
+          <TextField
+            select
+            size="small"
+            label="Resolution"
+            value={resolution === -1 ? 0 : resolution}
+            onChange={(e) => {
+              const { width, height } = SLIDESHOW_RESOLUTIONS[Number(e.target.value)];
+              updateSettings({ width, height });
+            }}
+            sx={{ minWidth: 240 }}
+            disabled={busy}
+          >
+            {SLIDESHOW_RESOLUTIONS.map((r, index) => <MenuItem key={r.label} value={index}>{r.label}</MenuItem>)}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Frame rate"
+            value={settings.frameRate}
+            onChange={(e) => updateSettings({ frameRate: Number(e.target.value) })}
+            sx={{ width: 110 }}
+            disabled={busy}
+          >
+            {FRAME_RATES.map(rate => <MenuItem key={rate} value={rate}>{rate} fps</MenuItem>)}
+          </TextField>
+          <TextField
+            size="small"
+            type="number"
+            label="Crossfade (s)"
+            value={settings.crossfade}
+            onChange={(e) => updateSettings({ crossfade: Math.max(0, Number(e.target.value)) })}
+            inputProps={{ min: 0, step: 0.25 }}
+            sx={{ width: 120 }}
+            disabled={busy}
+          />
+        </Box>
+        <Box display="flex" flexWrap="wrap">
+          <FormControlLabel
+            label="Ken Burns pan and zoom"
+            control={<Checkbox size="small" checked={settings.kenBurns} onChange={(e) => updateSettings({ kenBurns: e.target.checked })} disabled={busy} />}
+          />
+          <FormControlLabel
+            label="Text panels as captions"
+            control={<Checkbox size="small" checked={settings.captions} onChange={(e) => updateSettings({ captions: e.target.checked })} disabled={busy} />}
+          />
+          <FormControlLabel
+            label="Scene audio"
+            control={<Checkbox size="small" checked={settings.audio} onChange={(e) => updateSettings({ audio: e.target.checked })} disabled={busy} />}
+          />
+        </Box>
+        {timeline && (
+          <Typography variant="body2" color="text.secondary">
+            Video length: {formatTime(timeline.duration)}
+          </Typography>
+        )}
+
+        {progress && (
+          <Box mt={2}>
+            <Box display="flex" alignItems="center" gap={2}>
+              <LinearProgress
+                variant="determinate"
+                value={progress.duration > 0 ? (100 * progress.time) / progress.duration : 0}
+                sx={{ flex: 1 }}
+              />
+              <Button size="small" onClick={() => abortRef.current?.abort()}>Cancel</Button>
+            </Box>
+            <Typography variant="body2" color="text.secondary" mt={1}>
+              {formatTime(progress.time)} of {formatTime(progress.duration)}. Video is recorded in real time; keep
+              this tab visible until it finishes.
+            </Typography>
+          </Box>
+        )}
+
+        {exportIssues && (
+          <>
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle2" gutterBottom>Export report</Typography>
+            {exportIssues.length === 0
+              ? <Alert severity="success">Every scene was exported.</Alert>
+              : exportIssues.map((issue, index) => (
+                <Alert key={index} severity={issue.severity} sx={{ mb: 1 }}>
+                  {issue.message}
+                </Alert>
+              ))}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={busy}>Close</Button>
+        <Button onClick={handleSave} disabled={busy || !dirty}>Save timing</Button>
+        {FileSystemService.isElectron() && (
+          <Button onClick={() => handleExport('frames')} disabled={busy || !story?.scenes.length}>
+            Export frames
+          </Button>
+        )}
+        <Button
+          variant="contained"
+          onClick={() => handleExport('webm')}
+          disabled={busy || !story?.scenes.length}
+          startIcon={busy ? <CircularProgress size={16} /> : undefined}
+        >
+          {busy ? 'Exporting...' : 'Export WebM'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
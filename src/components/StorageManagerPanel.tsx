@@ -0,0 +1,367 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Alert,
+  Checkbox,
+  CircularProgress,
+  FormControlLabel,
+  IconButton,
+  LinearProgress,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip
+} from '@mui/material';
+import {
+  PieChart as PieChartIcon,
+  Refresh as RefreshIcon,
+  Delete as DeleteIcon,
+  Undo as UndoIcon,
+  Star as StarIcon,
+  StarBorder as StarBorderIcon,
+  ExpandMore as ExpandMoreIcon,
+  ChevronRight as ChevronRightIcon
+} from '@mui/icons-material';
+import { ImageRetentionService } from '../services/ImageRetentionService';
+import { ImageMigrationService } from '../services/ImageMigrationService';
+import { BookHistoryService } from '../services/BookHistoryService';
+import { BookSnapshotService } from '../services/BookSnapshotService';
+import { SettingsService } from '../services/SettingsService';
+import type { CleanupCandidate, ImageRetentionPolicy, PendingImageDeletion, StorageAnalysis } from '../types/ImageRetention';
+
+const formatBytes = (bytes: number) => ImageMigrationService.formatBytes(bytes);
+
+const describeUsage = (candidate: CleanupCandidate): string => {
+  const usage = candidate.usage;
+  if (!usage) return 'Not used by any book';
+  const place = usage.kind === 'scene' ? `scene "${usage.sceneTitle}"` : `character ${usage.characterName}`;
+  return `${usage.bookTitle}${usage.storyTitle ? ` / ${usage.storyTitle}` : ''}, ${place}`;
+};
+
+/**
+ * Image disk usage per book and story, and cleanup of orphaned and
+ * superseded images under the retention policy (Operations panel section)
+ */
+export const StorageManagerPanel: React.FC = () => {
+  const [policy, setPolicy] = useState<ImageRetentionPolicy | null>(null);
+  const [quotaMB, setQuotaMB] = useState('');
+  const [analysis, setAnalysis] = useState<StorageAnalysis | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedBooks, setExpandedBooks] = useState<Set<string>>(new Set());
+  const [pending, setPending] = useState<PendingImageDeletion | null>(ImageRetentionService.getPendingDeletion());
+  const [now, setNow] = useState(Date.now());
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    SettingsService.getImageRetentionPolicy().then(setPolicy);
+    SettingsService.getImageStorageQuotaMB().then(quota => setQuotaMB(quota ? `${quota}` : ''));
+    return ImageRetentionService.subscribe(setPending);
+  }, []);
+
+  // Countdown for the undo window
+  useEffect(() => {
+    if (!pending) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [pending]);
+
+  const run = async (action: () => Promise<void>, activePolicy: ImageRetentionPolicy | null = policy) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      const result = await ImageRetentionService.analyze(activePolicy ?? undefined);
+      setAnalysis(result);
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Storage analysis failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePolicyChange = (changes: Partial<ImageRetentionPolicy>) => {
+    if (!policy) return;
+    const next = { ...policy, ...changes };
+    setPolicy(next);
+    run(() => SettingsService.setImageRetentionPolicy(next), next);
+  };
+
+  const handleQuotaSave = () => {
+    const value = Number(quotaMB);
+    run(() => SettingsService.setImageStorageQuotaMB(quotaMB.trim() && value > 0 ? value : undefined));
+  };
+
+  const handleToggleStar = (candidate: CleanupCandidate) => {
+    const usage = candidate.usage;
+    if (!usage) return;
+    run(async () => {
+      await ImageRetentionService.setStarred(usage, !usage.starred);
+    });
+  };
+
+  const candidates = analysis ? [...analysis.orphaned, ...analysis.superseded] : [];
+  const selectedCandidates = candidates.filter(candidate => selected.has(candidate.imageId));
+  const selectedBytes = selectedCandidates.reduce((sum, candidate) => sum + candidate.size, 0);
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete ${selectedCandidates.length} image(s) (${formatBytes(selectedBytes)})? You can undo this for a short while.`)) {
+      return;
+    }
+    run(async () => {
+      const deletion = await ImageRetentionService.deleteImages(selectedCandidates);
+      setMessage(null);
+      setPending(deletion);
+    });
+  };
+
+  const handleUndo = () => run(async () => {
+    const restored = await ImageRetentionService.undoDeletion();
+    setMessage(`Restored ${restored} image(s)`);
+  });
+
+  // Images that only undo history or snapshots use can't be freed until those go
+  const handleClearHistory = () => {
+    if (!window.confirm('Clear the undo history of every book? Earlier edits can no longer be undone.')) {
+      return;
+    }
+    run(async () => {
+      const dropped = await BookHistoryService.clearAll();
+      setMessage(`Cleared ${dropped} undo step(s)`);
+    });
+  };
+
+  const handleDeleteSnapshots = () => {
+    if (!window.confirm('Delete all book snapshots except the newest of each book? This cannot be undone.')) {
+      return;
+    }
+    run(async () => {
+      const deleted = await BookSnapshotService.pruneSnapshots(1);
+      setMessage(`Deleted ${deleted} snapshot(s)`);
+    });
+  };
+
+  const toggle = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    return next;
+  };
+
+  const toggleAll = (group: CleanupCandidate[]) => {
+    const allSelected = group.every(candidate => selected.has(candidate.imageId));
+    const next = new Set(selected);
+    group.forEach(candidate => (allSelected ? next.delete(candidate.imageId) : next.add(candidate.imageId)));
+    setSelected(next);
+  };
+
+  const quotaUsed = analysis?.quotaBytes ? analysis.totalBytes / analysis.quotaBytes : null;
+  const secondsLeft = pending ? Math.max(0, Math.ceil((pending.expiresAt.getTime() - now) / 1000)) : 0;
+
+  const renderCandidates = (title: string, group: CleanupCandidate[]) => (
+    <Box sx={{ mb: 2 }}>
+      <Typography variant="subtitle1" sx={{ display: 'flex', alignItems: 'center' }}>
+        <Checkbox
+          checked={group.length > 0 && group.every(candidate => selected.has(candidate.imageId))}
+          indeterminate={group.some(candidate => selected.has(candidate.imageId)) && !group.every(candidate => selected.has(candidate.imageId))}
+          disabled={group.length === 0}
+          onChange={() => toggleAll(group)}
+        />
+        {title} ({group.length}, {formatBytes(group.reduce((sum, candidate) => sum + candidate.size, 0))})
+      </Typography>
+      <Box sx={{ maxHeight: 240, overflow: 'auto', pl: 2 }}>
+        {group.map(candidate => (
+          <Box key={`${candidate.reason}:${candidate.imageId}`} sx={{ display: 'flex', alignItems: 'center' }}>
+            <Checkbox
+              size="small"
+              checked={selected.has(candidate.imageId)}
+              onChange={() => setSelected(toggle(selected, candidate.imageId))}
+            />
+            {candidate.usage && (
+              <Tooltip title="Star to keep">
+                <IconButton size="small" onClick={() => handleToggleStar(candidate)} disabled={busy}>
+                  {candidate.usage.starred ? <StarIcon fontSize="small" color="warning" /> : <StarBorderIcon fontSize="small" />}
+                </IconButton>
+              </Tooltip>
+            )}
+            <Typography variant="body2" sx={{ ml: 1 }}>
+              <code>{candidate.imageId}</code> ({formatBytes(candidate.size)}) - {describeUsage(candidate)}
+            </Typography>
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+
+  return (
+    <Paper elevation={2} sx={{ p: 3, mb: 3 }}>
+      <Typography variant="h5" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <PieChartIcon /> Storage Manager
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Shows how much disk each book and story uses for images, and which images can go: orphaned images
+        no book uses, and older scene images beyond the retention policy.
+      </Typography>
+
+      {policy && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+          <TextField
+            label="Keep newest per scene"
+            type="number"
+            size="small"
+            sx={{ width: 170 }}
+            value={policy.keepLastPerScene}
+            onChange={(e) => handlePolicyChange({ keepLastPerScene: Math.max(1, Number(e.target.value) || 1) })}
+            inputProps={{ min: 1 }}
+          />
+          <FormControlLabel
+            control={<Switch checked={policy.keepStarred} onChange={(e) => handlePolicyChange({ keepStarred: e.target.checked })} />}
+            label="Keep starred"
+          />
+          <FormControlLabel
+            control={<Switch checked={policy.keepExported} onChange={(e) => handlePolicyChange({ keepExported: e.target.checked })} />}
+            label="Keep images used in exports"
+          />
+          <FormControlLabel
+            control={<Switch checked={policy.includeCharacterGalleries} onChange={(e) => handlePolicyChange({ includeCharacterGalleries: e.target.checked })} />}
+            label="Include character galleries"
+          />
+          <TextField
+            label="Quota (MB)"
+            type="number"
+            size="small"
+            sx={{ width: 130 }}
+            value={quotaMB}
+            onChange={(e) => setQuotaMB(e.target.value)}
+            onBlur={handleQuotaSave}
+            placeholder="None"
+          />
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+        <Button variant="outlined" startIcon={busy ? <CircularProgress size={20} /> : <RefreshIcon />} onClick={() => run(async () => setMessage(null))} disabled={busy}>
+          Analyze Storage
+        </Button>
+        <Button variant="contained" color="error" startIcon={<DeleteIcon />} onClick={handleDelete} disabled={busy || selectedCandidates.length === 0}>
+          Delete Selected ({selectedCandidates.length})
+        </Button>
+      </Box>
+
+      {pending && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          action={
+            <Button color="inherit" size="small" startIcon={<UndoIcon />} onClick={handleUndo} disabled={busy}>
+              Undo ({secondsLeft}s)
+            </Button>
+          }
+        >
+          Deleted {pending.imageIds.length} image(s) ({formatBytes(pending.bytes)})
+          {pending.keptOnDisk > 0 && `; ${pending.keptOnDisk} stay on disk while snapshots or undo history use them`}
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {message && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+          {message}
+        </Alert>
+      )}
+
+      {analysis && (
+        <>
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="body2">
+              {analysis.totalImages} image(s), {formatBytes(analysis.totalBytes)}
+              {analysis.quotaBytes ? ` of ${formatBytes(analysis.quotaBytes)}` : ''}
+            </Typography>
+            {quotaUsed !== null && (
+              <LinearProgress
+                variant="determinate"
+                value={Math.min(100, quotaUsed * 100)}
+                color={quotaUsed > 1 ? 'error' : quotaUsed > 0.9 ? 'warning' : 'primary'}
+                sx={{ mt: 1, maxWidth: 480 }}
+              />
+            )}
+            {quotaUsed !== null && quotaUsed > 1 && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                Images use more than the storage quota. Delete orphaned or superseded images to free space.
+              </Alert>
+            )}
+          </Box>
+
+          <Table size="small" sx={{ mb: 2 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Book / Story</TableCell>
+                <TableCell align="right">Images</TableCell>
+                <TableCell align="right">Size</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {analysis.books.map(book => (
+                <React.Fragment key={book.bookId}>
+                  <TableRow hover onClick={() => setExpandedBooks(toggle(expandedBooks, book.bookId))} sx={{ cursor: 'pointer' }}>
+                    <TableCell sx={{ display: 'flex', alignItems: 'center' }}>
+                      {expandedBooks.has(book.bookId) ? <ExpandMoreIcon fontSize="small" /> : <ChevronRightIcon fontSize="small" />}
+                      {book.bookTitle}
+                    </TableCell>
+                    <TableCell align="right">{book.imageCount}</TableCell>
+                    <TableCell align="right">{formatBytes(book.bytes)}</TableCell>
+                  </TableRow>
+                  {expandedBooks.has(book.bookId) && book.stories.map(story => (
+                    <TableRow key={story.storyId}>
+                      <TableCell sx={{ pl: 6 }}>{story.storyTitle}</TableCell>
+                      <TableCell align="right">{story.imageCount}</TableCell>
+                      <TableCell align="right">{formatBytes(story.bytes)}</TableCell>
+                    </TableRow>
+                  ))}
+                </React.Fragment>
+              ))}
+            </TableBody>
+          </Table>
+
+          {(analysis.kept.starred > 0 || analysis.kept.exported > 0) && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Kept by policy: {analysis.kept.starred} starred, {analysis.kept.exported} used in exports
+            </Typography>
+          )}
+          {analysis.kept.restorable > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Typography variant="body2" color="text.secondary">
+                Kept for restores: {analysis.kept.restorable} image(s) only used by book snapshots or undo history
+              </Typography>
+              <Button size="small" onClick={handleClearHistory} disabled={busy}>
+                Clear Undo History
+              </Button>
+              <Button size="small" onClick={handleDeleteSnapshots} disabled={busy}>
+                Delete Older Snapshots
+              </Button>
+            </Box>
+          )}
+          {renderCandidates('Orphaned images', analysis.orphaned)}
+          {renderCandidates('Superseded images', analysis.superseded)}
+        </>
+      )}
+    </Paper>
+  );
+};
@@ -25,20 +25,30 @@ import {
   Upload as UploadIcon,
   AutoAwesome as GenerateAllIcon,
   Description as DocxIcon,
+  PictureAsPdf as PdfIcon,
+  MenuBook as EpubIcon,
+  Slideshow as PptxIcon,
+  Movie as VideoIcon,
   Settings as SettingsIcon,
   DeleteSweep as ClearImagesIcon,
   GridOn as LayoutIcon
 } from '@mui/icons-material';
 import { BookService } from '../services/BookService';
+import { BookSnapshotService } from '../services/BookSnapshotService';
 import { ImportStoryDialog } from './ImportStoryDialog';
 import { BatchImageGenerationDialog } from './BatchImageGenerationDialog';
 import { ImageStorageService } from '../services/ImageStorageService';
 import { DocxExportService } from '../services/DocxExportService';
+import { ExportDownloadService } from '../services/ExportDownloadService';
 import { StoryExportService } from '../services/StoryExportService';
 import type { Story, StoryData, SceneLayout } from '../types/Story';
 import { DEFAULT_DIAGRAM_STYLE, WHITEBOARD_DIAGRAM_STYLE } from '../types/Story';
 import type { DiagramStyle } from '../types/Story';
 import { SceneLayoutEditor } from './SceneLayoutEditor';
+import { PdfExportDialog } from './PdfExportDialog';
+import { EpubExportDialog } from './EpubExportDialog';
+import { PptxExportDialog } from './PptxExportDialog';
+import { SlideshowTimelineDialog } from './SlideshowTimelineDialog';
 
 interface StoriesPanelProps {
   selectedStory: Story | null;
@@ -79,6 +89,10 @@ export const StoriesPanel: React.FC<StoriesPanelProps> = ({
   const [storyLayoutEditorOpen, setStoryLayoutEditorOpen] = useState(false);
   const [editingStoryLayout, setEditingStoryLayout] = useState<Story | null>(null);
   const [activeBookAspectRatio, setActiveBookAspectRatio] = useState<string>('3:4');
+  const [pdfExport, setPdfExport] = useState<{ bookId: string; storyId: string } | null>(null);
+  const [epubExport, setEpubExport] = useState<{ bookId: string; storyId: string } | null>(null);
+  const [pptxExport, setPptxExport] = useState<{ bookId: string; storyId: string } | null>(null);
+  const [slideshowExport, setSlideshowExport] = useState<{ bookId: string; storyId: string } | null>(null);
 
   useEffect(() => {
     loadStories();
@@ -203,13 +217,17 @@ export const StoriesPanel: React.FC<StoriesPanelProps> = ({
   };
 
   const handleDeleteStory = async (storyId: string) => {
-    if (window.confirm('Are you sure you want to delete this story? This action cannot be undone.')) {
+    if (window.confirm('Are you sure you want to delete this story? It can be restored later from the book\'s snapshots.')) {
+      const activeBookId = await BookService.getActiveBookId();
       const activeBookData = await BookService.getActiveBookData();
-      if (!activeBookData) {
+      if (!activeBookId || !activeBookData) {
         showSnackbar('No active book selected', 'error');
         return;
       }
 
+      const deletedStory = activeBookData.stories.find(story => story.id === storyId);
+      await BookSnapshotService.createSnapshot(activeBookId, 'story-delete', `Before deleting "${deletedStory?.title ?? 'story'}"`);
+
       const updatedStories = activeBookData.stories.filter(story => story.id !== storyId);
       const updatedData = { ...activeBookData, stories: updatedStories };
       await BookService.saveActiveBookData(updatedData);
@@ -381,8 +399,8 @@ export const StoriesPanel: React.FC<StoriesPanelProps> = ({
       const bookTitle = activeBook?.title || 'Unknown Book';
       
       const blob = await DocxExportService.exportStoryToDocx(story, bookTitle);
-      const filename = `${story.title.replace(/[^a-z0-9]/gi, '_')}.docx`;
-      DocxExportService.downloadBlob(blob, filename);
+      const filename = `${ExportDownloadService.safeName(story.title)}.docx`;
+      ExportDownloadService.downloadBlob(blob, filename);
       
       showSnackbar(`Story "${story.title}" exported successfully!`, 'success');
     } catch (error) {
@@ -394,111 +412,35 @@ export const StoriesPanel: React.FC<StoriesPanelProps> = ({
     }
   };
 
-  const handleBatchGenerateScene = async (sceneId: string, modelName: string, promptStrategy?: 'auto' | 'legacy' | 'gemini') => {
-    if (!batchGenerationStory) return;
-    
-    const scene = batchGenerationStory.scenes.find(s => s.id === sceneId);
-    if (!scene) {
-      console.error(`❌ BATCH: Scene not found with ID: ${sceneId}`);
-      return;
+  const handleExportStoryPdf = async (story: Story, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const activeBookId = await BookService.getActiveBookId();
+    if (activeBookId) {
+      setPdfExport({ bookId: activeBookId, storyId: story.id });
     }
+  };
 
-    const sceneIndex = batchGenerationStory.scenes.findIndex(s => s.id === sceneId);
-    console.log(`\n📦 BATCH: Starting generation for scene #${sceneIndex + 1}/${batchGenerationStory.scenes.length}`);
-    console.log(`   Scene ID: ${sceneId}`);
-    console.log(`   Scene Title: "${scene.title}"`);
+  const handleExportStoryEpub = async (story: Story, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const activeBookId = await BookService.getActiveBookId();
+    if (activeBookId) {
+      setEpubExport({ bookId: activeBookId, storyId: story.id });
+    }
+  };
 
-    // Get book data
+  const handleExportStoryPptx = async (story: Story, e: React.MouseEvent) => {
+    e.stopPropagation();
     const activeBookId = await BookService.getActiveBookId();
-    const activeBook = activeBookId ? await BookService.getBook(activeBookId) : null;
-    
-    // Check if scene has custom layout - if so, calculate aspect ratio from canvas dimensions
-    let aspectRatio: string;
-    if (scene.layout) {
-      const canvasWidth = scene.layout.canvas.width;
-      const canvasHeight = scene.layout.canvas.height;
-      // Calculate GCD to get simplest ratio
-      const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
-      const divisor = gcd(canvasWidth, canvasHeight);
-      const ratioWidth = canvasWidth / divisor;
-      const ratioHeight = canvasHeight / divisor;
-      aspectRatio = `${ratioWidth}:${ratioHeight}`;
-      console.log(`   🎨 Using aspect ratio from layout canvas: ${canvasWidth}x${canvasHeight} = ${aspectRatio}`);
-    } else {
-      aspectRatio = activeBook?.aspectRatio || '3:4';
-      console.log(`   📐 Using book's default aspect ratio: ${aspectRatio}`);
+    if (activeBookId) {
+      setPptxExport({ bookId: activeBookId, storyId: story.id });
     }
-    
-    console.log(`   Book: ${activeBook?.title || 'N/A'}`);
-    console.log(`   Model: ${modelName}`);
-    console.log(`   Prompt Strategy: ${promptStrategy || 'auto'}`);
-    
-    // Use the UNIFIED service to generate complete image with all overlays
-    const { SceneImageGenerationService } = await import('../services/SceneImageGenerationService');
-    const finalImageUrl = await SceneImageGenerationService.generateCompleteSceneImage({
-      scene,
-      story: batchGenerationStory,
-      book: activeBook,
-      model: modelName,
-      aspectRatio,
-      promptStrategy, // Pass prompt strategy
-      applyOverlays: true // Apply text and diagram panels
-    });
-    
-    // Save to scene in local storage
-    const activeBookData = await BookService.getActiveBookData();
-    if (activeBookData) {
-      // Create image metadata (NO URL to avoid localStorage quota)
-      const imageId = crypto.randomUUID();
-      console.log(`   Generated Image ID: ${imageId}`);
-      
-      const newGeneratedImage = {
-        id: imageId,
-        // url is omitted - not stored in localStorage
-        modelName: modelName,
-        timestamp: new Date()
-      };
-      
-      // Store to filesystem
-      console.log(`   Storing image to filesystem...`);
-      await ImageStorageService.storeImage(
-        imageId,
-        sceneId,
-        finalImageUrl,
-        modelName
-      ).catch(error => {
-        console.error('❌ Failed to store image to filesystem during batch generation:', error);
-        throw error;
-      });
-      console.log(`   ✓ Image stored to filesystem`);
-      
-      const updatedStories = activeBookData.stories.map(s => {
-        if (s.id === batchGenerationStory.id) {
-          const updatedScenes = s.scenes.map(sc => {
-            if (sc.id === sceneId) {
-              const oldImageCount = sc.imageHistory?.length || 0;
-              const updatedScene = {
-                ...sc,
-                imageHistory: [...(sc.imageHistory || []), newGeneratedImage],
-                lastGeneratedImage: finalImageUrl, // Keep for backward compatibility
-                updatedAt: new Date()
-              };
-              console.log(`   Updated scene imageHistory: ${oldImageCount} → ${updatedScene.imageHistory.length} images`);
-              return updatedScene;
-            }
-            return sc;
-          });
-          return { ...s, scenes: updatedScenes, updatedAt: new Date() };
-        }
-        return s;
-      });
-      
-      const updatedData = { ...activeBookData, stories: updatedStories };
-      await BookService.saveActiveBookData(updatedData);
-      console.log(`✓ BATCH: Scene #${sceneIndex + 1} generation complete\n`);
-      
-      // Don't reload stories here - it causes re-render which can close the dialog
-      // The dialog will handle reloading when it closes
+  };
+
+  const handleExportStoryVideo = async (story: Story, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const activeBookId = await BookService.getActiveBookId();
+    if (activeBookId) {
+      setSlideshowExport({ bookId: activeBookId, storyId: story.id });
     }
   };
 
@@ -516,6 +458,9 @@ export const StoriesPanel: React.FC<StoriesPanelProps> = ({
           for (const image of scene.imageHistory) {
             try {
               await ImageStorageService.deleteImage(image.id, scene.id);
+              if (image.baseImageId) {
+                await ImageStorageService.deleteImage(image.baseImageId);
+              }
               deletedCount++;
             } catch (err) {
               console.error(`Failed to delete image ${image.id}:`, err);
@@ -706,6 +651,46 @@ export const StoriesPanel: React.FC<StoriesPanelProps> = ({
                         <DocxIcon />
                       </IconButton>
                     </Tooltip>
+                    <Tooltip title="Export story to print-ready PDF">
+                      <IconButton
+                        size="small"
+                        color="primary"
+                        onClick={(e) => handleExportStoryPdf(story, e)}
+                        disabled={stats.scenes === 0}
+                      >
+                        <PdfIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Export story to EPUB">
+                      <IconButton
+                        size="small"
+                        color="primary"
+                        onClick={(e) => handleExportStoryEpub(story, e)}
+                        disabled={stats.scenes === 0}
+                      >
+                        <EpubIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Export story to PowerPoint">
+                      <IconButton
+                        size="small"
+                        color="primary"
+                        onClick={(e) => handleExportStoryPptx(story, e)}
+                        disabled={stats.scenes === 0}
+                      >
+                        <PptxIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Export story as a slideshow video">
+                      <IconButton
+                        size="small"
+                        color="primary"
+                        onClick={(e) => handleExportStoryVideo(story, e)}
+                        disabled={stats.scenes === 0}
+                      >
+                        <VideoIcon />
+                      </IconButton>
+                    </Tooltip>
                     <Tooltip title="Configure diagram style (blackboard/whiteboard)">
                       <IconButton
                         size="small"
@@ -828,7 +813,6 @@ export const StoriesPanel: React.FC<StoriesPanelProps> = ({
           }}
           story={batchGenerationStory}
           activeBook={null}
-          onGenerate={handleBatchGenerateScene}
         />
       )}
 
@@ -1051,6 +1035,38 @@ export const StoriesPanel: React.FC<StoriesPanelProps> = ({
           onClearLayout={editingStoryLayout.layout ? handleClearStoryLayout : undefined}
         />
       )}
+
+      <PdfExportDialog
+        open={pdfExport !== null}
+        onClose={() => setPdfExport(null)}
+        bookId={pdfExport?.bookId ?? null}
+        storyId={pdfExport?.storyId}
+        onExported={(message) => showSnackbar(message, 'success')}
+      />
+
+      <EpubExportDialog
+        open={epubExport !== null}
+        onClose={() => setEpubExport(null)}
+        bookId={epubExport?.bookId ?? null}
+        storyId={epubExport?.storyId}
+        onExported={(message) => showSnackbar(message, 'success')}
+      />
+
+      <PptxExportDialog
+        open={pptxExport !== null}
+        onClose={() => setPptxExport(null)}
+        bookId={pptxExport?.bookId ?? null}
+        storyId={pptxExport?.storyId}
+        onExported={(message) => showSnackbar(message, 'success')}
+      />
+
+      <SlideshowTimelineDialog
+        open={slideshowExport !== null}
+        onClose={() => setSlideshowExport(null)}
+        bookId={slideshowExport?.bookId ?? null}
+        storyId={slideshowExport?.storyId ?? null}
+        onExported={(message) => showSnackbar(message, 'success')}
+      />
     </Box>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,255 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Tabs,
+  Tab,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Chip,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import type { Book } from '../models/Book';
+import type { UsageEntry, UsageGroupBy, UsageSummaryRow } from '../types/UsageLedger';
+import { BookService } from '../services/BookService';
+import { SettingsService } from '../services/SettingsService';
+import { UsageLedgerService } from '../services/UsageLedgerService';
+
+interface UsageReportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  activeBook: Book | null;
+}
+
+const UNASSIGNED = '__unassigned__';
+const RECENT_LIMIT = 100;
+
+const GROUPINGS: Array<{ groupBy: UsageGroupBy | 'recent'; label: string }> = [
+  { groupBy: 'story', label: 'By Story' },
+  { groupBy: 'month', label: 'By Month' },
+  { groupBy: 'model', label: 'By Model' },
+  { groupBy: 'recent', label: 'Recent Calls' }
+];
+
+/**
+ * Usage report for one book's ledger (or the unassigned ledger):
+ * totals, breakdowns by story/month/model and the most recent calls
+ */
+export const UsageReportDialog: React.FC<UsageReportDialogProps> = ({ open, onClose, activeBook }) => {
+  const [books, setBooks] = useState<Book[]>([]);
+  const [selectedBookId, setSelectedBookId] = useState<string>(UNASSIGNED);
+  const [entries, setEntries] = useState<UsageEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [tab, setTab] = useState(0);
+  const [budgetLabel, setBudgetLabel] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    BookService.getAllBooks().then(setBooks);
+    setSelectedBookId(activeBook?.id ?? UNASSIGNED);
+    SettingsService.getUsageBudget().then(budget => {
+      setBudgetLabel(budget
+        ? `${UsageLedgerService.formatCost(budget.limit)} ${budget.period === 'month' ? 'per month' : 'per book'} (${budget.action})`
+        : null);
+    });
+  }, [open, activeBook]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    setLoadError(null);
+    UsageLedgerService.getEntries(selectedBookId === UNASSIGNED ? undefined : selectedBookId)
+      .then(setEntries)
+      .catch(error => {
+        setEntries([]);
+        setLoadError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => setLoading(false));
+  }, [open, selectedBookId]);
+
+  const selectedBook = books.find(b => b.id === selectedBookId);
+  const totals = UsageLedgerService.summarize(entries)[0];
+  const grouping = GROUPINGS[tab].groupBy;
+
+  const getRowLabel = (row: UsageSummaryRow): string => {
+    switch (grouping) {
+      case 'story':
+        if (!row.key) return 'Book-level / other';
+        return selectedBook?.stories.find(s => s.id === row.key)?.title ?? 'Deleted story';
+      default:
+        return row.key;
+    }
+  };
+
+  const describeEntry = (entry: UsageEntry): string => {
+    if (entry.characterName) return `Character: ${entry.characterName}`;
+    if (entry.sceneId) {
+      const scene = selectedBook?.stories
+        .find(s => s.id === entry.storyId)
+        ?.scenes.find(s => s.id === entry.sceneId);
+      return `Scene: ${scene?.title ?? 'deleted'}`;
+    }
+    return entry.purpose ?? entry.kind;
+  };
+
+  const renderSummaryTable = (rows: UsageSummaryRow[]) => (
+    <TableContainer sx={{ maxHeight: 400 }}>
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            <TableCell>{GROUPINGS[tab].label.replace('By ', '')}</TableCell>
+            <TableCell align="right">Calls</TableCell>
+            <TableCell align="right">Failed</TableCell>
+            <TableCell align="right">Images</TableCell>
+            <TableCell align="right">Tokens</TableCell>
+            <TableCell align="right">Cost</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.key || 'none'}>
+              <TableCell>{getRowLabel(row)}</TableCell>
+              <TableCell align="right">{row.calls}</TableCell>
+              <TableCell align="right">{row.failures}</TableCell>
+              <TableCell align="right">{row.images}</TableCell>
+              <TableCell align="right">{row.tokens.toLocaleString()}</TableCell>
+              <TableCell align="right">{UsageLedgerService.formatCost(row.cost)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+
+  const renderRecentTable = () => (
+    <TableContainer sx={{ maxHeight: 400 }}>
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            <TableCell>When</TableCell>
+            <TableCell>For</TableCell>
+            <TableCell>Model</TableCell>
+            <TableCell>Result</TableCell>
+            <TableCell align="right">Cost</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {entries.slice(-RECENT_LIMIT).reverse().map(entry => (
+            <TableRow key={entry.id}>
+              <TableCell>{entry.timestamp.toLocaleString()}</TableCell>
+              <TableCell>{describeEntry(entry)}</TableCell>
+              <TableCell>{entry.model}</TableCell>
+              <TableCell>
+                <Chip
+                  label={entry.success ? 'ok' : 'failed'}
+                  size="small"
+                  color={entry.success ? 'success' : 'error'}
+                  title={entry.error}
+                />
+              </TableCell>
+              <TableCell align="right">
+                {UsageLedgerService.formatCost(entry.estimatedCost)}
+                {entry.costSource !== 'reported' && (
+                  <Typography component="span" variant="caption" color="text.secondary">
+                    {entry.costSource === 'estimated' ? ' est.' : ' ?'}
+                  </Typography>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Usage &amp; Costs</DialogTitle>
+
+      <DialogContent>
+        <FormControl fullWidth size="small" sx={{ mt: 1, mb: 2 }}>
+          <InputLabel>Ledger</InputLabel>
+          <Select
+            value={selectedBookId}
+            label="Ledger"
+            onChange={(e) => setSelectedBookId(e.target.value)}
+          >
+            {books.map(book => (
+              <MenuItem key={book.id} value={book.id}>
+                {book.title}
+              </MenuItem>
+            ))}
+            <MenuItem value={UNASSIGNED}>Unassigned (wizard, experiments)</MenuItem>
+          </Select>
+        </FormControl>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : loadError ? (
+          <Alert severity="error">{loadError}</Alert>
+        ) : entries.length === 0 ? (
+          <Alert severity="info">No generation calls have been recorded for this ledger yet.</Alert>
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', gap: 3, mb: 2 }}>
+              <Box>
+                <Typography variant="caption" color="text.secondary">Total cost</Typography>
+                <Typography variant="h6">{UsageLedgerService.formatCost(totals?.cost ?? 0)}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="caption" color="text.secondary">Calls</Typography>
+                <Typography variant="h6">{totals?.calls ?? 0}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="caption" color="text.secondary">Images</Typography>
+                <Typography variant="h6">{totals?.images ?? 0}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="caption" color="text.secondary">Failed</Typography>
+                <Typography variant="h6">{totals?.failures ?? 0}</Typography>
+              </Box>
+            </Box>
+
+            <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 1 }}>
+              {GROUPINGS.map(g => (
+                <Tab key={g.groupBy} label={g.label} />
+              ))}
+            </Tabs>
+
+            {grouping === 'recent'
+              ? renderRecentTable()
+              : renderSummaryTable(UsageLedgerService.summarize(entries, grouping))}
+          </>
+        )}
+
+        <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 2 }}>
+          Costs are reported by OpenRouter where available, otherwise estimated from model pricing.
+          {budgetLabel ? ` Budget: ${budgetLabel}.` : ' No budget cap is set (see Settings).'}
+        </Typography>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
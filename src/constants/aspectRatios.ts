@@ -1,9 +1,10 @@
 /**
  * Aspect ratio options for image generation
  * 
- * Different models support different aspect ratios:
- * - ChatGPT: 1:1, 16:9, 9:16
- * - Gemini: Many more ratios including portrait/landscape variations
+ * Different models support different aspect ratios; each model lists its own
+ * in its capabilities (ImageProviderRegistry.getCapabilities).
+ * This module has no imports, so providers can use these lists when they
+ * define their models.
  */
 
 export const ASPECT_RATIOS = [
@@ -21,13 +22,9 @@ export const ASPECT_RATIOS = [
   { value: '16:9', label: '16:9 (Wide Landscape)', category: 'Landscape' },
 ];
 
-// ChatGPT-specific limitations (only these 3)
-export const CHATGPT_ASPECT_RATIOS = [
-  '1:1',
-  '16:9',
-  '9:16'
-];
-
 // Gemini supports all ratios
 export const GEMINI_ASPECT_RATIOS = ASPECT_RATIOS.map(r => r.value);
 
+// ChatGPT-specific limitations (only these 3)
+export const CHATGPT_ASPECT_RATIOS = ['1:1', '16:9', '9:16'];
+
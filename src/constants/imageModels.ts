@@ -1,8 +1,12 @@
-export const IMAGE_MODELS = [
-  { value: 'google/gemini-2.5-flash-image', label: 'Google Gemini 2.5 Flash Image (Recommended - $0.03/K imgs)' },
-  { value: 'google/gemini-2.5-flash-image-preview', label: 'Google Gemini 2.5 Flash Image Preview ($0.03/K imgs)' },
-  { value: 'google/gemini-3-pro-image-preview', label: 'Google Gemini 3 Pro Image Preview (New)' },
-  { value: 'openai/gpt-5-image-mini', label: 'OpenAI GPT-5 Image Mini (Fast - $0.008/K imgs)' },
-  { value: 'openai/gpt-5-image', label: 'OpenAI GPT-5 Image (Premium)' },
-];
+import { ImageProviderRegistry } from '../services/ImageProviderRegistry';
 
+/**
+ * Image generation models from all registered providers.
+ * Providers and their models are defined in ImageProviderRegistry; read at
+ * call time, so providers registered after startup are included.
+ */
+export const getImageModels = (): { value: string; label: string }[] =>
+  ImageProviderRegistry.getAllModels().map(model => ({
+    value: model.value,
+    label: model.label
+  }));
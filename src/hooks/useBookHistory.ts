@@ -0,0 +1,121 @@
+/**
+ * useBookHistory Hook
+ *
+ * Subscribes a component to BookHistoryService for one book.
+ *
+ * Features:
+ * - Live undo/redo stacks for the history panel
+ * - undo/redo/moveTo actions that report the restored book
+ * - Optional Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) shortcuts. Shortcuts are left
+ *   to the browser while a text field has focus, so typing keeps its native undo.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Book } from '../models/Book';
+import type { BookHistoryState } from '../types/BookHistory';
+import { BookHistoryService } from '../services/BookHistoryService';
+
+export interface UseBookHistoryOptions {
+  /**
+   * Called after an undo/redo restored the book, so the caller can reload its state
+   */
+  onRestore?: (book: Book) => void;
+
+  /**
+   * Register global keyboard shortcuts (default: false)
+   */
+  enableShortcuts?: boolean;
+}
+
+export interface UseBookHistoryReturn extends BookHistoryState {
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  moveTo: (entryId: string) => Promise<void>;
+}
+
+const EMPTY_STATE: BookHistoryState = { bookId: '', undoStack: [], redoStack: [], canUndo: false, canRedo: false };
+
+/**
+ * True if the keyboard event targets an element with its own undo (inputs, editors)
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Custom hook for book-wide undo/redo
+ *
+ * @param bookId - Book whose history to track (null disables the hook)
+ * @param options - Restore callback and shortcut registration
+ * @returns History state and actions
+ */
+export function useBookHistory(bookId: string | null, options: UseBookHistoryOptions = {}): UseBookHistoryReturn {
+  const { onRestore, enableShortcuts = false } = options;
+  const [state, setState] = useState<BookHistoryState>(() =>
+    bookId ? BookHistoryService.getState(bookId) : EMPTY_STATE
+  );
+
+  // Latest callback without re-registering shortcuts on every render
+  const onRestoreRef = useRef(onRestore);
+  useEffect(() => {
+    onRestoreRef.current = onRestore;
+  });
+
+  useEffect(() => {
+    if (!bookId) {
+      setState(EMPTY_STATE);
+      return;
+    }
+
+    setState(BookHistoryService.getState(bookId));
+    return BookHistoryService.subscribe(changedBookId => {
+      if (changedBookId === bookId) {
+        setState(BookHistoryService.getState(bookId));
+      }
+    });
+  }, [bookId]);
+
+  const run = useCallback(async (action: (id: string) => Promise<Book | null>) => {
+    if (!bookId) return;
+    try {
+      const book = await action(bookId);
+      if (book) {
+        onRestoreRef.current?.(book);
+      }
+    } catch (error) {
+      console.error('Failed to restore book history:', error);
+    }
+  }, [bookId]);
+
+  const undo = useCallback(() => run(id => BookHistoryService.undo(id)), [run]);
+  const redo = useCallback(() => run(id => BookHistoryService.redo(id)), [run]);
+  const moveTo = useCallback(
+    (entryId: string) => run(id => BookHistoryService.moveTo(id, entryId)),
+    [run]
+  );
+
+  useEffect(() => {
+    if (!enableShortcuts || !bookId) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enableShortcuts, bookId, undo, redo]);
+
+  return { ...state, undo, redo, moveTo };
+}
@@ -0,0 +1,141 @@
+/**
+ * useExternalChanges Hook
+ *
+ * Runs ExternalChangeService while the component is mounted and exposes its
+ * conflicts and latest change.
+ *
+ * Features:
+ * - Starts watching/polling book files on mount, stops on unmount
+ * - Checks again whenever the window regains focus (edits made in another
+ *   program show up without waiting for the next poll)
+ * - Live list of conflicts and the most recent reload, for a dialog and a
+ *   notification
+ * - Merges waiting for their conflicts to be resolved (merging a conflict in
+ *   the app, or conflicts left by the git merge driver)
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type {
+  ExternalBookChange,
+  ExternalChangeConflict,
+  ExternalConflictResolution
+} from '../types/ExternalChange';
+import type { MergeResolutions, PendingBookMerge } from '../types/BookMerge';
+import { ExternalChangeService } from '../services/ExternalChangeService';
+
+export interface UseExternalChangesOptions {
+  /**
+   * Called after a book was reloaded, added or removed, so the caller can reload its state
+   */
+  onBooksChanged?: (change: ExternalBookChange) => void;
+}
+
+export interface UseExternalChangesReturn {
+  conflicts: ExternalChangeConflict[];
+
+  /** Most recent change, until dismissed */
+  lastChange: ExternalBookChange | null;
+  dismissLastChange: () => void;
+  resolveConflict: (bookId: string, resolution: ExternalConflictResolution) => Promise<void>;
+
+  pendingMerges: PendingBookMerge[];
+  mergeConflict: (bookId: string) => Promise<void>;
+  completeMerge: (bookId: string, resolutions: MergeResolutions) => Promise<void>;
+  discardMerge: (bookId: string) => void;
+}
+
+/**
+ * Custom hook for live reload of books edited outside the app
+ *
+ * @param options - Callback for reloaded books
+ * @returns Conflicts, latest change and the resolve action
+ */
+export function useExternalChanges(options: UseExternalChangesOptions = {}): UseExternalChangesReturn {
+  const [conflicts, setConflicts] = useState<ExternalChangeConflict[]>(() => ExternalChangeService.getConflicts());
+  const [lastChange, setLastChange] = useState<ExternalBookChange | null>(null);
+  const [pendingMerges, setPendingMerges] = useState<PendingBookMerge[]>(() => ExternalChangeService.getPendingMerges());
+
+  // Latest callback without restarting the service on every render
+  const onBooksChangedRef = useRef(options.onBooksChanged);
+  useEffect(() => {
+    onBooksChangedRef.current = options.onBooksChanged;
+  });
+
+  useEffect(() => {
+    const unsubscribe = ExternalChangeService.subscribe(change => {
+      setConflicts(ExternalChangeService.getConflicts());
+      setPendingMerges(ExternalChangeService.getPendingMerges());
+      setLastChange(change);
+      if (change.kind !== 'conflict') {
+        onBooksChangedRef.current?.(change);
+      }
+    });
+
+    ExternalChangeService.start().then(() => {
+      // Git merges found while loading aren't announced as changes
+      setPendingMerges(ExternalChangeService.getPendingMerges());
+    }).catch(error => {
+      console.error('Failed to start watching book files:', error);
+    });
+
+    const handleFocus = () => {
+      ExternalChangeService.checkForChanges().catch(error => {
+        console.error('External change check failed:', error);
+      });
+    };
+    window.addEventListener('focus', handleFocus);
+
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      unsubscribe();
+      ExternalChangeService.stop();
+    };
+  }, []);
+
+  const dismissLastChange = useCallback(() => setLastChange(null), []);
+
+  const resolveConflict = useCallback(async (bookId: string, resolution: ExternalConflictResolution) => {
+    try {
+      await ExternalChangeService.resolveConflict(bookId, resolution);
+    } finally {
+      setConflicts(ExternalChangeService.getConflicts());
+    }
+  }, []);
+
+  const refreshMerges = useCallback(() => {
+    setConflicts(ExternalChangeService.getConflicts());
+    setPendingMerges(ExternalChangeService.getPendingMerges());
+  }, []);
+
+  const mergeConflict = useCallback(async (bookId: string) => {
+    try {
+      await ExternalChangeService.mergeConflict(bookId);
+    } finally {
+      refreshMerges();
+    }
+  }, [refreshMerges]);
+
+  const completeMerge = useCallback(async (bookId: string, resolutions: MergeResolutions) => {
+    try {
+      await ExternalChangeService.completeMerge(bookId, resolutions);
+    } finally {
+      refreshMerges();
+    }
+  }, [refreshMerges]);
+
+  const discardMerge = useCallback((bookId: string) => {
+    ExternalChangeService.discardMerge(bookId);
+    refreshMerges();
+  }, [refreshMerges]);
+
+  return {
+    conflicts,
+    lastChange,
+    dismissLastChange,
+    resolveConflict,
+    pendingMerges,
+    mergeConflict,
+    completeMerge,
+    discardMerge
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * useGenerationQueue Hook
+ *
+ * Subscribes a component to GenerationQueueService state.
+ *
+ * Features:
+ * - Live job list, paused flag and concurrency
+ * - Derived counts for badges and progress bars
+ * - Optional filter (e.g., only jobs for one story)
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import type { GenerationJob, GenerationQueueState } from '../types/GenerationQueue';
+import { GenerationQueueService } from '../services/GenerationQueueService';
+
+export interface UseGenerationQueueReturn extends GenerationQueueState {
+  activeCount: number; // pending + running
+  completedCount: number;
+  failedCount: number;
+}
+
+/**
+ * Custom hook for observing the generation queue
+ *
+ * @param filter - Optional predicate to restrict which jobs are returned
+ * @returns Queue state and derived counts
+ */
+export function useGenerationQueue(filter?: (job: GenerationJob) => boolean): UseGenerationQueueReturn {
+  const [state, setState] = useState<GenerationQueueState>(() => GenerationQueueService.getState());
+
+  useEffect(() => {
+    return GenerationQueueService.subscribe(setState);
+  }, []);
+
+  return useMemo(() => {
+    const jobs = filter ? state.jobs.filter(filter) : state.jobs;
+    return {
+      ...state,
+      jobs,
+      activeCount: jobs.filter(j => j.status === 'pending' || j.status === 'running').length,
+      completedCount: jobs.filter(j => j.status === 'completed').length,
+      failedCount: jobs.filter(j => j.status === 'failed').length
+    };
+  }, [state, filter]);
+}
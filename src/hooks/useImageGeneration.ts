@@ -20,6 +20,7 @@ import { SceneImageGenerationService } from '../services/SceneImageGenerationSer
 import { ImageStorageService } from '../services/ImageStorageService';
 import { BookService } from '../services/BookService';
 import { DEFAULT_PANEL_CONFIG } from '../types/Book';
+import type { PromptStrategyOption } from '../types/PromptTemplate';
 
 export interface UseImageGenerationReturn {
   // State
@@ -28,12 +29,12 @@ export interface UseImageGenerationReturn {
   previewData: PreviewData | null;
   
   // Actions
-  startGeneration: (modelId: string, promptStrategy?: 'auto' | 'legacy' | 'gemini') => Promise<void>;
+  startGeneration: (modelId: string, promptStrategy?: PromptStrategyOption) => Promise<void>;
   cancelGeneration: () => void;
   clearError: () => void;
   
   // Preview
-  buildPreview: (modelId: string, promptStrategy?: 'auto' | 'legacy' | 'gemini') => Promise<PreviewData>;
+  buildPreview: (modelId: string, promptStrategy?: PromptStrategyOption) => Promise<PreviewData>;
 }
 
 /**
@@ -60,7 +61,7 @@ export function useImageGeneration(
    */
   const buildPreview = useCallback(async (
     modelId: string,
-    promptStrategy?: 'auto' | 'legacy' | 'gemini'
+    promptStrategy?: PromptStrategyOption
   ): Promise<PreviewData> => {
     const activeBookId = await BookService.getActiveBookId();
     const activeBook = activeBookId ? await BookService.getBook(activeBookId) : null;
@@ -169,7 +170,7 @@ export function useImageGeneration(
    */
   const startGeneration = useCallback(async (
     modelId: string,
-    promptStrategy?: 'auto' | 'legacy' | 'gemini'
+    promptStrategy?: PromptStrategyOption
   ) => {
     setIsGenerating(true);
     setGenerationError(null);
@@ -197,7 +198,7 @@ export function useImageGeneration(
       }
       
       // Generate the complete scene image
-      const finalImageUrl = await SceneImageGenerationService.generateCompleteSceneImage({
+      const { imageUrl: finalImageUrl, provenance, baseImageUrl } = await SceneImageGenerationService.generateCompleteSceneImageWithProvenance({
         scene: scene,
         story: story,
         book: activeBook,
@@ -212,10 +213,13 @@ export function useImageGeneration(
         if (activeBookData) {
           // Create new GeneratedImage entry with the model that was used
           const imageId = crypto.randomUUID();
+          const baseImageId = baseImageUrl ? crypto.randomUUID() : undefined;
           const newGeneratedImage = {
             id: imageId,
             modelName: modelId,
-            timestamp: new Date()
+            timestamp: new Date(),
+            provenance,
+            baseImageId
           };
           
           // Store image to filesystem for persistence
@@ -225,6 +229,11 @@ export function useImageGeneration(
             finalImageUrl,
             modelId
           );
+
+          // Keep the image without overlays as the "More like this" source
+          if (baseImageId && baseImageUrl) {
+            await ImageStorageService.storeImage(baseImageId, scene.id, baseImageUrl, modelId);
+          }
           
           // Load the image back from filesystem to ensure we're displaying the persisted version
           const persistedImageUrl = await ImageStorageService.getImage(imageId);
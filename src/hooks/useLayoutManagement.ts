@@ -7,7 +7,7 @@ import { LayoutResolver } from '../services/LayoutResolver';
  * Layout source information
  */
 export interface LayoutSourceInfo {
-  source: 'scene' | 'story' | 'book' | 'default';
+  source: 'scene' | 'chapter' | 'story' | 'book' | 'default';
   description: string;
   resolvedLayout: SceneLayout | undefined;
   inheritedLayout: SceneLayout | undefined;
@@ -84,8 +84,12 @@ export function useLayoutManagement(
     let inheritedLayoutSource: string | undefined;
 
     if (source === 'scene') {
-      // Scene has its own layout, so inherited would be story or book
-      if (story.layout) {
+      // Scene has its own layout, so inherited would be chapter, story or book
+      const chapter = LayoutResolver.getChapter(currentScene, story);
+      if (chapter?.layout) {
+        inheritedLayout = chapter.layout;
+        inheritedLayoutSource = 'Chapter';
+      } else if (story.layout) {
         inheritedLayout = story.layout;
         inheritedLayoutSource = 'Story';
       } else if (activeBook.defaultLayout) {
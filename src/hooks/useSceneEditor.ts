@@ -9,6 +9,7 @@ export interface UseSceneEditorReturn {
   textPanelContent: string;
   selectedCharacters: string[];
   selectedElements: string[];
+  sceneAvoid: string[];
   
   // Handlers
   handleTitleChange: (title: string) => void;
@@ -16,6 +17,7 @@ export interface UseSceneEditorReturn {
   handleTextPanelChange: (content: string) => void;
   handleCharacterSelectionChange: (characters: string[]) => void;
   handleElementSelectionChange: (elements: string[]) => void;
+  handleAvoidChange: (avoid: string[] | undefined) => void;
   handleInsertMacro: (macro: string, cursorPosition: number) => string;
   
   // Save operation
@@ -46,6 +48,7 @@ export function useSceneEditor(
   const [selectedElements, setSelectedElements] = useState<string[]>(
     scene?.elements || scene?.elementIds || []
   );
+  const [sceneAvoid, setSceneAvoid] = useState<string[]>(scene?.avoid || []);
   const [isSaving, setIsSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
 
@@ -57,12 +60,14 @@ export function useSceneEditor(
       setTextPanelContent(scene.textPanel || '');
       setSelectedCharacters(scene.characters || scene.characterIds || []);
       setSelectedElements(scene.elements || scene.elementIds || []);
+      setSceneAvoid(scene.avoid || []);
     } else {
       setSceneTitle('');
       setSceneDescription('');
       setTextPanelContent('');
       setSelectedCharacters([]);
       setSelectedElements([]);
+      setSceneAvoid([]);
     }
   }, [scene]);
 
@@ -249,6 +254,40 @@ export function useSceneEditor(
     }
   }, [story, scene, onSceneUpdate]);
 
+  /**
+   * Handle scene avoid-list change
+   */
+  const handleAvoidChange = useCallback(async (avoid: string[] | undefined) => {
+    setSceneAvoid(avoid || []);
+    
+    if (story && scene) {
+      try {
+        const activeBookData = await BookService.getActiveBookData();
+        if (!activeBookData) return;
+        
+        const updatedStories = activeBookData.stories.map(s => {
+          if (s.id === story.id) {
+            const updatedScenes = s.scenes.map(sc => {
+              if (sc.id === scene.id) {
+                return { ...sc, avoid, updatedAt: new Date() };
+              }
+              return sc;
+            });
+            return { ...s, scenes: updatedScenes, updatedAt: new Date() };
+          }
+          return s;
+        });
+        
+        const updatedData = { ...activeBookData, stories: updatedStories };
+        await BookService.saveActiveBookData(updatedData);
+        onSceneUpdate();
+      } catch (error) {
+        console.error('Failed to save avoid-list:', error);
+        setSaveError(error instanceof Error ? error.message : 'Failed to save avoid-list');
+      }
+    }
+  }, [story, scene, onSceneUpdate]);
+
   /**
    * Insert a macro into the text panel at the specified cursor position
    * Returns the new text content with the macro inserted
@@ -351,11 +390,13 @@ export function useSceneEditor(
     textPanelContent,
     selectedCharacters,
     selectedElements,
+    sceneAvoid,
     handleTitleChange,
     handleDescriptionChange,
     handleTextPanelChange,
     handleCharacterSelectionChange,
     handleElementSelectionChange,
+    handleAvoidChange,
     handleInsertMacro,
     saveScene,
     isSaving,
@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import type { BookStyle } from '../types/BookStyle';
 import { DEFAULT_BOOK_STYLE } from '../types/BookStyle';
+import type { PromptTemplates } from '../types/PromptTemplate';
 import { Story, type Character } from './Story';
 
 /**
@@ -22,6 +23,7 @@ export interface BookExchangeFormat {
     backgroundSetup?: string;
     aspectRatio?: string;
     style: BookStyle;
+    promptTemplates?: PromptTemplates;
     characters?: Character[]; // Book-level characters
   };
   stories: any[]; // StoryExchangeFormat - avoid circular dependency
@@ -39,6 +41,7 @@ export class Book {
   aspectRatio?: string;
   style: BookStyle;
   defaultLayout?: any; // SceneLayout - Default layout for all scenes in this book (using any to avoid circular dependency)
+  promptTemplates?: PromptTemplates; // Custom prompt templates for the 'template' prompt strategy
   characters: Character[]; // Book-level characters shared across all stories
   stories: Story[];
   createdAt: Date;
@@ -52,6 +55,7 @@ export class Book {
     this.aspectRatio = data.aspectRatio || '9:16';
     this.style = data.style || { ...DEFAULT_BOOK_STYLE };
     this.defaultLayout = data.defaultLayout; // NEW: Book-level default layout
+    this.promptTemplates = data.promptTemplates;
     this.characters = data.characters || []; // Book-level characters
     this.stories = data.stories || [];
     this.createdAt = data.createdAt || new Date();
@@ -192,6 +196,7 @@ export class Book {
         backgroundSetup: this.backgroundSetup,
         aspectRatio: this.aspectRatio,
         style: this.style,
+        promptTemplates: this.promptTemplates,
         characters: this.characters || [] // Include book-level characters
       },
       stories: this.stories.map(story => story.toExportJSON())
@@ -210,6 +215,7 @@ export class Book {
       aspectRatio: this.aspectRatio,
       style: this.style,
       defaultLayout: this.defaultLayout, // NEW: Include book-level default layout
+      promptTemplates: this.promptTemplates,
       characters: this.characters || [],
       stories: this.stories,
       createdAt: this.createdAt,
@@ -230,6 +236,7 @@ export class Book {
       backgroundSetup: data.book.backgroundSetup,
       aspectRatio: data.book.aspectRatio,
       style: data.book.style,
+      promptTemplates: data.book.promptTemplates,
       characters: data.book.characters || [] // Book-level characters
     });
 
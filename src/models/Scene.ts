@@ -2,6 +2,8 @@ import { v4 as uuidv4 } from 'uuid';
 import type { Story } from './Story';
 import type { ValidationResult } from './Book';
 import type { DiagramPanel } from '../types/Story';
+import type { ImageProvenance } from '../types/ImageProvenance';
+import type { SceneSlideshow } from '../types/Slideshow';
 
 /**
  * Generated image metadata (URL stored in IndexedDB)
@@ -11,6 +13,9 @@ export interface GeneratedImage {
   modelName: string;
   timestamp: Date;
   promptHash?: string;
+  provenance?: ImageProvenance;
+  starred?: boolean; // Kept by image cleanup (ImageRetentionPolicy.keepStarred)
+  baseImageId?: string; // Same image before text/diagram overlays - the "More like this" source
 }
 
 /**
@@ -50,9 +55,11 @@ export interface SceneExchangeFormat {
   textPanel?: string;
   diagramPanel?: DiagramPanel; // Optional diagram to overlay on image
   layout?: SceneLayout; // Optional custom layout configuration
+  avoid?: string[]; // Scene avoid-list (negative prompt terms)
   characters: string[];  // Character names (not IDs)
   elements: string[];    // Element names (not IDs)
   imageHistory?: GeneratedImage[]; // Generated images for this scene
+  chapter?: string; // Title of the story chapter the scene belongs to (set by Story.toExportJSON)
 }
 
 /**
@@ -64,9 +71,12 @@ export class Scene {
   id: string;
   title: string;
   description: string;
+  chapterId?: string;    // Chapter within the story (see Story.chapters)
   textPanel?: string;
   diagramPanel?: DiagramPanel;
   layout?: SceneLayout;
+  avoid?: string[];      // Added to the story and book avoid-lists
+  slideshow?: SceneSlideshow; // Duration, camera motion and audio in slideshow videos
   characters: string[];  // Character names
   elements: string[];    // Element names
   imageHistory?: GeneratedImage[];
@@ -77,9 +87,12 @@ export class Scene {
     this.id = data.id || uuidv4();
     this.title = data.title;
     this.description = data.description;
+    this.chapterId = data.chapterId;
     this.textPanel = data.textPanel;
     this.diagramPanel = data.diagramPanel;
     this.layout = data.layout;
+    this.avoid = data.avoid;
+    this.slideshow = data.slideshow;
     this.characters = data.characters || [];
     this.elements = data.elements || [];
     this.imageHistory = data.imageHistory || [];
@@ -199,6 +212,15 @@ export class Scene {
     return this.imageHistory[this.imageHistory.length - 1];
   }
 
+  /**
+   * Text panel with macros filled in, as shown on the image; undefined
+   * when the scene has no text panel
+   */
+  getPanelText(): string | undefined {
+    const text = this.textPanel?.replace(/\{SceneDescription\}/g, this.description).trim();
+    return text || undefined;
+  }
+
   /**
    * Delete an image from history by ID
    */
@@ -232,6 +254,7 @@ export class Scene {
       textPanel: this.textPanel,
       diagramPanel: this.diagramPanel,
       layout: this.layout,
+      avoid: this.avoid ? [...this.avoid] : undefined,
       characters: [...this.characters],
       elements: [...this.elements],
       imageHistory: this.imageHistory ? [...this.imageHistory] : []
@@ -246,9 +269,12 @@ export class Scene {
       id: this.id,
       title: this.title,
       description: this.description,
+      chapterId: this.chapterId,
       textPanel: this.textPanel,
       diagramPanel: this.diagramPanel,
       layout: this.layout,
+      avoid: this.avoid,
+      slideshow: this.slideshow,
       characters: this.characters,
       elements: this.elements,
       imageHistory: this.imageHistory,
@@ -267,6 +293,7 @@ export class Scene {
       textPanel: data.textPanel,
       diagramPanel: data.diagramPanel,
       layout: data.layout,
+      avoid: data.avoid,
       characters: data.characters || [],
       elements: data.elements || [],
       imageHistory: data.imageHistory || []
@@ -1,7 +1,8 @@
 import { v4 as uuidv4 } from 'uuid';
 import { Scene } from './Scene';
 import type { ValidationResult } from './Book';
-import type { DiagramStyle } from '../types/Story';
+import type { Chapter, DiagramStyle, SceneLayout, SceneSection } from '../types/Story';
+import type { ImageProvenance } from '../types/ImageProvenance';
 
 /**
  * Character image metadata
@@ -15,6 +16,8 @@ export interface CharacterImage {
   timestamp: Date; // When the image was generated
   width?: number; // Image width
   height?: number; // Image height
+  provenance?: ImageProvenance; // Strategy, aspect ratio, reference images, style snapshot
+  starred?: boolean; // Kept by image cleanup (ImageRetentionPolicy.keepStarred)
 }
 
 /**
@@ -38,6 +41,15 @@ export interface StoryElement {
   category?: string;
 }
 
+/**
+ * Chapter in the story export format; scenes refer to it by title
+ */
+export interface ChapterExchangeFormat {
+  title: string;
+  description?: string;
+  layout?: SceneLayout;
+}
+
 /**
  * Story export format (for JSON import/export)
  */
@@ -47,7 +59,9 @@ export interface StoryExchangeFormat {
     backgroundSetup: string;
     description?: string;
     diagramStyle?: DiagramStyle;
+    avoid?: string[];
   };
+  chapters?: ChapterExchangeFormat[];
   characters: Character[];
   elements: StoryElement[];
   scenes: any[]; // SceneExchangeFormat - avoid circular dependency
@@ -65,9 +79,11 @@ export class Story {
   backgroundSetup: string;
   diagramStyle?: DiagramStyle;
   layout?: SceneLayout; // NEW: Story-level default layout for all scenes
+  avoid?: string[]; // Story avoid-list, added to the book's (see AvoidListResolver)
+  chapters: Chapter[]; // Optional grouping of scenes, in order (see getSceneSections)
   characters: Character[];
   elements: StoryElement[];
-  scenes: Scene[];
+  scenes: Scene[]; // Reading order: scenes outside any chapter, then each chapter's scenes
   createdAt: Date;
   updatedAt: Date;
 
@@ -78,6 +94,8 @@ export class Story {
     this.backgroundSetup = data.backgroundSetup;
     this.diagramStyle = data.diagramStyle;
     this.layout = data.layout; // NEW: Story-level layout
+    this.avoid = data.avoid;
+    this.chapters = data.chapters || [];
     this.characters = data.characters || [];
     this.elements = data.elements || [];
     this.scenes = data.scenes || [];
@@ -272,13 +290,43 @@ export class Story {
   }
 
   /**
-   * Add a scene to the story
+   * Add a scene to the story, at the end of its chapter if it has one
    */
   addScene(scene: Scene): void {
     this.scenes.push(scene);
+    this.normalizeSceneOrder();
     this.touch();
   }
 
+  /**
+   * Insert a scene into a chapter (null: outside any chapter)
+   *
+   * @param index Position among the chapter's scenes; defaults to the end
+   */
+  insertScene(scene: Scene, chapterId: string | null, index?: number): void {
+    scene.chapterId = this.resolveChapterId(chapterId);
+    const sections = this.getSceneSections();
+    const section = sections.find(s => (s.chapter?.id ?? null) === (scene.chapterId ?? null))!;
+    section.scenes.splice(index ?? section.scenes.length, 0, scene);
+    this.scenes = sections.flatMap(s => s.scenes);
+    this.touch();
+  }
+
+  /**
+   * Move a scene to another position, optionally into another chapter
+   *
+   * @param index Position among the target chapter's scenes, after removing the scene
+   * @param chapterId Target chapter, null for no chapter; defaults to the scene's own
+   */
+  moveScene(sceneId: string, index: number, chapterId?: string | null): void {
+    const scene = this.scenes.find(s => s.id === sceneId);
+    if (!scene) {
+      throw new Error(`Scene "${sceneId}" not found`);
+    }
+    this.scenes = this.scenes.filter(s => s !== scene);
+    this.insertScene(scene, chapterId === undefined ? scene.chapterId ?? null : chapterId, index);
+  }
+
   /**
    * Delete a scene by ID
    */
@@ -292,6 +340,117 @@ export class Story {
     return deleted;
   }
 
+  // ========================================
+  // Chapters
+  // ========================================
+
+  findChapter(chapterId: string): Chapter | undefined {
+    return this.chapters.find(c => c.id === chapterId);
+  }
+
+  /**
+   * Add a chapter after the existing ones
+   */
+  addChapter(title: string, details: Omit<Chapter, 'id' | 'title'> = {}): Chapter {
+    const chapter: Chapter = { id: uuidv4(), title, ...details };
+    this.chapters.push(chapter);
+    this.touch();
+    return chapter;
+  }
+
+  /**
+   * Change a chapter's title, description or layout
+   */
+  updateChapter(chapterId: string, updates: Partial<Omit<Chapter, 'id'>>): void {
+    const chapter = this.findChapter(chapterId);
+    if (!chapter) {
+      throw new Error(`Chapter "${chapterId}" not found`);
+    }
+    Object.assign(chapter, updates);
+    this.touch();
+  }
+
+  /**
+   * Move a chapter, with its scenes, to another position
+   */
+  moveChapter(chapterId: string, index: number): void {
+    const chapter = this.findChapter(chapterId);
+    if (!chapter) {
+      throw new Error(`Chapter "${chapterId}" not found`);
+    }
+    this.chapters = this.chapters.filter(c => c !== chapter);
+    this.chapters.splice(index, 0, chapter);
+    this.normalizeSceneOrder();
+    this.touch();
+  }
+
+  /**
+   * Delete a chapter. Its scenes join the previous chapter (or no chapter,
+   * for the first one), so the reading order doesn't change.
+   */
+  deleteChapter(chapterId: string): boolean {
+    const index = this.chapters.findIndex(c => c.id === chapterId);
+    if (index === -1) {
+      return false;
+    }
+    const previous = this.chapters[index - 1];
+    this.chapters.splice(index, 1);
+    this.scenes.forEach(scene => {
+      if (scene.chapterId === chapterId) {
+        scene.chapterId = previous?.id;
+      }
+    });
+    this.normalizeSceneOrder();
+    this.touch();
+    return true;
+  }
+
+  /**
+   * Scenes grouped by chapter, in reading order. The first section holds the
+   * scenes outside any chapter (possibly none).
+   */
+  getSceneSections(): SceneSection<Scene>[] {
+    return Story.groupScenes(this.chapters, this.scenes);
+  }
+
+  /**
+   * Group scenes by chapter, keeping their order within each chapter.
+   * Scenes of unknown chapters count as outside any chapter.
+   */
+  static groupScenes<T extends { chapterId?: string }>(chapters: Chapter[] | undefined, scenes: T[]): SceneSection<T>[] {
+    const sections: SceneSection<T>[] = [
+      { chapter: null, scenes: [] },
+      ...(chapters || []).map(chapter => ({ chapter, scenes: [] as T[] }))
+    ];
+    scenes.forEach(scene => {
+      const section = sections.find(s => s.chapter && s.chapter.id === scene.chapterId) ?? sections[0];
+      section.scenes.push(scene);
+    });
+    return sections;
+  }
+
+  /**
+   * Put the scenes in reading order and clear references to missing chapters
+   */
+  private normalizeSceneOrder(): void {
+    this.scenes = this.getSceneSections().flatMap(section => {
+      if (!section.chapter) {
+        section.scenes.forEach(scene => { scene.chapterId = undefined; });
+      }
+      return section.scenes;
+    });
+  }
+
+  private resolveChapterId(chapterId: string | null): string | undefined {
+    if (chapterId === null) {
+      return undefined;
+    }
+    if (!this.findChapter(chapterId)) {
+      throw new Error(`Chapter "${chapterId}" not found`);
+    }
+    return chapterId;
+  }
+
   /**
    * Update the story's updatedAt timestamp
    */
@@ -308,11 +467,18 @@ export class Story {
         title: this.title,
         backgroundSetup: this.backgroundSetup,
         description: this.description,
-        diagramStyle: this.diagramStyle
+        diagramStyle: this.diagramStyle,
+        avoid: this.avoid ? [...this.avoid] : undefined
       },
+      ...(this.chapters.length > 0 && {
+        chapters: this.chapters.map(c => ({ title: c.title, description: c.description, layout: c.layout }))
+      }),
       characters: this.characters.map(c => ({ ...c })),
       elements: this.elements.map(e => ({ ...e })),
-      scenes: this.scenes.map(scene => scene.toExportJSON())
+      scenes: this.getSceneSections().flatMap(section => section.scenes.map(scene => ({
+        ...scene.toExportJSON(),
+        ...(section.chapter && { chapter: section.chapter.title })
+      })))
     };
   }
 
@@ -327,6 +493,8 @@ export class Story {
       backgroundSetup: this.backgroundSetup,
       diagramStyle: this.diagramStyle,
       layout: this.layout, // NEW: Include story-level layout
+      avoid: this.avoid,
+      chapters: this.chapters.length > 0 ? this.chapters : undefined,
       characters: this.characters,
       elements: this.elements,
       scenes: this.scenes,
@@ -347,13 +515,28 @@ export class Story {
       backgroundSetup: data.story.backgroundSetup,
       description: data.story.description,
       diagramStyle: data.story.diagramStyle,
+      avoid: data.story.avoid,
       characters: data.characters || [],
       elements: data.elements || []
     });
 
+    // Chapters get new IDs; scenes refer to them by title
+    const chapterIds = new Map<string, string>();
+    (data.chapters || []).forEach(chapterData => {
+      const chapter = story.addChapter(chapterData.title, { description: chapterData.description, layout: chapterData.layout });
+      if (!chapterIds.has(chapter.title)) {
+        chapterIds.set(chapter.title, chapter.id);
+      }
+    });
+
     // Add scenes
     if (data.scenes) {
-      story.scenes = data.scenes.map((sceneData: any) => SceneClass.fromJSON(sceneData));
+      story.scenes = data.scenes.map((sceneData: any) => {
+        const scene = SceneClass.fromJSON(sceneData);
+        scene.chapterId = sceneData.chapter ? chapterIds.get(sceneData.chapter) : undefined;
+        return scene;
+      });
+      story.normalizeSceneOrder();
     }
 
     return story;
@@ -0,0 +1,90 @@
+/**
+ * AvoidListResolver - Handles hierarchical avoid-list (negative prompt) resolution
+ *
+ * Things to keep out of generated images ("text", "watermarks", "extra limbs")
+ * can be listed at every level. Unlike layouts, avoid-lists don't override each
+ * other: a scene inherits everything its story and book avoid.
+ *
+ * Levels (most specific first):
+ * 1. Scene avoid-list (scene.avoid)
+ * 2. Story avoid-list (story.avoid)
+ * 3. Book avoid-list (book.style.avoid)
+ *
+ * Terms are compared case-insensitively; a term listed at several levels is
+ * attributed to the most specific one.
+ */
+
+export type AvoidListSource = 'scene' | 'story' | 'book';
+
+export interface AvoidListEntry {
+  term: string;
+  source: AvoidListSource;
+}
+
+// Structural types so both model classes and plain types/Story objects can be passed
+interface HasAvoidList {
+  avoid?: string[];
+}
+
+interface BookWithAvoidList {
+  style?: HasAvoidList;
+}
+
+export class AvoidListResolver {
+  /**
+   * Clean up a user-entered avoid-list: trim, drop empty and duplicate terms.
+   * Returns undefined for an empty list so it isn't persisted.
+   */
+  static normalize(terms: unknown): string[] | undefined {
+    if (!Array.isArray(terms)) return undefined;
+
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const term of terms) {
+      if (typeof term !== 'string') continue;
+      const trimmed = term.trim();
+      if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+      seen.add(trimmed.toLowerCase());
+      result.push(trimmed);
+    }
+    return result.length > 0 ? result : undefined;
+  }
+
+  /**
+   * Merged avoid-list for a scene with the level each term comes from
+   * Follows the inheritance chain: scene → story → book
+   */
+  static resolveAvoidEntries(
+    scene: HasAvoidList | null,
+    story: HasAvoidList | null,
+    book: BookWithAvoidList | null
+  ): AvoidListEntry[] {
+    const levels: Array<[AvoidListSource, string[] | undefined]> = [
+      ['scene', scene?.avoid],
+      ['story', story?.avoid],
+      ['book', book?.style?.avoid]
+    ];
+
+    const seen = new Set<string>();
+    const entries: AvoidListEntry[] = [];
+    for (const [source, terms] of levels) {
+      for (const term of this.normalize(terms) ?? []) {
+        if (seen.has(term.toLowerCase())) continue;
+        seen.add(term.toLowerCase());
+        entries.push({ term, source });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Merged avoid-list terms for a scene (scene → story → book)
+   */
+  static resolveAvoidList(
+    scene: HasAvoidList | null,
+    story: HasAvoidList | null,
+    book: BookWithAvoidList | null
+  ): string[] {
+    return this.resolveAvoidEntries(scene, story, book).map(entry => entry.term);
+  }
+}
@@ -8,6 +8,8 @@
 
 import { Book } from '../models/Book';
 import { FileSystemService } from './FileSystemService';
+import { BookHistoryService } from './BookHistoryService';
+import { SaveJournalService } from './SaveJournalService';
 
 export class BookCache {
   private cache = new Map<string, Book>();
@@ -50,9 +52,19 @@ export class BookCache {
         return;
       }
 
+      // Finish or discard saves interrupted by a crash before reading any book
+      try {
+        await SaveJournalService.recoverInterruptedSaves();
+      } catch (error) {
+        console.error('Failed to recover interrupted saves:', error);
+      }
+
       // Load books from both old and new formats
       await this.loadBooksFromBothFormats();
 
+      // Remember the loaded state so the first edit of each book can be undone
+      BookHistoryService.captureBaselines(this.getAll());
+
       // Load activeBookId from filesystem metadata
       const appMetadata = await FileSystemService.loadAppMetadata();
       if (appMetadata?.activeBookId) {
@@ -94,68 +106,27 @@ export class BookCache {
     // Then, try to load new format books (directory structure)
     // We need to scan the books directory for subdirectories
     try {
-      const { ElectronFileSystemService } = await import('./ElectronFileSystemService');
-      
-      if (FileSystemService.isElectron()) {
-        // Electron mode - list directories
-        const { directories } = await ElectronFileSystemService.listDirectory('prompter-cache/books');
-        console.log(`Found ${directories.length} potential book directories in new format`);
-        
-        for (const dirName of directories) {
-          // Check if this is a directory format book
-          const isDirectory = await FileBasedStorageService.isDirectoryFormat(dirName);
-          
-          if (isDirectory) {
-            try {
-              const book = await FileBasedStorageService.loadBook(dirName);
-              if (book) {
-                // Only add if not already loaded from old format
-                if (!this.cache.has(book.id)) {
-                  this.cache.set(book.id, book);
-                  console.log(`✓ Loaded book (new format): ${book.title} (${book.id})`);
-                } else {
-                  console.log(`⚠️ Book ${book.id} exists in both formats - using old format`);
-                }
-              }
-            } catch (error) {
-              console.error(`Failed to load directory book ${dirName}:`, error);
-            }
-          }
-        }
-      } else {
-        // Browser mode - iterate through directory handles
-        const parentHandle = await FileSystemService.getDirectoryHandle();
-        if (parentHandle && 'getDirectoryHandle' in parentHandle) {
+      const { directories } = await FileSystemService.getBackend().list('prompter-cache/books');
+      console.log(`Found ${directories.length} potential book directories in new format`);
+
+      for (const dirName of directories) {
+        // Check if this is a directory format book
+        const isDirectory = await FileBasedStorageService.isDirectoryFormat(dirName);
+
+        if (isDirectory) {
           try {
-            const cacheHandle = await parentHandle.getDirectoryHandle('prompter-cache', { create: false });
-            const booksHandle = await cacheHandle.getDirectoryHandle('books', { create: false });
-            
-            // @ts-ignore - values() is an async iterator
-            for await (const entry of booksHandle.values()) {
-              if (entry.kind === 'directory') {
-                const isDirectory = await FileBasedStorageService.isDirectoryFormat(entry.name);
-                
-                if (isDirectory) {
-                  try {
-                    const book = await FileBasedStorageService.loadBook(entry.name);
-                    if (book) {
-                      // Only add if not already loaded from old format
-                      if (!this.cache.has(book.id)) {
-                        this.cache.set(book.id, book);
-                        console.log(`✓ Loaded book (new format): ${book.title} (${book.id})`);
-                      } else {
-                        console.log(`⚠️ Book ${book.id} exists in both formats - using old format`);
-                      }
-                    }
-                  } catch (error) {
-                    console.error(`Failed to load directory book ${entry.name}:`, error);
-                  }
-                }
+            const book = await FileBasedStorageService.loadBook(dirName);
+            if (book) {
+              // Only add if not already loaded from old format
+              if (!this.cache.has(book.id)) {
+                this.cache.set(book.id, book);
+                console.log(`✓ Loaded book (new format): ${book.title} (${book.id})`);
+              } else {
+                console.log(`⚠️ Book ${book.id} exists in both formats - using old format`);
               }
             }
           } catch (error) {
-            // Books directory doesn't exist or error reading
-            console.log('No new format books found or error reading directory');
+            console.error(`Failed to load directory book ${dirName}:`, error);
           }
         }
       }
@@ -166,8 +137,9 @@ export class BookCache {
 
   /**
    * Deserialize a book from JSON data
+   * Also used by BookHistoryService and BookSnapshotService to restore snapshots
    */
-  private async deserializeBook(bookData: any): Promise<Book> {
+  async deserializeBook(bookData: any): Promise<Book> {
     // Import model classes (safe here, not circular)
     const { Story } = await import('../models/Story.js');
     const { Scene } = await import('../models/Scene.js');
@@ -258,15 +230,18 @@ export class BookCache {
 
   /**
    * Set a book in cache and save to filesystem
+   * @param onSaved Called once the book has been written (not if the save fails or is refused)
    */
-  async set(book: Book): Promise<void> {
+  async set(book: Book, onSaved?: () => void): Promise<void> {
     book.updatedAt = new Date();
     
     // Update cache
     this.cache.set(book.id, book);
     
     // Save to filesystem immediately (non-blocking for UI)
-    this.saveToFilesystem(book).catch(error => {
+    this.saveToFilesystem(book).then(saved => {
+      if (saved) onSaved?.();
+    }).catch(error => {
       console.error(`Failed to save book ${book.id} to filesystem:`, error);
     });
   }
@@ -275,11 +250,11 @@ export class BookCache {
    * Save book to filesystem
    * Always uses new directory format
    */
-  private async saveToFilesystem(book: Book): Promise<void> {
+  private async saveToFilesystem(book: Book): Promise<boolean> {
     const fsConfigured = await FileSystemService.isConfigured();
     if (!fsConfigured) {
       console.warn('Filesystem not configured - book not persisted');
-      return;
+      return false;
     }
 
     try {
@@ -299,6 +274,7 @@ export class BookCache {
         } catch (error) {
           // Ignore errors - old file might not exist
         }
+        return true;
       } else {
         throw new Error(result.error || 'Failed to save book');
       }
@@ -327,6 +303,24 @@ export class BookCache {
     });
   }
 
+  /**
+   * Replace a cached book with the version read from disk, without saving it
+   * (used by ExternalChangeService when book files change outside the app)
+   */
+  setFromDisk(book: Book): void {
+    this.cache.set(book.id, book);
+  }
+
+  /**
+   * Drop a book from the cache, leaving the filesystem alone
+   */
+  evict(bookId: string): void {
+    this.cache.delete(bookId);
+    if (this.activeBookId === bookId) {
+      this.activeBookId = null;
+    }
+  }
+
   /**
    * Set active book ID and save to filesystem
    */
@@ -18,6 +18,7 @@
 import { WizardLLMService, type WizardLLMContext } from './WizardLLMService';
 import { ImageGenerationService } from './ImageGenerationService';
 import { ImageStorageService } from './ImageStorageService';
+import { UsageLedgerService } from './UsageLedgerService';
 import type {
   ConceptAnalysis,
   BookMetadata,
@@ -30,9 +31,11 @@ import type {
   Message
 } from '../types/Wizard';
 import type { BookStyle } from '../types/BookStyle';
+import type { UsageContext } from '../types/UsageLedger';
 import { v4 as uuidv4 } from 'uuid';
 
 const WIZARD_STATE_KEY = 'bookCreationWizardState';
+const WIZARD_USAGE_SESSION_KEY = 'bookCreationWizardUsageSession';
 const WIZARD_STATE_VERSION = 1;
 
 export class BookCreationWizardService {
@@ -49,7 +52,7 @@ export class BookCreationWizardService {
     };
 
     // Make LLM request
-    const result = await WizardLLMService.makeStructuredRequest('concept', context);
+    const result = await WizardLLMService.makeStructuredRequest('concept', context, this.getUsageContext('wizard:concept'));
     
     if (!result.success || !result.data) {
       throw new Error(result.error || 'Failed to analyze concept');
@@ -96,7 +99,7 @@ export class BookCreationWizardService {
     };
 
     // Make LLM request
-    const result = await WizardLLMService.makeStructuredRequest('style', context);
+    const result = await WizardLLMService.makeStructuredRequest('style', context, this.getUsageContext('wizard:style'));
     
     if (!result.success || !result.data) {
       throw new Error(result.error || 'Failed to generate style variations');
@@ -130,7 +133,8 @@ export class BookCreationWizardService {
         const result = await ImageGenerationService.generateImage({
           prompt: variation.prompt,
           aspectRatio,
-          model: undefined // Use default model from settings
+          model: undefined, // Use default model from settings
+          usageContext: this.getUsageContext('wizard:style-image')
         });
 
         if (!result.success || !result.imageUrl) {
@@ -186,7 +190,7 @@ export class BookCreationWizardService {
     };
 
     // Make LLM request
-    const result = await WizardLLMService.makeStructuredRequest('refinement', llmContext);
+    const result = await WizardLLMService.makeStructuredRequest('refinement', llmContext, this.getUsageContext('wizard:refinement'));
     
     if (!result.success || !result.data) {
       throw new Error(result.error || 'Failed to refine style prompt');
@@ -212,7 +216,8 @@ export class BookCreationWizardService {
     const result = await ImageGenerationService.generateImage({
       prompt,
       aspectRatio,
-      model: undefined // Use default model from settings
+      model: undefined, // Use default model from settings
+      usageContext: this.getUsageContext('wizard:refinement-image')
     });
 
     if (!result.success || !result.imageUrl) {
@@ -242,7 +247,7 @@ export class BookCreationWizardService {
     };
 
     // Make LLM request for conversation
-    const result = await WizardLLMService.makeStructuredRequest('conversation', llmContext);
+    const result = await WizardLLMService.makeStructuredRequest('conversation', llmContext, this.getUsageContext('wizard:conversation'));
     
     if (!result.success || !result.data) {
       throw new Error(result.error || 'Failed to get conversation response');
@@ -269,7 +274,7 @@ export class BookCreationWizardService {
     };
 
     // Make LLM request
-    const result = await WizardLLMService.makeStructuredRequest('extract-characters', context);
+    const result = await WizardLLMService.makeStructuredRequest('extract-characters', context, this.getUsageContext('wizard:extract-characters'));
     
     if (!result.success || !result.data) {
       console.warn('Failed to extract characters:', result.error);
@@ -327,7 +332,7 @@ export class BookCreationWizardService {
     };
 
     // Make LLM request
-    const result = await WizardLLMService.makeStructuredRequest('character', context);
+    const result = await WizardLLMService.makeStructuredRequest('character', context, this.getUsageContext('wizard:character'));
     
     if (!result.success || !result.data) {
       throw new Error(result.error || 'Failed to generate character profile');
@@ -473,11 +478,40 @@ export class BookCreationWizardService {
       }
 
       localStorage.removeItem(WIZARD_STATE_KEY);
+      localStorage.removeItem(WIZARD_USAGE_SESSION_KEY);
       console.log('✓ Wizard state cleared from localStorage');
     } catch (error) {
       console.error('Failed to clear wizard state:', error);
       // Force remove even if cleanup fails
       localStorage.removeItem(WIZARD_STATE_KEY);
+      localStorage.removeItem(WIZARD_USAGE_SESSION_KEY);
+    }
+  }
+
+  /**
+   * Usage context for a wizard call. Calls are tagged with this wizard run's
+   * session id (kept in localStorage so it survives a reload) until the book
+   * exists and assignUsageToBook moves them to its ledger.
+   */
+  private static getUsageContext(purpose: string): UsageContext {
+    let wizardSessionId = localStorage.getItem(WIZARD_USAGE_SESSION_KEY);
+    if (!wizardSessionId) {
+      wizardSessionId = uuidv4();
+      localStorage.setItem(WIZARD_USAGE_SESSION_KEY, wizardSessionId);
+    }
+    return { purpose, wizardSessionId };
+  }
+
+  /**
+   * Move the usage recorded during this wizard run to the created book's ledger
+   */
+  static async assignUsageToBook(bookId: string): Promise<void> {
+    const wizardSessionId = localStorage.getItem(WIZARD_USAGE_SESSION_KEY);
+    if (!wizardSessionId) return;
+
+    const moved = await UsageLedgerService.assignWizardSession(wizardSessionId, bookId);
+    if (moved > 0) {
+      console.log(`✓ Assigned ${moved} wizard usage entries to book`);
     }
   }
 
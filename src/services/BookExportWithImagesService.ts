@@ -9,6 +9,7 @@ import JSZip from 'jszip';
 import { BookService } from './BookService';
 import { ImageStorageService } from './ImageStorageService';
 import { Book } from '../models/Book';
+import type { Character, CharacterImage } from '../models/Story';
 
 /**
  * Manifest file to track what's included in the export
@@ -41,6 +42,17 @@ export interface ExportResult {
   };
 }
 
+/**
+ * A character gallery image loaded for export
+ */
+export interface CollectedCharacterImage {
+  /** Story the character belongs to; null for book-level characters */
+  storyId: string | null;
+  character: Character;
+  image: CharacterImage;
+  data: Uint8Array;
+}
+
 /**
  * Result of an import operation
  */
@@ -118,77 +130,14 @@ export class BookExportWithImagesService {
         }
       }
 
-      // Collect all character audition images (story-level)
-      console.log('Collecting story-level character images...');
-      for (const story of book.stories) {
-        for (const character of story.characters) {
-          if (character.imageGallery && character.imageGallery.length > 0) {
-            for (const img of character.imageGallery) {
-              try {
-                // Get image from filesystem
-                const blobUrl = await ImageStorageService.getCharacterImage(
-                  story.id,
-                  character.name,
-                  img.id
-                );
-                if (blobUrl) {
-                  // Fetch the blob from the blob URL
-                  const response = await fetch(blobUrl);
-                  const blob = await response.blob();
-                  
-                  // Add to ZIP with organized path
-                  // Include story ID and character name in path for organization
-                  const filename = `${this.CHARACTER_IMAGES_DIR}${story.id}/${character.name}/${img.id}.png`;
-                  zip.file(filename, blob);
-                  imageIdToFilename.set(`${story.id}:${character.name}:${img.id}`, filename);
-                  characterImageCount++;
-                  
-                  console.log(`Added story character image: ${character.name}/${img.id}`);
-                } else {
-                  console.warn(`Character image not found in storage: ${character.name}/${img.id}`);
-                }
-              } catch (error) {
-                console.error(`Error processing character image ${character.name}/${img.id}:`, error);
-              }
-            }
-          }
-        }
-      }
-
-      // Collect book-level character images
-      console.log('Collecting book-level character images...');
-      if (book.characters && book.characters.length > 0) {
-        for (const character of book.characters) {
-          if (character.imageGallery && character.imageGallery.length > 0) {
-            for (const img of character.imageGallery) {
-              try {
-                // Get image from filesystem (book-level uses 'book:' prefix)
-                const blobUrl = await ImageStorageService.getBookCharacterImage(
-                  book.id,
-                  character.name,
-                  img.id
-                );
-                if (blobUrl) {
-                  // Fetch the blob from the blob URL
-                  const response = await fetch(blobUrl);
-                  const blob = await response.blob();
-                  
-                  // Add to ZIP with organized path (use 'book' as the directory name)
-                  const filename = `${this.CHARACTER_IMAGES_DIR}book/${character.name}/${img.id}.png`;
-                  zip.file(filename, blob);
-                  imageIdToFilename.set(`book:${book.id}:${character.name}:${img.id}`, filename);
-                  characterImageCount++;
-                  
-                  console.log(`Added book character image: ${character.name}/${img.id}`);
-                } else {
-                  console.warn(`Book character image not found in storage: ${character.name}/${img.id}`);
-                }
-              } catch (error) {
-                console.error(`Error processing book character image ${character.name}/${img.id}:`, error);
-              }
-            }
-          }
-        }
+      // Collect all character audition images (story-level and book-level)
+      console.log('Collecting character images...');
+      for (const { storyId, character, image, data } of await this.collectCharacterImages(book)) {
+        // Include story ID (or 'book') and character name in path for organization
+        const filename = `${this.CHARACTER_IMAGES_DIR}${storyId ?? 'book'}/${character.name}/${image.id}.png`;
+        zip.file(filename, data);
+        imageIdToFilename.set(`${storyId ?? `book:${book.id}`}:${character.name}:${image.id}`, filename);
+        characterImageCount++;
       }
 
       // Create manifest
@@ -245,6 +194,48 @@ export class BookExportWithImagesService {
     }
   }
 
+  /**
+   * Load the gallery images of every character, story-level first, then
+   * book-level. Images that can't be loaded are skipped.
+   *
+   * @param selectedOnly Only each character's selected image (the first one
+   * when none is selected)
+   */
+  static async collectCharacterImages(book: Book, selectedOnly = false): Promise<CollectedCharacterImage[]> {
+    const owners: Array<{ storyId: string | null; characters: Character[] }> = [
+      ...book.stories.map(story => ({ storyId: story.id, characters: story.characters })),
+      { storyId: null, characters: book.characters || [] }
+    ];
+    const collected: CollectedCharacterImage[] = [];
+
+    for (const { storyId, characters } of owners) {
+      for (const character of characters) {
+        const gallery = character.imageGallery || [];
+        const images = selectedOnly
+          ? [gallery.find(image => image.id === character.selectedImageId) ?? gallery[0]].filter(Boolean)
+          : gallery;
+        for (const image of images) {
+          try {
+            // Book-level characters are stored under the book ID
+            const blobUrl = storyId
+              ? await ImageStorageService.getCharacterImage(storyId, character.name, image.id)
+              : await ImageStorageService.getBookCharacterImage(book.id, character.name, image.id);
+            if (blobUrl) {
+              const response = await fetch(blobUrl);
+              collected.push({ storyId, character, image, data: new Uint8Array(await response.arrayBuffer()) });
+              console.log(`Added ${storyId ? 'story' : 'book'} character image: ${character.name}/${image.id}`);
+            } else {
+              console.warn(`Character image not found in storage: ${character.name}/${image.id}`);
+            }
+          } catch (error) {
+            console.error(`Error processing character image ${character.name}/${image.id}:`, error);
+          }
+        }
+      }
+    }
+    return collected;
+  }
+
   /**
    * Import a book with all its images from a ZIP file
    */
@@ -407,6 +398,7 @@ export class BookExportWithImagesService {
           if (scene.imageHistory) {
             for (const img of scene.imageHistory) {
               delete (img as any).url; // Remove stale blob URL if present
+              delete img.baseImageId; // Images before overlays aren't exported
             }
           }
         }
@@ -664,20 +656,6 @@ export class BookExportWithImagesService {
     }
   }
 
-  /**
-   * Download a blob as a file
-   */
-  static downloadBlob(blob: Blob, filename: string): void {
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }
-
   /**
    * Generate a safe filename for a book export
    */
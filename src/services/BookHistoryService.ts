@@ -0,0 +1,621 @@
+/**
+ * BookHistoryService - Book-wide undo/redo
+ *
+ * Editors mutate Book instances in many places (SceneEditor, CastManager,
+ * ElementsManager, BookStyleEditor, layout editors, image panels) and all of
+ * them end in StorageService.saveBook. Instead of wrapping every mutation in a
+ * command object, StorageService reports each save here: the last known state
+ * of the book becomes an undo entry, labelled by comparing it with the new
+ * state (see describeBookChange).
+ *
+ * Features:
+ * - Per-book undo/redo stacks (undoing restores the previous snapshot through
+ *   StorageService, so the cache and filesystem stay in step)
+ * - Rapid edits with the same label (typing in a field) coalesce into one entry
+ * - The last PERSISTED_HISTORY_LIMIT entries are saved to
+ *   prompter-cache/history/{bookId}.json and restored on reload, as long as the
+ *   book on disk still matches the state the history leads up to
+ * - Subscribers are notified of every change (used by useBookHistory)
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Book } from '../models/Book';
+import type {
+  BookHistoryEntry,
+  BookHistoryFile,
+  BookHistoryState
+} from '../types/BookHistory';
+import { FileSystemService } from './FileSystemService';
+import { HashService } from './HashService';
+import { JsonService } from './JsonService';
+
+type HistoryListener = (bookId: string) => void;
+
+interface BookHistory {
+  undo: BookHistoryEntry[]; // Oldest first
+  redo: BookHistoryEntry[]; // Oldest first
+}
+
+const HISTORY_DIR = 'prompter-cache/history';
+export const MAX_HISTORY_ENTRIES = 100;
+export const PERSISTED_HISTORY_LIMIT = 25;
+const COALESCE_WINDOW_MS = 2000;
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * Serialize a book for history. Transient image URLs and the book's own
+ * updatedAt are left out so that saves which change nothing else compare equal.
+ */
+export function serializeBookSnapshot(book: Book): string {
+  return JSON.stringify({ ...book.toJSON(), updatedAt: undefined }, (key, value) =>
+    key === 'url' ? undefined : value
+  );
+}
+
+/**
+ * The parts of a parsed snapshot that describeBookChange looks at
+ */
+interface NamedSnapshotItem {
+  name: string;
+  selectedImageId?: string;
+  imageGallery?: unknown[];
+}
+
+interface SceneSnapshot {
+  id: string;
+  title: string;
+  chapterId?: string;
+  layout?: unknown;
+  imageHistory?: unknown[];
+  characters?: string[];
+  elements?: string[];
+}
+
+interface StorySnapshot {
+  id: string;
+  title: string;
+  layout?: unknown;
+  diagramStyle?: unknown;
+  chapters?: Array<{ id: string; title: string }>;
+  characters?: NamedSnapshotItem[];
+  elements?: NamedSnapshotItem[];
+  scenes: SceneSnapshot[];
+}
+
+interface BookSnapshot {
+  title: string;
+  style?: unknown;
+  defaultLayout?: unknown;
+  promptTemplates?: unknown;
+  characters?: NamedSnapshotItem[];
+  stories?: StorySnapshot[];
+}
+
+/**
+ * Describe changes to a list of named items without ids (characters, elements)
+ */
+function describeNamedListChange(
+  kind: string,
+  before: NamedSnapshotItem[] = [],
+  after: NamedSnapshotItem[] = []
+): string | null {
+  if (JsonService.equal(before, after)) return null;
+
+  const beforeNames = before.map(item => item.name);
+  const afterNames = after.map(item => item.name);
+
+  if (after.length > before.length) {
+    const added = afterNames.find(name => !beforeNames.includes(name));
+    return `Add ${kind} "${added ?? afterNames[afterNames.length - 1]}"`;
+  }
+  if (after.length < before.length) {
+    const removed = beforeNames.find(name => !afterNames.includes(name));
+    return `Delete ${kind} "${removed ?? beforeNames[beforeNames.length - 1]}"`;
+  }
+
+  const index = before.findIndex((item, i) => !JsonService.equal(item, after[i]));
+  const previous = before[index];
+  const current = after[index];
+
+  if (previous.name !== current.name) {
+    return beforeNames.includes(current.name)
+      ? `Reorder ${kind}s`
+      : `Rename ${kind} "${previous.name}" to "${current.name}"`;
+  }
+  if (previous.selectedImageId !== current.selectedImageId) {
+    return `Select image for "${current.name}"`;
+  }
+  if ((previous.imageGallery?.length ?? 0) !== (current.imageGallery?.length ?? 0)) {
+    return (current.imageGallery?.length ?? 0) > (previous.imageGallery?.length ?? 0)
+      ? `Add image for "${current.name}"`
+      : `Remove image from "${current.name}"`;
+  }
+  return `Edit ${kind} "${current.name}"`;
+}
+
+/**
+ * Describe changes to a list of items with ids and titles (stories, chapters, scenes).
+ * Returns null when only the contents of existing items changed, so the
+ * caller can look inside them.
+ */
+function describeTitledListChange(
+  kind: string,
+  before: Array<{ id: string; title: string }> = [],
+  after: Array<{ id: string; title: string }> = []
+): string | null {
+  const beforeIds = before.map(item => item.id);
+  const afterIds = after.map(item => item.id);
+
+  const added = after.find(item => !beforeIds.includes(item.id));
+  if (added) return `Add ${kind} "${added.title}"`;
+
+  const removed = before.find(item => !afterIds.includes(item.id));
+  if (removed) return `Delete ${kind} "${removed.title}"`;
+
+  if (!JsonService.equal(beforeIds, afterIds)) return `Reorder ${kind}s`;
+
+  const renamed = after.find((item, i) => item.title !== before[i].title);
+  if (renamed) {
+    return `Rename ${kind} "${before[afterIds.indexOf(renamed.id)].title}" to "${renamed.title}"`;
+  }
+  return null;
+}
+
+function describeSceneChange(before: SceneSnapshot, after: SceneSnapshot): string | null {
+  if (JsonService.equal(before, after)) return null;
+
+  const title = after.title;
+  if (before.chapterId !== after.chapterId) return `Move scene "${title}" to another chapter`;
+  if (!JsonService.equal(before.layout, after.layout)) return `Change layout of scene "${title}"`;
+
+  const beforeImages = before.imageHistory?.length ?? 0;
+  const afterImages = after.imageHistory?.length ?? 0;
+  if (beforeImages !== afterImages) {
+    return afterImages > beforeImages ? `Add image to scene "${title}"` : `Remove image from scene "${title}"`;
+  }
+  if (!JsonService.equal(before.characters, after.characters) || !JsonService.equal(before.elements, after.elements)) {
+    return `Change cast of scene "${title}"`;
+  }
+  return `Edit scene "${title}"`;
+}
+
+function describeStoryChange(before: StorySnapshot, after: StorySnapshot): string | null {
+  if (JsonService.equal(before, after)) return null;
+
+  const title = after.title;
+  // Before scenes: moving or deleting a chapter also moves its scenes
+  const chapterListChange = describeTitledListChange('chapter', before.chapters, after.chapters);
+  if (chapterListChange) return chapterListChange;
+
+  const sceneListChange = describeTitledListChange('scene', before.scenes, after.scenes);
+  if (sceneListChange) return sceneListChange;
+
+  // Before scene contents: deleting or renaming a character also rewrites scene casts
+  const characterChange = describeNamedListChange('character', before.characters, after.characters);
+  if (characterChange) return characterChange;
+
+  const elementChange = describeNamedListChange('element', before.elements, after.elements);
+  if (elementChange) return elementChange;
+
+  for (let i = 0; i < after.scenes.length; i++) {
+    const sceneChange = describeSceneChange(before.scenes[i], after.scenes[i]);
+    if (sceneChange) return sceneChange;
+  }
+
+  if (!JsonService.equal(before.layout, after.layout)) return `Change layout of story "${title}"`;
+  if (!JsonService.equal(before.diagramStyle, after.diagramStyle)) return `Change diagram style of story "${title}"`;
+  if (!JsonService.equal(before.chapters, after.chapters)) return `Edit chapters of story "${title}"`;
+  return `Edit story "${title}"`;
+}
+
+/**
+ * Describe what changed between two book snapshots, e.g. 'Delete scene "Arrival"'.
+ * Only the first change found is described.
+ */
+export function describeBookChange(beforeSnapshot: string, afterSnapshot: string): string {
+  const before = JSON.parse(beforeSnapshot) as BookSnapshot;
+  const after = JSON.parse(afterSnapshot) as BookSnapshot;
+
+  const storyListChange = describeTitledListChange('story', before.stories, after.stories);
+  if (storyListChange) return storyListChange;
+
+  const characterChange = describeNamedListChange('book character', before.characters, after.characters);
+  if (characterChange) return characterChange;
+
+  const beforeStories = before.stories ?? [];
+  const afterStories = after.stories ?? [];
+  for (let i = 0; i < afterStories.length; i++) {
+    const storyChange = describeStoryChange(beforeStories[i], afterStories[i]);
+    if (storyChange) return storyChange;
+  }
+
+  if (!JsonService.equal(before.style, after.style)) return 'Change book style';
+  if (!JsonService.equal(before.defaultLayout, after.defaultLayout)) return 'Change book layout';
+  if (!JsonService.equal(before.promptTemplates, after.promptTemplates)) return 'Edit prompt templates';
+  if (before.title !== after.title) return `Rename book to "${after.title}"`;
+  return 'Edit book details';
+}
+
+export class BookHistoryService {
+  private static histories: Map<string, BookHistory> = new Map();
+  private static baselines: Map<string, string> = new Map();
+  private static restoringBookIds: Set<string> = new Set();
+  private static loadedBookIds: Set<string> = new Set();
+  private static persistTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private static listeners: Set<HistoryListener> = new Set();
+
+  // ========================================
+  // Recording
+  // ========================================
+
+  /**
+   * Remember the current state of freshly loaded books. Books that already
+   * have a baseline are left alone.
+   */
+  static captureBaselines(books: Book[]): void {
+    for (const book of books) {
+      if (!this.baselines.has(book.id)) {
+        this.baselines.set(book.id, serializeBookSnapshot(book));
+      }
+    }
+  }
+
+  /**
+   * Start recording a book save. Called by StorageService.saveBook before the
+   * book is written; the returned function runs once the write succeeded and
+   * makes the previous baseline an undo entry. A save that is refused or
+   * fails never calls it, so it leaves no entry behind.
+   */
+  static beginSave(book: Book): () => void {
+    const after = serializeBookSnapshot(book);
+
+    // Our own restores only move the baseline, and must do so right away so
+    // that the next undo starts from the restored state
+    if (this.restoringBookIds.has(book.id)) {
+      this.baselines.set(book.id, after);
+      return () => {};
+    }
+    return () => this.recordSnapshot(book.id, after);
+  }
+
+  /**
+   * Record a book state that is already on disk (e.g. an external edit)
+   */
+  static recordSave(book: Book): void {
+    this.recordSnapshot(book.id, serializeBookSnapshot(book));
+  }
+
+  private static recordSnapshot(bookId: string, after: string): void {
+    const before = this.baselines.get(bookId);
+    this.baselines.set(bookId, after);
+
+    // New books and our own restores don't create entries
+    if (before === undefined || before === after || this.restoringBookIds.has(bookId)) {
+      return;
+    }
+
+    const history = this.getHistory(bookId);
+    const label = describeBookChange(before, after);
+    const now = new Date();
+    const last = history.undo[history.undo.length - 1];
+
+    if (
+      last &&
+      history.redo.length === 0 &&
+      last.label === label &&
+      now.getTime() - last.timestamp.getTime() < COALESCE_WINDOW_MS
+    ) {
+      // Keep the snapshot from before the first keystroke
+      last.timestamp = now;
+    } else {
+      history.undo.push({ id: uuidv4(), label, timestamp: now, snapshot: before });
+      if (history.undo.length > MAX_HISTORY_ENTRIES) {
+        history.undo.splice(0, history.undo.length - MAX_HISTORY_ENTRIES);
+      }
+    }
+    history.redo = [];
+
+    this.commit(bookId);
+  }
+
+  // ========================================
+  // Undo / Redo
+  // ========================================
+
+  /**
+   * Undo the most recent operation
+   * @returns The restored book, or null if there was nothing to undo
+   */
+  static async undo(bookId: string): Promise<Book | null> {
+    const entry = this.histories.get(bookId)?.undo.at(-1);
+    return entry ? this.moveTo(bookId, entry.id) : null;
+  }
+
+  /**
+   * Redo the most recently undone operation
+   * @returns The restored book, or null if there was nothing to redo
+   */
+  static async redo(bookId: string): Promise<Book | null> {
+    const entry = this.histories.get(bookId)?.redo.at(-1);
+    return entry ? this.moveTo(bookId, entry.id) : null;
+  }
+
+  /**
+   * Undo or redo up to and including the given entry (history panel "jump")
+   * @returns The restored book, or null if the entry doesn't exist
+   */
+  static async moveTo(bookId: string, entryId: string): Promise<Book | null> {
+    const history = this.histories.get(bookId);
+    const current = this.baselines.get(bookId);
+    if (!history || current === undefined) return null;
+
+    const fromUndo = history.undo.some(entry => entry.id === entryId);
+    const fromRedo = history.redo.some(entry => entry.id === entryId);
+    if (!fromUndo && !fromRedo) return null;
+
+    // Move entries one at a time; each carries the state on its other side
+    const [source, target] = fromUndo ? [history.undo, history.redo] : [history.redo, history.undo];
+    let state = current;
+    let entry: BookHistoryEntry | undefined;
+    do {
+      entry = source.pop()!;
+      target.push({ ...entry, snapshot: state });
+      state = entry.snapshot;
+    } while (entry.id !== entryId);
+
+    const book = await this.restore(state);
+    this.commit(bookId);
+    return book;
+  }
+
+  /**
+   * Replace the cached book with a snapshot and save it without recording
+   */
+  private static async restore(snapshot: string): Promise<Book> {
+    const { bookCache } = await import('./BookCache');
+
+    const book = await bookCache.deserializeBook(JSON.parse(snapshot));
+    await this.saveWithoutRecording(book);
+    return book;
+  }
+
+  /**
+   * Save a book through StorageService without creating an undo entry; the
+   * saved state becomes the new baseline (e.g. image cleanup, whose removed
+   * images an undo must not bring back)
+   */
+  static async saveWithoutRecording(book: Book): Promise<void> {
+    const { StorageService } = await import('./StorageService');
+
+    this.restoringBookIds.add(book.id);
+    try {
+      await StorageService.saveBook(book);
+    } finally {
+      this.restoringBookIds.delete(book.id);
+    }
+  }
+
+  // ========================================
+  // Subscription & State
+  // ========================================
+
+  static subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static getState(bookId: string): BookHistoryState {
+    const history = this.histories.get(bookId) ?? { undo: [], redo: [] };
+    const summarize = (entries: BookHistoryEntry[]) =>
+      entries.map(({ id, label, timestamp }) => ({ id, label, timestamp })).reverse();
+
+    return {
+      bookId,
+      undoStack: summarize(history.undo),
+      redoStack: summarize(history.redo),
+      canUndo: history.undo.length > 0,
+      canRedo: history.redo.length > 0
+    };
+  }
+
+  private static getHistory(bookId: string): BookHistory {
+    let history = this.histories.get(bookId);
+    if (!history) {
+      history = { undo: [], redo: [] };
+      this.histories.set(bookId, history);
+    }
+    return history;
+  }
+
+  /**
+   * Notify listeners and schedule persistence
+   */
+  private static commit(bookId: string): void {
+    this.listeners.forEach(listener => listener(bookId));
+    this.schedulePersist(bookId);
+  }
+
+  // ========================================
+  // Persistence
+  // ========================================
+
+  /**
+   * Load a book's persisted history. Safe to call repeatedly - each book is
+   * only loaded once, and entries recorded this session take precedence.
+   */
+  static async loadBookHistory(bookId: string): Promise<void> {
+    if (this.loadedBookIds.has(bookId)) return;
+    this.loadedBookIds.add(bookId);
+
+    const content = await FileSystemService.readTextFile(this.getHistoryPath(bookId));
+    if (!content || this.histories.has(bookId)) return;
+
+    try {
+      const file = JSON.parse(content) as BookHistoryFile;
+      const current = this.baselines.get(bookId);
+      if (current === undefined || file.head !== HashService.checksum(current)) {
+        console.log(`↩️ Discarding history for book ${bookId}: the book changed since it was saved`);
+        return;
+      }
+
+      const deserialize = (entry: BookHistoryEntry): BookHistoryEntry => ({ ...entry, timestamp: new Date(entry.timestamp) });
+      this.histories.set(bookId, {
+        undo: (file.undo || []).map(deserialize),
+        redo: (file.redo || []).map(deserialize)
+      });
+
+      console.log(`↩️ Restored ${file.undo?.length ?? 0} undo step(s) for book ${bookId}`);
+      this.listeners.forEach(listener => listener(bookId));
+    } catch (error) {
+      console.error('Failed to parse book history file:', error);
+    }
+  }
+
+  /**
+   * Every book state undo or redo can bring back, from this session and from
+   * persisted history files, e.g. to find the images an undo would need
+   *
+   * @throws If a history file can't be read
+   */
+  static async loadAllHistoryBooks(): Promise<Book[]> {
+    const { bookCache } = await import('./BookCache');
+    const snapshots = new Set<string>();
+    for (const history of this.histories.values()) {
+      [...history.undo, ...history.redo].forEach(entry => snapshots.add(entry.snapshot));
+    }
+
+    const { files } = await FileSystemService.getBackend().list(HISTORY_DIR);
+    for (const fileName of files.filter(name => name.endsWith('.json'))) {
+      const path = `${HISTORY_DIR}/${fileName}`;
+      const content = await FileSystemService.readTextFile(path);
+      if (!content) continue;
+      try {
+        const file = JSON.parse(content) as BookHistoryFile;
+        [...(file.undo || []), ...(file.redo || [])].forEach(entry => snapshots.add(entry.snapshot));
+      } catch (error) {
+        throw new Error(`Undo history ${path} is unreadable: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const books: Book[] = [];
+    for (const snapshot of snapshots) {
+      books.push(await bookCache.deserializeBook(JSON.parse(snapshot)));
+    }
+    return books;
+  }
+
+  private static getHistoryPath(bookId: string): string {
+    return `${HISTORY_DIR}/${bookId}.json`;
+  }
+
+  private static schedulePersist(bookId: string): void {
+    const pending = this.persistTimers.get(bookId);
+    if (pending) clearTimeout(pending);
+
+    this.persistTimers.set(bookId, setTimeout(() => {
+      this.persistTimers.delete(bookId);
+      this.persist(bookId).catch(error => {
+        console.warn(`Failed to persist history for book ${bookId}:`, error);
+      });
+    }, PERSIST_DELAY_MS));
+  }
+
+  /**
+   * Write any pending history files now (e.g., before the app closes, or in tests)
+   */
+  static async flush(): Promise<void> {
+    const bookIds = Array.from(this.persistTimers.keys());
+    for (const bookId of bookIds) {
+      clearTimeout(this.persistTimers.get(bookId));
+      this.persistTimers.delete(bookId);
+      await this.persist(bookId);
+    }
+  }
+
+  private static async persist(bookId: string): Promise<void> {
+    const history = this.histories.get(bookId);
+    const current = this.baselines.get(bookId);
+    if (!history || current === undefined) return;
+
+    // Keep the entries closest to the current state
+    const file: BookHistoryFile = {
+      version: 1,
+      head: HashService.checksum(current),
+      undo: history.undo.slice(-PERSISTED_HISTORY_LIMIT),
+      redo: history.redo.slice(-PERSISTED_HISTORY_LIMIT)
+    };
+    const result = await FileSystemService.writeTextFile(this.getHistoryPath(bookId), JSON.stringify(file));
+    if (!result.success) {
+      console.warn(`Failed to persist history for book ${bookId}:`, result.error);
+    }
+  }
+
+  /**
+   * Forget a book's history (e.g., when the book is deleted)
+   */
+  static async clear(bookId: string): Promise<void> {
+    const pending = this.persistTimers.get(bookId);
+    if (pending) clearTimeout(pending);
+    this.persistTimers.delete(bookId);
+    this.histories.delete(bookId);
+    this.baselines.delete(bookId);
+    this.loadedBookIds.delete(bookId);
+    this.listeners.forEach(listener => listener(bookId));
+    await FileSystemService.deleteFile(this.getHistoryPath(bookId));
+  }
+
+  /**
+   * Drop the undo and redo entries of every book, in memory and on disk. The
+   * current states stay as baselines, so later edits are recorded again.
+   * @returns Number of entries dropped
+   */
+  static async clearAll(): Promise<number> {
+    let dropped = 0;
+    for (const [bookId, history] of this.histories) {
+      dropped += history.undo.length + history.redo.length;
+      const pending = this.persistTimers.get(bookId);
+      if (pending) clearTimeout(pending);
+      this.persistTimers.delete(bookId);
+    }
+    const bookIds = new Set(this.histories.keys());
+    this.histories.clear();
+
+    const { files } = await FileSystemService.getBackend().list(HISTORY_DIR);
+    for (const fileName of files.filter(name => name.endsWith('.json'))) {
+      const bookId = fileName.slice(0, -'.json'.length);
+      if (!bookIds.has(bookId)) {
+        dropped += await this.countPersistedEntries(bookId);
+        bookIds.add(bookId);
+      }
+      await FileSystemService.deleteFile(this.getHistoryPath(bookId));
+    }
+
+    bookIds.forEach(bookId => this.listeners.forEach(listener => listener(bookId)));
+    return dropped;
+  }
+
+  private static async countPersistedEntries(bookId: string): Promise<number> {
+    const content = await FileSystemService.readTextFile(this.getHistoryPath(bookId));
+    try {
+      const file = content ? JSON.parse(content) as BookHistoryFile : null;
+      return (file?.undo?.length ?? 0) + (file?.redo?.length ?? 0);
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Reset all state (tests only)
+   */
+  static reset(): void {
+    this.persistTimers.forEach(timer => clearTimeout(timer));
+    this.persistTimers.clear();
+    this.histories.clear();
+    this.baselines.clear();
+    this.restoringBookIds.clear();
+    this.loadedBookIds.clear();
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,626 @@
+/**
+ * BookIntegrityService - Whole-book consistency checks and repairs
+ *
+ * Model validation (Book/Story/Scene.validate) only looks at one object at a
+ * time and never at the files on disk. This service checks every book for:
+ * - Scene character/element references that don't resolve, only resolve with
+ *   different casing, or are listed twice
+ * - Scene imageHistory and character gallery entries with no PNG on disk
+ * - Images in the image store, or PNGs under prompter-cache/scenes and
+ *   prompter-cache/characters, that no book, book snapshot or undo history
+ *   references (their fix moves the PNG to prompter-cache/removed-images)
+ * - Books sharing a directory, and stories sharing a file name base
+ * - Book, story and scene layouts that can't be rendered
+ * - selectedImageId values that aren't in the character's gallery
+ *
+ * Issues are graded by severity and most carry a fix. applyFixes can run as a
+ * dry run, which applies the fixes to copies of the books and reports the
+ * resulting changes without saving or deleting anything.
+ */
+
+import type { Book } from '../models/Book';
+import type { Character } from '../models/Story';
+import type {
+  IntegrityFixResult,
+  IntegrityIssue,
+  IntegrityLocation,
+  IntegrityReport,
+  IntegritySeverity
+} from '../types/BookIntegrity';
+import { FileSystemService } from './FileSystemService';
+import { FileBasedStorageService } from './FileBasedStorageService';
+import { StorageService } from './StorageService';
+import { SlugService } from './SlugService';
+import { BookSnapshotService, diffBookFiles } from './BookSnapshotService';
+import { BookHistoryService } from './BookHistoryService';
+import { bookCache } from './BookCache';
+import { ImageStoreService } from './ImageStoreService';
+
+const CACHE_DIR = 'prompter-cache';
+const ORPHAN_CHECK_DIRS = [`${CACHE_DIR}/scenes`, `${CACHE_DIR}/characters`];
+const REMOVED_IMAGES_DIR = `${CACHE_DIR}/removed-images`;
+const LAYOUT_TYPES = ['overlay', 'comic-sidebyside', 'comic-vertical', 'custom'];
+
+export const SEVERITY_ORDER: IntegritySeverity[] = ['error', 'warning', 'info'];
+
+const isPositive = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value > 0;
+const isFiniteNumber = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Describe why a layout can't be rendered, or return null if it is usable
+ */
+export function findLayoutProblem(layout: unknown): string | null {
+  if (!layout || typeof layout !== 'object') return 'layout is not an object';
+
+  const { type, canvas, elements } = layout as {
+    type?: unknown;
+    canvas?: { width?: unknown; height?: unknown };
+    elements?: Record<string, { x?: unknown; y?: unknown; width?: unknown; height?: unknown } | undefined>;
+  };
+
+  if (typeof type !== 'string' || !LAYOUT_TYPES.includes(type)) return `unknown layout type "${String(type)}"`;
+  if (!canvas || !isPositive(canvas.width) || !isPositive(canvas.height)) return 'canvas size is missing or not positive';
+  if (!elements?.image) return 'layout has no image element';
+
+  for (const [name, element] of Object.entries(elements)) {
+    if (!element) continue;
+    if (!isFiniteNumber(element.x) || !isFiniteNumber(element.y)) return `${name} position is not a number`;
+    if (!isPositive(element.width) || !isPositive(element.height)) return `${name} size is missing or not positive`;
+  }
+  return null;
+}
+
+/**
+ * Build an issue id from its type and location, so the same problem gets the
+ * same id in every check
+ */
+function issueId(type: IntegrityIssue['type'], location: IntegrityLocation): string {
+  return [
+    type,
+    location.bookId,
+    location.storyId,
+    location.sceneId,
+    location.characterName,
+    location.elementName,
+    location.imageId,
+    location.path
+  ].map(part => part ?? '').join(':');
+}
+
+/**
+ * Collects issues for one check run
+ */
+class IssueCollector {
+  readonly issues: IntegrityIssue[] = [];
+
+  add(
+    type: IntegrityIssue['type'],
+    severity: IntegritySeverity,
+    message: string,
+    location: IntegrityLocation,
+    fix?: string
+  ): void {
+    this.issues.push({ id: issueId(type, location), type, severity, message, location, ...(fix ? { fix } : {}) });
+  }
+}
+
+/**
+ * A title that doesn't collide with the given slugs, e.g. "Sea Tales (2)"
+ */
+function uniqueTitle(title: string, usedSlugs: Set<string>, fallbackPrefix: string): string {
+  for (let n = 2; ; n++) {
+    const candidate = `${title} (${n})`;
+    if (!usedSlugs.has(SlugService.generateSlug(candidate, fallbackPrefix))) {
+      return candidate;
+    }
+  }
+}
+
+export class BookIntegrityService {
+  // ========================================
+  // Checking
+  // ========================================
+
+  /**
+   * Check every book (and the image directories)
+   */
+  static async checkAll(): Promise<IntegrityReport> {
+    const books = await StorageService.getAllBooks();
+    const collector = new IssueCollector();
+
+    const filesChecked = await FileSystemService.isConfigured();
+    const imageFiles = filesChecked ? await this.listImageFiles() : new Map<string, string | null>();
+
+    // Without the store index every stored image would look missing
+    const indexError = filesChecked ? await ImageStoreService.getIndexError() : null;
+    for (const book of books) {
+      this.checkBook(book, collector, filesChecked && !indexError ? imageFiles : null);
+    }
+    this.checkBookSlugs(books, collector);
+
+    // Images a snapshot restore or an undo would bring back aren't orphans
+    let orphanCheckError: string | undefined;
+    if (filesChecked) {
+      try {
+        const restorable = [...await BookSnapshotService.loadAllSnapshotBooks(), ...await BookHistoryService.loadAllHistoryBooks()];
+        this.checkOrphanFiles([...books, ...restorable], imageFiles, collector);
+      } catch (error) {
+        orphanCheckError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    collector.issues.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+    return {
+      checkedAt: new Date(),
+      booksChecked: books.length,
+      imageFilesChecked: imageFiles.size,
+      filesChecked,
+      ...(orphanCheckError ? { orphanCheckError } : {}),
+      ...(indexError ? { imageCheckError: `The image store index could not be read (${indexError})` } : {}),
+      issues: collector.issues
+    };
+  }
+
+  /**
+   * Group a report's issues by severity, most severe first
+   */
+  static groupBySeverity(issues: IntegrityIssue[]): Array<{ severity: IntegritySeverity; issues: IntegrityIssue[] }> {
+    return SEVERITY_ORDER
+      .map(severity => ({ severity, issues: issues.filter(issue => issue.severity === severity) }))
+      .filter(group => group.issues.length > 0);
+  }
+
+  /**
+   * @param imageFiles - Every stored image (see listImageFiles), or null to skip file checks
+   */
+  private static checkBook(book: Book, collector: IssueCollector, imageFiles: Map<string, string | null> | null): void {
+    const bookLocation = { bookId: book.id, bookTitle: book.title };
+
+    if (book.defaultLayout) {
+      const problem = findLayoutProblem(book.defaultLayout);
+      if (problem) {
+        collector.add('invalid-layout', 'error', `Book default layout: ${problem}`, bookLocation, 'Remove the book default layout');
+      }
+    }
+
+    for (const character of book.characters) {
+      this.checkCharacter(character, bookLocation, collector, imageFiles);
+    }
+
+    const storySlugs = new Map<string, string>();
+    for (const story of book.stories) {
+      const storyLocation = { ...bookLocation, storyId: story.id, storyTitle: story.title };
+
+      if (story.title.trim()) {
+        const slug = SlugService.generateSlug(story.title, 'story');
+        const other = storySlugs.get(slug);
+        if (other) {
+          collector.add(
+            'duplicate-story-slug',
+            'info',
+            `Stories "${other}" and "${story.title}" share the file name "${slug}"; their files are numbered by story order`,
+            storyLocation,
+            'Rename the later story'
+          );
+        } else {
+          storySlugs.set(slug, story.title);
+        }
+      }
+
+      if (story.layout) {
+        const problem = findLayoutProblem(story.layout);
+        if (problem) {
+          collector.add('invalid-layout', 'error', `Story "${story.title}" layout: ${problem}`, storyLocation, 'Remove the story layout');
+        }
+      }
+
+      for (const character of story.characters) {
+        this.checkCharacter(character, storyLocation, collector, imageFiles);
+      }
+
+      for (const scene of story.scenes) {
+        const sceneLocation = { ...storyLocation, sceneId: scene.id, sceneTitle: scene.title };
+        const where = `Scene "${scene.title}" in "${story.title}"`;
+
+        this.checkReferences('character', scene.characters, [...story.characters, ...book.characters], where, sceneLocation, collector);
+        this.checkReferences('element', scene.elements, story.elements, where, sceneLocation, collector);
+
+        if (scene.layout) {
+          const problem = findLayoutProblem(scene.layout);
+          if (problem) {
+            collector.add('invalid-layout', 'error', `${where} layout: ${problem}`, sceneLocation, 'Remove the scene layout (it falls back to the story or book layout)');
+          }
+        }
+
+        if (imageFiles) {
+          for (const image of scene.imageHistory ?? []) {
+            if (!imageFiles.has(image.id)) {
+              collector.add(
+                'missing-image-file',
+                'warning',
+                `${where} has an image with no file on disk (${image.id})`,
+                { ...sceneLocation, imageId: image.id },
+                'Remove the image from the scene history'
+              );
+            }
+          }
+        }
+      }
+    }
+  }
+
+  private static checkCharacter(
+    character: Character,
+    location: IntegrityLocation,
+    collector: IssueCollector,
+    imageFiles: Map<string, string | null> | null
+  ): void {
+    const characterLocation = { ...location, characterName: character.name };
+    const gallery = character.imageGallery ?? [];
+
+    if (character.selectedImageId && !gallery.some(image => image.id === character.selectedImageId)) {
+      collector.add(
+        'stale-selected-image',
+        'warning',
+        `Character "${character.name}" selects an image that isn't in its gallery`,
+        characterLocation,
+        gallery.length > 0 ? 'Select the newest gallery image' : 'Clear the selection'
+      );
+    }
+
+    if (imageFiles) {
+      for (const image of gallery) {
+        if (!imageFiles.has(image.id)) {
+          collector.add(
+            'missing-image-file',
+            'warning',
+            `Character "${character.name}" has a gallery image with no file on disk (${image.id})`,
+            { ...characterLocation, imageId: image.id },
+            'Remove the image from the gallery'
+          );
+        }
+      }
+    }
+  }
+
+  private static checkReferences(
+    kind: 'character' | 'element',
+    references: string[],
+    available: Array<{ name: string }>,
+    where: string,
+    location: IntegrityLocation,
+    collector: IssueCollector
+  ): void {
+    const nameKey = kind === 'character' ? 'characterName' : 'elementName';
+    const seen = new Set<string>();
+
+    for (const name of references) {
+      const refLocation = { ...location, [nameKey]: name };
+
+      if (seen.has(name.toLowerCase())) {
+        collector.add('duplicate-scene-ref', 'info', `${where} lists ${kind} "${name}" more than once`, refLocation, 'Remove the duplicate');
+        continue;
+      }
+      seen.add(name.toLowerCase());
+
+      if (available.some(item => item.name === name)) continue;
+
+      const match = available.find(item => item.name.toLowerCase() === name.toLowerCase());
+      if (match) {
+        collector.add(
+          'reference-case-mismatch',
+          'warning',
+          `${where} refers to ${kind} "${name}", which is named "${match.name}"`,
+          refLocation,
+          `Change the reference to "${match.name}"`
+        );
+      } else {
+        collector.add(
+          kind === 'character' ? 'dangling-character-ref' : 'dangling-element-ref',
+          'error',
+          `${where} refers to ${kind} "${name}", which doesn't exist`,
+          refLocation,
+          `Remove "${name}" from the scene`
+        );
+      }
+    }
+  }
+
+  private static checkBookSlugs(books: Book[], collector: IssueCollector): void {
+    const firstBySlug = new Map<string, Book>();
+    for (const book of books) {
+      if (!book.title.trim()) continue;
+
+      const slug = SlugService.generateSlug(book.title, 'book');
+      const first = firstBySlug.get(slug);
+      if (first) {
+        collector.add(
+          'duplicate-book-slug',
+          'error',
+          `Books "${first.title}" and "${book.title}" are both saved to books/${slug} and overwrite each other's files`,
+          { bookId: book.id, bookTitle: book.title },
+          'Rename the later book'
+        );
+      } else {
+        firstBySlug.set(slug, book);
+      }
+    }
+  }
+
+  private static checkOrphanFiles(books: Book[], imageFiles: Map<string, string | null>, collector: IssueCollector): void {
+    const referenced = new Set<string>();
+    const addCharacter = (character: Character) => {
+      character.imageGallery?.forEach(image => referenced.add(image.id));
+      if (character.referenceImageId) referenced.add(character.referenceImageId);
+    };
+
+    for (const book of books) {
+      book.characters.forEach(addCharacter);
+      for (const story of book.stories) {
+        story.characters.forEach(addCharacter);
+        story.scenes.forEach(scene => scene.imageHistory?.forEach(image => {
+          referenced.add(image.id);
+          if (image.baseImageId) referenced.add(image.baseImageId);
+        }));
+      }
+    }
+
+    for (const [imageId, path] of imageFiles) {
+      if (referenced.has(imageId)) continue;
+
+      if (path === null) {
+        collector.add(
+          'orphan-image-file',
+          'info',
+          `Stored image ${imageId} isn't used by any book`,
+          { imageId },
+          'Move the image out of the image store'
+        );
+      } else if (ORPHAN_CHECK_DIRS.some(dir => path.startsWith(`${dir}/`))) {
+        collector.add(
+          'orphan-image-file',
+          'info',
+          `${path} isn't used by any book`,
+          { imageId, path },
+          'Move the file to removed-images'
+        );
+      }
+    }
+  }
+
+  /**
+   * Image ID → path of every PNG in the old image directories, or null for
+   * images in the image store (which are read first)
+   */
+  private static async listImageFiles(): Promise<Map<string, string | null>> {
+    const backend = FileSystemService.getBackend();
+    const files = new Map<string, string | null>();
+
+    for (const imageId of await ImageStoreService.listImageIds()) {
+      files.set(imageId, null);
+    }
+
+    // Root last: images are looked up in scenes/ and characters/ first
+    for (const dir of [...ORPHAN_CHECK_DIRS, CACHE_DIR]) {
+      const { files: names } = await backend.list(dir);
+      for (const name of names) {
+        if (name.endsWith('.png') && !files.has(name.slice(0, -4))) {
+          files.set(name.slice(0, -4), `${dir}/${name}`);
+        }
+      }
+    }
+    return files;
+  }
+
+  // ========================================
+  // Fixing
+  // ========================================
+
+  /**
+   * Apply the fixes of the given issues
+   *
+   * @param issues - Issues from checkAll (issues without a fix are ignored)
+   * @param options.dryRun - Work on copies and report what would change
+   */
+  static async applyFixes(issues: IntegrityIssue[], options: { dryRun?: boolean } = {}): Promise<IntegrityFixResult> {
+    const dryRun = options.dryRun ?? false;
+    const result: IntegrityFixResult = { dryRun, applied: [], skipped: [], bookChanges: [], deletedFiles: [] };
+    const fixable = issues.filter(issue => issue.fix);
+
+    // Book fixes, one book at a time
+    const bookIds = Array.from(new Set(fixable.map(issue => issue.location.bookId).filter((id): id is string => !!id)));
+    const allBooks = await StorageService.getAllBooks();
+    const usedBookSlugs = new Set(allBooks.map(book => SlugService.generateSlug(book.title, 'book')));
+
+    for (const bookId of bookIds) {
+      const original = await StorageService.getBook(bookId);
+      if (!original) {
+        fixable.filter(issue => issue.location.bookId === bookId).forEach(issue => result.skipped.push(issue.message));
+        continue;
+      }
+
+      const before = FileBasedStorageService.serializeBook(original);
+      if (!dryRun) {
+        await BookSnapshotService.createSnapshot(bookId, 'migration', 'Before integrity repair');
+      }
+
+      // Dry runs change a copy; real runs change the cached book so open editors stay in step
+      const book = dryRun ? await bookCache.deserializeBook(JSON.parse(JSON.stringify(original.toJSON()))) : original;
+      let changed = false;
+      for (const issue of fixable.filter(candidate => candidate.location.bookId === bookId)) {
+        if (this.applyBookFix(book, issue, usedBookSlugs)) {
+          result.applied.push(`${issue.fix} (${issue.message})`);
+          changed = true;
+        } else {
+          result.skipped.push(issue.message);
+        }
+      }
+      if (!changed) continue;
+
+      const after = FileBasedStorageService.serializeBook(book);
+      result.bookChanges.push({
+        bookId,
+        bookTitle: book.title,
+        diff: diffBookFiles(
+          { bookJson: before.bookJson, storyFiles: before.stories },
+          { bookJson: after.bookJson, storyFiles: after.stories }
+        )
+      });
+
+      if (!dryRun) {
+        await StorageService.saveBook(book);
+      }
+    }
+
+    // File fixes: the PNG (and metadata) is kept in removed-images, so a
+    // wrongly removed image can be copied back
+    for (const issue of fixable.filter(candidate => candidate.type === 'orphan-image-file')) {
+      const { path, imageId } = issue.location;
+      const label = path ?? `${imageId} (image store)`;
+      if (dryRun) {
+        result.deletedFiles.push(label);
+        result.applied.push(`${issue.fix} (${issue.message})`);
+        continue;
+      }
+
+      if (imageId && await this.moveOrphanImage(imageId, path)) {
+        result.deletedFiles.push(label);
+        result.applied.push(`${issue.fix} (${issue.message})`);
+      } else {
+        result.skipped.push(issue.message);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Move an orphaned image to prompter-cache/removed-images, from the image
+   * store (path undefined) or from its file in the old layout
+   * @returns false if the image is gone already
+   */
+  private static async moveOrphanImage(imageId: string, path?: string): Promise<boolean> {
+    const backend = FileSystemService.getBackend();
+    const bytes = path ? await backend.readBinary(path) : await ImageStoreService.readImage(imageId);
+    if (!bytes) return false;
+    await backend.writeBinary(`${REMOVED_IMAGES_DIR}/${imageId}.png`, bytes);
+
+    if (!path) {
+      // Drops the reference; the blob goes with the next image store garbage collection
+      return ImageStoreService.removeImage(imageId);
+    }
+
+    const metadataPath = path.replace(/\.png$/, '.json');
+    const metadata = await backend.readText(metadataPath);
+    if (metadata !== null) {
+      await backend.writeText(`${REMOVED_IMAGES_DIR}/${imageId}.json`, metadata);
+      await backend.delete(metadataPath);
+    }
+    return backend.delete(path);
+  }
+
+  /**
+   * Apply one book-level fix
+   * @returns false if the problem is no longer there
+   */
+  private static applyBookFix(book: Book, issue: IntegrityIssue, usedBookSlugs: Set<string>): boolean {
+    const { location } = issue;
+    const story = location.storyId ? book.stories.find(s => s.id === location.storyId) : undefined;
+    const scene = location.sceneId ? story?.scenes.find(s => s.id === location.sceneId) : undefined;
+    const characters = location.storyId ? story?.characters : book.characters;
+    const character = location.characterName !== undefined
+      ? characters?.find(c => c.name === location.characterName)
+      : undefined;
+
+    switch (issue.type) {
+      case 'dangling-character-ref':
+      case 'dangling-element-ref': {
+        if (!scene) return false;
+        const list = issue.type === 'dangling-character-ref' ? scene.characters : scene.elements;
+        const name = issue.type === 'dangling-character-ref' ? location.characterName : location.elementName;
+        const index = name === undefined ? -1 : list.indexOf(name);
+        if (index === -1) return false;
+        list.splice(index, 1);
+        return true;
+      }
+
+      case 'reference-case-mismatch': {
+        if (!scene || !story) return false;
+        const isCharacter = location.characterName !== undefined;
+        const name = (isCharacter ? location.characterName : location.elementName) ?? '';
+        const list = isCharacter ? scene.characters : scene.elements;
+        const available = isCharacter ? [...story.characters, ...book.characters] : story.elements;
+        const match = available.find(item => item.name.toLowerCase() === name.toLowerCase());
+        const index = list.indexOf(name);
+        if (!match || index === -1) return false;
+        list[index] = match.name;
+        return true;
+      }
+
+      case 'duplicate-scene-ref': {
+        if (!scene) return false;
+        const isCharacter = location.characterName !== undefined;
+        const list = isCharacter ? scene.characters : scene.elements;
+        const deduped = list.filter((name, i) => list.findIndex(other => other.toLowerCase() === name.toLowerCase()) === i);
+        if (deduped.length === list.length) return false;
+        list.splice(0, list.length, ...deduped);
+        return true;
+      }
+
+      case 'missing-image-file': {
+        if (scene) {
+          const before = scene.imageHistory?.length ?? 0;
+          scene.imageHistory = scene.imageHistory?.filter(image => image.id !== location.imageId);
+          return (scene.imageHistory?.length ?? 0) < before;
+        }
+        if (!character?.imageGallery?.some(image => image.id === location.imageId)) return false;
+        character.imageGallery = character.imageGallery.filter(image => image.id !== location.imageId);
+        if (character.selectedImageId === location.imageId) {
+          character.selectedImageId = character.imageGallery.at(-1)?.id;
+        }
+        return true;
+      }
+
+      case 'stale-selected-image': {
+        if (!character?.selectedImageId) return false;
+        if (character.imageGallery?.some(image => image.id === character.selectedImageId)) return false;
+        character.selectedImageId = character.imageGallery?.at(-1)?.id;
+        return true;
+      }
+
+      case 'invalid-layout': {
+        if (scene) {
+          if (!scene.layout) return false;
+          scene.layout = undefined;
+        } else if (story) {
+          if (!story.layout) return false;
+          story.layout = undefined;
+        } else {
+          if (!book.defaultLayout) return false;
+          book.defaultLayout = undefined;
+        }
+        return true;
+      }
+
+      case 'duplicate-story-slug': {
+        if (!story) return false;
+        const otherSlugs = new Set(
+          book.stories.filter(other => other !== story).map(other => SlugService.generateSlug(other.title, 'story'))
+        );
+        if (!otherSlugs.has(SlugService.generateSlug(story.title, 'story'))) return false;
+        story.title = uniqueTitle(story.title, otherSlugs, 'story');
+        return true;
+      }
+
+      case 'duplicate-book-slug': {
+        const title = uniqueTitle(book.title, usedBookSlugs, 'book');
+        usedBookSlugs.add(SlugService.generateSlug(title, 'book'));
+        book.title = title;
+        return true;
+      }
+
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * BookMergeService - Three-way merge of directory-format books
+ *
+ * Two people editing the same stories/*.json (or the app and a hand edit of
+ * the same file) rarely touch the same fields, but a line-based merge of the
+ * pretty-printed JSON conflicts anyway. This merges the saved book data
+ * against the common ancestor instead:
+ * - Objects are merged key by key, lists of scenes, images and stories item
+ *   by item (matched by id), characters and elements by name, and lists of
+ *   names (scene characters, avoid-lists) as sets
+ * - A change made on one side only is taken as is; reorderings on one side
+ *   are kept, and items added on either side stay in place
+ * - updatedAt takes the later of the two timestamps
+ * - A field edited differently on both sides, or an item deleted on one side
+ *   and edited on the other, is a conflict. The merged data keeps 'ours' for
+ *   it until applyResolutions picks 'theirs'; a deleted item picked that way
+ *   goes back to its position in the common ancestor.
+ *
+ * Besides types it only imports JsonService, which has no imports of its own,
+ * so merge-book-driver.ts can run it under plain Node as a git merge driver.
+ */
+
+import type { BookDirectoryFiles } from './FileBasedStorageService';
+import type {
+  BookMergeConflict,
+  BookMergeConflictFile,
+  MergePathSegment,
+  MergeResolutions
+} from '../types/BookMerge';
+import { JsonService } from './JsonService';
+
+/**
+ * File the git merge driver leaves its conflicts in, next to book.json
+ */
+export const MERGE_CONFLICTS_FILE = 'merge-conflicts.json';
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Saved book data as merged: book.json and the parsed story files
+ */
+export interface BookMergeData {
+  book: JsonObject;
+  stories: JsonObject[];
+}
+
+export interface BookMergeResult {
+  data: BookMergeData;
+  conflicts: BookMergeConflict[];
+}
+
+export interface BookFileMergeResult {
+  content: string;
+  conflicts: BookMergeConflict[];
+}
+
+/**
+ * How items of a list are matched between versions
+ */
+type ListMatch = 'id' | 'name' | 'value';
+
+// Names of list items in conflict locations
+const ITEM_LABELS: Record<string, string> = {
+  stories: 'Story',
+  chapters: 'chapter',
+  scenes: 'scene',
+  characters: 'character',
+  elements: 'element',
+  imageGallery: 'image',
+  imageHistory: 'image'
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+function listMatch(items: unknown[]): ListMatch | null {
+  if (items.every(item => typeof item === 'string')) return 'value';
+  if (items.every(item => isObject(item) && typeof item.id === 'string')) return 'id';
+  if (items.every(item => isObject(item) && typeof item.name === 'string')) return 'name';
+  return null;
+}
+
+function keyOf(item: unknown, match: ListMatch): string {
+  return match === 'value' ? String(item) : String((item as JsonObject)[match]);
+}
+
+function describeItem(field: string, item: unknown, key: string): string {
+  const label = ITEM_LABELS[field] ?? `${field} item`;
+  const name = isObject(item) ? item.title ?? item.name ?? key : key;
+  return `${label} "${String(name)}"`;
+}
+
+function conflictId(path: MergePathSegment[]): string {
+  return path.map(segment => typeof segment === 'string' ? segment : `[${segment.match}=${segment.value}]`).join('/');
+}
+
+/**
+ * The later of two saved timestamps
+ */
+function later(a: unknown, b: unknown): unknown {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Date.parse(String(b)) > Date.parse(String(a)) ? b : a;
+}
+
+/**
+ * Order of a merged list: the order of the side that reordered it (ours if
+ * both did), with the other side's additions after their predecessor
+ */
+function orderKeys(base: string[], ours: string[], theirs: string[], kept: Set<string>): string[] {
+  const reordered = (side: string[]) =>
+    !JsonService.equal(base.filter(key => side.includes(key)), side.filter(key => base.includes(key)));
+  const [primary, secondary] = reordered(theirs) && !reordered(ours) ? [theirs, ours] : [ours, theirs];
+
+  const order = primary.filter(key => kept.has(key));
+  secondary.forEach((key, index) => {
+    if (!kept.has(key) || order.includes(key)) return;
+    let at = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const position = order.indexOf(secondary[i]);
+      if (position >= 0) {
+        at = position + 1;
+        break;
+      }
+    }
+    order.splice(at, 0, key);
+  });
+  return order;
+}
+
+class Merger {
+  conflicts: BookMergeConflict[] = [];
+
+  value(base: unknown, ours: unknown, theirs: unknown, path: MergePathSegment[], location: string[]): unknown {
+    if (JsonService.equal(ours, theirs)) return ours;
+    if (JsonService.equal(base, ours)) return theirs;
+    if (JsonService.equal(base, theirs)) return ours;
+
+    if (isObject(ours) && isObject(theirs) && (base === undefined || isObject(base))) {
+      return this.object(base, ours, theirs, path, location);
+    }
+    if (Array.isArray(ours) && Array.isArray(theirs) && (base === undefined || Array.isArray(base))) {
+      const baseItems: unknown[] = base ?? [];
+      const match = listMatch([...baseItems, ...ours, ...theirs]);
+      if (match) {
+        return this.list(baseItems, ours, theirs, match, path, location);
+      }
+    }
+
+    this.conflict(path, location, this.fieldName(path), base, ours, theirs);
+    return ours;
+  }
+
+  private object(base: JsonObject | undefined, ours: JsonObject, theirs: JsonObject, path: MergePathSegment[], location: string[]): JsonObject {
+    const merged: JsonObject = {};
+    const keys = [...Object.keys(ours), ...Object.keys(theirs).filter(key => !(key in ours))];
+    for (const key of keys) {
+      const value = key === 'updatedAt'
+        ? later(ours[key], theirs[key])
+        : this.value(base?.[key], ours[key], theirs[key], [...path, key], location);
+      if (value !== undefined) {
+        merged[key] = value;
+      }
+    }
+    return merged;
+  }
+
+  private list(base: unknown[], ours: unknown[], theirs: unknown[], match: ListMatch, path: MergePathSegment[], location: string[]): unknown[] {
+    const field = String(path[path.length - 1]);
+    const byKey = (items: unknown[]) => new Map(items.map(item => [keyOf(item, match), item]));
+    const [baseByKey, oursByKey, theirsByKey] = [byKey(base), byKey(ours), byKey(theirs)];
+
+    const merged = new Map<string, unknown>();
+    for (const key of new Set([...oursByKey.keys(), ...theirsByKey.keys()])) {
+      const [b, o, t] = [baseByKey.get(key), oursByKey.get(key), theirsByKey.get(key)];
+      const itemLocation = [...location, describeItem(field, o ?? t, key)];
+
+      if (o === undefined || t === undefined) {
+        const present = o ?? t;
+        // Added on one side, or deleted on one side and untouched on the other
+        if (b === undefined) merged.set(key, present);
+        if (b === undefined || JsonService.equal(b, present) || match === 'value') continue;
+
+        // Deleted on one side, edited on the other
+        const itemPath = [...path, { match, value: key }];
+        const index = base.findIndex(item => keyOf(item, match) === key);
+        this.conflict(itemPath, itemLocation, (ITEM_LABELS[field] ?? field).toLowerCase(), b, o, t, index);
+        if (o !== undefined) merged.set(key, o);
+        continue;
+      }
+
+      merged.set(key, match === 'value' ? o : this.value(b, o, t, [...path, { match, value: key }], itemLocation));
+    }
+
+    const keys = (items: unknown[]) => items.map(item => keyOf(item, match));
+    return orderKeys(keys(base), keys(ours), keys(theirs), new Set(merged.keys())).map(key => merged.get(key));
+  }
+
+  /**
+   * Dotted field path below the nearest list item (or the root), e.g. 'layout.canvas.width'
+   */
+  private fieldName(path: MergePathSegment[]): string {
+    const fields: string[] = [];
+    for (let i = path.length - 1; i > 0 && typeof path[i] === 'string'; i--) {
+      fields.unshift(path[i] as string);
+    }
+    return fields.join('.');
+  }
+
+  private conflict(path: MergePathSegment[], location: string[], field: string, base: unknown, ours: unknown, theirs: unknown, index?: number): void {
+    this.conflicts.push({
+      id: conflictId(path),
+      location: location.join(' › '),
+      field,
+      path,
+      ...(base !== undefined ? { base } : {}),
+      ...(ours !== undefined ? { ours } : {}),
+      ...(theirs !== undefined ? { theirs } : {}),
+      ...(index !== undefined ? { index } : {})
+    });
+  }
+}
+
+function getAtPath(root: unknown, path: MergePathSegment[]): unknown {
+  let current = root;
+  for (const segment of path) {
+    if (typeof segment === 'string') {
+      current = isObject(current) ? current[segment] : undefined;
+    } else {
+      current = Array.isArray(current)
+        ? current.find(item => isObject(item) && item[segment.match] === segment.value)
+        : undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * @param index - Where to insert a list item that isn't there (the end if omitted)
+ */
+function setAtPath(root: unknown, path: MergePathSegment[], value: unknown, index?: number): boolean {
+  const parent = getAtPath(root, path.slice(0, -1));
+  const last = path[path.length - 1];
+
+  if (typeof last === 'string') {
+    if (!isObject(parent)) return false;
+    if (value === undefined) {
+      delete parent[last];
+    } else {
+      parent[last] = value;
+    }
+    return true;
+  }
+
+  if (!Array.isArray(parent)) return false;
+  const current = parent.findIndex(item => isObject(item) && item[last.match] === last.value);
+  if (value === undefined) {
+    if (current >= 0) parent.splice(current, 1);
+  } else if (current >= 0) {
+    parent[current] = value;
+  } else {
+    parent.splice(Math.min(index ?? parent.length, parent.length), 0, value);
+  }
+  return true;
+}
+
+export class BookMergeService {
+  /**
+   * Merge two versions of a whole book with their common ancestor
+   *
+   * @param base - Common ancestor, or null if there is none (both sides added the book)
+   * @param ours - Our version (the app's, or the checked-out branch)
+   * @param theirs - Their version (on disk, or the branch being merged)
+   * @returns Merged data (keeping ours where in conflict) and the conflicts
+   * @throws If a file doesn't parse as JSON
+   */
+  static mergeBooks(base: BookDirectoryFiles | null, ours: BookDirectoryFiles, theirs: BookDirectoryFiles): BookMergeResult {
+    const [b, o, t] = [base && this.parseFiles(base), this.parseFiles(ours), this.parseFiles(theirs)];
+    const merger = new Merger();
+
+    const book = merger.value(b?.book, o.book, t.book, ['book'], ['Book']);
+    const stories = merger.value(b?.stories ?? [], o.stories, t.stories, ['stories'], []);
+
+    return {
+      data: { book: isObject(book) ? book : o.book, stories: Array.isArray(stories) ? stories.filter(isObject) : o.stories },
+      conflicts: merger.conflicts
+    };
+  }
+
+  /**
+   * Merge one book file, as a git merge driver does
+   *
+   * @param base - Common ancestor's content, or null/empty if the file is new on both sides
+   * @param ours - Our content
+   * @param theirs - Their content
+   * @param kind - book.json or a story file
+   * @returns Merged content (pretty-printed like saves) and the conflicts
+   * @throws If a file doesn't parse as JSON
+   */
+  static mergeFile(base: string | null, ours: string, theirs: string, kind: 'book' | 'story'): BookFileMergeResult {
+    const b: unknown = base?.trim() ? JSON.parse(base) : undefined;
+    const o: unknown = JSON.parse(ours);
+    const t: unknown = JSON.parse(theirs);
+    const merger = new Merger();
+
+    let merged: unknown;
+    if (kind === 'book') {
+      merged = merger.value(b, o, t, ['book'], ['Book']);
+    } else {
+      const story = isObject(o) ? o : {};
+      const key = String(story.id);
+      merged = merger.value(b, o, t, ['stories', { match: 'id', value: key }], [describeItem('stories', story, key)]);
+    }
+    return { content: JSON.stringify(merged, null, 2), conflicts: merger.conflicts };
+  }
+
+  /**
+   * Apply 'theirs' to the conflicts resolved that way. Conflicts whose value
+   * no longer matches what the merge left (edited since) are skipped.
+   *
+   * @param data - Merged data, changed in place
+   * @returns Number of conflicts applied
+   */
+  static applyResolutions(data: BookMergeData, conflicts: BookMergeConflict[], resolutions: MergeResolutions): number {
+    let applied = 0;
+    for (const conflict of this.openConflicts(data, conflicts)) {
+      if (resolutions[conflict.id] === 'theirs' && setAtPath(data, conflict.path, conflict.theirs, conflict.index)) {
+        applied++;
+      }
+    }
+    return applied;
+  }
+
+  /**
+   * Conflicts still holding the value the merge left, i.e. not yet resolved
+   * by hand
+   */
+  static openConflicts(data: BookMergeData, conflicts: BookMergeConflict[]): BookMergeConflict[] {
+    return conflicts.filter(conflict => JsonService.equal(getAtPath(data, conflict.path), conflict.ours));
+  }
+
+  static parseFiles(files: BookDirectoryFiles): BookMergeData {
+    return {
+      book: JSON.parse(files.bookJson),
+      stories: files.stories.map(story => JSON.parse(story.content))
+    };
+  }
+
+  /**
+   * Parse merge-conflicts.json; conflicts of the same path are replaced by
+   * later ones when the driver adds to it
+   */
+  static parseConflictFile(content: string | null): BookMergeConflict[] {
+    if (!content) return [];
+    try {
+      const parsed: Partial<BookMergeConflictFile> = JSON.parse(content);
+      return Array.isArray(parsed.conflicts) ? parsed.conflicts : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static serializeConflictFile(conflicts: BookMergeConflict[]): string {
+    const byId = new Map(conflicts.map(conflict => [conflict.id, conflict]));
+    const file: BookMergeConflictFile = { version: 1, conflicts: [...byId.values()] };
+    return JSON.stringify(file, null, 2);
+  }
+}
@@ -3,6 +3,7 @@ import { Story, type Character } from '../models/Story';
 import { StorageService } from './StorageService';
 import type { StoryData, SceneLayout } from '../types/Story';
 import type { PanelConfig } from '../types/Book';
+import type { PromptTemplates } from '../types/PromptTemplate';
 import { ImageStorageService } from './ImageStorageService';
 
 /**
@@ -71,6 +72,7 @@ export class BookService {
     aspectRatio: string;
     panelConfig: PanelConfig;
     defaultLayout: SceneLayout | undefined;
+    promptTemplates: PromptTemplates | undefined;
   }>): Promise<Book | null> {
     const book = await StorageService.getBook(bookId);
     if (!book) return null;
@@ -86,6 +88,9 @@ export class BookService {
     if ('defaultLayout' in updates) {
       book.defaultLayout = updates.defaultLayout;
     }
+    if ('promptTemplates' in updates) {
+      book.promptTemplates = updates.promptTemplates;
+    }
 
     // Validate before saving
     const validation = book.validate();
@@ -151,13 +156,18 @@ export class BookService {
         backgroundSetup: story.backgroundSetup,
         diagramStyle: story.diagramStyle, // Include diagram style
         layout: story.layout, // NEW: Include story-level layout
+        avoid: story.avoid,
+        chapters: story.chapters,
         scenes: story.scenes.map(scene => ({
           id: scene.id,
           title: scene.title,
           description: scene.description,
+          chapterId: scene.chapterId,
           textPanel: scene.textPanel,
           diagramPanel: scene.diagramPanel, // Include diagram panel
           layout: scene.layout, // Include scene-specific layout configuration
+          avoid: scene.avoid,
+          slideshow: scene.slideshow,
           characters: scene.characters || [],
           elements: scene.elements || [],
           characterIds: scene.characters || [], // DEPRECATED: for backward compat
@@ -233,6 +243,8 @@ export class BookService {
         backgroundSetup: storyData.backgroundSetup,
         diagramStyle: storyData.diagramStyle, // Include diagram style
         layout: storyData.layout, // Include story-level layout
+        avoid: storyData.avoid,
+        chapters: storyData.chapters,
         characters: storyData.characters || [],
         elements: storyData.elements || [],
         scenes: sceneInstances,
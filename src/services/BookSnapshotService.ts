@@ -0,0 +1,622 @@
+/**
+ * BookSnapshotService - Point-in-time copies of directory-format books
+ *
+ * Undo history only covers recent edits made in this app. Snapshots keep the
+ * exact book.json and stories/*.json a book is saved as, so a whole book or a
+ * single story can be brought back from any earlier point.
+ *
+ * Features:
+ * - Scheduled snapshots of every book (interval from SettingsService, skipped
+ *   when a book hasn't changed since its last snapshot)
+ * - Snapshots before destructive operations (story import, story deletion,
+ *   migrations and repairs from the Operations panel, restores)
+ * - The newest MAX_SNAPSHOTS_PER_BOOK snapshots are kept; snapshots taken
+ *   before a story deletion or import are kept until they are deleted
+ * - Change lists between two snapshots, or a snapshot and the current book
+ * - Restore of a whole book or a single story; the current state is
+ *   snapshotted first and the restore goes through StorageService, so it can
+ *   also be undone
+ *
+ * Storage layout:
+ * prompter-cache/snapshots/{bookId}/
+ *   ├── index.json          (snapshot list, newest first)
+ *   └── {snapshotId}.json   (one file per snapshot)
+ */
+
+import type { Book } from '../models/Book';
+import type {
+  BookSnapshotDiff,
+  BookSnapshotFile,
+  BookSnapshotIndex,
+  BookSnapshotInfo,
+  BookSnapshotReason,
+  StorySnapshotDiff
+} from '../types/BookSnapshot';
+import { FileSystemService } from './FileSystemService';
+import { FileBasedStorageService, type BookDirectoryFiles } from './FileBasedStorageService';
+import { StorageService } from './StorageService';
+import { SettingsService } from './SettingsService';
+import { bookCache } from './BookCache';
+import { JsonService } from './JsonService';
+
+const SNAPSHOTS_DIR = 'prompter-cache/snapshots';
+export const MAX_SNAPSHOTS_PER_BOOK = 30;
+
+// The story deletion and import prompts point to these to get data back, so
+// they are always taken and never rotated out
+const PINNED_REASONS: ReadonlySet<BookSnapshotReason> = new Set<BookSnapshotReason>(['story-delete', 'import']);
+
+/**
+ * The parts of saved book/story JSON that diffs look at
+ */
+interface NamedItemData {
+  name: string;
+}
+
+interface SceneData {
+  id: string;
+  title: string;
+}
+
+interface ChapterData {
+  id: string;
+  title: string;
+}
+
+interface StoryData {
+  id: string;
+  title: string;
+  description?: string;
+  backgroundSetup?: string;
+  diagramStyle?: unknown;
+  layout?: unknown;
+  avoid?: unknown;
+  characters?: NamedItemData[];
+  elements?: NamedItemData[];
+  chapters?: ChapterData[];
+  scenes?: SceneData[];
+}
+
+interface BookData {
+  title: string;
+  description?: string;
+  backgroundSetup?: string;
+  aspectRatio?: string;
+  style?: unknown;
+  defaultLayout?: unknown;
+  promptTemplates?: unknown;
+  characters?: NamedItemData[];
+}
+
+interface ParsedBookFiles {
+  book: BookData & Record<string, unknown>;
+  stories: Array<StoryData & Record<string, unknown>>;
+}
+
+function parseFiles(files: Pick<BookSnapshotFile, 'bookJson' | 'storyFiles'>): ParsedBookFiles {
+  return {
+    book: JSON.parse(files.bookJson),
+    stories: files.storyFiles.map(file => JSON.parse(file.content))
+  };
+}
+
+/**
+ * List added, removed and edited items of a list keyed by name or id
+ */
+function diffList<T>(
+  kind: string,
+  before: T[] = [],
+  after: T[] = [],
+  keyOf: (item: T) => string,
+  nameOf: (item: T) => string
+): string[] {
+  const changes: string[] = [];
+  const beforeByKey = new Map(before.map(item => [keyOf(item), item]));
+  const afterKeys = new Set(after.map(keyOf));
+
+  for (const item of after) {
+    const previous = beforeByKey.get(keyOf(item));
+    if (!previous) {
+      changes.push(`${kind} "${nameOf(item)}" added`);
+    } else if (nameOf(previous) !== nameOf(item)) {
+      changes.push(`${kind} "${nameOf(previous)}" renamed to "${nameOf(item)}"`);
+    } else if (!JsonService.equal(previous, item)) {
+      changes.push(`${kind} "${nameOf(item)}" edited`);
+    }
+  }
+  for (const item of before) {
+    if (!afterKeys.has(keyOf(item))) {
+      changes.push(`${kind} "${nameOf(item)}" removed`);
+    }
+  }
+
+  const commonBefore = before.map(keyOf).filter(key => afterKeys.has(key));
+  const commonAfter = after.map(keyOf).filter(key => beforeByKey.has(key));
+  if (!JsonService.equal(commonBefore, commonAfter)) {
+    changes.push(`${kind}s reordered`);
+  }
+  return changes;
+}
+
+function diffStory(before: StoryData, after: StoryData): string[] {
+  const changes: string[] = [];
+  if (before.title !== after.title) changes.push(`Renamed from "${before.title}"`);
+  if (before.description !== after.description) changes.push('Description edited');
+  if (before.backgroundSetup !== after.backgroundSetup) changes.push('Background setup edited');
+  if (!JsonService.equal(before.layout, after.layout)) changes.push('Layout changed');
+  if (!JsonService.equal(before.diagramStyle, after.diagramStyle)) changes.push('Diagram style changed');
+  if (!JsonService.equal(before.avoid, after.avoid)) changes.push('Avoid list changed');
+
+  const byName = (item: NamedItemData) => item.name;
+  changes.push(...diffList('Character', before.characters, after.characters, byName, byName));
+  changes.push(...diffList('Element', before.elements, after.elements, byName, byName));
+  changes.push(...diffList('Chapter', before.chapters, after.chapters, chapter => chapter.id, chapter => chapter.title));
+  changes.push(...diffList('Scene', before.scenes, after.scenes, scene => scene.id, scene => scene.title));
+  return changes;
+}
+
+/**
+ * Compare two saved states of a book (older first)
+ */
+export function diffBookFiles(
+  before: Pick<BookSnapshotFile, 'bookJson' | 'storyFiles'>,
+  after: Pick<BookSnapshotFile, 'bookJson' | 'storyFiles'>
+): BookSnapshotDiff {
+  const older = parseFiles(before);
+  const newer = parseFiles(after);
+
+  const bookChanges: string[] = [];
+  if (older.book.title !== newer.book.title) bookChanges.push(`Book renamed from "${older.book.title}" to "${newer.book.title}"`);
+  if (older.book.description !== newer.book.description) bookChanges.push('Book description edited');
+  if (older.book.backgroundSetup !== newer.book.backgroundSetup) bookChanges.push('Book background setup edited');
+  if (older.book.aspectRatio !== newer.book.aspectRatio) bookChanges.push('Aspect ratio changed');
+  if (!JsonService.equal(older.book.style, newer.book.style)) bookChanges.push('Book style changed');
+  if (!JsonService.equal(older.book.defaultLayout, newer.book.defaultLayout)) bookChanges.push('Default layout changed');
+  if (!JsonService.equal(older.book.promptTemplates, newer.book.promptTemplates)) bookChanges.push('Prompt templates changed');
+  const byName = (item: NamedItemData) => item.name;
+  bookChanges.push(...diffList('Book character', older.book.characters, newer.book.characters, byName, byName));
+
+  const olderById = new Map(older.stories.map(story => [story.id, story]));
+  const newerIds = new Set(newer.stories.map(story => story.id));
+  const stories: StorySnapshotDiff[] = [];
+
+  for (const story of newer.stories) {
+    const previous = olderById.get(story.id);
+    if (!previous) {
+      stories.push({ storyId: story.id, title: story.title, status: 'added', changes: [] });
+      continue;
+    }
+    const changes = diffStory(previous, story);
+    stories.push({
+      storyId: story.id,
+      title: story.title,
+      // Timestamps alone don't count as a change
+      status: changes.length > 0 ? 'modified' : 'unchanged',
+      changes
+    });
+  }
+  for (const story of older.stories) {
+    if (!newerIds.has(story.id)) {
+      stories.push({ storyId: story.id, title: story.title, status: 'removed', changes: [] });
+    }
+  }
+
+  return { bookChanges, stories };
+}
+
+export class BookSnapshotService {
+  private static autoSnapshotTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Content of each book's latest snapshot, to skip unchanged scheduled snapshots
+  private static latestContent: Map<string, string> = new Map();
+
+  // ========================================
+  // Taking Snapshots
+  // ========================================
+
+  /**
+   * Snapshot a book as it is currently saved
+   *
+   * @param bookId - Book to snapshot
+   * @param reason - Why the snapshot is taken
+   * @param label - Optional context shown in the snapshot browser
+   * @returns The new snapshot, the latest snapshot if the book is unchanged
+   *          since (manual snapshots are always taken), or null if the book
+   *          doesn't exist or no save directory is configured
+   */
+  static async createSnapshot(bookId: string, reason: BookSnapshotReason, label?: string): Promise<BookSnapshotInfo | null> {
+    if (!await FileSystemService.isConfigured()) {
+      return null;
+    }
+
+    const book = await StorageService.getBook(bookId);
+    if (!book) {
+      return null;
+    }
+
+    return this.storeSnapshot(bookId, FileBasedStorageService.serializeBook(book), reason, label);
+  }
+
+  /**
+   * Snapshot book files other than the book as it is saved, e.g. a version
+   * found on disk that is about to be overwritten
+   *
+   * @param bookId - Book the files belong to
+   * @param files - book.json and story file contents
+   * @param reason - Why the snapshot is taken
+   * @param label - Optional context shown in the snapshot browser
+   */
+  static async storeSnapshot(
+    bookId: string,
+    files: BookDirectoryFiles,
+    reason: BookSnapshotReason,
+    label?: string
+  ): Promise<BookSnapshotInfo> {
+    const parsed = parseFiles({ bookJson: files.bookJson, storyFiles: files.stories });
+    const content = this.getContentKey(files);
+    const snapshots = await this.listSnapshots(bookId);
+
+    const alwaysTaken = reason === 'manual' || PINNED_REASONS.has(reason);
+    if (!alwaysTaken && snapshots.length > 0 && content === await this.getLatestContent(bookId, snapshots[0].id)) {
+      return snapshots[0];
+    }
+
+    const createdAt = new Date();
+    const info: BookSnapshotInfo = {
+      id: this.generateSnapshotId(createdAt, snapshots),
+      bookId,
+      bookTitle: parsed.book.title,
+      createdAt,
+      reason,
+      ...(label ? { label } : {}),
+      stories: parsed.stories.map(story => ({ id: story.id, title: story.title }))
+    };
+    const file: BookSnapshotFile = {
+      ...info,
+      version: 1,
+      bookJson: files.bookJson,
+      storyFiles: files.stories
+    };
+
+    const result = await FileSystemService.writeTextFile(this.getSnapshotPath(bookId, info.id), JSON.stringify(file));
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to write snapshot');
+    }
+    this.latestContent.set(bookId, content);
+
+    // Newest first; the oldest unpinned snapshots beyond the limit are dropped
+    const all = [info, ...snapshots];
+    const dropped = new Set(all
+      .filter(snapshot => !PINNED_REASONS.has(snapshot.reason))
+      .slice(MAX_SNAPSHOTS_PER_BOOK)
+      .map(snapshot => snapshot.id));
+    await this.writeIndex(bookId, all.filter(snapshot => !dropped.has(snapshot.id)));
+    for (const id of dropped) {
+      await FileSystemService.deleteFile(this.getSnapshotPath(bookId, id));
+    }
+
+    console.log(`📸 Snapshot of "${info.bookTitle}" (${reason}): ${info.id}`);
+    return info;
+  }
+
+  /**
+   * Snapshot every book (scheduled snapshots, Operations panel migrations)
+   * @returns Number of books snapshotted
+   */
+  static async snapshotAllBooks(reason: BookSnapshotReason, label?: string): Promise<number> {
+    const books = await StorageService.getAllBooks();
+    let count = 0;
+    for (const book of books) {
+      try {
+        if (await this.createSnapshot(book.id, reason, label)) {
+          count++;
+        }
+      } catch (error) {
+        console.warn(`Failed to snapshot book ${book.id}:`, error);
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Start (or restart with the current setting) scheduled snapshots
+   */
+  static async startAutoSnapshots(): Promise<void> {
+    this.stopAutoSnapshots();
+
+    const minutes = await SettingsService.getSnapshotIntervalMinutes();
+    if (minutes <= 0) {
+      return;
+    }
+
+    this.autoSnapshotTimer = setInterval(() => {
+      this.snapshotAllBooks('scheduled').catch(error => {
+        console.warn('Scheduled snapshot failed:', error);
+      });
+    }, minutes * 60 * 1000);
+  }
+
+  static stopAutoSnapshots(): void {
+    if (this.autoSnapshotTimer) {
+      clearInterval(this.autoSnapshotTimer);
+      this.autoSnapshotTimer = null;
+    }
+  }
+
+  // ========================================
+  // Browsing
+  // ========================================
+
+  /**
+   * List a book's snapshots, newest first. A missing or unreadable index is
+   * rebuilt from the snapshot files, so the next snapshot can't write an
+   * index that hides the earlier ones.
+   */
+  static async listSnapshots(bookId: string): Promise<BookSnapshotInfo[]> {
+    const content = await FileSystemService.readTextFile(this.getIndexPath(bookId));
+    if (!content) {
+      return this.rebuildIndex(bookId);
+    }
+
+    try {
+      const index = JSON.parse(content) as BookSnapshotIndex;
+      if (!Array.isArray(index.snapshots)) {
+        throw new Error('unknown format');
+      }
+      return index.snapshots.map(info => ({ ...info, createdAt: new Date(info.createdAt) }));
+    } catch (error) {
+      console.error(`Snapshot index of book ${bookId} is unreadable, rebuilding it:`, error);
+      return this.rebuildIndex(bookId);
+    }
+  }
+
+  /**
+   * Recreate a book's snapshot index from its {snapshotId}.json files
+   * @throws If the rebuilt index can't be written
+   */
+  private static async rebuildIndex(bookId: string): Promise<BookSnapshotInfo[]> {
+    const { files } = await FileSystemService.getBackend().list(`${SNAPSHOTS_DIR}/${bookId}`);
+    const snapshots: BookSnapshotInfo[] = [];
+
+    for (const fileName of files.filter(name => name.endsWith('.json') && name !== 'index.json')) {
+      try {
+        const snapshot = await this.loadSnapshot(bookId, fileName.slice(0, -'.json'.length));
+        if (!snapshot) continue;
+        const { id, bookTitle, createdAt, reason, label, stories } = snapshot;
+        snapshots.push({ id, bookId, bookTitle, createdAt, reason, ...(label ? { label } : {}), stories });
+      } catch (error) {
+        // Left on disk, but can't be listed or restored
+        console.error(`Snapshot ${fileName} of book ${bookId} is unreadable:`, error);
+      }
+    }
+    if (snapshots.length === 0) {
+      return [];
+    }
+
+    snapshots.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id.localeCompare(a.id));
+    await this.writeIndex(bookId, snapshots);
+    console.log(`📸 Rebuilt the snapshot index of book ${bookId} (${snapshots.length} snapshot(s))`);
+    return snapshots;
+  }
+
+  /**
+   * Delete a snapshot
+   * @returns false if the book has no such snapshot
+   */
+  static async deleteSnapshot(bookId: string, snapshotId: string): Promise<boolean> {
+    const snapshots = await this.listSnapshots(bookId);
+    if (!snapshots.some(info => info.id === snapshotId)) {
+      return false;
+    }
+
+    await this.writeIndex(bookId, snapshots.filter(info => info.id !== snapshotId));
+    await FileSystemService.deleteFile(this.getSnapshotPath(bookId, snapshotId));
+    if (snapshots[0].id === snapshotId) {
+      this.latestContent.delete(bookId);
+    }
+    return true;
+  }
+
+  /**
+   * Delete the snapshots of every book except the newest keepPerBook of each,
+   * pinned ones included (e.g. to free the images only snapshots still use)
+   * @returns Number of snapshots deleted
+   */
+  static async pruneSnapshots(keepPerBook: number = 0): Promise<number> {
+    const { directories } = await FileSystemService.getBackend().list(SNAPSHOTS_DIR);
+    let deleted = 0;
+    for (const bookId of directories) {
+      const snapshots = await this.listSnapshots(bookId);
+      for (const info of snapshots.slice(Math.max(0, keepPerBook))) {
+        if (await this.deleteSnapshot(bookId, info.id)) deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Load a snapshot with its files
+   */
+  static async loadSnapshot(bookId: string, snapshotId: string): Promise<BookSnapshotFile | null> {
+    const content = await FileSystemService.readTextFile(this.getSnapshotPath(bookId, snapshotId));
+    if (!content) {
+      return null;
+    }
+
+    const file = JSON.parse(content) as BookSnapshotFile;
+    return { ...file, createdAt: new Date(file.createdAt) };
+  }
+
+  /**
+   * Every snapshot of every book as a Book, e.g. to find the images a restore
+   * would need. Reads the snapshot files themselves, not the indexes.
+   *
+   * @throws If a snapshot file can't be read
+   */
+  static async loadAllSnapshotBooks(): Promise<Book[]> {
+    const backend = FileSystemService.getBackend();
+    const { directories } = await backend.list(SNAPSHOTS_DIR);
+    const books: Book[] = [];
+
+    for (const bookId of directories) {
+      const { files } = await backend.list(`${SNAPSHOTS_DIR}/${bookId}`);
+      for (const fileName of files.filter(name => name.endsWith('.json') && name !== 'index.json')) {
+        try {
+          const snapshot = await this.loadSnapshot(bookId, fileName.slice(0, -'.json'.length));
+          if (!snapshot) continue;
+          const parsed = parseFiles(snapshot);
+          books.push(await bookCache.deserializeBook({ ...parsed.book, stories: parsed.stories }));
+        } catch (error) {
+          throw new Error(`Snapshot ${SNAPSHOTS_DIR}/${bookId}/${fileName} is unreadable: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+    return books;
+  }
+
+  /**
+   * List what changed from one snapshot to another
+   *
+   * @param fromId - Older snapshot
+   * @param toId - Newer snapshot, or 'current' for the book as it is now
+   */
+  static async diffSnapshots(bookId: string, fromId: string, toId: string | 'current'): Promise<BookSnapshotDiff> {
+    const from = await this.loadSnapshot(bookId, fromId);
+    if (!from) {
+      throw new Error(`Snapshot ${fromId} not found`);
+    }
+
+    let to: Pick<BookSnapshotFile, 'bookJson' | 'storyFiles'> | null;
+    if (toId === 'current') {
+      const book = await StorageService.getBook(bookId);
+      if (!book) {
+        throw new Error(`Book ${bookId} not found`);
+      }
+      const files = FileBasedStorageService.serializeBook(book);
+      to = { bookJson: files.bookJson, storyFiles: files.stories };
+    } else {
+      to = await this.loadSnapshot(bookId, toId);
+      if (!to) {
+        throw new Error(`Snapshot ${toId} not found`);
+      }
+    }
+
+    return diffBookFiles(from, to);
+  }
+
+  // ========================================
+  // Restoring
+  // ========================================
+
+  /**
+   * Replace a book with its state in a snapshot
+   * @returns The restored book
+   */
+  static async restoreBook(bookId: string, snapshotId: string): Promise<Book> {
+    const snapshot = await this.loadSnapshot(bookId, snapshotId);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${snapshotId} not found`);
+    }
+
+    await this.createSnapshot(bookId, 'restore', `Before restoring snapshot of ${snapshot.createdAt.toLocaleString()}`);
+
+    const parsed = parseFiles(snapshot);
+    const book = await bookCache.deserializeBook({ ...parsed.book, stories: parsed.stories });
+    await StorageService.saveBook(book);
+    return book;
+  }
+
+  /**
+   * Replace one story with its state in a snapshot; a story deleted since is
+   * added back at its old position
+   * @returns The updated book
+   */
+  static async restoreStory(bookId: string, snapshotId: string, storyId: string): Promise<Book> {
+    const snapshot = await this.loadSnapshot(bookId, snapshotId);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${snapshotId} not found`);
+    }
+
+    const parsed = parseFiles(snapshot);
+    const storyIndex = parsed.stories.findIndex(story => story.id === storyId);
+    if (storyIndex === -1) {
+      throw new Error(`Story ${storyId} is not in snapshot ${snapshotId}`);
+    }
+
+    const book = await StorageService.getBook(bookId);
+    if (!book) {
+      throw new Error(`Book ${bookId} not found`);
+    }
+
+    const storyData = parsed.stories[storyIndex];
+    await this.createSnapshot(bookId, 'restore', `Before restoring story "${storyData.title}"`);
+
+    // Reuse the book deserializer to rebuild Story/Scene models
+    const [story] = (await bookCache.deserializeBook({ ...parsed.book, stories: [storyData] })).stories;
+    const currentIndex = book.stories.findIndex(existing => existing.id === storyId);
+    if (currentIndex === -1) {
+      book.stories.splice(Math.min(storyIndex, book.stories.length), 0, story);
+    } else {
+      book.stories[currentIndex] = story;
+    }
+
+    await StorageService.saveBook(book);
+    return book;
+  }
+
+  // ========================================
+  // Helpers
+  // ========================================
+
+  private static getContentKey(files: BookDirectoryFiles): string {
+    return JSON.stringify(files);
+  }
+
+  private static async getLatestContent(bookId: string, latestId: string): Promise<string | null> {
+    if (!this.latestContent.has(bookId)) {
+      const latest = await this.loadSnapshot(bookId, latestId);
+      if (!latest) {
+        return null;
+      }
+      this.latestContent.set(bookId, this.getContentKey({ bookJson: latest.bookJson, stories: latest.storyFiles }));
+    }
+    return this.latestContent.get(bookId) ?? null;
+  }
+
+  /**
+   * File-name-safe timestamp, made unique among existing snapshots
+   */
+  private static generateSnapshotId(createdAt: Date, existing: BookSnapshotInfo[]): string {
+    const base = createdAt.toISOString().replace(/[:.]/g, '-');
+    const ids = new Set(existing.map(info => info.id));
+    let id = base;
+    for (let n = 2; ids.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    return id;
+  }
+
+  private static async writeIndex(bookId: string, snapshots: BookSnapshotInfo[]): Promise<void> {
+    const index: BookSnapshotIndex = { version: 1, snapshots };
+    const result = await FileSystemService.writeTextFile(this.getIndexPath(bookId), JSON.stringify(index, null, 2));
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to write snapshot index');
+    }
+  }
+
+  private static getIndexPath(bookId: string): string {
+    return `${SNAPSHOTS_DIR}/${bookId}/index.json`;
+  }
+
+  private static getSnapshotPath(bookId: string, snapshotId: string): string {
+    return `${SNAPSHOTS_DIR}/${bookId}/${snapshotId}.json`;
+  }
+
+  /**
+   * Reset all state (tests only)
+   */
+  static reset(): void {
+    this.stopAutoSnapshots();
+    this.latestContent.clear();
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * BrowserStorageBackend - StorageBackend on a File System Access API directory
+ *
+ * The root directory handle is supplied by FileSystemService (the directory
+ * picked in Settings, or the test directory in test mode) and looked up on
+ * every call, so permission changes and directory switches take effect
+ * immediately.
+ */
+
+import { splitStoragePath, type StorageBackend, type StorageFileInfo, type StorageListing } from './StorageBackend';
+
+// values() is an async iterator missing from TypeScript's DOM typings
+type IterableDirectoryHandle = FileSystemDirectoryHandle & { values(): AsyncIterable<FileSystemHandle> };
+
+const isNotFound = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'NotFoundError' || error.name === 'TypeMismatchError');
+
+export class BrowserStorageBackend implements StorageBackend {
+  readonly id = 'browser';
+  private getRoot: () => Promise<FileSystemDirectoryHandle | null>;
+
+  /**
+   * @param getRoot Returns the root directory handle, or null if none is available
+   */
+  constructor(getRoot: () => Promise<FileSystemDirectoryHandle | null>) {
+    this.getRoot = getRoot;
+  }
+
+  async isConfigured(): Promise<boolean> {
+    if (typeof window === 'undefined' || !('showDirectoryPicker' in window)) {
+      return false;
+    }
+    return (await this.getRoot()) !== null;
+  }
+
+  async readText(path: string): Promise<string | null> {
+    const file = await this.getFile(path);
+    return file ? file.text() : null;
+  }
+
+  async writeText(path: string, content: string): Promise<void> {
+    await this.write(path, content);
+  }
+
+  async readBinary(path: string): Promise<Uint8Array | null> {
+    const file = await this.getFile(path);
+    return file ? new Uint8Array(await file.arrayBuffer()) : null;
+  }
+
+  async writeBinary(path: string, data: Uint8Array): Promise<void> {
+    await this.write(path, data as Uint8Array<ArrayBuffer>);
+  }
+
+  async list(path: string): Promise<StorageListing> {
+    const dir = await this.getDirectory(splitStoragePath(path), false);
+    const listing: StorageListing = { files: [], directories: [] };
+    if (!dir) return listing;
+
+    for await (const entry of (dir as IterableDirectoryHandle).values()) {
+      if (entry.kind === 'file') {
+        listing.files.push(entry.name);
+      } else {
+        listing.directories.push(entry.name);
+      }
+    }
+    return listing;
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const segments = splitStoragePath(path);
+    const parent = await this.getDirectory(segments.slice(0, -1), false);
+    if (!parent) return false;
+    if (segments.length === 0) return true;
+
+    const name = segments[segments.length - 1];
+    for (const lookup of [() => parent.getFileHandle(name), () => parent.getDirectoryHandle(name)]) {
+      try {
+        await lookup();
+        return true;
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    }
+    return false;
+  }
+
+  async stat(path: string): Promise<StorageFileInfo | null> {
+    const file = await this.getFile(path);
+    return file ? { modifiedAt: file.lastModified, size: file.size } : null;
+  }
+
+  async delete(path: string): Promise<boolean> {
+    const segments = splitStoragePath(path);
+    const parent = await this.getDirectory(segments.slice(0, -1), false);
+    if (!parent || segments.length === 0) return false;
+    try {
+      await parent.removeEntry(segments[segments.length - 1]);
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  async mkdir(path: string): Promise<void> {
+    if (!await this.getDirectory(splitStoragePath(path), true)) {
+      throw new Error('Filesystem not configured');
+    }
+  }
+
+  /**
+   * Walk to a directory; null if the root is unavailable or (without create)
+   * a directory on the way doesn't exist
+   */
+  private async getDirectory(segments: string[], create: boolean): Promise<FileSystemDirectoryHandle | null> {
+    let dir = await this.getRoot();
+    if (!dir) return null;
+    try {
+      for (const segment of segments) {
+        dir = await dir.getDirectoryHandle(segment, { create });
+      }
+      return dir;
+    } catch (error) {
+      if (!create && isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  private async getFile(path: string): Promise<File | null> {
+    const segments = splitStoragePath(path);
+    const dir = await this.getDirectory(segments.slice(0, -1), false);
+    if (!dir || segments.length === 0) return null;
+    try {
+      const handle = await dir.getFileHandle(segments[segments.length - 1], { create: false });
+      return await handle.getFile();
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  private async write(path: string, content: FileSystemWriteChunkType): Promise<void> {
+    const segments = splitStoragePath(path);
+    const dir = await this.getDirectory(segments.slice(0, -1), true);
+    if (!dir) {
+      throw new Error('Filesystem not configured');
+    }
+    const handle = await dir.getFileHandle(segments[segments.length - 1], { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(content);
+    await writable.close();
+  }
+}
@@ -13,13 +13,16 @@ import { ImageStorageService } from './ImageStorageService';
 import { formatBookStyleForPrompt } from '../types/BookStyle';
 import { LegacyPromptBuildingService } from './LegacyPromptBuildingService';
 import { GeminiPromptBuildingService } from './GeminiPromptBuildingService';
+import { TemplatePromptBuildingService } from './TemplatePromptBuildingService';
 import type { PromptBuildingService as IPromptBuildingService } from './PromptBuildingService';
+import { CURRENT_VERSION } from '../types/Story';
+import type { PromptStrategyOption } from '../types/PromptTemplate';
 
 export class CharacterImageService {
   /**
    * Select the appropriate prompt building strategy based on model
    */
-  private static selectPromptStrategy(model: string, strategyOption?: 'auto' | 'legacy' | 'gemini'): IPromptBuildingService {
+  private static selectPromptStrategy(model: string, strategyOption?: PromptStrategyOption): IPromptBuildingService {
     // If strategy is explicitly specified, use it
     if (strategyOption === 'legacy') {
       return new LegacyPromptBuildingService();
@@ -27,6 +30,9 @@ export class CharacterImageService {
     if (strategyOption === 'gemini') {
       return new GeminiPromptBuildingService();
     }
+    if (strategyOption === 'template') {
+      return new TemplatePromptBuildingService();
+    }
     
     // Auto-detect based on model
     const geminiStrategy = new GeminiPromptBuildingService();
@@ -40,6 +46,16 @@ export class CharacterImageService {
     return new LegacyPromptBuildingService();
   }
 
+  /**
+   * Name of the strategy selectPromptStrategy resolves to (for provenance)
+   */
+  private static resolvePromptStrategyName(model: string, strategyOption?: PromptStrategyOption): string {
+    if (strategyOption === 'legacy' || strategyOption === 'gemini' || strategyOption === 'template') {
+      return strategyOption;
+    }
+    return new GeminiPromptBuildingService().isSuitableForModel(model) ? 'gemini' : 'legacy';
+  }
+
   /**
    * Build prompt for character image generation using pluggable strategy
    * Includes book style, story context, and white background requirement
@@ -58,11 +74,12 @@ export class CharacterImageService {
     book: Book,
     model?: string,
     hasReferenceImage: boolean = false,
-    promptStrategy?: 'auto' | 'legacy' | 'gemini'
+    promptStrategy?: PromptStrategyOption
   ): string {
     // If model is provided, use the new pluggable strategy system
-    if (model) {
-      const strategy = this.selectPromptStrategy(model, promptStrategy);
+    // (book templates don't depend on the model)
+    if (model || promptStrategy === 'template') {
+      const strategy = this.selectPromptStrategy(model ?? '', promptStrategy);
       
       const result = strategy.buildCharacterPrompt({
         character,
@@ -126,6 +143,7 @@ export class CharacterImageService {
    * Generate a character image
    * @param referenceImage Optional base64 data URL of reference image to include in generation
    * @param promptStrategy Optional: 'auto' (default), 'legacy', or 'gemini'
+   * @param referenceImageId Stored id of `referenceImage`, recorded in the provenance
    * @returns CharacterImage object with metadata (url will be loaded separately)
    */
   static async generateCharacterImage(
@@ -136,7 +154,8 @@ export class CharacterImageService {
     model: string,
     aspectRatio: string = '1:1',
     referenceImage?: string | null,
-    promptStrategy?: 'auto' | 'legacy' | 'gemini'
+    promptStrategy?: PromptStrategyOption,
+    referenceImageId?: string
   ): Promise<CharacterImage> {
     // Build the prompt using pluggable strategy
     const prompt = this.buildCharacterPrompt(
@@ -161,7 +180,13 @@ export class CharacterImageService {
       prompt,
       model,
       aspectRatio,
-      referenceImages
+      referenceImages,
+      usageContext: {
+        bookId: book.id,
+        storyId: storyId.startsWith('book:') ? undefined : storyId, // 'book:{id}' = book-level character
+        characterName: character.name,
+        purpose: 'character'
+      }
     });
 
     // Check for errors
@@ -180,6 +205,18 @@ export class CharacterImageService {
       model,
       prompt,
       timestamp: new Date(),
+      provenance: {
+        prompt,
+        model,
+        promptStrategy: this.resolvePromptStrategyName(model, promptStrategy),
+        requestedPromptStrategy: promptStrategy,
+        aspectRatio,
+        referenceImages: referenceImage && referenceImageId
+          ? [{ imageId: referenceImageId, characterName: character.name, storyId }]
+          : [],
+        bookStyle: book.style ? JSON.parse(JSON.stringify(book.style)) : undefined,
+        appVersion: CURRENT_VERSION
+      }
     };
 
     console.log('✓ Character image metadata created:', { id: imageId, model, urlPreview: result.imageUrl.substring(0, 50) });
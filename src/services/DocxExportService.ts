@@ -1,6 +1,8 @@
-import { Document, Packer, Paragraph, ImageRun, AlignmentType } from 'docx';
+import { Document, Packer, Paragraph, ImageRun, AlignmentType, HeadingLevel } from 'docx';
 import type { Story } from '../types/Story';
+import { Story as StoryModel } from '../models/Story';
 import { ImageStorageService } from './ImageStorageService';
+import { ExportRecordService } from './ExportRecordService';
 
 export interface ExportValidation {
   isValid: boolean;
@@ -66,7 +68,8 @@ export class DocxExportService {
   
   /**
    * Export a story with all its images to a DOCX file
-   * Simple version: just images, one per page
+   * Simple version: just images, one per page, with a heading page
+   * opening each chapter
    */
   static async exportStoryToDocx(story: Story, bookTitle: string): Promise<Blob> {
     console.log(`\n📄 DOCX EXPORT: Starting export for "${story.title}"`);
@@ -74,12 +77,30 @@ export class DocxExportService {
     console.log(`   Total scenes: ${story.scenes.length}`);
     
     const paragraphs = [];
+    const exportedImageIds: string[] = [];
+    const scenes = StoryModel.groupScenes(story.chapters, story.scenes).flatMap(section =>
+      section.scenes.map((scene, index) => ({ scene, opensChapter: index === 0 ? section.chapter : null }))
+    );
     
     // Process each scene - just add images
-    for (let i = 0; i < story.scenes.length; i++) {
-      const scene = story.scenes[i];
+    for (let i = 0; i < scenes.length; i++) {
+      const { scene, opensChapter } = scenes[i];
+
+      if (opensChapter) {
+        paragraphs.push(
+          new Paragraph({
+            text: opensChapter.title,
+            heading: HeadingLevel.HEADING_1,
+            alignment: AlignmentType.CENTER,
+            pageBreakBefore: paragraphs.length > 0
+          })
+        );
+        if (opensChapter.description) {
+          paragraphs.push(new Paragraph({ text: opensChapter.description, alignment: AlignmentType.CENTER }));
+        }
+      }
       
-      console.log(`\n   Scene #${i + 1}/${story.scenes.length}:`);
+      console.log(`\n   Scene #${i + 1}/${scenes.length}:`);
       console.log(`      ID: ${scene.id}`);
       console.log(`      Title: "${scene.title}"`);
       console.log(`      Image history count: ${scene.imageHistory?.length || 0}`);
@@ -146,10 +167,11 @@ export class DocxExportService {
                   before: 200,
                   after: 200
                 },
-                pageBreakBefore: i > 0
+                pageBreakBefore: paragraphs.length > 0
               })
             );
-            console.log(`      ✓ Added to DOCX (page break before: ${i > 0})`);
+            exportedImageIds.push(mostRecentImage.id);
+            console.log(`      ✓ Added to DOCX`);
             console.log(`      Total paragraphs so far: ${paragraphs.length}`);
           } else {
             console.warn(`      ⚠️  Image URL is null after loading`);
@@ -188,22 +210,10 @@ export class DocxExportService {
     // Generate blob
     const blob = await Packer.toBlob(doc);
     console.log(`✓ DOCX EXPORT: Complete! Blob size: ${blob.size} bytes\n`);
+
+    await ExportRecordService.recordExport('docx', exportedImageIds);
     
     return blob;
   }
-  
-  /**
-   * Trigger download of the DOCX file
-   */
-  static downloadBlob(blob: Blob, filename: string): void {
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  }
 }
 
@@ -0,0 +1,65 @@
+/**
+ * ElectronStorageBackend - StorageBackend over Electron IPC
+ *
+ * Paths are resolved against the directory chosen in the Electron app
+ * (ElectronFileSystemService.getDirectoryPath) and handled by the main
+ * process, which creates parent directories on write.
+ */
+
+import { ElectronFileSystemService } from './ElectronFileSystemService';
+import type { StorageBackend, StorageFileInfo, StorageListing } from './StorageBackend';
+
+export class ElectronStorageBackend implements StorageBackend {
+  readonly id = 'electron';
+
+  async isConfigured(): Promise<boolean> {
+    return (await ElectronFileSystemService.getDirectoryPath()) !== null;
+  }
+
+  async readText(path: string): Promise<string | null> {
+    if (!await ElectronFileSystemService.fileExists(path)) return null;
+    return ElectronFileSystemService.readFile(path);
+  }
+
+  async writeText(path: string, content: string): Promise<void> {
+    await ElectronFileSystemService.writeFile(path, content);
+  }
+
+  async readBinary(path: string): Promise<Uint8Array | null> {
+    if (!await ElectronFileSystemService.fileExists(path)) return null;
+    const buffer = await ElectronFileSystemService.readFileBinary(path);
+    return buffer ? new Uint8Array(buffer) : null;
+  }
+
+  async writeBinary(path: string, data: Uint8Array): Promise<void> {
+    // IPC takes a plain ArrayBuffer holding exactly the bytes to write
+    const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+    await ElectronFileSystemService.writeFileBinary(path, buffer);
+  }
+
+  async list(path: string): Promise<StorageListing> {
+    return ElectronFileSystemService.listDirectory(path);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return ElectronFileSystemService.fileExists(path);
+  }
+
+  async stat(path: string): Promise<StorageFileInfo | null> {
+    return ElectronFileSystemService.statFile(path);
+  }
+
+  async delete(path: string): Promise<boolean> {
+    if (!await ElectronFileSystemService.fileExists(path)) return false;
+    await ElectronFileSystemService.deleteFile(path);
+    return true;
+  }
+
+  async mkdir(path: string): Promise<void> {
+    await ElectronFileSystemService.createDirectory(path);
+  }
+
+  async watch(path: string, onChange: (path: string) => void): Promise<() => void> {
+    return ElectronFileSystemService.watchDirectory(path, onChange);
+  }
+}
@@ -0,0 +1,533 @@
+/**
+ * EpubExportService - EPUB 3 e-books for tablets and e-readers
+ *
+ * Exports one story, or a whole book, as an EPUB 3 package in one of two
+ * layouts (see EpubLayout):
+ * - fixed: a pre-paginated picture book with one composed scene image per
+ *   page, each page sized to its image
+ * - reflowable: one document per story, with each scene's image followed by
+ *   its text panel as real text
+ *
+ * The navigation document follows stories, chapters and scenes. Every
+ * illustration gets alt text from its scene's description; in the fixed
+ * layout the text panel baked into the image is added to it as well.
+ */
+
+import JSZip from 'jszip';
+import type { Book } from '../models/Book';
+import type { Chapter } from '../types/Story';
+import type { Scene } from '../models/Scene';
+import type { Story } from '../models/Story';
+import type {
+  EpubExportIssue,
+  EpubExportResult,
+  EpubExportScope,
+  EpubExportSettings,
+  EpubNavEntry
+} from '../types/EpubExport';
+import { StorageService } from './StorageService';
+import { ExportImageService, type ExportImage } from './ExportImageService';
+import { ExportRecordService } from './ExportRecordService';
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="EPUB/package.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+const FIXED_CSS = `html, body { margin: 0; padding: 0; width: 100%; height: 100%; }
+body { overflow: hidden; }
+.page-image { display: block; width: 100%; height: 100%; object-fit: contain; }
+.title-page { display: flex; flex-direction: column; justify-content: center; align-items: center; height: 100%; text-align: center; font-family: serif; }
+.title-page p { margin: 0.5em 10%; }
+`;
+
+const REFLOWABLE_CSS = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1, h2, h3 { text-align: center; }
+section.story, section.chapter { page-break-before: always; }
+.scene { margin-bottom: 2em; }
+figure { margin: 1em 0; text-align: center; page-break-inside: avoid; }
+figure img { max-width: 100%; max-height: 90vh; }
+.description { font-style: italic; text-align: center; }
+.cover { text-align: center; margin: 0; }
+.cover img { max-width: 100%; max-height: 100vh; }
+.title-page { text-align: center; margin-top: 30%; }
+`;
+
+// Page size for fixed-layout pages without an image of their own
+const DEFAULT_PAGE_SIZE = { width: 1024, height: 1024 };
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+}
+
+interface PlacedImage {
+  image: ExportImage;
+  href: string;
+}
+
+/**
+ * Where the contents walk puts stories, chapters and scenes; returns hrefs
+ * for the navigation document
+ */
+interface ContentsBuilder {
+  includes(scene: Scene): boolean;
+  story?(story: Story): string;
+  chapter?(chapter: Chapter, story: Story): string;
+  scene(scene: Scene, story: Story): string;
+}
+
+export class EpubExportService {
+  // ========================================
+  // Checks
+  // ========================================
+
+  static validateSettings(settings: EpubExportSettings): EpubExportIssue[] {
+    const issues: EpubExportIssue[] = [];
+    if (!/^[a-z]{2,3}(-[a-z0-9]{1,8})*$/i.test(settings.language.trim())) {
+      issues.push({ severity: 'error', message: 'Language must be a language tag such as "en" or "de-AT"' });
+    }
+    return issues;
+  }
+
+  /**
+   * Check a book before exporting: settings, scenes that will be left out,
+   * and illustrations without a description for alt text
+   */
+  static async validateExport(scope: EpubExportScope, settings: EpubExportSettings): Promise<EpubExportIssue[]> {
+    const { stories } = await this.loadScope(scope);
+    return [...this.validateSettings(settings), ...this.checkScenes(stories, settings)];
+  }
+
+  /**
+   * Alt text for a scene's illustration: its description (or title). In
+   * the fixed layout the text panel is part of the image, so its text is
+   * added for screen readers.
+   */
+  static getAltText(scene: Scene, layout: EpubExportSettings['layout']): string {
+    const description = scene.description.replace(/\s+/g, ' ').trim() || scene.title;
+    const panelText = layout === 'fixed' ? scene.getPanelText() : undefined;
+    if (!panelText) return description;
+    const separator = /[.!?]$/.test(description) ? ' ' : '. ';
+    return `${description}${separator}Text on the page: ${panelText.replace(/\s+/g, ' ')}`;
+  }
+
+  // ========================================
+  // Export
+  // ========================================
+
+  /**
+   * Export a story (scope.storyId) or the whole book to an EPUB file
+   */
+  static async exportToEpub(scope: EpubExportScope, settings: EpubExportSettings): Promise<EpubExportResult> {
+    const settingsErrors = this.validateSettings(settings).filter(issue => issue.severity === 'error');
+    if (settingsErrors.length > 0) {
+      throw new Error(settingsErrors[0].message);
+    }
+
+    const { book, stories } = await this.loadScope(scope);
+    const wholeBook = !scope.storyId;
+    const fixed = settings.layout === 'fixed';
+    const language = settings.language.trim();
+    const issues = this.checkScenes(stories, settings);
+    const sceneError = issues.find(issue => issue.severity === 'error');
+    if (sceneError) {
+      throw new Error(sceneError.message);
+    }
+
+    console.log(`📗 EPUB EXPORT: "${wholeBook ? book.title : stories[0].title}" (${settings.layout} layout)`);
+
+    // Load each scene's most recent image once
+    const images = new Map<string, PlacedImage>();
+    for (const scene of stories.flatMap(story => story.scenes)) {
+      if (!scene.imageHistory?.length) continue;
+      const image = await ExportImageService.loadSceneImage(scene);
+      if (image) {
+        images.set(scene.id, { image, href: `images/image-${images.size + 1}.${ExportImageService.getExtension(image.type)}` });
+      } else {
+        issues.push({
+          severity: 'warning',
+          message: fixed
+            ? `Could not load the image of scene "${scene.title}"; its page was left out`
+            : `Could not load the image of scene "${scene.title}"; only its text is included`,
+          sceneId: scene.id
+        });
+      }
+    }
+
+    const title = wholeBook ? book.title : `${book.title}: ${stories[0].title}`;
+    const manifest: ManifestItem[] = [];
+    const spine: string[] = [];
+    const documents = new Map<string, string>();
+    const addDocument = (id: string, href: string, content: string) => {
+      manifest.push({ id, href, mediaType: 'application/xhtml+xml' });
+      documents.set(href, content);
+      spine.push(id);
+    };
+    const landmarks: EpubNavEntry[] = [];
+
+    const allScenes = stories.flatMap(story => story.scenes);
+    const includes = (scene: Scene) => images.has(scene.id) || (!fixed && scene.getPanelText() !== undefined);
+    const coverScene = allScenes.find(scene => scene.id === settings.coverSceneId && images.has(scene.id))
+      ?? allScenes.find(scene => images.has(scene.id));
+    const cover = coverScene ? images.get(coverScene.id)! : null;
+    const firstPageSize = cover ? { width: cover.image.width, height: cover.image.height } : DEFAULT_PAGE_SIZE;
+
+    if (cover) {
+      const alt = this.escapeXml(`Cover: ${this.getAltText(coverScene!, settings.layout)}`);
+      const body = fixed
+        ? `<img class="page-image" src="${cover.href}" alt="${alt}"/>`
+        : `<figure class="cover"><img src="${cover.href}" alt="${alt}"/></figure>`;
+      addDocument('cover', 'cover.xhtml', this.xhtmlDocument({
+        title,
+        language,
+        body,
+        viewport: fixed ? firstPageSize : undefined,
+        bodyType: 'cover'
+      }));
+      landmarks.push({ title: 'Cover', href: 'cover.xhtml', children: [] });
+    }
+
+    addDocument('title-page', 'title.xhtml', this.xhtmlDocument({
+      title,
+      language,
+      body: this.titlePageBody(book, wholeBook ? undefined : stories[0].title, settings.author, fixed ? firstPageSize.width : undefined),
+      viewport: fixed ? firstPageSize : undefined,
+      bodyType: 'titlepage'
+    }));
+    landmarks.push({ title: 'Title Page', href: 'title.xhtml', children: [] });
+
+    let toc: EpubNavEntry[];
+    if (fixed) {
+      let pageNumber = 0;
+      toc = this.buildContents(stories, wholeBook, {
+        includes,
+        scene: scene => {
+          const { image, href } = images.get(scene.id)!;
+          pageNumber++;
+          const pageHref = `pages/page-${String(pageNumber).padStart(3, '0')}.xhtml`;
+          addDocument(`page-${pageNumber}`, pageHref, this.xhtmlDocument({
+            title: scene.title,
+            language,
+            body: `<img class="page-image" src="../${href}" alt="${this.escapeXml(this.getAltText(scene, 'fixed'))}"/>`,
+            viewport: { width: image.width, height: image.height },
+            stylesheet: '../styles.css'
+          }));
+          return pageHref;
+        }
+      });
+    } else {
+      // One document per story; stories, chapters and scenes are sections in it
+      const bodies = new Map<Story, string[]>();
+      const storyHref = (story: Story) => `text/story-${String(stories.indexOf(story) + 1).padStart(2, '0')}.xhtml`;
+      const append = (story: Story, html: string) => bodies.set(story, [...bodies.get(story) ?? [], html]);
+      toc = this.buildContents(stories, wholeBook, {
+        includes,
+        story: story => {
+          append(story, `<h1>${this.escapeXml(story.title)}</h1>${this.paragraphs(story.description, 'description')}`);
+          return storyHref(story);
+        },
+        chapter: (chapter, story) => {
+          const id = `chapter-${chapter.id}`;
+          append(story, `<section class="chapter" id="${this.escapeXml(id)}" epub:type="chapter"><h2>${this.escapeXml(chapter.title)}</h2>${this.paragraphs(chapter.description, 'description')}</section>`);
+          return `${storyHref(story)}#${id}`;
+        },
+        scene: (scene, story) => {
+          const id = `scene-${scene.id}`;
+          const placed = images.get(scene.id);
+          append(story, [
+            `<section class="scene" id="${this.escapeXml(id)}">`,
+            settings.sceneTitles ? `<h3>${this.escapeXml(scene.title)}</h3>` : '',
+            placed ? `<figure><img src="../${placed.href}" alt="${this.escapeXml(this.getAltText(scene, 'reflowable'))}"/></figure>` : '',
+            this.paragraphs(scene.getPanelText()),
+            '</section>'
+          ].join(''));
+          return `${storyHref(story)}#${id}`;
+        }
+      });
+      stories.forEach((story, index) => {
+        const html = bodies.get(story);
+        if (!html) return;
+        addDocument(`story-${index + 1}`, storyHref(story), this.xhtmlDocument({
+          title: story.title,
+          language,
+          body: `<section class="story" epub:type="${wholeBook ? 'part' : 'chapter'}">${html.join('\n')}</section>`,
+          stylesheet: '../styles.css'
+        }));
+      });
+    }
+
+    const firstContent = toc[0]?.href.split('#')[0];
+    if (firstContent) {
+      landmarks.push({ title: 'Start of Content', href: firstContent, children: [] });
+    }
+    manifest.push({ id: 'nav', href: 'nav.xhtml', mediaType: 'application/xhtml+xml', properties: 'nav' });
+    documents.set('nav.xhtml', this.navDocument(title, language, toc, landmarks));
+    if (!fixed) {
+      // Reflowable readers show the contents page after the title page
+      spine.splice(spine.indexOf('title-page') + 1, 0, 'nav');
+    }
+    manifest.push({ id: 'css', href: 'styles.css', mediaType: 'text/css' });
+
+    const placedImages = [...images.values()];
+    placedImages.forEach((placed, index) => {
+      manifest.push({
+        id: `image-${index + 1}`,
+        href: placed.href,
+        mediaType: placed.image.mediaType,
+        properties: placed === cover ? 'cover-image' : undefined
+      });
+    });
+
+    const zip = new JSZip();
+    // The mimetype file must come first and be stored uncompressed
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', CONTAINER_XML);
+    zip.file('EPUB/package.opf', this.packageDocument(book, scope, settings, title, manifest, spine));
+    zip.file('EPUB/styles.css', fixed ? FIXED_CSS : REFLOWABLE_CSS);
+    for (const [href, content] of documents) {
+      zip.file(`EPUB/${href}`, content);
+    }
+    for (const placed of placedImages) {
+      zip.file(`EPUB/${placed.href}`, placed.image.bytes);
+    }
+
+    const bytes = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+    const blob = new Blob([bytes as BlobPart], { type: 'application/epub+zip' });
+    console.log(`✓ EPUB EXPORT: ${spine.length} documents, ${images.size} images, ${blob.size} bytes`);
+
+    await ExportRecordService.recordExport('epub', placedImages.map(placed => placed.image.imageId));
+
+    return {
+      blob,
+      documentCount: spine.length,
+      sceneCount: allScenes.filter(includes).length,
+      imageCount: placedImages.length,
+      issues
+    };
+  }
+
+  static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  // ========================================
+  // Contents
+  // ========================================
+
+  /**
+   * Walk stories, chapters and scenes in reading order and build the table
+   * of contents. Stories are top-level entries for whole-book exports;
+   * chapters and scenes without included scenes are skipped. Stories and
+   * chapters link to their first scene unless the builder places them.
+   */
+  private static buildContents(stories: Story[], wholeBook: boolean, builder: ContentsBuilder): EpubNavEntry[] {
+    const toc: EpubNavEntry[] = [];
+    for (const story of stories) {
+      const sections = story.getSceneSections()
+        .map(section => ({ chapter: section.chapter, scenes: section.scenes.filter(scene => builder.includes(scene)) }))
+        .filter(section => section.scenes.length > 0);
+      if (sections.length === 0) continue;
+
+      const storyEntry: EpubNavEntry = { title: story.title, href: builder.story?.(story) ?? '', children: [] };
+      for (const section of sections) {
+        const chapterEntry: EpubNavEntry | null = section.chapter
+          ? { title: section.chapter.title, href: builder.chapter?.(section.chapter, story) ?? '', children: [] }
+          : null;
+        for (const scene of section.scenes) {
+          (chapterEntry ?? storyEntry).children.push({ title: scene.title, href: builder.scene(scene, story), children: [] });
+        }
+        if (chapterEntry) {
+          chapterEntry.href ||= chapterEntry.children[0].href;
+          storyEntry.children.push(chapterEntry);
+        }
+      }
+      storyEntry.href ||= storyEntry.children[0].href;
+      if (wholeBook) {
+        toc.push(storyEntry);
+      } else {
+        toc.push(...storyEntry.children);
+      }
+    }
+    return toc;
+  }
+
+  private static checkScenes(stories: Story[], settings: EpubExportSettings): EpubExportIssue[] {
+    const issues: EpubExportIssue[] = [];
+    const scenes = stories.flatMap(story => story.scenes);
+    if (scenes.length === 0) {
+      issues.push({ severity: 'error', message: 'There are no scenes to export' });
+      return issues;
+    }
+
+    for (const scene of scenes) {
+      const hasImage = !!scene.imageHistory?.length;
+      if (settings.layout === 'fixed' && !hasImage) {
+        issues.push({ severity: 'warning', message: `Scene "${scene.title}" has no images; it is left out of the fixed-layout book`, sceneId: scene.id });
+      } else if (settings.layout === 'reflowable' && !hasImage && !scene.getPanelText()) {
+        issues.push({ severity: 'warning', message: `Scene "${scene.title}" has no image or text; it is left out`, sceneId: scene.id });
+      } else if (hasImage && !scene.description.trim()) {
+        issues.push({ severity: 'warning', message: `Scene "${scene.title}" has no description; its title is used as the image's alt text`, sceneId: scene.id });
+      }
+    }
+    if (settings.layout === 'fixed' && !scenes.some(scene => scene.imageHistory?.length)) {
+      issues.push({ severity: 'error', message: 'There are no scene images to export' });
+    }
+    return issues;
+  }
+
+  // ========================================
+  // Documents
+  // ========================================
+
+  private static xhtmlDocument(options: {
+    title: string;
+    language: string;
+    body: string;
+    viewport?: { width: number; height: number };
+    stylesheet?: string;
+    bodyType?: string;
+  }): string {
+    const { title, language, body, viewport, stylesheet = 'styles.css', bodyType } = options;
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${this.escapeXml(language)}" lang="${this.escapeXml(language)}">
+<head>
+<meta charset="UTF-8"/>
+<title>${this.escapeXml(title)}</title>
+${viewport ? `<meta name="viewport" content="width=${viewport.width}, height=${viewport.height}"/>\n` : ''}<link rel="stylesheet" type="text/css" href="${stylesheet}"/>
+</head>
+<body${bodyType ? ` epub:type="${bodyType}"` : ''}>
+${body}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * @param pageWidth Fixed layout: page width in CSS pixels, for font sizes
+   */
+  private static titlePageBody(book: Book, subtitle: string | undefined, author: string | undefined, pageWidth?: number): string {
+    const size = (fraction: number) => pageWidth ? ` style="font-size: ${Math.round(pageWidth * fraction)}px"` : '';
+    return [
+      `<div class="title-page">`,
+      `<h1${size(0.07)}>${this.escapeXml(book.title)}</h1>`,
+      subtitle ? `<h2${size(0.045)}>${this.escapeXml(subtitle)}</h2>` : '',
+      author?.trim() ? `<p${size(0.035)}>${this.escapeXml(author.trim())}</p>` : '',
+      book.description ? `<p${size(0.025)}>${this.escapeXml(book.description)}</p>` : '',
+      `</div>`
+    ].join('');
+  }
+
+  /**
+   * Text as paragraphs: blank lines separate paragraphs, single line
+   * breaks are kept
+   */
+  private static paragraphs(text: string | undefined, className?: string): string {
+    if (!text?.trim()) return '';
+    const classAttribute = className ? ` class="${className}"` : '';
+    return text.trim().split(/\n\s*\n/).map(paragraph =>
+      `<p${classAttribute}>${paragraph.split('\n').map(line => this.escapeXml(line.trim())).join('<br/>')}</p>`
+    ).join('');
+  }
+
+  private static navDocument(title: string, language: string, toc: EpubNavEntry[], landmarks: EpubNavEntry[]): string {
+    const list = (entries: EpubNavEntry[]): string => `<ol>${entries.map(entry =>
+      `<li><a href="${this.escapeXml(entry.href)}">${this.escapeXml(entry.title)}</a>${entry.children.length > 0 ? list(entry.children) : ''}</li>`
+    ).join('')}</ol>`;
+    const landmarkTypes: Record<string, string> = {
+      'cover.xhtml': 'cover',
+      'title.xhtml': 'titlepage'
+    };
+    const landmarkItems = landmarks.map(entry =>
+      `<li><a epub:type="${landmarkTypes[entry.href] ?? 'bodymatter'}" href="${this.escapeXml(entry.href)}">${this.escapeXml(entry.title)}</a></li>`
+    ).join('');
+
+    return this.xhtmlDocument({
+      title,
+      language,
+      body: `<nav epub:type="toc" id="toc"><h1>Contents</h1>${list(toc)}</nav>
+<nav epub:type="landmarks" hidden="hidden"><h2>Landmarks</h2><ol>${landmarkItems}</ol></nav>`
+    });
+  }
+
+  private static packageDocument(
+    book: Book,
+    scope: EpubExportScope,
+    settings: EpubExportSettings,
+    title: string,
+    manifest: ManifestItem[],
+    spine: string[]
+  ): string {
+    const id = scope.storyId ?? book.id;
+    const identifier = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id) ? `urn:uuid:${id}` : id;
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const fixed = settings.layout === 'fixed';
+    const metadata = [
+      `<dc:identifier id="book-id">${this.escapeXml(identifier)}</dc:identifier>`,
+      `<dc:title>${this.escapeXml(title)}</dc:title>`,
+      `<dc:language>${this.escapeXml(settings.language.trim())}</dc:language>`,
+      settings.author?.trim() ? `<dc:creator>${this.escapeXml(settings.author.trim())}</dc:creator>` : '',
+      book.description ? `<dc:description>${this.escapeXml(book.description)}</dc:description>` : '',
+      `<meta property="dcterms:modified">${modified}</meta>`,
+      fixed ? '<meta property="rendition:layout">pre-paginated</meta>' : '',
+      fixed ? `<meta property="rendition:spread">${settings.spreads ? 'auto' : 'none'}</meta>` : '',
+      `<meta property="schema:accessMode">visual</meta>`,
+      fixed ? '' : '<meta property="schema:accessMode">textual</meta>',
+      `<meta property="schema:accessibilityFeature">alternativeText</meta>`,
+      `<meta property="schema:accessibilityFeature">tableOfContents</meta>`,
+      `<meta property="schema:accessibilityHazard">none</meta>`,
+      `<meta property="schema:accessibilitySummary">${fixed
+        ? 'Illustrated picture book with one illustration per page. Every illustration has alt text describing the scene and the text printed on it.'
+        : 'Illustrated book with real text. Every illustration has alt text describing the scene.'}</meta>`
+    ].filter(Boolean);
+
+    const items = manifest.map(item =>
+      `<item id="${item.id}" href="${this.escapeXml(item.href)}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ''}/>`
+    );
+    const itemrefs = spine.map(idref => `<itemref idref="${idref}"/>`);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${this.escapeXml(settings.language.trim())}" prefix="rendition: http://www.idpf.org/vocab/rendition/# schema: http://schema.org/">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    ${metadata.join('\n    ')}
+  </metadata>
+  <manifest>
+    ${items.join('\n    ')}
+  </manifest>
+  <spine>
+    ${itemrefs.join('\n    ')}
+  </spine>
+</package>
+`;
+  }
+
+  // ========================================
+  // Loading
+  // ========================================
+
+  private static async loadScope(scope: EpubExportScope): Promise<{ book: Book; stories: Story[] }> {
+    const book = await StorageService.getBook(scope.bookId);
+    if (!book) {
+      throw new Error(`Book with ID ${scope.bookId} not found`);
+    }
+    if (!scope.storyId) {
+      return { book, stories: book.stories };
+    }
+    const story = book.stories.find(s => s.id === scope.storyId);
+    if (!story) {
+      throw new Error(`Story with ID ${scope.storyId} not found`);
+    }
+    return { book, stories: [story] };
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * ExportDownloadService - Hands a finished export to the browser as a file
+ * download (DOCX, PDF, EPUB, HTML site, PPTX, slideshow and book zip exports)
+ */
+
+export class ExportDownloadService {
+  /**
+   * Title turned into something safe for a file name
+   */
+  static safeName(text: string): string {
+    return text.replace(/[^a-z0-9]/gi, '_');
+  }
+
+  /**
+   * File name for an export, e.g. "My_Book.pdf" or "My_Book-Chapter_1.pdf"
+   */
+  static generateFilename(extension: string, bookTitle: string, storyTitle?: string): string {
+    return storyTitle
+      ? `${this.safeName(bookTitle)}-${this.safeName(storyTitle)}.${extension}`
+      : `${this.safeName(bookTitle)}.${extension}`;
+  }
+
+  /**
+   * Trigger download of an exported file
+   */
+  static downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * ExportImageService - Scene images for file exports
+ *
+ * Loads the most recent image of a scene as bytes the export formats can
+ * embed, with its pixel size read from the file header. Scene images are
+ * stored already composed (overlays from applyAllOverlays /
+ * composeSceneWithLayout), so they go into exports as they are. Formats an
+ * export can't take are converted to PNG first.
+ */
+
+import type { Scene } from '../models/Scene';
+import { ImageStorageService } from './ImageStorageService';
+
+export type ExportImageType = 'png' | 'jpeg' | 'gif';
+
+export interface ExportImage {
+  imageId: string;
+  bytes: Uint8Array;
+  type: ExportImageType;
+  mediaType: string;
+  width: number;
+  height: number;
+}
+
+const MEDIA_TYPES: Record<ExportImageType, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif'
+};
+
+const FILE_EXTENSIONS: Record<ExportImageType, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  gif: 'gif'
+};
+
+export class ExportImageService {
+  /**
+   * Load the most recent image of a scene, or null if it has none or it
+   * can't be loaded
+   *
+   * @param accepted Formats the export can embed; others become PNG
+   */
+  static async loadSceneImage(scene: Scene, accepted: ExportImageType[] = ['png', 'jpeg', 'gif']): Promise<ExportImage | null> {
+    const latest = scene.getLatestImage();
+    if (!latest) return null;
+
+    try {
+      const imageUrl = await ImageStorageService.getImage(latest.id);
+      if (!imageUrl) return null;
+
+      let bytes = new Uint8Array(await (await fetch(imageUrl)).arrayBuffer());
+      let type = this.detectType(bytes);
+      if (!type || !accepted.includes(type)) {
+        bytes = await this.convertToPng(imageUrl);
+        type = 'png';
+      }
+      const size = this.readImageSize(bytes, type);
+      if (!size) {
+        throw new Error('Could not read the image size');
+      }
+      return { imageId: latest.id, bytes, type, mediaType: MEDIA_TYPES[type], ...size };
+    } catch (error) {
+      console.error(`Failed to load image for scene "${scene.title}":`, error);
+      return null;
+    }
+  }
+
+  /**
+   * File extension for an image type, without the dot
+   */
+  static getExtension(type: ExportImageType): string {
+    return FILE_EXTENSIONS[type];
+  }
+
+  static detectType(bytes: Uint8Array): ExportImageType | null {
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png';
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+    if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) return 'gif';
+    return null;
+  }
+
+  /**
+   * Pixel size from the file header
+   */
+  static readImageSize(bytes: Uint8Array, type: ExportImageType): { width: number; height: number } | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    switch (type) {
+      case 'png':
+        // IHDR is always the first chunk
+        return bytes.length >= 24 ? { width: view.getUint32(16), height: view.getUint32(20) } : null;
+      case 'gif':
+        return bytes.length >= 10 ? { width: view.getUint16(6, true), height: view.getUint16(8, true) } : null;
+      case 'jpeg': {
+        // Walk the segments to the start-of-frame marker
+        let offset = 2;
+        while (offset + 9 < bytes.length) {
+          if (bytes[offset] !== 0xff) return null;
+          const marker = bytes[offset + 1];
+          const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+          if (isStartOfFrame) {
+            return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+          }
+          offset += 2 + view.getUint16(offset + 2);
+        }
+        return null;
+      }
+    }
+  }
+
+  private static async convertToPng(imageUrl: string): Promise<Uint8Array> {
+    const img = new Image();
+    await new Promise((resolve, reject) => {
+      img.onload = resolve;
+      img.onerror = reject;
+      img.src = imageUrl;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    canvas.getContext('2d')!.drawImage(img, 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+      throw new Error('Could not convert image to PNG');
+    }
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+}
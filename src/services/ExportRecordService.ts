@@ -0,0 +1,113 @@
+/**
+ * ExportRecordService - Remembers which images went into exports
+ *
+ * Every export (DOCX, PDF, EPUB, HTML site, PPTX, slideshow) records the
+ * image IDs it embedded, so image cleanup can keep images that appear in
+ * something already shared. Records live in
+ * prompter-cache/export-records.json.
+ */
+
+import type { StorageBackend } from './StorageBackend';
+import { FileSystemService } from './FileSystemService';
+
+const RECORDS_PATH = 'prompter-cache/export-records.json';
+
+export interface ExportedImageRecord {
+  /** Export formats the image was used in, e.g. 'docx' */
+  formats: string[];
+  lastExportedAt: string; // ISO timestamp
+}
+
+interface ExportRecordsFile {
+  version: 1;
+  images: Record<string, ExportedImageRecord>;
+}
+
+export class ExportRecordService {
+  private static records: ExportRecordsFile | null = null;
+  private static recordsBackend: StorageBackend | null = null;
+  private static writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Record the images used by an export. Never throws - a failed record
+   * must not fail the export.
+   */
+  static recordExport(format: string, imageIds: string[]): Promise<void> {
+    const run = this.writeChain.then(async () => {
+      try {
+        if (!await FileSystemService.isConfigured()) return;
+
+        const records = await this.load();
+        const now = new Date().toISOString();
+        for (const imageId of imageIds) {
+          const record = records.images[imageId] ?? { formats: [], lastExportedAt: now };
+          if (!record.formats.includes(format)) {
+            record.formats.push(format);
+          }
+          record.lastExportedAt = now;
+          records.images[imageId] = record;
+        }
+        await FileSystemService.writeTextFile(RECORDS_PATH, JSON.stringify(records, null, 2));
+      } catch (error) {
+        console.warn('Failed to record exported images:', error);
+      }
+    });
+    this.writeChain = run;
+    return run;
+  }
+
+  /**
+   * IDs of every image used in an export
+   * @throws If the records can't be read
+   */
+  static async getExportedImageIds(): Promise<Set<string>> {
+    await this.writeChain;
+    return new Set(Object.keys((await this.load()).images));
+  }
+
+  static async getRecord(imageId: string): Promise<ExportedImageRecord | null> {
+    await this.writeChain;
+    return (await this.load()).images[imageId] ?? null;
+  }
+
+  /**
+   * Load the records (cached per backend, so switching directories reloads them)
+   *
+   * @throws If export-records.json exists but can't be read - starting empty
+   * would let cleanup delete exported images and the next export overwrite
+   * the file
+   */
+  private static async load(): Promise<ExportRecordsFile> {
+    const backend = FileSystemService.getBackend();
+    if (this.records && this.recordsBackend === backend) {
+      return this.records;
+    }
+
+    let records: ExportRecordsFile = { version: 1, images: {} };
+    const content = await FileSystemService.readTextFile(RECORDS_PATH);
+    if (content) {
+      let data: Partial<ExportRecordsFile> | null;
+      try {
+        data = JSON.parse(content);
+      } catch (error) {
+        throw new Error(`Export records (${RECORDS_PATH}) are unreadable: ${error instanceof Error ? error.message : error}`);
+      }
+      if (data?.version !== 1 || !data.images) {
+        throw new Error(`Export records (${RECORDS_PATH}) are in an unknown format`);
+      }
+      records = data as ExportRecordsFile;
+    }
+    this.records = records;
+    this.recordsBackend = backend;
+    return records;
+  }
+
+  /**
+   * Forget cached records (tests only)
+   */
+  static reset(): void {
+    this.records = null;
+    this.recordsBackend = null;
+    this.writeChain = Promise.resolve();
+  }
+}
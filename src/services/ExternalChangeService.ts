@@ -0,0 +1,682 @@
+/**
+ * ExternalChangeService - Notices book files changed outside the app
+ *
+ * Book files are edited by hand and by scripts while the app is open, and
+ * BookCache would otherwise overwrite those edits with its next save. While
+ * running, this service:
+ * - Watches prompter-cache/books (backends with watch(), i.e. Electron) or
+ *   polls file modification times (the browser build)
+ * - Compares the content of changed book directories with what the app last
+ *   read or wrote, so the app's own saves are not mistaken for external edits
+ * - Reloads changed books into BookCache when the app has no unsaved changes
+ *   to them, and loads books that appear on disk
+ * - Otherwise records a conflict and refuses saves of that book until the
+ *   conflict is resolved: keep the app's version, use the one on disk, or
+ *   merge the two (BookMergeService). Replaced versions are kept as book
+ *   snapshots.
+ * - Picks up the conflicts merge-book-driver.ts leaves in a book directory
+ *   after a git merge, so they can be resolved in the app
+ *
+ * FileBasedStorageService runs every directory-format save through
+ * guardSave, which also catches external edits that land between two checks.
+ */
+
+import type { Book } from '../models/Book';
+import type {
+  ExternalBookChange,
+  ExternalChangeConflict,
+  ExternalChangeKind,
+  ExternalConflictResolution
+} from '../types/ExternalChange';
+import type { MergeResolutions, PendingBookMerge } from '../types/BookMerge';
+import { FileSystemService } from './FileSystemService';
+import { FileBasedStorageService, type BookDirectoryFiles } from './FileBasedStorageService';
+import { BookHistoryService } from './BookHistoryService';
+import { BookSnapshotService, diffBookFiles } from './BookSnapshotService';
+import { BookMergeService, MERGE_CONFLICTS_FILE, type BookMergeData } from './BookMergeService';
+import { StorageService } from './StorageService';
+import { bookCache } from './BookCache';
+
+const BOOKS_DIR = 'prompter-cache/books';
+export const EXTERNAL_CHANGE_POLL_MS = 5000;
+const WATCH_DEBOUNCE_MS = 500;
+
+type ExternalChangeListener = (change: ExternalBookChange) => void;
+
+/**
+ * What the service last knew about one book directory
+ */
+interface DirectoryState {
+  bookId: string;
+
+  /** File names, modification times and sizes; null after our own save (re-read next check) */
+  fingerprint: string | null;
+
+  /** Content as last read or written by the app */
+  diskContent: string;
+}
+
+interface ConflictState {
+  info: ExternalChangeConflict;
+
+  /** The version on disk, null if the book was deleted */
+  diskFiles: BookDirectoryFiles | null;
+
+  /** Content on disk the app last read or wrote (the common ancestor for merging) */
+  baseContent: string | null;
+}
+
+interface MergeState {
+  info: PendingBookMerge;
+
+  /** Merged data of app merges; git merges are read from disk when completed */
+  data: BookMergeData | null;
+
+  /** App merges: the version on disk that was merged, and its fingerprint */
+  diskFiles: BookDirectoryFiles | null;
+  fingerprint: string | null;
+}
+
+/**
+ * Comparable content of a book's files, independent of story file order
+ */
+function contentKey(files: BookDirectoryFiles): string {
+  const stories = [...files.stories].sort((a, b) => a.fileName.localeCompare(b.fileName));
+  return JSON.stringify({ bookJson: files.bookJson, stories });
+}
+
+export class ExternalChangeService {
+  private static active = false;
+  private static generation = 0;
+  private static pollTimer: ReturnType<typeof setInterval> | null = null;
+  private static debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private static unwatch: (() => void) | null = null;
+
+  private static directories: Map<string, DirectoryState> = new Map();
+  private static appContent: Map<string, string> = new Map(); // bookId → content of the app's version at last sync
+  private static conflicts: Map<string, ConflictState> = new Map();
+  private static pendingMerges: Map<string, MergeState> = new Map();
+  private static savingBookIds: Set<string> = new Set();
+  private static saveQueues: Map<string, Promise<void>> = new Map();
+  private static checkChain: Promise<unknown> = Promise.resolve();
+  private static listeners: Set<ExternalChangeListener> = new Set();
+
+  // ========================================
+  // Lifecycle
+  // ========================================
+
+  /**
+   * Remember the current state of every book directory and start watching
+   * (or polling) for changes. Restarts if already running.
+   */
+  static async start(): Promise<void> {
+    this.stop();
+    const generation = ++this.generation;
+    this.active = true;
+
+    await bookCache.loadAll();
+    await this.enqueue(() => this.captureBaseline());
+    if (generation !== this.generation) return;
+
+    const backend = FileSystemService.getBackend();
+    if (backend.watch) {
+      try {
+        const unwatch = await backend.watch(BOOKS_DIR, () => this.scheduleCheck());
+        if (generation !== this.generation) {
+          unwatch();
+          return;
+        }
+        this.unwatch = unwatch;
+        return;
+      } catch (error) {
+        console.warn('Could not watch book files, polling instead:', error);
+      }
+    }
+
+    this.pollTimer = setInterval(() => {
+      this.checkForChanges().catch(error => console.error('External change check failed:', error));
+    }, EXTERNAL_CHANGE_POLL_MS);
+  }
+
+  static stop(): void {
+    this.generation++;
+    this.active = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.unwatch?.();
+    this.unwatch = null;
+  }
+
+  static isRunning(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Check soon, coalescing the burst of events a single save produces
+   */
+  private static scheduleCheck(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.checkForChanges().catch(error => console.error('External change check failed:', error));
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  /**
+   * Run checks one at a time, so a check never sees a half-applied one
+   */
+  private static enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.checkChain.catch(() => undefined).then(task);
+    this.checkChain = run;
+    return run;
+  }
+
+  private static async captureBaseline(): Promise<void> {
+    this.directories.clear();
+    this.appContent.clear();
+    if (!await FileSystemService.isConfigured()) return;
+
+    const { directories } = await FileSystemService.getBackend().list(BOOKS_DIR);
+    for (const directory of directories) {
+      const fingerprint = await this.fingerprint(directory);
+      const files = fingerprint === null ? null : await FileBasedStorageService.readBookFiles(directory);
+      const bookId = files && this.readBookId(files);
+      if (!files || !bookId) continue;
+
+      this.directories.set(directory, { bookId, fingerprint, diskContent: contentKey(files) });
+      const cached = bookCache.get(bookId);
+      if (cached) {
+        this.appContent.set(bookId, contentKey(FileBasedStorageService.serializeBook(cached)));
+        await this.findGitMerge(directory, cached);
+      }
+    }
+  }
+
+  // ========================================
+  // Detecting changes
+  // ========================================
+
+  /**
+   * Look for book directories changed, added or deleted outside the app
+   * @returns What was done about each change
+   */
+  static async checkForChanges(): Promise<ExternalBookChange[]> {
+    if (!this.active) {
+      return [];
+    }
+    return this.enqueue(async () => {
+      if (!await FileSystemService.isConfigured()) return [];
+
+      const changes: ExternalBookChange[] = [];
+      const { directories } = await FileSystemService.getBackend().list(BOOKS_DIR);
+      for (const directory of directories) {
+        const change = await this.checkDirectory(directory);
+        if (change) changes.push(change);
+      }
+
+      // Deleted directories matter only for books the app still has
+      const present = new Set(directories);
+      for (const [directory, state] of [...this.directories]) {
+        if (present.has(directory)) continue;
+        this.directories.delete(directory);
+
+        const book = bookCache.get(state.bookId);
+        const elsewhere = [...this.directories.values()].some(other => other.bookId === state.bookId);
+        if (book && !elsewhere && !this.savingBookIds.has(state.bookId)) {
+          changes.push(this.raiseConflict(book, directory, null, state.diskContent));
+        }
+      }
+      return changes;
+    });
+  }
+
+  private static async checkDirectory(directory: string): Promise<ExternalBookChange | null> {
+    const state = this.directories.get(directory);
+    if (state && this.savingBookIds.has(state.bookId)) return null;
+
+    const fingerprint = await this.fingerprint(directory);
+    if (fingerprint === null || fingerprint === state?.fingerprint) return null;
+
+    const files = await FileBasedStorageService.readBookFiles(directory);
+    // Files still being written (by us or by another program): look again next time
+    if (!files || await this.fingerprint(directory) !== fingerprint) return null;
+
+    const bookId = this.readBookId(files);
+    if (!bookId || this.savingBookIds.has(bookId)) {
+      if (state) state.fingerprint = fingerprint;
+      return null;
+    }
+
+    const content = contentKey(files);
+    const previous = state?.bookId === bookId ? state.diskContent : undefined;
+    this.directories.set(directory, { bookId, fingerprint, diskContent: content });
+    if (content === previous) {
+      // Touched, or our own save
+      return null;
+    }
+
+    const cached = bookCache.get(bookId);
+    const conflict = this.conflicts.get(bookId);
+    if (cached && conflict) {
+      // Newer disk version of a book already in conflict
+      this.conflicts.set(bookId, { ...conflict, info: this.describeConflict(cached, directory, files), diskFiles: files });
+      return null;
+    }
+    if (cached && this.hasUnsavedChanges(cached)) {
+      return this.raiseConflict(cached, directory, files, previous ?? null);
+    }
+
+    const book = await this.loadFromDisk(directory);
+    if (!book) {
+      // Unreadable (e.g. a hand edit with a syntax error): wait for the next change
+      if (previous !== undefined) {
+        this.directories.set(directory, { bookId, fingerprint, diskContent: previous });
+      }
+      return null;
+    }
+    return this.notify(cached ? 'reloaded' : 'added', book);
+  }
+
+  /**
+   * File names, modification times and sizes of a book directory; null if
+   * there is no book.json or a save is staging files
+   */
+  private static async fingerprint(directory: string): Promise<string | null> {
+    const backend = FileSystemService.getBackend();
+    const bookPath = `${BOOKS_DIR}/${directory}`;
+
+    const { files } = await backend.list(bookPath);
+    if (!files.includes('book.json')) return null;
+    const { files: storyFiles } = await backend.list(`${bookPath}/stories`);
+    if ([...files, ...storyFiles].some(file => file.endsWith('.tmp'))) return null;
+
+    const paths = ['book.json', ...storyFiles.filter(file => file.endsWith('.json')).map(file => `stories/${file}`)].sort();
+    const parts: string[] = [];
+    for (const path of paths) {
+      const info = await backend.stat(`${bookPath}/${path}`);
+      parts.push(`${path}:${info?.modifiedAt ?? '-'}:${info?.size ?? '-'}`);
+    }
+    return parts.join('|');
+  }
+
+  private static readBookId(files: BookDirectoryFiles): string | null {
+    try {
+      const id = JSON.parse(files.bookJson).id;
+      return typeof id === 'string' ? id : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * True if the cached book differs from what the app last saved or loaded
+   */
+  private static hasUnsavedChanges(book: Book): boolean {
+    const synced = this.appContent.get(book.id);
+    return synced !== undefined && synced !== contentKey(FileBasedStorageService.serializeBook(book));
+  }
+
+  /**
+   * Load a book directory into the cache in place of the app's version
+   */
+  private static async loadFromDisk(directory: string): Promise<Book | null> {
+    const book = await FileBasedStorageService.loadBook(directory);
+    if (!book) return null;
+
+    const isNew = !bookCache.get(book.id);
+    bookCache.setFromDisk(book);
+    this.appContent.set(book.id, contentKey(FileBasedStorageService.serializeBook(book)));
+    if (isNew) {
+      BookHistoryService.captureBaselines([book]);
+    } else {
+      // The external change becomes an undo step
+      BookHistoryService.recordSave(book);
+    }
+    await this.findGitMerge(directory, book);
+    return book;
+  }
+
+  // ========================================
+  // Conflicts
+  // ========================================
+
+  private static describeConflict(book: Book, directory: string, diskFiles: BookDirectoryFiles | null): ExternalChangeConflict {
+    let diskChanges: ExternalChangeConflict['diskChanges'];
+    if (diskFiles) {
+      try {
+        const appFiles = FileBasedStorageService.serializeBook(book);
+        diskChanges = diffBookFiles(
+          { bookJson: appFiles.bookJson, storyFiles: appFiles.stories },
+          { bookJson: diskFiles.bookJson, storyFiles: diskFiles.stories }
+        );
+      } catch {
+        // Files on disk that don't parse can still be chosen; there is just no summary
+      }
+    }
+    return {
+      bookId: book.id,
+      bookTitle: book.title,
+      directory,
+      detectedAt: new Date(),
+      deletedOnDisk: diskFiles === null,
+      ...(diskChanges ? { diskChanges } : {})
+    };
+  }
+
+  private static raiseConflict(
+    book: Book,
+    directory: string,
+    diskFiles: BookDirectoryFiles | null,
+    baseContent: string | null
+  ): ExternalBookChange {
+    this.conflicts.set(book.id, { info: this.describeConflict(book, directory, diskFiles), diskFiles, baseContent });
+    console.warn(`⚠️ "${book.title}" changed outside the app while it had unsaved changes`);
+    return this.notify('conflict', book);
+  }
+
+  static getConflicts(): ExternalChangeConflict[] {
+    return [...this.conflicts.values()].map(conflict => conflict.info);
+  }
+
+  /**
+   * Resolve a conflict. The version not chosen is kept as a snapshot.
+   * - keep-app: save the app's version over the files on disk
+   * - use-disk: replace the app's version with the one on disk (or drop the
+   *   book if it was deleted)
+   */
+  static async resolveConflict(bookId: string, resolution: ExternalConflictResolution): Promise<void> {
+    await this.enqueue(async () => {
+      const conflict = this.conflicts.get(bookId);
+      const book = bookCache.get(bookId);
+      if (!conflict || !book) {
+        this.conflicts.delete(bookId);
+        return;
+      }
+      const { info, diskFiles } = conflict;
+
+      if (resolution === 'keep-app') {
+        if (diskFiles) {
+          await BookSnapshotService.storeSnapshot(bookId, diskFiles, 'external-change', 'Version on disk, replaced by the app\'s version');
+        }
+        this.conflicts.delete(bookId);
+        this.pendingMerges.delete(bookId);
+        await StorageService.saveBook(book);
+        this.notify('resolved', book);
+        return;
+      }
+
+      await BookSnapshotService.createSnapshot(bookId, 'external-change', 'App version, replaced by the version on disk');
+      this.conflicts.delete(bookId);
+      this.pendingMerges.delete(bookId);
+
+      if (info.deletedOnDisk) {
+        bookCache.evict(bookId);
+        this.appContent.delete(bookId);
+        this.notify('removed', book);
+        return;
+      }
+
+      // Take the directory as it is now, which may be newer than when the conflict was found
+      const fingerprint = await this.fingerprint(info.directory);
+      const files = await FileBasedStorageService.readBookFiles(info.directory);
+      const reloaded = files ? await this.loadFromDisk(info.directory) : null;
+      if (!files || !reloaded) {
+        throw new Error(`The files of "${info.bookTitle}" on disk could not be loaded`);
+      }
+      this.directories.set(info.directory, { bookId, fingerprint, diskContent: contentKey(files) });
+      this.notify('reloaded', reloaded);
+    });
+  }
+
+  // ========================================
+  // Merging
+  // ========================================
+
+  /**
+   * Merge the app's version of a book in conflict with the version on disk,
+   * against the content both started from. Without conflicting edits the
+   * merge is saved right away; otherwise it waits for completeMerge.
+   *
+   * @returns The merge waiting for its conflicts to be resolved, or null if it was saved
+   * @throws If the book was deleted on disk or its files don't parse
+   */
+  static async mergeConflict(bookId: string): Promise<PendingBookMerge | null> {
+    return this.enqueue(async () => {
+      const conflict = this.conflicts.get(bookId);
+      const book = bookCache.get(bookId);
+      if (!conflict || !book) {
+        throw new Error('There is no conflict to merge for this book');
+      }
+      const { info, baseContent } = conflict;
+      if (info.deletedOnDisk) {
+        throw new Error(`"${info.bookTitle}" was deleted on disk; there is nothing to merge with`);
+      }
+
+      const fingerprint = await this.fingerprint(info.directory);
+      const diskFiles = await FileBasedStorageService.readBookFiles(info.directory);
+      if (!diskFiles) {
+        throw new Error(`The files of "${info.bookTitle}" on disk could not be loaded`);
+      }
+
+      const base: BookDirectoryFiles | null = baseContent ? JSON.parse(baseContent) : null;
+      const { data, conflicts } = BookMergeService.mergeBooks(base, FileBasedStorageService.serializeBook(book), diskFiles);
+      const merge: MergeState = {
+        info: { bookId, bookTitle: book.title, directory: info.directory, source: 'app', conflicts },
+        data,
+        diskFiles,
+        fingerprint
+      };
+
+      if (conflicts.length === 0) {
+        await this.saveMerge(merge, data);
+        return null;
+      }
+      this.pendingMerges.set(bookId, merge);
+      return merge.info;
+    });
+  }
+
+  static getPendingMerges(): PendingBookMerge[] {
+    return [...this.pendingMerges.values()].map(merge => merge.info);
+  }
+
+  /**
+   * Save a pending merge with its conflicts resolved
+   *
+   * @param resolutions - Side chosen per conflict id (unlisted conflicts keep 'ours')
+   */
+  static async completeMerge(bookId: string, resolutions: MergeResolutions): Promise<void> {
+    await this.enqueue(async () => {
+      const merge = this.pendingMerges.get(bookId);
+      if (!merge) return;
+
+      let data = merge.data;
+      if (!data) {
+        const files = await FileBasedStorageService.readBookFiles(merge.info.directory);
+        if (!files) {
+          throw new Error(`The files of "${merge.info.bookTitle}" on disk could not be loaded`);
+        }
+        data = BookMergeService.parseFiles(files);
+      }
+      BookMergeService.applyResolutions(data, merge.info.conflicts, resolutions);
+      await this.saveMerge(merge, data);
+    });
+  }
+
+  /**
+   * Set a pending merge aside. An app merge's conflict stays open; a git
+   * merge is offered again the next time its book is loaded.
+   */
+  static discardMerge(bookId: string): void {
+    this.pendingMerges.delete(bookId);
+  }
+
+  private static async saveMerge(merge: MergeState, data: BookMergeData): Promise<void> {
+    const { bookId, directory } = merge.info;
+
+    if (merge.diskFiles) {
+      await BookSnapshotService.storeSnapshot(bookId, merge.diskFiles, 'external-change', 'Version on disk, before merging');
+      await BookSnapshotService.createSnapshot(bookId, 'external-change', 'App version, before merging');
+      // The save replaces the version that was merged, not anything newer
+      this.directories.set(directory, { bookId, fingerprint: merge.fingerprint, diskContent: contentKey(merge.diskFiles) });
+      this.conflicts.delete(bookId);
+    } else {
+      await FileSystemService.getBackend().delete(`${BOOKS_DIR}/${directory}/${MERGE_CONFLICTS_FILE}`);
+    }
+    this.pendingMerges.delete(bookId);
+
+    const book = FileBasedStorageService.deserializeBook(data.book, data.stories);
+    await StorageService.saveBook(book);
+    this.notify('merged', book);
+  }
+
+  /**
+   * Offer the conflicts merge-book-driver.ts left in a book directory, unless
+   * they were all resolved by hand since (then the file is removed)
+   */
+  private static async findGitMerge(directory: string, book: Book): Promise<void> {
+    const backend = FileSystemService.getBackend();
+    const conflictsPath = `${BOOKS_DIR}/${directory}/${MERGE_CONFLICTS_FILE}`;
+    const content = await backend.readText(conflictsPath);
+    if (content === null) {
+      if (this.pendingMerges.get(book.id)?.info.source === 'git') {
+        this.pendingMerges.delete(book.id);
+      }
+      return;
+    }
+
+    const files = await FileBasedStorageService.readBookFiles(directory);
+    let conflicts: PendingBookMerge['conflicts'] = [];
+    try {
+      conflicts = files
+        ? BookMergeService.openConflicts(BookMergeService.parseFiles(files), BookMergeService.parseConflictFile(content))
+        : [];
+    } catch {
+      // A book file that doesn't parse: offer the merge again once it does
+      return;
+    }
+
+    if (conflicts.length === 0) {
+      await backend.delete(conflictsPath);
+      this.pendingMerges.delete(book.id);
+      return;
+    }
+    this.pendingMerges.set(book.id, {
+      info: { bookId: book.id, bookTitle: book.title, directory, source: 'git', conflicts },
+      data: null,
+      diskFiles: null,
+      fingerprint: null
+    });
+  }
+
+  // ========================================
+  // Saving
+  // ========================================
+
+  /**
+   * Run a save of a directory-format book unless its files changed outside
+   * the app since the app last read or wrote them. Saves of the same book are
+   * queued, so checks never see a save of ours in progress.
+   *
+   * @param book - Book being saved
+   * @param directory - Its directory under prompter-cache/books
+   * @param files - The files the save writes
+   * @param save - Writes the files
+   * @throws If the book is in conflict with changes on disk
+   */
+  static async guardSave(
+    book: Book,
+    directory: string,
+    files: BookDirectoryFiles,
+    save: () => Promise<void>
+  ): Promise<void> {
+    if (!this.active) {
+      return save();
+    }
+
+    const previous = this.saveQueues.get(book.id) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(async () => {
+      this.savingBookIds.add(book.id);
+      try {
+        await this.assertUnchangedOnDisk(book, directory);
+        await save();
+        const content = contentKey(files);
+        this.directories.set(directory, { bookId: book.id, fingerprint: null, diskContent: content });
+        this.appContent.set(book.id, content);
+      } finally {
+        this.savingBookIds.delete(book.id);
+      }
+    });
+
+    const queued = run.catch(() => undefined);
+    this.saveQueues.set(book.id, queued);
+    queued.then(() => {
+      if (this.saveQueues.get(book.id) === queued) {
+        this.saveQueues.delete(book.id);
+      }
+    });
+    return run;
+  }
+
+  private static async assertUnchangedOnDisk(book: Book, directory: string): Promise<void> {
+    if (this.conflicts.has(book.id)) {
+      throw new Error(`"${book.title}" was changed outside the app; resolve the conflict before saving`);
+    }
+
+    const state = this.directories.get(directory);
+    if (!state || state.bookId !== book.id) return;
+
+    const fingerprint = await this.fingerprint(directory);
+    if (fingerprint === null || fingerprint === state.fingerprint) return;
+
+    const files = await FileBasedStorageService.readBookFiles(directory);
+    const content = files ? contentKey(files) : state.diskContent;
+    state.fingerprint = fingerprint;
+    if (content === state.diskContent) return;
+
+    const baseContent = state.diskContent;
+    state.diskContent = content;
+    this.raiseConflict(book, directory, files, baseContent);
+    throw new Error(`"${book.title}" was changed outside the app; resolve the conflict before saving`);
+  }
+
+  // ========================================
+  // Subscription
+  // ========================================
+
+  static subscribe(listener: ExternalChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static notify(kind: ExternalChangeKind, book: Book): ExternalBookChange {
+    const change: ExternalBookChange = { kind, bookId: book.id, bookTitle: book.title, detectedAt: new Date() };
+    this.listeners.forEach(listener => listener(change));
+    return change;
+  }
+
+  /**
+   * Stop and forget all state (tests only)
+   */
+  static reset(): void {
+    this.stop();
+    this.directories.clear();
+    this.appContent.clear();
+    this.conflicts.clear();
+    this.pendingMerges.clear();
+    this.savingBookIds.clear();
+    this.saveQueues.clear();
+    this.checkChain = Promise.resolve();
+    this.listeners.clear();
+  }
+}
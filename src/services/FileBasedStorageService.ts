@@ -1,7 +1,16 @@
 import { Book } from '../models/Book';
 import { SlugService } from './SlugService';
 import { FileSystemService } from './FileSystemService';
-import { ElectronFileSystemService } from './ElectronFileSystemService';
+import { SaveJournalService } from './SaveJournalService';
+import { ExternalChangeService } from './ExternalChangeService';
+
+/**
+ * Files of a directory-format book (names relative to the book directory)
+ */
+export interface BookDirectoryFiles {
+  bookJson: string;
+  stories: Array<{ fileName: string; content: string }>;
+}
 
 /**
  * FileBasedStorageService - Handle reading/writing books in directory format
@@ -13,50 +22,74 @@ import { ElectronFileSystemService } from './ElectronFileSystemService';
  * Directory structure:
  * prompter-cache/books/{book-slug}/
  *   ├── book.json
+ *   ├── story-files.json (story files written by the last save)
  *   └── stories/
  *       ├── {story-slug-1}.json
  *       ├── {story-slug-2}.json
  *       └── ...
+ *
+ * Saves go through SaveJournalService, so a save interrupted midway is
+ * completed or discarded on the next load instead of mixing old and new files,
+ * and are refused while the book's files hold changes made outside the app
+ * (ExternalChangeService). A save only deletes story files the app wrote
+ * itself, so files added to stories/ by hand or by other tools are kept.
  */
 export class FileBasedStorageService {
   private static readonly BOOKS_BASE_PATH = 'prompter-cache/books';
+  private static readonly STORY_FILES_MANIFEST = 'story-files.json';
+
+  // Book slug → story files read by loadBook, for books saved before story-files.json existed
+  private static loadedStoryFiles: Map<string, string[]> = new Map();
 
   /**
-   * Save book to directory structure
-   * 
-   * @param book - Book to save
-   * @returns Success status with optional error message
+   * Serialize a book into the files of its directory
+   * Shared by saveBook and BookSnapshotService so snapshots hold exactly what is saved
+   *
+   * @param book - Book to serialize
+   * @returns book.json content and one file per story (unique slug file names)
    */
-  static async saveBook(book: Book): Promise<{ success: boolean; error?: string }> {
-    try {
-      // Generate book slug from title
-      const bookSlug = SlugService.generateSlug(book.title, 'book');
-      const bookPath = `${this.BOOKS_BASE_PATH}/${bookSlug}`;
-      const storiesPath = `${bookPath}/stories`;
+  static serializeBook(book: Book): BookDirectoryFiles {
+    // Clean book-level character data - remove transient url fields from imageGallery
+    const cleanedBookCharacters = book.characters.map(char => ({
+      ...char,
+      imageGallery: char.imageGallery?.map(img => ({
+        id: img.id,
+        model: img.model,
+        prompt: img.prompt,
+        timestamp: img.timestamp,
+        width: img.width,
+        height: img.height,
+        provenance: img.provenance,
+        starred: img.starred
+        // Exclude url - it's transient and loaded from filesystem on demand
+      }))
+    }));
 
-      // Create directories
-      if (FileSystemService.isElectron()) {
-        await ElectronFileSystemService.createDirectory(bookPath);
-        await ElectronFileSystemService.createDirectory(storiesPath);
-      } else {
-        // Browser mode - use File System Access API
-        const parentHandle = await FileSystemService.getDirectoryHandle();
-        if (!parentHandle || !('getDirectoryHandle' in parentHandle)) {
-          return {
-            success: false,
-            error: 'No directory selected. Please select a save directory in Settings.'
-          };
-        }
+    // Prepare book metadata (exclude stories)
+    const bookData = {
+      id: book.id,
+      title: book.title,
+      description: book.description,
+      backgroundSetup: book.backgroundSetup,
+      aspectRatio: book.aspectRatio,
+      style: book.style,
+      defaultLayout: book.defaultLayout,
+      promptTemplates: book.promptTemplates,
+      characters: cleanedBookCharacters,
+      createdAt: book.createdAt,
+      updatedAt: book.updatedAt
+    };
 
-        // Create prompter-cache/books structure
-        const cacheHandle = await parentHandle.getDirectoryHandle('prompter-cache', { create: true });
-        const booksHandle = await cacheHandle.getDirectoryHandle('books', { create: true });
-        const bookHandle = await booksHandle.getDirectoryHandle(bookSlug, { create: true });
-        await bookHandle.getDirectoryHandle('stories', { create: true });
-      }
+    // Serialize each story with unique slugs
+    const stories: BookDirectoryFiles['stories'] = [];
+    const existingSlugs = new Set<string>();
+    for (const story of book.stories) {
+      const baseSlug = SlugService.generateSlug(story.title, 'story');
+      const uniqueSlug = SlugService.generateUniqueSlug(baseSlug, existingSlugs);
+      existingSlugs.add(uniqueSlug);
 
-      // Clean book-level character data - remove transient url fields from imageGallery
-      const cleanedBookCharacters = book.characters.map(char => ({
+      // Clean character data - remove transient url fields from imageGallery
+      const cleanedCharacters = story.characters.map(char => ({
         ...char,
         imageGallery: char.imageGallery?.map(img => ({
           id: img.id,
@@ -64,106 +97,100 @@ export class FileBasedStorageService {
           prompt: img.prompt,
           timestamp: img.timestamp,
           width: img.width,
-          height: img.height
+          height: img.height,
+          provenance: img.provenance,
+          starred: img.starred
           // Exclude url - it's transient and loaded from filesystem on demand
         }))
       }));
 
-      // Prepare book metadata (exclude stories)
-      const bookData = {
-        id: book.id,
-        title: book.title,
-        description: book.description,
-        backgroundSetup: book.backgroundSetup,
-        aspectRatio: book.aspectRatio,
-        style: book.style,
-        defaultLayout: book.defaultLayout,
-        characters: cleanedBookCharacters,
-        createdAt: book.createdAt,
-        updatedAt: book.updatedAt
+      const storyData = {
+        id: story.id,
+        title: story.title,
+        description: story.description,
+        backgroundSetup: story.backgroundSetup,
+        diagramStyle: story.diagramStyle,
+        layout: story.layout,
+        avoid: story.avoid,
+        chapters: story.chapters?.length ? story.chapters : undefined,
+        characters: cleanedCharacters,
+        elements: story.elements,
+        scenes: story.scenes,
+        createdAt: story.createdAt,
+        updatedAt: story.updatedAt
       };
 
-      // Save book.json
-      const bookJsonPath = `${bookPath}/book.json`;
-      const bookJsonContent = JSON.stringify(bookData, null, 2);
-      
-      if (FileSystemService.isElectron()) {
-        await ElectronFileSystemService.writeFile(bookJsonPath, bookJsonContent);
-      } else {
-        // Browser mode
-        const parentHandle = await FileSystemService.getDirectoryHandle();
-        if (!parentHandle || !('getDirectoryHandle' in parentHandle)) {
-          return { success: false, error: 'Directory handle lost' };
-        }
-        
-        const cacheHandle = await parentHandle.getDirectoryHandle('prompter-cache', { create: false });
-        const booksHandle = await cacheHandle.getDirectoryHandle('books', { create: false });
-        const bookHandle = await booksHandle.getDirectoryHandle(bookSlug, { create: false });
-        
-        const fileHandle = await bookHandle.getFileHandle('book.json', { create: true });
-        const writable = await fileHandle.createWritable();
-        await writable.write(bookJsonContent);
-        await writable.close();
-      }
+      stories.push({ fileName: `${uniqueSlug}.json`, content: JSON.stringify(storyData, null, 2) });
+    }
+
+    return { bookJson: JSON.stringify(bookData, null, 2), stories };
+  }
+
+  /**
+   * Build a book from parsed book.json and story file data (the reverse of serializeBook)
+   *
+   * @param bookData - Parsed book.json
+   * @param stories - Parsed story files
+   */
+  static deserializeBook(bookData: object, stories: object[]): Book {
+    return new Book({ ...bookData, stories } as Partial<Book> & { title: string });
+  }
 
-      // Save each story with unique slugs
-      const existingSlugs = new Set<string>();
-      for (const story of book.stories) {
-        const baseSlug = SlugService.generateSlug(story.title, 'story');
-        const uniqueSlug = SlugService.generateUniqueSlug(baseSlug, existingSlugs);
-        existingSlugs.add(uniqueSlug);
-
-        // Clean character data - remove transient url fields from imageGallery
-        const cleanedCharacters = story.characters.map(char => ({
-          ...char,
-          imageGallery: char.imageGallery?.map(img => ({
-            id: img.id,
-            model: img.model,
-            prompt: img.prompt,
-            timestamp: img.timestamp,
-            width: img.width,
-            height: img.height
-            // Exclude url - it's transient and loaded from filesystem on demand
-          }))
-        }));
-
-        const storyData = {
-          id: story.id,
-          title: story.title,
-          description: story.description,
-          backgroundSetup: story.backgroundSetup,
-          diagramStyle: story.diagramStyle,
-          layout: story.layout,
-          characters: cleanedCharacters,
-          elements: story.elements,
-          scenes: story.scenes,
-          createdAt: story.createdAt,
-          updatedAt: story.updatedAt
+  /**
+   * Save book to directory structure
+   * 
+   * @param book - Book to save
+   * @returns Success status with optional error message
+   */
+  static async saveBook(book: Book): Promise<{ success: boolean; error?: string }> {
+    try {
+      // Generate book slug from title
+      const bookSlug = SlugService.generateSlug(book.title, 'book');
+      const bookPath = `${this.BOOKS_BASE_PATH}/${bookSlug}`;
+      const storiesPath = `${bookPath}/stories`;
+
+      const backend = FileSystemService.getBackend();
+      if (!await backend.isConfigured()) {
+        return {
+          success: false,
+          error: 'No directory selected. Please select a save directory in Settings.'
         };
+      }
 
-        const storyJsonPath = `${storiesPath}/${uniqueSlug}.json`;
-        const storyJsonContent = JSON.stringify(storyData, null, 2);
+      // Create directories
+      await backend.mkdir(bookPath);
+      await backend.mkdir(storiesPath);
+
+      const files = this.serializeBook(book);
+      await ExternalChangeService.guardSave(book, bookSlug, files, async () => {
+        const storyFileNames = files.stories.map(story => story.fileName);
+        const writes = [
+          { path: `${bookPath}/book.json`, content: files.bookJson },
+          ...files.stories.map(story => ({ path: `${storiesPath}/${story.fileName}`, content: story.content })),
+          {
+            path: `${bookPath}/${this.STORY_FILES_MANIFEST}`,
+            content: JSON.stringify({ version: 1, storyFiles: storyFileNames }, null, 2)
+          }
+        ];
 
-        if (FileSystemService.isElectron()) {
-          await ElectronFileSystemService.writeFile(storyJsonPath, storyJsonContent);
-        } else {
-          // Browser mode
-          const parentHandle = await FileSystemService.getDirectoryHandle();
-          if (!parentHandle || !('getDirectoryHandle' in parentHandle)) {
-            return { success: false, error: 'Directory handle lost' };
+        // Remove files of deleted or renamed stories, which would otherwise be
+        // loaded again - but only ones an earlier save wrote, or ones holding
+        // a story now written under another name (e.g. a hand-added file)
+        const previousFiles = new Set(await this.readStoryFilesManifest(bookPath) ?? this.loadedStoryFiles.get(bookSlug) ?? []);
+        const storyIds = new Set(book.stories.map(story => story.id));
+        const { files: existingFiles } = await backend.list(storiesPath);
+        const deletes: string[] = [];
+        for (const fileName of existingFiles) {
+          if (!fileName.endsWith('.json') || storyFileNames.includes(fileName)) continue;
+          if (previousFiles.has(fileName) || storyIds.has(await this.readStoryFileId(`${storiesPath}/${fileName}`) ?? '')) {
+            deletes.push(`${storiesPath}/${fileName}`);
           }
-          
-          const cacheHandle = await parentHandle.getDirectoryHandle('prompter-cache', { create: false });
-          const booksHandle = await cacheHandle.getDirectoryHandle('books', { create: false });
-          const bookHandle = await booksHandle.getDirectoryHandle(bookSlug, { create: false });
-          const storiesHandle = await bookHandle.getDirectoryHandle('stories', { create: false });
-          
-          const fileHandle = await storiesHandle.getFileHandle(`${uniqueSlug}.json`, { create: true });
-          const writable = await fileHandle.createWritable();
-          await writable.write(storyJsonContent);
-          await writable.close();
         }
-      }
+
+        // All files are replaced together, or not at all
+        await SaveJournalService.commit(book, writes, deletes);
+        this.loadedStoryFiles.delete(bookSlug);
+      });
 
       return { success: true };
     } catch (error) {
@@ -175,6 +202,37 @@ export class FileBasedStorageService {
     }
   }
 
+  /**
+   * ID of the story in a story file, or null if it can't be read
+   */
+  private static async readStoryFileId(path: string): Promise<string | null> {
+    try {
+      const content = await FileSystemService.getBackend().readText(path);
+      const id = content ? (JSON.parse(content) as { id?: unknown }).id : null;
+      return typeof id === 'string' ? id : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Story file names recorded by the last save, or null for books saved
+   * before the manifest existed (or with an unreadable one)
+   */
+  private static async readStoryFilesManifest(bookPath: string): Promise<string[] | null> {
+    const content = await FileSystemService.getBackend().readText(`${bookPath}/${this.STORY_FILES_MANIFEST}`);
+    if (content === null) {
+      return null;
+    }
+
+    try {
+      const manifest = JSON.parse(content) as { storyFiles?: unknown };
+      return Array.isArray(manifest.storyFiles) ? manifest.storyFiles.filter(name => typeof name === 'string') : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Load book from directory structure
    * 
@@ -183,84 +241,31 @@ export class FileBasedStorageService {
    */
   static async loadBook(bookSlugOrId: string): Promise<Book | null> {
     try {
+      const backend = FileSystemService.getBackend();
+      if (!await backend.isConfigured()) {
+        return null;
+      }
+
       // Try loading by slug first
-      let bookJsonPath = `${this.BOOKS_BASE_PATH}/${bookSlugOrId}/book.json`;
-      let bookJsonContent: string | null = null;
+      let bookJsonContent = await backend.readText(`${this.BOOKS_BASE_PATH}/${bookSlugOrId}/book.json`);
       let bookSlug = bookSlugOrId;
 
-      if (FileSystemService.isElectron()) {
-        // Try by slug
-        const exists = await ElectronFileSystemService.fileExists(bookJsonPath);
-        if (exists) {
-          bookJsonContent = await ElectronFileSystemService.readFile(bookJsonPath);
-        }
-
-        // If not found, search all directories for matching book ID
-        if (!bookJsonContent) {
-          const { directories } = await ElectronFileSystemService.listDirectory(this.BOOKS_BASE_PATH);
-          
-          for (const dir of directories) {
-            const testPath = `${this.BOOKS_BASE_PATH}/${dir}/book.json`;
-            const testExists = await ElectronFileSystemService.fileExists(testPath);
-            
-            if (testExists) {
-              const testContent = await ElectronFileSystemService.readFile(testPath);
-              if (testContent) {
-                const testData = JSON.parse(testContent);
-                if (testData.id === bookSlugOrId) {
-                  bookJsonContent = testContent;
-                  bookSlug = dir;
-                  bookJsonPath = testPath;
-                  break;
-                }
-              }
-            }
-          }
-        }
-      } else {
-        // Browser mode
-        const parentHandle = await FileSystemService.getDirectoryHandle();
-        if (!parentHandle || !('getDirectoryHandle' in parentHandle)) {
-          return null;
-        }
+      // If not found, search all directories for matching book ID
+      if (!bookJsonContent) {
+        const { directories } = await backend.list(this.BOOKS_BASE_PATH);
 
-        try {
-          const cacheHandle = await parentHandle.getDirectoryHandle('prompter-cache', { create: false });
-          const booksHandle = await cacheHandle.getDirectoryHandle('books', { create: false });
-          
-          // Try by slug
+        for (const dir of directories) {
           try {
-            const bookHandle = await booksHandle.getDirectoryHandle(bookSlugOrId, { create: false });
-            const fileHandle = await bookHandle.getFileHandle('book.json', { create: false });
-            const file = await fileHandle.getFile();
-            bookJsonContent = await file.text();
-            bookSlug = bookSlugOrId;
-          } catch {
-            // Not found by slug, search by ID
-            // @ts-ignore - values() is an async iterator but TypeScript doesn't recognize it
-            for await (const entry of booksHandle.values()) {
-              if (entry.kind === 'directory') {
-                try {
-                  const dirHandle = await booksHandle.getDirectoryHandle(entry.name, { create: false });
-                  const fileHandle = await dirHandle.getFileHandle('book.json', { create: false });
-                  const file = await fileHandle.getFile();
-                  const content = await file.text();
-                  const data = JSON.parse(content);
-                  
-                  if (data.id === bookSlugOrId) {
-                    bookJsonContent = content;
-                    bookSlug = entry.name;
-                    break;
-                  }
-                } catch {
-                  // Skip this directory
-                  continue;
-                }
-              }
+            const testContent = await backend.readText(`${this.BOOKS_BASE_PATH}/${dir}/book.json`);
+            if (testContent && JSON.parse(testContent).id === bookSlugOrId) {
+              bookJsonContent = testContent;
+              bookSlug = dir;
+              break;
             }
+          } catch {
+            // Skip this directory
+            continue;
           }
-        } catch {
-          return null;
         }
       }
 
@@ -274,55 +279,53 @@ export class FileBasedStorageService {
       const stories = [];
       const storiesPath = `${this.BOOKS_BASE_PATH}/${bookSlug}/stories`;
 
-      if (FileSystemService.isElectron()) {
-        const { files } = await ElectronFileSystemService.listDirectory(storiesPath);
-        
-        for (const file of files) {
-          if (file.endsWith('.json')) {
-            const storyPath = `${storiesPath}/${file}`;
-            const storyContent = await ElectronFileSystemService.readFile(storyPath);
-            
-            if (storyContent) {
-              stories.push(JSON.parse(storyContent));
-            }
-          }
-        }
-      } else {
-        // Browser mode
-        const parentHandle = await FileSystemService.getDirectoryHandle();
-        if (parentHandle && 'getDirectoryHandle' in parentHandle) {
-          try {
-            const cacheHandle = await parentHandle.getDirectoryHandle('prompter-cache', { create: false });
-            const booksHandle = await cacheHandle.getDirectoryHandle('books', { create: false });
-            const bookHandle = await booksHandle.getDirectoryHandle(bookSlug, { create: false });
-            const storiesHandle = await bookHandle.getDirectoryHandle('stories', { create: false });
-            
-            // @ts-ignore - values() is an async iterator but TypeScript doesn't recognize it
-            for await (const entry of storiesHandle.values()) {
-              if (entry.kind === 'file' && entry.name.endsWith('.json')) {
-                const fileHandle = await storiesHandle.getFileHandle(entry.name, { create: false });
-                const file = await fileHandle.getFile();
-                const content = await file.text();
-                stories.push(JSON.parse(content));
-              }
-            }
-          } catch {
-            // Stories directory doesn't exist or error reading
+      const { files } = await backend.list(storiesPath);
+      this.loadedStoryFiles.set(bookSlug, files.filter(file => file.endsWith('.json')));
+
+      for (const file of files) {
+        if (file.endsWith('.json')) {
+          const storyContent = await backend.readText(`${storiesPath}/${file}`);
+
+          if (storyContent) {
+            stories.push(JSON.parse(storyContent));
           }
         }
       }
 
       // Reconstruct Book object
-      return new Book({
-        ...bookData,
-        stories
-      });
+      return this.deserializeBook(bookData, stories);
     } catch (error) {
       console.error('Error loading book from directory format:', error);
       return null;
     }
   }
 
+  /**
+   * Read the files of a book directory as they are on disk
+   *
+   * @param bookSlug - Directory name under prompter-cache/books
+   * @returns book.json and story file contents, or null if there is no book.json
+   */
+  static async readBookFiles(bookSlug: string): Promise<BookDirectoryFiles | null> {
+    const backend = FileSystemService.getBackend();
+    const bookPath = `${this.BOOKS_BASE_PATH}/${bookSlug}`;
+
+    const bookJson = await backend.readText(`${bookPath}/book.json`);
+    if (bookJson === null) {
+      return null;
+    }
+
+    const stories: BookDirectoryFiles['stories'] = [];
+    const { files } = await backend.list(`${bookPath}/stories`);
+    for (const fileName of files.filter(file => file.endsWith('.json'))) {
+      const content = await backend.readText(`${bookPath}/stories/${fileName}`);
+      if (content !== null) {
+        stories.push({ fileName, content });
+      }
+    }
+    return { bookJson, stories };
+  }
+
   /**
    * Check if a book exists in directory format
    * 
@@ -332,26 +335,8 @@ export class FileBasedStorageService {
   static async isDirectoryFormat(bookSlugOrId: string): Promise<boolean> {
     try {
       const bookJsonPath = `${this.BOOKS_BASE_PATH}/${bookSlugOrId}/book.json`;
-      
-      if (FileSystemService.isElectron()) {
-        return await ElectronFileSystemService.fileExists(bookJsonPath);
-      } else {
-        // Browser mode
-        const parentHandle = await FileSystemService.getDirectoryHandle();
-        if (!parentHandle || !('getDirectoryHandle' in parentHandle)) {
-          return false;
-        }
 
-        try {
-          const cacheHandle = await parentHandle.getDirectoryHandle('prompter-cache', { create: false });
-          const booksHandle = await cacheHandle.getDirectoryHandle('books', { create: false });
-          const bookHandle = await booksHandle.getDirectoryHandle(bookSlugOrId, { create: false });
-          await bookHandle.getFileHandle('book.json', { create: false });
-          return true;
-        } catch {
-          return false;
-        }
-      }
+      return await FileSystemService.getBackend().exists(bookJsonPath);
     } catch {
       return false;
     }
@@ -1,13 +1,27 @@
 // File System Access API Service for automatic image saving
+// All file I/O goes through a StorageBackend (see getBackend)
+import type { StorageBackend } from './StorageBackend';
+import { BrowserStorageBackend } from './BrowserStorageBackend';
+import { ElectronStorageBackend } from './ElectronStorageBackend';
+import { ImageStoreService } from './ImageStoreService';
+
 const DB_NAME = 'StoryPrompterFS';
 const DB_VERSION = 1;
 const STORE_NAME = 'fileHandles';
 const DIRECTORY_KEY = 'saveDirectory';
 const CACHE_DIR_NAME = 'prompter-cache'; // Visible folder name (not hidden with dot)
+const BOOKS_DIR = `${CACHE_DIR_NAME}/books`;
+const APP_METADATA_PATH = `${CACHE_DIR_NAME}/app-metadata.json`;
+const PROMPTS_PATH = `${CACHE_DIR_NAME}/prompts.json`;
+// Pre-image-store layout, still read until migrated (see ImageStoreService)
+const IMAGE_DIRECTORIES = [`${CACHE_DIR_NAME}/scenes`, `${CACHE_DIR_NAME}/characters`, CACHE_DIR_NAME];
 
 export class FileSystemService {
   private static db: IDBDatabase | null = null;
   private static directoryHandle: FileSystemDirectoryHandle | null = null;
+  private static backendOverride: StorageBackend | null = null;
+  private static browserBackend: BrowserStorageBackend | null = null;
+  private static electronBackend: ElectronStorageBackend | null = null;
 
   /**
    * Check if running in Electron
@@ -299,6 +313,37 @@ export class FileSystemService {
     });
   }
 
+  // ========================================
+  // Storage Backend
+  // ========================================
+
+  /**
+   * The storage backend every file operation goes through: the one set with
+   * setBackend(), otherwise Electron IPC or the selected browser directory
+   */
+  static getBackend(): StorageBackend {
+    if (this.backendOverride) {
+      return this.backendOverride;
+    }
+    if (this.isElectron()) {
+      this.electronBackend ??= new ElectronStorageBackend();
+      return this.electronBackend;
+    }
+    this.browserBackend ??= new BrowserStorageBackend(async () => {
+      const handle = await this.getDirectoryHandle();
+      return handle && 'getDirectoryHandle' in handle ? handle : null;
+    });
+    return this.browserBackend;
+  }
+
+  /**
+   * Use a specific backend (e.g., MemoryStorageBackend in tests, NodeStorageBackend
+   * in scripts). Pass null to go back to platform detection.
+   */
+  static setBackend(backend: StorageBackend | null): void {
+    this.backendOverride = backend;
+  }
+
   // Save image to book subdirectory
   static async saveImage(
     imageDataUrl: string,
@@ -306,8 +351,8 @@ export class FileSystemService {
     sceneTitle: string
   ): Promise<{ success: boolean; path?: string; error?: string }> {
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) {
+      const backend = this.getBackend();
+      if (!await backend.isConfigured()) {
         return {
           success: false,
           error: 'No directory selected. Please select a save directory in Settings.'
@@ -318,27 +363,16 @@ export class FileSystemService {
       const sanitizedBookTitle = this.sanitizeFilename(bookTitle);
       const sanitizedSceneTitle = this.sanitizeFilename(sceneTitle);
 
-      // Create or get book subdirectory
-      const bookDirHandle = await parentHandle.getDirectoryHandle(sanitizedBookTitle, { create: true });
-
       // Generate filename with timestamp
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
       const filename = `${sanitizedSceneTitle}_${timestamp}.png`;
+      const path = `${sanitizedBookTitle}/${filename}`;
 
-      // Create file
-      const fileHandle = await bookDirHandle.getFileHandle(filename, { create: true });
-      const writable = await fileHandle.createWritable();
-
-      // Convert data URL to blob
-      const blob = await this.dataURLtoBlob(imageDataUrl);
-
-      // Write blob to file
-      await writable.write(blob);
-      await writable.close();
+      await backend.writeBinary(path, await this.dataURLtoBytes(imageDataUrl));
 
       return {
         success: true,
-        path: `${sanitizedBookTitle}/${filename}`
+        path
       };
     } catch (error) {
       console.error('Error saving image:', error);
@@ -357,14 +391,14 @@ export class FileSystemService {
       .substring(0, 100); // Limit length
   }
 
-  // Convert data URL to Blob
-  private static async dataURLtoBlob(dataURL: string): Promise<Blob> {
+  // Convert data URL (or blob:/http: URL) to bytes
+  private static async dataURLtoBytes(dataURL: string): Promise<Uint8Array> {
     const response = await fetch(dataURL);
-    return response.blob();
+    return new Uint8Array(await response.arrayBuffer());
   }
 
   /**
-   * Save image with specific ID to prompter-cache directory
+   * Save image with specific ID to the image store (see ImageStoreService)
    * Used for automatic image storage (scene images, character images)
    */
   static async saveImageById(
@@ -372,61 +406,24 @@ export class FileSystemService {
     imageDataUrl: string,
     metadata?: { sceneId?: string; characterName?: string; modelName?: string }
   ): Promise<{ success: boolean; path?: string; error?: string }> {
-    // Route to Electron implementation if in Electron mode
-    if (this.isElectron()) {
-      const { ElectronFileSystemService } = await import('./ElectronFileSystemService');
-      return ElectronFileSystemService.saveImageById(imageId, imageDataUrl, metadata);
-    }
-
-    // Browser implementation
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) {
+      const backend = this.getBackend();
+      if (!await backend.isConfigured()) {
         return {
           success: false,
           error: 'No directory selected. Images will be stored in browser storage only.'
         };
       }
 
-      // Create prompter-cache subdirectory
-      const cacheHandle = await parentHandle.getDirectoryHandle(CACHE_DIR_NAME, { create: true });
-      
-      // Organize by type
-      let typeHandle: FileSystemDirectoryHandle;
-      if (metadata?.sceneId) {
-        typeHandle = await cacheHandle.getDirectoryHandle('scenes', { create: true });
-      } else if (metadata?.characterName) {
-        typeHandle = await cacheHandle.getDirectoryHandle('characters', { create: true });
-      } else {
-        typeHandle = cacheHandle;
-      }
-
-      // Create file with imageId as name
-      const filename = `${imageId}.png`;
-      const fileHandle = await typeHandle.getFileHandle(filename, { create: true });
-      const writable = await fileHandle.createWritable();
-
-      // Convert data URL to blob
-      const blob = await this.dataURLtoBlob(imageDataUrl);
-
-      // Write blob to file
-      await writable.write(blob);
-      await writable.close();
-
-      // Also save metadata as JSON
-      const metadataFilename = `${imageId}.json`;
-      const metadataHandle = await typeHandle.getFileHandle(metadataFilename, { create: true });
-      const metadataWritable = await metadataHandle.createWritable();
-      await metadataWritable.write(JSON.stringify({
-        id: imageId,
-        timestamp: new Date().toISOString(),
+      // Identical bytes are stored once, whatever the ID
+      const { path } = await ImageStoreService.putImage(imageId, await this.dataURLtoBytes(imageDataUrl), {
+        kind: metadata?.sceneId ? 'scene' : metadata?.characterName ? 'character' : 'other',
         ...metadata
-      }));
-      await metadataWritable.close();
+      });
 
       return {
         success: true,
-        path: `${CACHE_DIR_NAME}/${metadata?.sceneId ? 'scenes' : metadata?.characterName ? 'characters' : ''}/${filename}`
+        path
       };
     } catch (error) {
       console.error('Error saving image by ID:', error);
@@ -439,41 +436,21 @@ export class FileSystemService {
 
   /**
    * Load image by ID from prompter-cache directory
+   * @returns Blob URL of the image, or null if not found
    */
   static async loadImageById(imageId: string): Promise<string | null> {
-    // Route to Electron implementation if in Electron mode
-    if (this.isElectron()) {
-      const { ElectronFileSystemService } = await import('./ElectronFileSystemService');
-      return ElectronFileSystemService.loadImageById(imageId);
-    }
-
-    // Browser implementation
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) {
+      const backend = this.getBackend();
+      if (!await backend.isConfigured()) {
         return null;
       }
 
-      // Try prompter-cache subdirectory
-      const cacheHandle = await parentHandle.getDirectoryHandle(CACHE_DIR_NAME, { create: false });
-      
-      // Try both scenes and characters directories
-      const directories = ['scenes', 'characters', '.'];
-      
-      for (const dir of directories) {
-        try {
-          const typeHandle = dir === '.' ? cacheHandle : await cacheHandle.getDirectoryHandle(dir, { create: false });
-          const filename = `${imageId}.png`;
-          const fileHandle = await typeHandle.getFileHandle(filename, { create: false });
-          const file = await fileHandle.getFile();
-          const blob = new Blob([await file.arrayBuffer()], { type: 'image/png' });
-          return URL.createObjectURL(blob);
-        } catch {
-          // Try next directory
-          continue;
-        }
+      const data = await this.readImageBytes(imageId);
+      if (data) {
+        const blob = new Blob([data as Uint8Array<ArrayBuffer>], { type: 'image/png' });
+        return URL.createObjectURL(blob);
       }
-      
+
       return null;
     } catch (error) {
       console.error('Error loading image by ID:', error);
@@ -485,49 +462,79 @@ export class FileSystemService {
    * Delete image by ID from prompter-cache directory
    */
   static async deleteImageById(imageId: string): Promise<boolean> {
-    // Route to Electron implementation if in Electron mode
-    if (this.isElectron()) {
-      const { ElectronFileSystemService } = await import('./ElectronFileSystemService');
-      return ElectronFileSystemService.deleteImageById(imageId);
-    }
-
-    // Browser implementation
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) {
+      const backend = this.getBackend();
+      if (!await backend.isConfigured()) {
         return false;
       }
 
-      const cacheHandle = await parentHandle.getDirectoryHandle(CACHE_DIR_NAME, { create: false });
-      
-      // Try both scenes and characters directories
-      const directories = ['scenes', 'characters', '.'];
-      
-      for (const dir of directories) {
-        try {
-          const typeHandle = dir === '.' ? cacheHandle : await cacheHandle.getDirectoryHandle(dir, { create: false });
-          await typeHandle.removeEntry(`${imageId}.png`);
-          await typeHandle.removeEntry(`${imageId}.json`).catch(() => {}); // Ignore if metadata doesn't exist
-          return true;
-        } catch {
-          continue;
+      // The blob itself is deleted by ImageStoreService.collectGarbage once unused
+      let deleted = await ImageStoreService.removeImage(imageId);
+
+      // Images not yet migrated to the store: try scenes, characters, then root
+      for (const dir of IMAGE_DIRECTORIES) {
+        if (await backend.delete(`${dir}/${imageId}.png`)) {
+          await backend.delete(`${dir}/${imageId}.json`).catch(() => false); // Ignore if metadata doesn't exist
+          deleted = true;
+          break;
         }
       }
-      
-      return false;
+
+      return deleted;
     } catch (error) {
       console.error('Error deleting image by ID:', error);
       return false;
     }
   }
 
+  /**
+   * Bytes of an image, from the image store or the old per-ID layout
+   */
+  static async readImageBytes(imageId: string): Promise<Uint8Array | null> {
+    const stored = await ImageStoreService.readImage(imageId);
+    if (stored) {
+      return stored;
+    }
+
+    const backend = this.getBackend();
+    for (const dir of IMAGE_DIRECTORIES) {
+      const data = await backend.readBinary(`${dir}/${imageId}.png`);
+      if (data) {
+        return data;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check whether an image is stored, in the image store or the old layout
+   */
+  static async imageExists(imageId: string): Promise<boolean> {
+    try {
+      if (await ImageStoreService.hasImage(imageId)) {
+        return true;
+      }
+      const backend = this.getBackend();
+      for (const dir of IMAGE_DIRECTORIES) {
+        if (await backend.exists(`${dir}/${imageId}.png`)) {
+          return true;
+        }
+      }
+      return false;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Check if filesystem storage is available and configured
    */
   static async isConfigured(): Promise<boolean> {
-    if (!this.isSupported()) return false;
-    const handle = await this.getDirectoryHandle();
-    return handle !== null;
+    try {
+      return await this.getBackend().isConfigured();
+    } catch {
+      return false;
+    }
   }
 
   /**
@@ -537,30 +544,7 @@ export class FileSystemService {
    */
   static async fileExists(path: string): Promise<boolean> {
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) return false;
-
-      const parts = path.split('/');
-      let currentHandle: FileSystemDirectoryHandle | FileSystemFileHandle = parentHandle;
-
-      // Navigate through directories
-      for (let i = 0; i < parts.length - 1; i++) {
-        if (currentHandle.kind === 'directory') {
-          currentHandle = await (currentHandle as FileSystemDirectoryHandle).getDirectoryHandle(
-            parts[i],
-            { create: false }
-          );
-        }
-      }
-
-      // Check for the file
-      const filename = parts[parts.length - 1];
-      if (currentHandle.kind === 'directory') {
-        await (currentHandle as FileSystemDirectoryHandle).getFileHandle(filename, { create: false });
-        return true;
-      }
-
-      return false;
+      return await this.getBackend().exists(path);
     } catch {
       return false;
     }
@@ -573,34 +557,8 @@ export class FileSystemService {
    */
   static async getFileSize(path: string): Promise<number | null> {
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) return null;
-
-      const parts = path.split('/');
-      let currentHandle: FileSystemDirectoryHandle | FileSystemFileHandle = parentHandle;
-
-      // Navigate through directories
-      for (let i = 0; i < parts.length - 1; i++) {
-        if (currentHandle.kind === 'directory') {
-          currentHandle = await (currentHandle as FileSystemDirectoryHandle).getDirectoryHandle(
-            parts[i],
-            { create: false }
-          );
-        }
-      }
-
-      // Get the file
-      const filename = parts[parts.length - 1];
-      if (currentHandle.kind === 'directory') {
-        const fileHandle = await (currentHandle as FileSystemDirectoryHandle).getFileHandle(
-          filename,
-          { create: false }
-        );
-        const file = await fileHandle.getFile();
-        return file.size;
-      }
-
-      return null;
+      const data = await this.getBackend().readBinary(path);
+      return data ? data.byteLength : null;
     } catch {
       return null;
     }
@@ -617,33 +575,15 @@ export class FileSystemService {
     imageDataUrl: string
   ): Promise<{ success: boolean; path?: string; error?: string }> {
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) {
+      const backend = this.getBackend();
+      if (!await backend.isConfigured()) {
         return {
           success: false,
           error: 'No directory selected. Please select a save directory in Settings.'
         };
       }
 
-      const parts = path.split('/');
-      const filename = parts.pop()!;
-      let currentHandle: FileSystemDirectoryHandle = parentHandle;
-
-      // Create directory structure
-      for (const dir of parts) {
-        currentHandle = await currentHandle.getDirectoryHandle(dir, { create: true });
-      }
-
-      // Create file
-      const fileHandle = await currentHandle.getFileHandle(filename, { create: true });
-      const writable = await fileHandle.createWritable();
-
-      // Convert data URL to blob
-      const blob = await this.dataURLtoBlob(imageDataUrl);
-
-      // Write blob to file
-      await writable.write(blob);
-      await writable.close();
+      await backend.writeBinary(path, await this.dataURLtoBytes(imageDataUrl));
 
       return {
         success: true,
@@ -658,6 +598,59 @@ export class FileSystemService {
     }
   }
 
+  // ========================================
+  // Generic Text File Methods
+  // ========================================
+
+  /**
+   * Read a text file
+   * @param path Path relative to root directory
+   * @returns File contents, or null if the file doesn't exist
+   */
+  static async readTextFile(path: string): Promise<string | null> {
+    try {
+      return await this.getBackend().readText(path);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write a text file, creating parent directories as needed
+   * @param path Path relative to root directory
+   * @param content Text content
+   * @returns Success status
+   */
+  static async writeTextFile(path: string, content: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const backend = this.getBackend();
+      if (!await backend.isConfigured()) {
+        return { success: false, error: 'Filesystem not configured' };
+      }
+      await backend.writeText(path, content);
+      return { success: true };
+    } catch (error) {
+      console.error(`Error writing file ${path}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to write file'
+      };
+    }
+  }
+
+  /**
+   * Delete a file
+   * @param path Path relative to root directory
+   * @returns true if the file was deleted
+   */
+  static async deleteFile(path: string): Promise<boolean> {
+    try {
+      return await this.getBackend().delete(path);
+    } catch {
+      return false;
+    }
+  }
+
   // ========================================
   // Book Metadata Methods (Backup Storage)
   // ========================================
@@ -672,37 +665,20 @@ export class FileSystemService {
     bookId: string,
     bookData: string
   ): Promise<{ success: boolean; path?: string; error?: string }> {
-    // Route to Electron implementation if in Electron mode
-    if (this.isElectron()) {
-      const { ElectronFileSystemService } = await import('./ElectronFileSystemService');
-      return ElectronFileSystemService.saveBookMetadata(bookId, bookData);
-    }
-
-    // Browser implementation
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) {
+      const backend = this.getBackend();
+      if (!await backend.isConfigured()) {
         // Not configured - silently fail (backup only)
         return { success: false, error: 'Filesystem not configured' };
       }
 
-      // Create prompter-cache/books directory
-      const cacheHandle = await parentHandle.getDirectoryHandle(CACHE_DIR_NAME, { create: true });
-      const booksHandle = await cacheHandle.getDirectoryHandle('books', { create: true });
-
-      // Save book as JSON file
-      const filename = `${bookId}.json`;
-      const fileHandle = await booksHandle.getFileHandle(filename, { create: true });
-      const writable = await fileHandle.createWritable();
-
-      // Write JSON string as blob
-      const blob = new Blob([bookData], { type: 'application/json' });
-      await writable.write(blob);
-      await writable.close();
+      // Save book as JSON file in prompter-cache/books
+      const path = `${BOOKS_DIR}/${bookId}.json`;
+      await backend.writeText(path, bookData);
 
       return {
         success: true,
-        path: `${CACHE_DIR_NAME}/books/${filename}`
+        path
       };
     } catch (error) {
       console.error('Error saving book metadata to filesystem:', error);
@@ -720,22 +696,9 @@ export class FileSystemService {
    */
   static async loadBookMetadata(bookId: string): Promise<string | null> {
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) {
-        return null;
-      }
-
-      const cacheHandle = await parentHandle.getDirectoryHandle(CACHE_DIR_NAME, { create: false });
-      const booksHandle = await cacheHandle.getDirectoryHandle('books', { create: false });
-      
-      const filename = `${bookId}.json`;
-      const fileHandle = await booksHandle.getFileHandle(filename, { create: false });
-      const file = await fileHandle.getFile();
-      const text = await file.text();
-      
-      return text;
-    } catch (error) {
-      // File doesn't exist or error reading - return null
+      return await this.getBackend().readText(`${BOOKS_DIR}/${bookId}.json`);
+    } catch {
+      // Error reading - return null
       return null;
     }
   }
@@ -745,39 +708,27 @@ export class FileSystemService {
    * @returns Map of bookId -> book JSON string
    */
   static async loadAllBooksMetadata(): Promise<Map<string, string>> {
-    // Route to Electron implementation if in Electron mode
-    if (this.isElectron()) {
-      const { ElectronFileSystemService } = await import('./ElectronFileSystemService');
-      return ElectronFileSystemService.loadAllBooksMetadata();
-    }
-
-    // Browser implementation
     const books = new Map<string, string>();
     
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) {
+      const backend = this.getBackend();
+      if (!await backend.isConfigured()) {
         return books;
       }
 
-      const cacheHandle = await parentHandle.getDirectoryHandle(CACHE_DIR_NAME, { create: false });
-      const booksHandle = await cacheHandle.getDirectoryHandle('books', { create: false });
-      
       // Iterate through all files in books directory
-      for await (const entry of booksHandle.values()) {
-        if (entry.kind === 'file' && entry.name.endsWith('.json')) {
-          try {
-            const fileHandle = await booksHandle.getFileHandle(entry.name, { create: false });
-            const file = await fileHandle.getFile();
-            const text = await file.text();
-            
+      const { files } = await backend.list(BOOKS_DIR);
+      for (const filename of files) {
+        if (!filename.endsWith('.json')) continue;
+        try {
+          const text = await backend.readText(`${BOOKS_DIR}/${filename}`);
+          if (text) {
             // Extract bookId from filename (remove .json extension)
-            const bookId = entry.name.replace('.json', '');
-            books.set(bookId, text);
-          } catch (error) {
-            console.error(`Error reading book file ${entry.name}:`, error);
-            // Continue with other files
+            books.set(filename.replace('.json', ''), text);
           }
+        } catch (error) {
+          console.error(`Error reading book file ${filename}:`, error);
+          // Continue with other files
         }
       }
     } catch (error) {
@@ -795,18 +746,7 @@ export class FileSystemService {
    */
   static async deleteBookMetadata(bookId: string): Promise<boolean> {
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) {
-        return false;
-      }
-
-      const cacheHandle = await parentHandle.getDirectoryHandle(CACHE_DIR_NAME, { create: false });
-      const booksHandle = await cacheHandle.getDirectoryHandle('books', { create: false });
-      
-      const filename = `${bookId}.json`;
-      await booksHandle.removeEntry(filename);
-      
-      return true;
+      return await this.getBackend().delete(`${BOOKS_DIR}/${bookId}.json`);
     } catch (error) {
       console.error('Error deleting book metadata from filesystem:', error);
       return false;
@@ -826,44 +766,29 @@ export class FileSystemService {
     activeBookId?: string | null;
     settings?: any;
   }): Promise<{ success: boolean; error?: string }> {
-    // Route to Electron implementation if in Electron mode
-    if (this.isElectron()) {
-      const { ElectronFileSystemService } = await import('./ElectronFileSystemService');
-      return ElectronFileSystemService.saveAppMetadata(metadata);
-    }
-
-    // Browser implementation
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) {
+      const backend = this.getBackend();
+      if (!await backend.isConfigured()) {
         return { success: false, error: 'Filesystem not configured' };
       }
 
-      const cacheHandle = await parentHandle.getDirectoryHandle(CACHE_DIR_NAME, { create: true });
-      
       // Load existing metadata to merge
       let existingMetadata: any = {};
       try {
-        const existingHandle = await cacheHandle.getFileHandle('app-metadata.json', { create: false });
-        const existingFile = await existingHandle.getFile();
-        const existingText = await existingFile.text();
-        existingMetadata = JSON.parse(existingText);
+        const existingText = await backend.readText(APP_METADATA_PATH);
+        if (existingText) {
+          existingMetadata = JSON.parse(existingText);
+        }
       } catch {
-        // File doesn't exist yet - start fresh
+        // Unreadable - start fresh
       }
 
-      const metadataHandle = await cacheHandle.getFileHandle('app-metadata.json', { create: true });
-      const writable = await metadataHandle.createWritable();
-
       const metadataJson = JSON.stringify({
         ...existingMetadata,
         ...metadata,
         lastUpdated: new Date().toISOString()
       }, null, 2);
-      
-      const blob = new Blob([metadataJson], { type: 'application/json' });
-      await writable.write(blob);
-      await writable.close();
+      await backend.writeText(APP_METADATA_PATH, metadataJson);
 
       return { success: true };
     } catch (error) {
@@ -880,28 +805,11 @@ export class FileSystemService {
    * @returns App metadata or null if not found
    */
   static async loadAppMetadata(): Promise<{ activeBookId?: string | null; settings?: any } | null> {
-    // Route to Electron implementation if in Electron mode
-    if (this.isElectron()) {
-      const { ElectronFileSystemService } = await import('./ElectronFileSystemService');
-      return ElectronFileSystemService.loadAppMetadata();
-    }
-
-    // Browser implementation
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) {
-        return null;
-      }
-
-      const cacheHandle = await parentHandle.getDirectoryHandle(CACHE_DIR_NAME, { create: false });
-      const metadataHandle = await cacheHandle.getFileHandle('app-metadata.json', { create: false });
-      const file = await metadataHandle.getFile();
-      const text = await file.text();
-      const metadata = JSON.parse(text);
-      
-      return metadata;
-    } catch (error) {
-      // File doesn't exist or error reading - return null
+      const text = await this.getBackend().readText(APP_METADATA_PATH);
+      return text ? JSON.parse(text) : null;
+    } catch {
+      // Error reading or corrupted file - return null
       return null;
     }
   }
@@ -917,19 +825,12 @@ export class FileSystemService {
    */
   static async savePrompts(prompts: any[]): Promise<{ success: boolean; error?: string }> {
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) {
+      const backend = this.getBackend();
+      if (!await backend.isConfigured()) {
         return { success: false, error: 'Filesystem not configured' };
       }
 
-      const cacheHandle = await parentHandle.getDirectoryHandle(CACHE_DIR_NAME, { create: true });
-      const promptsHandle = await cacheHandle.getFileHandle('prompts.json', { create: true });
-      const writable = await promptsHandle.createWritable();
-
-      const promptsJson = JSON.stringify(prompts, null, 2);
-      const blob = new Blob([promptsJson], { type: 'application/json' });
-      await writable.write(blob);
-      await writable.close();
+      await backend.writeText(PROMPTS_PATH, JSON.stringify(prompts, null, 2));
 
       return { success: true };
     } catch (error) {
@@ -947,23 +848,13 @@ export class FileSystemService {
    */
   static async loadPrompts(): Promise<any[]> {
     try {
-      const parentHandle = await this.getDirectoryHandle();
-      if (!parentHandle) {
-        return [];
-      }
-
-      const cacheHandle = await parentHandle.getDirectoryHandle(CACHE_DIR_NAME, { create: false });
-      const promptsHandle = await cacheHandle.getFileHandle('prompts.json', { create: false });
-      const file = await promptsHandle.getFile();
-      const text = await file.text();
-      const prompts = JSON.parse(text);
+      const text = await this.getBackend().readText(PROMPTS_PATH);
+      const prompts = text ? JSON.parse(text) : [];
       
       return Array.isArray(prompts) ? prompts : [];
-    } catch (error) {
-      // File doesn't exist or error reading - return empty array
+    } catch {
+      // Error reading or corrupted file - return empty array
       return [];
     }
   }
 }
-
-
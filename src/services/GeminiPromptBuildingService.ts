@@ -80,7 +80,13 @@ export class GeminiPromptBuildingService extends PromptBuildingService {
       warnings.push('Diagram included - factual accuracy constraints added');
     }
 
-    // 8. TECHNICAL REQUIREMENTS
+    // 8. EXCLUSIONS - Avoid-list (scene → story → book)
+    const avoid = this.getSceneAvoidList(options);
+    if (avoid.length > 0) {
+      sections.push('exclusions');
+    }
+
+    // 9. TECHNICAL REQUIREMENTS
     sections.push('requirements');
 
     // Assemble the complete prompt
@@ -120,6 +126,12 @@ export class GeminiPromptBuildingService extends PromptBuildingService {
       prompt += `• Maintain professional diagram standards\n\n`;
     }
 
+    // Exclusions - Google guidance: state what the image should be free of
+    // rather than listing "no X" fragments
+    if (avoid.length > 0) {
+      prompt += this.buildExclusionsSection(avoid);
+    }
+
     // Requirements
     prompt += `REQUIREMENTS:\n`;
     prompt += `• Create a single, cohesive illustration capturing the described scene\n`;
@@ -198,6 +210,13 @@ export class GeminiPromptBuildingService extends PromptBuildingService {
     }
     prompt += `\n`;
 
+    // Exclusions (book avoid-list)
+    const avoid = this.getBookAvoidList(book);
+    if (avoid.length > 0) {
+      sections.splice(sections.indexOf('requirements'), 0, 'exclusions');
+      prompt += this.buildExclusionsSection(avoid);
+    }
+
     // Requirements
     prompt += `REQUIREMENTS:\n`;
     prompt += `• Generate character on a pure white background (#FFFFFF)\n`;
@@ -313,6 +332,16 @@ export class GeminiPromptBuildingService extends PromptBuildingService {
     return section.trim();
   }
 
+  /**
+   * Build exclusions section from an avoid-list
+   */
+  private buildExclusionsSection(avoid: string[]): string {
+    let section = `EXCLUSIONS:\n`;
+    section += `• Keep the image completely free of: ${avoid.join(', ')}\n`;
+    section += `• If the scene seems to call for any of these, leave them out rather than including them\n\n`;
+    return section;
+  }
+
   /**
    * Build reference images section
    */
@@ -0,0 +1,183 @@
+/**
+ * GenerationJobExecutor - Runs a single queued generation job
+ *
+ * Scene jobs use the unified SceneImageGenerationService pipeline (base image +
+ * overlays), then store the image and append it, with its provenance, to the
+ * scene's imageHistory.
+ * Character jobs use CharacterImageService and add the image to the
+ * character's gallery. The book is re-read after generation so edits made
+ * while a long job was running are not overwritten. A job cancelled while it
+ * was generating (its signal aborted) does not save its image.
+ */
+
+import type { Book } from '../models/Book';
+import type { Character } from '../models/Story';
+import type { GenerationJob } from '../types/GenerationQueue';
+import type { ImageProvenance } from '../types/ImageProvenance';
+import { BookService } from './BookService';
+import { ImageStorageService } from './ImageStorageService';
+import { CharacterImageService } from './CharacterImageService';
+import { LayoutResolver } from './LayoutResolver';
+
+/**
+ * Result of a successful job
+ */
+export interface GenerationJobOutcome {
+  imageId: string;
+}
+
+/**
+ * Stop a cancelled job before it changes the book
+ */
+function throwIfCancelled(job: GenerationJob, signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException(`Job cancelled: ${job.label}`, 'AbortError');
+  }
+}
+
+async function loadBook(bookId: string): Promise<Book> {
+  const book = await BookService.getBook(bookId);
+  if (!book) {
+    throw new Error(`Book not found: ${bookId}`);
+  }
+  return book;
+}
+
+/**
+ * Store a generated scene image and append it to the scene's imageHistory.
+ * The image before overlays, when given, is stored as its baseImageId.
+ * Used by queued scene jobs, "reproduce this image" and "more like this".
+ */
+export async function saveSceneImageToHistory(
+  bookId: string,
+  storyId: string,
+  sceneId: string,
+  imageUrl: string,
+  model: string,
+  provenance?: ImageProvenance,
+  baseImageUrl?: string
+): Promise<string> {
+  const imageId = crypto.randomUUID();
+  await ImageStorageService.storeImage(imageId, sceneId, imageUrl, model);
+  let baseImageId: string | undefined;
+  if (baseImageUrl) {
+    baseImageId = crypto.randomUUID();
+    await ImageStorageService.storeImage(baseImageId, sceneId, baseImageUrl, model);
+  }
+
+  // Re-read the book so edits made during generation are preserved
+  const latestBook = await loadBook(bookId);
+  const latestScene = latestBook.stories
+    .find(s => s.id === storyId)
+    ?.scenes.find(s => s.id === sceneId);
+  if (!latestScene) {
+    throw new Error('Scene was deleted during generation');
+  }
+
+  latestScene.imageHistory = [
+    ...(latestScene.imageHistory || []),
+    { id: imageId, modelName: model, timestamp: new Date(), provenance, baseImageId }
+  ];
+  latestScene.updatedAt = new Date();
+  await BookService.saveBook(latestBook);
+
+  return imageId;
+}
+
+async function runSceneJob(job: GenerationJob, signal?: AbortSignal): Promise<GenerationJobOutcome> {
+  const book = await loadBook(job.bookId);
+  const story = book.stories.find(s => s.id === job.storyId);
+  const scene = story?.scenes.find(s => s.id === job.sceneId);
+  if (!story || !scene) {
+    throw new Error(`Scene no longer exists: ${job.label}`);
+  }
+
+  // @ts-expect-error: Type mismatch between model Story and type Story (Character interface differences)
+  const aspectRatio = job.aspectRatio ?? LayoutResolver.getAspectRatio(scene, story, book);
+
+  const { SceneImageGenerationService } = await import('./SceneImageGenerationService');
+  const { imageUrl, provenance, baseImageUrl } = await SceneImageGenerationService.generateCompleteSceneImageWithProvenance({
+    scene,
+    story,
+    book,
+    model: job.model,
+    aspectRatio,
+    promptStrategy: job.promptStrategy,
+    applyOverlays: true
+  });
+
+  throwIfCancelled(job, signal);
+  const imageId = await saveSceneImageToHistory(
+    job.bookId,
+    story.id,
+    scene.id,
+    imageUrl,
+    job.model,
+    provenance,
+    baseImageUrl
+  );
+
+  return { imageId };
+}
+
+function findCharacter(book: Book, job: GenerationJob): Character | undefined {
+  const characters = job.storyId
+    ? book.stories.find(s => s.id === job.storyId)?.characters
+    : book.characters;
+  return characters?.find(c => c.name === job.characterName);
+}
+
+async function runCharacterJob(job: GenerationJob, signal?: AbortSignal): Promise<GenerationJobOutcome> {
+  const book = await loadBook(job.bookId);
+  const character = findCharacter(book, job);
+  if (!character) {
+    throw new Error(`Character no longer exists: ${job.label}`);
+  }
+
+  const story = job.storyId ? book.stories.find(s => s.id === job.storyId) : undefined;
+  const contextId = job.storyId || `book:${book.id}`;
+  const backgroundSetup = story?.backgroundSetup || book.backgroundSetup || '';
+
+  const characterImage = await CharacterImageService.generateCharacterImage(
+    character,
+    contextId,
+    backgroundSetup,
+    book,
+    job.model,
+    job.aspectRatio || '1:1',
+    null,
+    job.promptStrategy
+  );
+
+  throwIfCancelled(job, signal);
+
+  // Re-read the book so edits made during generation are preserved
+  const latestBook = await loadBook(job.bookId);
+  const latestCharacter = findCharacter(latestBook, job);
+  if (!latestCharacter) {
+    throw new Error(`Character was deleted during generation: ${job.label}`);
+  }
+
+  CharacterImageService.addImageToGallery(latestCharacter, characterImage);
+  if (!latestCharacter.selectedImageId) {
+    CharacterImageService.setSelectedCharacterImage(latestCharacter, characterImage.id);
+  }
+  await BookService.saveBook(latestBook);
+
+  return { imageId: characterImage.id };
+}
+
+/**
+ * Default executor used by GenerationQueueService
+ */
+export async function executeGenerationJob(job: GenerationJob, signal?: AbortSignal): Promise<GenerationJobOutcome> {
+  throwIfCancelled(job, signal);
+  switch (job.kind) {
+    case 'scene':
+      return runSceneJob(job, signal);
+    case 'character':
+      return runCharacterJob(job, signal);
+    default:
+      throw new Error(`Unknown job kind: ${(job as GenerationJob).kind}`);
+  }
+}
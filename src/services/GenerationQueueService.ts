@@ -0,0 +1,448 @@
+/**
+ * GenerationQueueService - Persistent, resumable image generation job queue
+ *
+ * Replaces the in-memory loops in BatchImageGenerationDialog and StoriesPanel.
+ * Jobs are persisted per book to prompter-cache/generation-queues/{book-id}.json
+ * on every change, so a queue survives closing the dialog or reloading the app,
+ * and renaming a book keeps its queue. Every book's queue is loaded at startup.
+ *
+ * Features:
+ * - Configurable concurrency (AppSettings.generationConcurrency)
+ * - Retry with exponential backoff on rate limits (429) and server errors (5xx)
+ * - Pause/resume (app-wide, saved in AppSettings), reordering, cancellation
+ *   and retry of failed jobs
+ * - Subscribers are notified of every change (used by useGenerationQueue)
+ *
+ * Jobs that were running when the app closed are put back to pending on load.
+ * A queue file that can't be parsed is never overwritten: loading it throws,
+ * and enqueueing for that book fails until the file is fixed or removed.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  GenerationJob,
+  GenerationQueueFile,
+  GenerationQueueState,
+  NewGenerationJob
+} from '../types/GenerationQueue';
+import { FileSystemService } from './FileSystemService';
+import { BookService } from './BookService';
+import { SettingsService } from './SettingsService';
+import { executeGenerationJob, type GenerationJobOutcome } from './GenerationJobExecutor';
+
+type QueueListener = (state: GenerationQueueState) => void;
+type JobExecutor = (job: GenerationJob, signal: AbortSignal) => Promise<GenerationJobOutcome>;
+
+const QUEUES_PATH = 'prompter-cache/generation-queues';
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export class GenerationQueueService {
+  private static jobs: GenerationJob[] = [];
+  private static paused = false;
+  private static concurrency = 1;
+  private static listeners: Set<QueueListener> = new Set();
+  private static settingsLoaded = false;
+  private static loadedBookIds: Set<string> = new Set();
+  private static loading: Map<string, Promise<void>> = new Map();
+  private static writeChains: Map<string, Promise<void>> = new Map();
+  private static runningJobs: Map<string, AbortController> = new Map();
+  private static wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private static executor: JobExecutor = executeGenerationJob;
+
+  // ========================================
+  // Loading & Persistence
+  // ========================================
+
+  /**
+   * Load the persisted queues of every book, so jobs queued for any book
+   * resume after a restart. Safe to call repeatedly.
+   * @throws After loading the rest, if any book's queue file is unreadable
+   */
+  static async loadAllQueues(): Promise<void> {
+    const books = await BookService.getAllBooks();
+    const errors: string[] = [];
+    for (const book of books) {
+      try {
+        await this.loadBookQueue(book.id);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+  }
+
+  /**
+   * Load a book's persisted queue. Safe to call repeatedly - each book is only
+   * loaded once. Interrupted (running) jobs are reset to pending.
+   * @throws If the queue file can't be parsed; the book stays unloaded, so
+   * nothing overwrites the file and the next call tries again
+   */
+  static async loadBookQueue(bookId: string): Promise<void> {
+    if (this.loadedBookIds.has(bookId)) return;
+
+    // Share one load between concurrent callers
+    let pending = this.loading.get(bookId);
+    if (!pending) {
+      pending = this.readBookQueue(bookId).finally(() => this.loading.delete(bookId));
+      this.loading.set(bookId, pending);
+    }
+    return pending;
+  }
+
+  private static async readBookQueue(bookId: string): Promise<void> {
+    await this.loadSettings();
+
+    const content = await FileSystemService.readTextFile(this.getQueuePath(bookId));
+    if (!content) {
+      this.loadedBookIds.add(bookId);
+      return;
+    }
+
+    let file: GenerationQueueFile;
+    try {
+      file = JSON.parse(content) as GenerationQueueFile;
+    } catch (error) {
+      throw new Error(`Generation queue ${this.getQueuePath(bookId)} is unreadable: ${error instanceof Error ? error.message : error}`);
+    }
+    const restored = (file.jobs || []).map(job => this.deserializeJob(job));
+    restored.forEach(job => {
+      if (job.status === 'running') {
+        job.status = 'pending';
+      }
+    });
+
+    // Keep jobs from other books, replace this book's jobs
+    this.jobs = [...this.jobs.filter(j => j.bookId !== bookId), ...restored];
+    this.loadedBookIds.add(bookId);
+
+    console.log(`📋 Restored ${restored.length} generation job(s) for book ${bookId}`);
+    this.notify();
+    this.pump();
+  }
+
+  /**
+   * Concurrency and the pause state are app-wide settings
+   */
+  private static async loadSettings(): Promise<void> {
+    if (this.settingsLoaded) return;
+    this.settingsLoaded = true;
+    this.concurrency = await SettingsService.getGenerationConcurrency();
+    this.paused = this.paused || await SettingsService.getGenerationQueuePaused();
+  }
+
+  private static getQueuePath(bookId: string): string {
+    return `${QUEUES_PATH}/${bookId}.json`;
+  }
+
+  private static deserializeJob(job: GenerationJob): GenerationJob {
+    return {
+      ...job,
+      createdAt: new Date(job.createdAt),
+      startedAt: job.startedAt ? new Date(job.startedAt) : undefined,
+      completedAt: job.completedAt ? new Date(job.completedAt) : undefined,
+      nextAttemptAt: job.nextAttemptAt ? new Date(job.nextAttemptAt) : undefined
+    };
+  }
+
+  /**
+   * Persist the queues of the given books (all books with jobs if omitted)
+   */
+  private static async persist(bookIds?: string[]): Promise<void> {
+    const ids = bookIds ?? Array.from(new Set([...this.jobs.map(j => j.bookId), ...this.loadedBookIds]));
+    await Promise.all(ids.map(bookId => this.persistBook(bookId)));
+  }
+
+  /**
+   * Write one book's queue after its earlier writes finish, so an older
+   * snapshot of the queue never lands after a newer one
+   */
+  private static persistBook(bookId: string): Promise<void> {
+    const previous = this.writeChains.get(bookId) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      const path = this.getQueuePath(bookId);
+      const file: GenerationQueueFile = {
+        version: 1,
+        jobs: this.jobs.filter(j => j.bookId === bookId)
+      };
+      const result = await FileSystemService.writeTextFile(path, JSON.stringify(file, null, 2));
+      if (!result.success) {
+        console.warn(`Failed to persist generation queue for book ${bookId}:`, result.error);
+      }
+    });
+    this.writeChains.set(bookId, next.catch(() => undefined));
+    return next;
+  }
+
+  // ========================================
+  // Subscription
+  // ========================================
+
+  static subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static getState(): GenerationQueueState {
+    return {
+      jobs: this.jobs.map(job => ({ ...job })),
+      paused: this.paused,
+      concurrency: this.concurrency
+    };
+  }
+
+  private static notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  /**
+   * Notify listeners and persist the affected books
+   */
+  private static async commit(bookIds?: string[]): Promise<void> {
+    this.notify();
+    await this.persist(bookIds);
+  }
+
+  // ========================================
+  // Queue Operations
+  // ========================================
+
+  /**
+   * Add jobs to the end of the queue and start processing
+   */
+  static async enqueue(newJobs: NewGenerationJob[]): Promise<GenerationJob[]> {
+    const created: GenerationJob[] = newJobs.map(job => ({
+      ...job,
+      id: uuidv4(),
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      createdAt: new Date()
+    }));
+
+    for (const bookId of new Set(created.map(j => j.bookId))) {
+      await this.loadBookQueue(bookId);
+    }
+
+    this.jobs.push(...created);
+    await this.commit(Array.from(new Set(created.map(j => j.bookId))));
+    this.pump();
+    return created;
+  }
+
+  /**
+   * Cancel a job. A running job is aborted: its request may still finish,
+   * but the image is not saved to the book.
+   */
+  static async cancel(jobId: string): Promise<void> {
+    const job = this.jobs.find(j => j.id === jobId);
+    if (!job || job.status === 'completed' || job.status === 'cancelled') return;
+
+    job.status = 'cancelled';
+    job.completedAt = new Date();
+    this.runningJobs.get(jobId)?.abort();
+    await this.commit([job.bookId]);
+  }
+
+  /**
+   * Put a failed or cancelled job back in the queue
+   */
+  static async retry(jobId: string): Promise<void> {
+    const job = this.jobs.find(j => j.id === jobId);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+
+    job.status = 'pending';
+    job.attempts = 0;
+    job.nextAttemptAt = undefined;
+    job.lastError = undefined;
+    job.completedAt = undefined;
+    await this.commit([job.bookId]);
+    this.pump();
+  }
+
+  /**
+   * Move a job to a new position in the queue
+   */
+  static async move(jobId: string, toIndex: number): Promise<void> {
+    const fromIndex = this.jobs.findIndex(j => j.id === jobId);
+    if (fromIndex === -1) return;
+
+    const [job] = this.jobs.splice(fromIndex, 1);
+    const clamped = Math.max(0, Math.min(toIndex, this.jobs.length));
+    this.jobs.splice(clamped, 0, job);
+    await this.commit([job.bookId]);
+  }
+
+  /**
+   * Remove completed and cancelled jobs
+   */
+  static async clearFinished(): Promise<void> {
+    const affected = this.jobs
+      .filter(j => j.status === 'completed' || j.status === 'cancelled')
+      .map(j => j.bookId);
+    this.jobs = this.jobs.filter(j => j.status !== 'completed' && j.status !== 'cancelled');
+    await this.commit(Array.from(new Set(affected)));
+  }
+
+  static async pause(): Promise<void> {
+    this.paused = true;
+    this.notify();
+    await SettingsService.setGenerationQueuePaused(true);
+  }
+
+  static async resume(): Promise<void> {
+    this.paused = false;
+    this.notify();
+    await SettingsService.setGenerationQueuePaused(false);
+    this.pump();
+  }
+
+  static async setConcurrency(concurrency: number): Promise<void> {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    await SettingsService.setGenerationConcurrency(this.concurrency);
+    this.notify();
+    this.pump();
+  }
+
+  // ========================================
+  // Processing
+  // ========================================
+
+  /**
+   * Errors worth retrying: rate limits, server errors and network failures
+   */
+  static isRetryableError(message: string): boolean {
+    return /\b(429|5\d\d)\b/.test(message) ||
+      /rate limit|timeout|network|failed to fetch/i.test(message);
+  }
+
+  /**
+   * Exponential backoff: 5s, 10s, 20s, ... capped at 5 minutes
+   */
+  static getRetryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY_MS);
+  }
+
+  /**
+   * Start as many eligible jobs as concurrency allows
+   */
+  private static pump(): void {
+    if (this.paused) return;
+
+    const now = Date.now();
+    while (this.runningJobs.size < this.concurrency) {
+      const next = this.jobs.find(j =>
+        j.status === 'pending' &&
+        !this.runningJobs.has(j.id) &&
+        (!j.nextAttemptAt || j.nextAttemptAt.getTime() <= now)
+      );
+      if (!next) break;
+      void this.runJob(next);
+    }
+
+    this.scheduleWake();
+  }
+
+  /**
+   * Wake up when the earliest backed-off job becomes eligible
+   */
+  private static scheduleWake(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    const waiting = this.jobs
+      .filter(j => j.status === 'pending' && j.nextAttemptAt)
+      .map(j => j.nextAttemptAt!.getTime());
+    if (waiting.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...waiting) - Date.now());
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.pump();
+    }, delay);
+  }
+
+  private static async runJob(job: GenerationJob): Promise<void> {
+    const controller = new AbortController();
+    this.runningJobs.set(job.id, controller);
+    job.status = 'running';
+    job.attempts += 1;
+    job.startedAt = new Date();
+    job.nextAttemptAt = undefined;
+    await this.commit([job.bookId]);
+
+    console.log(`📦 QUEUE: Running job "${job.label}" (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    try {
+      const outcome = await this.executor(job, controller.signal);
+      if (job.status === 'running') {
+        job.status = 'completed';
+        job.resultImageId = outcome.imageId;
+        job.lastError = undefined;
+        job.completedAt = new Date();
+        console.log(`✓ QUEUE: Job "${job.label}" complete`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      job.lastError = message;
+      console.error(`❌ QUEUE: Job "${job.label}" failed:`, message);
+
+      if (job.status === 'running') {
+        if (this.isRetryableError(message) && job.attempts < job.maxAttempts) {
+          const delay = this.getRetryDelay(job.attempts);
+          job.status = 'pending';
+          job.nextAttemptAt = new Date(Date.now() + delay);
+          console.log(`   Retrying in ${Math.round(delay / 1000)}s`);
+        } else {
+          job.status = 'failed';
+          job.completedAt = new Date();
+        }
+      }
+    } finally {
+      this.runningJobs.delete(job.id);
+    }
+
+    await this.commit([job.bookId]);
+    this.pump();
+  }
+
+  // ========================================
+  // Testing
+  // ========================================
+
+  /**
+   * Replace the job executor (for tests)
+   */
+  static setExecutor(executor: JobExecutor | null): void {
+    this.executor = executor ?? executeGenerationJob;
+  }
+
+  /**
+   * Reset all in-memory state (for tests)
+   */
+  static reset(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+    this.jobs = [];
+    this.paused = false;
+    this.concurrency = 1;
+    this.listeners.clear();
+    this.settingsLoaded = false;
+    this.loadedBookIds.clear();
+    this.loading.clear();
+    this.writeChains.clear();
+    this.runningJobs.clear();
+    this.executor = executeGenerationJob;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * HashService - Small non-cryptographic string hashes
+ *
+ * FNV-1a (32-bit) is fast and stable across runs and platforms, so it is
+ * used wherever a string needs a short fingerprint that is not a security
+ * boundary, e.g. seeding placeholder images. Use crypto.subtle for content
+ * addressing.
+ */
+export class HashService {
+  /**
+   * FNV-1a 32-bit hash of a string's UTF-16 code units
+   */
+  static fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * FNV-1a hash plus length, e.g. to tell a complete file from a torn one
+   * or check that saved state still matches what it was recorded against
+   */
+  static checksum(text: string): string {
+    return `${this.fnv1a(text).toString(16)}-${text.length}`;
+  }
+}
@@ -0,0 +1,543 @@
+/**
+ * HtmlSiteExportService - Self-contained static website of a book
+ *
+ * Builds a website for publishing a finished book without the app (see
+ * types/HtmlSiteExport.ts for the layout): an index of stories, one page
+ * per story with each scene's image, text panel and diagram, and a
+ * character gallery. All links and assets are relative, pages work on
+ * phones and desktops, and a small script moves between scenes with the
+ * arrow keys.
+ *
+ * The site is built in memory (buildSite) and then zipped or written into
+ * a folder through any StorageBackend. Character images are loaded with
+ * BookExportWithImagesService, scene images with ExportImageService.
+ */
+
+import JSZip from 'jszip';
+import type { Book } from '../models/Book';
+import type { Scene } from '../models/Scene';
+import type { Chapter } from '../types/Story';
+import type { Character, Story } from '../models/Story';
+import { DEFAULT_DIAGRAM_STYLE } from '../types/Story';
+import type {
+  HtmlSite,
+  HtmlSiteExportResult,
+  HtmlSiteFile,
+  HtmlSiteIssue,
+  HtmlSiteSettings
+} from '../types/HtmlSiteExport';
+import type { StorageBackend } from './StorageBackend';
+import { StorageService } from './StorageService';
+import { SlugService } from './SlugService';
+import { ExportImageService, type ExportImage } from './ExportImageService';
+import { BookExportWithImagesService } from './BookExportWithImagesService';
+import { ExportRecordService } from './ExportRecordService';
+
+const SITE_CSS = `:root {
+  color-scheme: light dark;
+  --text: #1f2328;
+  --muted: #59636e;
+  --background: #ffffff;
+  --surface: #f6f8fa;
+  --border: #d1d9e0;
+  --accent: #0b5cad;
+}
+@media (prefers-color-scheme: dark) {
+  :root {
+    --text: #e6edf3;
+    --muted: #9198a1;
+    --background: #0d1117;
+    --surface: #151b23;
+    --border: #3d444d;
+    --accent: #4493f8;
+  }
+}
+* { box-sizing: border-box; }
+body { margin: 0; font-family: system-ui, -apple-system, "Segoe UI", sans-serif; line-height: 1.6; color: var(--text); background: var(--background); }
+a { color: var(--accent); }
+img { max-width: 100%; height: auto; }
+.skip-link { position: absolute; left: -9999px; }
+.skip-link:focus { left: 1rem; top: 1rem; padding: 0.5rem 1rem; background: var(--background); z-index: 1; }
+.site-header { display: flex; flex-wrap: wrap; gap: 0.5rem 1.5rem; align-items: baseline; justify-content: space-between; padding: 1rem clamp(1rem, 4vw, 3rem); border-bottom: 1px solid var(--border); }
+.site-title { font-size: 1.25rem; font-weight: 700; color: inherit; text-decoration: none; }
+.site-header nav { display: flex; gap: 1rem; }
+main { max-width: 60rem; margin: 0 auto; padding: 1.5rem clamp(1rem, 4vw, 3rem) 3rem; }
+.description { color: var(--muted); font-size: 1.1rem; }
+.meta, .keyboard-hint { color: var(--muted); font-size: 0.9rem; }
+.card-grid { display: grid; gap: 1.5rem; grid-template-columns: repeat(auto-fill, minmax(14rem, 1fr)); padding: 0; list-style: none; }
+.card { overflow: hidden; background: var(--surface); border: 1px solid var(--border); border-radius: 0.5rem; }
+.card img, .card .no-image { display: block; width: 100%; aspect-ratio: 4 / 3; object-fit: cover; background: var(--border); }
+.card-body { padding: 0.75rem 1rem 1rem; }
+.card h2, .card h3 { margin: 0 0 0.25rem; font-size: 1.15rem; }
+.chapter > h2 { margin-top: 3rem; padding-bottom: 0.25rem; border-bottom: 1px solid var(--border); }
+.scene { margin: 2rem 0 3rem; scroll-margin-top: 1rem; }
+.scene:focus { outline: 3px solid var(--accent); outline-offset: 0.5rem; }
+figure { margin: 1rem 0; }
+.scene-image img, .diagram img { display: block; margin: 0 auto; border-radius: 0.25rem; }
+.scene-text { font-size: 1.15rem; }
+.diagram { padding: 1rem; background: var(--surface); border: 1px solid var(--border); border-radius: 0.5rem; }
+pre { overflow-x: auto; }
+.scene-nav, .pager { display: flex; justify-content: space-between; gap: 1rem; }
+.pager { margin-top: 3rem; padding-top: 1rem; border-top: 1px solid var(--border); }
+.site-footer { padding: 2rem 1rem; color: var(--muted); font-size: 0.85rem; text-align: center; }
+@media (max-width: 40rem) {
+  .scene-text { font-size: 1.05rem; }
+  .card-grid { grid-template-columns: 1fr; }
+}
+@media print {
+  .site-header nav, .scene-nav, .pager, .keyboard-hint { display: none; }
+}
+`;
+
+const SITE_JS = `// Keyboard navigation between scenes: Right arrow or J for the next scene,
+// Left arrow or K for the previous one. Past the last or first scene, the
+// next or previous story opens.
+(function () {
+  'use strict';
+  var scenes = Array.prototype.slice.call(document.querySelectorAll('.scene'));
+  if (scenes.length === 0) return;
+
+  // Last scene whose top has scrolled past the upper third of the window
+  function currentIndex() {
+    var marker = window.innerHeight / 3;
+    for (var i = scenes.length - 1; i >= 0; i--) {
+      if (scenes[i].getBoundingClientRect().top <= marker) return i;
+    }
+    return -1;
+  }
+
+  function go(index) {
+    var scene = scenes[index];
+    scene.focus({ preventScroll: true });
+    scene.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    history.replaceState(null, '', '#' + scene.id);
+  }
+
+  document.addEventListener('keydown', function (event) {
+    if (event.altKey || event.ctrlKey || event.metaKey || event.shiftKey) return;
+    var target = event.target;
+    if (target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))) return;
+
+    var index = currentIndex();
+    var data = document.body.dataset;
+    if (event.key === 'ArrowRight' || event.key === 'j') {
+      if (index < scenes.length - 1) go(index + 1);
+      else if (data.next) location.href = data.next;
+      else return;
+    } else if (event.key === 'ArrowLeft' || event.key === 'k') {
+      if (index > 0) go(index - 1);
+      else if (data.prev) location.href = data.prev;
+      else return;
+    } else {
+      return;
+    }
+    event.preventDefault();
+  });
+})();
+`;
+
+const DIAGRAM_LABELS: Record<string, string> = {
+  mermaid: 'Diagram',
+  math: 'Formula',
+  code: 'Code',
+  markdown: 'Notes'
+};
+
+interface PlacedImage {
+  href: string;
+  width: number;
+  height: number;
+}
+
+interface StoryPage {
+  story: Story;
+  href: string;
+}
+
+export class HtmlSiteExportService {
+  // ========================================
+  // Export
+  // ========================================
+
+  /**
+   * Build every file of the site in memory
+   */
+  static async buildSite(bookId: string, settings: HtmlSiteSettings): Promise<HtmlSite> {
+    const book = await StorageService.getBook(bookId);
+    if (!book) {
+      throw new Error(`Book with ID ${bookId} not found`);
+    }
+
+    console.log(`🌐 HTML SITE EXPORT: "${book.title}" (${book.stories.length} stories)`);
+
+    const files: HtmlSiteFile[] = [
+      { path: 'assets/site.css', content: SITE_CSS },
+      { path: 'assets/site.js', content: SITE_JS }
+    ];
+    const issues: HtmlSiteIssue[] = [];
+    const exportedImageIds: string[] = [];
+    let imageCount = 0;
+    const addImage = (folder: string, name: string, image: Pick<ExportImage, 'bytes' | 'type' | 'width' | 'height'>): PlacedImage => {
+      const href = `images/${folder}/${name}.${ExportImageService.getExtension(image.type)}`;
+      files.push({ path: href, content: image.bytes });
+      imageCount++;
+      return { href, width: image.width, height: image.height };
+    };
+
+    // Scene images, each scene's most recent one
+    const sceneImages = new Map<string, PlacedImage>();
+    for (const scene of book.stories.flatMap(story => story.scenes)) {
+      if (!scene.imageHistory?.length) continue;
+      const image = await ExportImageService.loadSceneImage(scene);
+      if (image) {
+        sceneImages.set(scene.id, addImage('scenes', `scene-${String(sceneImages.size + 1).padStart(3, '0')}`, image));
+        exportedImageIds.push(image.imageId);
+      } else {
+        issues.push({ severity: 'warning', message: `Could not load the image of scene "${scene.title}"; it is shown without one`, sceneId: scene.id });
+      }
+    }
+
+    // Diagrams, rendered on their own; the source is shown when rendering fails
+    const diagrams = new Map<string, PlacedImage | null>();
+    if (settings.diagrams) {
+      for (const story of book.stories) {
+        for (const scene of story.scenes.filter(s => s.diagramPanel?.content.trim())) {
+          try {
+            const bytes = await this.renderDiagram(scene, story);
+            const size = ExportImageService.readImageSize(bytes, 'png');
+            if (!size) throw new Error('Rendered diagram is not a PNG image');
+            diagrams.set(scene.id, addImage('diagrams', `diagram-${String(diagrams.size + 1).padStart(3, '0')}`, { bytes, type: 'png', ...size }));
+          } catch (error) {
+            console.error(`Failed to render diagram for scene "${scene.title}":`, error);
+            diagrams.set(scene.id, null);
+            issues.push({ severity: 'warning', message: `Could not render the diagram of scene "${scene.title}"; its source is shown instead`, sceneId: scene.id });
+          }
+        }
+      }
+    }
+
+    const usedSlugs = new Set<string>();
+    const storyPages: StoryPage[] = book.stories.map((story, index) => {
+      const slug = SlugService.generateUniqueSlug(SlugService.generateSlug(story.title, 'story'), usedSlugs);
+      usedSlugs.add(slug);
+      return { story, href: `story-${String(index + 1).padStart(2, '0')}-${slug}.html` };
+    });
+
+    // Character gallery, with each character's selected image
+    let hasCharacterPage = false;
+    if (settings.characterGallery) {
+      const owners = [
+        { title: 'Book Characters', storyId: null as string | null, characters: book.characters },
+        ...book.stories.map(story => ({ title: `Characters in ${story.title}`, storyId: story.id as string | null, characters: story.characters }))
+      ].filter(owner => owner.characters.length > 0);
+
+      if (owners.length > 0) {
+        const portraits = new Map<Character, PlacedImage>();
+        for (const { character, data } of await BookExportWithImagesService.collectCharacterImages(book, true)) {
+          const type = ExportImageService.detectType(data);
+          const size = type && ExportImageService.readImageSize(data, type);
+          if (type && size) {
+            portraits.set(character, addImage('characters', `character-${String(portraits.size + 1).padStart(3, '0')}`, { bytes: data, type, ...size }));
+          } else {
+            issues.push({ severity: 'warning', message: `The image of character "${character.name}" is not a PNG, JPEG or GIF file; it was left out` });
+          }
+        }
+        files.push({ path: 'characters.html', content: this.charactersPage(book, owners, portraits, settings) });
+        hasCharacterPage = true;
+      }
+    }
+
+    files.push({ path: 'index.html', content: this.indexPage(book, storyPages, sceneImages, hasCharacterPage, settings) });
+    storyPages.forEach((page, index) => {
+      files.push({
+        path: page.href,
+        content: this.storyPage(book, page, storyPages[index - 1], storyPages[index + 1], sceneImages, diagrams, hasCharacterPage, settings)
+      });
+    });
+
+    await ExportRecordService.recordExport('html', exportedImageIds);
+
+    return {
+      name: SlugService.generateSlug(book.title, 'book'),
+      files,
+      pageCount: storyPages.length + 1 + (hasCharacterPage ? 1 : 0),
+      imageCount,
+      issues
+    };
+  }
+
+  /**
+   * Export the site as a zip, with everything in one folder named after
+   * the book
+   */
+  static async exportToZip(bookId: string, settings: HtmlSiteSettings): Promise<HtmlSiteExportResult> {
+    const site = await this.buildSite(bookId, settings);
+    const zip = new JSZip();
+    for (const file of site.files) {
+      zip.file(`${site.name}/${file.path}`, file.content);
+    }
+    const bytes = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE', compressionOptions: { level: 6 } });
+    const blob = new Blob([bytes as BlobPart], { type: 'application/zip' });
+    console.log(`✓ HTML SITE EXPORT: ${site.files.length} files, ${blob.size} bytes`);
+    return { site, blob };
+  }
+
+  /**
+   * Write the site into a folder named after the book inside the storage
+   * root of a backend (e.g. a BrowserStorageBackend on a picked directory).
+   * Files of an earlier export are overwritten.
+   */
+  static async exportToDirectory(bookId: string, settings: HtmlSiteSettings, backend: StorageBackend): Promise<HtmlSiteExportResult> {
+    const site = await this.buildSite(bookId, settings);
+    for (const file of site.files) {
+      const path = `${site.name}/${file.path}`;
+      if (typeof file.content === 'string') {
+        await backend.writeText(path, file.content);
+      } else {
+        await backend.writeBinary(path, file.content);
+      }
+    }
+    console.log(`✓ HTML SITE EXPORT: ${site.files.length} files written to ${site.name}/`);
+    return { site, path: site.name };
+  }
+
+  static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  // ========================================
+  // Pages
+  // ========================================
+
+  private static page(options: {
+    title: string;
+    book: Book;
+    main: string;
+    settings: HtmlSiteSettings;
+    hasCharacterPage: boolean;
+    prev?: string;
+    next?: string;
+  }): string {
+    const { title, book, main, settings, hasCharacterPage, prev, next } = options;
+    const data = [prev ? ` data-prev="${this.escapeHtml(prev)}"` : '', next ? ` data-next="${this.escapeHtml(next)}"` : ''].join('');
+    return `<!DOCTYPE html>
+<html lang="${this.escapeHtml(settings.language)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${this.escapeHtml(title)}</title>
+<link rel="stylesheet" href="assets/site.css">
+</head>
+<body${data}>
+<a class="skip-link" href="#main">Skip to content</a>
+<header class="site-header">
+<a class="site-title" href="index.html">${this.escapeHtml(book.title)}</a>
+<nav aria-label="Site"><a href="index.html">Stories</a>${hasCharacterPage ? '<a href="characters.html">Characters</a>' : ''}</nav>
+</header>
+<main id="main">
+${main}
+</main>
+<footer class="site-footer">Made with Story Prompt Generator</footer>
+<script src="assets/site.js"></script>
+</body>
+</html>
+`;
+  }
+
+  private static indexPage(
+    book: Book,
+    storyPages: StoryPage[],
+    sceneImages: Map<string, PlacedImage>,
+    hasCharacterPage: boolean,
+    settings: HtmlSiteSettings
+  ): string {
+    const cards = storyPages.map(({ story, href }) => {
+      const thumbnail = story.scenes.map(scene => sceneImages.get(scene.id)).find(Boolean);
+      const sceneCount = `${story.scenes.length} ${story.scenes.length === 1 ? 'scene' : 'scenes'}`;
+      return [
+        '<li class="card">',
+        `<a href="${href}">${thumbnail ? this.img(thumbnail, '') : '<span class="no-image"></span>'}</a>`,
+        '<div class="card-body">',
+        `<h2><a href="${href}">${this.escapeHtml(story.title)}</a></h2>`,
+        story.description ? `<p>${this.escapeHtml(story.description)}</p>` : '',
+        `<p class="meta">${sceneCount}</p>`,
+        '</div>',
+        '</li>'
+      ].join('');
+    });
+
+    return this.page({
+      title: book.title,
+      book,
+      settings,
+      hasCharacterPage,
+      next: storyPages[0]?.href,
+      main: [
+        `<h1>${this.escapeHtml(book.title)}</h1>`,
+        this.paragraphs(book.description, 'description'),
+        `<ul class="card-grid">${cards.join('\n')}</ul>`,
+        hasCharacterPage ? '<p><a href="characters.html">Meet the characters</a></p>' : ''
+      ].join('\n')
+    });
+  }
+
+  private static storyPage(
+    book: Book,
+    page: StoryPage,
+    prevPage: StoryPage | undefined,
+    nextPage: StoryPage | undefined,
+    sceneImages: Map<string, PlacedImage>,
+    diagrams: Map<string, PlacedImage | null>,
+    hasCharacterPage: boolean,
+    settings: HtmlSiteSettings
+  ): string {
+    const { story } = page;
+    const orderedScenes = story.getSceneSections().flatMap(section => section.scenes);
+    const sceneIds = new Map(orderedScenes.map((scene, index) => [scene.id, `scene-${index + 1}`]));
+
+    const sceneHtml = (scene: Scene): string => {
+      const id = sceneIds.get(scene.id)!;
+      const index = orderedScenes.indexOf(scene);
+      const previous = orderedScenes[index - 1];
+      const next = orderedScenes[index + 1];
+      const image = sceneImages.get(scene.id);
+      const panelText = settings.sceneText ? scene.getPanelText() : undefined;
+      const alt = scene.description.replace(/\s+/g, ' ').trim() || scene.title;
+
+      const navLinks = [
+        previous
+          ? `<a href="#${sceneIds.get(previous.id)}" rel="prev">← Previous scene</a>`
+          : prevPage ? `<a href="${prevPage.href}" rel="prev">← Previous story</a>` : '<span></span>',
+        next
+          ? `<a href="#${sceneIds.get(next.id)}" rel="next">Next scene →</a>`
+          : nextPage ? `<a href="${nextPage.href}" rel="next">Next story →</a>` : '<span></span>'
+      ];
+
+      return [
+        `<section class="scene" id="${id}" tabindex="-1" aria-labelledby="${id}-title">`,
+        `<h3 id="${id}-title">${this.escapeHtml(scene.title)}</h3>`,
+        image ? `<figure class="scene-image">${this.img(image, alt, index > 0)}</figure>` : '',
+        panelText ? `<div class="scene-text">${this.paragraphs(panelText)}</div>` : '',
+        diagrams.has(scene.id) ? this.diagramHtml(scene, diagrams.get(scene.id)!) : '',
+        `<nav class="scene-nav" aria-label="Scene navigation">${navLinks.join('')}</nav>`,
+        '</section>'
+      ].join('\n');
+    };
+
+    const chapterHtml = (chapter: Chapter, scenes: Scene[]): string => [
+      `<section class="chapter" id="chapter-${this.escapeHtml(chapter.id)}">`,
+      `<h2>${this.escapeHtml(chapter.title)}</h2>`,
+      this.paragraphs(chapter.description, 'description'),
+      ...scenes.map(sceneHtml),
+      '</section>'
+    ].join('\n');
+
+    const body = story.getSceneSections()
+      .filter(section => section.scenes.length > 0)
+      .map(section => section.chapter ? chapterHtml(section.chapter, section.scenes) : section.scenes.map(sceneHtml).join('\n'));
+
+    const pager = [
+      prevPage ? `<a href="${prevPage.href}" rel="prev">← ${this.escapeHtml(prevPage.story.title)}</a>` : '<a href="index.html">← All stories</a>',
+      nextPage ? `<a href="${nextPage.href}" rel="next">${this.escapeHtml(nextPage.story.title)} →</a>` : '<a href="index.html">All stories →</a>'
+    ];
+
+    return this.page({
+      title: `${story.title} - ${book.title}`,
+      book,
+      settings,
+      hasCharacterPage,
+      prev: prevPage?.href ?? 'index.html',
+      next: nextPage?.href,
+      main: [
+        '<article class="story">',
+        `<h1>${this.escapeHtml(story.title)}</h1>`,
+        this.paragraphs(story.description, 'description'),
+        orderedScenes.length > 1 ? '<p class="keyboard-hint">Use the ← and → arrow keys (or K and J) to move between scenes.</p>' : '',
+        ...body,
+        '</article>',
+        `<nav class="pager" aria-label="Stories">${pager.join('')}</nav>`
+      ].join('\n')
+    });
+  }
+
+  private static charactersPage(
+    book: Book,
+    owners: Array<{ title: string; characters: Character[] }>,
+    portraits: Map<Character, PlacedImage>,
+    settings: HtmlSiteSettings
+  ): string {
+    const sections = owners.map(owner => {
+      const cards = owner.characters.map(character => {
+        const portrait = portraits.get(character);
+        return [
+          '<li class="card">',
+          portrait ? this.img(portrait, character.name, true) : '<span class="no-image"></span>',
+          '<div class="card-body">',
+          `<h3>${this.escapeHtml(character.name)}</h3>`,
+          this.paragraphs(character.description),
+          '</div>',
+          '</li>'
+        ].join('');
+      });
+      return `<section>\n<h2>${this.escapeHtml(owner.title)}</h2>\n<ul class="card-grid">${cards.join('\n')}</ul>\n</section>`;
+    });
+
+    return this.page({
+      title: `Characters - ${book.title}`,
+      book,
+      settings,
+      hasCharacterPage: true,
+      main: ['<h1>Characters</h1>', ...sections].join('\n')
+    });
+  }
+
+  private static diagramHtml(scene: Scene, rendered: PlacedImage | null): string {
+    const panel = scene.diagramPanel!;
+    const label = DIAGRAM_LABELS[panel.type] ?? 'Diagram';
+    const languageClass = panel.type === 'code' && panel.language ? ` class="language-${this.escapeHtml(panel.language)}"` : '';
+    const source = `<pre><code${languageClass}>${this.escapeHtml(panel.content)}</code></pre>`;
+    return [
+      '<figure class="diagram">',
+      rendered
+        ? `${this.img(rendered, `${label} for "${scene.title}"; the source follows`, true)}\n<details><summary>${label} source</summary>${source}</details>`
+        : source,
+      '</figure>'
+    ].join('\n');
+  }
+
+  private static img(image: PlacedImage, alt: string, lazy = false): string {
+    return `<img src="${image.href}" width="${image.width}" height="${image.height}" alt="${this.escapeHtml(alt)}"${lazy ? ' loading="lazy"' : ''}>`;
+  }
+
+  /**
+   * Text as paragraphs: blank lines separate paragraphs, single line
+   * breaks are kept
+   */
+  private static paragraphs(text: string | undefined, className?: string): string {
+    if (!text?.trim()) return '';
+    const classAttribute = className ? ` class="${className}"` : '';
+    return text.trim().split(/\n\s*\n/).map(paragraph =>
+      `<p${classAttribute}>${paragraph.split('\n').map(line => this.escapeHtml(line.trim())).join('<br>')}</p>`
+    ).join('');
+  }
+
+  // ========================================
+  // Diagrams
+  // ========================================
+
+  /**
+   * Render a scene's diagram panel to PNG bytes with the story's diagram
+   * style
+   */
+  private static async renderDiagram(scene: Scene, story: Story): Promise<Uint8Array> {
+    const { renderDiagramToCanvas, canvasToDataURL } = await import('./DiagramRenderService');
+    const canvas = await renderDiagramToCanvas(scene.diagramPanel!, story.diagramStyle ?? DEFAULT_DIAGRAM_STYLE, 1200, 900);
+    const base64 = canvasToDataURL(canvas).split(',')[1] ?? '';
+    return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  }
+}
@@ -1,220 +1,125 @@
 import { SettingsService } from './SettingsService';
+import { ImageProviderRegistry } from './ImageProviderRegistry';
+import { UsageLedgerService } from './UsageLedgerService';
+import type { UsageContext, UsageMetrics } from '../types/UsageLedger';
 
 export interface ImageGenerationOptions {
   prompt: string;
   model?: string;
   aspectRatio?: string;
   referenceImages?: string[]; // Array of base64 data URLs for character references
+  usageContext?: UsageContext; // What the image is for - recorded in the usage ledger
+  seed?: number; // Fixed seed for repeatable output (only honored by models with supportsSeed)
+  variation?: ImageVariationRequest; // Generate a variation of an existing image
 }
 
+/**
+ * "More like this": an existing image is sent as an extra reference after any
+ * character references, and the prompt tells the model how far it may drift
+ */
+export interface ImageVariationRequest {
+  sourceImage: string; // Base64 data URL of the image to vary
+  strength: number; // 0 = stay as close as possible, 1 = only loosely inspired
+}
+
+export const DEFAULT_VARIATION_STRENGTH = 0.35;
+
 export interface ImageGenerationResult {
   success: boolean;
   imageUrl?: string;
   error?: string;
+  usage?: UsageMetrics; // Tokens/cost reported by the provider, if any
+}
+
+/**
+ * Prompt instruction describing how closely a variation should follow its source image
+ */
+export function buildVariationHint(strength: number): string {
+  const clamped = Math.min(1, Math.max(0, strength));
+  const percent = Math.round(clamped * 100);
+  const guidance = clamped <= 0.25
+    ? 'Keep the composition, poses, colors and framing nearly identical; change only small details.'
+    : clamped <= 0.6
+      ? 'Keep the overall composition and color palette, but vary poses, expressions and details.'
+      : 'Use it only as loose inspiration for mood and palette; the composition may change freely.';
+  return `VARIATION: The last attached image is a previous illustration of this scene. Create a new variation of it (variation strength ${percent}%). ${guidance}`;
 }
 
 export class ImageGenerationService {
-  private static readonly OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+  /**
+   * Fold a variation request into the prompt and reference images, so every
+   * provider can serve it without native image-to-image support
+   */
+  static applyVariation(options: ImageGenerationOptions): ImageGenerationOptions {
+    if (!options.variation) return options;
+    return {
+      ...options,
+      prompt: `${options.prompt}\n\n${buildVariationHint(options.variation.strength)}`,
+      referenceImages: [...(options.referenceImages ?? []), options.variation.sourceImage]
+    };
+  }
 
+  /**
+   * Generate an image with whichever provider serves the requested model
+   * (see ImageProviderRegistry). Falls back to the model from settings.
+   * Every call is recorded in the usage ledger.
+   */
   static async generateImage(options: ImageGenerationOptions): Promise<ImageGenerationResult> {
-    try {
-      const apiKey = await SettingsService.getApiKey();
-      
-      if (!apiKey) {
-        return {
-          success: false,
-          error: 'OpenRouter API key not configured. Please set your API key in settings.'
-        };
-      }
-
-      const model = options.model || await SettingsService.getImageGenerationModel();
-
-      console.log('Generating image with model:', model);
-      if (options.referenceImages && options.referenceImages.length > 0) {
-        console.log(`Including ${options.referenceImages.length} reference image(s)`);
-        options.referenceImages.forEach((img, i) => {
-          console.log(`  Image ${i + 1}: ${img.substring(0, 50)}... (${Math.round(img.length / 1024)}KB)`);
-        });
-      } else {
-        console.log('No reference images (text-only request)');
-      }
-
-      // Build message content (multi-modal if reference images provided)
-      let messageContent;
-      if (options.referenceImages && options.referenceImages.length > 0) {
-        // Multi-modal: text + images
-        console.log('📸 Building MULTI-MODAL request (text + images)');
-        
-        // Validate and process reference images
-        const processedImages = options.referenceImages.map((imageUrl, i) => {
-          console.log(`  Validating image ${i + 1}...`);
-          
-          // Check if it's a data URL
-          if (!imageUrl.startsWith('data:image/')) {
-            console.warn(`  ⚠️  Image ${i + 1} is not a data URL (starts with: ${imageUrl.substring(0, 20)})`);
-            throw new Error(`Reference image ${i + 1} must be a data URL (data:image/...)`);
-          }
-          
-          // Extract format and data
-          const matches = imageUrl.match(/^data:image\/(\w+);base64,(.+)$/);
-          if (!matches) {
-            console.error(`  ❌ Image ${i + 1} has invalid data URL format`);
-            throw new Error(`Reference image ${i + 1} has invalid data URL format`);
-          }
-          
-          const [, format, base64Data] = matches;
-          const sizeKB = Math.round((base64Data.length * 3/4) / 1024);
-          console.log(`  ✓ Image ${i + 1}: ${format.toUpperCase()}, ~${sizeKB}KB`);
-          
-          // Warn if image is very large (>5MB)
-          if (sizeKB > 5120) {
-            console.warn(`  ⚠️  Image ${i + 1} is very large (${sizeKB}KB). This may cause API errors.`);
-          }
-          
-          console.log(`  Adding image ${i + 1} to content array`);
-          return {
-            type: 'image_url',
-            image_url: {
-              url: imageUrl
-            }
-          };
-        });
-        
-        messageContent = [
-          {
-            type: 'text',
-            text: options.prompt
-          },
-          ...processedImages
-        ];
-        console.log(`✓ Message content array has ${messageContent.length} items (1 text + ${options.referenceImages.length} images)`);
-      } else {
-        // Text only
-        console.log('📝 Building TEXT-ONLY request');
-        messageContent = options.prompt;
-      }
-
-      // Build request body
-      const requestBody = {
-        model: model,
-        modalities: ['image', 'text'], // Enable image generation
-        messages: [
-          {
-            role: 'user',
-            content: messageContent
-          }
-        ],
-        image_config: {
-          aspect_ratio: options.aspectRatio || '3:4' // Use book's aspect ratio or default to 3:4
-        }
-      };
-
-      // Log request structure (without full image data)
-      console.log('📤 API Request Structure:');
-      console.log('  Model:', requestBody.model);
-      console.log('  Modalities:', requestBody.modalities);
-      console.log('  Aspect Ratio:', requestBody.image_config.aspect_ratio);
-      console.log('  Message content type:', Array.isArray(messageContent) ? 'ARRAY (multi-modal)' : 'STRING (text-only)');
-      if (Array.isArray(messageContent)) {
-        console.log('  Message content items:');
-        messageContent.forEach((item, i) => {
-          console.log(`    [${i}] type: ${item.type}${item.type === 'image_url' ? ' (has image data)' : ''}`);
-        });
-      }
-
-      const response = await fetch(`${this.OPENROUTER_BASE_URL}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin,
-          'X-Title': 'Story Prompter - Image Generator'
-        },
-        body: JSON.stringify(requestBody)
-      });
+    let model = options.model;
+    let providerId: string | undefined;
+    let result: ImageGenerationResult;
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('OpenRouter API error:', response.status, errorText);
-        return {
-          success: false,
-          error: `API error (${response.status}): ${errorText}`
-        };
-      }
+    try {
+      model = model || await SettingsService.getImageGenerationModel();
 
-      const result = await response.json();
-      
-      console.log('OpenRouter response:', JSON.stringify(result, null, 2));
-      
-      // Check if the response contains image data
-      const message = result.choices?.[0]?.message;
-      
-      if (!message) {
+      const provider = ImageProviderRegistry.getProviderForModel(model);
+      if (!provider) {
         return {
           success: false,
-          error: 'No message received from API'
+          error: `No image provider is registered for model "${model}".`
         };
       }
-
-      // Per OpenRouter docs, images are in message.images array
-      let imageUrl: string | undefined;
-
-      // Primary format: message.images array (official OpenRouter format)
-      if (message.images && Array.isArray(message.images) && message.images.length > 0) {
-        const firstImage = message.images[0];
-        if (firstImage.image_url?.url) {
-          imageUrl = firstImage.image_url.url;
+      providerId = provider.id;
+
+      const request = this.applyVariation(options);
+      const capabilities = ImageProviderRegistry.getCapabilities(model);
+      if (capabilities) {
+        const referenceCount = request.referenceImages?.length ?? 0;
+        if (referenceCount > capabilities.maxReferenceImages) {
+          console.warn(`⚠️  ${model} supports up to ${capabilities.maxReferenceImages} reference image(s); sending ${referenceCount}`);
         }
-      }
-      // Fallback: Check for content array (alternative multimodal response format)
-      else if (Array.isArray(message.content)) {
-        for (const item of message.content) {
-          if (item.type === 'image_url' && item.image_url?.url) {
-            imageUrl = item.image_url.url;
-            break;
-          }
-        }
-      }
-      // Fallback: Check string content for URLs
-      else if (typeof message.content === 'string') {
-        const content = message.content;
-        
-        // Check if it's a data URL (base64 image)
-        if (content.startsWith('data:image/')) {
-          imageUrl = content;
+        if (options.aspectRatio && !capabilities.supportedAspectRatios.includes(options.aspectRatio)) {
+          console.warn(`⚠️  ${model} does not list aspect ratio ${options.aspectRatio}; the provider may ignore it`);
         }
-        // Check if it's a URL
-        else if (content.startsWith('http://') || content.startsWith('https://')) {
-          imageUrl = content;
-        } 
-        // Check if it contains a URL in markdown or text
-        else {
-          const urlMatch = content.match(/https?:\/\/[^\s)]+\.(png|jpg|jpeg|gif|webp)/i);
-          if (urlMatch) {
-            imageUrl = urlMatch[0];
-          }
+        if (options.seed !== undefined && !capabilities.supportsSeed) {
+          console.warn(`⚠️  ${model} does not support seeds; output will not be repeatable`);
         }
       }
 
-      if (!imageUrl) {
-        return {
-          success: false,
-          error: `Could not extract image from API response. The model may not support image generation.\n\nResponse received:\n${JSON.stringify(message, null, 2)}\n\nTip: Make sure you're using an image-capable model like 'google/gemini-2.5-flash-image' or 'openai/gpt-5-image-mini'`
-        };
-      }
-
-      return {
-        success: true,
-        imageUrl
-      };
+      console.log(`Using image provider: ${provider.name}`);
+      result = await provider.generate({ ...request, model });
 
     } catch (error) {
       console.error('Error generating image:', error);
-      return {
+      result = {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred'
       };
     }
+
+    // Recorded in the background - generation never waits on the ledger
+    if (model) {
+      void UsageLedgerService.record({
+        kind: 'image',
+        model,
+        providerId,
+        success: result.success,
+        error: result.error,
+        usage: result.usage,
+        context: options.usageContext
+      });
+    }
+
+    return result;
   }
 }
-
@@ -35,7 +35,6 @@ export interface ImageToMigrate {
   characterName?: string;
   type: 'scene' | 'character';
   blob: Blob;
-  path: string; // Destination path on disk
 }
 
 const DB_NAME = 'StoryPromptImages';
@@ -65,8 +64,7 @@ export class ImageMigrationService {
       stats.totalImages += sceneImages.length;
       
       for (const img of sceneImages) {
-        const path = `prompter-cache/scenes/${img.id}.png`;
-        const exists = await FileSystemService.fileExists(path);
+        const exists = await FileSystemService.imageExists(img.id);
         if (exists) {
           stats.alreadyOnDisk++;
         } else {
@@ -80,8 +78,7 @@ export class ImageMigrationService {
       stats.totalImages += characterImages.length;
 
       for (const img of characterImages) {
-        const path = `prompter-cache/characters/${img.imageId}.png`;
-        const exists = await FileSystemService.fileExists(path);
+        const exists = await FileSystemService.imageExists(img.imageId);
         if (exists) {
           stats.alreadyOnDisk++;
         } else {
@@ -140,8 +137,7 @@ export class ImageMigrationService {
       stats.totalImages += sceneImages.length;
 
       for (const img of sceneImages) {
-        const path = `prompter-cache/scenes/${img.id}.png`;
-        const exists = await FileSystemService.fileExists(path);
+        const exists = await FileSystemService.imageExists(img.id);
         
         if (exists) {
           stats.alreadyOnDisk++;
@@ -150,8 +146,7 @@ export class ImageMigrationService {
             id: img.id,
             storyId: img.sceneId,
             type: 'scene',
-            blob: img.blob,
-            path
+            blob: img.blob
           });
         }
         stats.totalSizeMB += img.blob.size / (1024 * 1024);
@@ -162,8 +157,7 @@ export class ImageMigrationService {
       stats.totalImages += characterImages.length;
 
       for (const img of characterImages) {
-        const path = `prompter-cache/characters/${img.imageId}.png`;
-        const exists = await FileSystemService.fileExists(path);
+        const exists = await FileSystemService.imageExists(img.imageId);
         
         if (exists) {
           stats.alreadyOnDisk++;
@@ -173,8 +167,7 @@ export class ImageMigrationService {
             storyId: img.storyId,
             characterName: img.characterName,
             type: 'character',
-            blob: img.blob,
-            path
+            blob: img.blob
           });
         }
         stats.totalSizeMB += img.blob.size / (1024 * 1024);
@@ -206,8 +199,12 @@ export class ImageMigrationService {
           // Convert blob to data URL
           const dataUrl = await this.blobToDataURL(image.blob);
           
-          // Save to filesystem
-          const result = await FileSystemService.saveImageToPath(image.path, dataUrl);
+          // Save to the image store
+          const result = await FileSystemService.saveImageById(
+            image.id,
+            dataUrl,
+            image.type === 'scene' ? { sceneId: image.storyId } : { characterName: image.characterName }
+          );
           
           if (result.success) {
             stats.migrated++;
@@ -0,0 +1,82 @@
+/**
+ * ImageProvider - Interface for pluggable image generation backends
+ *
+ * An image provider knows how to turn a prompt (plus optional reference images)
+ * into an image for the models it serves. ImageGenerationService looks up the
+ * provider for a model in ImageProviderRegistry and delegates to it, so callers
+ * like SceneImageGenerationService and CharacterImageService never need to know
+ * which backend is in use.
+ *
+ * Implementations:
+ * - OpenRouterImageProvider: OpenRouter chat-completions API (Gemini, GPT-5 Image)
+ * - [Future]: Direct Gemini, OpenAI, local Stable Diffusion, offline fakes
+ */
+
+import type { ImageGenerationOptions, ImageGenerationResult } from './ImageGenerationService';
+
+/**
+ * What a model can do, used by the UI to filter options and by callers to
+ * warn before sending a request the model cannot honor
+ */
+export interface ImageModelCapabilities {
+  supportedAspectRatios: string[]; // e.g., ['1:1', '16:9', '9:16']
+  maxReferenceImages: number; // 0 = text-only model
+  maxPromptTokens?: number; // Estimated prompt tokens the model follows well; longer scene prompts are compacted
+  supportsSeed?: boolean; // Same seed + same inputs gives (nearly) the same image
+}
+
+/**
+ * Estimated pricing for a model (USD). Used for display and cost estimates,
+ * not billing - the provider's invoice is authoritative.
+ */
+export interface ImageModelCost {
+  perImage?: number; // Estimated cost of one generated image
+  perMillionInputTokens?: number; // Cost of prompt tokens, when billed separately
+  note?: string; // Human-readable pricing summary
+}
+
+/**
+ * A model offered by a provider. `value` and `label` match the shape the
+ * model selectors have always used.
+ */
+export interface ImageModelInfo {
+  value: string; // Model identifier passed to the provider
+  label: string; // Display label for dropdowns
+  providerId: string;
+  capabilities: ImageModelCapabilities;
+  cost?: ImageModelCost;
+}
+
+/**
+ * Request handed to a provider. The model is always resolved by the time a
+ * provider sees the request.
+ */
+export interface ImageProviderRequest extends ImageGenerationOptions {
+  model: string;
+}
+
+/**
+ * Interface every image generation backend implements
+ */
+export interface ImageProvider {
+  /** Stable identifier (e.g., "openrouter") */
+  readonly id: string;
+
+  /** Human-readable name (e.g., "OpenRouter") */
+  readonly name: string;
+
+  /** Models this provider serves */
+  getModels(): ImageModelInfo[];
+
+  /**
+   * Whether this provider accepts model ids it does not list in getModels()
+   * (e.g., OpenRouter accepts any image-capable model slug)
+   */
+  acceptsUnlistedModels(): boolean;
+
+  /**
+   * Generate an image. Providers report failures through the result rather
+   * than throwing, matching ImageGenerationService.generateImage.
+   */
+  generate(request: ImageProviderRequest): Promise<ImageGenerationResult>;
+}
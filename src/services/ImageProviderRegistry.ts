@@ -0,0 +1,86 @@
+/**
+ * ImageProviderRegistry - Single source of truth for image providers and models
+ *
+ * Providers register themselves here; the model dropdowns (getImageModels,
+ * ModelSelectionDialog) and ImageGenerationService read from the registry
+ * when they need it, so providers registered later show up. Adding a backend
+ * means implementing ImageProvider and registering it - no changes to scene
+ * or character generation code.
+ */
+
+import type { ImageModelCapabilities, ImageModelInfo, ImageProvider } from './ImageProvider';
+import { OpenRouterImageProvider } from './OpenRouterImageProvider';
+import { MockImageProvider } from './MockImageProvider';
+
+export class ImageProviderRegistry {
+  private static providers: Map<string, ImageProvider> = new Map();
+  private static defaultProviderId = 'openrouter';
+
+  /**
+   * Register a provider. Re-registering an id replaces the previous provider.
+   */
+  static register(provider: ImageProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * Remove a provider (mainly for tests)
+   */
+  static unregister(providerId: string): void {
+    this.providers.delete(providerId);
+  }
+
+  static getProvider(providerId: string): ImageProvider | undefined {
+    return this.providers.get(providerId);
+  }
+
+  static getProviders(): ImageProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Provider used for model ids that no provider lists explicitly
+   */
+  static setDefaultProvider(providerId: string): void {
+    if (!this.providers.has(providerId)) {
+      throw new Error(`Unknown image provider: ${providerId}`);
+    }
+    this.defaultProviderId = providerId;
+  }
+
+  /**
+   * All models across all registered providers, in registration order
+   */
+  static getAllModels(): ImageModelInfo[] {
+    return this.getProviders().flatMap(provider => provider.getModels());
+  }
+
+  static getModel(modelId: string): ImageModelInfo | undefined {
+    return this.getAllModels().find(model => model.value === modelId);
+  }
+
+  /**
+   * Find the provider that serves a model. Listed models go to their own
+   * provider; unlisted ids fall back to the default provider if it accepts them.
+   */
+  static getProviderForModel(modelId: string): ImageProvider | undefined {
+    const model = this.getModel(modelId);
+    if (model) {
+      return this.providers.get(model.providerId);
+    }
+
+    const fallback = this.providers.get(this.defaultProviderId);
+    return fallback?.acceptsUnlistedModels() ? fallback : undefined;
+  }
+
+  /**
+   * Capabilities for a model, or undefined for unlisted models
+   */
+  static getCapabilities(modelId: string): ImageModelCapabilities | undefined {
+    return this.getModel(modelId)?.capabilities;
+  }
+}
+
+// Built-in providers
+ImageProviderRegistry.register(new OpenRouterImageProvider());
+ImageProviderRegistry.register(new MockImageProvider());
@@ -0,0 +1,502 @@
+/**
+ * ImageRetentionService - Image disk usage, cleanup candidates and bulk deletion
+ *
+ * Scene image histories only ever grow, and images whose scene or character
+ * was deleted stay on disk. This service:
+ * - Measures image disk usage per book and per story
+ * - Lists orphaned images (stored, but used by no book, book snapshot or
+ *   undo history) and superseded ones (older scene images, and optionally
+ *   unselected character images) under an ImageRetentionPolicy: keep the
+ *   newest N, starred images and images used in exports
+ * - Deletes candidates in bulk. The deletion can be undone for
+ *   UNDO_WINDOW_MS; after that the blobs of the deleted images are removed
+ *   from the image store. The deletion's book saves don't add undo steps;
+ *   images an earlier snapshot or undo step can bring back stay in the store.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Book } from '../models/Book';
+import type { Character, CharacterImage } from '../models/Story';
+import type { GeneratedImage } from '../models/Scene';
+import type { StoredImage } from '../types/ImageStore';
+import type {
+  BookStorageUsage,
+  CleanupCandidate,
+  ImageLocation,
+  ImageRetentionPolicy,
+  ImageUsage,
+  PendingImageDeletion,
+  StorageAnalysis
+} from '../types/ImageRetention';
+import { FileSystemService } from './FileSystemService';
+import { ImageStoreService } from './ImageStoreService';
+import { ExportRecordService } from './ExportRecordService';
+import { BookSnapshotService } from './BookSnapshotService';
+import { BookHistoryService } from './BookHistoryService';
+import { SettingsService } from './SettingsService';
+import { StorageService } from './StorageService';
+
+export const UNDO_WINDOW_MS = 30_000;
+
+type PendingListener = (pending: PendingImageDeletion | null) => void;
+
+/**
+ * What a bulk deletion removed, to put it back on undo
+ */
+interface RemovedImage {
+  imageId: string;
+  usage?: ImageUsage;
+  image?: GeneratedImage | CharacterImage;
+  position: number;
+  wasSelected: boolean;
+  storeEntry: StoredImage | null;
+  baseStoreEntry?: StoredImage | null; // Scene images: the image before overlays
+}
+
+export class ImageRetentionService {
+  private static pending: {
+    info: PendingImageDeletion;
+    removed: RemovedImage[];
+    timer: ReturnType<typeof setTimeout>;
+  } | null = null;
+  private static listeners: Set<PendingListener> = new Set();
+
+  // ========================================
+  // Analysis
+  // ========================================
+
+  /**
+   * Measure image usage and find cleanup candidates
+   * @param policy - Defaults to the policy in settings
+   * @throws If the snapshots or undo history can't be read, or the policy
+   * keeps exported images and the export records can't be read, so no
+   * candidates are offered
+   */
+  static async analyze(policy?: ImageRetentionPolicy): Promise<StorageAnalysis> {
+    const activePolicy = policy ?? await SettingsService.getImageRetentionPolicy();
+    const books = await StorageService.getAllBooks();
+    const sizes = await this.getImageSizes();
+    const exported = activePolicy.keepExported ? await ExportRecordService.getExportedImageIds() : new Set<string>();
+    const restorable = await this.getRestorableImageIds();
+    const quotaMB = await SettingsService.getImageStorageQuotaMB();
+
+    const usages = books.flatMap(book => this.collectUsages(book));
+    const useCounts = new Map<string, number>();
+    usages.forEach(usage => useCounts.set(usage.imageId, (useCounts.get(usage.imageId) ?? 0) + 1));
+    // Base images are used by their scene image, and never candidates on their own
+    const baseImageIds = new Set(usages.flatMap(usage => usage.baseImageId ? [usage.baseImageId] : []));
+
+    const analysis: StorageAnalysis = {
+      analyzedAt: new Date(),
+      policy: activePolicy,
+      totalImages: sizes.size,
+      totalBytes: Array.from(sizes.values()).reduce((sum, size) => sum + size, 0),
+      quotaBytes: quotaMB ? quotaMB * 1024 * 1024 : null,
+      books: books.map(book => this.measureBook(book, usages, sizes)),
+      orphaned: [],
+      superseded: [],
+      kept: { starred: 0, exported: 0, restorable: 0 }
+    };
+
+    // Superseded: all but the newest N of each scene (and character gallery)
+    const keepLast = Math.max(1, activePolicy.keepLastPerScene);
+    const groups = new Map<string, ImageUsage[]>();
+    for (const usage of usages) {
+      const group = usage.kind === 'scene'
+        ? `scene:${usage.bookId}:${usage.sceneId}`
+        : usage.kind === 'character' && activePolicy.includeCharacterGalleries
+          ? `character:${usage.bookId}:${usage.storyId ?? ''}:${usage.characterName}`
+          : null;
+      if (group) {
+        groups.set(group, [...(groups.get(group) ?? []), usage]);
+      }
+    }
+
+    const protectedIds = new Set(usages.filter(usage => usage.kind === 'reference').map(usage => usage.imageId));
+    for (const book of books) {
+      for (const character of this.allCharacters(book)) {
+        if (character.selectedImageId) protectedIds.add(character.selectedImageId);
+      }
+    }
+
+    for (const group of groups.values()) {
+      for (const usage of group.slice(0, -keepLast)) {
+        // Images used in more than one place are never superseded
+        if (protectedIds.has(usage.imageId) || (useCounts.get(usage.imageId) ?? 0) > 1) continue;
+        if (activePolicy.keepStarred && usage.starred) {
+          analysis.kept.starred++;
+        } else if (exported.has(usage.imageId)) {
+          analysis.kept.exported++;
+        } else {
+          const size = (sizes.get(usage.imageId) ?? 0) + (usage.baseImageId ? sizes.get(usage.baseImageId) ?? 0 : 0);
+          analysis.superseded.push({ imageId: usage.imageId, reason: 'superseded', size, usage });
+        }
+      }
+    }
+
+    // Orphaned: stored but used by no book
+    for (const [imageId, size] of sizes) {
+      if (useCounts.has(imageId) || baseImageIds.has(imageId)) continue;
+      if (restorable.has(imageId)) {
+        analysis.kept.restorable++;
+      } else if (exported.has(imageId)) {
+        analysis.kept.exported++;
+      } else {
+        analysis.orphaned.push({ imageId, reason: 'orphaned', size });
+      }
+    }
+
+    return analysis;
+  }
+
+  /**
+   * Every image a book uses, scene histories and galleries in stored order
+   */
+  private static collectUsages(book: Book): ImageUsage[] {
+    const usages: ImageUsage[] = [];
+    const bookInfo = { bookId: book.id, bookTitle: book.title };
+
+    const addCharacter = (character: Character, storyInfo: { storyId?: string; storyTitle?: string }) => {
+      for (const image of character.imageGallery ?? []) {
+        usages.push({
+          imageId: image.id,
+          kind: 'character',
+          ...bookInfo,
+          ...storyInfo,
+          characterName: character.name,
+          timestamp: image.timestamp,
+          starred: !!image.starred
+        });
+      }
+      if (character.referenceImageId) {
+        usages.push({ imageId: character.referenceImageId, kind: 'reference', ...bookInfo, ...storyInfo, characterName: character.name, starred: false });
+      }
+    };
+
+    book.characters.forEach(character => addCharacter(character, {}));
+    for (const story of book.stories) {
+      const storyInfo = { storyId: story.id, storyTitle: story.title };
+      story.characters.forEach(character => addCharacter(character, storyInfo));
+      for (const scene of story.scenes) {
+        for (const image of scene.imageHistory ?? []) {
+          usages.push({
+            imageId: image.id,
+            kind: 'scene',
+            ...bookInfo,
+            ...storyInfo,
+            sceneId: scene.id,
+            sceneTitle: scene.title,
+            timestamp: image.timestamp,
+            starred: !!image.starred,
+            baseImageId: image.baseImageId
+          });
+        }
+      }
+    }
+    return usages;
+  }
+
+  /**
+   * Images used by book snapshots and undo/redo history, which a restore or
+   * an undo would bring back
+   */
+  private static async getRestorableImageIds(): Promise<Set<string>> {
+    const books = [...await BookSnapshotService.loadAllSnapshotBooks(), ...await BookHistoryService.loadAllHistoryBooks()];
+    const imageIds = new Set<string>();
+    for (const usage of books.flatMap(book => this.collectUsages(book))) {
+      imageIds.add(usage.imageId);
+      if (usage.baseImageId) imageIds.add(usage.baseImageId);
+    }
+    return imageIds;
+  }
+
+  private static allCharacters(book: Book): Character[] {
+    return [...book.characters, ...book.stories.flatMap(story => story.characters)];
+  }
+
+  /**
+   * Disk usage of one book, counting each image once per book and per story
+   */
+  private static measureBook(book: Book, usages: ImageUsage[], sizes: Map<string, number>): BookStorageUsage {
+    const measure = (ids: Set<string>) => ({
+      imageCount: ids.size,
+      bytes: Array.from(ids).reduce((sum, id) => sum + (sizes.get(id) ?? 0), 0)
+    });
+    const bookUsages = usages.filter(usage => usage.bookId === book.id);
+    const imageIds = (list: ImageUsage[]) => new Set(list.flatMap(usage => usage.baseImageId ? [usage.imageId, usage.baseImageId] : [usage.imageId]));
+
+    return {
+      bookId: book.id,
+      bookTitle: book.title,
+      ...measure(imageIds(bookUsages)),
+      stories: book.stories.map(story => ({
+        storyId: story.id,
+        storyTitle: story.title,
+        ...measure(imageIds(bookUsages.filter(usage => usage.storyId === story.id)))
+      }))
+    };
+  }
+
+  /**
+   * Size of every stored image: the image store, then files in the old layout
+   */
+  private static async getImageSizes(): Promise<Map<string, number>> {
+    if (!await FileSystemService.isConfigured()) {
+      return new Map();
+    }
+
+    const sizes = await ImageStoreService.getImageSizes();
+    const backend = FileSystemService.getBackend();
+    for (const file of await ImageStoreService.listLegacyFiles()) {
+      if (!sizes.has(file.imageId)) {
+        sizes.set(file.imageId, (await backend.readBinary(file.path))?.byteLength ?? 0);
+      }
+    }
+    return sizes;
+  }
+
+  // ========================================
+  // Starring
+  // ========================================
+
+  /**
+   * Star or unstar an image where a book uses it
+   * @returns false if the image is no longer there
+   */
+  static async setStarred(location: ImageLocation, starred: boolean): Promise<boolean> {
+    const book = await StorageService.getBook(location.bookId);
+    const image = book && this.findImage(book, location)?.image;
+    if (!book || !image) {
+      return false;
+    }
+
+    image.starred = starred || undefined;
+    await StorageService.saveBook(book);
+    return true;
+  }
+
+  private static findImage(
+    book: Book,
+    location: ImageLocation
+  ): { list: Array<GeneratedImage | CharacterImage>; image: GeneratedImage | CharacterImage; character?: Character } | null {
+    const story = location.storyId ? book.stories.find(s => s.id === location.storyId) : undefined;
+    if (location.storyId && !story) return null;
+
+    if (location.kind === 'scene') {
+      const list = story?.scenes.find(scene => scene.id === location.sceneId)?.imageHistory;
+      const image = list?.find(candidate => candidate.id === location.imageId);
+      return list && image ? { list, image } : null;
+    }
+
+    const character = (story ? story.characters : book.characters).find(c => c.name === location.characterName);
+    const list = character?.imageGallery;
+    const image = list?.find(candidate => candidate.id === location.imageId);
+    return character && list && image ? { list, image, character } : null;
+  }
+
+  // ========================================
+  // Bulk deletion
+  // ========================================
+
+  /**
+   * Delete cleanup candidates: remove them from their books and drop them
+   * from the image store. Can be undone until the undo window closes (or the
+   * next bulk deletion), after which unused blobs are deleted from disk.
+   * Images a snapshot or undo can still bring back are only removed from
+   * their books.
+   */
+  static async deleteImages(candidates: CleanupCandidate[]): Promise<PendingImageDeletion> {
+    await this.finalizeDeletion();
+
+    // Before the books change: the deletion itself is saved without an undo
+    // entry, so only earlier snapshots and undo steps can bring an image back
+    let restorable: Set<string> | null;
+    try {
+      restorable = await this.getRestorableImageIds();
+    } catch (error) {
+      console.warn('Keeping the deleted images on disk, snapshots or undo history are unreadable:', error);
+      restorable = null;
+    }
+    const isRestorable = (imageId: string) => !restorable || restorable.has(imageId);
+
+    const removed: Array<{ entry: RemovedImage; size: number }> = [];
+    const changedBooks = new Map<string, Book>();
+
+    for (const candidate of candidates) {
+      const entry: RemovedImage = { imageId: candidate.imageId, position: -1, wasSelected: false, storeEntry: null };
+
+      if (candidate.usage) {
+        const book = changedBooks.get(candidate.usage.bookId) ?? await StorageService.getBook(candidate.usage.bookId);
+        const found = book && this.findImage(book, candidate.usage);
+        if (!book || !found) continue;
+
+        entry.usage = candidate.usage;
+        entry.image = found.image;
+        entry.position = found.list.indexOf(found.image);
+        found.list.splice(entry.position, 1);
+        if (found.character?.selectedImageId === candidate.imageId) {
+          entry.wasSelected = true;
+          found.character.selectedImageId = found.character.imageGallery?.at(-1)?.id;
+        }
+        changedBooks.set(book.id, book);
+      }
+      removed.push({ entry, size: candidate.size });
+    }
+
+    for (const book of changedBooks.values()) {
+      await BookHistoryService.saveWithoutRecording(book);
+    }
+
+    let bytes = 0;
+    let keptOnDisk = 0;
+    for (const { entry, size } of removed) {
+      if (isRestorable(entry.imageId)) {
+        keptOnDisk++;
+        continue;
+      }
+
+      // Files in the old layout move into the store first, so the bytes survive until the window closes
+      await ImageStoreService.adoptLegacyImage(entry.imageId);
+      entry.storeEntry = await ImageStoreService.getImage(entry.imageId);
+      await ImageStoreService.removeImage(entry.imageId);
+
+      const baseImageId = entry.usage?.baseImageId;
+      if (baseImageId && !isRestorable(baseImageId)) {
+        await ImageStoreService.adoptLegacyImage(baseImageId);
+        entry.baseStoreEntry = await ImageStoreService.getImage(baseImageId);
+        await ImageStoreService.removeImage(baseImageId);
+      }
+      bytes += size;
+    }
+
+    const deletedAt = new Date();
+    const info: PendingImageDeletion = {
+      id: uuidv4(),
+      imageIds: removed.map(({ entry }) => entry.imageId),
+      bytes,
+      keptOnDisk,
+      deletedAt,
+      expiresAt: new Date(deletedAt.getTime() + UNDO_WINDOW_MS)
+    };
+    this.pending = {
+      info,
+      removed: removed.map(({ entry }) => entry),
+      timer: setTimeout(() => {
+        this.finalizeDeletion().catch(error => console.error('Failed to finish image deletion:', error));
+      }, UNDO_WINDOW_MS)
+    };
+    this.notify();
+    return info;
+  }
+
+  /**
+   * Put back the images of the pending deletion
+   * @returns Number of images restored
+   */
+  static async undoDeletion(): Promise<number> {
+    const pending = this.pending;
+    if (!pending) {
+      return 0;
+    }
+    clearTimeout(pending.timer);
+    this.pending = null;
+
+    const changedBooks = new Map<string, Book>();
+    let restored = 0;
+
+    // Reverse order, so each image goes back at the position it had
+    for (const entry of [...pending.removed].reverse()) {
+      if (entry.storeEntry && !await ImageStoreService.restoreImage(entry.imageId, entry.storeEntry)) {
+        console.warn(`Image ${entry.imageId} could not be restored`);
+        continue;
+      }
+      const baseImageId = entry.usage?.baseImageId;
+      if (baseImageId && entry.baseStoreEntry && !await ImageStoreService.restoreImage(baseImageId, entry.baseStoreEntry)) {
+        console.warn(`Image ${baseImageId} (before overlays) could not be restored`);
+      }
+
+      if (entry.usage && entry.image) {
+        const book = changedBooks.get(entry.usage.bookId) ?? await StorageService.getBook(entry.usage.bookId);
+        if (book && this.restoreUsage(book, entry)) {
+          changedBooks.set(book.id, book);
+        }
+      }
+      restored++;
+    }
+
+    for (const book of changedBooks.values()) {
+      await BookHistoryService.saveWithoutRecording(book);
+    }
+    this.notify();
+    return restored;
+  }
+
+  private static restoreUsage(book: Book, entry: RemovedImage): boolean {
+    const usage = entry.usage;
+    if (!usage || !entry.image) return false;
+    const story = usage.storyId ? book.stories.find(s => s.id === usage.storyId) : undefined;
+
+    if (usage.kind === 'scene') {
+      const scene = story?.scenes.find(s => s.id === usage.sceneId);
+      if (!scene) return false;
+      scene.imageHistory ??= [];
+      scene.imageHistory.splice(Math.min(entry.position, scene.imageHistory.length), 0, entry.image as GeneratedImage);
+      return true;
+    }
+
+    const character = (story ? story.characters : book.characters).find(c => c.name === usage.characterName);
+    if (!character) return false;
+    character.imageGallery ??= [];
+    character.imageGallery.splice(Math.min(entry.position, character.imageGallery.length), 0, entry.image as CharacterImage);
+    if (entry.wasSelected) {
+      character.selectedImageId = entry.imageId;
+    }
+    return true;
+  }
+
+  /**
+   * Close the undo window now and delete the blobs of the removed images
+   * that nothing else uses
+   * @returns Bytes freed, or null if nothing was pending
+   */
+  static async finalizeDeletion(): Promise<number | null> {
+    const pending = this.pending;
+    if (!pending) {
+      return null;
+    }
+    clearTimeout(pending.timer);
+    this.pending = null;
+    this.notify();
+
+    const hashes = pending.removed.flatMap(entry =>
+      [entry.storeEntry?.hash, entry.baseStoreEntry?.hash].filter((hash): hash is string => !!hash));
+    return ImageStoreService.collectBlobs(hashes);
+  }
+
+  static getPendingDeletion(): PendingImageDeletion | null {
+    return this.pending?.info ?? null;
+  }
+
+  static subscribe(listener: PendingListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static notify(): void {
+    const info = this.getPendingDeletion();
+    this.listeners.forEach(listener => listener(info));
+  }
+
+  /**
+   * Drop pending state without deleting anything (tests only)
+   */
+  static reset(): void {
+    if (this.pending) {
+      clearTimeout(this.pending.timer);
+    }
+    this.pending = null;
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,523 @@
+/**
+ * ImageStoreService - Content-addressed storage for generated and uploaded images
+ *
+ * Images used to be saved as prompter-cache/{scenes,characters}/{imageId}.png,
+ * so the same picture uploaded twice as a reference image, or a book imported
+ * twice, took its full size every time. The store keeps each distinct PNG once:
+ *
+ *   prompter-cache/blobs/ab/abcdef....png   - blob named by the SHA-256 of its bytes
+ *   prompter-cache/blobs/index.json         - image ID → blob, and blob → reference count
+ *
+ * Removing an image ID only drops a reference; blobs nobody references are
+ * deleted by collectGarbage. Blob files the index doesn't know are never
+ * deleted - collectGarbage moves them to prompter-cache/blobs-quarantine. If
+ * index.json can't be read, every index change (storing, copying, removing,
+ * collecting) is refused, so the file is never replaced by an index that
+ * knows none of the stored images. FileSystemService
+ * reads the store first and falls back to the old layout, which
+ * migrateLegacyImages moves into the store.
+ *
+ * Index updates are queued so concurrent saves can't lose references, and
+ * written through SaveJournalService so a crash can't leave a torn index.
+ */
+
+import type {
+  ImageStoreGcResult,
+  ImageStoreIndex,
+  ImageStoreMigrationProgress,
+  ImageStoreMigrationResult,
+  ImageStoreReport,
+  StoredImage,
+  StoredImageKind
+} from '../types/ImageStore';
+import type { StorageBackend } from './StorageBackend';
+import { FileSystemService } from './FileSystemService';
+import { SaveJournalService } from './SaveJournalService';
+import { HashService } from './HashService';
+
+const CACHE_DIR = 'prompter-cache';
+const BLOBS_DIR = `${CACHE_DIR}/blobs`;
+const INDEX_PATH = `${BLOBS_DIR}/index.json`;
+const QUARANTINE_DIR = `${CACHE_DIR}/blobs-quarantine`;
+
+// Journal owner for index writes (SaveJournalService queues and reports by book)
+const INDEX_JOURNAL_OWNER = { id: 'image-store-index', title: 'Image store index' };
+
+/** Old per-ID image directories, in lookup order */
+export const LEGACY_IMAGE_DIRECTORIES: Array<{ path: string; kind: StoredImageKind }> = [
+  { path: `${CACHE_DIR}/scenes`, kind: 'scene' },
+  { path: `${CACHE_DIR}/characters`, kind: 'character' },
+  { path: CACHE_DIR, kind: 'other' }
+];
+
+/**
+ * SHA-256 of the bytes as lowercase hex
+ */
+export async function hashImageBytes(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function emptyIndex(): ImageStoreIndex {
+  return { version: 1, images: {}, blobs: {} };
+}
+
+export class ImageStoreService {
+  private static index: ImageStoreIndex | null = null;
+  private static indexBackend: StorageBackend | null = null;
+  private static indexError: string | null = null;
+  private static queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Path of a blob, sharded by the first two hex digits
+   */
+  static getBlobPath(hash: string): string {
+    return `${BLOBS_DIR}/${hash.slice(0, 2)}/${hash}.png`;
+  }
+
+  // ========================================
+  // Images
+  // ========================================
+
+  /**
+   * Store an image under an ID, reusing the blob if the same bytes are stored already
+   *
+   * @returns Blob path, and whether the bytes were already stored
+   */
+  static async putImage(
+    imageId: string,
+    bytes: Uint8Array,
+    info: { kind: StoredImageKind; sceneId?: string; characterName?: string; modelName?: string }
+  ): Promise<{ path: string; hash: string; deduplicated: boolean }> {
+    const hash = await hashImageBytes(bytes);
+    const path = this.getBlobPath(hash);
+
+    return this.mutate(async (index, backend) => {
+      const deduplicated = !!index.blobs[hash] && await backend.exists(path);
+      if (!deduplicated) {
+        await backend.writeBinary(path, bytes);
+      }
+
+      const previous = index.images[imageId];
+      if (previous) {
+        this.release(index, previous.hash);
+      }
+      index.blobs[hash] = { size: bytes.byteLength, refCount: (index.blobs[hash]?.refCount ?? 0) + 1 };
+      index.images[imageId] = {
+        hash,
+        kind: info.kind,
+        storedAt: new Date().toISOString(),
+        ...(info.sceneId ? { sceneId: info.sceneId } : {}),
+        ...(info.characterName ? { characterName: info.characterName } : {}),
+        ...(info.modelName ? { modelName: info.modelName } : {})
+      };
+
+      return { path, hash, deduplicated };
+    });
+  }
+
+  /**
+   * Bytes of a stored image, or null if the ID isn't in the store
+   */
+  static async readImage(imageId: string): Promise<Uint8Array | null> {
+    const entry = (await this.loadIndex()).images[imageId];
+    return entry ? FileSystemService.getBackend().readBinary(this.getBlobPath(entry.hash)) : null;
+  }
+
+  static async getImage(imageId: string): Promise<StoredImage | null> {
+    return (await this.loadIndex()).images[imageId] ?? null;
+  }
+
+  static async hasImage(imageId: string): Promise<boolean> {
+    return !!(await this.loadIndex()).images[imageId];
+  }
+
+  /**
+   * All stored image IDs
+   */
+  static async listImageIds(): Promise<string[]> {
+    return Object.keys((await this.loadIndex()).images);
+  }
+
+  /**
+   * Size of every stored image ID
+   */
+  static async getImageSizes(): Promise<Map<string, number>> {
+    const index = await this.loadIndex();
+    return new Map(Object.entries(index.images).map(([imageId, entry]) => [imageId, index.blobs[entry.hash]?.size ?? 0]));
+  }
+
+  /**
+   * Put a removed image ID back, as long as its blob hasn't been collected
+   */
+  static async restoreImage(imageId: string, entry: StoredImage): Promise<boolean> {
+    return this.mutate(async (index, backend) => {
+      if (index.images[imageId]) return true;
+      const blob = index.blobs[entry.hash];
+      if (!blob || !await backend.exists(this.getBlobPath(entry.hash))) return false;
+      blob.refCount++;
+      index.images[imageId] = entry;
+      return true;
+    });
+  }
+
+  /**
+   * Store an already stored image under another ID as well, sharing its blob
+   *
+   * @returns false if the source ID isn't stored
+   */
+  static async copyImage(imageId: string, newImageId: string, info: { sceneId?: string } = {}): Promise<boolean> {
+    return this.mutate(async index => {
+      const entry = index.images[imageId];
+      const blob = entry && index.blobs[entry.hash];
+      if (!blob) return false;
+      const previous = index.images[newImageId];
+      if (previous) {
+        this.release(index, previous.hash);
+      }
+      blob.refCount++;
+      index.images[newImageId] = { ...entry, ...info, storedAt: new Date().toISOString() };
+      return true;
+    });
+  }
+
+  /**
+   * Remove an image ID. Its blob stays until collectGarbage, and only if
+   * no other ID uses it.
+   *
+   * @returns false if the ID wasn't stored
+   */
+  static async removeImage(imageId: string): Promise<boolean> {
+    if (!await this.hasImage(imageId)) {
+      return false;
+    }
+    return this.mutate(async index => {
+      const entry = index.images[imageId];
+      if (!entry) return false;
+      delete index.images[imageId];
+      this.release(index, entry.hash);
+      return true;
+    });
+  }
+
+  private static release(index: ImageStoreIndex, hash: string): void {
+    const blob = index.blobs[hash];
+    if (blob) {
+      blob.refCount = Math.max(0, blob.refCount - 1);
+    }
+  }
+
+  // ========================================
+  // Maintenance
+  // ========================================
+
+  /**
+   * Delete the given blobs if no image ID references them any more. Unlike
+   * collectGarbage this leaves every other blob alone.
+   *
+   * @returns Bytes freed
+   */
+  static async collectBlobs(hashes: string[]): Promise<number> {
+    return this.mutate(async (index, backend) => {
+      let freedBytes = 0;
+      for (const hash of new Set(hashes)) {
+        const blob = index.blobs[hash];
+        if (!blob || blob.refCount > 0) continue;
+        await backend.delete(this.getBlobPath(hash));
+        delete index.blobs[hash];
+        freedBytes += blob.size;
+      }
+      return freedBytes;
+    });
+  }
+
+  /**
+   * Delete blobs that no image ID references. Blob files missing from the
+   * index (left by a save interrupted before the index was written, or by a
+   * lost index) are moved to prompter-cache/blobs-quarantine instead.
+   *
+   * @throws If index.json couldn't be read - its references are unknown
+   */
+  static async collectGarbage(options: { dryRun?: boolean } = {}): Promise<ImageStoreGcResult> {
+    const dryRun = options.dryRun ?? false;
+
+    await this.loadIndex();
+    if (this.indexError) {
+      throw new Error(`The image store index could not be read (${this.indexError}), so unused images can't be told apart. Nothing was deleted.`);
+    }
+
+    return this.mutate(async (index, backend) => {
+      const result: ImageStoreGcResult = { dryRun, deletedBlobs: [], freedBytes: 0, quarantinedBlobs: [] };
+
+      for (const [hash, blob] of Object.entries(index.blobs)) {
+        if (blob.refCount > 0) continue;
+        if (!dryRun) {
+          await backend.delete(this.getBlobPath(hash));
+          delete index.blobs[hash];
+        }
+        result.deletedBlobs.push(this.getBlobPath(hash));
+        result.freedBytes += blob.size;
+      }
+
+      for (const path of await this.listBlobFiles(backend)) {
+        const hash = path.slice(path.lastIndexOf('/') + 1, -'.png'.length);
+        if (index.blobs[hash] || result.deletedBlobs.includes(path)) continue;
+        if (!dryRun) {
+          const bytes = await backend.readBinary(path);
+          if (!bytes) continue;
+          await backend.writeBinary(`${QUARANTINE_DIR}/${hash}.png`, bytes);
+          await backend.delete(path);
+        }
+        result.quarantinedBlobs.push(path);
+      }
+
+      return result;
+    }, { write: !dryRun });
+  }
+
+  /**
+   * Disk usage of the store and of images still in the old layout
+   */
+  static async getStorageReport(): Promise<ImageStoreReport> {
+    const index = await this.loadIndex();
+    const report: ImageStoreReport = {
+      imageCount: Object.keys(index.images).length,
+      blobCount: 0,
+      logicalBytes: 0,
+      storedBytes: 0,
+      unreferencedBlobs: 0,
+      unreferencedBytes: 0,
+      unindexedBlobs: 0,
+      unindexedBytes: 0,
+      legacyFiles: 0,
+      legacyBytes: 0,
+      ...(this.indexError ? { indexError: this.indexError } : {})
+    };
+
+    for (const entry of Object.values(index.images)) {
+      report.logicalBytes += index.blobs[entry.hash]?.size ?? 0;
+    }
+    for (const blob of Object.values(index.blobs)) {
+      report.blobCount++;
+      report.storedBytes += blob.size;
+      if (blob.refCount === 0) {
+        report.unreferencedBlobs++;
+        report.unreferencedBytes += blob.size;
+      }
+    }
+
+    const backend = FileSystemService.getBackend();
+    for (const path of await this.listBlobFiles(backend)) {
+      if (index.blobs[path.slice(path.lastIndexOf('/') + 1, -'.png'.length)]) continue;
+      report.unindexedBlobs++;
+      report.unindexedBytes += (await backend.stat(path))?.size ?? 0;
+    }
+    for (const file of await this.listLegacyFiles()) {
+      report.legacyFiles++;
+      report.legacyBytes += (await backend.stat(file.path))?.size ?? 0;
+    }
+    return report;
+  }
+
+  /**
+   * Move images from prompter-cache/{scenes,characters}/{imageId}.png (and
+   * their .json metadata) into the store
+   */
+  static async migrateLegacyImages(
+    onProgress?: (progress: ImageStoreMigrationProgress) => void
+  ): Promise<ImageStoreMigrationResult> {
+    const result: ImageStoreMigrationResult = { migrated: 0, deduplicated: 0, bytesSaved: 0, failed: [] };
+    const files = await this.listLegacyFiles();
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      onProgress?.({ current: i + 1, total: files.length, path: file.path });
+
+      try {
+        const moved = await this.moveLegacyFile(file);
+        if (!moved) continue;
+        if (moved.deduplicated) {
+          result.deduplicated++;
+          result.bytesSaved += moved.size;
+        }
+        result.migrated++;
+      } catch (error) {
+        result.failed.push({ path: file.path, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    if (result.migrated > 0) {
+      console.log(`✓ Moved ${result.migrated} image(s) into the image store (${result.deduplicated} duplicate(s))`);
+    }
+    return result;
+  }
+
+  /**
+   * Move one image from the old layout into the store
+   * @returns false if the ID has no file in the old layout
+   */
+  static async adoptLegacyImage(imageId: string): Promise<boolean> {
+    const file = (await this.listLegacyFiles()).find(candidate => candidate.imageId === imageId);
+    return !!file && !!await this.moveLegacyFile(file);
+  }
+
+  private static async moveLegacyFile(
+    file: { path: string; imageId: string; kind: StoredImageKind }
+  ): Promise<{ deduplicated: boolean; size: number } | null> {
+    const backend = FileSystemService.getBackend();
+    const bytes = await backend.readBinary(file.path);
+    if (!bytes) return null;
+
+    const metadataPath = file.path.replace(/\.png$/, '.json');
+    let deduplicated = true;
+    // A copy saved since the store existed is newer than the legacy file
+    if (!await this.hasImage(file.imageId)) {
+      const metadata = await this.readLegacyMetadata(metadataPath);
+      ({ deduplicated } = await this.putImage(file.imageId, bytes, { kind: file.kind, ...metadata }));
+    }
+
+    await backend.delete(file.path);
+    await backend.delete(metadataPath).catch(() => false); // Metadata may not exist
+    return { deduplicated, size: bytes.byteLength };
+  }
+
+  private static async readLegacyMetadata(
+    path: string
+  ): Promise<{ sceneId?: string; characterName?: string; modelName?: string }> {
+    try {
+      const content = await FileSystemService.getBackend().readText(path);
+      const data = content ? JSON.parse(content) : {};
+      return {
+        sceneId: typeof data.sceneId === 'string' ? data.sceneId : undefined,
+        characterName: typeof data.characterName === 'string' ? data.characterName : undefined,
+        modelName: typeof data.modelName === 'string' ? data.modelName : undefined
+      };
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * PNGs in the old layout, first directory wins for an ID
+   */
+  static async listLegacyFiles(): Promise<Array<{ path: string; imageId: string; kind: StoredImageKind }>> {
+    const backend = FileSystemService.getBackend();
+    const files: Array<{ path: string; imageId: string; kind: StoredImageKind }> = [];
+    const seen = new Set<string>();
+
+    for (const dir of LEGACY_IMAGE_DIRECTORIES) {
+      const { files: names } = await backend.list(dir.path);
+      for (const name of names.filter(fileName => fileName.endsWith('.png')).sort()) {
+        const imageId = name.slice(0, -'.png'.length);
+        if (seen.has(imageId)) continue;
+        seen.add(imageId);
+        files.push({ path: `${dir.path}/${name}`, imageId, kind: dir.kind });
+      }
+    }
+    return files;
+  }
+
+  private static async listBlobFiles(backend: StorageBackend): Promise<string[]> {
+    const paths: string[] = [];
+    const { directories } = await backend.list(BLOBS_DIR);
+    for (const shard of directories.sort()) {
+      const { files } = await backend.list(`${BLOBS_DIR}/${shard}`);
+      paths.push(...files.filter(name => name.endsWith('.png')).sort().map(name => `${BLOBS_DIR}/${shard}/${name}`));
+    }
+    return paths;
+  }
+
+  // ========================================
+  // Index
+  // ========================================
+
+  /**
+   * Why index.json couldn't be read, or null if it loaded
+   */
+  static async getIndexError(): Promise<string | null> {
+    await this.loadIndex();
+    return this.indexError;
+  }
+
+  /**
+   * Load the index (cached per backend, so switching directories reloads it).
+   * An unreadable index is copied aside and read as an empty one; mutate
+   * refuses every change until an index loads again.
+   */
+  private static async loadIndex(): Promise<ImageStoreIndex> {
+    const backend = FileSystemService.getBackend();
+    if (this.index && this.indexBackend === backend) {
+      return this.index;
+    }
+
+    let index = emptyIndex();
+    this.indexError = null;
+    const content = await backend.readText(INDEX_PATH);
+    if (content) {
+      try {
+        const data = JSON.parse(content);
+        if (data?.version === 1 && data.images && data.blobs) {
+          index = data;
+        } else {
+          this.indexError = 'unknown format';
+        }
+      } catch (error) {
+        this.indexError = error instanceof Error ? error.message : 'unreadable';
+      }
+    }
+
+    if (this.indexError) {
+      // Named by content, so reloading the same broken index keeps one copy
+      const copyPath = `${BLOBS_DIR}/index.unreadable-${HashService.checksum(content ?? '')}.json`;
+      console.error(`Image store index could not be read (${this.indexError}); image changes are refused, a copy was kept as ${copyPath}`);
+      if (!await backend.exists(copyPath).catch(() => false)) {
+        await backend.writeText(copyPath, content ?? '').catch(error => console.warn('Failed to keep the unreadable index:', error));
+      }
+    }
+
+    this.index = index;
+    this.indexBackend = backend;
+    return index;
+  }
+
+  /**
+   * Run an index change after the ones already queued, then write the index
+   * @throws If index.json couldn't be read - writing the empty stand-in
+   * would drop every stored image
+   */
+  private static mutate<T>(
+    change: (index: ImageStoreIndex, backend: StorageBackend) => Promise<T>,
+    options: { write?: boolean } = {}
+  ): Promise<T> {
+    const run = this.queue.catch(() => undefined).then(async () => {
+      const backend = FileSystemService.getBackend();
+      const index = await this.loadIndex();
+      if (this.indexError) {
+        throw new Error(`The image store index could not be read (${this.indexError}), so images can't be stored or removed until it is fixed.`);
+      }
+      try {
+        const result = await change(index, backend);
+        if (options.write ?? true) {
+          await SaveJournalService.commit(INDEX_JOURNAL_OWNER, [{ path: INDEX_PATH, content: JSON.stringify(index) }]);
+        }
+        return result;
+      } catch (error) {
+        // The cached index may be half-changed: reload it from disk next time
+        this.index = null;
+        throw error;
+      }
+    });
+    this.queue = run;
+    return run;
+  }
+
+  /**
+   * Forget the cached index (tests only)
+   */
+  static reset(): void {
+    this.index = null;
+    this.indexBackend = null;
+    this.indexError = null;
+    this.queue = Promise.resolve();
+  }
+}
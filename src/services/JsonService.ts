@@ -0,0 +1,15 @@
+/**
+ * JsonService - Helpers for plain JSON data
+ *
+ * Book, story and snapshot data is plain JSON once serialized, so
+ * comparing it by serialization is enough to tell whether a part changed.
+ */
+export class JsonService {
+  /**
+   * Whether two values serialize to the same JSON. Key order matters, which
+   * holds for values that came from the same serializer.
+   */
+  static equal(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
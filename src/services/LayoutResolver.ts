@@ -1,4 +1,4 @@
-import type { Scene, Story, SceneLayout } from '../types/Story';
+import type { Chapter, Scene, Story, SceneLayout } from '../types/Story';
 import type { Book } from '../types/Book';
 
 /**
@@ -6,14 +6,15 @@ import type { Book } from '../types/Book';
  * 
  * Layout Priority (highest to lowest):
  * 1. Scene-specific layout (scene.layout)
- * 2. Story-level layout (story.layout)
- * 3. Book-level default layout (book.defaultLayout)
- * 4. System default (overlay with full-screen image)
+ * 2. Chapter layout (layout of the story chapter holding the scene)
+ * 3. Story-level layout (story.layout)
+ * 4. Book-level default layout (book.defaultLayout)
+ * 5. System default (overlay with full-screen image)
  */
 export class LayoutResolver {
   /**
    * Resolve the effective layout for a scene
-   * Follows the inheritance chain: scene → story → book → system default
+   * Follows the inheritance chain: scene → chapter → story → book → system default
    */
   static resolveLayout(
     scene: Scene,
@@ -26,19 +27,26 @@ export class LayoutResolver {
       return scene.layout;
     }
 
-    // 2. Check story-level layout
+    // 2. Check the layout of the scene's chapter
+    const chapter = this.getChapter(scene, story);
+    if (chapter?.layout) {
+      console.log(`📐 Using chapter layout for scene "${scene.title}" (from chapter "${chapter.title}")`);
+      return chapter.layout;
+    }
+
+    // 3. Check story-level layout
     if (story?.layout) {
       console.log(`📐 Using story-level layout for scene "${scene.title}" (from story "${story.title}")`);
       return story.layout;
     }
 
-    // 3. Check book-level default layout
+    // 4. Check book-level default layout
     if (book?.defaultLayout) {
       console.log(`📐 Using book-level default layout for scene "${scene.title}" (from book "${book.title}")`);
       return book.defaultLayout as SceneLayout;
     }
 
-    // 4. No layout defined at any level - return undefined
+    // 5. No layout defined at any level - return undefined
     // The caller will use system defaults
     console.log(`📐 No layout defined for scene "${scene.title}" - using system defaults`);
     return undefined;
@@ -51,8 +59,9 @@ export class LayoutResolver {
     scene: Scene,
     story: Story | null,
     book: Book | null
-  ): 'scene' | 'story' | 'book' | 'default' {
+  ): 'scene' | 'chapter' | 'story' | 'book' | 'default' {
     if (scene.layout) return 'scene';
+    if (this.getChapter(scene, story)?.layout) return 'chapter';
     if (story?.layout) return 'story';
     if (book?.defaultLayout) return 'book';
     return 'default';
@@ -71,6 +80,8 @@ export class LayoutResolver {
     switch (source) {
       case 'scene':
         return `Scene-specific layout`;
+      case 'chapter':
+        return `Chapter layout (${this.getChapter(scene, story)?.title || 'Unknown'})`;
       case 'story':
         return `Story layout (${story?.title || 'Unknown'})`;
       case 'book':
@@ -80,6 +91,28 @@ export class LayoutResolver {
     }
   }
 
+  /**
+   * Aspect ratio to generate a scene's image at: the canvas of its resolved
+   * layout, else the book's default
+   */
+  static getAspectRatio(scene: Scene, story: Story | null, book: Book | null): string {
+    const canvas = this.resolveLayout(scene, story, book)?.canvas;
+    if (canvas) {
+      const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+      const divisor = gcd(canvas.width, canvas.height);
+      return `${canvas.width / divisor}:${canvas.height / divisor}`;
+    }
+    return book?.aspectRatio || '3:4';
+  }
+
+  /**
+   * The story chapter holding a scene, if any
+   */
+  static getChapter(scene: Scene, story: Story | null): Chapter | undefined {
+    if (!scene.chapterId) return undefined;
+    return story?.chapters?.find(chapter => chapter.id === scene.chapterId);
+  }
+
   /**
    * Check if a scene has its own layout (not inherited)
    */
@@ -97,13 +97,19 @@ export class LegacyPromptBuildingService extends PromptBuildingService {
       prompt += `5. ⚠️ MOST IMPORTANT: Character appearances MUST exactly match the reference images provided\n`;
     }
 
+    // Add avoid-list (scene → story → book) as a plain negative instruction
+    const avoid = this.getSceneAvoidList(options);
+    if (avoid.length > 0) {
+      prompt += `\nDo NOT include: ${avoid.join(', ')}.\n`;
+    }
+
     prompt += `\nDo not include any text, labels, or scene numbers in the generated image.`;
 
     return {
       prompt: prompt.trim(),
       metadata: {
         strategy: 'legacy',
-        sections: ['reference_instructions', 'book_style', 'story_context', 'characters', 'elements', 'scene_description', 'requirements'],
+        sections: ['reference_instructions', 'book_style', 'story_context', 'characters', 'elements', 'scene_description', 'requirements', ...(avoid.length > 0 ? ['avoid'] : [])],
         estimatedTokens: this.estimateTokens(prompt),
         warnings: [
           'Legacy prompt format: Simple concatenation without structured sections',
@@ -149,6 +155,10 @@ export class LegacyPromptBuildingService extends PromptBuildingService {
     if (hasReferenceImage) {
       prompt += `6. ⚠️ IMPORTANT: Maintain consistency with the reference image provided\n`;
     }
+    const avoid = this.getBookAvoidList(book);
+    if (avoid.length > 0) {
+      prompt += `\nDo NOT include: ${avoid.join(', ')}.`;
+    }
     prompt += `\nDo not include any text, labels, or scene elements in the image.`;
     
     return {
@@ -0,0 +1,116 @@
+/**
+ * MemoryStorageBackend - In-memory StorageBackend
+ *
+ * Keeps files in a Map so persistence code can be exercised in tests (or in
+ * a throwaway session) without a real directory, IndexedDB or Electron.
+ *
+ * Usage in tests:
+ *   const storage = new MemoryStorageBackend();
+ *   FileSystemService.setBackend(storage);
+ *   ...
+ *   FileSystemService.setBackend(null);
+ */
+
+import { splitStoragePath, type StorageBackend, type StorageFileInfo, type StorageListing } from './StorageBackend';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class MemoryStorageBackend implements StorageBackend {
+  readonly id = 'memory';
+  private files = new Map<string, Uint8Array>();
+  private directories = new Set<string>();
+  private modifiedAt = new Map<string, number>();
+  private lastModifiedAt = 0;
+
+  async isConfigured(): Promise<boolean> {
+    return true;
+  }
+
+  async readText(path: string): Promise<string | null> {
+    const data = await this.readBinary(path);
+    return data ? decoder.decode(data) : null;
+  }
+
+  async writeText(path: string, content: string): Promise<void> {
+    await this.writeBinary(path, encoder.encode(content));
+  }
+
+  async readBinary(path: string): Promise<Uint8Array | null> {
+    const data = this.files.get(this.normalize(path));
+    return data ? data.slice() : null;
+  }
+
+  async writeBinary(path: string, data: Uint8Array): Promise<void> {
+    const segments = splitStoragePath(path);
+    const key = segments.join('/');
+    if (this.directories.has(key)) {
+      throw new Error(`Cannot write file ${key}: a directory exists at that path`);
+    }
+    await this.mkdir(segments.slice(0, -1).join('/'));
+    this.files.set(key, data.slice());
+    // Strictly increasing, so two writes within a millisecond still differ
+    this.lastModifiedAt = Math.max(Date.now(), this.lastModifiedAt + 1);
+    this.modifiedAt.set(key, this.lastModifiedAt);
+  }
+
+  async list(path: string): Promise<StorageListing> {
+    const prefix = this.normalize(path);
+    const files: string[] = [];
+    const directories: string[] = [];
+    const childName = (entry: string): string | null => {
+      if (prefix && !entry.startsWith(`${prefix}/`)) return null;
+      const rest = prefix ? entry.slice(prefix.length + 1) : entry;
+      return rest && !rest.includes('/') ? rest : null;
+    };
+
+    for (const file of this.files.keys()) {
+      const name = childName(file);
+      if (name) files.push(name);
+    }
+    for (const dir of this.directories) {
+      const name = childName(dir);
+      if (name) directories.push(name);
+    }
+    return { files: files.sort(), directories: directories.sort() };
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const key = this.normalize(path);
+    return key === '' || this.files.has(key) || this.directories.has(key);
+  }
+
+  async stat(path: string): Promise<StorageFileInfo | null> {
+    const key = this.normalize(path);
+    const data = this.files.get(key);
+    return data ? { modifiedAt: this.modifiedAt.get(key) ?? 0, size: data.byteLength } : null;
+  }
+
+  async delete(path: string): Promise<boolean> {
+    const key = this.normalize(path);
+    this.modifiedAt.delete(key);
+    return this.files.delete(key);
+  }
+
+  async mkdir(path: string): Promise<void> {
+    const segments = splitStoragePath(path);
+    for (let i = 1; i <= segments.length; i++) {
+      const dir = segments.slice(0, i).join('/');
+      if (this.files.has(dir)) {
+        throw new Error(`Cannot create directory ${dir}: a file exists at that path`);
+      }
+      this.directories.add(dir);
+    }
+  }
+
+  /**
+   * All file paths currently stored (sorted), for assertions in tests
+   */
+  getPaths(): string[] {
+    return [...this.files.keys()].sort();
+  }
+
+  private normalize(path: string): string {
+    return splitStoragePath(path).join('/');
+  }
+}
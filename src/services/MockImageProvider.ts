@@ -0,0 +1,321 @@
+/**
+ * MockImageProvider - Deterministic offline image provider
+ *
+ * Renders a placeholder PNG instead of calling an API, so scene generation,
+ * layouts and the overlay pipeline can be developed, demoed and tested without
+ * an OpenRouter key or network. The output depends only on the prompt, seed,
+ * aspect ratio and number of reference images:
+ * - Background color comes from a hash of the prompt (and seed, when given)
+ * - Canvas dimensions follow the requested aspect ratio
+ * - One marker is drawn per reference image
+ * - The prompt text is drawn onto the image (when a canvas is available)
+ *
+ * Without a 2D canvas (e.g., jsdom in tests) a smaller, text-free PNG is
+ * encoded directly so the provider still works everywhere.
+ */
+
+import type { ImageGenerationResult } from './ImageGenerationService';
+import type { ImageModelInfo, ImageProvider, ImageProviderRequest } from './ImageProvider';
+import { HashService } from './HashService';
+
+export const MOCK_IMAGE_MODEL = 'mock/placeholder';
+
+const MOCK_RATIOS = ['1:1', '2:3', '3:4', '9:16', '3:2', '4:3', '16:9', '4:5', '5:4', '21:9'];
+
+const LONG_SIDE = 1024;
+const FALLBACK_LONG_SIDE = 256;
+
+/**
+ * Convert "W:H" into pixel dimensions with the given long side
+ */
+function dimensionsFor(aspectRatio: string, longSide: number): { width: number; height: number } {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h) {
+    return dimensionsFor('3:4', longSide);
+  }
+  return w >= h
+    ? { width: longSide, height: Math.round(longSide * h / w) }
+    : { width: Math.round(longSide * w / h), height: longSide };
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+// ---------------------------------------------------------------------------
+// Minimal PNG encoder (uncompressed deflate) for canvas-less environments
+// ---------------------------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Encode RGB pixels as a PNG using stored (uncompressed) deflate blocks
+ */
+function encodePng(width: number, height: number, rgb: Uint8Array): Uint8Array {
+  // Each scanline is prefixed with filter type 0
+  const raw = new Uint8Array(height * (width * 3 + 1));
+  for (let y = 0; y < height; y++) {
+    raw[y * (width * 3 + 1)] = 0;
+    raw.set(rgb.subarray(y * width * 3, (y + 1) * width * 3), y * (width * 3 + 1) + 1);
+  }
+
+  const blockCount = Math.max(1, Math.ceil(raw.length / 65535));
+  const zlib = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+  zlib[0] = 0x78;
+  zlib[1] = 0x01;
+  let offset = 2;
+  for (let i = 0; i < blockCount; i++) {
+    const block = raw.subarray(i * 65535, Math.min(raw.length, (i + 1) * 65535));
+    zlib[offset] = i === blockCount - 1 ? 1 : 0;
+    zlib[offset + 1] = block.length & 0xff;
+    zlib[offset + 2] = block.length >>> 8;
+    zlib[offset + 3] = ~block.length & 0xff;
+    zlib[offset + 4] = (~block.length >>> 8) & 0xff;
+    zlib.set(block, offset + 5);
+    offset += 5 + block.length;
+  }
+  new DataView(zlib.buffer).setUint32(offset, adler32(raw));
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: RGB
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib),
+    pngChunk('IEND', new Uint8Array(0))
+  ];
+  const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    png.set(part, pos);
+    pos += part.length;
+  }
+  return png;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// ---------------------------------------------------------------------------
+
+export class MockImageProvider implements ImageProvider {
+  readonly id = 'mock';
+  readonly name = 'Offline Mock';
+  private latencyMs: number;
+
+  /**
+   * @param latencyMs Optional artificial delay to exercise loading states
+   */
+  constructor(latencyMs = 0) {
+    this.latencyMs = latencyMs;
+  }
+
+  getModels(): ImageModelInfo[] {
+    return [
+      {
+        value: MOCK_IMAGE_MODEL,
+        label: 'Offline Mock (Placeholder images, no API key)',
+        providerId: this.id,
+        capabilities: { supportedAspectRatios: MOCK_RATIOS, maxReferenceImages: 16, maxPromptTokens: 2000, supportsSeed: true },
+        cost: { perImage: 0, note: 'Free (offline)' }
+      }
+    ];
+  }
+
+  acceptsUnlistedModels(): boolean {
+    return false;
+  }
+
+  async generate(request: ImageProviderRequest): Promise<ImageGenerationResult> {
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+
+    const aspectRatio = request.aspectRatio || '3:4';
+    const referenceCount = request.referenceImages?.length ?? 0;
+
+    console.log(`🧪 Mock provider rendering ${aspectRatio} placeholder (${referenceCount} reference image(s))`);
+
+    return {
+      success: true,
+      imageUrl: MockImageProvider.renderPlaceholder(request.prompt, aspectRatio, referenceCount, request.seed)
+    };
+  }
+
+  /**
+   * Render the placeholder as a PNG data URL
+   */
+  static renderPlaceholder(prompt: string, aspectRatio: string, referenceCount: number, seed?: number): string {
+    const hash = HashService.fnv1a(seed === undefined ? prompt : `${prompt}\u0000seed:${seed}`);
+    return this.renderWithCanvas(prompt, hash, aspectRatio, referenceCount)
+      ?? this.renderWithoutCanvas(hash, aspectRatio, referenceCount);
+  }
+
+  private static renderWithCanvas(
+    prompt: string,
+    hash: number,
+    aspectRatio: string,
+    referenceCount: number
+  ): string | null {
+    if (typeof document === 'undefined') return null;
+
+    const { width, height } = dimensionsFor(aspectRatio, LONG_SIDE);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    let ctx: CanvasRenderingContext2D | null = null;
+    try {
+      ctx = canvas.getContext('2d');
+    } catch {
+      return null;
+    }
+    if (!ctx) return null;
+
+    const hue = hash % 360;
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 55%, 70%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 55%, 45%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    // Diagonal stripes make the image bounds obvious in layouts
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.lineWidth = 2;
+    for (let x = -height; x < width; x += 48) {
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x + height, height);
+      ctx.stroke();
+    }
+
+    const margin = Math.round(width * 0.06);
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'top';
+    ctx.font = `bold ${Math.round(width * 0.05)}px sans-serif`;
+    ctx.fillText('MOCK IMAGE', margin, margin);
+    ctx.font = `${Math.round(width * 0.028)}px monospace`;
+    ctx.fillText(
+      `${aspectRatio} · ${referenceCount} ref · #${hash.toString(16).padStart(8, '0')}`,
+      margin,
+      margin + Math.round(width * 0.07)
+    );
+
+    // One marker per reference image
+    const markerSize = Math.round(width * 0.04);
+    for (let i = 0; i < referenceCount; i++) {
+      ctx.beginPath();
+      ctx.arc(
+        margin + markerSize / 2 + i * markerSize * 1.4,
+        margin + Math.round(width * 0.13) + markerSize / 2,
+        markerSize / 2,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    }
+
+    // Prompt text, word-wrapped until it runs out of room
+    const fontSize = Math.max(12, Math.round(width * 0.022));
+    ctx.font = `${fontSize}px sans-serif`;
+    const maxWidth = width - margin * 2;
+    let y = margin + Math.round(width * 0.2);
+    let line = '';
+    for (const word of prompt.replace(/\s+/g, ' ').trim().split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (ctx.measureText(candidate).width > maxWidth && line) {
+        ctx.fillText(line, margin, y);
+        y += fontSize * 1.3;
+        line = word;
+        if (y > height - margin - fontSize) {
+          line = '…';
+          break;
+        }
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) ctx.fillText(line, margin, y);
+
+    return canvas.toDataURL('image/png');
+  }
+
+  private static renderWithoutCanvas(hash: number, aspectRatio: string, referenceCount: number): string {
+    const { width, height } = dimensionsFor(aspectRatio, FALLBACK_LONG_SIDE);
+    const [r1, g1, b1] = hslToRgb(hash % 360, 0.55, 0.7);
+    const [r2, g2, b2] = hslToRgb((hash % 360 + 40) % 360, 0.55, 0.45);
+
+    const markerSize = Math.max(4, Math.round(width * 0.04));
+    const pixels = new Uint8Array(width * height * 3);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const t = (x / width + y / height) / 2;
+        const i = (y * width + x) * 3;
+        const isMarker = y >= markerSize && y < markerSize * 2 &&
+          Math.floor(x / (markerSize * 1.5)) < referenceCount && x % Math.round(markerSize * 1.5) < markerSize;
+        if (isMarker) {
+          pixels[i] = pixels[i + 1] = pixels[i + 2] = 255;
+        } else {
+          pixels[i] = Math.round(r1 + (r2 - r1) * t);
+          pixels[i + 1] = Math.round(g1 + (g2 - g1) * t);
+          pixels[i + 2] = Math.round(b1 + (b2 - b1) * t);
+        }
+      }
+    }
+
+    return `data:image/png;base64,${bytesToBase64(encodePng(width, height, pixels))}`;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * NodeStorageBackend - StorageBackend on the local filesystem via Node fs
+ *
+ * For command-line tools, scripts and tests that work on a real data
+ * directory (the folder containing prompter-cache/) outside the browser and
+ * Electron renderer. Not imported by the web app.
+ */
+
+import { promises as fs, watch as watchFs } from 'node:fs';
+import * as nodePath from 'node:path';
+import { joinStoragePath, splitStoragePath, type StorageBackend, type StorageFileInfo, type StorageListing } from './StorageBackend';
+
+const isNotFound = (error: unknown): boolean =>
+  (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+export class NodeStorageBackend implements StorageBackend {
+  readonly id = 'node';
+  private rootDirectory: string;
+
+  /**
+   * @param rootDirectory Absolute or cwd-relative path of the storage root
+   */
+  constructor(rootDirectory: string) {
+    this.rootDirectory = nodePath.resolve(rootDirectory);
+  }
+
+  async isConfigured(): Promise<boolean> {
+    try {
+      return (await fs.stat(this.rootDirectory)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  async readText(path: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.resolve(path), 'utf-8');
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async writeText(path: string, content: string): Promise<void> {
+    const fullPath = this.resolve(path);
+    await fs.mkdir(nodePath.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content, 'utf-8');
+  }
+
+  async readBinary(path: string): Promise<Uint8Array | null> {
+    try {
+      return new Uint8Array(await fs.readFile(this.resolve(path)));
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async writeBinary(path: string, data: Uint8Array): Promise<void> {
+    const fullPath = this.resolve(path);
+    await fs.mkdir(nodePath.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, data);
+  }
+
+  async list(path: string): Promise<StorageListing> {
+    try {
+      const entries = await fs.readdir(this.resolve(path), { withFileTypes: true });
+      return {
+        files: entries.filter(entry => entry.isFile()).map(entry => entry.name).sort(),
+        directories: entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort()
+      };
+    } catch (error) {
+      if (isNotFound(error)) return { files: [], directories: [] };
+      throw error;
+    }
+  }
+
+  async exists(path: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(path));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async stat(path: string): Promise<StorageFileInfo | null> {
+    try {
+      const stats = await fs.stat(this.resolve(path));
+      return stats.isFile() ? { modifiedAt: stats.mtimeMs, size: stats.size } : null;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(path: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.resolve(path));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  async mkdir(path: string): Promise<void> {
+    await fs.mkdir(this.resolve(path), { recursive: true });
+  }
+
+  async watch(path: string, onChange: (path: string) => void): Promise<() => void> {
+    const watcher = watchFs(this.resolve(path), { recursive: true }, (_event, fileName) => {
+      if (fileName) {
+        onChange(joinStoragePath(path, fileName.toString().split(nodePath.sep).join('/')));
+      }
+    });
+    return () => watcher.close();
+  }
+
+  /**
+   * Absolute filesystem path for a storage path; refuses paths that escape the root
+   */
+  private resolve(path: string): string {
+    const fullPath = nodePath.join(this.rootDirectory, ...splitStoragePath(path));
+    const relative = nodePath.relative(this.rootDirectory, fullPath);
+    if (relative.startsWith('..') || nodePath.isAbsolute(relative)) {
+      throw new Error(`Path escapes the storage root: ${path}`);
+    }
+    return fullPath;
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * OpenRouterImageProvider - Image generation through OpenRouter's chat-completions API
+ *
+ * OpenRouter exposes image-capable models (Gemini, GPT-5 Image) through the
+ * chat-completions endpoint with `modalities: ['image', 'text']`. Generated
+ * images come back in message.images, or in a few alternative response shapes
+ * that are handled as fallbacks.
+ */
+
+import { SettingsService } from './SettingsService';
+import type { ImageGenerationResult } from './ImageGenerationService';
+import type { ImageModelInfo, ImageProvider, ImageProviderRequest } from './ImageProvider';
+import type { UsageMetrics } from '../types/UsageLedger';
+import { CHATGPT_ASPECT_RATIOS, GEMINI_ASPECT_RATIOS } from '../constants/aspectRatios';
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+const OPENROUTER_MODELS: ImageModelInfo[] = [
+  {
+    value: 'google/gemini-2.5-flash-image',
+    label: 'Google Gemini 2.5 Flash Image (Recommended - $0.03/K imgs)',
+    providerId: 'openrouter',
+    capabilities: { supportedAspectRatios: GEMINI_ASPECT_RATIOS, maxReferenceImages: 3, maxPromptTokens: 2000, supportsSeed: true },
+    cost: { perImage: 0.039, perMillionInputTokens: 0.3, note: '~$0.04 per image' }
+  },
+  {
+    value: 'google/gemini-2.5-flash-image-preview',
+    label: 'Google Gemini 2.5 Flash Image Preview ($0.03/K imgs)',
+    providerId: 'openrouter',
+    capabilities: { supportedAspectRatios: GEMINI_ASPECT_RATIOS, maxReferenceImages: 3, maxPromptTokens: 2000, supportsSeed: true },
+    cost: { perImage: 0.039, perMillionInputTokens: 0.3, note: '~$0.04 per image' }
+  },
+  {
+    value: 'google/gemini-3-pro-image-preview',
+    label: 'Google Gemini 3 Pro Image Preview (New)',
+    providerId: 'openrouter',
+    capabilities: { supportedAspectRatios: GEMINI_ASPECT_RATIOS, maxReferenceImages: 14, maxPromptTokens: 4000, supportsSeed: true },
+    cost: { perImage: 0.134, perMillionInputTokens: 2, note: '~$0.13 per image' }
+  },
+  {
+    value: 'openai/gpt-5-image-mini',
+    label: 'OpenAI GPT-5 Image Mini (Fast - $0.008/K imgs)',
+    providerId: 'openrouter',
+    capabilities: { supportedAspectRatios: CHATGPT_ASPECT_RATIOS, maxReferenceImages: 10, maxPromptTokens: 8000 },
+    cost: { perImage: 0.011, perMillionInputTokens: 2.5, note: '~$0.01 per image' }
+  },
+  {
+    value: 'openai/gpt-5-image',
+    label: 'OpenAI GPT-5 Image (Premium)',
+    providerId: 'openrouter',
+    capabilities: { supportedAspectRatios: CHATGPT_ASPECT_RATIOS, maxReferenceImages: 10, maxPromptTokens: 8000 },
+    cost: { perImage: 0.04, perMillionInputTokens: 10, note: '~$0.04 per image' }
+  },
+];
+
+/**
+ * Read OpenRouter's usage block (present when usage accounting is requested)
+ */
+export function parseOpenRouterUsage(usage: unknown): UsageMetrics | undefined {
+  if (!usage || typeof usage !== 'object') return undefined;
+  const { prompt_tokens, completion_tokens, cost } = usage as Record<string, unknown>;
+  return {
+    promptTokens: typeof prompt_tokens === 'number' ? prompt_tokens : undefined,
+    completionTokens: typeof completion_tokens === 'number' ? completion_tokens : undefined,
+    cost: typeof cost === 'number' ? cost : undefined
+  };
+}
+
+export class OpenRouterImageProvider implements ImageProvider {
+  readonly id = 'openrouter';
+  readonly name = 'OpenRouter';
+
+  getModels(): ImageModelInfo[] {
+    return OPENROUTER_MODELS;
+  }
+
+  acceptsUnlistedModels(): boolean {
+    // Any image-capable OpenRouter slug can be used, even if we don't list it
+    return true;
+  }
+
+  async generate(request: ImageProviderRequest): Promise<ImageGenerationResult> {
+    try {
+      const apiKey = await SettingsService.getApiKey();
+    
+      if (!apiKey) {
+        return {
+          success: false,
+          error: 'OpenRouter API key not configured. Please set your API key in settings.'
+        };
+      }
+
+      const model = request.model;
+
+      console.log('Generating image with model:', model);
+      if (request.referenceImages && request.referenceImages.length > 0) {
+        console.log(`Including ${request.referenceImages.length} reference image(s)`);
+        request.referenceImages.forEach((img, i) => {
+          console.log(`  Image ${i + 1}: ${img.substring(0, 50)}... (${Math.round(img.length / 1024)}KB)`);
+        });
+      } else {
+        console.log('No reference images (text-only request)');
+      }
+
+      // Build message content (multi-modal if reference images provided)
+      let messageContent;
+      if (request.referenceImages && request.referenceImages.length > 0) {
+        // Multi-modal: text + images
+        console.log('📸 Building MULTI-MODAL request (text + images)');
+      
+        // Validate and process reference images
+        const processedImages = request.referenceImages.map((imageUrl, i) => {
+          console.log(`  Validating image ${i + 1}...`);
+        
+          // Check if it's a data URL
+          if (!imageUrl.startsWith('data:image/')) {
+            console.warn(`  ⚠️  Image ${i + 1} is not a data URL (starts with: ${imageUrl.substring(0, 20)})`);
+            throw new Error(`Reference image ${i + 1} must be a data URL (data:image/...)`);
+          }
+        
+          // Extract format and data
+          const matches = imageUrl.match(/^data:image\/(\w+);base64,(.+)$/);
+          if (!matches) {
+            console.error(`  ❌ Image ${i + 1} has invalid data URL format`);
+            throw new Error(`Reference image ${i + 1} has invalid data URL format`);
+          }
+        
+          const [, format, base64Data] = matches;
+          const sizeKB = Math.round((base64Data.length * 3/4) / 1024);
+          console.log(`  ✓ Image ${i + 1}: ${format.toUpperCase()}, ~${sizeKB}KB`);
+        
+          // Warn if image is very large (>5MB)
+          if (sizeKB > 5120) {
+            console.warn(`  ⚠️  Image ${i + 1} is very large (${sizeKB}KB). This may cause API errors.`);
+          }
+        
+          console.log(`  Adding image ${i + 1} to content array`);
+          return {
+            type: 'image_url',
+            image_url: {
+              url: imageUrl
+            }
+          };
+        });
+      
+        messageContent = [
+          {
+            type: 'text',
+            text: request.prompt
+          },
+          ...processedImages
+        ];
+        console.log(`✓ Message content array has ${messageContent.length} items (1 text + ${request.referenceImages.length} images)`);
+      } else {
+        // Text only
+        console.log('📝 Building TEXT-ONLY request');
+        messageContent = request.prompt;
+      }
+
+      // Build request body
+      const requestBody = {
+        model: model,
+        modalities: ['image', 'text'], // Enable image generation
+        messages: [
+          {
+            role: 'user',
+            content: messageContent
+          }
+        ],
+        image_config: {
+          aspect_ratio: request.aspectRatio || '3:4' // Use book's aspect ratio or default to 3:4
+        },
+        usage: { include: true }, // Ask OpenRouter to report the actual cost for the usage ledger
+        ...(request.seed !== undefined && { seed: request.seed }) // Forwarded to models that support it
+      };
+
+      // Log request structure (without full image data)
+      console.log('📤 API Request Structure:');
+      console.log('  Model:', requestBody.model);
+      console.log('  Modalities:', requestBody.modalities);
+      console.log('  Aspect Ratio:', requestBody.image_config.aspect_ratio);
+      if (request.seed !== undefined) {
+        console.log('  Seed:', request.seed);
+      }
+      console.log('  Message content type:', Array.isArray(messageContent) ? 'ARRAY (multi-modal)' : 'STRING (text-only)');
+      if (Array.isArray(messageContent)) {
+        console.log('  Message content items:');
+        messageContent.forEach((item, i) => {
+          console.log(`    [${i}] type: ${item.type}${item.type === 'image_url' ? ' (has image data)' : ''}`);
+        });
+      }
+
+      const response = await fetch(`${OPENROUTER_BASE_URL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+          'HTTP-Referer': window.location.origin,
+          'X-Title': 'Story Prompter - Image Generator'
+        },
+        body: JSON.stringify(requestBody)
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('OpenRouter API error:', response.status, errorText);
+        return {
+          success: false,
+          error: `API error (${response.status}): ${errorText}`
+        };
+      }
+
+      const result = await response.json();
+    
+      console.log('OpenRouter response:', JSON.stringify(result, null, 2));
+      const usage = parseOpenRouterUsage(result.usage);
+    
+      // Check if the response contains image data
+      const message = result.choices?.[0]?.message;
+    
+      if (!message) {
+        return {
+          success: false,
+          error: 'No message received from API',
+          usage
+        };
+      }
+
+      // Per OpenRouter docs, images are in message.images array
+      let imageUrl: string | undefined;
+
+      // Primary format: message.images array (official OpenRouter format)
+      if (message.images && Array.isArray(message.images) && message.images.length > 0) {
+        const firstImage = message.images[0];
+        if (firstImage.image_url?.url) {
+          imageUrl = firstImage.image_url.url;
+        }
+      }
+      // Fallback: Check for content array (alternative multimodal response format)
+      else if (Array.isArray(message.content)) {
+        for (const item of message.content) {
+          if (item.type === 'image_url' && item.image_url?.url) {
+            imageUrl = item.image_url.url;
+            break;
+          }
+        }
+      }
+      // Fallback: Check string content for URLs
+      else if (typeof message.content === 'string') {
+        const content = message.content;
+      
+        // Check if it's a data URL (base64 image)
+        if (content.startsWith('data:image/')) {
+          imageUrl = content;
+        }
+        // Check if it's a URL
+        else if (content.startsWith('http://') || content.startsWith('https://')) {
+          imageUrl = content;
+        } 
+        // Check if it contains a URL in markdown or text
+        else {
+          const urlMatch = content.match(/https?:\/\/[^\s)]+\.(png|jpg|jpeg|gif|webp)/i);
+          if (urlMatch) {
+            imageUrl = urlMatch[0];
+          }
+        }
+      }
+
+      if (!imageUrl) {
+        return {
+          success: false,
+          error: `Could not extract image from API response. The model may not support image generation.\n\nResponse received:\n${JSON.stringify(message, null, 2)}\n\nTip: Make sure you're using an image-capable model like 'google/gemini-2.5-flash-image' or 'openai/gpt-5-image-mini'`,
+          usage
+        };
+      }
+
+      return {
+        success: true,
+        imageUrl,
+        usage
+      };
+
+    } catch (error) {
+      console.error('Error generating image:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+}
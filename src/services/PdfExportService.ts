@@ -0,0 +1,601 @@
+/**
+ * PdfExportService - Print-ready PDF picture books
+ *
+ * Exports one story, or a whole book, as a PDF a print shop can take: one
+ * scene image per page at the chosen trim size, with bleed, margins, an
+ * optional cover, title and section pages, page numbers and facing-page
+ * layout. Scene images are stored already composed (overlays from
+ * applyAllOverlays / composeSceneWithLayout), so each page uses the most
+ * recent image of its scene as is.
+ *
+ * Pages are planned first (planPages), then drawn with pdf-lib. Every image
+ * is checked against the minimum DPI at the size it is printed, and the
+ * trim size against the book's aspect ratio.
+ */
+
+import {
+  PDFDocument,
+  StandardFonts,
+  rgb,
+  pushGraphicsState,
+  popGraphicsState,
+  rectangle,
+  clip,
+  endPath,
+  type PDFFont,
+  type PDFImage,
+  type PDFPage
+} from 'pdf-lib';
+import type { Book } from '../models/Book';
+import type { Scene } from '../models/Scene';
+import type { Story } from '../models/Story';
+import type {
+  PdfExportIssue,
+  PdfExportResult,
+  PdfExportScope,
+  PdfPrintSettings
+} from '../types/PdfExport';
+import { StorageService } from './StorageService';
+import { ExportImageService } from './ExportImageService';
+import { ExportRecordService } from './ExportRecordService';
+
+const POINTS_PER_INCH = 72;
+
+// Trim and book aspect ratios further apart than this get a warning
+const ASPECT_TOLERANCE = 0.02;
+
+/**
+ * One interior page, before drawing
+ */
+export type PlannedPage =
+  | { kind: 'title'; title: string; subtitle?: string; description?: string }
+  | { kind: 'section'; title: string; description?: string }
+  | { kind: 'scene'; scene: Scene }
+  | { kind: 'blank' };
+
+export interface PagePlan {
+  /** Scene for the cover image, if there is a cover page */
+  cover: { title: string; subtitle?: string; scene: Scene | null } | null;
+  /** Interior pages; page number n is pages[n - 1] */
+  pages: PlannedPage[];
+}
+
+/**
+ * A rectangle in inches, from the bottom left of the page
+ */
+export interface PageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface LoadedImage {
+  image: PDFImage;
+  imageId: string;
+}
+
+export class PdfExportService {
+  // ========================================
+  // Checks
+  // ========================================
+
+  /**
+   * Problems with the print settings alone
+   */
+  static validateSettings(settings: PdfPrintSettings): PdfExportIssue[] {
+    const issues: PdfExportIssue[] = [];
+    const { trimSize, margins, bleed } = settings;
+
+    if (!(trimSize.width > 0 && trimSize.height > 0)) {
+      issues.push({ severity: 'error', message: 'Trim size must be larger than zero' });
+      return issues;
+    }
+    if (bleed < 0 || Object.values(margins).some(margin => margin < 0)) {
+      issues.push({ severity: 'error', message: 'Bleed and margins cannot be negative' });
+    }
+    if (margins.inside + margins.outside >= trimSize.width || margins.top + margins.bottom >= trimSize.height) {
+      issues.push({ severity: 'error', message: 'Margins leave no room on the page' });
+    }
+    if (!(settings.minDpi > 0)) {
+      issues.push({ severity: 'error', message: 'Minimum DPI must be larger than zero' });
+    }
+    if (settings.spreads && !settings.facingPages) {
+      issues.push({ severity: 'warning', message: 'Spreads need facing pages; pages will be exported one by one' });
+    }
+    if (settings.imageFit === 'bleed' && bleed === 0) {
+      issues.push({ severity: 'warning', message: 'Full-page images without bleed may show white edges after trimming' });
+    }
+    return issues;
+  }
+
+  /**
+   * Warn when the book's images don't have the shape of the area they fill,
+   * so they get cropped (bleed fit) or leave empty space (margin fit)
+   */
+  static checkAspectRatio(aspectRatio: string | undefined, settings: PdfPrintSettings): PdfExportIssue | null {
+    const imageRatio = this.parseAspectRatio(aspectRatio);
+    if (!imageRatio) return null;
+
+    const area = this.getImageArea(settings, 'right');
+    const areaRatio = area.width / area.height;
+    const difference = Math.abs(imageRatio - areaRatio) / areaRatio;
+    if (difference <= ASPECT_TOLERANCE) return null;
+
+    const consequence = settings.imageFit === 'bleed'
+      ? `about ${Math.round((1 - Math.min(imageRatio, areaRatio) / Math.max(imageRatio, areaRatio)) * 100)}% of each image will be cropped`
+      : 'images will not fill the area inside the margins';
+    return {
+      severity: 'warning',
+      message: `Book images are ${aspectRatio} but the page is ${this.formatInches(settings.trimSize.width)} × ${this.formatInches(settings.trimSize.height)}; ${consequence}`
+    };
+  }
+
+  /**
+   * Check a book before exporting: settings, aspect ratio, and scenes
+   * without images (which can't be printed)
+   */
+  static async validateExport(scope: PdfExportScope, settings: PdfPrintSettings): Promise<PdfExportIssue[]> {
+    const { book, stories } = await this.loadScope(scope);
+    const issues = this.validateSettings(settings);
+
+    const aspectIssue = this.checkAspectRatio(book.aspectRatio, settings);
+    if (aspectIssue) issues.push(aspectIssue);
+
+    for (const story of stories) {
+      for (const scene of story.scenes) {
+        if (!scene.imageHistory?.length) {
+          issues.push({ severity: 'error', message: `Scene "${scene.title}" has no images`, sceneId: scene.id });
+        }
+      }
+    }
+    if (!stories.some(story => story.scenes.some(scene => scene.imageHistory?.length))) {
+      issues.push({ severity: 'error', message: 'There are no scene images to export' });
+    }
+    return issues;
+  }
+
+  /**
+   * Resolution of an image printed at a size (in inches); the lower of
+   * the horizontal and vertical resolution
+   */
+  static getEffectiveDpi(pixelWidth: number, pixelHeight: number, printedWidth: number, printedHeight: number): number {
+    return Math.min(pixelWidth / printedWidth, pixelHeight / printedHeight);
+  }
+
+  // ========================================
+  // Layout
+  // ========================================
+
+  /**
+   * Interior pages in reading order. Scenes without images are left out.
+   * Section pages start on a right-hand page when pages face each other.
+   */
+  static planPages(book: Book, stories: Story[], settings: PdfPrintSettings, wholeBook: boolean): PagePlan {
+    const pages: PlannedPage[] = [];
+    const startSection = (page: PlannedPage) => {
+      // Page n is right-hand when n is odd, so the next page is left-hand when pages.length is odd
+      if (settings.facingPages && pages.length % 2 === 1) {
+        pages.push({ kind: 'blank' });
+      }
+      pages.push(page);
+    };
+
+    const subtitle = wholeBook ? undefined : stories[0]?.title;
+    if (settings.titlePage) {
+      pages.push({ kind: 'title', title: book.title, subtitle, description: book.description });
+    }
+
+    for (const story of stories) {
+      if (settings.sectionPages && wholeBook) {
+        startSection({ kind: 'section', title: story.title, description: story.description });
+      }
+      for (const section of story.getSceneSections()) {
+        if (section.chapter && settings.sectionPages && section.scenes.length > 0) {
+          startSection({ kind: 'section', title: section.chapter.title, description: section.chapter.description });
+        }
+        for (const scene of section.scenes) {
+          if (scene.imageHistory?.length) {
+            pages.push({ kind: 'scene', scene });
+          }
+        }
+      }
+    }
+
+    let cover: PagePlan['cover'] = null;
+    if (settings.coverPage) {
+      const scenes = stories.flatMap(story => story.scenes).filter(scene => scene.imageHistory?.length);
+      const scene = scenes.find(s => s.id === settings.coverSceneId) ?? scenes[0] ?? null;
+      cover = { title: book.title, subtitle, scene };
+    }
+    return { cover, pages };
+  }
+
+  /**
+   * Whether interior page n (from 1) is a left- or right-hand page
+   */
+  static getPageSide(pageNumber: number, settings: PdfPrintSettings): 'left' | 'right' {
+    return settings.facingPages && pageNumber % 2 === 0 ? 'left' : 'right';
+  }
+
+  /**
+   * Where a page's image goes, relative to the page's own trim box
+   * (negative x/y reach into the bleed)
+   */
+  static getImageArea(settings: PdfPrintSettings, side: 'left' | 'right'): PageRect {
+    const { trimSize, bleed, margins } = settings;
+    if (settings.imageFit === 'bleed') {
+      return { x: -bleed, y: -bleed, width: trimSize.width + 2 * bleed, height: trimSize.height + 2 * bleed };
+    }
+    const left = side === 'right' ? margins.inside : margins.outside;
+    const right = side === 'right' ? margins.outside : margins.inside;
+    return {
+      x: left,
+      y: margins.bottom,
+      width: trimSize.width - left - right,
+      height: trimSize.height - margins.top - margins.bottom
+    };
+  }
+
+  /**
+   * Size and position of an image in an area: covering it (cropped) for
+   * bleed fit, inside it for margin fit. Centered either way.
+   */
+  static fitImage(imageWidth: number, imageHeight: number, area: PageRect, fit: PdfPrintSettings['imageFit']): PageRect {
+    const scales = [area.width / imageWidth, area.height / imageHeight];
+    const scale = fit === 'bleed' ? Math.max(...scales) : Math.min(...scales);
+    const width = imageWidth * scale;
+    const height = imageHeight * scale;
+    return {
+      x: area.x + (area.width - width) / 2,
+      y: area.y + (area.height - height) / 2,
+      width,
+      height
+    };
+  }
+
+  // ========================================
+  // Export
+  // ========================================
+
+  /**
+   * Export a story (scope.storyId) or the whole book to a PDF
+   */
+  static async exportToPdf(scope: PdfExportScope, settings: PdfPrintSettings): Promise<PdfExportResult> {
+    const settingsErrors = this.validateSettings(settings).filter(issue => issue.severity === 'error');
+    if (settingsErrors.length > 0) {
+      throw new Error(settingsErrors[0].message);
+    }
+
+    const { book, stories } = await this.loadScope(scope);
+    const wholeBook = !scope.storyId;
+    const plan = this.planPages(book, stories, settings, wholeBook);
+    const issues: PdfExportIssue[] = [];
+    const aspectIssue = this.checkAspectRatio(book.aspectRatio, settings);
+    if (aspectIssue) issues.push(aspectIssue);
+
+    console.log(`📕 PDF EXPORT: "${wholeBook ? book.title : stories[0].title}" (${plan.pages.length} interior pages)`);
+
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(wholeBook ? book.title : `${book.title} - ${stories[0].title}`);
+    pdf.setCreator('Story Prompt Generator');
+    const fonts = {
+      regular: await pdf.embedFont(StandardFonts.Helvetica),
+      bold: await pdf.embedFont(StandardFonts.HelveticaBold)
+    };
+
+    // Load each scene's most recent image once
+    const images = new Map<string, LoadedImage>();
+    const scenesToLoad = plan.pages.flatMap(page => page.kind === 'scene' ? [page.scene] : []);
+    if (plan.cover?.scene) scenesToLoad.push(plan.cover.scene);
+    for (const scene of scenesToLoad) {
+      if (images.has(scene.id)) continue;
+      const loaded = await this.embedSceneImage(pdf, scene);
+      if (loaded) {
+        images.set(scene.id, loaded);
+      } else {
+        issues.push({ severity: 'warning', message: `Could not load the image of scene "${scene.title}"; its page was left out`, sceneId: scene.id });
+      }
+    }
+    const pages = plan.pages.filter(page => page.kind !== 'scene' || images.has(page.scene.id));
+
+    const checkDpi = (scene: Scene, printed: PageRect) => {
+      const { image } = images.get(scene.id)!;
+      const dpi = this.getEffectiveDpi(image.width, image.height, printed.width, printed.height);
+      if (dpi < settings.minDpi) {
+        issues.push({
+          severity: 'warning',
+          message: `Scene "${scene.title}" prints at ${Math.round(dpi)} DPI (${image.width}×${image.height} px), below ${settings.minDpi} DPI`,
+          sceneId: scene.id
+        });
+      }
+    };
+
+    if (plan.cover) {
+      const page = this.addSheet(pdf, settings, false);
+      const coverImage = plan.cover.scene ? images.get(plan.cover.scene.id) : undefined;
+      if (coverImage) {
+        const area = this.getImageArea({ ...settings, imageFit: 'bleed' }, 'right');
+        const printed = this.drawImage(page, coverImage.image, area, { x: settings.bleed, y: settings.bleed }, 'bleed');
+        checkDpi(plan.cover.scene!, printed);
+      }
+      this.drawCoverTitle(page, plan.cover.title, plan.cover.subtitle, settings, fonts);
+    }
+
+    const useSpreads = settings.spreads && settings.facingPages;
+    const drawPage = (sheet: PDFPage, planned: PlannedPage, pageNumber: number, offsetX: number) => {
+      const side = this.getPageSide(pageNumber, settings);
+      const origin = { x: offsetX, y: settings.bleed };
+      switch (planned.kind) {
+        case 'scene': {
+          const area = this.getImageArea(settings, side);
+          if (useSpreads && settings.imageFit === 'bleed') {
+            // Two pages share the sheet: no bleed at the spine
+            area.width -= settings.bleed;
+            if (side === 'right') area.x += settings.bleed;
+          }
+          const printed = this.drawImage(sheet, images.get(planned.scene.id)!.image, area, origin, settings.imageFit);
+          checkDpi(planned.scene, printed);
+          if (settings.pageNumbers) {
+            this.drawPageNumber(sheet, pageNumber, settings, origin, fonts.regular);
+          }
+          break;
+        }
+        case 'title':
+          this.drawTextPage(sheet, settings, origin, fonts, planned.title, planned.subtitle, planned.description, 28);
+          break;
+        case 'section':
+          this.drawTextPage(sheet, settings, origin, fonts, planned.title, undefined, planned.description, 22);
+          break;
+        case 'blank':
+          break;
+      }
+    };
+
+    if (useSpreads && pages.length > 0) {
+      // Page 1 stands alone on the right, then pages pair up: (2, 3), (4, 5), ...
+      for (let left = 0; left <= pages.length; left += 2) {
+        const sheet = this.addSheet(pdf, settings, true);
+        if (left >= 1) drawPage(sheet, pages[left - 1], left, settings.bleed);
+        if (left + 1 <= pages.length) drawPage(sheet, pages[left], left + 1, settings.bleed + settings.trimSize.width);
+      }
+    } else {
+      pages.forEach((planned, index) => {
+        const sheet = this.addSheet(pdf, settings, false);
+        drawPage(sheet, planned, index + 1, settings.bleed);
+      });
+    }
+
+    const bytes = await pdf.save();
+    const blob = new Blob([bytes as BlobPart], { type: 'application/pdf' });
+    console.log(`✓ PDF EXPORT: ${pdf.getPageCount()} PDF pages, ${images.size} images, ${blob.size} bytes`);
+
+    await ExportRecordService.recordExport('pdf', [...images.values()].map(loaded => loaded.imageId));
+
+    return {
+      blob,
+      pageCount: pdf.getPageCount(),
+      imageCount: images.size,
+      issues
+    };
+  }
+
+  // ========================================
+  // Drawing
+  // ========================================
+
+  /**
+   * Add a PDF page: one trimmed page, or two side by side for a spread,
+   * with bleed around the outside and trim/bleed boxes set for the printer
+   */
+  private static addSheet(pdf: PDFDocument, settings: PdfPrintSettings, spread: boolean): PDFPage {
+    const { trimSize, bleed } = settings;
+    const trimWidth = trimSize.width * (spread ? 2 : 1);
+    const page = pdf.addPage([
+      (trimWidth + 2 * bleed) * POINTS_PER_INCH,
+      (trimSize.height + 2 * bleed) * POINTS_PER_INCH
+    ]);
+    page.setTrimBox(bleed * POINTS_PER_INCH, bleed * POINTS_PER_INCH, trimWidth * POINTS_PER_INCH, trimSize.height * POINTS_PER_INCH);
+    page.setBleedBox(0, 0, page.getWidth(), page.getHeight());
+    return page;
+  }
+
+  /**
+   * Draw an image into an area of a page (see getImageArea), clipped to it.
+   * Returns the printed size and position in inches.
+   *
+   * @param origin Bottom left of the page's trim box on the sheet, in inches
+   */
+  private static drawImage(
+    page: PDFPage,
+    image: PDFImage,
+    area: PageRect,
+    origin: { x: number; y: number },
+    fit: PdfPrintSettings['imageFit']
+  ): PageRect {
+    const printed = this.fitImage(image.width, image.height, area, fit);
+    const toPoints = (inches: number) => inches * POINTS_PER_INCH;
+    const originY = origin.y;
+
+    page.pushOperators(
+      pushGraphicsState(),
+      rectangle(toPoints(origin.x + area.x), toPoints(originY + area.y), toPoints(area.width), toPoints(area.height)),
+      clip(),
+      endPath()
+    );
+    page.drawImage(image, {
+      x: toPoints(origin.x + printed.x),
+      y: toPoints(originY + printed.y),
+      width: toPoints(printed.width),
+      height: toPoints(printed.height)
+    });
+    page.pushOperators(popGraphicsState());
+    return printed;
+  }
+
+  private static drawPageNumber(
+    page: PDFPage,
+    pageNumber: number,
+    settings: PdfPrintSettings,
+    origin: { x: number; y: number },
+    font: PDFFont
+  ): void {
+    const size = 10;
+    const text = String(pageNumber);
+    const width = font.widthOfTextAtSize(text, size);
+    page.drawText(text, {
+      x: (origin.x + settings.trimSize.width / 2) * POINTS_PER_INCH - width / 2,
+      y: (origin.y + settings.margins.bottom / 2) * POINTS_PER_INCH - size / 2,
+      size,
+      font,
+      color: rgb(0.2, 0.2, 0.2)
+    });
+  }
+
+  /**
+   * Title or section page: centered title, subtitle and description
+   */
+  private static drawTextPage(
+    page: PDFPage,
+    settings: PdfPrintSettings,
+    origin: { x: number; y: number },
+    fonts: { regular: PDFFont; bold: PDFFont },
+    title: string,
+    subtitle: string | undefined,
+    description: string | undefined,
+    titleSize: number
+  ): void {
+    const { margins, trimSize } = settings;
+    const maxWidth = (trimSize.width - margins.inside - margins.outside) * POINTS_PER_INCH;
+    const centerX = (origin.x + trimSize.width / 2) * POINTS_PER_INCH;
+    let y = (origin.y + trimSize.height * 0.62) * POINTS_PER_INCH;
+
+    const drawLines = (text: string, font: PDFFont, size: number, gap: number) => {
+      for (const line of this.wrapText(this.printable(text, font), font, size, maxWidth)) {
+        page.drawText(line, { x: centerX - font.widthOfTextAtSize(line, size) / 2, y, size, font });
+        y -= size * 1.3;
+      }
+      y -= gap;
+    };
+
+    drawLines(title, fonts.bold, titleSize, titleSize * 0.6);
+    if (subtitle) drawLines(subtitle, fonts.regular, titleSize * 0.6, titleSize * 0.6);
+    if (description) drawLines(description, fonts.regular, 11, 0);
+  }
+
+  /**
+   * Book title on a light band near the top of the cover
+   */
+  private static drawCoverTitle(
+    page: PDFPage,
+    title: string,
+    subtitle: string | undefined,
+    settings: PdfPrintSettings,
+    fonts: { regular: PDFFont; bold: PDFFont }
+  ): void {
+    const { trimSize, bleed, margins } = settings;
+    const maxWidth = (trimSize.width - margins.inside - margins.outside) * POINTS_PER_INCH;
+    const lines = [
+      ...this.wrapText(this.printable(title, fonts.bold), fonts.bold, 32, maxWidth).map(text => ({ text, font: fonts.bold, size: 32 })),
+      ...(subtitle ? this.wrapText(this.printable(subtitle, fonts.regular), fonts.regular, 16, maxWidth) : [])
+        .map(text => ({ text, font: fonts.regular, size: 16 }))
+    ];
+    const padding = 12;
+    const bandHeight = lines.reduce((height, line) => height + line.size * 1.3, 0) + 2 * padding;
+    const top = (bleed + trimSize.height - margins.top) * POINTS_PER_INCH;
+
+    page.drawRectangle({
+      x: 0,
+      y: top - bandHeight,
+      width: page.getWidth(),
+      height: bandHeight,
+      color: rgb(1, 1, 1),
+      opacity: 0.8
+    });
+
+    const centerX = page.getWidth() / 2;
+    let y = top - padding;
+    for (const { text, font, size } of lines) {
+      y -= size;
+      page.drawText(text, { x: centerX - font.widthOfTextAtSize(text, size) / 2, y, size, font });
+      y -= size * 0.3;
+    }
+  }
+
+  /**
+   * Break text into lines that fit a width (in points)
+   */
+  static wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /**
+   * Drop characters the standard PDF fonts can't draw (emoji, most non-Latin
+   * scripts) instead of failing the export
+   */
+  private static printable(text: string, font: PDFFont): string {
+    const supported = new Set(font.getCharacterSet());
+    return Array.from(text).filter(char => char === '\n' || supported.has(char.codePointAt(0)!)).join('');
+  }
+
+  // ========================================
+  // Loading
+  // ========================================
+
+  private static async loadScope(scope: PdfExportScope): Promise<{ book: Book; stories: Story[] }> {
+    const book = await StorageService.getBook(scope.bookId);
+    if (!book) {
+      throw new Error(`Book with ID ${scope.bookId} not found`);
+    }
+    if (!scope.storyId) {
+      return { book, stories: book.stories };
+    }
+    const story = book.stories.find(s => s.id === scope.storyId);
+    if (!story) {
+      throw new Error(`Story with ID ${scope.storyId} not found`);
+    }
+    return { book, stories: [story] };
+  }
+
+  /**
+   * Embed the most recent image of a scene. PNG and JPEG go in as they are;
+   * other formats are converted to PNG first.
+   */
+  private static async embedSceneImage(pdf: PDFDocument, scene: Scene): Promise<LoadedImage | null> {
+    const loaded = await ExportImageService.loadSceneImage(scene, ['png', 'jpeg']);
+    if (!loaded) return null;
+
+    try {
+      const image = loaded.type === 'png' ? await pdf.embedPng(loaded.bytes) : await pdf.embedJpg(loaded.bytes);
+      return { image, imageId: loaded.imageId };
+    } catch (error) {
+      console.error(`Failed to embed image for scene "${scene.title}":`, error);
+      return null;
+    }
+  }
+
+  private static parseAspectRatio(aspectRatio: string | undefined): number | null {
+    const match = aspectRatio?.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+    const ratio = Number(match[1]) / Number(match[2]);
+    return ratio > 0 && Number.isFinite(ratio) ? ratio : null;
+  }
+
+  private static formatInches(inches: number): string {
+    return `${Number(inches.toFixed(3))}"`;
+  }
+}
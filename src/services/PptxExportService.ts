@@ -0,0 +1,511 @@
+/**
+ * PptxExportService - PowerPoint slide decks
+ *
+ * Exports one story, or a whole book, as a .pptx deck with one slide per
+ * scene, in story and chapter order (one deck section per story and
+ * chapter). Slides are placed by the scene's layout (LayoutResolver):
+ * the layout canvas is fitted to the slide and every element goes where
+ * the layout puts it. Scenes without a layout get the overlay placement of
+ * the image generator: the image fills the slide, with the text panel and
+ * diagram where the book's panel config and the story's diagram style put
+ * them.
+ *
+ * Scene images are stored already composed. When an image was composed
+ * with a layout, only its image area is shown, so the text panel and
+ * diagram are not on the slide twice. Overlays drawn onto the picture
+ * itself stay in it; the editable text boxes have an opaque fill and sit
+ * over them.
+ */
+
+import pptxgen from 'pptxgenjs';
+import type { Book } from '../models/Book';
+import type { Scene } from '../models/Scene';
+import type { Story } from '../models/Story';
+import type { PanelConfig } from '../types/Book';
+import { DEFAULT_PANEL_CONFIG } from '../types/Book';
+import type { DiagramStyle, LayoutElement, SceneLayout } from '../types/Story';
+import { DEFAULT_DIAGRAM_STYLE } from '../types/Story';
+import type {
+  PptxExportIssue,
+  PptxExportResult,
+  PptxExportScope,
+  PptxExportSettings,
+  SlideRect
+} from '../types/PptxExport';
+import { StorageService } from './StorageService';
+import { LayoutResolver } from './LayoutResolver';
+import { ExportImageService, type ExportImage } from './ExportImageService';
+import { ExportRecordService } from './ExportRecordService';
+
+const PPTX_MEDIA_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+// Longer side of the slides, in inches
+const SLIDE_LONG_SIDE = 10;
+
+const POINTS_PER_INCH = 72;
+
+// Canvas for scenes with neither a layout nor an image to take the size from
+const DEFAULT_CANVAS_WIDTH = 1024;
+
+// Composed images whose aspect ratio is further than this from their
+// layout canvas were not composed with it (e.g. composition failed)
+const ASPECT_TOLERANCE = 0.02;
+
+const CODE_FONT = 'Courier New';
+const MATH_FONT = 'Cambria Math';
+
+// Largest side of rendered diagram pictures, in pixels
+const MAX_DIAGRAM_PIXELS = 1600;
+
+interface SceneSlide {
+  scene: Scene;
+  story: Story;
+  section: string;
+  image: ExportImage | null;
+}
+
+export class PptxExportService {
+  // ========================================
+  // Placement
+  // ========================================
+
+  /**
+   * Layout a scene's slide is placed by: its resolved layout, or the
+   * overlay placement the image generator uses for scenes without one
+   *
+   * @param image Pixel size of the scene image, for the overlay placement
+   */
+  static getSlideLayout(
+    scene: Scene,
+    story: Story,
+    book: Book,
+    image: { width: number; height: number } | null
+  ): SceneLayout {
+    // @ts-expect-error: Type mismatch between model Story and type Story (Character interface differences)
+    const resolved = LayoutResolver.resolveLayout(scene, story, book);
+    if (resolved) return resolved;
+
+    const aspect = image ? image.width / image.height : this.parseAspectRatio(book.aspectRatio) ?? 3 / 4;
+    const width = image?.width ?? DEFAULT_CANVAS_WIDTH;
+    const height = image?.height ?? Math.round(width / aspect);
+    const panelConfig = book.style.panelConfig ?? DEFAULT_PANEL_CONFIG;
+    const diagramStyle = story.diagramStyle ?? DEFAULT_DIAGRAM_STYLE;
+
+    return {
+      type: 'overlay',
+      canvas: { width, height, aspectRatio: `${width}:${height}` },
+      elements: {
+        image: { x: 0, y: 0, width: 100, height: 100, zIndex: 1 },
+        textPanel: this.overlayElement(panelConfig, width, height, 2),
+        diagramPanel: this.overlayElement(diagramStyle, width, height, 3)
+      }
+    };
+  }
+
+  /**
+   * Where a layout element goes on a slide, given where the layout canvas
+   * is on it
+   */
+  static placeElement(element: LayoutElement, frame: SlideRect): SlideRect {
+    return {
+      x: frame.x + (element.x / 100) * frame.w,
+      y: frame.y + (element.y / 100) * frame.h,
+      w: (element.width / 100) * frame.w,
+      h: (element.height / 100) * frame.h
+    };
+  }
+
+  /**
+   * The largest rectangle of an aspect ratio (width / height) that fits in
+   * a box, centered in it
+   */
+  static fitRect(aspect: number, box: SlideRect): SlideRect {
+    const w = Math.min(box.w, box.h * aspect);
+    const h = w / aspect;
+    return { x: box.x + (box.w - w) / 2, y: box.y + (box.h - h) / 2, w, h };
+  }
+
+  // ========================================
+  // Export
+  // ========================================
+
+  /**
+   * Export a story (scope.storyId) or the whole book as a .pptx deck
+   */
+  static async exportToPptx(scope: PptxExportScope, settings: PptxExportSettings): Promise<PptxExportResult> {
+    const { book, stories } = await this.loadScope(scope);
+    const wholeBook = !scope.storyId;
+    const issues: PptxExportIssue[] = [];
+
+    console.log(`📽️ PPTX EXPORT: "${wholeBook ? book.title : stories[0].title}" (${settings.diagramMode} diagrams)`);
+
+    const title = wholeBook ? book.title : `${book.title}: ${stories[0].title}`;
+
+    // Slides join deck sections by title, so section titles must be unique
+    const sectionTitles = new Set<string>();
+    const sectionTitle = (base: string) => {
+      let unique = base;
+      for (let n = 2; sectionTitles.has(unique); n++) {
+        unique = `${base} (${n})`;
+      }
+      sectionTitles.add(unique);
+      return unique;
+    };
+    const titleSection = settings.titleSlide ? sectionTitle(title) : null;
+
+    const slides: SceneSlide[] = [];
+    for (const story of stories) {
+      for (const { chapter, scenes } of story.getSceneSections()) {
+        if (scenes.length === 0) continue;
+        const section = sectionTitle(chapter ? `${story.title}: ${chapter.title}` : story.title);
+        for (const scene of scenes) {
+          let image: ExportImage | null = null;
+          if (scene.imageHistory?.length) {
+            image = await ExportImageService.loadSceneImage(scene);
+            if (!image) {
+              issues.push({ severity: 'warning', message: `Could not load the image of scene "${scene.title}"; its slide has no image`, sceneId: scene.id });
+            }
+          }
+          slides.push({ scene, story, section, image });
+        }
+      }
+    }
+    if (slides.length === 0) {
+      throw new Error(wholeBook ? 'The book has no scenes to export' : 'The story has no scenes to export');
+    }
+
+    // Slide size from the first scene's layout canvas
+    const first = slides[0];
+    const firstLayout = this.getSlideLayout(first.scene, first.story, book, first.image);
+    const aspect = firstLayout.canvas.width / firstLayout.canvas.height;
+    const slideSize = aspect >= 1
+      ? { width: SLIDE_LONG_SIDE, height: SLIDE_LONG_SIDE / aspect }
+      : { width: SLIDE_LONG_SIDE * aspect, height: SLIDE_LONG_SIDE };
+
+    const pptx = new pptxgen();
+    pptx.defineLayout({ name: 'SCENES', ...slideSize });
+    pptx.layout = 'SCENES';
+    pptx.title = title;
+    pptx.subject = book.description ?? '';
+
+    let slideCount = 0;
+    if (titleSection) {
+      pptx.addSection({ title: titleSection });
+      this.addTitleSlide(pptx, titleSection, book, wholeBook ? undefined : stories[0].title, slideSize);
+      slideCount++;
+    }
+
+    let section: string | null = null;
+    for (const sceneSlide of slides) {
+      if (sceneSlide.section !== section) {
+        section = sceneSlide.section;
+        pptx.addSection({ title: section });
+      }
+      await this.addSceneSlide(pptx, sceneSlide, book, settings, slideSize, issues);
+      slideCount++;
+    }
+
+    const placedImages = slides.filter(slide => slide.image).map(slide => slide.image!);
+    const bytes = await pptx.write({ outputType: 'uint8array', compression: true }) as Uint8Array;
+    await ExportRecordService.recordExport('pptx', placedImages.map(image => image.imageId));
+
+    return {
+      blob: new Blob([bytes as BlobPart], { type: PPTX_MEDIA_TYPE }),
+      slideCount,
+      sceneCount: slides.length,
+      imageCount: placedImages.length,
+      issues
+    };
+  }
+
+  // ========================================
+  // Slides
+  // ========================================
+
+  private static addTitleSlide(
+    pptx: pptxgen,
+    section: string,
+    book: Book,
+    subtitle: string | undefined,
+    slideSize: { width: number; height: number }
+  ): void {
+    const slide = pptx.addSlide({ sectionTitle: section });
+    const margin = slideSize.width * 0.08;
+    const width = slideSize.width - 2 * margin;
+    slide.addText(book.title, {
+      x: margin, y: slideSize.height * 0.25, w: width, h: slideSize.height * 0.2,
+      fontSize: 40, bold: true, align: 'center', valign: 'bottom', fit: 'shrink'
+    });
+    const details = [subtitle, book.description].filter(Boolean).join('\n');
+    if (details) {
+      slide.addText(details, {
+        x: margin, y: slideSize.height * 0.5, w: width, h: slideSize.height * 0.3,
+        fontSize: 20, align: 'center', valign: 'top', fit: 'shrink'
+      });
+    }
+  }
+
+  private static async addSceneSlide(
+    pptx: pptxgen,
+    { scene, story, section, image }: SceneSlide,
+    book: Book,
+    settings: PptxExportSettings,
+    slideSize: { width: number; height: number },
+    issues: PptxExportIssue[]
+  ): Promise<void> {
+    const layout = this.getSlideLayout(scene, story, book, image);
+    const frame = this.fitRect(layout.canvas.width / layout.canvas.height, { x: 0, y: 0, w: slideSize.width, h: slideSize.height });
+    // Points per layout canvas pixel, for font sizes, borders and padding
+    const scale = (frame.w * POINTS_PER_INCH) / layout.canvas.width;
+    const slide = pptx.addSlide({ sectionTitle: section });
+
+    const items: Array<{ zIndex: number; add: () => void }> = [];
+
+    if (image) {
+      const box = this.placeElement(layout.elements.image, frame);
+      items.push({
+        zIndex: layout.elements.image.zIndex,
+        add: () => slide.addImage({
+          data: `data:${image.mediaType};base64,${this.toBase64(image.bytes)}`,
+          altText: scene.description.replace(/\s+/g, ' ').trim() || scene.title,
+          ...this.imagePlacement(image, this.getComposedLayout(scene, image), box)
+        })
+      });
+    }
+
+    const panelText = scene.getPanelText();
+    if (panelText) {
+      const box = this.placeElement(layout.elements.textPanel ?? this.defaultTextElement(layout), frame);
+      const config = book.style.panelConfig ?? DEFAULT_PANEL_CONFIG;
+      items.push({
+        zIndex: layout.elements.textPanel?.zIndex ?? 2,
+        add: () => slide.addText(panelText, {
+          ...box,
+          ...this.panelTextStyle(config, scale)
+        })
+      });
+    }
+
+    if (scene.diagramPanel?.content?.trim()) {
+      const panel = scene.diagramPanel;
+      const element = layout.elements.diagramPanel ?? this.overlayElement(story.diagramStyle ?? DEFAULT_DIAGRAM_STYLE, layout.canvas.width, layout.canvas.height, 3);
+      const box = this.placeElement(element, frame);
+      const style = story.diagramStyle ?? DEFAULT_DIAGRAM_STYLE;
+      let picture: { data: string; width: number; height: number } | null = null;
+
+      if (settings.diagramMode === 'image' || panel.type === 'mermaid') {
+        try {
+          picture = await this.renderDiagram(scene, style, element, layout);
+        } catch (error) {
+          console.error(`Failed to render diagram for scene "${scene.title}":`, error);
+          issues.push({ severity: 'warning', message: `Could not render the diagram of scene "${scene.title}"; its source is shown as text instead`, sceneId: scene.id });
+        }
+      }
+
+      items.push({
+        zIndex: element.zIndex,
+        add: () => {
+          if (picture) {
+            slide.addImage({ data: picture.data, altText: `${panel.type} diagram`, ...this.fitRect(picture.width / picture.height, box) });
+          } else {
+            slide.addText(panel.content.trim(), { ...box, ...this.diagramTextStyle(panel.type, style, scale) });
+          }
+        }
+      });
+    }
+
+    // Stack like the layout does: lower zIndex first
+    items.sort((a, b) => a.zIndex - b.zIndex).forEach(item => item.add());
+
+    if (settings.speakerNotes && scene.description.trim()) {
+      slide.addNotes(scene.description.trim());
+    }
+  }
+
+  /**
+   * Position of a scene image in its box. An image composed with a layout
+   * is cropped to that layout's image area.
+   */
+  private static imagePlacement(image: ExportImage, composedWith: SceneLayout | undefined, box: SlideRect): pptxgen.ImageProps {
+    if (!composedWith) {
+      return this.fitRect(image.width / image.height, box);
+    }
+
+    const area = composedWith.elements.image;
+    const crop = {
+      x: (area.x / 100) * image.width,
+      y: (area.y / 100) * image.height,
+      w: (area.width / 100) * image.width,
+      h: (area.height / 100) * image.height
+    };
+    const target = this.fitRect(crop.w / crop.h, box);
+    const inchesPerPixel = target.w / crop.w;
+    return {
+      x: target.x,
+      y: target.y,
+      w: image.width * inchesPerPixel,
+      h: image.height * inchesPerPixel,
+      sizing: { type: 'crop', x: crop.x * inchesPerPixel, y: crop.y * inchesPerPixel, w: target.w, h: target.h }
+    };
+  }
+
+  /**
+   * The layout an image was composed with, if its text panel or diagram
+   * was drawn next to the picture by composeSceneWithLayout. Images without
+   * overlays, or composed without a layout, are shown whole.
+   */
+  private static getComposedLayout(scene: Scene, image: ExportImage): SceneLayout | undefined {
+    const provenance = scene.imageHistory?.find(entry => entry.id === image.imageId)?.provenance;
+    const layout = provenance?.layout;
+    const overlays = provenance?.overlays;
+    if (!layout || !overlays) return undefined;
+    if (!overlays.textPanel?.trim() && !overlays.diagramPanel?.content?.trim()) return undefined;
+
+    const canvasAspect = layout.canvas.width / layout.canvas.height;
+    const imageAspect = image.width / image.height;
+    return Math.abs(canvasAspect - imageAspect) / canvasAspect <= ASPECT_TOLERANCE ? layout : undefined;
+  }
+
+  private static panelTextStyle(config: PanelConfig, scale: number): pptxgen.TextPropsOptions {
+    const fill = this.parseColor(config.backgroundColor);
+    const font = this.parseColor(config.fontColor);
+    const border = this.parseColor(config.borderColor);
+    return {
+      fontFace: this.firstFontFamily(config.fontFamily),
+      fontSize: this.points(config.fontSize * scale),
+      color: font ?? 'FFFFFF',
+      align: config.textAlign,
+      valign: 'middle',
+      margin: Math.min(config.padding * scale, 20),
+      fill: fill ? { color: fill } : undefined,
+      line: border && config.borderWidth > 0 ? { color: border, width: config.borderWidth * scale } : undefined,
+      fit: 'shrink'
+    };
+  }
+
+  private static diagramTextStyle(type: string, style: DiagramStyle, scale: number): pptxgen.TextPropsOptions {
+    const fill = this.parseColor(style.backgroundColor);
+    const font = this.parseColor(style.foregroundColor);
+    const border = this.parseColor(style.borderColor);
+    return {
+      fontFace: type === 'math' ? MATH_FONT : type === 'markdown' ? undefined : CODE_FONT,
+      fontSize: this.points(style.fontSize * scale),
+      color: font ?? 'FFFFFF',
+      align: type === 'math' ? 'center' : 'left',
+      valign: type === 'math' ? 'middle' : 'top',
+      margin: Math.min(style.padding * scale, 20),
+      fill: fill ? { color: fill } : undefined,
+      line: border && style.borderWidth > 0 ? { color: border, width: style.borderWidth * scale } : undefined,
+      fit: 'shrink'
+    };
+  }
+
+  private static async renderDiagram(
+    scene: Scene,
+    style: DiagramStyle,
+    element: LayoutElement,
+    layout: SceneLayout
+  ): Promise<{ data: string; width: number; height: number }> {
+    const width = (element.width / 100) * layout.canvas.width;
+    const height = (element.height / 100) * layout.canvas.height;
+    const upscale = Math.max(1, Math.min(2, MAX_DIAGRAM_PIXELS / Math.max(width, height)));
+    const size = { width: Math.round(width * upscale), height: Math.round(height * upscale) };
+
+    const { renderDiagramToCanvas, canvasToDataURL } = await import('./DiagramRenderService');
+    const canvas = await renderDiagramToCanvas(scene.diagramPanel!, style, size.width, size.height);
+    return { data: canvasToDataURL(canvas), ...size };
+  }
+
+  // ========================================
+  // Helpers
+  // ========================================
+
+  /**
+   * A panel placed the way OverlayService places it on a layout-less
+   * image: at a named position, sized in percent, inset by pixel gutters
+   */
+  private static overlayElement(
+    config: Pick<PanelConfig, 'position' | 'widthPercentage' | 'heightPercentage' | 'gutterTop' | 'gutterBottom' | 'gutterLeft' | 'gutterRight'>,
+    canvasWidth: number,
+    canvasHeight: number,
+    zIndex: number
+  ): LayoutElement {
+    const width = config.widthPercentage;
+    const height = config.heightPercentage;
+    const gutter = {
+      top: (config.gutterTop / canvasHeight) * 100,
+      bottom: (config.gutterBottom / canvasHeight) * 100,
+      left: (config.gutterLeft / canvasWidth) * 100,
+      right: (config.gutterRight / canvasWidth) * 100
+    };
+    const position = config.position;
+
+    let x = gutter.left + (100 - width - gutter.left - gutter.right) / 2;
+    if (position.includes('left')) x = gutter.left;
+    else if (position.includes('right')) x = 100 - width - gutter.right;
+
+    let y = gutter.top + (100 - height - gutter.top - gutter.bottom) / 2;
+    if (position.includes('top')) y = gutter.top;
+    else if (position.includes('bottom')) y = 100 - height - gutter.bottom;
+
+    return { x, y, width, height, zIndex };
+  }
+
+  /**
+   * Text panel area for layouts without one: the bottom of the canvas
+   */
+  private static defaultTextElement(layout: SceneLayout): LayoutElement {
+    return this.overlayElement(DEFAULT_PANEL_CONFIG, layout.canvas.width, layout.canvas.height, 2);
+  }
+
+  private static parseAspectRatio(aspectRatio: string | undefined): number | null {
+    const [width, height] = (aspectRatio ?? '').split(':').map(Number);
+    return width > 0 && height > 0 ? width / height : null;
+  }
+
+  /**
+   * Hex color without the # (and without alpha: text boxes are opaque),
+   * or null for colors that aren't hex
+   */
+  private static parseColor(color: string | undefined): string | null {
+    const hex = color?.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i)?.[1];
+    if (!hex) return null;
+    const rgb = hex.length === 3 ? hex.split('').map(digit => digit + digit).join('') : hex.slice(0, 6);
+    return rgb.toUpperCase();
+  }
+
+  private static firstFontFamily(fontFamily: string): string {
+    return fontFamily.split(',')[0].trim().replace(/^["']|["']$/g, '') || 'Arial';
+  }
+
+  private static points(size: number): number {
+    return Math.max(6, Math.round(size * 2) / 2);
+  }
+
+  private static toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
+
+  // ========================================
+  // Loading
+  // ========================================
+
+  private static async loadScope(scope: PptxExportScope): Promise<{ book: Book; stories: Story[] }> {
+    const book = await StorageService.getBook(scope.bookId);
+    if (!book) {
+      throw new Error(`Book with ID ${scope.bookId} not found`);
+    }
+    if (!scope.storyId) {
+      return { book, stories: book.stories };
+    }
+    const story = book.stories.find(s => s.id === scope.storyId);
+    if (!story) {
+      throw new Error(`Story with ID ${scope.storyId} not found`);
+    }
+    return { book, stories: [story] };
+  }
+}
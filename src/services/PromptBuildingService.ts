@@ -14,6 +14,7 @@ import type { Book } from '../models/Book';
 import type { Story } from '../models/Story';
 import type { Scene } from '../models/Scene';
 import type { Character } from '../models/Story';
+import { AvoidListResolver } from './AvoidListResolver';
 
 /**
  * Character with additional metadata about its level (book or story)
@@ -54,6 +55,28 @@ export interface CharacterPromptOptions {
   hasReferenceImage: boolean; // Whether a reference image is being provided
 }
 
+/**
+ * One compaction pass applied to fit a prompt into the model's token budget
+ */
+export interface PromptCompactionStep {
+  section: 'elements' | 'characters' | 'style' | 'background';
+  action: string; // e.g., "Shortened element descriptions to their first sentence"
+  reason: string; // Why this section was cut before others
+  items: string[]; // Affected elements, characters or style fields
+  tokensSaved: number;
+}
+
+/**
+ * How a prompt compares to the model's token budget, and what was cut to fit
+ */
+export interface PromptBudgetReport {
+  maxTokens: number;
+  originalTokens: number;
+  finalTokens: number;
+  steps: PromptCompactionStep[]; // Empty when the prompt already fit
+  withinBudget: boolean; // False when even full compaction couldn't fit the prompt
+}
+
 /**
  * Result of prompt building
  */
@@ -64,9 +87,19 @@ export interface PromptBuildingResult {
     sections?: string[]; // e.g., ["work_surface", "layout", "components"]
     estimatedTokens?: number;
     warnings?: string[];
+    budget?: PromptBudgetReport; // Set by PromptCompactionService
   };
 }
 
+/**
+ * Estimate token count (rough approximation)
+ * Average English word ≈ 1.3 tokens
+ */
+export function estimatePromptTokens(text: string): number {
+  const words = text.split(/\s+/).length;
+  return Math.ceil(words * 1.3);
+}
+
 /**
  * Abstract base class for prompt building strategies
  */
@@ -123,6 +156,20 @@ export abstract class PromptBuildingService {
     return parts.join('\n');
   }
 
+  /**
+   * Helper: Merged avoid-list for a scene (scene → story → book)
+   */
+  protected getSceneAvoidList(options: ScenePromptOptions): string[] {
+    return AvoidListResolver.resolveAvoidList(options.scene, options.story, options.book);
+  }
+
+  /**
+   * Helper: Book avoid-list, used for character prompts
+   */
+  protected getBookAvoidList(book: Book | null): string[] {
+    return AvoidListResolver.resolveAvoidList(null, null, book);
+  }
+
   /**
    * Helper: Replace macros in text (e.g., {{SceneDescription}})
    */
@@ -140,8 +187,7 @@ export abstract class PromptBuildingService {
    * Average English word ≈ 1.3 tokens, 4 chars per word
    */
   protected estimateTokens(text: string): number {
-    const words = text.split(/\s+/).length;
-    return Math.ceil(words * 1.3);
+    return estimatePromptTokens(text);
   }
 }
 
@@ -0,0 +1,292 @@
+/**
+ * PromptCompactionService - Fits scene prompts into a model's token budget
+ *
+ * Scenes with many characters, long element descriptions or a long story
+ * background can produce prompts far beyond what image models follow well.
+ * When a prompt exceeds the model's budget (ImageModelCapabilities.maxPromptTokens),
+ * the scene inputs are compacted in priority order and the prompt is rebuilt
+ * with the same strategy after each pass, until it fits:
+ *
+ * 1. Element descriptions shortened to their first sentence
+ * 2. Non-focal character descriptions shortened to their first sentence
+ * 3. Style text repeated across book style fields removed
+ * 4. Story background shortened to its first two sentences
+ * 5. Elements not mentioned in the scene description dropped
+ * 6. Non-focal character descriptions cut to a short summary
+ * 7. Descriptions of characters with reference images shortened
+ * 8. Book style fields shortened to their first sentence
+ *
+ * The scene description itself is never cut. Focal characters are those
+ * named in the scene description.
+ */
+
+import type { Book } from '../models/Book';
+import type { Story } from '../models/Story';
+import {
+  estimatePromptTokens,
+  type PromptBuildingService,
+  type PromptBuildingResult,
+  type PromptBudgetReport,
+  type PromptCompactionStep,
+  type ScenePromptOptions
+} from './PromptBuildingService';
+import { ImageProviderRegistry } from './ImageProviderRegistry';
+
+/**
+ * Budget for models that don't declare one
+ */
+export const DEFAULT_MAX_PROMPT_TOKENS = 2000;
+
+const SUMMARY_WORDS = 12;
+
+interface CompactionPass {
+  section: PromptCompactionStep['section'];
+  action: string;
+  reason: string;
+  /** Compacted options and the affected items, or null when there is nothing to cut */
+  apply(options: ScenePromptOptions): { options: ScenePromptOptions; items: string[] } | null;
+}
+
+const splitSentences = (text: string): string[] =>
+  text.trim().split(/(?<=[.!?])\s+/).filter(Boolean);
+
+const firstSentences = (text: string, count: number): string =>
+  splitSentences(text).slice(0, count).join(' ');
+
+const truncateWords = (text: string, maxWords: number): string => {
+  const words = text.trim().split(/\s+/);
+  return words.length > maxWords ? `${words.slice(0, maxWords).join(' ')}…` : text.trim();
+};
+
+const mentions = (text: string, name: string): boolean =>
+  text.toLowerCase().includes(name.toLowerCase());
+
+const isFocal = (options: ScenePromptOptions, name: string): boolean =>
+  mentions(options.scene.description || '', name);
+
+const hasReferenceImage = (options: ScenePromptOptions, name: string): boolean =>
+  !!options.charactersWithImages?.some(c => c.name === name);
+
+/**
+ * Shorten descriptions of the matching items; returns null if none got shorter
+ */
+function shortenDescriptions<T extends { name: string; description: string }>(
+  items: T[],
+  shouldShorten: (item: T) => boolean,
+  shorten: (description: string) => string
+): { items: T[]; changed: string[] } | null {
+  const changed: string[] = [];
+  const result = items.map(item => {
+    if (!item.description || !shouldShorten(item)) return item;
+    const description = shorten(item.description);
+    if (description.length >= item.description.trim().length) return item;
+    changed.push(item.name);
+    return { ...item, description };
+  });
+  return changed.length > 0 ? { items: result, changed } : null;
+}
+
+function compactCharacters(
+  options: ScenePromptOptions,
+  shouldShorten: (name: string) => boolean,
+  shorten: (description: string) => string
+): { options: ScenePromptOptions; items: string[] } | null {
+  const shortened = shortenDescriptions(options.characters, c => shouldShorten(c.name), shorten);
+  if (!shortened) return null;
+
+  const byName = new Map(shortened.items.map(c => [c.name, c]));
+  return {
+    options: {
+      ...options,
+      characters: shortened.items,
+      charactersWithImages: options.charactersWithImages?.map(c => byName.get(c.name) ?? c)
+    },
+    items: shortened.changed
+  };
+}
+
+/**
+ * Replace the book style (on a copy of the book) with compacted fields
+ */
+function compactStyle(
+  options: ScenePromptOptions,
+  compact: (fields: Array<[string, string]>) => Array<[string, string]>
+): { options: ScenePromptOptions; items: string[] } | null {
+  const { book } = options;
+  if (!book?.style) return null;
+
+  const fields = Object.entries(book.style)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== '');
+  const compacted = new Map(compact(fields));
+  const changed = fields
+    .filter(([key, value]) => compacted.get(key) !== value)
+    .map(([key]) => key);
+  if (changed.length === 0) return null;
+
+  const style = { ...book.style };
+  for (const key of changed) {
+    (style as Record<string, unknown>)[key] = compacted.get(key) || undefined;
+  }
+  return {
+    options: { ...options, book: { ...book, style } as Book },
+    items: changed
+  };
+}
+
+function compactBackground(options: ScenePromptOptions, shorten: (text: string) => string) {
+  const background = options.story.backgroundSetup || '';
+  const shortened = shorten(background);
+  if (!background || shortened.length >= background.trim().length) return null;
+  return {
+    options: { ...options, story: { ...options.story, backgroundSetup: shortened } as Story },
+    items: ['Story background']
+  };
+}
+
+const COMPACTION_PASSES: CompactionPass[] = [
+  {
+    section: 'elements',
+    action: 'Shortened element descriptions to their first sentence',
+    reason: 'Element details are the lowest-priority part of the prompt',
+    apply: options => {
+      const shortened = shortenDescriptions(options.elements, () => true, text => firstSentences(text, 1));
+      return shortened && { options: { ...options, elements: shortened.items }, items: shortened.changed };
+    }
+  },
+  {
+    section: 'characters',
+    action: 'Shortened non-focal character descriptions to their first sentence',
+    reason: 'These characters are not named in the scene description',
+    apply: options => compactCharacters(options, name => !isFocal(options, name), text => firstSentences(text, 1))
+  },
+  {
+    section: 'style',
+    action: 'Removed style text repeated across book style fields',
+    reason: 'The same guidance was already given by another style field',
+    apply: options => compactStyle(options, fields => {
+      const seen = new Set<string>();
+      return fields.map(([key, value]) => {
+        const unique = splitSentences(value).filter(sentence => {
+          const normalized = sentence.toLowerCase().replace(/[^\w\s]/g, '').trim();
+          if (seen.has(normalized)) return false;
+          seen.add(normalized);
+          return true;
+        });
+        return [key, unique.join(' ')];
+      });
+    })
+  },
+  {
+    section: 'background',
+    action: 'Shortened the story background to its first two sentences',
+    reason: 'Background is shared by every scene; the scene description carries the specifics',
+    apply: options => compactBackground(options, text => firstSentences(text, 2))
+  },
+  {
+    section: 'elements',
+    action: 'Dropped elements not mentioned in the scene description',
+    reason: 'Unmentioned elements are optional set dressing',
+    apply: options => {
+      const description = options.scene.description || '';
+      const dropped = options.elements.filter(elem => !mentions(description, elem.name));
+      if (dropped.length === 0) return null;
+      return {
+        options: { ...options, elements: options.elements.filter(elem => mentions(description, elem.name)) },
+        items: dropped.map(elem => elem.name)
+      };
+    }
+  },
+  {
+    section: 'characters',
+    action: `Cut non-focal character descriptions to ${SUMMARY_WORDS} words`,
+    reason: 'These characters are not named in the scene description',
+    apply: options => compactCharacters(options, name => !isFocal(options, name), text => truncateWords(text, SUMMARY_WORDS))
+  },
+  {
+    section: 'characters',
+    action: 'Shortened descriptions of characters with reference images',
+    reason: 'Their appearance comes from the attached reference image',
+    apply: options => compactCharacters(options, name => hasReferenceImage(options, name), text => firstSentences(text, 1))
+  },
+  {
+    section: 'style',
+    action: 'Shortened book style fields to their first sentence',
+    reason: 'Last resort before exceeding the budget; the lead sentence of each field is kept',
+    apply: options => compactStyle(options, fields => fields.map(([key, value]) => [key, firstSentences(value, 1)]))
+  }
+];
+
+export class PromptCompactionService {
+  /**
+   * Token budget for a model's scene prompts
+   */
+  static getPromptBudget(model?: string): number {
+    return (model && ImageProviderRegistry.getCapabilities(model)?.maxPromptTokens) || DEFAULT_MAX_PROMPT_TOKENS;
+  }
+
+  /**
+   * Build a scene prompt with the given strategy, compacting the inputs
+   * until the prompt fits maxTokens. The result's metadata.budget reports
+   * what was cut and why.
+   */
+  static buildScenePrompt(
+    strategy: PromptBuildingService,
+    options: ScenePromptOptions,
+    maxTokens: number
+  ): PromptBuildingResult {
+    let result = strategy.buildScenePrompt(options);
+    const originalTokens = estimatePromptTokens(result.prompt);
+    let tokens = originalTokens;
+    let current = options;
+    const steps: PromptCompactionStep[] = [];
+
+    for (const pass of COMPACTION_PASSES) {
+      if (tokens <= maxTokens) break;
+
+      const compacted = pass.apply(current);
+      if (!compacted) continue;
+
+      const next = strategy.buildScenePrompt(compacted.options);
+      const nextTokens = estimatePromptTokens(next.prompt);
+      if (nextTokens >= tokens) continue;
+
+      steps.push({
+        section: pass.section,
+        action: pass.action,
+        reason: pass.reason,
+        items: compacted.items,
+        tokensSaved: tokens - nextTokens
+      });
+      current = compacted.options;
+      result = next;
+      tokens = nextTokens;
+    }
+
+    const budget: PromptBudgetReport = {
+      maxTokens,
+      originalTokens,
+      finalTokens: tokens,
+      steps,
+      withinBudget: tokens <= maxTokens
+    };
+
+    const warnings = [...(result.metadata?.warnings ?? [])];
+    if (steps.length > 0) {
+      warnings.push(`Prompt compacted from ~${originalTokens} to ~${tokens} tokens (budget ${maxTokens})`);
+    }
+    if (!budget.withinBudget) {
+      warnings.push(`Prompt still exceeds the ${maxTokens} token budget after compaction`);
+    }
+
+    return {
+      prompt: result.prompt,
+      metadata: {
+        strategy: result.metadata?.strategy ?? 'unknown',
+        ...result.metadata,
+        estimatedTokens: tokens,
+        warnings,
+        budget
+      }
+    };
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * PromptDiffService - Explains why a new image differs from an older one
+ *
+ * Compares the prompt recorded in a past image's provenance with the prompt
+ * the scene would produce now (word-level diff), and lists the generation
+ * inputs that changed in between: characters, elements, book style fields
+ * and the resolved layout.
+ */
+
+import type { Book } from '../models/Book';
+import type { Story } from '../models/Story';
+import type { Scene } from '../models/Scene';
+import type { ImageProvenance } from '../types/ImageProvenance';
+import type {
+  PromptDiffCurrentState,
+  PromptDiffResult,
+  PromptDiffSegment,
+  PromptInputChange
+} from '../types/PromptDiff';
+import type { BookStyle } from '../types/BookStyle';
+import type { SceneLayout } from '../types/Story';
+import { SceneImageGenerationService } from './SceneImageGenerationService';
+import { LayoutResolver } from './LayoutResolver';
+
+// Beyond this many cells the LCS table is skipped and the changed middle
+// is shown as one removal + one addition
+const MAX_LCS_CELLS = 10_000_000;
+
+const STYLE_FIELDS: Array<{ key: keyof Omit<BookStyle, 'panelConfig' | 'avoid'>; label: string }> = [
+  { key: 'visualTheme', label: 'Visual Theme' },
+  { key: 'artStyle', label: 'Art Style' },
+  { key: 'colorPalette', label: 'Color Palette' },
+  { key: 'characterStyle', label: 'Character Style' },
+  { key: 'environmentStyle', label: 'Environment Style' }
+];
+
+export class PromptDiffService {
+  /**
+   * Compare a past image's provenance with the current scene state
+   */
+  static compare(provenance: ImageProvenance, current: PromptDiffCurrentState): PromptDiffResult {
+    return {
+      segments: this.diffWords(provenance.prompt, current.prompt),
+      changes: this.compareInputs(provenance, current),
+      identical: provenance.prompt === current.prompt
+    };
+  }
+
+  /**
+   * Current state of a scene, built with the same model and strategy choice
+   * as the past image so only scene/story/book edits show up in the diff
+   */
+  static getCurrentState(
+    provenance: ImageProvenance,
+    scene: Scene,
+    story: Story,
+    book: Book | null
+  ): PromptDiffCurrentState {
+    return {
+      prompt: SceneImageGenerationService.buildCurrentScenePrompt(
+        scene,
+        story,
+        book,
+        provenance.model,
+        provenance.requestedPromptStrategy
+      ),
+      characters: scene.characters || [],
+      elements: scene.elements || [],
+      bookStyle: book?.style,
+      // @ts-expect-error: Type mismatch between model Story and type Story (Character interface differences)
+      layout: LayoutResolver.resolveLayout(scene, story, book)
+    };
+  }
+
+  /**
+   * Word-level diff. Whitespace stays attached to the preceding word, and
+   * words that only differ in surrounding whitespace count as equal.
+   */
+  static diffWords(before: string, after: string): PromptDiffSegment[] {
+    const a = this.tokenize(before);
+    const b = this.tokenize(after);
+    const segments: PromptDiffSegment[] = [];
+
+    // Common prefix and suffix don't need the LCS table
+    let start = 0;
+    while (start < a.length && start < b.length && a[start].trim() === b[start].trim()) {
+      start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1].trim() === b[endB - 1].trim()) {
+      endA--;
+      endB--;
+    }
+
+    this.push(segments, 'equal', b.slice(0, start).join(''));
+    this.diffRange(a.slice(start, endA), b.slice(start, endB), segments);
+    this.push(segments, 'equal', b.slice(endB).join(''));
+
+    return segments;
+  }
+
+  /**
+   * Generation inputs that changed between the past image and now
+   */
+  static compareInputs(provenance: ImageProvenance, current: PromptDiffCurrentState): PromptInputChange[] {
+    const changes: PromptInputChange[] = [];
+
+    // Images generated before characters/elements were recorded can't be compared
+    if (provenance.characters) {
+      changes.push(...this.compareNames('character', provenance.characters, current.characters));
+    }
+    if (provenance.elements) {
+      changes.push(...this.compareNames('element', provenance.elements, current.elements));
+    }
+
+    for (const { key, label } of STYLE_FIELDS) {
+      const before = provenance.bookStyle?.[key] || undefined;
+      const after = current.bookStyle?.[key] || undefined;
+      if (before !== after) {
+        changes.push({ category: 'style', label, before, after });
+      }
+    }
+
+    if (JSON.stringify(provenance.layout ?? null) !== JSON.stringify(current.layout ?? null)) {
+      const before = this.describeLayout(provenance.layout);
+      const after = this.describeLayout(current.layout);
+      changes.push({
+        category: 'layout',
+        label: 'Layout',
+        before,
+        after: after === before ? `${after} (positions edited)` : after
+      });
+    }
+
+    return changes;
+  }
+
+  private static compareNames(
+    category: 'character' | 'element',
+    before: string[],
+    after: string[]
+  ): PromptInputChange[] {
+    const removed = before
+      .filter(name => !after.includes(name))
+      .map(name => ({ category, label: name, before: name }));
+    const added = after
+      .filter(name => !before.includes(name))
+      .map(name => ({ category, label: name, after: name }));
+    return [...removed, ...added];
+  }
+
+  private static describeLayout(layout?: SceneLayout): string {
+    if (!layout) return 'Default overlays';
+    return `${layout.type} (${layout.canvas.width}×${layout.canvas.height})`;
+  }
+
+  private static tokenize(text: string): string[] {
+    const leading = text.match(/^\s+/)?.[0];
+    const words = text.match(/\S+\s*/g) || [];
+    return leading ? [leading, ...words] : words;
+  }
+
+  /**
+   * Diff the changed middle section using a longest-common-subsequence table
+   */
+  private static diffRange(a: string[], b: string[], segments: PromptDiffSegment[]): void {
+    const n = a.length;
+    const m = b.length;
+    if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) {
+      this.push(segments, 'removed', a.join(''));
+      this.push(segments, 'added', b.join(''));
+      return;
+    }
+
+    // lcs[i][j] = LCS length of a[i..] and b[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[i].trim() === b[j].trim()
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[i].trim() === b[j].trim()) {
+        this.push(segments, 'equal', b[j]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        this.push(segments, 'removed', a[i]);
+        i++;
+      } else {
+        this.push(segments, 'added', b[j]);
+        j++;
+      }
+    }
+    this.push(segments, 'removed', a.slice(i).join(''));
+    this.push(segments, 'added', b.slice(j).join(''));
+  }
+
+  /**
+   * Append text, merging with the previous segment when the op matches
+   */
+  private static push(segments: PromptDiffSegment[], op: PromptDiffSegment['op'], text: string): void {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) {
+      last.text += text;
+    } else {
+      segments.push({ op, text });
+    }
+  }
+}
@@ -0,0 +1,350 @@
+/**
+ * SaveJournalService - Atomic multi-file saves for directory-format books
+ *
+ * Without journaling, a crash or lost directory permission halfway through
+ * FileBasedStorageService.saveBook leaves book.json and the story files from
+ * different saves, with nothing to tell that it happened. A journaled save:
+ *
+ * 1. Stages every file as {path}.{txId}.tmp (ignored by the book loader)
+ * 2. Writes prompter-cache/journal/{txId}.json - the commit point
+ * 3. Writes the files into place, removes stale files and the staged copies
+ * 4. Deletes the journal
+ *
+ * recoverInterruptedSaves (run by BookCache before loading books) finishes
+ * any save whose journal is still there (roll forward) and deletes staged
+ * files that never got a journal (roll back). What it did is kept as a report
+ * for the UI. Journals are replayed newest first, and a file a newer save
+ * wrote is never rolled back to an older save's content. A later save in the
+ * same session also drops those files from the journals of earlier saves
+ * that failed midway.
+ *
+ * Saves of the same book are queued, so overlapping background saves can't
+ * interleave their files.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  SaveJournal,
+  SaveJournalWrite,
+  SaveRecoveryEntry,
+  SaveRecoveryReport
+} from '../types/SaveJournal';
+import { FileSystemService } from './FileSystemService';
+import { HashService } from './HashService';
+
+const JOURNAL_DIR = 'prompter-cache/journal';
+const BOOKS_DIR = 'prompter-cache/books';
+const BLOBS_DIR = 'prompter-cache/blobs';
+const TEMP_SUFFIX = '.tmp';
+
+export class SaveJournalService {
+  private static bookQueues: Map<string, Promise<void>> = new Map();
+  private static lastReport: SaveRecoveryReport | null = null;
+  private static lastSequence = 0;
+
+  // Journals of saves that committed but failed to apply, by journal path
+  private static unapplied: Map<string, SaveJournal> = new Map();
+
+  // ========================================
+  // Saving
+  // ========================================
+
+  /**
+   * Write a set of files for one book so that either all or none of them
+   * end up in place, even if the app stops midway
+   *
+   * @param book - Book being saved (for the journal and recovery report)
+   * @param writes - Files to write, paths relative to the storage root
+   * @param deletes - Files to remove once the new files are in place
+   */
+  static async commit(
+    book: { id: string; title: string },
+    writes: Array<{ path: string; content: string }>,
+    deletes: string[] = []
+  ): Promise<void> {
+    const previous = this.bookQueues.get(book.id) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => this.runCommit(book, writes, deletes));
+
+    // The queue only orders saves; each caller still sees its own result
+    const queued = run.catch(() => undefined);
+    this.bookQueues.set(book.id, queued);
+    queued.then(() => {
+      if (this.bookQueues.get(book.id) === queued) {
+        this.bookQueues.delete(book.id);
+      }
+    });
+
+    return run;
+  }
+
+  private static async runCommit(
+    book: { id: string; title: string },
+    writes: Array<{ path: string; content: string }>,
+    deletes: string[]
+  ): Promise<void> {
+    const backend = FileSystemService.getBackend();
+    const txId = uuidv4();
+    const journalPath = this.getJournalPath(txId);
+
+    // 1. Stage
+    const staged: SaveJournalWrite[] = [];
+    try {
+      for (const file of writes) {
+        const tempPath = `${file.path}.${txId}${TEMP_SUFFIX}`;
+        await backend.writeText(tempPath, file.content);
+        staged.push({ path: file.path, tempPath, checksum: HashService.checksum(file.content) });
+      }
+    } catch (error) {
+      // Nothing committed: the existing files are untouched
+      await this.deleteQuietly(staged.map(write => write.tempPath));
+      throw error;
+    }
+
+    // 2. Commit
+    const journal: SaveJournal = {
+      version: 1,
+      txId,
+      bookId: book.id,
+      bookTitle: book.title,
+      startedAt: new Date(),
+      sequence: this.nextSequence(),
+      writes: staged,
+      deletes
+    };
+    try {
+      await backend.writeText(journalPath, JSON.stringify(journal));
+    } catch (error) {
+      await this.deleteQuietly([journalPath, ...staged.map(write => write.tempPath)]);
+      throw error;
+    }
+
+    // 3. Apply. If this fails the journal stays, and the next load rolls forward.
+    try {
+      for (const file of writes) {
+        await backend.writeText(file.path, file.content);
+      }
+      for (const path of deletes) {
+        await backend.delete(path);
+      }
+    } catch (error) {
+      this.unapplied.set(journalPath, journal);
+      throw error;
+    }
+    await this.deleteQuietly(staged.map(write => write.tempPath));
+
+    // 4. Done
+    await backend.delete(journalPath);
+    await this.dropSupersededFiles(new Set([...writes.map(file => file.path), ...deletes]));
+  }
+
+  /**
+   * Remove files a save just wrote or deleted from the journals of earlier
+   * saves that failed midway, so recovery can't put their older content back
+   */
+  private static async dropSupersededFiles(paths: Set<string>): Promise<void> {
+    const backend = FileSystemService.getBackend();
+    for (const [journalPath, journal] of this.unapplied) {
+      const superseded = journal.writes.filter(write => paths.has(write.path));
+      if (superseded.length === 0 && !journal.deletes.some(path => paths.has(path))) continue;
+
+      const remaining: SaveJournal = {
+        ...journal,
+        writes: journal.writes.filter(write => !paths.has(write.path)),
+        deletes: journal.deletes.filter(path => !paths.has(path))
+      };
+      try {
+        if (remaining.writes.length === 0 && remaining.deletes.length === 0) {
+          await backend.delete(journalPath);
+          this.unapplied.delete(journalPath);
+        } else {
+          await backend.writeText(journalPath, JSON.stringify(remaining));
+          this.unapplied.set(journalPath, remaining);
+        }
+        await this.deleteQuietly(superseded.map(write => write.tempPath));
+      } catch (error) {
+        // Left as it was; the next save of these files tries again
+        console.warn(`Failed to update the journal ${journalPath}:`, error);
+      }
+    }
+  }
+
+  private static nextSequence(): number {
+    this.lastSequence = Math.max(Date.now(), this.lastSequence + 1);
+    return this.lastSequence;
+  }
+
+  // ========================================
+  // Recovery
+  // ========================================
+
+  /**
+   * Finish or discard saves interrupted by a crash. Called by BookCache
+   * before books are loaded.
+   *
+   * @returns What was recovered (also kept for consumeRecoveryReport)
+   */
+  static async recoverInterruptedSaves(): Promise<SaveRecoveryReport> {
+    const entries: SaveRecoveryEntry[] = [];
+    const backend = FileSystemService.getBackend();
+
+    // Committed saves: roll forward
+    const { files: journalFiles } = await backend.list(JOURNAL_DIR);
+    const journals: Array<{ path: string; journal: SaveJournal }> = [];
+    for (const fileName of journalFiles.filter(name => name.endsWith('.json'))) {
+      const journalPath = `${JOURNAL_DIR}/${fileName}`;
+      const content = await backend.readText(journalPath);
+
+      let journal: SaveJournal | null = null;
+      try {
+        journal = JSON.parse(content ?? '');
+      } catch {
+        // Handled below
+      }
+      if (!journal || typeof journal.sequence !== 'number' || !Array.isArray(journal.writes) || !Array.isArray(journal.deletes)) {
+        // Torn journal: the save never reached its commit point
+        await backend.delete(journalPath);
+        continue;
+      }
+      journals.push({ path: journalPath, journal });
+    }
+
+    // Newest first: each file gets the content of the last save that touched it
+    journals.sort((a, b) => b.journal.sequence - a.journal.sequence);
+    const claimed = new Set<string>();
+    for (const { path: journalPath, journal } of journals) {
+      entries.push(await this.rollForward(journal, claimed));
+      await backend.delete(journalPath);
+    }
+    entries.reverse();
+    this.unapplied.clear();
+
+    // Staged files without a journal: roll back
+    entries.push(...await this.discardStagedFiles());
+
+    const report: SaveRecoveryReport = { checkedAt: new Date(), entries };
+    if (entries.length > 0) {
+      console.warn(`⚠️ Recovered ${entries.length} interrupted save(s):`, entries);
+      this.lastReport = report;
+    }
+    return report;
+  }
+
+  /**
+   * Put a journal's files in place, skipping files in `claimed` (replayed
+   * from a newer journal already); the journal's files are added to it
+   */
+  private static async rollForward(journal: SaveJournal, claimed: Set<string>): Promise<SaveRecoveryEntry> {
+    const backend = FileSystemService.getBackend();
+    const entry: SaveRecoveryEntry = {
+      action: 'rolled-forward',
+      book: journal.bookTitle,
+      bookId: journal.bookId,
+      startedAt: new Date(journal.startedAt),
+      files: [],
+      errors: []
+    };
+
+    for (const write of journal.writes) {
+      if (claimed.has(write.path)) {
+        await backend.delete(write.tempPath);
+        continue;
+      }
+      claimed.add(write.path);
+
+      const staged = await backend.readText(write.tempPath);
+      if (staged !== null && HashService.checksum(staged) === write.checksum) {
+        await backend.writeText(write.path, staged);
+        await backend.delete(write.tempPath);
+        entry.files.push(write.path);
+        continue;
+      }
+
+      // Staged copy already moved into place (or damaged): check the target
+      const current = await backend.readText(write.path);
+      if (current === null || HashService.checksum(current) !== write.checksum) {
+        entry.errors.push(`${write.path} could not be restored`);
+      }
+      if (staged !== null) {
+        await backend.delete(write.tempPath);
+      }
+    }
+
+    for (const path of journal.deletes) {
+      if (claimed.has(path)) continue;
+      claimed.add(path);
+      if (await backend.delete(path)) {
+        entry.files.push(path);
+      }
+    }
+
+    return entry;
+  }
+
+  /**
+   * Delete staged files left in book directories (and next to the image
+   * store index) by saves that never committed
+   */
+  private static async discardStagedFiles(): Promise<SaveRecoveryEntry[]> {
+    const backend = FileSystemService.getBackend();
+    const entries: SaveRecoveryEntry[] = [];
+    const { directories } = await backend.list(BOOKS_DIR);
+    const locations = [
+      ...directories.map(dir => ({ name: dir, paths: [`${BOOKS_DIR}/${dir}`, `${BOOKS_DIR}/${dir}/stories`] })),
+      { name: 'Image store index', paths: [BLOBS_DIR] }
+    ];
+
+    for (const { name, paths } of locations) {
+      const discarded: string[] = [];
+      for (const path of paths) {
+        const { files } = await backend.list(path);
+        for (const fileName of files.filter(name => name.endsWith(TEMP_SUFFIX))) {
+          await backend.delete(`${path}/${fileName}`);
+          discarded.push(`${path}/${fileName}`);
+        }
+      }
+
+      if (discarded.length > 0) {
+        entries.push({ action: 'rolled-back', book: name, files: discarded, errors: [] });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Report from the last recovery that found something, once
+   * (the app shows it after loading)
+   */
+  static consumeRecoveryReport(): SaveRecoveryReport | null {
+    const report = this.lastReport;
+    this.lastReport = null;
+    return report;
+  }
+
+  // ========================================
+  // Helpers
+  // ========================================
+
+  private static getJournalPath(txId: string): string {
+    return `${JOURNAL_DIR}/${txId}.json`;
+  }
+
+  private static async deleteQuietly(paths: string[]): Promise<void> {
+    const backend = FileSystemService.getBackend();
+    for (const path of paths) {
+      try {
+        await backend.delete(path);
+      } catch (error) {
+        console.warn(`Failed to delete ${path}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Reset all state (tests only)
+   */
+  static reset(): void {
+    this.bookQueues.clear();
+    this.lastReport = null;
+    this.unapplied.clear();
+  }
+}
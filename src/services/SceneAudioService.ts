@@ -0,0 +1,107 @@
+/**
+ * SceneAudioService - Audio tracks for slideshow scenes
+ *
+ * Audio files (e.g. narration) added to scenes for the slideshow export are
+ * kept in the storage folder, named by the SHA-256 of their bytes so the
+ * same file added to several scenes (or a copied scene) is stored once:
+ *
+ *   prompter-cache/audio/abcdef....mp3
+ *
+ * Scenes refer to their file through scene.slideshow.audio.
+ */
+
+import type { SceneAudio } from '../types/Slideshow';
+import { FileSystemService } from './FileSystemService';
+
+const AUDIO_DIR = 'prompter-cache/audio';
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/aac': 'aac',
+  'audio/flac': 'flac'
+};
+
+// Give up on reading an audio file's length after this long
+const DURATION_TIMEOUT_MS = 10000;
+
+export class SceneAudioService {
+  /**
+   * Store an audio file and describe it for scene.slideshow.audio
+   */
+  static async saveAudio(file: File): Promise<SceneAudio> {
+    const mediaType = file.type || 'audio/mpeg';
+    const extension = this.getExtension(mediaType, file.name);
+    if (!extension) {
+      throw new Error(`"${file.name}" is not a supported audio file`);
+    }
+    if (!await FileSystemService.isConfigured()) {
+      throw new Error('Choose a storage folder before adding audio');
+    }
+
+    const duration = await this.readDuration(file);
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    const hash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    const path = `${AUDIO_DIR}/${hash}.${extension}`;
+
+    const backend = FileSystemService.getBackend();
+    if (!await backend.exists(path)) {
+      await backend.writeBinary(path, bytes);
+    }
+    return { path, fileName: file.name, mediaType, duration };
+  }
+
+  /**
+   * Bytes of a scene's audio file, or null if it is missing
+   */
+  static async loadAudio(audio: SceneAudio): Promise<Uint8Array | null> {
+    try {
+      return await FileSystemService.getBackend().readBinary(audio.path);
+    } catch (error) {
+      console.error(`Failed to load audio ${audio.path}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * File extension for an audio file, from its media type or file name;
+   * null when it isn't a format browsers can play
+   */
+  static getExtension(mediaType: string, fileName = ''): string | null {
+    const fromType = FILE_EXTENSIONS[mediaType.split(';')[0].trim().toLowerCase()];
+    if (fromType) return fromType;
+    const fromName = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+    return fromName && Object.values(FILE_EXTENSIONS).includes(fromName) ? fromName : null;
+  }
+
+  /**
+   * Length of an audio file in seconds, read by the browser's media player
+   */
+  static readDuration(file: Blob): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const url = URL.createObjectURL(file);
+      const audio = new Audio();
+      const finish = (error?: Error) => {
+        clearTimeout(timer);
+        URL.revokeObjectURL(url);
+        if (error) reject(error);
+        else resolve(audio.duration);
+      };
+      const timer = setTimeout(() => finish(new Error('Timed out reading the audio length')), DURATION_TIMEOUT_MS);
+      audio.preload = 'metadata';
+      audio.onloadedmetadata = () => Number.isFinite(audio.duration)
+        ? finish()
+        : finish(new Error('Could not read the audio length'));
+      audio.onerror = () => finish(new Error('Could not read the audio file'));
+      audio.src = url;
+    });
+  }
+}
@@ -9,6 +9,10 @@
  * - Returning final composited images
  * 
  * Used by both SceneEditor (single scene) and StoriesPanel (batch generation)
+ *
+ * Every generated image comes with an ImageProvenance record (final prompt,
+ * resolved strategy, aspect ratio, reference images, layout, style snapshot)
+ * so it can be reproduced later with reproduceSceneImage.
  */
 
 import type { Book } from '../models/Book';
@@ -18,7 +22,11 @@ import type { Character } from '../models/Story';
 import type { SceneLayout } from '../types/Story';
 import type { DiagramStyle, DiagramPanel } from '../types/Story';
 import type { PanelConfig } from '../types/Book';
-import { ImageGenerationService } from './ImageGenerationService';
+import type { ImageProvenance, ProvenanceReferenceImage, ProvenanceVariationSource } from '../types/ImageProvenance';
+import { CURRENT_VERSION } from '../types/Story';
+import { ImageGenerationService, type ImageVariationRequest } from './ImageGenerationService';
+import { ImageProviderRegistry } from './ImageProviderRegistry';
+import { ImageStorageService } from './ImageStorageService';
 import { CharacterImageService } from './CharacterImageService';
 import { applyAllOverlays } from './OverlayService';
 import { composeSceneWithLayout } from './LayoutCompositionService';
@@ -26,7 +34,10 @@ import { formatBookStyleForPrompt } from '../types/BookStyle';
 import { DEFAULT_PANEL_CONFIG } from '../types/Book';
 import { LegacyPromptBuildingService } from './LegacyPromptBuildingService';
 import { GeminiPromptBuildingService } from './GeminiPromptBuildingService';
-import type { PromptBuildingService as IPromptBuildingService } from './PromptBuildingService';
+import { TemplatePromptBuildingService } from './TemplatePromptBuildingService';
+import { PromptCompactionService } from './PromptCompactionService';
+import type { PromptBuildingService as IPromptBuildingService, PromptBudgetReport } from './PromptBuildingService';
+import type { PromptStrategyOption } from '../types/PromptTemplate';
 
 interface SceneImageGenerationOptions {
   scene: Scene;
@@ -34,7 +45,9 @@ interface SceneImageGenerationOptions {
   book: Book | null;
   model: string;
   aspectRatio?: string;
-  promptStrategy?: 'auto' | 'legacy' | 'gemini'; // Default: 'auto' (detects from model)
+  promptStrategy?: PromptStrategyOption; // Default: 'auto' (detects from model)
+  seed?: number; // Default: a random seed, for models that support seeds
+  variationOf?: ProvenanceVariationSource; // "More like this": vary an image from the scene's history
 }
 
 interface CompleteSceneImageOptions extends SceneImageGenerationOptions {
@@ -45,11 +58,35 @@ interface CharacterWithLevel extends Character {
   isBookLevel?: boolean;
 }
 
+/**
+ * A generated scene image together with the inputs that produced it
+ */
+export interface SceneImageGenerationResult {
+  imageUrl: string;
+  provenance: ImageProvenance;
+  baseImageUrl?: string; // Generated image before overlays; set when overlays were applied
+}
+
+/**
+ * A built scene prompt with the strategy that produced it and, for
+ * strategy-built prompts, how it fits the model's token budget
+ */
+export interface ScenePromptBuildResult {
+  prompt: string;
+  strategy: string;
+  budget?: PromptBudgetReport;
+}
+
+interface LoadedReferenceImage {
+  dataUrl: string;
+  reference: ProvenanceReferenceImage;
+}
+
 export class SceneImageGenerationService {
   /**
    * Select the appropriate prompt building strategy based on model and options
    */
-  private static selectPromptStrategy(model: string, strategyOption?: 'auto' | 'legacy' | 'gemini'): IPromptBuildingService {
+  private static selectPromptStrategy(model: string, strategyOption?: PromptStrategyOption): IPromptBuildingService {
     // If strategy is explicitly specified, use it
     if (strategyOption === 'legacy') {
       return new LegacyPromptBuildingService();
@@ -57,6 +94,9 @@ export class SceneImageGenerationService {
     if (strategyOption === 'gemini') {
       return new GeminiPromptBuildingService();
     }
+    if (strategyOption === 'template') {
+      return new TemplatePromptBuildingService();
+    }
     
     // Auto-detect based on model
     const geminiStrategy = new GeminiPromptBuildingService();
@@ -70,6 +110,13 @@ export class SceneImageGenerationService {
     return new LegacyPromptBuildingService();
   }
 
+  /**
+   * Deep copy for provenance snapshots (layouts and styles are plain JSON)
+   */
+  private static snapshot<T>(value: T | undefined | null): T | undefined {
+    return value ? JSON.parse(JSON.stringify(value)) as T : undefined;
+  }
+
   /**
    * Convert blob URL to base64 data URL
    */
@@ -101,16 +148,42 @@ export class SceneImageGenerationService {
     });
   }
 
+  /**
+   * Seed to send for a model: the requested one, or a fresh random seed so
+   * the image can be reproduced exactly later. Undefined for models that
+   * don't support seeds.
+   */
+  private static resolveSeed(model: string, seed?: number): number | undefined {
+    if (!ImageProviderRegistry.getCapabilities(model)?.supportsSeed) {
+      return undefined;
+    }
+    return seed ?? Math.floor(Math.random() * 2 ** 31);
+  }
+
+  /**
+   * Load the history image a variation is based on
+   */
+  private static async loadVariationSource(variationOf: ProvenanceVariationSource): Promise<ImageVariationRequest> {
+    const imageUrl = await ImageStorageService.getImage(variationOf.imageId);
+    if (!imageUrl) {
+      throw new Error('The image to vary is no longer available');
+    }
+    return {
+      sourceImage: imageUrl.startsWith('data:') ? imageUrl : await this.blobUrlToDataUrl(imageUrl),
+      strength: variationOf.strength
+    };
+  }
+
   /**
    * Load character reference images for a scene
-   * Returns array of base64 data URLs ready for API
+   * Returns base64 data URLs ready for API, with where each one came from
    */
   private static async loadCharacterReferenceImages(
     characters: CharacterWithLevel[],
     storyId: string,
     bookId: string | undefined
-  ): Promise<string[]> {
-    const referenceImages: string[] = [];
+  ): Promise<LoadedReferenceImage[]> {
+    const referenceImages: LoadedReferenceImage[] = [];
     
     for (const character of characters) {
       if (character.selectedImageId && character.imageGallery) {
@@ -128,7 +201,14 @@ export class SceneImageGenerationService {
             if (imageUrl) {
               // Convert blob URL to data URL for API
               const dataUrl = await this.blobUrlToDataUrl(imageUrl);
-              referenceImages.push(dataUrl);
+              referenceImages.push({
+                dataUrl,
+                reference: {
+                  imageId: character.selectedImageId,
+                  characterName: character.name,
+                  storyId: storageStoryId
+                }
+              });
             }
           } catch (err) {
             console.error(`Failed to load reference image for ${character.name}:`, err);
@@ -172,11 +252,29 @@ export class SceneImageGenerationService {
     characters: CharacterWithLevel[],
     elements: Array<{ name: string; description: string }>,
     model?: string,
-    promptStrategy?: 'auto' | 'legacy' | 'gemini'
+    promptStrategy?: PromptStrategyOption
   ): string {
+    return this.buildScenePromptWithStrategy(scene, story, book, characters, elements, model, promptStrategy).prompt;
+  }
+
+  /**
+   * Build a scene prompt and report which strategy actually produced it and
+   * what was compacted to fit the model's prompt budget
+   * PUBLIC so the prompt preview can show the report
+   */
+  public static buildScenePromptWithStrategy(
+    scene: Scene,
+    story: Story,
+    book: Book | null,
+    characters: CharacterWithLevel[],
+    elements: Array<{ name: string; description: string }>,
+    model?: string,
+    promptStrategy?: PromptStrategyOption
+  ): ScenePromptBuildResult {
     // If model is provided, use the new pluggable strategy system
-    if (model) {
-      const strategy = this.selectPromptStrategy(model, promptStrategy);
+    // (book templates don't depend on the model)
+    if (model || promptStrategy === 'template') {
+      const strategy = this.selectPromptStrategy(model ?? '', promptStrategy);
       
       // Check which characters have reference images
       const charactersWithImages = characters.filter(c => 
@@ -184,7 +282,7 @@ export class SceneImageGenerationService {
         c.imageGallery.find(img => img.id === c.selectedImageId)
       );
       
-      const result = strategy.buildScenePrompt({
+      const result = PromptCompactionService.buildScenePrompt(strategy, {
         scene,
         story,
         book,
@@ -192,7 +290,7 @@ export class SceneImageGenerationService {
         elements,
         hasReferenceImages: charactersWithImages.length > 0,
         charactersWithImages
-      });
+      }, PromptCompactionService.getPromptBudget(model));
       
       // Log metadata for debugging
       if (result.metadata) {
@@ -203,12 +301,17 @@ export class SceneImageGenerationService {
         }
       }
       
-      return result.prompt;
+      const strategyName = result.metadata?.strategy
+        ?? (strategy instanceof GeminiPromptBuildingService ? 'gemini' : 'legacy');
+      return { prompt: result.prompt, strategy: strategyName, budget: result.metadata?.budget };
     }
     
     // LEGACY PATH: Keep old logic for backward compatibility
     // This is used when buildScenePrompt is called without a model parameter
-    return this.buildScenePromptLegacy(scene, story, book, characters, elements);
+    return {
+      prompt: this.buildScenePromptLegacy(scene, story, book, characters, elements),
+      strategy: 'legacy'
+    };
   }
 
   /**
@@ -380,20 +483,17 @@ export class SceneImageGenerationService {
    * Does NOT apply overlays - use generateCompleteSceneImage for that
    */
   static async generateSceneImage(options: SceneImageGenerationOptions): Promise<string> {
-    const { scene, story, book, model, aspectRatio = '3:4' } = options;
-
-    // Check if we have a custom layout with a forced aspect ratio for the image element
-    // Use LayoutResolver to get the effective layout (scene > story > book)
-    const { LayoutResolver } = await import('./LayoutResolver');
-    // @ts-expect-error: Type mismatch between model Story and type Story (Character interface differences)
-    const resolvedLayout = LayoutResolver.resolveLayout(scene, story, book);
-    
-    let finalAspectRatio = aspectRatio;
-    if (resolvedLayout && resolvedLayout.elements.image && 'aspectRatio' in resolvedLayout.elements.image && resolvedLayout.elements.image.aspectRatio) {
-      finalAspectRatio = resolvedLayout.elements.image.aspectRatio;
-      console.log(`🎨 Using aspect ratio from resolved layout for generation: ${finalAspectRatio}`);
-    }
+    return (await this.generateSceneImageWithProvenance(options)).imageUrl;
+  }
 
+  /**
+   * Characters (book and story level) and elements that appear in a scene
+   */
+  private static getSceneCast(
+    scene: Scene,
+    story: Story,
+    book: Book | null
+  ): { sceneCharacters: CharacterWithLevel[]; sceneElements: Array<{ name: string; description: string }> } {
     // Get character and element names from scene (support both new and legacy formats)
     // @ts-expect-error: Handling legacy fields
     const characterNames = scene.characters || scene.characterIds || [];
@@ -411,6 +511,44 @@ export class SceneImageGenerationService {
     
     // Get elements for this scene
     const sceneElements = story.elements.filter(elem => elementNames.includes(elem.name));
+
+    return { sceneCharacters, sceneElements };
+  }
+
+  /**
+   * Build the prompt generateSceneImage would send right now for a scene
+   * (same cast lookup and strategy selection), e.g. to compare against a past image
+   */
+  static buildCurrentScenePrompt(
+    scene: Scene,
+    story: Story,
+    book: Book | null,
+    model?: string,
+    promptStrategy?: PromptStrategyOption
+  ): string {
+    const { sceneCharacters, sceneElements } = this.getSceneCast(scene, story, book);
+    return this.buildScenePrompt(scene, story, book, sceneCharacters, sceneElements, model, promptStrategy);
+  }
+
+  /**
+   * Generate base image for a scene and record how it was made
+   */
+  static async generateSceneImageWithProvenance(options: SceneImageGenerationOptions): Promise<SceneImageGenerationResult> {
+    const { scene, story, book, model, aspectRatio = '3:4' } = options;
+
+    // Check if we have a custom layout with a forced aspect ratio for the image element
+    // Use LayoutResolver to get the effective layout (scene > story > book)
+    const { LayoutResolver } = await import('./LayoutResolver');
+    // @ts-expect-error: Type mismatch between model Story and type Story (Character interface differences)
+    const resolvedLayout = LayoutResolver.resolveLayout(scene, story, book);
+    
+    let finalAspectRatio = aspectRatio;
+    if (resolvedLayout && resolvedLayout.elements.image && 'aspectRatio' in resolvedLayout.elements.image && resolvedLayout.elements.image.aspectRatio) {
+      finalAspectRatio = resolvedLayout.elements.image.aspectRatio;
+      console.log(`🎨 Using aspect ratio from resolved layout for generation: ${finalAspectRatio}`);
+    }
+
+    const { sceneCharacters, sceneElements } = this.getSceneCast(scene, story, book);
     
     // Load character reference images
     const referenceImages = await this.loadCharacterReferenceImages(
@@ -420,7 +558,7 @@ export class SceneImageGenerationService {
     );
     
     // Build prompt using pluggable strategy
-    const prompt = this.buildScenePrompt(
+    const { prompt, strategy } = this.buildScenePromptWithStrategy(
       scene,
       story,
       book,
@@ -429,6 +567,9 @@ export class SceneImageGenerationService {
       model, // Pass model for strategy selection
       options.promptStrategy // Pass user's strategy choice
     );
+
+    const seed = this.resolveSeed(model, options.seed);
+    const variation = options.variationOf ? await this.loadVariationSource(options.variationOf) : undefined;
     
     // Generate image
     // Note: aspectRatio in layout.elements.image.aspectRatio is now defined in Story.ts
@@ -436,14 +577,34 @@ export class SceneImageGenerationService {
       prompt,
       aspectRatio: finalAspectRatio, // Use the possibly overridden aspect ratio
       model,
-      referenceImages: referenceImages.length > 0 ? referenceImages : undefined
+      referenceImages: referenceImages.length > 0 ? referenceImages.map(r => r.dataUrl) : undefined,
+      seed,
+      variation,
+      usageContext: { bookId: book?.id, storyId: story.id, sceneId: scene.id, purpose: 'scene' }
     });
     
     if (!result.success || !result.imageUrl) {
       throw new Error(result.error || 'Failed to generate image');
     }
     
-    return result.imageUrl;
+    return {
+      imageUrl: result.imageUrl,
+      provenance: {
+        prompt,
+        model,
+        promptStrategy: strategy,
+        requestedPromptStrategy: options.promptStrategy,
+        aspectRatio: finalAspectRatio,
+        referenceImages: referenceImages.map(r => r.reference),
+        seed,
+        variationOf: this.snapshot(options.variationOf),
+        characters: sceneCharacters.map(char => char.name),
+        elements: sceneElements.map(elem => elem.name),
+        layout: this.snapshot(resolvedLayout),
+        bookStyle: this.snapshot(book?.style),
+        appVersion: CURRENT_VERSION
+      }
+    };
   }
 
   /**
@@ -459,24 +620,144 @@ export class SceneImageGenerationService {
    * 4. Return final composited image
    */
   static async generateCompleteSceneImage(options: CompleteSceneImageOptions): Promise<string> {
+    return (await this.generateCompleteSceneImageWithProvenance(options)).imageUrl;
+  }
+
+  /**
+   * Generate complete scene image (see generateCompleteSceneImage) and record
+   * the inputs, including overlay content, needed to reproduce it
+   */
+  static async generateCompleteSceneImageWithProvenance(options: CompleteSceneImageOptions): Promise<SceneImageGenerationResult> {
     const { scene, story, book, model, aspectRatio = '3:4', applyOverlays = true } = options;
     
     // Step 1: Generate base image
     console.log(`🎨 Generating base image for scene: "${scene.title}"`);
-    const baseImageUrl = await this.generateSceneImage({
+    const { imageUrl: baseImageUrl, provenance } = await this.generateSceneImageWithProvenance({
       scene,
       story,
       book,
       model,
-      aspectRatio
+      aspectRatio,
+      promptStrategy: options.promptStrategy,
+      seed: options.seed,
+      variationOf: options.variationOf
     });
     
     // If overlays not requested, return base image
     if (!applyOverlays) {
-      return baseImageUrl;
+      return { imageUrl: baseImageUrl, provenance };
     }
+
+    provenance.overlays = {
+      textPanel: scene.textPanel,
+      diagramPanel: this.snapshot(scene.diagramPanel),
+      diagramStyle: this.snapshot(this.getDiagramStyle(scene, story))
+    };
     
-    // Step 2: Check for overlays
+    const imageUrl = await this.applySceneOverlays(baseImageUrl, scene, story, book, aspectRatio);
+    return { imageUrl, provenance, baseImageUrl: imageUrl !== baseImageUrl ? baseImageUrl : undefined };
+  }
+
+  /**
+   * Re-run generation with exactly the inputs recorded in an image's provenance:
+   * same prompt, model, aspect ratio, seed and reference images (including the
+   * source image of a variation), and the same overlay content, layout and
+   * book style for compositing.
+   *
+   * @param provenance Provenance of the image to reproduce
+   * @param context Current scene/story/book (for usage tracking and overlay fallbacks)
+   * @param sourceImageId ID of the image being reproduced
+   */
+  static async reproduceSceneImage(
+    provenance: ImageProvenance,
+    context: { scene: Scene; story: Story; book: Book | null },
+    sourceImageId?: string
+  ): Promise<SceneImageGenerationResult> {
+    const { scene, story, book } = context;
+
+    // Load the exact reference images that were used
+    const referenceImages: string[] = [];
+    for (const reference of provenance.referenceImages) {
+      const imageUrl = await CharacterImageService.loadCharacterImage(
+        reference.storyId,
+        reference.characterName,
+        reference.imageId
+      );
+      if (!imageUrl) {
+        throw new Error(`Reference image for ${reference.characterName} is no longer available`);
+      }
+      referenceImages.push(await this.blobUrlToDataUrl(imageUrl));
+    }
+    const variation = provenance.variationOf ? await this.loadVariationSource(provenance.variationOf) : undefined;
+
+    console.log(`🔁 Reproducing scene image for "${scene.title}" with ${provenance.model}`);
+    const result = await ImageGenerationService.generateImage({
+      prompt: provenance.prompt,
+      model: provenance.model,
+      aspectRatio: provenance.aspectRatio,
+      referenceImages: referenceImages.length > 0 ? referenceImages : undefined,
+      seed: provenance.seed,
+      variation,
+      usageContext: { bookId: book?.id, storyId: story.id, sceneId: scene.id, purpose: 'reproduce' }
+    });
+
+    if (!result.success || !result.imageUrl) {
+      throw new Error(result.error || 'Failed to reproduce image');
+    }
+
+    const reproducedProvenance: ImageProvenance = {
+      ...this.snapshot(provenance)!,
+      appVersion: CURRENT_VERSION,
+      reproducedFrom: sourceImageId
+    };
+
+    if (!provenance.overlays) {
+      return { imageUrl: result.imageUrl, provenance: reproducedProvenance };
+    }
+
+    // Composite with the recorded overlay content, layout and style, not the current ones
+    const frozenScene = {
+      ...scene,
+      textPanel: provenance.overlays.textPanel,
+      diagramPanel: provenance.overlays.diagramPanel,
+      layout: provenance.layout
+    } as Scene;
+    const frozenStory = {
+      ...story,
+      diagramStyle: provenance.overlays.diagramStyle,
+      layout: undefined
+    } as Story;
+    const frozenBook = book
+      ? { ...book, style: provenance.bookStyle ?? book.style, defaultLayout: undefined } as Book
+      : null;
+
+    const imageUrl = await this.applySceneOverlays(
+      result.imageUrl,
+      frozenScene,
+      frozenStory,
+      frozenBook,
+      provenance.aspectRatio
+    );
+    return {
+      imageUrl,
+      provenance: reproducedProvenance,
+      baseImageUrl: imageUrl !== result.imageUrl ? result.imageUrl : undefined
+    };
+  }
+
+  /**
+   * Apply text/diagram overlays to a base image (custom layout if one resolves,
+   * default overlay positions otherwise). Returns the base image if there is
+   * nothing to overlay or compositing fails.
+   */
+  private static async applySceneOverlays(
+    baseImageUrl: string,
+    scene: Scene,
+    story: Story,
+    book: Book | null,
+    aspectRatio: string
+  ): Promise<string> {
+    // Check for overlays
     const hasTextPanel = scene.textPanel && scene.textPanel.trim();
     const hasDiagramPanel = scene.diagramPanel && scene.diagramPanel.content && scene.diagramPanel.content.trim();
     
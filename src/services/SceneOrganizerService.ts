@@ -0,0 +1,221 @@
+/**
+ * SceneOrganizerService - Scene order, chapters, and moving or copying
+ * scenes between stories and books
+ *
+ * Changes within a story go through the Story model (moveScene and the
+ * chapter methods), which keeps story.scenes in reading order. Every change
+ * is saved through StorageService, so it shows up in undo history.
+ *
+ * Scenes refer to characters and elements by name, so a scene moved or
+ * copied to another story brings along the definitions the target story
+ * (or its book) lacks. Character images stay with the original character.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Book } from '../models/Book';
+import { Scene, type GeneratedImage } from '../models/Scene';
+import type { Story } from '../models/Story';
+import type { Chapter } from '../types/Story';
+import type {
+  SceneTransferRequest,
+  SceneTransferResult,
+  StoryLocation
+} from '../types/SceneOrganizer';
+import { StorageService } from './StorageService';
+import { ImageStoreService } from './ImageStoreService';
+
+export class SceneOrganizerService {
+  // ========================================
+  // Within a story
+  // ========================================
+
+  /**
+   * Move a scene within its story
+   *
+   * @param index Position among the target chapter's scenes
+   * @param chapterId Target chapter, null for no chapter; defaults to the scene's own
+   */
+  static async moveScene(
+    location: StoryLocation,
+    sceneId: string,
+    index: number,
+    chapterId?: string | null
+  ): Promise<void> {
+    await this.updateStory(location, story => story.moveScene(sceneId, index, chapterId));
+  }
+
+  static async addChapter(location: StoryLocation, title: string): Promise<Chapter> {
+    return this.updateStory(location, story => story.addChapter(title));
+  }
+
+  static async updateChapter(
+    location: StoryLocation,
+    chapterId: string,
+    updates: Partial<Omit<Chapter, 'id'>>
+  ): Promise<void> {
+    await this.updateStory(location, story => story.updateChapter(chapterId, updates));
+  }
+
+  static async moveChapter(location: StoryLocation, chapterId: string, index: number): Promise<void> {
+    await this.updateStory(location, story => story.moveChapter(chapterId, index));
+  }
+
+  /**
+   * Delete a chapter, keeping its scenes (see Story.deleteChapter)
+   */
+  static async deleteChapter(location: StoryLocation, chapterId: string): Promise<boolean> {
+    return this.updateStory(location, story => story.deleteChapter(chapterId));
+  }
+
+  // ========================================
+  // Between stories and books
+  // ========================================
+
+  /**
+   * Move or copy a scene to a position in any story of any book.
+   * Copying within a story works like duplicating the scene.
+   */
+  static async transferScene(request: SceneTransferRequest): Promise<SceneTransferResult> {
+    const { from, to, sceneId, mode } = request;
+    const { book: sourceBook, story: source } = await this.loadStory(from);
+    const { book: targetBook, story: target } = to.bookId === from.bookId
+      ? { book: sourceBook, story: this.findStory(sourceBook, to.storyId) }
+      : await this.loadStory(to);
+
+    const original = source.scenes.find(scene => scene.id === sceneId);
+    if (!original) {
+      throw new Error(`Scene with ID ${sceneId} not found`);
+    }
+
+    const result: SceneTransferResult = {
+      sceneId,
+      addedCharacters: [],
+      addedElements: [],
+      skippedImages: 0
+    };
+
+    let scene = original;
+    if (mode === 'copy') {
+      scene = await this.copyScene(original, source === target);
+      result.sceneId = scene.id;
+      result.skippedImages = (original.imageHistory?.length ?? 0) - (scene.imageHistory?.length ?? 0);
+    } else {
+      source.deleteScene(sceneId);
+    }
+
+    if (source !== target) {
+      this.bringReferences(scene, { book: sourceBook, story: source }, { book: targetBook, story: target }, result);
+    }
+    target.insertScene(scene, to.chapterId ?? null, to.index);
+
+    // Target first: a failed save can't lose a moved scene
+    await StorageService.saveBook(targetBook);
+    if (sourceBook !== targetBook && mode === 'move') {
+      await StorageService.saveBook(sourceBook);
+    }
+
+    console.log(`📑 ${mode === 'move' ? 'Moved' : 'Copied'} scene "${scene.title}" to story "${target.title}"`);
+    return result;
+  }
+
+  /**
+   * A copy of a scene with new IDs. Its images are stored again under new
+   * IDs (sharing the same blobs); images that aren't stored are left out.
+   */
+  private static async copyScene(scene: Scene, sameStory: boolean): Promise<Scene> {
+    const copyId = uuidv4();
+    const imageHistory: GeneratedImage[] = [];
+    for (const image of scene.imageHistory ?? []) {
+      const imageId = uuidv4();
+      if (await this.copyImage(image.id, imageId, copyId)) {
+        let baseImageId: string | undefined;
+        if (image.baseImageId) {
+          baseImageId = uuidv4();
+          if (!await this.copyImage(image.baseImageId, baseImageId, copyId)) baseImageId = undefined;
+        }
+        imageHistory.push({ ...image, id: imageId, baseImageId });
+      }
+    }
+
+    return new Scene({
+      ...scene,
+      id: copyId,
+      title: sameStory ? `${scene.title} (Copy)` : scene.title,
+      avoid: scene.avoid ? [...scene.avoid] : undefined,
+      slideshow: scene.slideshow ? { ...scene.slideshow } : undefined,
+      characters: [...scene.characters],
+      elements: [...scene.elements],
+      imageHistory,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  }
+
+  private static async copyImage(imageId: string, newImageId: string, sceneId: string): Promise<boolean> {
+    try {
+      if (!await ImageStoreService.hasImage(imageId) && !await ImageStoreService.adoptLegacyImage(imageId)) {
+        return false;
+      }
+      return await ImageStoreService.copyImage(imageId, newImageId, { sceneId });
+    } catch (error) {
+      console.warn(`Could not copy image ${imageId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Add the characters and elements a scene uses to the target story when
+   * neither it nor its book has them
+   */
+  private static bringReferences(
+    scene: Scene,
+    source: { book: Book; story: Story },
+    target: { book: Book; story: Story },
+    result: SceneTransferResult
+  ): void {
+    for (const name of scene.characters) {
+      if (target.story.findCharacterByName(name) || target.book.findCharacterByName(name)) continue;
+      const character = source.story.findCharacterByName(name) ?? source.book.findCharacterByName(name);
+      if (character) {
+        target.story.addCharacter({ name: character.name, description: character.description });
+        result.addedCharacters.push(character.name);
+      }
+    }
+
+    for (const name of scene.elements) {
+      if (target.story.findElementByName(name)) continue;
+      const element = source.story.findElementByName(name);
+      if (element) {
+        target.story.addElement({ ...element });
+        result.addedElements.push(element.name);
+      }
+    }
+  }
+
+  // ========================================
+  // Helpers
+  // ========================================
+
+  private static async updateStory<T>(location: StoryLocation, change: (story: Story) => T): Promise<T> {
+    const { book, story } = await this.loadStory(location);
+    const result = change(story);
+    await StorageService.saveBook(book);
+    return result;
+  }
+
+  private static async loadStory(location: StoryLocation): Promise<{ book: Book; story: Story }> {
+    const book = await StorageService.getBook(location.bookId);
+    if (!book) {
+      throw new Error(`Book with ID ${location.bookId} not found`);
+    }
+    return { book, story: this.findStory(book, location.storyId) };
+  }
+
+  private static findStory(book: Book, storyId: string): Story {
+    const story = book.stories.find(s => s.id === storyId);
+    if (!story) {
+      throw new Error(`Story with ID ${storyId} not found`);
+    }
+    return story;
+  }
+}
@@ -1,10 +1,25 @@
 import { FileSystemService } from './FileSystemService';
+import type { UsageBudget } from '../types/UsageLedger';
+import type { ImageRetentionPolicy } from '../types/ImageRetention';
+
+export const DEFAULT_IMAGE_RETENTION: ImageRetentionPolicy = {
+  keepLastPerScene: 3,
+  keepStarred: true,
+  keepExported: true,
+  includeCharacterGalleries: false
+};
 
 export interface AppSettings {
   openRouterApiKey?: string;
   imageGenerationModel?: string;
   textLLMModel?: string;
   autoSaveImages?: boolean;
+  generationConcurrency?: number; // Parallel jobs in the generation queue
+  generationQueuePaused?: boolean; // Generation queue paused (for every book)
+  usageBudget?: UsageBudget; // Spending cap checked before batch generation
+  snapshotIntervalMinutes?: number; // Automatic book snapshots (0 = off)
+  imageRetention?: ImageRetentionPolicy; // What image cleanup keeps
+  imageStorageQuotaMB?: number; // Image disk usage warning threshold
 }
 
 export class SettingsService {
@@ -94,5 +109,78 @@ export class SettingsService {
     settings.autoSaveImages = enabled;
     await this.saveSettings(settings);
   }
-}
 
+  static async getGenerationConcurrency(): Promise<number> {
+    const settings = await this.getSettings();
+    return settings.generationConcurrency ?? 1; // Default: one at a time to avoid rate limits
+  }
+
+  static async setGenerationConcurrency(concurrency: number): Promise<void> {
+    const settings = await this.getSettings();
+    settings.generationConcurrency = concurrency;
+    await this.saveSettings(settings);
+  }
+
+  static async getGenerationQueuePaused(): Promise<boolean> {
+    const settings = await this.getSettings();
+    return settings.generationQueuePaused ?? false;
+  }
+
+  static async setGenerationQueuePaused(paused: boolean): Promise<void> {
+    const settings = await this.getSettings();
+    settings.generationQueuePaused = paused;
+    await this.saveSettings(settings);
+  }
+
+  static async getUsageBudget(): Promise<UsageBudget | undefined> {
+    const settings = await this.getSettings();
+    return settings.usageBudget; // Default: no cap
+  }
+
+  static async setUsageBudget(budget: UsageBudget | undefined): Promise<void> {
+    const settings = await this.getSettings();
+    if (budget) {
+      settings.usageBudget = budget;
+    } else {
+      delete settings.usageBudget;
+    }
+    await this.saveSettings(settings);
+  }
+
+  static async getSnapshotIntervalMinutes(): Promise<number> {
+    const settings = await this.getSettings();
+    return settings.snapshotIntervalMinutes ?? 15; // Default: every 15 minutes
+  }
+
+  static async setSnapshotIntervalMinutes(minutes: number): Promise<void> {
+    const settings = await this.getSettings();
+    settings.snapshotIntervalMinutes = minutes;
+    await this.saveSettings(settings);
+  }
+
+  static async getImageRetentionPolicy(): Promise<ImageRetentionPolicy> {
+    const settings = await this.getSettings();
+    return { ...DEFAULT_IMAGE_RETENTION, ...settings.imageRetention };
+  }
+
+  static async setImageRetentionPolicy(policy: ImageRetentionPolicy): Promise<void> {
+    const settings = await this.getSettings();
+    settings.imageRetention = policy;
+    await this.saveSettings(settings);
+  }
+
+  static async getImageStorageQuotaMB(): Promise<number | undefined> {
+    const settings = await this.getSettings();
+    return settings.imageStorageQuotaMB; // Default: no quota
+  }
+
+  static async setImageStorageQuotaMB(quotaMB: number | undefined): Promise<void> {
+    const settings = await this.getSettings();
+    if (quotaMB) {
+      settings.imageStorageQuotaMB = quotaMB;
+    } else {
+      delete settings.imageStorageQuotaMB;
+    }
+    await this.saveSettings(settings);
+  }
+}
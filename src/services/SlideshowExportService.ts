@@ -0,0 +1,595 @@
+/**
+ * SlideshowExportService - Story videos
+ *
+ * Turns a story into a slideshow video: the most recent (composed) image of
+ * each scene in reading order, on screen for the scene's duration with a
+ * slow Ken Burns pan or zoom, crossfading into the next scene. The text
+ * panel can be shown as a caption, and each scene can bring an audio track
+ * that starts with it (see SceneAudioService).
+ *
+ * The timeline is planned first (buildTimeline); frames are then drawn on a
+ * canvas for any point in time (drawFrame), either
+ * - recorded in real time with MediaRecorder into a WebM file, with the
+ *   audio mixed in through Web Audio, or
+ * - rendered frame by frame into numbered PNGs (Electron), with the audio
+ *   files and a timeline.json that includes an ffmpeg command to join them.
+ */
+
+import type { Scene } from '../models/Scene';
+import type { Story } from '../models/Story';
+import type {
+  KenBurnsMotion,
+  SceneSlideshow,
+  SlideshowExportProgress,
+  SlideshowExportResult,
+  SlideshowIssue,
+  SlideshowSettings,
+  SlideshowTimeline,
+  SlideshowTimelineEntry
+} from '../types/Slideshow';
+import {
+  AUDIO_PADDING,
+  DEFAULT_SCENE_DURATION,
+  MIN_SCENE_DURATION
+} from '../types/Slideshow';
+import type { StorageBackend } from './StorageBackend';
+import { StorageService } from './StorageService';
+import { SlugService } from './SlugService';
+import { ExportImageService } from './ExportImageService';
+import { ExportRecordService } from './ExportRecordService';
+import { SceneAudioService } from './SceneAudioService';
+
+// Motions 'auto' cycles through, so consecutive scenes move differently
+const AUTO_MOTIONS: Array<Exclude<KenBurnsMotion, 'auto' | 'none'>> = ['zoom-in', 'pan-right', 'zoom-out', 'pan-left'];
+
+// How far Ken Burns zooms in (1.15 = 15%)
+const KEN_BURNS_ZOOM = 1.15;
+
+const WEBM_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+
+// Caption text height and most lines shown, relative to the video height
+const CAPTION_FONT_SIZE = 0.04;
+const CAPTION_MAX_LINES = 4;
+
+export interface SlideshowScope {
+  bookId: string;
+  storyId: string;
+}
+
+export interface SlideshowExportOptions {
+  onProgress?: (progress: SlideshowExportProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * A scene image ready to draw; null draws a title card instead
+ */
+type SlideImage = CanvasImageSource & { width: number; height: number };
+
+/**
+ * A scene visible at some point in time
+ */
+export interface FrameLayer {
+  entry: SlideshowTimelineEntry;
+  /** 0-1; below 1 while fading in over the previous scene */
+  opacity: number;
+  /** 0-1 through the scene, for the camera motion */
+  progress: number;
+}
+
+export class SlideshowExportService {
+  // ========================================
+  // Timeline
+  // ========================================
+
+  /**
+   * Plan a story's video: when each scene starts, how long it stays on
+   * screen and how its camera moves
+   *
+   * @param timings Unsaved timing edits by scene ID, used instead of the scenes' own
+   */
+  static buildTimeline(
+    story: Story,
+    settings: SlideshowSettings,
+    timings?: Record<string, SceneSlideshow | undefined>
+  ): SlideshowTimeline {
+    const timingOf = (scene: Scene) => (timings && scene.id in timings ? timings[scene.id] : scene.slideshow);
+    const durations = story.scenes.map(scene => this.getSceneDuration(timingOf(scene), settings));
+    const crossfade = durations.length > 1
+      ? Math.max(0, Math.min(settings.crossfade, ...durations.map(duration => duration / 2)))
+      : 0;
+
+    let start = 0;
+    const entries = story.scenes.map((scene, index): SlideshowTimelineEntry => {
+      const entry: SlideshowTimelineEntry = {
+        sceneId: scene.id,
+        title: scene.title,
+        start,
+        duration: durations[index],
+        motion: this.resolveMotion(timingOf(scene)?.motion ?? 'auto', index, settings.kenBurns),
+        caption: settings.captions ? scene.getPanelText() : undefined,
+        audio: settings.audio ? timingOf(scene)?.audio : undefined
+      };
+      start += durations[index] - crossfade;
+      return entry;
+    });
+
+    const last = entries[entries.length - 1];
+    return { entries, crossfade, duration: last ? last.start + last.duration : 0 };
+  }
+
+  /**
+   * Seconds a scene is on screen: its own duration, else the length of its
+   * audio plus a pause, else the default
+   */
+  static getSceneDuration(timing: SceneSlideshow | undefined, settings: Pick<SlideshowSettings, 'audio'>): number {
+    if (timing?.duration !== undefined) {
+      return Math.max(MIN_SCENE_DURATION, timing.duration);
+    }
+    if (settings.audio && timing?.audio) {
+      return Math.max(MIN_SCENE_DURATION, timing.audio.duration + AUDIO_PADDING);
+    }
+    return DEFAULT_SCENE_DURATION;
+  }
+
+  /**
+   * Problems worth knowing before recording: missing images and audio that
+   * is cut off
+   */
+  static checkTimeline(story: Story, timeline: SlideshowTimeline): SlideshowIssue[] {
+    const issues: SlideshowIssue[] = [];
+    for (const entry of timeline.entries) {
+      const scene = story.scenes.find(s => s.id === entry.sceneId)!;
+      if (!scene.imageHistory?.length) {
+        issues.push({ severity: 'warning', message: `Scene "${scene.title}" has no image; its title is shown instead`, sceneId: scene.id });
+      }
+      if (entry.audio && entry.audio.duration > entry.duration + 0.05) {
+        issues.push({
+          severity: 'warning',
+          message: `The audio of scene "${scene.title}" (${entry.audio.duration.toFixed(1)} s) is longer than the scene (${entry.duration.toFixed(1)} s) and will be cut off`,
+          sceneId: scene.id
+        });
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Save the slideshow timing of a story's scenes; scenes missing from
+   * timings keep theirs, undefined clears it
+   */
+  static async saveSceneTimings(scope: SlideshowScope, timings: Record<string, SceneSlideshow | undefined>): Promise<void> {
+    const { book, story } = await this.loadScope(scope);
+    for (const scene of story.scenes) {
+      if (!(scene.id in timings)) continue;
+      const timing = timings[scene.id];
+      const empty = !timing || (timing.duration === undefined && (timing.motion ?? 'auto') === 'auto' && !timing.audio);
+      scene.slideshow = empty ? undefined : { ...timing };
+    }
+    await StorageService.saveBook(book);
+  }
+
+  // ========================================
+  // Frames
+  // ========================================
+
+  /**
+   * Scenes visible at a time, bottom first. A scene fades in over the one
+   * before it during the crossfade.
+   */
+  static getFrameLayers(timeline: SlideshowTimeline, time: number): FrameLayer[] {
+    const layers: FrameLayer[] = [];
+    timeline.entries.forEach((entry, index) => {
+      const local = time - entry.start;
+      const isLast = index === timeline.entries.length - 1;
+      if (local < 0 || local > entry.duration || (local === entry.duration && !isLast)) return;
+      const opacity = index > 0 && timeline.crossfade > 0 ? Math.min(1, local / timeline.crossfade) : 1;
+      layers.push({ entry, opacity, progress: Math.min(1, local / entry.duration) });
+    });
+    // Hidden under a fully faded-in scene
+    const top = layers.map(layer => layer.opacity).lastIndexOf(1);
+    return top > 0 ? layers.slice(top) : layers;
+  }
+
+  /**
+   * Zoom (1 = image covers the frame) and horizontal pan (-1 = left edge,
+   * 1 = right edge of the spare width) of a camera motion at a point of
+   * the scene
+   */
+  static getKenBurnsTransform(motion: Exclude<KenBurnsMotion, 'auto'>, progress: number): { scale: number; panX: number } {
+    const p = Math.max(0, Math.min(1, progress));
+    switch (motion) {
+      case 'zoom-in':
+        return { scale: 1 + (KEN_BURNS_ZOOM - 1) * p, panX: 0 };
+      case 'zoom-out':
+        return { scale: KEN_BURNS_ZOOM - (KEN_BURNS_ZOOM - 1) * p, panX: 0 };
+      case 'pan-right':
+        return { scale: KEN_BURNS_ZOOM, panX: -1 + 2 * p };
+      case 'pan-left':
+        return { scale: KEN_BURNS_ZOOM, panX: 1 - 2 * p };
+      case 'none':
+        return { scale: 1, panX: 0 };
+    }
+  }
+
+  /**
+   * Draw the video frame at a time
+   */
+  static drawFrame(
+    ctx: CanvasRenderingContext2D,
+    timeline: SlideshowTimeline,
+    time: number,
+    images: Map<string, SlideImage>
+  ): void {
+    const { width, height } = ctx.canvas;
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+
+    for (const layer of this.getFrameLayers(timeline, time)) {
+      ctx.globalAlpha = layer.opacity;
+      const image = images.get(layer.entry.sceneId);
+      if (image) {
+        const { scale, panX } = this.getKenBurnsTransform(layer.entry.motion, layer.progress);
+        const cover = Math.max(width / image.width, height / image.height) * scale;
+        const drawWidth = image.width * cover;
+        const drawHeight = image.height * cover;
+        const x = (width - drawWidth) / 2 - (panX * (drawWidth - width)) / 2;
+        ctx.drawImage(image, x, (height - drawHeight) / 2, drawWidth, drawHeight);
+      } else {
+        this.drawTitleCard(ctx, layer.entry.title);
+      }
+      if (layer.entry.caption) {
+        this.drawCaption(ctx, layer.entry.caption);
+      }
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  // ========================================
+  // Export
+  // ========================================
+
+  /**
+   * Record a story's slideshow as a WebM video. Recording runs in real
+   * time, so it takes as long as the video.
+   */
+  static async exportToWebm(
+    scope: SlideshowScope,
+    settings: SlideshowSettings,
+    options: SlideshowExportOptions = {}
+  ): Promise<SlideshowExportResult> {
+    const mimeType = typeof MediaRecorder === 'undefined'
+      ? undefined
+      : WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      throw new Error('This browser cannot record WebM video');
+    }
+
+    const { story, timeline, issues, images, imageIds } = await this.prepare(scope, settings);
+    const { canvas, ctx } = this.createCanvas(settings);
+    const stream = canvas.captureStream(settings.frameRate);
+
+    // Audio plays through Web Audio into the recorded stream
+    const audioContext = timeline.entries.some(entry => entry.audio) ? new AudioContext() : null;
+    const audioDestination = audioContext?.createMediaStreamDestination();
+    const buffers = new Map<string, AudioBuffer>();
+    if (audioContext && audioDestination) {
+      for (const entry of timeline.entries.filter(e => e.audio)) {
+        const bytes = await SceneAudioService.loadAudio(entry.audio!);
+        try {
+          if (!bytes) throw new Error('Audio file not found');
+          buffers.set(entry.sceneId, await audioContext.decodeAudioData(bytes.slice().buffer));
+        } catch (error) {
+          console.error(`Failed to load audio for scene "${entry.title}":`, error);
+          issues.push({ severity: 'warning', message: `Could not load the audio of scene "${entry.title}"; it is left out`, sceneId: entry.sceneId });
+        }
+      }
+      audioDestination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+    }
+
+    console.log(`🎬 SLIDESHOW EXPORT: "${story.title}" (${timeline.duration.toFixed(1)} s, ${mimeType})`);
+
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    try {
+      this.drawFrame(ctx, timeline, 0, images);
+      recorder.start(1000);
+
+      // Audio clock when there is audio, so picture and sound stay in sync
+      const startedAt = audioContext ? audioContext.currentTime + 0.1 : performance.now() / 1000;
+      const now = () => (audioContext ? audioContext.currentTime : performance.now() / 1000) - startedAt;
+      if (audioContext && audioDestination) {
+        for (const entry of timeline.entries) {
+          const buffer = buffers.get(entry.sceneId);
+          if (!buffer) continue;
+          const source = audioContext.createBufferSource();
+          source.buffer = buffer;
+          source.connect(audioDestination);
+          source.start(startedAt + entry.start, 0, Math.min(buffer.duration, entry.duration));
+        }
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        const tick = () => {
+          if (options.signal?.aborted) {
+            reject(new DOMException('Export cancelled', 'AbortError'));
+            return;
+          }
+          const time = Math.max(0, now());
+          this.drawFrame(ctx, timeline, Math.min(time, timeline.duration), images);
+          options.onProgress?.({ time: Math.min(time, timeline.duration), duration: timeline.duration });
+          if (time >= timeline.duration) resolve();
+          else requestAnimationFrame(tick);
+        };
+        requestAnimationFrame(tick);
+      });
+    } finally {
+      if (recorder.state !== 'inactive') recorder.stop();
+      await stopped;
+      stream.getTracks().forEach(track => track.stop());
+      await audioContext?.close();
+      images.forEach(image => (image as ImageBitmap).close?.());
+    }
+
+    await ExportRecordService.recordExport('webm', imageIds);
+    return { duration: timeline.duration, issues, blob: new Blob(chunks, { type: 'video/webm' }) };
+  }
+
+  /**
+   * Render a story's slideshow as numbered PNG frames into a folder, with
+   * its audio files and a timeline.json for joining them (e.g. with ffmpeg)
+   *
+   * @param backend Where to write; the folder is exports/<book>-<story>-frames.
+   *   Frames, audio and timeline.json from an earlier export there are deleted
+   *   first, so a shorter story doesn't leave stale frames for ffmpeg to pick up.
+   */
+  static async exportFrames(
+    scope: SlideshowScope,
+    settings: SlideshowSettings,
+    backend: StorageBackend,
+    options: SlideshowExportOptions = {}
+  ): Promise<SlideshowExportResult> {
+    const { book, story, timeline, issues, images, imageIds } = await this.prepare(scope, settings);
+    const { canvas, ctx } = this.createCanvas(settings);
+    const folder = `exports/${SlugService.generateSlug(book.title, 'book')}-${SlugService.generateSlug(story.title, 'story')}-frames`;
+    const frameCount = Math.max(1, Math.ceil(timeline.duration * settings.frameRate));
+
+    console.log(`🎬 SLIDESHOW FRAMES: "${story.title}" (${frameCount} frames to ${folder})`);
+
+    await this.clearFramesFolder(backend, folder);
+    try {
+      for (let frame = 0; frame < frameCount; frame++) {
+        if (options.signal?.aborted) {
+          throw new DOMException('Export cancelled', 'AbortError');
+        }
+        const time = frame / settings.frameRate;
+        this.drawFrame(ctx, timeline, time, images);
+        await backend.writeBinary(`${folder}/${this.frameName(frame + 1)}`, await this.canvasToPng(canvas));
+        options.onProgress?.({ time, duration: timeline.duration });
+      }
+    } finally {
+      images.forEach(image => (image as ImageBitmap).close?.());
+    }
+
+    const audioFiles = new Map<string, string>();
+    for (const [index, entry] of timeline.entries.entries()) {
+      if (!entry.audio) continue;
+      const bytes = await SceneAudioService.loadAudio(entry.audio);
+      if (!bytes) {
+        issues.push({ severity: 'warning', message: `Could not load the audio of scene "${entry.title}"; it is left out`, sceneId: entry.sceneId });
+        continue;
+      }
+      const extension = entry.audio.path.split('.').pop() ?? 'audio';
+      const file = `audio/scene-${String(index + 1).padStart(2, '0')}.${extension}`;
+      await backend.writeBinary(`${folder}/${file}`, bytes);
+      audioFiles.set(entry.sceneId, file);
+    }
+
+    await backend.writeText(`${folder}/timeline.json`, JSON.stringify({
+      story: story.title,
+      width: settings.width,
+      height: settings.height,
+      frameRate: settings.frameRate,
+      frameCount,
+      duration: timeline.duration,
+      crossfade: timeline.crossfade,
+      scenes: timeline.entries.map(entry => ({
+        title: entry.title,
+        start: entry.start,
+        duration: entry.duration,
+        motion: entry.motion,
+        caption: entry.caption,
+        audio: audioFiles.get(entry.sceneId)
+      })),
+      ffmpeg: this.ffmpegCommand(timeline, settings.frameRate, audioFiles)
+    }, null, 2));
+
+    options.onProgress?.({ time: timeline.duration, duration: timeline.duration });
+    await ExportRecordService.recordExport('frames', imageIds);
+    return { duration: timeline.duration, issues, path: folder, frameCount };
+  }
+
+  /**
+   * ffmpeg command, run in the frames folder, that joins the frames and
+   * the scenes' audio (each delayed to its scene's start) into an MP4
+   *
+   * @param audioFiles Scene ID → audio file path in the folder
+   */
+  static ffmpegCommand(timeline: SlideshowTimeline, frameRate: number, audioFiles: Map<string, string>): string {
+    const audio = timeline.entries
+      .filter(entry => audioFiles.has(entry.sceneId))
+      .map(entry => ({ file: audioFiles.get(entry.sceneId)!, delay: Math.round(entry.start * 1000), duration: entry.duration }));
+    const inputs = [`-framerate ${frameRate} -i frame-%06d.png`, ...audio.map(a => `-i ${a.file}`)];
+    const output = '-c:v libx264 -pix_fmt yuv420p';
+    if (audio.length === 0) {
+      return `ffmpeg ${inputs.join(' ')} ${output} slideshow.mp4`;
+    }
+
+    const delayed = audio.map((a, index) =>
+      `[${index + 1}:a]atrim=0:${a.duration},adelay=${a.delay}|${a.delay}[a${index + 1}]`
+    );
+    // apad keeps the mix running with silence past the last audio, so -shortest ends on the last frame
+    const mixed = `${audio.map((_, index) => `[a${index + 1}]`).join('')}amix=inputs=${audio.length}:normalize=0,apad[audio]`;
+    return `ffmpeg ${inputs.join(' ')} -filter_complex "${[...delayed, mixed].join(';')}" -map 0:v -map "[audio]" ${output} -c:a aac -shortest slideshow.mp4`;
+  }
+
+  // ========================================
+  // Helpers
+  // ========================================
+
+  /**
+   * Delete what an earlier exportFrames wrote to the folder; other files
+   * (e.g. the slideshow.mp4 ffmpeg made) are left alone
+   */
+  private static async clearFramesFolder(backend: StorageBackend, folder: string): Promise<void> {
+    const { files } = await backend.list(folder);
+    for (const file of files) {
+      if (/^frame-\d+\.png$/.test(file) || file === 'timeline.json') {
+        await backend.delete(`${folder}/${file}`);
+      }
+    }
+    const audio = await backend.list(`${folder}/audio`);
+    for (const file of audio.files) {
+      if (/^scene-\d+\./.test(file)) {
+        await backend.delete(`${folder}/audio/${file}`);
+      }
+    }
+  }
+
+  private static resolveMotion(motion: KenBurnsMotion, index: number, kenBurns: boolean): Exclude<KenBurnsMotion, 'auto'> {
+    if (!kenBurns) return 'none';
+    return motion === 'auto' ? AUTO_MOTIONS[index % AUTO_MOTIONS.length] : motion;
+  }
+
+  /**
+   * Load the story, plan its timeline and decode the scene images
+   */
+  private static async prepare(scope: SlideshowScope, settings: SlideshowSettings) {
+    const { book, story } = await this.loadScope(scope);
+    if (story.scenes.length === 0) {
+      throw new Error('The story has no scenes to export');
+    }
+
+    const timeline = this.buildTimeline(story, settings);
+    const issues = this.checkTimeline(story, timeline);
+    const images = new Map<string, SlideImage>();
+    const imageIds: string[] = [];
+    for (const scene of story.scenes.filter(s => s.imageHistory?.length)) {
+      const image = await ExportImageService.loadSceneImage(scene);
+      try {
+        if (!image) throw new Error('Image not found');
+        images.set(scene.id, await createImageBitmap(new Blob([image.bytes as BlobPart], { type: image.mediaType })));
+        imageIds.push(image.imageId);
+      } catch (error) {
+        console.error(`Failed to load image for scene "${scene.title}":`, error);
+        issues.push({ severity: 'warning', message: `Could not load the image of scene "${scene.title}"; its title is shown instead`, sceneId: scene.id });
+      }
+    }
+    return { book, story, timeline, issues, images, imageIds };
+  }
+
+  private static createCanvas(settings: SlideshowSettings): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+    const canvas = document.createElement('canvas');
+    canvas.width = settings.width;
+    canvas.height = settings.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas 2D context');
+    }
+    return { canvas, ctx };
+  }
+
+  private static drawTitleCard(ctx: CanvasRenderingContext2D, title: string): void {
+    const { width, height } = ctx.canvas;
+    ctx.fillStyle = '#1a1a1a';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `${Math.round(height * 0.07)}px Georgia, serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(title, width / 2, height / 2, width * 0.9);
+  }
+
+  private static drawCaption(ctx: CanvasRenderingContext2D, caption: string): void {
+    const { width, height } = ctx.canvas;
+    const fontSize = Math.round(height * CAPTION_FONT_SIZE);
+    const lineHeight = fontSize * 1.3;
+    const maxWidth = width * 0.86;
+    ctx.font = `${fontSize}px Arial, sans-serif`;
+
+    // Word wrap, keeping the caption's own line breaks
+    const lines: string[] = [];
+    for (const paragraph of caption.split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(candidate).width > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      if (line) lines.push(line);
+    }
+    if (lines.length > CAPTION_MAX_LINES) {
+      lines.length = CAPTION_MAX_LINES;
+      lines[CAPTION_MAX_LINES - 1] += ' …';
+    }
+    if (lines.length === 0) return;
+
+    const padding = fontSize * 0.6;
+    const boxHeight = lines.length * lineHeight + 2 * padding;
+    const boxTop = height - boxHeight - height * 0.05;
+    const alpha = ctx.globalAlpha;
+    ctx.globalAlpha = alpha * 0.65;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect((width - maxWidth) / 2 - padding, boxTop, maxWidth + 2 * padding, boxHeight);
+    ctx.globalAlpha = alpha;
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    lines.forEach((line, index) => {
+      ctx.fillText(line, width / 2, boxTop + padding + lineHeight * (index + 0.5));
+    });
+  }
+
+  private static frameName(frame: number): string {
+    return `frame-${String(frame).padStart(6, '0')}.png`;
+  }
+
+  private static canvasToPng(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error('Failed to encode a frame'));
+          return;
+        }
+        blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+      }, 'image/png');
+    });
+  }
+
+  // ========================================
+  // Loading
+  // ========================================
+
+  private static async loadScope(scope: SlideshowScope) {
+    const book = await StorageService.getBook(scope.bookId);
+    if (!book) {
+      throw new Error(`Book with ID ${scope.bookId} not found`);
+    }
+    const story = book.stories.find(s => s.id === scope.storyId);
+    if (!story) {
+      throw new Error(`Story with ID ${scope.storyId} not found`);
+    }
+    return { book, story };
+  }
+}
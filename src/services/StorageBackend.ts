@@ -0,0 +1,91 @@
+/**
+ * StorageBackend - Interface for pluggable file storage
+ *
+ * Every persistence path (book metadata, directory-format books, images, app
+ * metadata, queue and usage files) reads and writes through a StorageBackend
+ * obtained from FileSystemService.getBackend(), so none of them need to know
+ * whether they run in a browser, in Electron or in a test.
+ *
+ * Paths are always relative to the storage root and use forward slashes
+ * (e.g., "prompter-cache/books/my-book/book.json").
+ *
+ * Implementations:
+ * - BrowserStorageBackend: File System Access API directory handle
+ * - ElectronStorageBackend: Electron IPC (window.electronAPI)
+ * - NodeStorageBackend: Node fs, for scripts and CLI tools
+ * - MemoryStorageBackend: In-memory, for tests
+ */
+
+/**
+ * Entries directly inside a directory (names, not paths)
+ */
+export interface StorageListing {
+  files: string[];
+  directories: string[];
+}
+
+/**
+ * Modification time and size of a file
+ */
+export interface StorageFileInfo {
+  /** Milliseconds since the epoch */
+  modifiedAt: number;
+  size: number;
+}
+
+/**
+ * Interface every storage backend implements
+ *
+ * Conventions:
+ * - Reads return null when the file doesn't exist and throw on other failures
+ * - Writes create missing parent directories and throw on failure
+ * - list() returns an empty listing for a missing directory
+ */
+export interface StorageBackend {
+  /** Stable identifier (e.g., "browser", "electron", "node", "memory") */
+  readonly id: string;
+
+  /** Whether a storage root is available (e.g., a directory was selected) */
+  isConfigured(): Promise<boolean>;
+
+  readText(path: string): Promise<string | null>;
+  writeText(path: string, content: string): Promise<void>;
+
+  readBinary(path: string): Promise<Uint8Array | null>;
+  writeBinary(path: string, data: Uint8Array): Promise<void>;
+
+  list(path: string): Promise<StorageListing>;
+
+  /** True if a file or directory exists at the path */
+  exists(path: string): Promise<boolean>;
+
+  /** Modification time and size of a file; null if it doesn't exist */
+  stat(path: string): Promise<StorageFileInfo | null>;
+
+  /** Delete a file; returns false if it didn't exist */
+  delete(path: string): Promise<boolean>;
+
+  /** Create a directory and any missing parents; no-op if it exists */
+  mkdir(path: string): Promise<void>;
+
+  /**
+   * Report changes to files under a directory as they happen (optional;
+   * callers poll stat() on backends without it). Paths passed to onChange
+   * are storage paths. Resolves to a function that stops watching.
+   */
+  watch?(path: string, onChange: (path: string) => void): Promise<() => void>;
+}
+
+/**
+ * Split a storage path into its non-empty segments
+ */
+export function splitStoragePath(path: string): string[] {
+  return path.split('/').filter(segment => segment.length > 0 && segment !== '.');
+}
+
+/**
+ * Join storage path segments, ignoring empty ones
+ */
+export function joinStoragePath(...segments: string[]): string {
+  return splitStoragePath(segments.join('/')).join('/');
+}
@@ -1,6 +1,7 @@
 import { Book } from '../models/Book';
 import { FileSystemService } from './FileSystemService';
 import { bookCache } from './BookCache';
+import { BookHistoryService } from './BookHistoryService';
 
 /**
  * Version 4.0 storage format
@@ -189,8 +190,12 @@ export class StorageService {
     // Ensure cache is loaded
     await bookCache.loadAll();
     
+    // The previous state becomes an undo entry, but only once the book has
+    // been written - a refused or failed save must not add one
+    const recordSave = BookHistoryService.beginSave(book);
+    
     // Save to cache (which saves to filesystem)
-    await bookCache.set(book);
+    await bookCache.set(book, recordSave);
   }
 
   /**
@@ -209,6 +214,9 @@ export class StorageService {
     // Delete from cache (which deletes from filesystem)
     await bookCache.delete(bookId);
     
+    // Undo history can't outlive the book
+    await BookHistoryService.clear(bookId);
+    
     return true;
   }
 
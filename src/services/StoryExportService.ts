@@ -1,4 +1,5 @@
 import type { Story, StoryElement, Scene } from '../types/Story';
+import { Story as StoryModel } from '../models/Story';
 
 // Local type for legacy Character (ID-based)
 type LegacyCharacter = { id: string; name: string; description: string };
@@ -12,7 +13,12 @@ export interface StoryExchangeFormat {
     title: string;
     backgroundSetup: string;
     description?: string;
+    avoid?: string[];
   };
+  chapters?: Array<{
+    title: string;
+    description?: string;
+  }>;
   characters: Array<{
     name: string;
     description: string;
@@ -26,6 +32,8 @@ export interface StoryExchangeFormat {
     title: string;
     description: string;
     textPanel?: string;
+    avoid?: string[];
+    chapter?: string;      // Chapter title
     characters: string[];  // Character names
     elements: string[];    // Element names
   }>;
@@ -47,13 +55,25 @@ export class StoryExportService {
       elementMap.set(elem.id, elem);
     });
     
+    // Scenes in reading order, with the title of their chapter
+    const scenes = StoryModel.groupScenes(story.chapters, story.scenes).flatMap(section =>
+      section.scenes.map(scene => ({ scene, chapter: section.chapter?.title }))
+    );
+    
     // Convert to exchange format
     return {
       story: {
         title: story.title,
         backgroundSetup: story.backgroundSetup,
-        ...(story.description && { description: story.description })
+        ...(story.description && { description: story.description }),
+        ...(story.avoid?.length && { avoid: [...story.avoid] })
       },
+      ...(story.chapters?.length && {
+        chapters: story.chapters.map(chapter => ({
+          title: chapter.title,
+          ...(chapter.description && { description: chapter.description })
+        }))
+      }),
       characters: story.characters.map(char => ({
         name: char.name,
         description: char.description
@@ -63,10 +83,12 @@ export class StoryExportService {
         description: elem.description,
         ...(elem.category && { category: elem.category })
       })),
-      scenes: story.scenes.map(scene => ({
+      scenes: scenes.map(({ scene, chapter }) => ({
         title: scene.title,
         description: scene.description,
         ...(scene.textPanel && { textPanel: scene.textPanel }),
+        ...(scene.avoid?.length && { avoid: [...scene.avoid] }),
+        ...(chapter && { chapter }),
         characters: scene.characterIds
           .map(id => characterMap.get(id)?.name)
           .filter((name): name is string => name !== undefined),
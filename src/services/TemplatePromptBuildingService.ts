@@ -0,0 +1,164 @@
+/**
+ * TemplatePromptBuildingService - User-defined prompt templates
+ *
+ * Renders the book's own scene/character prompt templates
+ * (Book.promptTemplates, see types/PromptTemplate.ts), falling back to the
+ * default templates when the book doesn't define one. Placeholders such as
+ * {{SceneDescription}} or {{Characters}} are filled from the same data the
+ * built-in strategies use.
+ *
+ * Never auto-selected: only used when the 'template' strategy is chosen.
+ */
+
+import {
+  PromptBuildingService,
+  type ScenePromptOptions,
+  type CharacterPromptOptions,
+  type PromptBuildingResult
+} from './PromptBuildingService';
+import type { Book } from '../models/Book';
+import { formatBookStyleForPrompt } from '../types/BookStyle';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_PLACEHOLDERS,
+  type PromptTemplateKind
+} from '../types/PromptTemplate';
+
+const PLACEHOLDER_PATTERN = /{{\s*(\w+)\s*}}/g;
+
+export class TemplatePromptBuildingService extends PromptBuildingService {
+  /**
+   * Optional template overrides (used by the template editor's live preview
+   * to render a draft before it is saved to the book)
+   */
+  private overrides: Partial<Record<PromptTemplateKind, string>>;
+
+  constructor(overrides: Partial<Record<PromptTemplateKind, string>> = {}) {
+    super();
+    this.overrides = overrides;
+  }
+
+  /**
+   * Build scene prompt from the book's scene template
+   */
+  buildScenePrompt(options: ScenePromptOptions): PromptBuildingResult {
+    const { scene, story, book, characters, elements, hasReferenceImages, charactersWithImages } = options;
+
+    let referenceInstructions = '';
+    if (hasReferenceImages && charactersWithImages && charactersWithImages.length > 0) {
+      referenceInstructions = `Reference images are attached for: ${charactersWithImages.map(c => c.name).join(', ')}.\n`
+        + `Character appearances MUST match the reference images exactly.`;
+    }
+
+    const values: Record<string, string> = {
+      ...this.getStyleValues(book),
+      BackgroundSetup: story.backgroundSetup || '',
+      StoryTitle: story.title || '',
+      SceneTitle: scene.title || '',
+      SceneDescription: scene.description || '',
+      Characters: characters.map(char => `- ${char.name}: ${char.description}`).join('\n'),
+      CharacterNames: characters.map(char => char.name).join(', '),
+      Elements: elements.map(elem => `- ${elem.name}: ${elem.description}`).join('\n'),
+      ReferenceImageInstructions: referenceInstructions,
+      Avoid: this.formatAvoid(this.getSceneAvoidList(options))
+    };
+
+    return this.render('scene', book, values);
+  }
+
+  /**
+   * Build character prompt from the book's character template
+   */
+  buildCharacterPrompt(options: CharacterPromptOptions): PromptBuildingResult {
+    const { character, storyBackgroundSetup, book, hasReferenceImage } = options;
+
+    const values: Record<string, string> = {
+      ...this.getStyleValues(book),
+      BackgroundSetup: storyBackgroundSetup || '',
+      CharacterName: character.name,
+      CharacterDescription: character.description || 'A character',
+      ReferenceImageInstructions: hasReferenceImage
+        ? 'A reference image is attached. Keep the character consistent with it.'
+        : '',
+      Avoid: this.formatAvoid(this.getBookAvoidList(book))
+    };
+
+    return this.render('character', book, values);
+  }
+
+  /**
+   * Get strategy name
+   */
+  getStrategyName(): string {
+    return 'Book Template';
+  }
+
+  /**
+   * Get strategy description
+   */
+  getStrategyDescription(): string {
+    return 'Prompts rendered from the book\'s own scene and character templates.';
+  }
+
+  /**
+   * Templates are an explicit choice - never selected by 'auto'
+   */
+  isSuitableForModel(): boolean {
+    return false;
+  }
+
+  /**
+   * Placeholders in a template that are not available for its kind
+   */
+  static findUnknownPlaceholders(template: string, kind: PromptTemplateKind): string[] {
+    const known = new Set(PROMPT_TEMPLATE_PLACEHOLDERS[kind].map(p => p.name));
+    const unknown = new Set<string>();
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!known.has(match[1])) {
+        unknown.add(match[1]);
+      }
+    }
+    return Array.from(unknown);
+  }
+
+  private formatAvoid(avoid: string[]): string {
+    return avoid.length > 0 ? `Avoid: ${avoid.join(', ')}.` : '';
+  }
+
+  private getTemplate(kind: PromptTemplateKind, book: Book | null): string {
+    return this.overrides[kind] ?? book?.promptTemplates?.[kind] ?? DEFAULT_PROMPT_TEMPLATES[kind];
+  }
+
+  private getStyleValues(book: Book | null): Record<string, string> {
+    const style = book?.style;
+    return {
+      BookStyle: style ? formatBookStyleForPrompt(style) : '',
+      ArtStyle: style?.artStyle || '',
+      ColorPalette: style?.colorPalette || '',
+      VisualTheme: style?.visualTheme || '',
+      CharacterStyle: style?.characterStyle || '',
+      EnvironmentStyle: style?.environmentStyle || ''
+    };
+  }
+
+  private render(kind: PromptTemplateKind, book: Book | null, values: Record<string, string>): PromptBuildingResult {
+    const template = this.getTemplate(kind, book);
+    const unknown = TemplatePromptBuildingService.findUnknownPlaceholders(template, kind);
+
+    // Unknown placeholders are left in place so mistakes are visible in the preview
+    const prompt = template
+      .replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => Object.hasOwn(values, name) ? values[name] : placeholder)
+      // Empty placeholders leave blank runs behind - keep at most one empty line
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    return {
+      prompt,
+      metadata: {
+        strategy: 'template',
+        estimatedTokens: this.estimateTokens(prompt),
+        warnings: unknown.map(name => `Unknown placeholder {{${name}}}`)
+      }
+    };
+  }
+}
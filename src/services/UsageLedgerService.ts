@@ -0,0 +1,389 @@
+/**
+ * UsageLedgerService - Records what generation actually costs
+ *
+ * ImageGenerationService and WizardLLMService record every call (success or
+ * failure) here. Entries are kept per book in
+ * prompter-cache/usage-ledgers/{book-id}.json, so renaming a book keeps its
+ * ledger; calls without a book go to prompter-cache/usage-ledger.json.
+ * Creation wizard entries carry a wizardSessionId and are moved to the book
+ * the wizard creates.
+ *
+ * A ledger that can't be read is never overwritten: recording into it fails,
+ * and budget checks treat the spend as unknown.
+ *
+ * Costs come from the API's usage report when available (OpenRouter usage
+ * accounting), otherwise they are estimated from the image model's published
+ * pricing in ImageProviderRegistry.
+ *
+ * Also provides report summaries and the budget check used before batch
+ * generation (AppSettings.usageBudget).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  BudgetCheckResult,
+  UsageContext,
+  UsageCostSource,
+  UsageEntry,
+  UsageGroupBy,
+  UsageKind,
+  UsageLedgerFile,
+  UsageMetrics,
+  UsageSummaryRow
+} from '../types/UsageLedger';
+import type { GenerationJob } from '../types/GenerationQueue';
+import { FileSystemService } from './FileSystemService';
+import { SettingsService } from './SettingsService';
+import { ImageProviderRegistry } from './ImageProviderRegistry';
+
+const LEDGERS_PATH = 'prompter-cache/usage-ledgers';
+const UNASSIGNED_LEDGER_PATH = 'prompter-cache/usage-ledger.json';
+const UNASSIGNED_KEY = '';
+
+export interface RecordUsageInput {
+  kind: UsageKind;
+  model: string;
+  providerId?: string;
+  success: boolean;
+  error?: string;
+  usage?: UsageMetrics;
+  context?: UsageContext;
+}
+
+export class UsageLedgerService {
+  // Keyed by bookId ('' = unassigned)
+  private static ledgers: Map<string, UsageEntry[]> = new Map();
+  private static loading: Map<string, Promise<UsageEntry[]>> = new Map();
+  private static writeChains: Map<string, Promise<void>> = new Map();
+
+  // ========================================
+  // Recording
+  // ========================================
+
+  /**
+   * Record a single call. Never throws - a broken ledger must not break generation.
+   */
+  static async record(input: RecordUsageInput): Promise<UsageEntry | null> {
+    try {
+      const { cost, costSource } = this.estimateCost(input);
+      const entry: UsageEntry = {
+        ...input.context,
+        id: uuidv4(),
+        timestamp: new Date(),
+        kind: input.kind,
+        model: input.model,
+        providerId: input.providerId,
+        promptTokens: input.usage?.promptTokens,
+        completionTokens: input.usage?.completionTokens,
+        images: input.kind === 'image' && input.success ? 1 : 0,
+        estimatedCost: cost,
+        costSource,
+        success: input.success,
+        error: input.error
+      };
+
+      const key = entry.bookId ?? UNASSIGNED_KEY;
+      const entries = await this.loadLedger(key);
+      entries.push(entry);
+      await this.persist(key);
+      return entry;
+    } catch (error) {
+      console.warn('Failed to record usage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Move a creation wizard run's entries from the unassigned ledger to the
+   * book it created. The book ledger is written before the entries leave the
+   * unassigned one, so a failed write can't lose them. Never throws.
+   *
+   * @returns Number of entries moved
+   */
+  static async assignWizardSession(wizardSessionId: string, bookId: string): Promise<number> {
+    try {
+      const unassigned = await this.loadLedger(UNASSIGNED_KEY);
+      const moving = unassigned.filter(entry => entry.wizardSessionId === wizardSessionId);
+      if (moving.length === 0) return 0;
+
+      const bookEntries = await this.loadLedger(bookId);
+      const movedIds = new Set(moving.map(entry => entry.id));
+      bookEntries.push(...moving.map(entry => ({ ...entry, bookId })));
+      if (!await this.persist(bookId)) {
+        const kept = bookEntries.filter(entry => !movedIds.has(entry.id));
+        bookEntries.splice(0, bookEntries.length, ...kept);
+        return 0;
+      }
+
+      const remaining = unassigned.filter(entry => !movedIds.has(entry.id));
+      unassigned.splice(0, unassigned.length, ...remaining);
+      await this.persist(UNASSIGNED_KEY);
+      return moving.length;
+    } catch (error) {
+      console.warn('Failed to assign wizard usage to book:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Work out the cost of a call: reported by the API, or estimated from the
+   * model's pricing. Failed calls without a reported cost are assumed free.
+   */
+  static estimateCost(input: Pick<RecordUsageInput, 'kind' | 'model' | 'success' | 'usage'>): { cost: number; costSource: UsageCostSource } {
+    if (input.usage?.cost !== undefined) {
+      return { cost: input.usage.cost, costSource: 'reported' };
+    }
+    if (!input.success) {
+      return { cost: 0, costSource: 'estimated' };
+    }
+
+    const pricing = input.kind === 'image' ? ImageProviderRegistry.getModel(input.model)?.cost : undefined;
+    if (!pricing) {
+      return { cost: 0, costSource: 'unknown' };
+    }
+
+    let cost = pricing.perImage ?? 0;
+    if (pricing.perMillionInputTokens && input.usage?.promptTokens) {
+      cost += (input.usage.promptTokens / 1_000_000) * pricing.perMillionInputTokens;
+    }
+    return { cost, costSource: 'estimated' };
+  }
+
+  /**
+   * Estimated cost of generating `count` images with a model (0 if unpriced)
+   */
+  static estimateImageCost(model: string, count: number = 1): number {
+    const pricing = ImageProviderRegistry.getModel(model)?.cost;
+    return (pricing?.perImage ?? 0) * count;
+  }
+
+  /**
+   * Estimated cost of the jobs that are still pending or running
+   */
+  static estimateQueuedCost(jobs: GenerationJob[]): number {
+    return jobs
+      .filter(job => job.status === 'pending' || job.status === 'running')
+      .reduce((sum, job) => sum + this.estimateImageCost(job.model), 0);
+  }
+
+  // ========================================
+  // Loading & Persistence
+  // ========================================
+
+  /**
+   * Get all entries of a book's ledger (pass undefined for the unassigned ledger)
+   * @throws If the ledger file can't be read
+   */
+  static async getEntries(bookId?: string): Promise<UsageEntry[]> {
+    const entries = await this.loadLedger(bookId ?? UNASSIGNED_KEY);
+    return entries.map(entry => ({ ...entry }));
+  }
+
+  private static async loadLedger(key: string): Promise<UsageEntry[]> {
+    const cached = this.ledgers.get(key);
+    if (cached) return cached;
+
+    // Share one load between concurrent callers; a failed load is retried next time
+    let pending = this.loading.get(key);
+    if (!pending) {
+      pending = this.readLedger(key).then(entries => {
+        this.ledgers.set(key, entries);
+        this.loading.delete(key);
+        return entries;
+      }, error => {
+        this.loading.delete(key);
+        throw error;
+      });
+      this.loading.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * @throws If the ledger file exists but can't be parsed - starting empty
+   * would under-count spend and the next record would overwrite the file
+   */
+  private static async readLedger(key: string): Promise<UsageEntry[]> {
+    const path = this.getLedgerPath(key);
+    const content = await FileSystemService.readTextFile(path);
+    if (!content) return [];
+
+    let file: UsageLedgerFile;
+    try {
+      file = JSON.parse(content) as UsageLedgerFile;
+    } catch (error) {
+      throw new Error(`Usage ledger ${path} is unreadable: ${error instanceof Error ? error.message : error}`);
+    }
+    return (file.entries || []).map(entry => ({
+      ...entry,
+      timestamp: new Date(entry.timestamp)
+    }));
+  }
+
+  /**
+   * Every ledger on disk or in memory, including those of deleted books -
+   * their spend still counts towards the month
+   */
+  private static async getLedgerKeys(): Promise<string[]> {
+    const keys = new Set([UNASSIGNED_KEY, ...this.ledgers.keys()]);
+    const { files } = await FileSystemService.getBackend().list(LEDGERS_PATH);
+    files.filter(name => name.endsWith('.json')).forEach(name => keys.add(name.slice(0, -'.json'.length)));
+    return Array.from(keys);
+  }
+
+  private static getLedgerPath(key: string): string {
+    return key === UNASSIGNED_KEY ? UNASSIGNED_LEDGER_PATH : `${LEDGERS_PATH}/${key}.json`;
+  }
+
+  /**
+   * Write a ledger. Writes to the same file are chained so parallel jobs
+   * can't finish out of order and drop entries.
+   *
+   * @returns Whether the file was written
+   */
+  private static persist(key: string): Promise<boolean> {
+    const previous = this.writeChains.get(key) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      const path = this.getLedgerPath(key);
+      const file: UsageLedgerFile = {
+        version: 1,
+        entries: this.ledgers.get(key) ?? []
+      };
+      const result = await FileSystemService.writeTextFile(path, JSON.stringify(file, null, 2));
+      if (!result.success) {
+        console.warn('Failed to persist usage ledger:', result.error);
+      }
+      return result.success;
+    });
+    this.writeChains.set(key, next.then(() => undefined, () => undefined));
+    return next;
+  }
+
+  // ========================================
+  // Reports
+  // ========================================
+
+  /**
+   * Group entries into report rows, most expensive first ('month' rows are newest first)
+   */
+  static summarize(entries: UsageEntry[], groupBy?: UsageGroupBy): UsageSummaryRow[] {
+    const rows = new Map<string, UsageSummaryRow>();
+
+    for (const entry of entries) {
+      const key = groupBy ? this.getGroupKey(entry, groupBy) : '';
+      let row = rows.get(key);
+      if (!row) {
+        row = { key, calls: 0, failures: 0, images: 0, tokens: 0, cost: 0 };
+        rows.set(key, row);
+      }
+      row.calls += 1;
+      if (!entry.success) row.failures += 1;
+      row.images += entry.images;
+      row.tokens += (entry.promptTokens ?? 0) + (entry.completionTokens ?? 0);
+      row.cost += entry.estimatedCost;
+    }
+
+    const result = Array.from(rows.values());
+    if (groupBy === 'month') {
+      return result.sort((a, b) => b.key.localeCompare(a.key));
+    }
+    return result.sort((a, b) => b.cost - a.cost);
+  }
+
+  private static getGroupKey(entry: UsageEntry, groupBy: UsageGroupBy): string {
+    switch (groupBy) {
+      case 'story':
+        return entry.storyId ?? '';
+      case 'month':
+        return this.getMonthKey(entry.timestamp);
+      case 'model':
+        return entry.model;
+      case 'kind':
+        return entry.kind;
+    }
+  }
+
+  /**
+   * 'YYYY-MM' in local time
+   */
+  static getMonthKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  }
+
+  // ========================================
+  // Budget
+  // ========================================
+
+  /**
+   * Check whether spending `plannedCost` more would exceed the configured budget.
+   * 'month' budgets count every book's ledger; 'book' budgets only the given book.
+   * Jobs still waiting in the queue are counted as spend that is on its way.
+   * An unreadable ledger counts as exceeding the budget, since the spend is unknown.
+   */
+  static async checkBudget(bookId: string, plannedCost: number, queuedJobs: GenerationJob[] = []): Promise<BudgetCheckResult> {
+    const budget = await SettingsService.getUsageBudget();
+    if (!budget || budget.limit <= 0) {
+      return { status: 'ok', spent: 0, queued: 0, planned: plannedCost };
+    }
+
+    const queued = this.estimateQueuedCost(
+      budget.period === 'book' ? queuedJobs.filter(job => job.bookId === bookId) : queuedJobs
+    );
+
+    let spent = 0;
+    try {
+      if (budget.period === 'book') {
+        spent = this.summarize(await this.getEntries(bookId))[0]?.cost ?? 0;
+      } else {
+        const currentMonth = this.getMonthKey(new Date());
+        for (const key of await this.getLedgerKeys()) {
+          const entries = await this.loadLedger(key);
+          spent += entries
+            .filter(e => this.getMonthKey(e.timestamp) === currentMonth)
+            .reduce((sum, e) => sum + e.estimatedCost, 0);
+        }
+      }
+    } catch (error) {
+      return {
+        status: budget.action,
+        spent,
+        queued,
+        planned: plannedCost,
+        budget,
+        message: `Spending so far is unknown: ${error instanceof Error ? error.message : error}`
+      };
+    }
+
+    if (spent + queued + plannedCost <= budget.limit) {
+      return { status: 'ok', spent, queued, planned: plannedCost, budget };
+    }
+
+    const periodLabel = budget.period === 'month' ? 'this month' : 'for this book';
+    const queuedLabel = queued > 0 ? ` with about ${this.formatCost(queued)} more already queued` : '';
+    return {
+      status: budget.action,
+      spent,
+      queued,
+      planned: plannedCost,
+      budget,
+      message: `Spent ${this.formatCost(spent)} ${periodLabel}${queuedLabel}; this batch would add about ${this.formatCost(plannedCost)}, exceeding the ${this.formatCost(budget.limit)} budget.`
+    };
+  }
+
+  static formatCost(cost: number): string {
+    return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+  }
+
+  // ========================================
+  // Testing
+  // ========================================
+
+  /**
+   * Drop all cached ledgers (for tests)
+   */
+  static reset(): void {
+    this.ledgers.clear();
+    this.loading.clear();
+    this.writeChains.clear();
+  }
+}
@@ -12,6 +12,9 @@
  */
 
 import { SettingsService } from './SettingsService';
+import { UsageLedgerService } from './UsageLedgerService';
+import { parseOpenRouterUsage } from './OpenRouterImageProvider';
+import type { UsageContext, UsageMetrics } from '../types/UsageLedger';
 import type {
   Message,
   ConceptAnalysis,
@@ -531,7 +534,8 @@ Only include characters that were clearly mentioned by name. Do not invent chara
    */
   static async sendMessage(
     userMessage: string,
-    context: WizardLLMContext
+    context: WizardLLMContext,
+    usageContext: UsageContext = { purpose: 'wizard:conversation' }
   ): Promise<LLMResult<string>> {
     try {
       const apiKey = await SettingsService.getApiKey();
@@ -573,7 +577,7 @@ Only include characters that were clearly mentioned by name. Do not invent chara
       });
 
       // Make API request with retry logic
-      const result = await this.makeRequestWithRetry(messages);
+      const result = await this.makeRequestWithRetry(messages, usageContext);
       
       if (!result.success) {
         return result;
@@ -597,7 +601,8 @@ Only include characters that were clearly mentioned by name. Do not invent chara
    */
   static async makeStructuredRequest(
     task: WizardTaskType,
-    context: WizardLLMContext
+    context: WizardLLMContext,
+    usageContext: UsageContext = { purpose: `wizard:${task}` }
   ): Promise<LLMResult<string>> {
     try {
       const apiKey = await SettingsService.getApiKey();
@@ -618,7 +623,7 @@ Only include characters that were clearly mentioned by name. Do not invent chara
         }
       ];
 
-      return await this.makeRequestWithRetry(messages);
+      return await this.makeRequestWithRetry(messages, usageContext);
     } catch (error) {
       return {
         success: false,
@@ -628,12 +633,16 @@ Only include characters that were clearly mentioned by name. Do not invent chara
   }
 
   /**
-   * Make API request with retry logic
+   * Make API request with retry logic. The final outcome (not each retry)
+   * is recorded in the usage ledger.
    */
   private static async makeRequestWithRetry(
     messages: Array<{ role: string; content: string }>,
+    usageContext?: UsageContext,
     retryCount = 0
   ): Promise<LLMResult<string>> {
+    let model: string | undefined;
+
     try {
       const apiKey = await SettingsService.getApiKey();
       
@@ -645,7 +654,7 @@ Only include characters that were clearly mentioned by name. Do not invent chara
       }
 
       // Get the configured text LLM model
-      const model = await SettingsService.getTextLLMModel();
+      model = await SettingsService.getTextLLMModel();
 
       const response = await fetch(`${this.OPENROUTER_BASE_URL}/chat/completions`, {
         method: 'POST',
@@ -657,7 +666,8 @@ Only include characters that were clearly mentioned by name. Do not invent chara
         },
         body: JSON.stringify({
           model: model,
-          messages: messages
+          messages: messages,
+          usage: { include: true } // Report actual cost for the usage ledger
         })
       });
 
@@ -668,45 +678,69 @@ Only include characters that were clearly mentioned by name. Do not invent chara
         if ((response.status === 429 || response.status >= 500) && retryCount < this.MAX_RETRIES) {
           console.warn(`API request failed (${response.status}), retrying... (attempt ${retryCount + 1}/${this.MAX_RETRIES})`);
           await this.delay(this.RETRY_DELAY_MS * Math.pow(2, retryCount)); // Exponential backoff
-          return this.makeRequestWithRetry(messages, retryCount + 1);
+          return this.makeRequestWithRetry(messages, usageContext, retryCount + 1);
         }
 
-        return {
+        return this.recordResult(model, usageContext, {
           success: false,
           error: `API error (${response.status}): ${errorText}`
-        };
+        });
       }
 
       const result = await response.json();
       const content = result.choices?.[0]?.message?.content;
+      const usage = parseOpenRouterUsage(result.usage);
 
       if (!content) {
-        return {
+        return this.recordResult(model, usageContext, {
           success: false,
           error: 'No content received from API'
-        };
+        }, usage);
       }
 
-      return {
+      return this.recordResult(model, usageContext, {
         success: true,
         data: content,
         rawResponse: content
-      };
+      }, usage);
     } catch (error) {
       // Retry on network errors
       if (retryCount < this.MAX_RETRIES) {
         console.warn(`Request failed, retrying... (attempt ${retryCount + 1}/${this.MAX_RETRIES})`, error);
         await this.delay(this.RETRY_DELAY_MS * Math.pow(2, retryCount));
-        return this.makeRequestWithRetry(messages, retryCount + 1);
+        return this.makeRequestWithRetry(messages, usageContext, retryCount + 1);
       }
 
-      return {
+      const failure: LLMResult<string> = {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred'
       };
+      return model ? this.recordResult(model, usageContext, failure) : failure;
     }
   }
 
+  /**
+   * Record a finished request in the usage ledger (in the background) and
+   * pass the result through
+   */
+  private static recordResult(
+    model: string,
+    usageContext: UsageContext | undefined,
+    result: LLMResult<string>,
+    usage?: UsageMetrics
+  ): LLMResult<string> {
+    void UsageLedgerService.record({
+      kind: 'text',
+      model,
+      providerId: 'openrouter',
+      success: result.success,
+      error: result.error,
+      usage,
+      context: usageContext
+    });
+    return result;
+  }
+
   /**
    * Delay helper for retry logic
    */
@@ -0,0 +1,60 @@
+/**
+ * Type definitions for book-wide undo/redo history
+ *
+ * Every book save records the book's previous state as a snapshot, so any
+ * model mutation (characters, elements, scenes, layouts, style, image
+ * selection) can be undone regardless of which editor made it. The most recent
+ * entries are persisted per book in prompter-cache/history/{bookId}.json.
+ */
+
+/**
+ * One undoable (or redoable) operation
+ */
+export interface BookHistoryEntry {
+  /** Unique entry identifier */
+  id: string;
+
+  /** Human-readable description (e.g., 'Delete scene "Arrival"') */
+  label: string;
+
+  /** When the operation happened (last edit, for coalesced typing) */
+  timestamp: Date;
+
+  /**
+   * Serialized book to restore: the state before the operation for undo
+   * entries, the state after it for redo entries
+   */
+  snapshot: string;
+}
+
+/**
+ * Entry as shown in the history panel (snapshot omitted)
+ */
+export type BookHistoryEntrySummary = Omit<BookHistoryEntry, 'snapshot'>;
+
+/**
+ * Undo/redo stacks for one book, most recent entry first
+ */
+export interface BookHistoryState {
+  bookId: string;
+  undoStack: BookHistoryEntrySummary[];
+  redoStack: BookHistoryEntrySummary[];
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Persisted history file format (one per book)
+ */
+export interface BookHistoryFile {
+  version: 1;
+
+  /** Hash of the book state the stacks lead up to; history is discarded if the book no longer matches */
+  head: string;
+
+  /** Oldest first */
+  undo: BookHistoryEntry[];
+
+  /** Oldest first */
+  redo: BookHistoryEntry[];
+}
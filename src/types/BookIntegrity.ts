@@ -0,0 +1,98 @@
+/**
+ * Type definitions for the book integrity checker
+ *
+ * BookIntegrityService checks every book for problems that model validation
+ * doesn't catch (dangling references, missing or orphaned image files,
+ * colliding slugs, broken layouts) and can fix most of them.
+ */
+
+import type { BookSnapshotDiff } from './BookSnapshot';
+
+export type IntegritySeverity = 'error' | 'warning' | 'info';
+
+export type IntegrityIssueType =
+  | 'dangling-character-ref'   // Scene lists a character that doesn't exist
+  | 'dangling-element-ref'     // Scene lists an element that doesn't exist
+  | 'reference-case-mismatch'  // Scene reference only matches with different casing
+  | 'duplicate-scene-ref'      // Scene lists the same character/element twice
+  | 'missing-image-file'       // Image entry with no PNG on disk
+  | 'orphan-image-file'        // PNG on disk that no book references
+  | 'duplicate-book-slug'      // Two books saved to the same directory
+  | 'duplicate-story-slug'     // Two stories of a book with the same file name base
+  | 'invalid-layout'           // Layout with unknown type or impossible geometry
+  | 'stale-selected-image';    // selectedImageId not in the character's gallery
+
+/**
+ * Where an issue was found
+ */
+export interface IntegrityLocation {
+  bookId?: string;
+  bookTitle?: string;
+  storyId?: string;
+  storyTitle?: string;
+  sceneId?: string;
+  sceneTitle?: string;
+
+  /** Character (book-level when storyId is absent) */
+  characterName?: string;
+
+  /** Element referenced by a scene */
+  elementName?: string;
+
+  /** Image involved (missing entry or orphaned file) */
+  imageId?: string;
+
+  /** File involved, relative to the storage root */
+  path?: string;
+}
+
+export interface IntegrityIssue {
+  /** Stable within one report, used to pick fixes */
+  id: string;
+  type: IntegrityIssueType;
+  severity: IntegritySeverity;
+  message: string;
+  location: IntegrityLocation;
+
+  /** What the one-click fix does, if the issue has one */
+  fix?: string;
+}
+
+export interface IntegrityReport {
+  checkedAt: Date;
+  booksChecked: number;
+  imageFilesChecked: number;
+
+  /** False when no save directory is configured (file checks skipped) */
+  filesChecked: boolean;
+
+  /** Set when snapshots or undo history couldn't be read (orphaned image check skipped) */
+  orphanCheckError?: string;
+
+  /** Set when the image store index couldn't be read (missing image check skipped) */
+  imageCheckError?: string;
+
+  issues: IntegrityIssue[];
+}
+
+/**
+ * Result of applying (or previewing) fixes
+ */
+export interface IntegrityFixResult {
+  dryRun: boolean;
+
+  /** Descriptions of the fixes applied, in order */
+  applied: string[];
+
+  /** Issues whose fix no longer applied (e.g., the book changed since the check) */
+  skipped: string[];
+
+  /** Per-book changes, as in the snapshot browser */
+  bookChanges: Array<{ bookId: string; bookTitle: string; diff: BookSnapshotDiff }>;
+
+  /**
+   * Image files, or image IDs removed from the image store, whose PNG was
+   * moved to prompter-cache/removed-images (or would be, on a dry run)
+   */
+  deletedFiles: string[];
+}
@@ -0,0 +1,83 @@
+/**
+ * Type definitions for three-way merges of directory-format books
+ *
+ * BookMergeService merges two edited versions of a book against their common
+ * ancestor field by field, matching scenes (and images, stories) by id and
+ * characters and elements by name. Changes made on only one side are taken
+ * automatically; only edits of the same field on both sides (or an edit on
+ * one side of something deleted on the other) are reported as conflicts.
+ *
+ * The same merge runs from the app (merging unsaved changes with edits made
+ * on disk) and from merge-book-driver.ts as a git merge driver, which leaves
+ * its conflicts in the book directory for the app to resolve.
+ */
+
+/**
+ * One step into merged book data: an object key, or the item of a list
+ * matched by its id or name
+ */
+export type MergePathSegment = string | { match: 'id' | 'name'; value: string };
+
+/**
+ * Which version wins a conflict. The merge keeps 'ours' until told otherwise.
+ * - ours: the app's version, or the checked-out branch for git merges
+ * - theirs: the version on disk, or the branch being merged in
+ */
+export type MergeSide = 'ours' | 'theirs';
+
+/**
+ * A field (or whole item) changed differently on both sides
+ */
+export interface BookMergeConflict {
+  /** Stable key of the conflict, derived from its path */
+  id: string;
+
+  /** Where the conflict is, e.g. 'Story "Voyage" › scene "Departure"' */
+  location: string;
+
+  /** Conflicting field, or the kind of item when an item was deleted on one side */
+  field: string;
+
+  /** Path from the merged root ({ book, stories }) to the conflicting value */
+  path: MergePathSegment[];
+
+  /** Values in each version; absent when the field or item doesn't exist there */
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+
+  /** Position of an item deleted on one side in the common ancestor's list */
+  index?: number;
+}
+
+/**
+ * Choice per conflict id; conflicts without a choice keep 'ours'
+ */
+export type MergeResolutions = Record<string, MergeSide>;
+
+/**
+ * A merge waiting for its conflicts to be resolved in the app
+ */
+export interface PendingBookMerge {
+  bookId: string;
+  bookTitle: string;
+
+  /** Book directory under prompter-cache/books */
+  directory: string;
+
+  /**
+   * - app: unsaved app changes merged with edits made on disk
+   * - git: conflicts left by merge-book-driver.ts in the book directory
+   */
+  source: 'app' | 'git';
+  conflicts: BookMergeConflict[];
+}
+
+/**
+ * Content of merge-conflicts.json, written by the git merge driver next to
+ * book.json. Each file the driver merges adds its conflicts.
+ */
+export interface BookMergeConflictFile {
+  version: 1;
+  conflicts: BookMergeConflict[];
+}
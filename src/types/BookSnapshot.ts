@@ -0,0 +1,75 @@
+/**
+ * Type definitions for point-in-time book snapshots
+ *
+ * A snapshot holds the exact book.json and stories/*.json contents of a
+ * directory-format book. Snapshots are stored per book in
+ * prompter-cache/snapshots/{bookId}/{snapshotId}.json, with an index.json
+ * listing them so the browser doesn't have to read every snapshot.
+ */
+
+/**
+ * Why a snapshot was taken
+ */
+export type BookSnapshotReason =
+  | 'scheduled'     // Periodic automatic snapshot
+  | 'manual'        // "Take snapshot" in the snapshot browser
+  | 'import'        // Before importing a story into the book
+  | 'migration'     // Before a repair/migration from the Operations panel
+  | 'story-delete'  // Before deleting a story
+  | 'restore'       // Before restoring another snapshot over the book
+  | 'external-change'; // A version lost when resolving a conflict with edits made outside the app
+
+/**
+ * Index entry describing one snapshot
+ */
+export interface BookSnapshotInfo {
+  /** Timestamp-based identifier, also the snapshot file name */
+  id: string;
+  bookId: string;
+  bookTitle: string;
+  createdAt: Date;
+  reason: BookSnapshotReason;
+
+  /** Human-readable context, e.g. 'Before deleting "Chapter 2"' */
+  label?: string;
+
+  stories: Array<{ id: string; title: string }>;
+}
+
+/**
+ * Snapshot file: the index entry plus the saved files
+ */
+export interface BookSnapshotFile extends BookSnapshotInfo {
+  version: 1;
+  bookJson: string;
+  storyFiles: Array<{ fileName: string; content: string }>;
+}
+
+/**
+ * Per-book snapshot index file, newest first
+ */
+export interface BookSnapshotIndex {
+  version: 1;
+  snapshots: BookSnapshotInfo[];
+}
+
+/**
+ * What changed in one story between two book states
+ */
+export interface StorySnapshotDiff {
+  storyId: string;
+  title: string;
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+
+  /** Human-readable changes, e.g. 'Scene "Storm" removed' */
+  changes: string[];
+}
+
+/**
+ * What changed between two book states (older → newer)
+ */
+export interface BookSnapshotDiff {
+  /** Book-level changes (title, style, book characters, ...) */
+  bookChanges: string[];
+  stories: StorySnapshotDiff[];
+}
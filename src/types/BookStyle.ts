@@ -12,6 +12,7 @@ export interface BookStyle {
   characterStyle?: string;       // How characters should look (e.g., "Exaggerated proportions, expressive")
   environmentStyle?: string;     // How environments should look (e.g., "Impossible geometry, oversized materials")
   artStyle?: string;             // Art style (e.g., "hand-painted", "digital", "watercolor")
+  avoid?: string[];              // Things to keep out of every image (e.g., "text", "watermarks"); stories and scenes add to it
   
   // Panel configuration (for text overlays)
   panelConfig?: PanelConfig;
@@ -0,0 +1,73 @@
+/**
+ * Type definitions for EPUB 3 export of a story or a whole book
+ *
+ * EpubExportService builds one of two kinds of e-book:
+ * - fixed: a fixed-layout picture book, one composed scene image per page
+ *   (text and diagram overlays are already part of the image)
+ * - reflowable: each scene's image followed by its text panel as real text,
+ *   which readers can resize and reflow
+ */
+
+export type EpubLayout = 'fixed' | 'reflowable';
+
+export interface EpubExportSettings {
+  layout: EpubLayout;
+
+  /** BCP 47 language tag of the book text, e.g. "en" or "de-AT" */
+  language: string;
+
+  author?: string;
+
+  /** Scene whose image is the cover; defaults to the first scene with an image */
+  coverSceneId?: string;
+
+  /** Reflowable: show each scene's title as a heading */
+  sceneTitles: boolean;
+
+  /** Fixed layout: let reading systems show two pages side by side */
+  spreads: boolean;
+}
+
+export const DEFAULT_EPUB_EXPORT_SETTINGS: EpubExportSettings = {
+  layout: 'fixed',
+  language: 'en',
+  sceneTitles: false,
+  spreads: true
+};
+
+/**
+ * What to export: one story, or every story of the book in order
+ */
+export interface EpubExportScope {
+  bookId: string;
+  storyId?: string;
+}
+
+/**
+ * A problem found before or during export. Errors stop the export;
+ * warnings are shown and the export can go ahead.
+ */
+export interface EpubExportIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  sceneId?: string;
+}
+
+/**
+ * Entry of the navigation document (table of contents)
+ */
+export interface EpubNavEntry {
+  title: string;
+  /** Path relative to the package document, with fragment */
+  href: string;
+  children: EpubNavEntry[];
+}
+
+export interface EpubExportResult {
+  blob: Blob;
+  /** Content documents in the spine, cover and title page included */
+  documentCount: number;
+  sceneCount: number;
+  imageCount: number;
+  issues: EpubExportIssue[];
+}
@@ -0,0 +1,54 @@
+/**
+ * Type definitions for external change detection
+ *
+ * ExternalChangeService notices when the files of a directory-format book
+ * change outside the app (hand edits, scripts like migrate-books.ts, sync
+ * tools) and reloads the book, or reports a conflict when the app holds
+ * changes of its own that are not on disk yet.
+ */
+
+import type { BookSnapshotDiff } from './BookSnapshot';
+
+/**
+ * What happened to a book because of an external change
+ */
+export type ExternalChangeKind =
+  | 'added'     // A book directory appeared and was loaded
+  | 'reloaded'  // The book was replaced by the version on disk
+  | 'removed'   // The book was deleted on disk and dropped from the app
+  | 'conflict'  // Disk and app both changed; waiting for a decision
+  | 'resolved'  // A conflict was resolved by keeping the app's version
+  | 'merged';   // A merge (with the version on disk, or from git) was saved
+
+export interface ExternalBookChange {
+  kind: ExternalChangeKind;
+  bookId: string;
+  bookTitle: string;
+  detectedAt: Date;
+}
+
+/**
+ * A book changed on disk while the app had unsaved changes to it. Saves of
+ * the book are refused until the conflict is resolved.
+ */
+export interface ExternalChangeConflict {
+  bookId: string;
+  bookTitle: string;
+
+  /** Book directory under prompter-cache/books */
+  directory: string;
+  detectedAt: Date;
+
+  /** The book's files were deleted rather than edited */
+  deletedOnDisk: boolean;
+
+  /** What the version on disk changed compared with the app's version (absent when deleted) */
+  diskChanges?: BookSnapshotDiff;
+}
+
+/**
+ * How to resolve a conflict. The version not chosen is kept as a book
+ * snapshot ('external-change'), so neither side is lost. Merging both
+ * versions goes through ExternalChangeService.mergeConflict instead.
+ */
+export type ExternalConflictResolution = 'keep-app' | 'use-disk';
@@ -0,0 +1,90 @@
+/**
+ * Type definitions for the image generation job queue
+ *
+ * Jobs are persisted per book in prompter-cache/generation-queues/{book-id}.json
+ * so long batch runs survive dialog closes and app restarts.
+ */
+
+import type { PromptStrategyOption } from './PromptTemplate';
+
+/**
+ * What a job generates
+ */
+export type GenerationJobKind = 'scene' | 'character';
+
+/**
+ * Job lifecycle states
+ */
+export type GenerationJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A single queued generation
+ */
+export interface GenerationJob {
+  /** Unique job identifier */
+  id: string;
+
+  kind: GenerationJobKind;
+
+  /** Book the job belongs to (and whose queue file it is saved in) */
+  bookId: string;
+
+  /** Story containing the scene, or story-level character. Omitted for book-level characters. */
+  storyId?: string;
+
+  /** Scene to generate (kind === 'scene') */
+  sceneId?: string;
+
+  /** Character to generate (kind === 'character') */
+  characterName?: string;
+
+  /** Human-readable label shown in the queue drawer */
+  label: string;
+
+  model: string;
+  promptStrategy?: PromptStrategyOption;
+  aspectRatio?: string;
+
+  status: GenerationJobStatus;
+
+  /** Number of attempts made so far */
+  attempts: number;
+  maxAttempts: number;
+
+  /** Earliest time the job may run again after a retryable failure */
+  nextAttemptAt?: Date;
+
+  lastError?: string;
+
+  /** Image id produced by the job once completed */
+  resultImageId?: string;
+
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Fields needed to enqueue a job; the rest are filled in by the queue
+ */
+export type NewGenerationJob = Pick<
+  GenerationJob,
+  'kind' | 'bookId' | 'storyId' | 'sceneId' | 'characterName' | 'label' | 'model' | 'promptStrategy' | 'aspectRatio'
+> & { maxAttempts?: number };
+
+/**
+ * Persisted queue file format (one per book)
+ */
+export interface GenerationQueueFile {
+  version: 1;
+  jobs: GenerationJob[];
+}
+
+/**
+ * Snapshot of the queue handed to subscribers
+ */
+export interface GenerationQueueState {
+  jobs: GenerationJob[];
+  paused: boolean;
+  concurrency: number;
+}
@@ -0,0 +1,76 @@
+/**
+ * Type definitions for exporting a book as a self-contained static website
+ *
+ * HtmlSiteExportService writes plain HTML, CSS and a small script with
+ * relative paths only, so the site works from any web server folder (or
+ * opened straight from disk) without the app:
+ *
+ *   index.html            Book title, description and the list of stories
+ *   story-01-<slug>.html  One page per story: scenes with image, text panel
+ *                         and diagram, grouped by chapter
+ *   characters.html       Character gallery (book and story characters)
+ *   assets/               Stylesheet and keyboard navigation script
+ *   images/               Scene, diagram and character images
+ */
+
+export interface HtmlSiteSettings {
+  /** BCP 47 language tag of the book text, e.g. "en" or "de-AT" */
+  language: string;
+
+  /** Show each scene's text panel as text under its image */
+  sceneText: boolean;
+
+  /**
+   * Show each scene's diagram panel rendered on its own, larger than in the
+   * composed scene image
+   */
+  diagrams: boolean;
+
+  /** Add characters.html with every character's selected image */
+  characterGallery: boolean;
+}
+
+export const DEFAULT_HTML_SITE_SETTINGS: HtmlSiteSettings = {
+  language: 'en',
+  sceneText: true,
+  diagrams: true,
+  characterGallery: true
+};
+
+/**
+ * A file of the site; path is relative to the site folder
+ */
+export interface HtmlSiteFile {
+  path: string;
+  content: string | Uint8Array;
+}
+
+/**
+ * A problem found while building the site. Nothing stops the export;
+ * the affected image or diagram is left out or shown as source.
+ */
+export interface HtmlSiteIssue {
+  severity: 'warning';
+  message: string;
+  sceneId?: string;
+}
+
+export interface HtmlSite {
+  /** Folder name for the site, from the book title */
+  name: string;
+  files: HtmlSiteFile[];
+  pageCount: number;
+  imageCount: number;
+  issues: HtmlSiteIssue[];
+}
+
+/**
+ * Where an export went: a zip to download, or a folder it was written to
+ */
+export interface HtmlSiteExportResult {
+  site: HtmlSite;
+  /** Zip exports */
+  blob?: Blob;
+  /** Folder exports: path of the site folder inside the chosen folder */
+  path?: string;
+}
@@ -0,0 +1,58 @@
+/**
+ * Image provenance - everything needed to reproduce a generated image
+ *
+ * Stored on scene images (GeneratedImage.provenance) and character images
+ * (CharacterImage.provenance). Snapshots are taken at generation time, so
+ * later edits to the scene, layout or book style don't change what is recorded.
+ */
+
+import type { BookStyle } from './BookStyle';
+import type { DiagramPanel, DiagramStyle, SceneLayout } from './Story';
+import type { PromptStrategyOption } from './PromptTemplate';
+
+/**
+ * A character image sent to the provider as a visual reference
+ */
+export interface ProvenanceReferenceImage {
+  imageId: string;
+  characterName: string;
+  storyId: string; // Storage context: story ID, or "book:{bookId}" for book-level characters
+}
+
+/**
+ * Overlay inputs for scene images (text and diagram panels are composited
+ * onto the generated base image)
+ */
+export interface ProvenanceOverlays {
+  textPanel?: string;
+  diagramPanel?: DiagramPanel;
+  diagramStyle?: DiagramStyle;
+}
+
+/**
+ * The history image a "More like this" variation was generated from. The
+ * source image is sent as the last reference image - without overlays, so
+ * the text and diagram panels aren't painted into the new image.
+ */
+export interface ProvenanceVariationSource {
+  imageId: string; // Stored image sent as the source: the history image's baseImageId, or its id if it has none
+  strength: number; // 0 = nearly identical, 1 = loosely inspired
+}
+
+export interface ImageProvenance {
+  prompt: string; // Exact final prompt sent to the provider (a variation hint is appended at send time)
+  model: string;
+  promptStrategy: string; // Strategy actually used after 'auto' resolution ('legacy', 'gemini', ...)
+  requestedPromptStrategy?: PromptStrategyOption; // What the user picked
+  aspectRatio: string; // Aspect ratio sent to the provider
+  referenceImages: ProvenanceReferenceImage[]; // In the order they were sent
+  seed?: number; // Seed sent to the provider; only recorded for models that support seeds
+  variationOf?: ProvenanceVariationSource; // Set when this image is a variation of another
+  characters?: string[]; // Scene images: character names included in the prompt
+  elements?: string[]; // Scene images: element names included in the prompt
+  layout?: SceneLayout; // Resolved layout (scene > story > book) used for compositing
+  bookStyle?: BookStyle; // Book style at generation time
+  overlays?: ProvenanceOverlays; // Scene images only; absent when overlays were skipped
+  appVersion: string;
+  reproducedFrom?: string; // Image ID this one was reproduced from
+}
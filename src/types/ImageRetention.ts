@@ -0,0 +1,114 @@
+/**
+ * Type definitions for image storage management
+ *
+ * ImageRetentionService measures how much disk each book and story uses for
+ * images, finds images that can go (orphaned, or superseded under the
+ * retention policy) and deletes them in bulk with an undo window.
+ */
+
+/**
+ * Which images to keep when cleaning up (stored in AppSettings.imageRetention)
+ */
+export interface ImageRetentionPolicy {
+  /** Newest images kept per scene (and per character, with includeCharacterGalleries) */
+  keepLastPerScene: number;
+
+  /** Keep images marked with a star */
+  keepStarred: boolean;
+
+  /** Keep images that went into an export (see ExportRecordService) */
+  keepExported: boolean;
+
+  /** Also clean up character galleries (the selected and reference images are always kept) */
+  includeCharacterGalleries: boolean;
+}
+
+/**
+ * One use of an image by a book
+ */
+export interface ImageUsage {
+  imageId: string;
+  kind: 'scene' | 'character' | 'reference';
+  bookId: string;
+  bookTitle: string;
+  storyId?: string;
+  storyTitle?: string;
+  sceneId?: string;
+  sceneTitle?: string;
+  characterName?: string;
+  timestamp?: Date;
+  starred: boolean;
+
+  /** Scene images: the stored image before overlays, which goes with it */
+  baseImageId?: string;
+}
+
+/**
+ * Where to find an image in a book
+ */
+export type ImageLocation = Pick<ImageUsage, 'imageId' | 'kind' | 'bookId' | 'storyId' | 'sceneId' | 'characterName'>;
+
+export type CleanupReason = 'orphaned' | 'superseded';
+
+export interface CleanupCandidate {
+  imageId: string;
+  reason: CleanupReason;
+  size: number;
+
+  /** Where a superseded image is used (orphans have no usage) */
+  usage?: ImageUsage;
+}
+
+export interface StoryStorageUsage {
+  storyId: string;
+  storyTitle: string;
+  imageCount: number;
+  bytes: number;
+}
+
+export interface BookStorageUsage {
+  bookId: string;
+  bookTitle: string;
+
+  /** Includes book-level character images */
+  imageCount: number;
+  bytes: number;
+  stories: StoryStorageUsage[];
+}
+
+export interface StorageAnalysis {
+  analyzedAt: Date;
+  policy: ImageRetentionPolicy;
+
+  /** Size of every stored image, referenced or not */
+  totalImages: number;
+  totalBytes: number;
+
+  /** From AppSettings.imageStorageQuotaMB, or null when unlimited */
+  quotaBytes: number | null;
+
+  books: BookStorageUsage[];
+  orphaned: CleanupCandidate[];
+  superseded: CleanupCandidate[];
+
+  /**
+   * Images kept that would otherwise be candidates: by the policy (starred,
+   * exported), or because a book snapshot or undo history uses them
+   */
+  kept: { starred: number; exported: number; restorable: number };
+}
+
+/**
+ * A bulk deletion that can still be undone
+ */
+export interface PendingImageDeletion {
+  id: string;
+  imageIds: string[];
+  bytes: number;
+
+  /** Of imageIds, images kept on disk because a snapshot or undo can bring them back */
+  keptOnDisk: number;
+
+  deletedAt: Date;
+  expiresAt: Date;
+}
@@ -0,0 +1,103 @@
+/**
+ * Type definitions for the content-addressed image store
+ *
+ * ImageStoreService keeps each distinct image once, as a blob named by its
+ * SHA-256 hash, with an index mapping image IDs to blobs. Several image IDs
+ * (re-uploaded reference images, re-imported books) can share one blob.
+ */
+
+/**
+ * What an image belongs to (the directory it had before the store)
+ */
+export type StoredImageKind = 'scene' | 'character' | 'other';
+
+/**
+ * Index entry for one image ID
+ */
+export interface StoredImage {
+  /** SHA-256 of the PNG bytes (hex) */
+  hash: string;
+  kind: StoredImageKind;
+  storedAt: string; // ISO timestamp
+
+  // Metadata previously kept in {imageId}.json next to the PNG
+  sceneId?: string;
+  characterName?: string;
+  modelName?: string;
+}
+
+/**
+ * Index entry for one blob
+ */
+export interface StoredBlob {
+  size: number;
+
+  /** Number of image IDs using this blob; 0 means it can be collected */
+  refCount: number;
+}
+
+/**
+ * prompter-cache/blobs/index.json
+ */
+export interface ImageStoreIndex {
+  version: 1;
+  images: Record<string, StoredImage>;
+  blobs: Record<string, StoredBlob>;
+}
+
+/**
+ * Disk usage of the store, for the storage report
+ */
+export interface ImageStoreReport {
+  imageCount: number;
+  blobCount: number;
+
+  /** Bytes if every image ID had its own file */
+  logicalBytes: number;
+
+  /** Bytes actually stored in blobs */
+  storedBytes: number;
+
+  /** Blobs no image ID uses any more */
+  unreferencedBlobs: number;
+  unreferencedBytes: number;
+
+  /** Blob files the index doesn't know (collection quarantines them) */
+  unindexedBlobs: number;
+  unindexedBytes: number;
+
+  /** Set when index.json couldn't be read; collection is refused */
+  indexError?: string;
+
+  /** PNGs still in the old per-ID layout (prompter-cache/scenes, characters) */
+  legacyFiles: number;
+  legacyBytes: number;
+}
+
+export interface ImageStoreMigrationResult {
+  /** Legacy files moved into the store */
+  migrated: number;
+
+  /** Of those, files whose content was already stored */
+  deduplicated: number;
+
+  bytesSaved: number;
+  failed: Array<{ path: string; error: string }>;
+}
+
+export interface ImageStoreGcResult {
+  dryRun: boolean;
+
+  /** Unreferenced blobs known to the index */
+  deletedBlobs: string[];
+  freedBytes: number;
+
+  /** Blob files missing from the index, moved to prompter-cache/blobs-quarantine */
+  quarantinedBlobs: string[];
+}
+
+export interface ImageStoreMigrationProgress {
+  current: number;
+  total: number;
+  path: string;
+}
@@ -0,0 +1,124 @@
+/**
+ * Type definitions for print-ready PDF export of a story or a whole book
+ *
+ * PdfExportService lays out one scene image per page, using the most recent
+ * image of each scene. Those images are stored already composed (text and
+ * diagram overlays applied at generation time), so the PDF matches what the
+ * app shows. All lengths are in inches; the PDF itself is in points.
+ */
+
+/**
+ * Finished page size after trimming
+ */
+export interface TrimSize {
+  width: number;
+  height: number;
+}
+
+export interface PageMargins {
+  top: number;
+  bottom: number;
+  /** Margin on the spine side (left on right-hand pages) when facingPages is on */
+  inside: number;
+  outside: number;
+}
+
+/**
+ * - bleed: fill the page out to the bleed edge, cropping the image to fit
+ * - margins: fit the whole image inside the margins
+ */
+export type PdfImageFit = 'bleed' | 'margins';
+
+export interface PdfPrintSettings {
+  trimSize: TrimSize;
+
+  /** Extra image area past each trim edge; 0.125" is common */
+  bleed: number;
+
+  margins: PageMargins;
+  imageFit: PdfImageFit;
+
+  /** Images placed below this resolution are reported (300 for most print shops) */
+  minDpi: number;
+
+  /** Cover page with the book title over the cover image */
+  coverPage: boolean;
+
+  /** Scene whose image goes on the cover; defaults to the first scene with an image */
+  coverSceneId?: string;
+
+  /** Title page with book title, subtitle and description */
+  titlePage: boolean;
+
+  /** Title pages for each story (whole-book exports) and chapter */
+  sectionPages: boolean;
+
+  pageNumbers: boolean;
+
+  /**
+   * Book pages face each other: inside/outside margins mirror on left-hand
+   * pages, and section pages start on a right-hand page (a blank page is
+   * added when needed)
+   */
+  facingPages: boolean;
+
+  /**
+   * Put facing pages side by side on one PDF page, for reviewing the book on
+   * screen (print shops usually want single pages)
+   */
+  spreads: boolean;
+}
+
+export interface TrimSizePreset {
+  id: string;
+  label: string;
+  size: TrimSize;
+}
+
+export const TRIM_SIZE_PRESETS: TrimSizePreset[] = [
+  { id: '8.5x8.5', label: '8.5" × 8.5" (square picture book)', size: { width: 8.5, height: 8.5 } },
+  { id: '8x10', label: '8" × 10" (portrait picture book)', size: { width: 8, height: 10 } },
+  { id: '10x8', label: '10" × 8" (landscape picture book)', size: { width: 10, height: 8 } },
+  { id: '8.5x11', label: '8.5" × 11" (US Letter)', size: { width: 8.5, height: 11 } },
+  { id: 'a4', label: 'A4 (8.27" × 11.69")', size: { width: 8.27, height: 11.69 } },
+  { id: '6x9', label: '6" × 9" (trade paperback)', size: { width: 6, height: 9 } }
+];
+
+export const DEFAULT_PDF_PRINT_SETTINGS: PdfPrintSettings = {
+  trimSize: { width: 8.5, height: 8.5 },
+  bleed: 0.125,
+  margins: { top: 0.5, bottom: 0.5, inside: 0.625, outside: 0.5 },
+  imageFit: 'bleed',
+  minDpi: 300,
+  coverPage: true,
+  titlePage: true,
+  sectionPages: true,
+  pageNumbers: true,
+  facingPages: true,
+  spreads: false
+};
+
+/**
+ * What to export: one story, or every story of the book in order
+ */
+export interface PdfExportScope {
+  bookId: string;
+  storyId?: string;
+}
+
+/**
+ * A problem found before or during export. Errors stop the export;
+ * warnings are shown and the export can go ahead.
+ */
+export interface PdfExportIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  sceneId?: string;
+}
+
+export interface PdfExportResult {
+  blob: Blob;
+  pageCount: number;
+  imageCount: number;
+  issues: PdfExportIssue[];
+}
@@ -0,0 +1,72 @@
+/**
+ * Type definitions for exporting a story or a whole book as a PowerPoint
+ * slide deck
+ *
+ * PptxExportService makes one slide per scene, placed the way the scene's
+ * layout places it (LayoutResolver; scenes without a layout use the text
+ * panel and diagram positions of the book and story style):
+ * - the scene image in the layout's image area
+ * - the text panel as an editable text box
+ * - the diagram panel as a rendered picture, or as editable text
+ * - the scene description as speaker notes
+ */
+
+/**
+ * How diagram panels go on the slide:
+ * - image: rendered the way the scene image shows them
+ * - editable: code, math and markdown as editable text (math as its LaTeX
+ *   source); Mermaid diagrams are still rendered
+ */
+export type PptxDiagramMode = 'image' | 'editable';
+
+export interface PptxExportSettings {
+  diagramMode: PptxDiagramMode;
+
+  /** Put each scene's description in its speaker notes */
+  speakerNotes: boolean;
+
+  /** Start the deck with a slide showing the book (and story) title */
+  titleSlide: boolean;
+}
+
+export const DEFAULT_PPTX_EXPORT_SETTINGS: PptxExportSettings = {
+  diagramMode: 'image',
+  speakerNotes: true,
+  titleSlide: true
+};
+
+/**
+ * What to export: one story, or every story of the book in order
+ */
+export interface PptxExportScope {
+  bookId: string;
+  storyId?: string;
+}
+
+/**
+ * A problem found during export. Nothing stops the export; the affected
+ * scene's slide goes without its image or shows its diagram as text.
+ */
+export interface PptxExportIssue {
+  severity: 'warning';
+  message: string;
+  sceneId?: string;
+}
+
+/**
+ * A rectangle on a slide, in inches from the top left
+ */
+export interface SlideRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface PptxExportResult {
+  blob: Blob;
+  slideCount: number;
+  sceneCount: number;
+  imageCount: number;
+  issues: PptxExportIssue[];
+}
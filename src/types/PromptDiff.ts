@@ -0,0 +1,47 @@
+/**
+ * Types for comparing the prompt behind a past image with the prompt the
+ * scene would produce now
+ */
+
+import type { BookStyle } from './BookStyle';
+import type { SceneLayout } from './Story';
+
+export type PromptDiffOp = 'equal' | 'added' | 'removed';
+
+/**
+ * A run of words (with their whitespace) that is unchanged, only in the
+ * current prompt ('added') or only in the past prompt ('removed')
+ */
+export interface PromptDiffSegment {
+  op: PromptDiffOp;
+  text: string;
+}
+
+export type PromptInputChangeCategory = 'character' | 'element' | 'style' | 'layout';
+
+/**
+ * A changed generation input (not just changed prompt text)
+ */
+export interface PromptInputChange {
+  category: PromptInputChangeCategory;
+  label: string; // e.g. character name, 'Art Style', 'Layout'
+  before?: string; // undefined = added
+  after?: string; // undefined = removed
+}
+
+/**
+ * Current scene state to compare a past image's provenance against
+ */
+export interface PromptDiffCurrentState {
+  prompt: string;
+  characters: string[];
+  elements: string[];
+  bookStyle?: BookStyle;
+  layout?: SceneLayout;
+}
+
+export interface PromptDiffResult {
+  segments: PromptDiffSegment[];
+  changes: PromptInputChange[];
+  identical: boolean; // Prompt text is unchanged
+}
@@ -0,0 +1,105 @@
+/**
+ * Prompt strategy selection and user-defined prompt templates
+ *
+ * A book can define its own scene and character prompt templates
+ * (Book.promptTemplates). They are used by TemplatePromptBuildingService when
+ * the 'template' prompt strategy is selected. Placeholders use the same
+ * {{Name}} syntax as the built-in strategies' macros.
+ */
+
+/**
+ * Prompt strategy choice accepted by generation calls and strategy selectors
+ */
+export type PromptStrategyOption = 'auto' | 'legacy' | 'gemini' | 'template';
+
+export const PROMPT_STRATEGY_LABELS: Record<PromptStrategyOption, string> = {
+  auto: 'Auto (Detect from Model)',
+  legacy: 'Legacy (Simple)',
+  gemini: 'Gemini (Structured)',
+  template: 'Book Template (Custom)'
+};
+
+export interface PromptTemplates {
+  scene?: string; // Falls back to DEFAULT_SCENE_PROMPT_TEMPLATE
+  character?: string; // Falls back to DEFAULT_CHARACTER_PROMPT_TEMPLATE
+}
+
+export type PromptTemplateKind = keyof PromptTemplates;
+
+export interface PromptTemplatePlaceholder {
+  name: string;
+  description: string;
+}
+
+const STYLE_PLACEHOLDERS: PromptTemplatePlaceholder[] = [
+  { name: 'BookStyle', description: 'All book style fields, one per line' },
+  { name: 'ArtStyle', description: 'Book style: art style' },
+  { name: 'ColorPalette', description: 'Book style: color palette' },
+  { name: 'VisualTheme', description: 'Book style: visual theme' },
+  { name: 'CharacterStyle', description: 'Book style: character style' },
+  { name: 'EnvironmentStyle', description: 'Book style: environment style' }
+];
+
+/**
+ * Placeholders available in each kind of template
+ */
+export const PROMPT_TEMPLATE_PLACEHOLDERS: Record<PromptTemplateKind, PromptTemplatePlaceholder[]> = {
+  scene: [
+    ...STYLE_PLACEHOLDERS,
+    { name: 'BackgroundSetup', description: 'Story background setup' },
+    { name: 'StoryTitle', description: 'Story title' },
+    { name: 'SceneTitle', description: 'Scene title' },
+    { name: 'SceneDescription', description: 'Scene description' },
+    { name: 'Characters', description: 'Scene characters as "- Name: description" lines' },
+    { name: 'CharacterNames', description: 'Scene character names, comma separated' },
+    { name: 'Elements', description: 'Scene elements as "- Name: description" lines' },
+    { name: 'ReferenceImageInstructions', description: 'Instructions for attached character reference images (empty when none)' },
+    { name: 'Avoid', description: '"Avoid: …" sentence from the scene, story and book avoid-lists (empty when none)' }
+  ],
+  character: [
+    ...STYLE_PLACEHOLDERS,
+    { name: 'BackgroundSetup', description: 'Story (or book) background setup' },
+    { name: 'CharacterName', description: 'Character name' },
+    { name: 'CharacterDescription', description: 'Character description' },
+    { name: 'ReferenceImageInstructions', description: 'Instructions for an attached reference image (empty when none)' },
+    { name: 'Avoid', description: '"Avoid: …" sentence from the book avoid-list (empty when none)' }
+  ]
+};
+
+export const DEFAULT_SCENE_PROMPT_TEMPLATE = `{{ReferenceImageInstructions}}
+
+Create an illustration for the scene "{{SceneTitle}}".
+
+Visual Style:
+{{BookStyle}}
+
+Story Context:
+{{BackgroundSetup}}
+
+Characters:
+{{Characters}}
+
+Elements:
+{{Elements}}
+
+Scene Description:
+{{SceneDescription}}
+
+{{Avoid}}
+Do not include any text, labels, or scene numbers in the image.`;
+
+export const DEFAULT_CHARACTER_PROMPT_TEMPLATE = `{{ReferenceImageInstructions}}
+
+Character design for {{CharacterName}}: {{CharacterDescription}}
+
+Visual Style:
+{{BookStyle}}
+
+Show the full character, centered, on a plain white background.
+{{Avoid}}
+Do not include any text or labels in the image.`;
+
+export const DEFAULT_PROMPT_TEMPLATES: Required<PromptTemplates> = {
+  scene: DEFAULT_SCENE_PROMPT_TEMPLATE,
+  character: DEFAULT_CHARACTER_PROMPT_TEMPLATE
+};
@@ -0,0 +1,73 @@
+/**
+ * Type definitions for the book save journal
+ *
+ * A directory-format book is several files (book.json plus one file per
+ * story). Saves first write every file under a temporary name, then record
+ * a journal in prompter-cache/journal/{txId}.json, then move the files into
+ * place. A journal left behind by a crash means the save was committed but
+ * not finished, so it is rolled forward on the next load; temporary files
+ * without a journal belong to a save that never committed and are rolled back.
+ */
+
+/**
+ * One file written by a journaled save
+ */
+export interface SaveJournalWrite {
+  /** Final path, relative to the storage root */
+  path: string;
+
+  /** Where the new content is staged until the save is applied */
+  tempPath: string;
+
+  /** Checksum of the new content, to verify staged and applied files */
+  checksum: string;
+}
+
+/**
+ * Journal file for one committed save
+ */
+export interface SaveJournal {
+  version: 1;
+  txId: string;
+  bookId: string;
+  bookTitle: string;
+  startedAt: Date;
+
+  /** Increases with every save, so recovery can replay in save order */
+  sequence: number;
+
+  writes: SaveJournalWrite[];
+
+  /** Files to remove (stories deleted or renamed since the last save) */
+  deletes: string[];
+}
+
+/**
+ * What recovery did with one interrupted save
+ */
+export interface SaveRecoveryEntry {
+  /**
+   * rolled-forward: the save had committed; its files were put in place
+   * rolled-back: the save never committed; its staged files were discarded
+   */
+  action: 'rolled-forward' | 'rolled-back';
+
+  /** Book title, or the book directory when the save left no journal */
+  book: string;
+  bookId?: string;
+  startedAt?: Date;
+
+  /** Files written or discarded */
+  files: string[];
+
+  /** Files that could not be recovered */
+  errors: string[];
+}
+
+/**
+ * Result of checking for interrupted saves on load
+ */
+export interface SaveRecoveryReport {
+  checkedAt: Date;
+  entries: SaveRecoveryEntry[];
+}
@@ -0,0 +1,53 @@
+/**
+ * Type definitions for reordering scenes and moving or copying them
+ * between stories and books
+ *
+ * Within a story, SceneOrganizerService edits the order and chapters
+ * through the Story model (see Story.moveScene and the chapter methods).
+ * Moving or copying a scene to another story also brings the characters
+ * and elements it refers to, since scenes refer to them by name.
+ */
+
+/**
+ * A story in a book
+ */
+export interface StoryLocation {
+  bookId: string;
+  storyId: string;
+}
+
+/**
+ * Where a transferred scene goes
+ */
+export interface SceneDestination extends StoryLocation {
+  /** Chapter of the target story; null or absent for no chapter */
+  chapterId?: string | null;
+
+  /** Position among the chapter's scenes; defaults to the end */
+  index?: number;
+}
+
+/**
+ * - move: the scene leaves its story and keeps its ID and images
+ * - copy: a new scene with new IDs; its images are copied in the image store
+ */
+export type SceneTransferMode = 'move' | 'copy';
+
+export interface SceneTransferRequest {
+  from: StoryLocation;
+  sceneId: string;
+  to: SceneDestination;
+  mode: SceneTransferMode;
+}
+
+export interface SceneTransferResult {
+  /** ID of the scene in the target story (new for copies) */
+  sceneId: string;
+
+  /** Characters and elements added to the target story for the scene */
+  addedCharacters: string[];
+  addedElements: string[];
+
+  /** Images of a copied scene that couldn't be copied and were left out */
+  skippedImages: number;
+}
@@ -0,0 +1,142 @@
+/**
+ * Type definitions for the story slideshow (video) export
+ *
+ * SlideshowExportService turns a story into a video: the composed scene
+ * images in reading order, each shown for its own duration with a slow
+ * Ken Burns pan or zoom, crossfading into the next, with the text panel as
+ * an optional caption and an optional audio track (e.g. narration) per
+ * scene. Timing is stored on each scene (scene.slideshow); the export
+ * settings apply to the whole video.
+ *
+ * Output:
+ * - WebM, recorded from a canvas with MediaRecorder, in real time
+ * - a numbered PNG frame sequence with the audio files and a timeline.json
+ *   (Electron), for tools like ffmpeg
+ */
+
+/**
+ * Slow camera move over a scene image. 'auto' picks one per scene, so
+ * consecutive scenes move differently.
+ */
+export type KenBurnsMotion = 'auto' | 'none' | 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right';
+
+/**
+ * Audio file attached to a scene (see SceneAudioService)
+ */
+export interface SceneAudio {
+  /** Storage path under prompter-cache/audio */
+  path: string;
+  /** Name of the file it was added from, for display */
+  fileName: string;
+  mediaType: string;
+  /** Length in seconds */
+  duration: number;
+}
+
+/**
+ * Slideshow timing of one scene (scene.slideshow)
+ */
+export interface SceneSlideshow {
+  /**
+   * Seconds the scene is on screen, crossfades included; when absent, the
+   * length of its audio (plus a short pause) or DEFAULT_SCENE_DURATION
+   */
+  duration?: number;
+  motion?: KenBurnsMotion;
+  audio?: SceneAudio;
+}
+
+export const DEFAULT_SCENE_DURATION = 5;
+
+/** Shortest scene duration, in seconds */
+export const MIN_SCENE_DURATION = 1;
+
+/** Pause after a scene's audio when its duration comes from the audio */
+export const AUDIO_PADDING = 1;
+
+export interface SlideshowSettings {
+  width: number;
+  height: number;
+  frameRate: number;
+
+  /** Seconds consecutive scenes overlap while fading; 0 for hard cuts */
+  crossfade: number;
+
+  kenBurns: boolean;
+
+  /** Show each scene's text panel as a caption at the bottom */
+  captions: boolean;
+
+  /** Include the scenes' audio tracks */
+  audio: boolean;
+}
+
+export const DEFAULT_SLIDESHOW_SETTINGS: SlideshowSettings = {
+  width: 1280,
+  height: 720,
+  frameRate: 30,
+  crossfade: 1,
+  kenBurns: true,
+  captions: true,
+  audio: true
+};
+
+export interface SlideshowResolution {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const SLIDESHOW_RESOLUTIONS: SlideshowResolution[] = [
+  { label: '720p landscape (1280 × 720)', width: 1280, height: 720 },
+  { label: '1080p landscape (1920 × 1080)', width: 1920, height: 1080 },
+  { label: 'Portrait (1080 × 1920)', width: 1080, height: 1920 },
+  { label: 'Square (1080 × 1080)', width: 1080, height: 1080 }
+];
+
+/**
+ * One scene on the timeline; times in seconds from the start of the video
+ */
+export interface SlideshowTimelineEntry {
+  sceneId: string;
+  title: string;
+  start: number;
+  duration: number;
+  /** Motion after resolving 'auto' (and 'none' when Ken Burns is off) */
+  motion: Exclude<KenBurnsMotion, 'auto'>;
+  caption?: string;
+  audio?: SceneAudio;
+}
+
+export interface SlideshowTimeline {
+  entries: SlideshowTimelineEntry[];
+  /** Crossfade actually used; shortened to fit the shortest scene */
+  crossfade: number;
+  duration: number;
+}
+
+/**
+ * A problem found while exporting. Nothing stops the export; the scene is
+ * shown without its image or audio.
+ */
+export interface SlideshowIssue {
+  severity: 'warning';
+  message: string;
+  sceneId?: string;
+}
+
+export interface SlideshowExportProgress {
+  /** Seconds of video done */
+  time: number;
+  duration: number;
+}
+
+export interface SlideshowExportResult {
+  duration: number;
+  issues: SlideshowIssue[];
+  /** WebM exports */
+  blob?: Blob;
+  /** Frame sequence exports: folder the frames were written to */
+  path?: string;
+  frameCount?: number;
+}
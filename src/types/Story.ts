@@ -1,3 +1,6 @@
+import type { ImageProvenance } from './ImageProvenance';
+import type { SceneSlideshow } from './Slideshow';
+
 // Character interface removed - use Character from models/Story.ts instead
 // The old ID-based Character is deprecated. For legacy code that needs it,
 // define inline or create a LegacyCharacter type.
@@ -15,6 +18,9 @@ export interface GeneratedImage {
   modelName: string; // AI model used to generate this image
   timestamp: Date;
   promptHash?: string; // Optional: hash of prompt to detect changes
+  provenance?: ImageProvenance; // Exact inputs used - enables "reproduce this image"
+  baseImageId?: string; // Same image before text/diagram overlays - the "More like this" source
+  starred?: boolean; // Kept by image cleanup (ImageRetentionPolicy.keepStarred)
 }
 
 export type DiagramType = 'mermaid' | 'math' | 'code' | 'markdown';
@@ -77,13 +83,38 @@ export interface SceneLayout {
   };
 }
 
+/**
+ * Chapter (or section) grouping scenes within a story
+ *
+ * Scenes join a chapter through scene.chapterId; story.scenes stays the
+ * reading order, with scenes outside any chapter first and then each
+ * chapter's scenes in chapter order (see Story.getSceneSections).
+ */
+export interface Chapter {
+  id: string;
+  title: string;
+  description?: string;
+  layout?: SceneLayout; // Default layout for the chapter's scenes, between scene and story in LayoutResolver
+}
+
+/**
+ * Scenes of one chapter, or of no chapter (chapter: null), in reading order
+ */
+export interface SceneSection<T> {
+  chapter: Chapter | null;
+  scenes: T[];
+}
+
 export interface Scene {
   id: string;
   title: string;
   description: string;
+  chapterId?: string; // Chapter the scene belongs to (see Story.chapters)
   textPanel?: string; // Text to overlay on generated image (supports macros)
   diagramPanel?: DiagramPanel; // Optional diagram to overlay on generated image
   layout?: SceneLayout; // Optional custom layout configuration
+  avoid?: string[]; // Things to keep out of this scene's image (added to story and book avoid-lists)
+  slideshow?: SceneSlideshow; // Duration, camera motion and audio in slideshow videos
   lastGeneratedImage?: string; // DEPRECATED: Kept for backward compatibility
   imageHistory?: GeneratedImage[]; // Array of all generated images for this scene
   // v4.0: Use names instead of IDs for better readability
@@ -110,6 +141,8 @@ export interface Story {
   backgroundSetup: string;
   diagramStyle?: DiagramStyle; // Optional diagram style configuration for all scenes in this story
   layout?: SceneLayout; // Optional default layout for all scenes in this story
+  avoid?: string[]; // Things to keep out of every scene image in this story (added to the book avoid-list)
+  chapters?: Chapter[]; // Optional chapters grouping the scenes, in order
   characters: LegacyCharacter[]; // LEGACY: ID-based characters (deprecated)
   elements: StoryElement[]; // Elements specific to this story
   scenes: Scene[];
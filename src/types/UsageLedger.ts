@@ -0,0 +1,89 @@
+/**
+ * Types for the generation usage ledger and budget caps
+ *
+ * Every image and text LLM call is recorded as a UsageEntry in a per-book
+ * ledger (prompter-cache/usage-ledgers/{book-id}.json). Calls made
+ * outside a book (e.g., experiments) go to the unassigned ledger
+ * (prompter-cache/usage-ledger.json). Creation wizard calls start there too
+ * and move to the new book's ledger when the wizard creates it.
+ */
+
+export type UsageKind = 'image' | 'text';
+
+/**
+ * Where a cost figure came from: reported by the API, estimated from the
+ * model's published pricing, or unknown (no pricing available)
+ */
+export type UsageCostSource = 'reported' | 'estimated' | 'unknown';
+
+/**
+ * What a call was for - passed down by callers so entries can be grouped
+ */
+export interface UsageContext {
+  bookId?: string;
+  storyId?: string;
+  sceneId?: string;
+  characterName?: string;
+  purpose?: string; // e.g. 'scene', 'character', 'experiment', 'wizard:concept'
+  wizardSessionId?: string; // Creation wizard run, moved to the book once it's created
+}
+
+/**
+ * Token/cost figures returned by a provider for a single call
+ */
+export interface UsageMetrics {
+  promptTokens?: number;
+  completionTokens?: number;
+  cost?: number; // USD, when the API reports it
+}
+
+export interface UsageEntry extends UsageContext {
+  id: string;
+  timestamp: Date;
+  kind: UsageKind;
+  model: string;
+  providerId?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  images: number; // Images produced (0 for text calls and failures)
+  estimatedCost: number; // USD
+  costSource: UsageCostSource;
+  success: boolean;
+  error?: string;
+}
+
+export interface UsageLedgerFile {
+  version: 1;
+  entries: UsageEntry[];
+}
+
+export type UsageGroupBy = 'story' | 'month' | 'model' | 'kind';
+
+export interface UsageSummaryRow {
+  key: string; // storyId, 'YYYY-MM', model id or kind ('' for ungrouped)
+  calls: number;
+  failures: number;
+  images: number;
+  tokens: number;
+  cost: number;
+}
+
+/**
+ * Budget cap stored in AppSettings.usageBudget
+ * - period 'month': spend across all books in the current calendar month
+ * - period 'book': lifetime spend of the book being generated for
+ */
+export interface UsageBudget {
+  limit: number; // USD
+  period: 'month' | 'book';
+  action: 'warn' | 'block';
+}
+
+export interface BudgetCheckResult {
+  status: 'ok' | 'warn' | 'block';
+  spent: number;
+  queued: number; // Estimated cost of jobs still waiting in the generation queue
+  planned: number;
+  budget?: UsageBudget;
+  message?: string;
+}
@@ -34,8 +34,7 @@ vi.mock('../../src/services/BookExportWithImagesService', () => ({
   BookExportWithImagesService: {
     exportBookWithImages: vi.fn(),
     importBookWithImages: vi.fn(),
-    generateExportFilename: vi.fn(),
-    downloadBlob: vi.fn()
+    generateExportFilename: vi.fn()
   }
 }));
 
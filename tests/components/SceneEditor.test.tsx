@@ -20,7 +20,8 @@ vi.mock('../../src/services/SceneImageGenerationService', () => ({
   SceneImageGenerationService: {
     generateSceneImage: vi.fn(),
     buildScenePrompt: vi.fn().mockResolvedValue('Test prompt'),
-    generateCompleteSceneImage: vi.fn().mockResolvedValue('data:image/png;base64,test')
+    buildScenePromptWithStrategy: vi.fn().mockReturnValue({ prompt: 'Test prompt', strategy: 'legacy' }),
+    generateCompleteSceneImageWithProvenance: vi.fn().mockResolvedValue({ imageUrl: 'data:image/png;base64,test', provenance: {} })
   }
 }));
 
@@ -9,7 +9,7 @@ import { SceneImageGenerationService } from '../../src/services/SceneImageGenera
 // Mock the SceneImageGenerationService
 vi.mock('../../src/services/SceneImageGenerationService', () => ({
   SceneImageGenerationService: {
-    buildScenePrompt: vi.fn()
+    buildScenePromptWithStrategy: vi.fn()
   }
 }));
 
@@ -61,13 +61,13 @@ describe('ScenePromptPreview', () => {
   ];
 
   let mockOnInsertMacro: ReturnType<typeof vi.fn>;
-  let mockBuildScenePrompt: ReturnType<typeof vi.fn>;
+  let mockBuildScenePromptWithStrategy: ReturnType<typeof vi.fn>;
   let mockWriteText: ReturnType<typeof vi.fn>;
 
   beforeEach(() => {
     mockOnInsertMacro = vi.fn();
-    mockBuildScenePrompt = vi.fn().mockReturnValue('Generated prompt text');
-    (SceneImageGenerationService.buildScenePrompt as any) = mockBuildScenePrompt;
+    mockBuildScenePromptWithStrategy = vi.fn().mockReturnValue({ prompt: 'Generated prompt text', strategy: 'legacy' });
+    (SceneImageGenerationService.buildScenePromptWithStrategy as any) = mockBuildScenePromptWithStrategy;
     
     // Mock clipboard API
     mockWriteText = vi.fn().mockResolvedValue(undefined);
@@ -122,7 +122,7 @@ describe('ScenePromptPreview', () => {
     });
 
     it('should display "No prompt generated yet" when prompt is empty', () => {
-      mockBuildScenePrompt.mockReturnValue('');
+      mockBuildScenePromptWithStrategy.mockReturnValue({ prompt: '', strategy: 'legacy' });
       
       render(
         <ScenePromptPreview
@@ -178,7 +178,7 @@ describe('ScenePromptPreview', () => {
     });
 
     it('should disable Copy button when prompt is error', () => {
-      mockBuildScenePrompt.mockReturnValue('Error generating prompt');
+      mockBuildScenePromptWithStrategy.mockReturnValue({ prompt: 'Error generating prompt', strategy: 'legacy' });
       
       render(
         <ScenePromptPreview
@@ -200,7 +200,7 @@ describe('ScenePromptPreview', () => {
   });
 
   describe('Prompt Generation', () => {
-    it('should call buildScenePrompt with correct parameters', () => {
+    it('should call buildScenePromptWithStrategy with correct parameters', () => {
       render(
         <ScenePromptPreview
           scene={mockScene}
@@ -215,7 +215,7 @@ describe('ScenePromptPreview', () => {
         />
       );
 
-      expect(mockBuildScenePrompt).toHaveBeenCalledWith(
+      expect(mockBuildScenePromptWithStrategy).toHaveBeenCalledWith(
         mockScene,
         mockStory,
         mockActiveBook,
@@ -225,7 +225,8 @@ describe('ScenePromptPreview', () => {
         ]),
         expect.arrayContaining([
           expect.objectContaining({ name: 'Tree' })
-        ])
+        ]),
+        undefined
       );
     });
 
@@ -244,7 +245,7 @@ describe('ScenePromptPreview', () => {
         />
       );
 
-      const callArgs = mockBuildScenePrompt.mock.calls[0];
+      const callArgs = mockBuildScenePromptWithStrategy.mock.calls[0];
       const characters = callArgs[3];
       expect(characters).toHaveLength(1);
       expect(characters[0].name).toBe('Alice');
@@ -265,7 +266,7 @@ describe('ScenePromptPreview', () => {
         />
       );
 
-      const callArgs = mockBuildScenePrompt.mock.calls[0];
+      const callArgs = mockBuildScenePromptWithStrategy.mock.calls[0];
       const elements = callArgs[4];
       expect(elements).toHaveLength(1);
       expect(elements[0].name).toBe('House');
@@ -286,7 +287,7 @@ describe('ScenePromptPreview', () => {
         />
       );
 
-      expect(mockBuildScenePrompt).toHaveBeenCalledTimes(1);
+      expect(mockBuildScenePromptWithStrategy).toHaveBeenCalledTimes(1);
 
       const updatedScene = { ...mockScene, description: 'Updated description' };
       rerender(
@@ -303,7 +304,7 @@ describe('ScenePromptPreview', () => {
         />
       );
 
-      expect(mockBuildScenePrompt).toHaveBeenCalledTimes(2);
+      expect(mockBuildScenePromptWithStrategy).toHaveBeenCalledTimes(2);
     });
 
     it('should regenerate prompt when selected characters change', () => {
@@ -321,7 +322,7 @@ describe('ScenePromptPreview', () => {
         />
       );
 
-      expect(mockBuildScenePrompt).toHaveBeenCalledTimes(1);
+      expect(mockBuildScenePromptWithStrategy).toHaveBeenCalledTimes(1);
 
       rerender(
         <ScenePromptPreview
@@ -337,11 +338,11 @@ describe('ScenePromptPreview', () => {
         />
       );
 
-      expect(mockBuildScenePrompt).toHaveBeenCalledTimes(2);
+      expect(mockBuildScenePromptWithStrategy).toHaveBeenCalledTimes(2);
     });
 
     it('should handle prompt generation errors gracefully', () => {
-      mockBuildScenePrompt.mockImplementation(() => {
+      mockBuildScenePromptWithStrategy.mockImplementation(() => {
         throw new Error('Prompt generation failed');
       });
 
@@ -363,6 +364,84 @@ describe('ScenePromptPreview', () => {
     });
   });
 
+  describe('Token Budget', () => {
+    it('should pass the model through for strategy and budget selection', () => {
+      render(
+        <ScenePromptPreview
+          scene={mockScene}
+          story={mockStory}
+          activeBook={mockActiveBook}
+          availableCharacters={mockAvailableCharacters}
+          availableElements={mockAvailableElements}
+          selectedCharacters={['Alice']}
+          selectedElements={['Tree']}
+          textPanelContent="Test text"
+          onInsertMacro={mockOnInsertMacro}
+          model="google/gemini-2.5-flash-image"
+        />
+      );
+
+      expect(mockBuildScenePromptWithStrategy.mock.calls[0][5]).toBe('google/gemini-2.5-flash-image');
+    });
+
+    it('should report what was compacted and why', () => {
+      mockBuildScenePromptWithStrategy.mockReturnValue({
+        prompt: 'Compacted prompt',
+        strategy: 'gemini',
+        budget: {
+          maxTokens: 2000,
+          originalTokens: 2600,
+          finalTokens: 1900,
+          withinBudget: true,
+          steps: [{
+            section: 'elements',
+            action: 'Shortened element descriptions to their first sentence',
+            reason: 'Element details are the lowest-priority part of the prompt',
+            items: ['Tree', 'House'],
+            tokensSaved: 700
+          }]
+        }
+      });
+
+      render(
+        <ScenePromptPreview
+          scene={mockScene}
+          story={mockStory}
+          activeBook={mockActiveBook}
+          availableCharacters={mockAvailableCharacters}
+          availableElements={mockAvailableElements}
+          selectedCharacters={['Alice']}
+          selectedElements={['Tree']}
+          textPanelContent="Test text"
+          onInsertMacro={mockOnInsertMacro}
+          model="google/gemini-2.5-flash-image"
+        />
+      );
+
+      expect(screen.getByText('~1900 / 2000 tokens (google/gemini-2.5-flash-image)')).toBeInTheDocument();
+      expect(screen.getByText(/Compacted from ~2600 tokens/)).toBeInTheDocument();
+      expect(screen.getByText(/Shortened element descriptions to their first sentence \(Tree, House\)/)).toBeInTheDocument();
+    });
+
+    it('should not show a budget report for prompts built without a strategy', () => {
+      render(
+        <ScenePromptPreview
+          scene={mockScene}
+          story={mockStory}
+          activeBook={mockActiveBook}
+          availableCharacters={mockAvailableCharacters}
+          availableElements={mockAvailableElements}
+          selectedCharacters={['Alice']}
+          selectedElements={['Tree']}
+          textPanelContent="Test text"
+          onInsertMacro={mockOnInsertMacro}
+        />
+      );
+
+      expect(screen.queryByText(/tokens/)).not.toBeInTheDocument();
+    });
+  });
+
   describe('Clipboard Functionality', () => {
     it('should show success message after copying', async () => {
       const user = userEvent.setup();
@@ -489,7 +568,7 @@ describe('ScenePromptPreview', () => {
         />
       );
 
-      const callArgs = mockBuildScenePrompt.mock.calls[0];
+      const callArgs = mockBuildScenePromptWithStrategy.mock.calls[0];
       const characters = callArgs[3];
       expect(characters).toHaveLength(0);
     });
@@ -509,7 +588,7 @@ describe('ScenePromptPreview', () => {
         />
       );
 
-      const callArgs = mockBuildScenePrompt.mock.calls[0];
+      const callArgs = mockBuildScenePromptWithStrategy.mock.calls[0];
       const elements = callArgs[4];
       expect(elements).toHaveLength(0);
     });
@@ -529,12 +608,13 @@ describe('ScenePromptPreview', () => {
         />
       );
 
-      expect(mockBuildScenePrompt).toHaveBeenCalledWith(
+      expect(mockBuildScenePromptWithStrategy).toHaveBeenCalledWith(
         mockScene,
         mockStory,
         null,
         expect.any(Array),
-        expect.any(Array)
+        expect.any(Array),
+        undefined
       );
     });
 
@@ -553,7 +633,7 @@ describe('ScenePromptPreview', () => {
         />
       );
 
-      expect(mockBuildScenePrompt).toHaveBeenCalled();
+      expect(mockBuildScenePromptWithStrategy).toHaveBeenCalled();
     });
   });
 });
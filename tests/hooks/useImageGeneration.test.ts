@@ -16,7 +16,7 @@ import type { PreviewData } from '../../src/components/ImageGenerationPreviewDia
 // Mock the services
 vi.mock('../../src/services/SceneImageGenerationService', () => ({
   SceneImageGenerationService: {
-    generateCompleteSceneImage: vi.fn(),
+    generateCompleteSceneImageWithProvenance: vi.fn(),
     buildScenePrompt: vi.fn()
   }
 }));
@@ -72,6 +72,19 @@ describe('useImageGeneration', () => {
     characters: []
   };
 
+  const mockGenerationResult = {
+    imageUrl: 'data:image/png;base64,test',
+    provenance: {
+      prompt: 'Test prompt',
+      model: 'gemini-2.0-flash-exp',
+      promptStrategy: 'gemini',
+      requestedPromptStrategy: 'auto' as const,
+      aspectRatio: '3:4',
+      referenceImages: [],
+      appVersion: '3.0.0'
+    }
+  };
+
   const mockOnImageStateChange = vi.fn();
   const mockOnSceneUpdate = vi.fn();
 
@@ -85,7 +98,7 @@ describe('useImageGeneration', () => {
     vi.mocked(BookService.saveActiveBookData).mockResolvedValue(undefined);
     vi.mocked(ImageStorageService.storeImage).mockResolvedValue(undefined);
     vi.mocked(ImageStorageService.getImage).mockResolvedValue('blob:test-image-url');
-    vi.mocked(SceneImageGenerationService.generateCompleteSceneImage).mockResolvedValue('data:image/png;base64,test');
+    vi.mocked(SceneImageGenerationService.generateCompleteSceneImageWithProvenance).mockResolvedValue(mockGenerationResult);
     vi.mocked(SceneImageGenerationService.buildScenePrompt).mockResolvedValue('Test prompt');
   });
 
@@ -119,7 +132,7 @@ describe('useImageGeneration', () => {
         expect(result.current.isGenerating).toBe(false);
       });
 
-      expect(SceneImageGenerationService.generateCompleteSceneImage).toHaveBeenCalledWith(
+      expect(SceneImageGenerationService.generateCompleteSceneImageWithProvenance).toHaveBeenCalledWith(
         expect.objectContaining({
           scene: mockScene,
           story: mockStory,
@@ -194,16 +207,34 @@ describe('useImageGeneration', () => {
       expect(savedScene.imageHistory).toBeDefined();
       expect(savedScene.imageHistory.length).toBeGreaterThan(0);
     });
+
+    it('should save provenance with the new history entry', async () => {
+      const { result } = renderHook(() =>
+        useImageGeneration(mockScene, mockStory, mockOnImageStateChange, mockOnSceneUpdate)
+      );
+
+      await act(async () => {
+        await result.current.startGeneration('gemini-2.0-flash-exp', 'auto');
+      });
+
+      await waitFor(() => {
+        expect(BookService.saveActiveBookData).toHaveBeenCalled();
+      });
+
+      const savedData = vi.mocked(BookService.saveActiveBookData).mock.calls[0][0];
+      const savedImage = savedData.stories[0].scenes[0].imageHistory!.at(-1);
+      expect(savedImage?.provenance).toEqual(mockGenerationResult.provenance);
+    });
   });
 
   describe('State transitions', () => {
     it('should set isGenerating to true during generation', async () => {
-      let resolveGeneration: (value: string) => void;
-      const generationPromise = new Promise<string>((resolve) => {
+      let resolveGeneration: (value: typeof mockGenerationResult) => void;
+      const generationPromise = new Promise<typeof mockGenerationResult>((resolve) => {
         resolveGeneration = resolve;
       });
       
-      vi.mocked(SceneImageGenerationService.generateCompleteSceneImage).mockReturnValue(generationPromise);
+      vi.mocked(SceneImageGenerationService.generateCompleteSceneImageWithProvenance).mockReturnValue(generationPromise);
 
       const { result } = renderHook(() =>
         useImageGeneration(mockScene, mockStory, mockOnImageStateChange, mockOnSceneUpdate)
@@ -218,7 +249,7 @@ describe('useImageGeneration', () => {
       });
 
       await act(async () => {
-        resolveGeneration!('data:image/png;base64,test');
+        resolveGeneration!(mockGenerationResult);
       });
 
       await waitFor(() => {
@@ -232,7 +263,7 @@ describe('useImageGeneration', () => {
       );
 
       // First, cause an error
-      vi.mocked(SceneImageGenerationService.generateCompleteSceneImage).mockRejectedValueOnce(
+      vi.mocked(SceneImageGenerationService.generateCompleteSceneImageWithProvenance).mockRejectedValueOnce(
         new Error('Test error')
       );
 
@@ -249,9 +280,7 @@ describe('useImageGeneration', () => {
       });
 
       // Now start a new generation
-      vi.mocked(SceneImageGenerationService.generateCompleteSceneImage).mockResolvedValueOnce(
-        'data:image/png;base64,test'
-      );
+      vi.mocked(SceneImageGenerationService.generateCompleteSceneImageWithProvenance).mockResolvedValueOnce(mockGenerationResult);
 
       await act(async () => {
         await result.current.startGeneration('gemini-2.0-flash-exp', 'auto');
@@ -266,7 +295,7 @@ describe('useImageGeneration', () => {
   describe('Error handling', () => {
     it('should set generationError on failure', async () => {
       const testError = new Error('Generation failed');
-      vi.mocked(SceneImageGenerationService.generateCompleteSceneImage).mockRejectedValueOnce(testError);
+      vi.mocked(SceneImageGenerationService.generateCompleteSceneImageWithProvenance).mockRejectedValueOnce(testError);
 
       const { result } = renderHook(() =>
         useImageGeneration(mockScene, mockStory, mockOnImageStateChange, mockOnSceneUpdate)
@@ -286,7 +315,7 @@ describe('useImageGeneration', () => {
     });
 
     it('should set isGenerating to false on error', async () => {
-      vi.mocked(SceneImageGenerationService.generateCompleteSceneImage).mockRejectedValueOnce(
+      vi.mocked(SceneImageGenerationService.generateCompleteSceneImageWithProvenance).mockRejectedValueOnce(
         new Error('Test error')
       );
 
@@ -308,7 +337,7 @@ describe('useImageGeneration', () => {
     });
 
     it('should clear error with clearError method', async () => {
-      vi.mocked(SceneImageGenerationService.generateCompleteSceneImage).mockRejectedValueOnce(
+      vi.mocked(SceneImageGenerationService.generateCompleteSceneImageWithProvenance).mockRejectedValueOnce(
         new Error('Test error')
       );
 
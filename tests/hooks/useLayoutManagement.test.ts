@@ -37,6 +37,7 @@ vi.mock('../../src/services/LayoutResolver', () => ({
     resolveLayout: vi.fn(),
     getLayoutSource: vi.fn(),
     getLayoutSourceDescription: vi.fn(),
+    getChapter: vi.fn(),
   }
 }));
 
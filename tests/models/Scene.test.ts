@@ -232,6 +232,15 @@ describe('Scene Model', () => {
       expect(latest).toBeUndefined();
     });
 
+    it('should fill in macros in the panel text', () => {
+      scene.description = 'A fox ';
+      scene.textPanel = '{SceneDescription}jumps\n';
+      expect(scene.getPanelText()).toBe('A fox jumps');
+
+      scene.textPanel = '   ';
+      expect(scene.getPanelText()).toBeUndefined();
+    });
+
     it('should delete an image by ID', () => {
       const image: GeneratedImage = {
         id: 'img-1',
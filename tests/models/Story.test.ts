@@ -278,6 +278,72 @@ describe('Story Model', () => {
     });
   });
 
+  describe('Scene Order and Chapters', () => {
+    const titles = () => story.scenes.map(scene => scene.title);
+
+    beforeEach(() => {
+      ['One', 'Two', 'Three'].forEach(title => story.addScene(new Scene({ title, description: '' })));
+    });
+
+    it('should move a scene to another position', () => {
+      story.moveScene(story.scenes[2].id, 0);
+
+      expect(titles()).toEqual(['Three', 'One', 'Two']);
+    });
+
+    it('should keep scenes in reading order when moving them into chapters', () => {
+      const first = story.addChapter('Chapter 1');
+      const second = story.addChapter('Chapter 2');
+
+      story.moveScene(story.scenes[0].id, 0, second.id);
+      story.moveScene(story.scenes[0].id, 0, first.id);
+
+      expect(titles()).toEqual(['Three', 'Two', 'One']);
+      expect(story.getSceneSections().map(section => section.scenes.length)).toEqual([1, 1, 1]);
+    });
+
+    it('should move a chapter together with its scenes', () => {
+      const first = story.addChapter('Chapter 1');
+      const second = story.addChapter('Chapter 2');
+      story.moveScene(story.scenes[1].id, 0, first.id);
+      story.moveScene(story.scenes[1].id, 0, second.id);
+
+      story.moveChapter(second.id, 0);
+
+      expect(story.chapters.map(c => c.title)).toEqual(['Chapter 2', 'Chapter 1']);
+      expect(titles()).toEqual(['One', 'Three', 'Two']);
+    });
+
+    it('should give the scenes of a deleted chapter to the previous chapter', () => {
+      const first = story.addChapter('Chapter 1');
+      const second = story.addChapter('Chapter 2');
+      story.moveScene(story.scenes[1].id, 0, first.id);
+      story.moveScene(story.scenes[1].id, 0, second.id);
+
+      expect(story.deleteChapter(second.id)).toBe(true);
+
+      expect(story.scenes.filter(scene => scene.chapterId === first.id)).toHaveLength(2);
+      expect(titles()).toEqual(['One', 'Two', 'Three']);
+    });
+
+    it('should reject unknown chapters', () => {
+      expect(() => story.moveScene(story.scenes[0].id, 0, 'missing')).toThrow('not found');
+    });
+
+    it('should round-trip chapters through the export format', async () => {
+      const chapter = story.addChapter('Chapter 1', { description: 'The start' });
+      story.moveScene(story.scenes[2].id, 0, chapter.id);
+
+      const exported = story.toExportJSON();
+      expect(exported.chapters).toEqual([{ title: 'Chapter 1', description: 'The start', layout: undefined }]);
+      expect(exported.scenes[2].chapter).toBe('Chapter 1');
+
+      const imported = await Story.fromJSON(exported);
+      expect(imported.chapters).toHaveLength(1);
+      expect(imported.scenes.map(scene => scene.chapterId)).toEqual([undefined, undefined, imported.chapters[0].id]);
+    });
+  });
+
   describe('JSON Conversion', () => {
     it('should convert to JSON serialization format', () => {
       story.addCharacter({ name: 'Alice', description: 'A brave hero' });
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { AvoidListResolver } from '../../src/services/AvoidListResolver';
+import { LegacyPromptBuildingService } from '../../src/services/LegacyPromptBuildingService';
+import { GeminiPromptBuildingService } from '../../src/services/GeminiPromptBuildingService';
+import { TemplatePromptBuildingService } from '../../src/services/TemplatePromptBuildingService';
+import { StoryExportService } from '../../src/services/StoryExportService';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+import type { Story as StoryType } from '../../src/types/Story';
+
+const createBook = () => {
+  const book = new Book({ title: 'Avoid Book', style: { artStyle: 'watercolor', avoid: ['watermarks', 'Text'] } });
+  const story = new Story({ title: 'Story', backgroundSetup: 'A meadow', avoid: ['extra limbs', 'text'] });
+  const scene = new Scene({ title: 'Scene', description: 'A fox in a meadow', avoid: ['rain'] });
+  story.addScene(scene);
+  book.addStory(story);
+  return { book, story, scene };
+};
+
+describe('AvoidListResolver', () => {
+  describe('resolveAvoidEntries', () => {
+    it('should merge scene, story and book terms, attributing duplicates to the most specific level', () => {
+      const { book, story, scene } = createBook();
+
+      expect(AvoidListResolver.resolveAvoidEntries(scene, story, book)).toEqual([
+        { term: 'rain', source: 'scene' },
+        { term: 'extra limbs', source: 'story' },
+        { term: 'text', source: 'story' },
+        { term: 'watermarks', source: 'book' }
+      ]);
+    });
+
+    it('should handle missing levels', () => {
+      expect(AvoidListResolver.resolveAvoidList(null, null, null)).toEqual([]);
+      expect(AvoidListResolver.resolveAvoidList({ avoid: ['blur'] }, null, { style: {} })).toEqual(['blur']);
+    });
+  });
+
+  describe('normalize', () => {
+    it('should trim and drop empty and duplicate terms', () => {
+      expect(AvoidListResolver.normalize([' text ', '', 'TEXT', 'logos', 42])).toEqual(['text', 'logos']);
+    });
+
+    it('should return undefined for empty or invalid lists', () => {
+      expect(AvoidListResolver.normalize([' '])).toBeUndefined();
+      expect(AvoidListResolver.normalize('text')).toBeUndefined();
+    });
+  });
+
+  describe('prompt strategies', () => {
+    const buildOptions = () => {
+      const { book, story, scene } = createBook();
+      return { scene, story, book, characters: [], elements: [], hasReferenceImages: false };
+    };
+
+    it('should phrase the avoid-list as a negative instruction for legacy prompts', () => {
+      const result = new LegacyPromptBuildingService().buildScenePrompt(buildOptions());
+
+      expect(result.prompt).toContain('Do NOT include: rain, extra limbs, text, watermarks.');
+      expect(result.metadata?.sections).toContain('avoid');
+    });
+
+    it('should add an exclusions section for Gemini prompts', () => {
+      const result = new GeminiPromptBuildingService().buildScenePrompt(buildOptions());
+
+      expect(result.prompt).toContain('EXCLUSIONS:\n• Keep the image completely free of: rain, extra limbs, text, watermarks');
+      expect(result.prompt.indexOf('EXCLUSIONS:')).toBeLessThan(result.prompt.indexOf('REQUIREMENTS:'));
+      expect(result.metadata?.sections).toContain('exclusions');
+    });
+
+    it('should fill the {{Avoid}} template placeholder', () => {
+      const result = new TemplatePromptBuildingService({ scene: '{{SceneTitle}}\n{{Avoid}}' }).buildScenePrompt(buildOptions());
+
+      expect(result.prompt).toBe('Scene\nAvoid: rain, extra limbs, text, watermarks.');
+    });
+
+    it('should only use the book avoid-list for character prompts', () => {
+      const { book } = createBook();
+      const result = new LegacyPromptBuildingService().buildCharacterPrompt({
+        character: { name: 'Fox', description: 'A red fox' },
+        storyBackgroundSetup: '',
+        book,
+        hasReferenceImage: false
+      });
+
+      expect(result.prompt).toContain('Do NOT include: watermarks, Text.');
+      expect(result.prompt).not.toContain('rain');
+    });
+
+    it('should leave prompts unchanged when nothing is avoided', () => {
+      const options = { ...buildOptions(), scene: new Scene({ title: 'Scene', description: 'A fox' }), story: new Story({ title: 'S', backgroundSetup: '' }), book: null };
+
+      expect(new LegacyPromptBuildingService().buildScenePrompt(options).prompt).not.toContain('Do NOT include');
+      expect(new GeminiPromptBuildingService().buildScenePrompt(options).prompt).not.toContain('EXCLUSIONS');
+    });
+  });
+
+  describe('exchange formats', () => {
+    it('should round-trip avoid-lists through BookExchangeFormat', async () => {
+      const { book } = createBook();
+
+      const imported = await Book.fromJSON(JSON.parse(JSON.stringify(book.toExportJSON())));
+
+      expect(imported.style.avoid).toEqual(['watermarks', 'Text']);
+      expect(imported.stories[0].avoid).toEqual(['extra limbs', 'text']);
+      expect(imported.stories[0].scenes[0].avoid).toEqual(['rain']);
+    });
+
+    it('should round-trip avoid-lists through storage serialization', () => {
+      const { story } = createBook();
+
+      const parsed = JSON.parse(JSON.stringify(story));
+
+      expect(new Story(parsed).avoid).toEqual(['extra limbs', 'text']);
+      expect(new Scene(parsed.scenes[0]).avoid).toEqual(['rain']);
+    });
+
+    it('should include avoid-lists in the story JSON export', () => {
+      const story: StoryType = {
+        id: 'story-1',
+        title: 'Story',
+        backgroundSetup: 'A meadow',
+        avoid: ['text'],
+        characters: [],
+        elements: [],
+        scenes: [{
+          id: 'scene-1',
+          title: 'Scene',
+          description: 'A fox',
+          avoid: ['rain'],
+          characters: [],
+          elements: [],
+          characterIds: [],
+          elementIds: [],
+          createdAt: new Date(),
+          updatedAt: new Date()
+        }],
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      const exported = StoryExportService.toExchangeFormat(story);
+
+      expect(exported.story.avoid).toEqual(['text']);
+      expect(exported.scenes[0].avoid).toEqual(['rain']);
+    });
+  });
+});
@@ -64,7 +64,8 @@ describe('BookCreationWizardService', () => {
         'concept',
         expect.objectContaining({
           concept: 'A book about learning algorithms'
-        })
+        }),
+        expect.objectContaining({ purpose: 'wizard:concept' })
       );
     });
 
@@ -179,7 +180,8 @@ describe('BookCreationWizardService', () => {
         expect.objectContaining({
           concept: 'Educational book',
           stylePreferences: 'colorful and engaging'
-        })
+        }),
+        expect.objectContaining({ purpose: 'wizard:style' })
       );
     });
   });
@@ -212,7 +214,8 @@ describe('BookCreationWizardService', () => {
       expect(ImageGenerationService.generateImage).toHaveBeenCalledWith({
         prompt: 'A digital illustration...',
         aspectRatio: '3:4',
-        model: undefined
+        model: undefined,
+        usageContext: expect.objectContaining({ purpose: 'wizard:style-image' })
       });
     });
 
@@ -304,7 +307,8 @@ describe('BookCreationWizardService', () => {
           concept: 'Educational book',
           currentStylePrompt: 'A digital illustration',
           stylePreferences: 'make it more cartoonish'
-        })
+        }),
+        expect.objectContaining({ purpose: 'wizard:refinement' })
       );
     });
   });
@@ -325,7 +329,8 @@ describe('BookCreationWizardService', () => {
       expect(ImageGenerationService.generateImage).toHaveBeenCalledWith({
         prompt: 'Refined prompt',
         aspectRatio: '16:9',
-        model: undefined
+        model: undefined,
+        usageContext: expect.objectContaining({ purpose: 'wizard:refinement-image' })
       });
     });
 
@@ -0,0 +1,278 @@
+/**
+ * BookHistoryService Tests
+ *
+ * Runs the real StorageService/BookCache stack on an in-memory backend, so
+ * saves are recorded exactly as they are in the app.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  BookHistoryService,
+  describeBookChange,
+  serializeBookSnapshot
+} from '../../src/services/BookHistoryService';
+import { StorageService } from '../../src/services/StorageService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { FileBasedStorageService } from '../../src/services/FileBasedStorageService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import { bookCache } from '../../src/services/BookCache';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+
+function createBook(): Book {
+  const story = new Story({
+    title: 'Voyage',
+    backgroundSetup: 'A long sea voyage',
+    characters: [{ name: 'Ada', description: 'Navigator' }, { name: 'Bo', description: 'Cook' }],
+    elements: [{ name: 'Compass', description: 'Brass compass' }]
+  });
+  story.addScene(new Scene({ title: 'Departure', description: 'Leaving port', characters: ['Ada', 'Bo'] }));
+  story.addScene(new Scene({ title: 'Storm', description: 'Waves everywhere', characters: ['Ada'] }));
+  return new Book({ title: 'Sea Tales', stories: [story] });
+}
+
+// Let BookCache's background filesystem writes finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Saves are recorded once written, so wait for the write before undoing
+async function save(book: Book): Promise<void> {
+  await StorageService.saveBook(book);
+  await settle();
+}
+
+async function saveNewBook(): Promise<Book> {
+  const book = createBook();
+  await save(book);
+  return book;
+}
+
+describe('describeBookChange', () => {
+  const describeEdit = (edit: (book: Book) => void): string => {
+    const book = createBook();
+    const before = serializeBookSnapshot(book);
+    edit(book);
+    return describeBookChange(before, serializeBookSnapshot(book));
+  };
+
+  it('should describe added and deleted scenes', () => {
+    expect(describeEdit(book => book.stories[0].addScene(new Scene({ title: 'Landfall', description: '' }))))
+      .toBe('Add scene "Landfall"');
+    expect(describeEdit(book => book.stories[0].deleteScene(book.stories[0].scenes[1].id)))
+      .toBe('Delete scene "Storm"');
+  });
+
+  it('should describe a character deletion rather than the scene casts it rewrites', () => {
+    expect(describeEdit(book => book.stories[0].deleteCharacter('Bo'))).toBe('Delete character "Bo"');
+  });
+
+  it('should describe renames', () => {
+    expect(describeEdit(book => book.stories[0].renameElement('Compass', 'Sextant')))
+      .toBe('Rename element "Compass" to "Sextant"');
+    expect(describeEdit(book => { book.stories[0].scenes[0].title = 'Farewell'; }))
+      .toBe('Rename scene "Departure" to "Farewell"');
+  });
+
+  it('should describe layout, image selection and style changes', () => {
+    expect(describeEdit(book => {
+      book.stories[0].scenes[1].layout = { type: 'overlay' } as Scene['layout'];
+    })).toBe('Change layout of scene "Storm"');
+    expect(describeEdit(book => { book.stories[0].characters[0].selectedImageId = 'img-1'; }))
+      .toBe('Select image for "Ada"');
+    expect(describeEdit(book => book.updateStyle({ colorPalette: 'sepia' })))
+      .toBe('Change book style');
+  });
+
+  it('should ignore transient image URLs', () => {
+    const book = createBook();
+    book.stories[0].scenes[0].imageHistory = [{ id: 'img-1', model: 'm', prompt: 'p', timestamp: new Date(0) }];
+    const before = serializeBookSnapshot(book);
+    book.stories[0].scenes[0].imageHistory![0].url = 'blob:loaded';
+
+    expect(serializeBookSnapshot(book)).toBe(before);
+  });
+});
+
+describe('BookHistoryService', () => {
+  beforeEach(() => {
+    FileSystemService.setBackend(new MemoryStorageBackend());
+    bookCache.clear();
+    BookHistoryService.reset();
+  });
+
+  afterEach(async () => {
+    await settle();
+    FileSystemService.setBackend(null);
+    bookCache.clear();
+    BookHistoryService.reset();
+  });
+
+  it('should not record the first save of a new book', async () => {
+    const book = await saveNewBook();
+
+    expect(BookHistoryService.getState(book.id).canUndo).toBe(false);
+  });
+
+  it('should undo and redo a scene deletion', async () => {
+    const book = await saveNewBook();
+    const stormId = book.stories[0].scenes[1].id;
+
+    book.stories[0].deleteScene(stormId);
+    await save(book);
+
+    const state = BookHistoryService.getState(book.id);
+    expect(state.undoStack.map(entry => entry.label)).toEqual(['Delete scene "Storm"']);
+    expect(state.undoStack[0]).not.toHaveProperty('snapshot');
+
+    const restored = await BookHistoryService.undo(book.id);
+    expect(restored?.stories[0].scenes.map(scene => scene.id)).toContain(stormId);
+    expect((await StorageService.getBook(book.id))?.stories[0].scenes).toHaveLength(2);
+    expect(BookHistoryService.getState(book.id)).toMatchObject({ canUndo: false, canRedo: true });
+
+    const redone = await BookHistoryService.redo(book.id);
+    expect(redone?.stories[0].scenes).toHaveLength(1);
+    expect(BookHistoryService.getState(book.id).undoStack[0].label).toBe('Delete scene "Storm"');
+  });
+
+  it('should restore scene casts when undoing a character deletion', async () => {
+    const book = await saveNewBook();
+
+    book.stories[0].deleteCharacter('Bo');
+    await save(book);
+    const restored = await BookHistoryService.undo(book.id);
+
+    expect(restored?.stories[0].characters.map(c => c.name)).toEqual(['Ada', 'Bo']);
+    expect(restored?.stories[0].scenes[0].characters).toEqual(['Ada', 'Bo']);
+  });
+
+  it('should not record a save that was not written', async () => {
+    const book = await saveNewBook();
+    const write = vi.spyOn(FileBasedStorageService, 'saveBook').mockResolvedValueOnce({ success: false, error: 'refused' });
+
+    book.title = 'Sea Stories';
+    await save(book);
+    write.mockRestore();
+
+    expect(BookHistoryService.getState(book.id).canUndo).toBe(false);
+
+    book.stories[0].deleteScene(book.stories[0].scenes[1].id);
+    await save(book);
+    const restored = await BookHistoryService.undo(book.id);
+    expect(restored?.title).toBe('Sea Tales');
+    expect(restored?.stories[0].scenes).toHaveLength(2);
+  });
+
+  it('should coalesce rapid edits with the same label', async () => {
+    const book = await saveNewBook();
+
+    for (const description of ['L', 'Le', 'Lea', 'Leaving']) {
+      book.stories[0].scenes[0].description = description;
+      await save(book);
+    }
+
+    expect(BookHistoryService.getState(book.id).undoStack).toHaveLength(1);
+
+    const restored = await BookHistoryService.undo(book.id);
+    expect(restored?.stories[0].scenes[0].description).toBe('Leaving port');
+  });
+
+  it('should clear the redo stack on a new edit', async () => {
+    const book = await saveNewBook();
+
+    book.stories[0].deleteScene(book.stories[0].scenes[1].id);
+    await save(book);
+    const restored = await BookHistoryService.undo(book.id);
+
+    restored!.title = 'Sea Stories';
+    await save(restored!);
+
+    const state = BookHistoryService.getState(book.id);
+    expect(state.canRedo).toBe(false);
+    expect(state.undoStack.map(entry => entry.label)).toEqual(['Rename book to "Sea Stories"']);
+  });
+
+  it('should jump several steps at once', async () => {
+    const book = await saveNewBook();
+
+    book.stories[0].renameElement('Compass', 'Sextant');
+    await save(book);
+    book.stories[0].deleteCharacter('Bo');
+    await save(book);
+    book.stories[0].deleteScene(book.stories[0].scenes[1].id);
+    await save(book);
+
+    const oldest = BookHistoryService.getState(book.id).undoStack[2];
+    expect(oldest.label).toBe('Rename element "Compass" to "Sextant"');
+
+    const restored = await BookHistoryService.moveTo(book.id, oldest.id);
+    expect(restored?.stories[0].elements[0].name).toBe('Compass');
+    expect(restored?.stories[0].scenes).toHaveLength(2);
+    expect(BookHistoryService.getState(book.id).redoStack).toHaveLength(3);
+
+    const redone = await BookHistoryService.moveTo(book.id, BookHistoryService.getState(book.id).redoStack[2].id);
+    expect(redone?.stories[0].scenes).toHaveLength(1);
+    expect(BookHistoryService.getState(book.id).canRedo).toBe(false);
+  });
+
+  it('should restore persisted history after a reload', async () => {
+    const book = await saveNewBook();
+    book.stories[0].deleteScene(book.stories[0].scenes[1].id);
+    await save(book);
+    await BookHistoryService.flush();
+    await settle();
+
+    // Simulate an app reload on the same storage
+    bookCache.clear();
+    BookHistoryService.reset();
+    await StorageService.getBook(book.id);
+    await BookHistoryService.loadBookHistory(book.id);
+
+    expect(BookHistoryService.getState(book.id).undoStack.map(entry => entry.label)).toEqual(['Delete scene "Storm"']);
+    const restored = await BookHistoryService.undo(book.id);
+    expect(restored?.stories[0].scenes).toHaveLength(2);
+  });
+
+  it('should discard persisted history if the book changed since', async () => {
+    const book = await saveNewBook();
+    book.stories[0].deleteScene(book.stories[0].scenes[1].id);
+    await save(book);
+    await BookHistoryService.flush();
+
+    // Another save that bypasses history (e.g., an edit made outside the app)
+    book.title = 'Changed elsewhere';
+    await bookCache.set(book);
+    await settle();
+
+    bookCache.clear();
+    BookHistoryService.reset();
+    await StorageService.getBook(book.id);
+    await BookHistoryService.loadBookHistory(book.id);
+
+    expect(BookHistoryService.getState(book.id).canUndo).toBe(false);
+  });
+
+  it('should clear every history but keep recording new edits', async () => {
+    const book = await saveNewBook();
+    book.stories[0].deleteScene(book.stories[0].scenes[1].id);
+    await save(book);
+    await BookHistoryService.flush();
+
+    expect(await BookHistoryService.clearAll()).toBe(1);
+    expect(BookHistoryService.getState(book.id).canUndo).toBe(false);
+    expect(await BookHistoryService.loadAllHistoryBooks()).toEqual([]);
+
+    book.title = 'Renamed';
+    await save(book);
+    expect(BookHistoryService.getState(book.id).undoStack.map(entry => entry.label)).toEqual(['Rename book to "Renamed"']);
+  });
+
+  it('should forget history when the book is deleted', async () => {
+    const book = await saveNewBook();
+    book.title = 'Renamed';
+    await save(book);
+
+    await StorageService.deleteBook(book.id);
+
+    expect(BookHistoryService.getState(book.id).canUndo).toBe(false);
+  });
+});
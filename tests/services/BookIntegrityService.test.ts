@@ -0,0 +1,284 @@
+/**
+ * BookIntegrityService Tests
+ *
+ * Books are saved through the real StorageService/BookCache stack on an
+ * in-memory backend, with image files written directly.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BookIntegrityService, findLayoutProblem } from '../../src/services/BookIntegrityService';
+import { BookSnapshotService } from '../../src/services/BookSnapshotService';
+import { BookHistoryService } from '../../src/services/BookHistoryService';
+import { StorageService } from '../../src/services/StorageService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import { bookCache } from '../../src/services/BookCache';
+import { ImageStoreService } from '../../src/services/ImageStoreService';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+import type { IntegrityIssue } from '../../src/types/BookIntegrity';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+const image = (id: string) => ({ id, model: 'test-model', prompt: 'portrait', timestamp: new Date('2026-01-01') });
+
+function createBook(): Book {
+  const voyage = new Story({
+    title: 'Voyage',
+    backgroundSetup: 'A long sea voyage',
+    characters: [{
+      name: 'Ada',
+      description: 'Navigator',
+      imageGallery: [image('ada-1'), image('ada-2')],
+      selectedImageId: 'ada-2'
+    }],
+    elements: [{ name: 'Compass', description: 'Brass compass' }]
+  });
+  voyage.addScene(new Scene({
+    title: 'Departure',
+    description: 'Leaving port',
+    characters: ['Ada'],
+    elements: ['Compass'],
+    imageHistory: [{ id: 'scene-1', modelName: 'test-model', timestamp: new Date('2026-01-01') }]
+  }));
+
+  return new Book({ title: 'Sea Tales', stories: [voyage] });
+}
+
+// Let BookCache's background filesystem writes finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('BookIntegrityService', () => {
+  let backend: MemoryStorageBackend;
+  let book: Book;
+
+  const types = (issues: IntegrityIssue[]) => issues.map(issue => issue.type).sort();
+
+  beforeEach(async () => {
+    backend = new MemoryStorageBackend();
+    FileSystemService.setBackend(backend);
+    bookCache.clear();
+    BookHistoryService.reset();
+    BookSnapshotService.reset();
+    ImageStoreService.reset();
+
+    await backend.writeBinary('prompter-cache/characters/ada-1.png', PNG);
+    await backend.writeBinary('prompter-cache/characters/ada-2.png', PNG);
+    await backend.writeBinary('prompter-cache/scenes/scene-1.png', PNG);
+
+    book = createBook();
+    await StorageService.saveBook(book);
+  });
+
+  afterEach(async () => {
+    await settle();
+    FileSystemService.setBackend(null);
+    bookCache.clear();
+    BookHistoryService.reset();
+    BookSnapshotService.reset();
+  });
+
+  it('should find nothing wrong with a consistent book', async () => {
+    const report = await BookIntegrityService.checkAll();
+
+    expect(report.issues).toEqual([]);
+    expect(report).toMatchObject({ booksChecked: 1, imageFilesChecked: 3, filesChecked: true });
+  });
+
+  it('should report scene reference problems by severity', async () => {
+    book.stories[0].scenes[0].characters = ['Ada', 'ada', 'Bo'];
+    book.stories[0].scenes[0].elements = ['compass'];
+    await StorageService.saveBook(book);
+
+    const report = await BookIntegrityService.checkAll();
+
+    expect(report.issues.map(issue => [issue.type, issue.severity])).toEqual([
+      ['dangling-character-ref', 'error'],
+      ['reference-case-mismatch', 'warning'],
+      ['duplicate-scene-ref', 'info']
+    ]);
+    expect(report.issues[1].message).toContain('named "Compass"');
+    expect(BookIntegrityService.groupBySeverity(report.issues).map(group => group.severity)).toEqual(['error', 'warning', 'info']);
+  });
+
+  it('should report missing and orphaned image files', async () => {
+    await backend.delete('prompter-cache/characters/ada-1.png');
+    await backend.delete('prompter-cache/scenes/scene-1.png');
+    await backend.writeBinary('prompter-cache/scenes/old.png', PNG);
+
+    const report = await BookIntegrityService.checkAll();
+
+    expect(types(report.issues)).toEqual(['missing-image-file', 'missing-image-file', 'orphan-image-file']);
+    expect(report.issues.find(issue => issue.type === 'orphan-image-file')?.location.path).toBe('prompter-cache/scenes/old.png');
+  });
+
+  it('should not report stored images as missing when the image store index is unreadable', async () => {
+    await ImageStoreService.migrateLegacyImages();
+    await backend.writeText('prompter-cache/blobs/index.json', '{"version": 1, "ima');
+    ImageStoreService.reset();
+
+    const report = await BookIntegrityService.checkAll();
+
+    expect(types(report.issues)).not.toContain('missing-image-file');
+    expect(report.imageCheckError).toMatch(/could not be read/);
+  });
+
+  it('should count reference images as used', async () => {
+    book.stories[0].characters[0].referenceImageId = 'ada-ref';
+    await StorageService.saveBook(book);
+    await backend.writeBinary('prompter-cache/characters/ada-ref.png', PNG);
+
+    const report = await BookIntegrityService.checkAll();
+
+    expect(report.issues).toEqual([]);
+  });
+
+  it('should report invalid layouts, stale selections and colliding slugs', async () => {
+    book.stories[0].scenes[0].layout = {
+      type: 'overlay',
+      canvas: { width: 0, height: 1080, aspectRatio: '16:9' },
+      elements: { image: { x: 0, y: 0, width: 100, height: 100, zIndex: 1 } }
+    };
+    book.stories[0].characters[0].selectedImageId = 'gone';
+    book.addStory(new Story({ title: 'voyage!', backgroundSetup: 'Again' }));
+    await StorageService.saveBook(book);
+    await StorageService.saveBook(new Book({ title: 'Sea  Tales' }));
+
+    const report = await BookIntegrityService.checkAll();
+
+    expect(types(report.issues)).toEqual([
+      'duplicate-book-slug',
+      'duplicate-story-slug',
+      'invalid-layout',
+      'stale-selected-image'
+    ]);
+    expect(report.issues.find(issue => issue.type === 'invalid-layout')?.message).toContain('canvas size');
+  });
+
+  it('should give the same issue the same id in every check', async () => {
+    book.stories[0].scenes[0].characters = ['Bo'];
+    await StorageService.saveBook(book);
+
+    const first = await BookIntegrityService.checkAll();
+    const second = await BookIntegrityService.checkAll();
+
+    expect(second.issues.map(issue => issue.id)).toEqual(first.issues.map(issue => issue.id));
+  });
+
+  it('should preview fixes without changing anything', async () => {
+    book.stories[0].scenes[0].characters = ['Ada', 'Bo'];
+    await StorageService.saveBook(book);
+    await backend.writeBinary('prompter-cache/scenes/old.png', PNG);
+    await settle();
+    const pathsBefore = backend.getPaths();
+
+    const report = await BookIntegrityService.checkAll();
+    const result = await BookIntegrityService.applyFixes(report.issues, { dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.applied).toHaveLength(2);
+    expect(result.deletedFiles).toEqual(['prompter-cache/scenes/old.png']);
+    expect(result.bookChanges[0].diff.stories[0].status).toBe('modified');
+    expect((await StorageService.getBook(book.id))?.stories[0].scenes[0].characters).toEqual(['Ada', 'Bo']);
+    expect(backend.getPaths()).toEqual(pathsBefore);
+    expect(await BookSnapshotService.listSnapshots(book.id)).toEqual([]);
+  });
+
+  it('should apply fixes, snapshotting the book first', async () => {
+    const scene = book.stories[0].scenes[0];
+    scene.characters = ['ada', 'Bo'];
+    book.stories[0].characters[0].selectedImageId = 'gone';
+    book.addStory(new Story({ title: 'Voyage', backgroundSetup: 'Again' }));
+    await StorageService.saveBook(book);
+    await backend.delete('prompter-cache/scenes/scene-1.png');
+    await backend.writeBinary('prompter-cache/characters/old.png', PNG);
+    await backend.writeText('prompter-cache/characters/old.json', '{}');
+
+    const report = await BookIntegrityService.checkAll();
+    const result = await BookIntegrityService.applyFixes(report.issues);
+    await settle();
+
+    expect(result.skipped).toEqual([]);
+    const fixed = await StorageService.getBook(book.id);
+    expect(fixed?.stories[0].scenes[0].characters).toEqual(['Ada']);
+    expect(fixed?.stories[0].scenes[0].imageHistory).toEqual([]);
+    expect(fixed?.stories[0].characters[0].selectedImageId).toBe('ada-2');
+    expect(fixed?.stories.map(story => story.title)).toEqual(['Voyage', 'Voyage (2)']);
+    expect(await backend.exists('prompter-cache/characters/old.png')).toBe(false);
+    expect(await backend.exists('prompter-cache/characters/old.json')).toBe(false);
+    expect(await backend.readBinary('prompter-cache/removed-images/old.png')).toEqual(PNG);
+    expect(await backend.exists('prompter-cache/removed-images/old.json')).toBe(true);
+
+    const snapshots = await BookSnapshotService.listSnapshots(book.id);
+    expect(snapshots[0]).toMatchObject({ reason: 'migration', label: 'Before integrity repair' });
+    expect((await BookIntegrityService.checkAll()).issues).toEqual([]);
+  });
+
+  it('should check images in the image store', async () => {
+    await ImageStoreService.migrateLegacyImages();
+    await ImageStoreService.putImage('unused', PNG, { kind: 'character' });
+
+    const report = await BookIntegrityService.checkAll();
+    expect(report.issues.map(issue => [issue.type, issue.location.imageId])).toEqual([['orphan-image-file', 'unused']]);
+
+    const result = await BookIntegrityService.applyFixes(report.issues);
+    expect(result.deletedFiles).toEqual(['unused (image store)']);
+    expect(await ImageStoreService.hasImage('unused')).toBe(false);
+    expect(await backend.readBinary('prompter-cache/removed-images/unused.png')).toEqual(PNG);
+    expect(await ImageStoreService.hasImage('ada-1')).toBe(true);
+  });
+
+  it('should count images used by snapshots and undo history as used', async () => {
+    await backend.writeBinary('prompter-cache/scenes/scene-0.png', PNG);
+    await backend.writeBinary('prompter-cache/scenes/scene-2.png', PNG);
+    const scene = book.stories[0].scenes[0];
+    scene.imageHistory = [{ id: 'scene-0', modelName: 'test-model', timestamp: new Date('2026-01-01') }, ...scene.imageHistory!];
+    await StorageService.saveBook(book);
+    await BookSnapshotService.createSnapshot(book.id, 'manual');
+
+    // scene-0 only lives on in the snapshot, scene-2 only in the undo history
+    BookHistoryService.reset();
+    scene.imageHistory = [...scene.imageHistory.slice(1), { id: 'scene-2', modelName: 'test-model', timestamp: new Date('2026-01-02') }];
+    BookHistoryService.captureBaselines([book]);
+    scene.imageHistory = scene.imageHistory.slice(0, 1);
+    await StorageService.saveBook(book);
+
+    expect((await BookIntegrityService.checkAll()).issues).toEqual([]);
+  });
+
+  it('should skip the orphan check when the undo history is unreadable', async () => {
+    await backend.writeBinary('prompter-cache/scenes/old.png', PNG);
+    await backend.writeText(`prompter-cache/history/${book.id}.json`, '{ "version": 1, "undo": [');
+
+    const report = await BookIntegrityService.checkAll();
+
+    expect(report.issues).toEqual([]);
+    expect(report.orphanCheckError).toMatch(/undo history/i);
+  });
+
+  it('should skip file checks without a save directory', async () => {
+    class UnconfiguredBackend extends MemoryStorageBackend {
+      async isConfigured(): Promise<boolean> {
+        return false;
+      }
+    }
+    FileSystemService.setBackend(new UnconfiguredBackend());
+
+    const report = await BookIntegrityService.checkAll();
+
+    expect(report.filesChecked).toBe(false);
+    expect(report.issues.filter(issue => issue.type.includes('image-file'))).toEqual([]);
+  });
+
+  it('should accept usable layouts', () => {
+    expect(findLayoutProblem({
+      type: 'comic-sidebyside',
+      canvas: { width: 1920, height: 1080, aspectRatio: '16:9' },
+      elements: {
+        image: { x: 0, y: 0, width: 50, height: 100, zIndex: 1 },
+        text: { x: 50, y: 0, width: 50, height: 100, zIndex: 2 }
+      }
+    })).toBeNull();
+    expect(findLayoutProblem({ type: 'grid', canvas: { width: 1, height: 1 }, elements: {} })).toContain('unknown layout type');
+  });
+});
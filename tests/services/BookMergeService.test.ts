@@ -0,0 +1,236 @@
+/**
+ * BookMergeService Tests
+ *
+ * Three versions of a book are built from models and serialized the way
+ * saves write them, then edited on each side.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BookMergeService } from '../../src/services/BookMergeService';
+import { FileBasedStorageService, type BookDirectoryFiles } from '../../src/services/FileBasedStorageService';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+
+function createBook(): Book {
+  const voyage = new Story({
+    title: 'Voyage',
+    backgroundSetup: 'A long sea voyage',
+    characters: [{ name: 'Ada', description: 'Navigator' }, { name: 'Bo', description: 'Cook' }],
+    elements: [{ name: 'Compass', description: 'Brass compass' }]
+  });
+  voyage.addScene(new Scene({ id: 'scene-1', title: 'Departure', description: 'Leaving port', characters: ['Ada'] }));
+  voyage.addScene(new Scene({ id: 'scene-2', title: 'Storm', description: 'Waves crash' }));
+  voyage.addScene(new Scene({ id: 'scene-3', title: 'Landfall', description: 'An island' }));
+  return new Book({ title: 'Sea Tales', description: 'Stories of the sea', stories: [voyage] });
+}
+
+/**
+ * Serialize a copy of the book after applying an edit
+ */
+function version(base: Book, edit: (book: Book) => void = () => {}): BookDirectoryFiles {
+  const files = FileBasedStorageService.serializeBook(base);
+  const book = FileBasedStorageService.deserializeBook(
+    JSON.parse(files.bookJson),
+    files.stories.map(story => JSON.parse(story.content))
+  );
+  edit(book);
+  return FileBasedStorageService.serializeBook(book);
+}
+
+// Stories of deserialized books are plain story data
+interface StoryData {
+  title: string;
+  description?: string;
+  characters: Array<{ name: string; description: string }>;
+  elements: Array<{ name: string; description: string }>;
+  scenes: Array<{ id: string; title: string; description: string; characters: string[] }>;
+}
+
+const storyOf = (book: Book) => book.stories[0] as unknown as StoryData;
+
+describe('BookMergeService', () => {
+  const book = createBook();
+  const base = version(book);
+
+  describe('mergeBooks', () => {
+    it('should combine edits to different fields and scenes', () => {
+      const ours = version(book, b => {
+        storyOf(b).scenes[0].description = 'Leaving port at dawn';
+        b.description = 'Tales of the sea';
+      });
+      const theirs = version(book, b => {
+        storyOf(b).scenes[1].title = 'The Storm';
+        storyOf(b).scenes[0].characters.push('Bo');
+      });
+
+      const { data, conflicts } = BookMergeService.mergeBooks(base, ours, theirs);
+
+      expect(conflicts).toEqual([]);
+      expect(data.book.description).toBe('Tales of the sea');
+      const scenes = (data.stories[0] as unknown as StoryData).scenes;
+      expect(scenes.map(scene => scene.title)).toEqual(['Departure', 'The Storm', 'Landfall']);
+      expect(scenes[0]).toMatchObject({ description: 'Leaving port at dawn', characters: ['Ada', 'Bo'] });
+    });
+
+    it('should match characters and elements by name', () => {
+      const ours = version(book, b => {
+        storyOf(b).characters = storyOf(b).characters.filter(character => character.name !== 'Bo');
+      });
+      const theirs = version(book, b => {
+        storyOf(b).characters.unshift({ name: 'Cy', description: 'Lookout' });
+        storyOf(b).elements[0].description = 'Cracked brass compass';
+      });
+
+      const { data, conflicts } = BookMergeService.mergeBooks(base, ours, theirs);
+
+      const story = data.stories[0] as unknown as StoryData;
+      expect(conflicts).toEqual([]);
+      expect(story.characters.map(character => character.name)).toEqual(['Cy', 'Ada']);
+      expect(story.elements[0].description).toBe('Cracked brass compass');
+    });
+
+    it('should keep one side\'s reordering and the other side\'s additions', () => {
+      const ours = version(book, b => {
+        storyOf(b).scenes.reverse();
+      });
+      const theirs = version(book, b => {
+        storyOf(b).scenes.push({ id: 'scene-4', title: 'Homecoming', description: 'Back home', characters: [] });
+      });
+
+      const { data } = BookMergeService.mergeBooks(base, ours, theirs);
+
+      expect((data.stories[0] as unknown as StoryData).scenes.map(scene => scene.id))
+        .toEqual(['scene-3', 'scene-4', 'scene-2', 'scene-1']);
+    });
+
+    it('should report the same field edited on both sides and keep ours', () => {
+      const ours = version(book, b => { storyOf(b).scenes[1].description = 'Thunder and lightning'; });
+      const theirs = version(book, b => { storyOf(b).scenes[1].description = 'A calm sea'; });
+
+      const { data, conflicts } = BookMergeService.mergeBooks(base, ours, theirs);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0]).toMatchObject({
+        location: 'Story "Voyage" › scene "Storm"',
+        field: 'description',
+        base: 'Waves crash',
+        ours: 'Thunder and lightning',
+        theirs: 'A calm sea'
+      });
+      expect((data.stories[0] as unknown as StoryData).scenes[1].description).toBe('Thunder and lightning');
+    });
+
+    it('should report a scene deleted on one side and edited on the other', () => {
+      const ours = version(book, b => { storyOf(b).scenes.splice(2, 1); });
+      const theirs = version(book, b => { storyOf(b).scenes[2].description = 'A volcanic island'; });
+
+      const { data, conflicts } = BookMergeService.mergeBooks(base, ours, theirs);
+
+      expect(conflicts).toMatchObject([{ field: 'scene', location: 'Story "Voyage" › scene "Landfall"' }]);
+      expect(conflicts[0].ours).toBeUndefined();
+      expect((data.stories[0] as unknown as StoryData).scenes).toHaveLength(2);
+
+      BookMergeService.applyResolutions(data, conflicts, { [conflicts[0].id]: 'theirs' });
+      expect((data.stories[0] as unknown as StoryData).scenes[2].description).toBe('A volcanic island');
+    });
+
+    it('should put a deleted scene back where it was when theirs is chosen', () => {
+      const ours = version(book, b => { storyOf(b).scenes.splice(1, 1); });
+      const theirs = version(book, b => { storyOf(b).scenes[1].description = 'Thunder and lightning'; });
+
+      const { data, conflicts } = BookMergeService.mergeBooks(base, ours, theirs);
+      BookMergeService.applyResolutions(data, conflicts, { [conflicts[0].id]: 'theirs' });
+
+      const scenes = (data.stories[0] as unknown as StoryData).scenes;
+      expect(scenes.map(scene => scene.title)).toEqual(['Departure', 'Storm', 'Landfall']);
+      expect(scenes[1].description).toBe('Thunder and lightning');
+    });
+
+    it('should take the later updatedAt instead of reporting a conflict', () => {
+      const ours = version(book, b => { b.updatedAt = new Date('2030-01-01T00:00:00Z'); });
+      const theirs = version(book, b => { b.updatedAt = new Date('2031-01-01T00:00:00Z'); });
+
+      const { data, conflicts } = BookMergeService.mergeBooks(base, ours, theirs);
+
+      expect(conflicts).toEqual([]);
+      expect(data.book.updatedAt).toBe('2031-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('applyResolutions', () => {
+    it('should apply theirs only where chosen and still unresolved', () => {
+      const ours = version(book, b => {
+        b.title = 'Sea Stories';
+        b.description = 'Ours';
+      });
+      const theirs = version(book, b => {
+        b.title = 'Ocean Tales';
+        b.description = 'Theirs';
+      });
+      const { data, conflicts } = BookMergeService.mergeBooks(base, ours, theirs);
+      const byField = Object.fromEntries(conflicts.map(conflict => [conflict.field, conflict]));
+
+      // Edited by hand after the merge: left alone
+      data.book.description = 'Hand edit';
+      const applied = BookMergeService.applyResolutions(data, conflicts, {
+        [byField.title.id]: 'theirs',
+        [byField.description.id]: 'theirs'
+      });
+
+      expect(applied).toBe(1);
+      expect(data.book).toMatchObject({ title: 'Ocean Tales', description: 'Hand edit' });
+      expect(BookMergeService.openConflicts(data, conflicts)).toEqual([]);
+    });
+  });
+
+  describe('mergeFile', () => {
+    it('should merge a story file and report conflicts with paths into the book', () => {
+      const story = (files: BookDirectoryFiles) => files.stories[0].content;
+      const ours = version(book, b => {
+        storyOf(b).title = 'The Voyage';
+        storyOf(b).scenes[0].title = 'Setting Sail';
+      });
+      const theirs = version(book, b => {
+        storyOf(b).scenes[0].title = 'Casting Off';
+        storyOf(b).scenes[2].description = 'A volcanic island';
+      });
+
+      const { content, conflicts } = BookMergeService.mergeFile(story(base), story(ours), story(theirs), 'story');
+      const merged = JSON.parse(content);
+
+      expect(merged.title).toBe('The Voyage');
+      expect(merged.scenes[2].description).toBe('A volcanic island');
+      expect(conflicts).toMatchObject([{ location: 'Story "The Voyage" › scene "Setting Sail"', field: 'title' }]);
+
+      // The same conflict applies to the whole book, as the app resolves it
+      const data = BookMergeService.parseFiles({ bookJson: ours.bookJson, stories: [{ fileName: 'voyage.json', content }] });
+      BookMergeService.applyResolutions(data, conflicts, { [conflicts[0].id]: 'theirs' });
+      expect((data.stories[0] as unknown as StoryData).scenes[0].title).toBe('Casting Off');
+    });
+
+    it('should merge book.json without a common ancestor', () => {
+      const ours = version(book, b => { b.description = 'Ours'; });
+
+      const { content, conflicts } = BookMergeService.mergeFile('', ours.bookJson, base.bookJson, 'book');
+
+      expect(JSON.parse(content).description).toBe('Ours');
+      expect(conflicts.map(conflict => conflict.field)).toEqual(['description']);
+    });
+  });
+
+  describe('conflict files', () => {
+    it('should replace conflicts of the same path when adding to the file', () => {
+      const conflict = { id: 'book/title', location: 'Book', field: 'title', path: ['book', 'title'], ours: 'A', theirs: 'B' };
+      const content = BookMergeService.serializeConflictFile([conflict]);
+
+      const added = BookMergeService.serializeConflictFile([
+        ...BookMergeService.parseConflictFile(content),
+        { ...conflict, theirs: 'C' }
+      ]);
+
+      expect(BookMergeService.parseConflictFile(added)).toEqual([{ ...conflict, theirs: 'C' }]);
+      expect(BookMergeService.parseConflictFile('not json')).toEqual([]);
+    });
+  });
+});
@@ -63,6 +63,9 @@ describe('Book Serialization', () => {
         language: 'markdown'
       },
       layout: testLayout,
+      avoid: ['rain'],
+      chapterId: 'chapter-1',
+      slideshow: { duration: 6, motion: 'zoom-in' },
       characters: ['Character 1', 'Character 2'],
       elements: ['Element 1', 'Element 2'],
       imageHistory: [
@@ -89,6 +92,8 @@ describe('Book Serialization', () => {
         backgroundColor: '#000000'
       },
       layout: testLayout, // NEW: Story-level layout
+      avoid: ['extra limbs'],
+      chapters: [{ id: 'chapter-1', title: 'Chapter 1', layout: testLayout }],
       characters: [
         {
           name: 'Character 1',
@@ -163,7 +168,8 @@ describe('Book Serialization', () => {
           selectedImageId: undefined
         }
       ],
-      defaultLayout: testLayout as any // NEW: Book-level default layout
+      defaultLayout: testLayout as any, // NEW: Book-level default layout
+      promptTemplates: { scene: 'Scene: {{SceneDescription}}' }
     });
 
     testBook.stories = [testStory];
@@ -187,6 +193,18 @@ describe('Book Serialization', () => {
       expect(parsed.stories).toHaveLength(1);
     });
 
+    it('should preserve book prompt templates', () => {
+      const parsed = JSON.parse(JSON.stringify(testBook));
+
+      expect(parsed.promptTemplates).toEqual({ scene: 'Scene: {{SceneDescription}}' });
+    });
+
+    it('should preserve book prompt templates through export and import', async () => {
+      const imported = await Book.fromJSON(JSON.parse(JSON.stringify(testBook.toExportJSON())));
+
+      expect(imported.promptTemplates).toEqual({ scene: 'Scene: {{SceneDescription}}' });
+    });
+
     it('should preserve all Story properties', () => {
       const json = JSON.stringify(testBook);
       const parsed = JSON.parse(json);
@@ -341,9 +341,12 @@ describe('BookService Conversion', () => {
         id: originalScene.id,
         title: originalScene.title,
         description: originalScene.description,
+        chapterId: originalScene.chapterId,
         textPanel: originalScene.textPanel,
         diagramPanel: originalScene.diagramPanel,
         layout: originalScene.layout,
+        avoid: originalScene.avoid,
+        slideshow: originalScene.slideshow,
         characters: originalScene.characters || [],
         elements: originalScene.elements || [],
         characterIds: originalScene.characters || [],
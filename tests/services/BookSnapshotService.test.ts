@@ -0,0 +1,249 @@
+/**
+ * BookSnapshotService Tests
+ *
+ * Runs the real StorageService/BookCache stack on an in-memory backend.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BookSnapshotService, MAX_SNAPSHOTS_PER_BOOK } from '../../src/services/BookSnapshotService';
+import { BookHistoryService } from '../../src/services/BookHistoryService';
+import { StorageService } from '../../src/services/StorageService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import { bookCache } from '../../src/services/BookCache';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+
+function createBook(): Book {
+  const voyage = new Story({
+    title: 'Voyage',
+    backgroundSetup: 'A long sea voyage',
+    characters: [{ name: 'Ada', description: 'Navigator' }]
+  });
+  voyage.addScene(new Scene({ title: 'Departure', description: 'Leaving port', characters: ['Ada'] }));
+  voyage.addScene(new Scene({ title: 'Storm', description: 'Waves everywhere', characters: ['Ada'] }));
+
+  const harbor = new Story({ title: 'Harbor', backgroundSetup: 'Back home' });
+  harbor.addScene(new Scene({ title: 'Arrival', description: 'Docking' }));
+
+  return new Book({ title: 'Sea Tales', stories: [voyage, harbor] });
+}
+
+// Let BookCache's background filesystem writes finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('BookSnapshotService', () => {
+  let backend: MemoryStorageBackend;
+  let book: Book;
+
+  beforeEach(async () => {
+    backend = new MemoryStorageBackend();
+    FileSystemService.setBackend(backend);
+    bookCache.clear();
+    BookHistoryService.reset();
+    BookSnapshotService.reset();
+
+    book = createBook();
+    await StorageService.saveBook(book);
+  });
+
+  afterEach(async () => {
+    await settle();
+    FileSystemService.setBackend(null);
+    bookCache.clear();
+    BookHistoryService.reset();
+    BookSnapshotService.reset();
+  });
+
+  it('should store snapshots with an index, newest first', async () => {
+    const first = await BookSnapshotService.createSnapshot(book.id, 'manual');
+    book.title = 'Sea Stories';
+    await StorageService.saveBook(book);
+    const second = await BookSnapshotService.createSnapshot(book.id, 'import', 'Before importing "Reef"');
+
+    const snapshots = await BookSnapshotService.listSnapshots(book.id);
+    expect(snapshots.map(info => info.id)).toEqual([second!.id, first!.id]);
+    expect(snapshots[0]).toMatchObject({ reason: 'import', label: 'Before importing "Reef"', bookTitle: 'Sea Stories' });
+    expect(snapshots[0].createdAt).toBeInstanceOf(Date);
+    expect(snapshots[1].stories.map(story => story.title)).toEqual(['Voyage', 'Harbor']);
+
+    const paths = backend.getPaths().filter(path => path.startsWith(`prompter-cache/snapshots/${book.id}/`));
+    expect(paths).toHaveLength(3);
+  });
+
+  it('should skip automatic snapshots of an unchanged book', async () => {
+    const first = await BookSnapshotService.createSnapshot(book.id, 'scheduled');
+    const again = await BookSnapshotService.createSnapshot(book.id, 'scheduled');
+    expect(again?.id).toBe(first?.id);
+
+    // Manual snapshots are always taken
+    await BookSnapshotService.createSnapshot(book.id, 'manual');
+    expect(await BookSnapshotService.listSnapshots(book.id)).toHaveLength(2);
+  });
+
+  it('should drop the oldest snapshots beyond the limit', async () => {
+    for (let i = 0; i < MAX_SNAPSHOTS_PER_BOOK + 2; i++) {
+      await BookSnapshotService.createSnapshot(book.id, 'manual');
+    }
+
+    const snapshots = await BookSnapshotService.listSnapshots(book.id);
+    expect(snapshots).toHaveLength(MAX_SNAPSHOTS_PER_BOOK);
+    expect(new Set(snapshots.map(info => info.id)).size).toBe(MAX_SNAPSHOTS_PER_BOOK);
+
+    const files = backend.getPaths().filter(path => path.startsWith(`prompter-cache/snapshots/${book.id}/`));
+    expect(files).toHaveLength(MAX_SNAPSHOTS_PER_BOOK + 1);
+  });
+
+  it('should keep snapshots taken before a story deletion out of rotation', async () => {
+    await BookSnapshotService.createSnapshot(book.id, 'scheduled');
+    const pinned = await BookSnapshotService.createSnapshot(book.id, 'story-delete', 'Before deleting "Harbor"');
+    expect(pinned?.reason).toBe('story-delete');
+
+    for (let i = 0; i < MAX_SNAPSHOTS_PER_BOOK + 2; i++) {
+      await BookSnapshotService.createSnapshot(book.id, 'manual');
+    }
+
+    const snapshots = await BookSnapshotService.listSnapshots(book.id);
+    expect(snapshots).toHaveLength(MAX_SNAPSHOTS_PER_BOOK + 1);
+    expect(snapshots.at(-1)?.id).toBe(pinned!.id);
+
+    expect(await BookSnapshotService.deleteSnapshot(book.id, pinned!.id)).toBe(true);
+    expect((await BookSnapshotService.listSnapshots(book.id)).some(info => info.id === pinned!.id)).toBe(false);
+    expect(await BookSnapshotService.loadSnapshot(book.id, pinned!.id)).toBeNull();
+  });
+
+  it('should prune all but the newest snapshots of each book, pinned ones included', async () => {
+    const pinned = await BookSnapshotService.createSnapshot(book.id, 'story-delete', 'Before deleting "Harbor"');
+    const latest = await BookSnapshotService.createSnapshot(book.id, 'manual');
+
+    expect(await BookSnapshotService.pruneSnapshots(1)).toBe(1);
+    expect((await BookSnapshotService.listSnapshots(book.id)).map(info => info.id)).toEqual([latest!.id]);
+    expect(await BookSnapshotService.loadSnapshot(book.id, pinned!.id)).toBeNull();
+
+    expect(await BookSnapshotService.pruneSnapshots()).toBe(1);
+    expect(await BookSnapshotService.loadAllSnapshotBooks()).toEqual([]);
+  });
+
+  it('should rebuild an unreadable index from the snapshot files', async () => {
+    const first = await BookSnapshotService.createSnapshot(book.id, 'manual');
+    book.title = 'Sea Stories';
+    await StorageService.saveBook(book);
+    const second = await BookSnapshotService.createSnapshot(book.id, 'manual', 'Renamed');
+    await backend.writeText(`prompter-cache/snapshots/${book.id}/index.json`, '{ "version": 1, "snaps');
+
+    book.title = 'Sea Yarns';
+    await StorageService.saveBook(book);
+    const third = await BookSnapshotService.createSnapshot(book.id, 'manual');
+
+    const snapshots = await BookSnapshotService.listSnapshots(book.id);
+    expect(snapshots.map(info => info.id)).toEqual([third!.id, second!.id, first!.id]);
+    expect(snapshots[1]).toMatchObject({ bookTitle: 'Sea Stories', label: 'Renamed' });
+    expect(snapshots[1].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should list what changed between two snapshots', async () => {
+    const before = await BookSnapshotService.createSnapshot(book.id, 'manual');
+
+    const voyage = book.stories[0];
+    voyage.deleteScene(voyage.scenes[1].id);
+    voyage.addCharacter({ name: 'Bo', description: 'Cook' });
+    book.stories.splice(1, 1);
+    await StorageService.saveBook(book);
+    const after = await BookSnapshotService.createSnapshot(book.id, 'manual');
+
+    const diff = await BookSnapshotService.diffSnapshots(book.id, before!.id, after!.id);
+    expect(diff.bookChanges).toEqual([]);
+    expect(diff.stories).toEqual([
+      {
+        storyId: voyage.id,
+        title: 'Voyage',
+        status: 'modified',
+        changes: ['Character "Bo" added', 'Scene "Storm" removed']
+      },
+      expect.objectContaining({ title: 'Harbor', status: 'removed' })
+    ]);
+  });
+
+  it('should compare a snapshot with the current book', async () => {
+    const snapshot = await BookSnapshotService.createSnapshot(book.id, 'manual');
+
+    book.title = 'Sea Stories';
+    book.stories[1].scenes[0].title = 'Homecoming';
+    await StorageService.saveBook(book);
+
+    const diff = await BookSnapshotService.diffSnapshots(book.id, snapshot!.id, 'current');
+    expect(diff.bookChanges).toEqual(['Book renamed from "Sea Tales" to "Sea Stories"']);
+    expect(diff.stories.map(story => story.status)).toEqual(['unchanged', 'modified']);
+    expect(diff.stories[1].changes).toEqual(['Scene "Arrival" renamed to "Homecoming"']);
+  });
+
+  it('should restore a whole book and snapshot the state it replaces', async () => {
+    const snapshot = await BookSnapshotService.createSnapshot(book.id, 'manual');
+    book.stories[0].deleteScene(book.stories[0].scenes[1].id);
+    book.stories.splice(1, 1);
+    await StorageService.saveBook(book);
+
+    const restored = await BookSnapshotService.restoreBook(book.id, snapshot!.id);
+
+    expect(restored.stories.map(story => story.title)).toEqual(['Voyage', 'Harbor']);
+    expect(restored.stories[0].scenes.map(scene => scene.title)).toEqual(['Departure', 'Storm']);
+    expect(restored.stories[0]).toBeInstanceOf(Story);
+    expect((await StorageService.getBook(book.id))?.stories).toHaveLength(2);
+
+    const snapshots = await BookSnapshotService.listSnapshots(book.id);
+    expect(snapshots[0].reason).toBe('restore');
+    expect(snapshots[0].stories.map(story => story.title)).toEqual(['Voyage']);
+
+    // The restore is an ordinary save, so it can be undone
+    expect(BookHistoryService.getState(book.id).canUndo).toBe(true);
+  });
+
+  it('should restore a single story, re-adding it at its old position if deleted', async () => {
+    const voyageId = book.stories[0].id;
+    const snapshot = await BookSnapshotService.createSnapshot(book.id, 'manual');
+
+    book.stories[1].title = 'Harbour';
+    book.stories.splice(0, 1);
+    await StorageService.saveBook(book);
+
+    const restored = await BookSnapshotService.restoreStory(book.id, snapshot!.id, voyageId);
+
+    expect(restored.stories.map(story => story.title)).toEqual(['Voyage', 'Harbour']);
+    expect(restored.stories[0].scenes).toHaveLength(2);
+    expect(restored.stories[0].scenes[0]).toBeInstanceOf(Scene);
+  });
+
+  it('should replace an existing story in place', async () => {
+    const snapshot = await BookSnapshotService.createSnapshot(book.id, 'manual');
+    const voyage = book.stories[0];
+    voyage.deleteScene(voyage.scenes[0].id);
+    book.title = 'Sea Stories';
+    await StorageService.saveBook(book);
+
+    const restored = await BookSnapshotService.restoreStory(book.id, snapshot!.id, voyage.id);
+
+    expect(restored.title).toBe('Sea Stories');
+    expect(restored.stories.map(story => story.id)).toEqual([voyage.id, book.stories[1].id]);
+    expect(restored.stories[0].scenes.map(scene => scene.title)).toEqual(['Departure', 'Storm']);
+  });
+
+  it('should snapshot every book', async () => {
+    const other = new Book({ title: 'Mountain Tales', stories: [] });
+    await StorageService.saveBook(other);
+
+    expect(await BookSnapshotService.snapshotAllBooks('migration', 'Before rebuilding galleries')).toBe(2);
+    expect((await BookSnapshotService.listSnapshots(other.id))[0].label).toBe('Before rebuilding galleries');
+  });
+
+  it('should not snapshot without a configured directory', async () => {
+    class UnconfiguredBackend extends MemoryStorageBackend {
+      async isConfigured(): Promise<boolean> {
+        return false;
+      }
+    }
+    FileSystemService.setBackend(new UnconfiguredBackend());
+
+    expect(await BookSnapshotService.createSnapshot(book.id, 'manual')).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * EpubExportService Tests
+ *
+ * Runs the real StorageService/BookCache stack on an in-memory backend;
+ * scene images come from a mocked ImageStorageService.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import JSZip from 'jszip';
+import { EpubExportService } from '../../src/services/EpubExportService';
+import { StorageService } from '../../src/services/StorageService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import { ImageStorageService } from '../../src/services/ImageStorageService';
+import { bookCache } from '../../src/services/BookCache';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+import { DEFAULT_EPUB_EXPORT_SETTINGS, type EpubExportSettings } from '../../src/types/EpubExport';
+
+vi.mock('../../src/services/ImageStorageService', () => ({
+  ImageStorageService: {
+    getImage: vi.fn()
+  }
+}));
+
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+const settings = (overrides: Partial<EpubExportSettings> = {}): EpubExportSettings => ({
+  ...DEFAULT_EPUB_EXPORT_SETTINGS,
+  ...overrides
+});
+
+function imagedScene(title: string, data: Partial<Scene> = {}): Scene {
+  return new Scene({
+    title,
+    description: `${title} in the forest`,
+    imageHistory: [{ id: `${title}-image`, modelName: 'test-model', timestamp: new Date() }],
+    ...data
+  });
+}
+
+// jsdom's Blob has no arrayBuffer()
+const loadZip = (blob: Blob) => new Promise<JSZip>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => JSZip.loadAsync(reader.result as ArrayBuffer).then(resolve, reject);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+// Let BookCache's background filesystem writes finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('EpubExportService', () => {
+  let book: Book;
+
+  beforeEach(async () => {
+    FileSystemService.setBackend(new MemoryStorageBackend());
+    bookCache.clear();
+    vi.mocked(ImageStorageService.getImage).mockResolvedValue(PNG);
+
+    const first = new Story({ title: 'First Story', backgroundSetup: '' });
+    first.addScene(imagedScene('One', { textPanel: 'Once upon a time\n\nThe end & more' }));
+    first.addScene(new Scene({ title: 'Words', description: '', textPanel: 'Only {SceneDescription}text' }));
+    const chapter = first.addChapter('Later');
+    first.insertScene(imagedScene('Two'), chapter.id);
+    const second = new Story({ title: 'Second Story', backgroundSetup: '' });
+    second.addScene(imagedScene('Three'));
+
+    book = new Book({ title: 'Picture Book', description: 'A <small> book', stories: [first, second] });
+    await StorageService.saveBook(book);
+  });
+
+  afterEach(async () => {
+    await settle();
+    FileSystemService.setBackend(null);
+    bookCache.clear();
+  });
+
+  describe('text', () => {
+    it('should add the text panel to alt text only in the fixed layout', () => {
+      const scene = book.stories[0].scenes[0];
+
+      expect(EpubExportService.getAltText(scene, 'fixed')).toBe('One in the forest. Text on the page: Once upon a time The end & more');
+      expect(EpubExportService.getAltText(scene, 'reflowable')).toBe('One in the forest');
+    });
+  });
+
+  describe('checks', () => {
+    it('should warn about scenes left out of a fixed-layout book', async () => {
+      const issues = await EpubExportService.validateExport({ bookId: book.id }, settings());
+
+      expect(issues).toEqual([
+        { severity: 'warning', message: 'Scene "Words" has no images; it is left out of the fixed-layout book', sceneId: book.stories[0].scenes[1].id }
+      ]);
+    });
+
+    it('should reject invalid language tags', () => {
+      expect(EpubExportService.validateSettings(settings({ language: 'english please' }))[0].severity).toBe('error');
+      expect(EpubExportService.validateSettings(settings({ language: 'de-AT' }))).toEqual([]);
+    });
+  });
+
+  describe('exportToEpub', () => {
+    it('should build a fixed-layout book with one page per scene image', async () => {
+      const result = await EpubExportService.exportToEpub({ bookId: book.id }, settings({ author: 'Ada', coverSceneId: book.stories[1].scenes[0].id }));
+
+      // Cover, title page and three scene pages
+      expect(result.documentCount).toBe(5);
+      expect(result.sceneCount).toBe(3);
+      expect(result.imageCount).toBe(3);
+
+      const zip = await loadZip(result.blob);
+      expect(Object.keys(zip.files)[0]).toBe('mimetype');
+      expect(await zip.file('mimetype')!.async('string')).toBe('application/epub+zip');
+
+      const opf = await zip.file('EPUB/package.opf')!.async('string');
+      expect(opf).toContain('<meta property="rendition:layout">pre-paginated</meta>');
+      expect(opf).toContain('<dc:creator>Ada</dc:creator>');
+      expect(opf).toContain(`<dc:identifier id="book-id">urn:uuid:${book.id}</dc:identifier>`);
+      expect(opf).toContain('<dc:description>A &lt;small&gt; book</dc:description>');
+      expect(opf).toMatch(/href="images\/image-3\.png" media-type="image\/png" properties="cover-image"/);
+
+      const page = await zip.file('EPUB/pages/page-001.xhtml')!.async('string');
+      expect(page).toContain('<meta name="viewport" content="width=1, height=1"/>');
+      expect(page).toContain('alt="One in the forest. Text on the page: Once upon a time The end &amp; more"');
+    });
+
+    it('should nest stories, chapters and scenes in the navigation document', async () => {
+      const result = await EpubExportService.exportToEpub({ bookId: book.id }, settings());
+      const nav = await (await loadZip(result.blob)).file('EPUB/nav.xhtml')!.async('string');
+
+      expect(nav).toContain(
+        '<ol><li><a href="pages/page-001.xhtml">First Story</a><ol><li><a href="pages/page-001.xhtml">One</a></li>' +
+        '<li><a href="pages/page-002.xhtml">Later</a><ol><li><a href="pages/page-002.xhtml">Two</a></li></ol></li></ol></li>' +
+        '<li><a href="pages/page-003.xhtml">Second Story</a>'
+      );
+      expect(nav).toContain('epub:type="cover" href="cover.xhtml"');
+    });
+
+    it('should put scene text in a reflowable story document', async () => {
+      const story = book.stories[0];
+      const result = await EpubExportService.exportToEpub({ bookId: book.id, storyId: story.id }, settings({ layout: 'reflowable', sceneTitles: true }));
+
+      // Cover, title page, contents and the story
+      expect(result.documentCount).toBe(4);
+      expect(result.sceneCount).toBe(3);
+
+      const zip = await loadZip(result.blob);
+      const opf = await zip.file('EPUB/package.opf')!.async('string');
+      expect(opf).not.toContain('rendition:layout');
+      expect(opf).toContain('<dc:title>Picture Book: First Story</dc:title>');
+
+      const text = await zip.file('EPUB/text/story-01.xhtml')!.async('string');
+      expect(text).toContain(`<section class="scene" id="scene-${story.scenes[0].id}"><h3>One</h3>`);
+      expect(text).toContain('<img src="../images/image-1.png" alt="One in the forest"/>');
+      expect(text).toContain('<p>Once upon a time</p><p>The end &amp; more</p>');
+      expect(text).toContain('<p>Only text</p>');
+      expect(text.indexOf('<h2>Later</h2>')).toBeLessThan(text.indexOf('<h3>Two</h3>'));
+
+      const nav = await zip.file('EPUB/nav.xhtml')!.async('string');
+      expect(nav).toContain(`<a href="text/story-01.xhtml#scene-${story.scenes[1].id}">Words</a>`);
+    });
+
+    it('should leave out pages whose images cannot be loaded', async () => {
+      vi.mocked(ImageStorageService.getImage).mockImplementation(async (imageId: string) =>
+        imageId === 'Two-image' ? null : PNG
+      );
+
+      const result = await EpubExportService.exportToEpub({ bookId: book.id }, settings());
+
+      expect(result.sceneCount).toBe(2);
+      expect(result.issues.map(issue => issue.message)).toContain('Could not load the image of scene "Two"; its page was left out');
+    });
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * ExportImageService Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ExportImageService } from '../../src/services/ExportImageService';
+
+// 1x1 PNG
+const PNG = Uint8Array.from(atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='), c => c.charCodeAt(0));
+
+// JPEG header: SOI, a 16-byte APP0 segment, then SOF0 for 64x32
+const JPEG = Uint8Array.from([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x10, ...new Array(14).fill(0),
+  0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x20, 0x00, 0x40, 0x03
+]);
+
+// GIF header for 300x200
+const GIF = Uint8Array.from([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x2c, 0x01, 0xc8, 0x00]);
+
+describe('ExportImageService', () => {
+  it('should detect image types from their signatures', () => {
+    expect(ExportImageService.detectType(PNG)).toBe('png');
+    expect(ExportImageService.detectType(JPEG)).toBe('jpeg');
+    expect(ExportImageService.detectType(GIF)).toBe('gif');
+    expect(ExportImageService.detectType(new TextEncoder().encode('RIFF....WEBP'))).toBeNull();
+  });
+
+  it('should read the pixel size from the file header', () => {
+    expect(ExportImageService.readImageSize(PNG, 'png')).toEqual({ width: 1, height: 1 });
+    expect(ExportImageService.readImageSize(JPEG, 'jpeg')).toEqual({ width: 64, height: 32 });
+    expect(ExportImageService.readImageSize(GIF, 'gif')).toEqual({ width: 300, height: 200 });
+  });
+
+  it('should not read past a truncated header', () => {
+    expect(ExportImageService.readImageSize(PNG.slice(0, 12), 'png')).toBeNull();
+    expect(ExportImageService.readImageSize(JPEG.slice(0, 10), 'jpeg')).toBeNull();
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * ExternalChangeService Tests
+ *
+ * Books are saved through the real StorageService/BookCache stack on an
+ * in-memory backend; "external" edits write the book files directly.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ExternalChangeService } from '../../src/services/ExternalChangeService';
+import { BookSnapshotService } from '../../src/services/BookSnapshotService';
+import { BookHistoryService } from '../../src/services/BookHistoryService';
+import { StorageService } from '../../src/services/StorageService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { FileBasedStorageService } from '../../src/services/FileBasedStorageService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import type { StorageListing } from '../../src/services/StorageBackend';
+import { bookCache } from '../../src/services/BookCache';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+import type { ExternalChangeKind } from '../../src/types/ExternalChange';
+import { BookMergeService } from '../../src/services/BookMergeService';
+
+/**
+ * Memory backend whose book directories can be deleted and whose changes can be pushed
+ */
+class WatchableBackend extends MemoryStorageBackend {
+  hiddenDirectories = new Set<string>();
+  onChange: ((path: string) => void) | null = null;
+
+  async list(path: string): Promise<StorageListing> {
+    const listing = await super.list(path);
+    return { ...listing, directories: listing.directories.filter(dir => !this.hiddenDirectories.has(`${path}/${dir}`)) };
+  }
+
+  async watch(_path: string, onChange: (path: string) => void): Promise<() => void> {
+    this.onChange = onChange;
+    return () => {
+      this.onChange = null;
+    };
+  }
+}
+
+function createBook(title = 'Sea Tales'): Book {
+  const voyage = new Story({ title: 'Voyage', backgroundSetup: 'A long sea voyage' });
+  voyage.addScene(new Scene({ title: 'Departure', description: 'Leaving port' }));
+  return new Book({ title, description: 'Stories of the sea', stories: [voyage] });
+}
+
+// Fields the tests edit in book.json and story files
+interface EditableFile {
+  description?: string;
+  scenes: Array<{ title: string }>;
+}
+
+// Let BookCache's background filesystem writes finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('ExternalChangeService', () => {
+  let backend: WatchableBackend;
+  let book: Book;
+  let events: ExternalChangeKind[];
+
+  const bookDir = 'prompter-cache/books/sea-tales';
+  const storyPath = `${bookDir}/stories/voyage.json`;
+
+  const editOnDisk = async (path: string, edit: (data: EditableFile) => void) => {
+    const data: EditableFile = JSON.parse(await backend.readText(path) ?? '{}');
+    edit(data);
+    await backend.writeText(path, JSON.stringify(data, null, 2));
+  };
+
+  beforeEach(async () => {
+    backend = new WatchableBackend();
+    FileSystemService.setBackend(backend);
+    bookCache.clear();
+    BookHistoryService.reset();
+    BookSnapshotService.reset();
+    ExternalChangeService.reset();
+
+    book = createBook();
+    await StorageService.saveBook(book);
+    await settle();
+
+    events = [];
+    ExternalChangeService.subscribe(change => events.push(change.kind));
+    await ExternalChangeService.start();
+  });
+
+  afterEach(async () => {
+    await settle();
+    ExternalChangeService.reset();
+    FileSystemService.setBackend(null);
+    bookCache.clear();
+    BookHistoryService.reset();
+    BookSnapshotService.reset();
+  });
+
+  it('should not report the app\'s own saves', async () => {
+    book.description = 'Edited in the app';
+    await StorageService.saveBook(book);
+    await settle();
+
+    expect(await ExternalChangeService.checkForChanges()).toEqual([]);
+    expect(JSON.parse(await backend.readText(`${bookDir}/book.json`) ?? '{}').description).toBe('Edited in the app');
+  });
+
+  it('should reload a book edited on disk', async () => {
+    await editOnDisk(`${bookDir}/book.json`, data => { data.description = 'Edited by hand'; });
+
+    const changes = await ExternalChangeService.checkForChanges();
+
+    expect(changes.map(change => change.kind)).toEqual(['reloaded']);
+    expect((await StorageService.getBook(book.id))?.description).toBe('Edited by hand');
+    expect(BookHistoryService.getState(book.id).canUndo).toBe(true);
+    expect(await ExternalChangeService.checkForChanges()).toEqual([]);
+  });
+
+  it('should load books that appear on disk', async () => {
+    const other = createBook('River Tales');
+    const files = FileBasedStorageService.serializeBook(other);
+    await backend.writeText('prompter-cache/books/river-tales/book.json', files.bookJson);
+    for (const story of files.stories) {
+      await backend.writeText(`prompter-cache/books/river-tales/stories/${story.fileName}`, story.content);
+    }
+
+    const changes = await ExternalChangeService.checkForChanges();
+
+    expect(changes).toMatchObject([{ kind: 'added', bookId: other.id, bookTitle: 'River Tales' }]);
+    expect((await StorageService.getBook(other.id))?.stories[0].scenes[0].title).toBe('Departure');
+  });
+
+  it('should report a conflict when the app has unsaved changes', async () => {
+    book.description = 'Unsaved app edit';
+    await editOnDisk(storyPath, data => { data.scenes[0].title = 'Setting Sail'; });
+
+    const changes = await ExternalChangeService.checkForChanges();
+
+    expect(changes.map(change => change.kind)).toEqual(['conflict']);
+    const [conflict] = ExternalChangeService.getConflicts();
+    expect(conflict).toMatchObject({ bookId: book.id, deletedOnDisk: false });
+    expect(conflict.diskChanges?.stories[0].changes).toEqual(['Scene "Departure" renamed to "Setting Sail"']);
+
+    // Saving is refused until the conflict is resolved
+    const result = await FileBasedStorageService.saveBook(book);
+    expect(result.success).toBe(false);
+    expect(JSON.parse(await backend.readText(storyPath) ?? '{}').scenes[0].title).toBe('Setting Sail');
+  });
+
+  it('should keep the app version and snapshot the disk version', async () => {
+    book.description = 'Unsaved app edit';
+    await editOnDisk(storyPath, data => { data.scenes[0].title = 'Setting Sail'; });
+    await ExternalChangeService.checkForChanges();
+
+    await ExternalChangeService.resolveConflict(book.id, 'keep-app');
+    await settle();
+
+    expect(ExternalChangeService.getConflicts()).toEqual([]);
+    expect(JSON.parse(await backend.readText(`${bookDir}/book.json`) ?? '{}').description).toBe('Unsaved app edit');
+    expect(JSON.parse(await backend.readText(storyPath) ?? '{}').scenes[0].title).toBe('Departure');
+
+    const [snapshot] = await BookSnapshotService.listSnapshots(book.id);
+    expect(snapshot).toMatchObject({ reason: 'external-change', bookTitle: 'Sea Tales' });
+    const saved = await BookSnapshotService.loadSnapshot(book.id, snapshot.id);
+    expect(JSON.parse(saved?.storyFiles[0].content ?? '{}').scenes[0].title).toBe('Setting Sail');
+    expect(events).toEqual(['conflict', 'resolved']);
+  });
+
+  it('should use the disk version and snapshot the app version', async () => {
+    book.description = 'Unsaved app edit';
+    await editOnDisk(storyPath, data => { data.scenes[0].title = 'Setting Sail'; });
+    await ExternalChangeService.checkForChanges();
+
+    await ExternalChangeService.resolveConflict(book.id, 'use-disk');
+
+    const reloaded = await StorageService.getBook(book.id);
+    expect(reloaded?.description).toBe('Stories of the sea');
+    expect(reloaded?.stories[0].scenes[0].title).toBe('Setting Sail');
+
+    const [snapshot] = await BookSnapshotService.listSnapshots(book.id);
+    const saved = await BookSnapshotService.loadSnapshot(book.id, snapshot.id);
+    expect(JSON.parse(saved?.bookJson ?? '{}').description).toBe('Unsaved app edit');
+    expect(events).toEqual(['conflict', 'reloaded']);
+
+    // Saving works again
+    expect((await FileBasedStorageService.saveBook(reloaded ?? book)).success).toBe(true);
+  });
+
+  it('should refuse a save that would overwrite an edit not yet noticed', async () => {
+    await editOnDisk(`${bookDir}/book.json`, data => { data.description = 'Edited by hand'; });
+    book.description = 'Edited in the app';
+
+    const result = await FileBasedStorageService.saveBook(book);
+
+    expect(result).toMatchObject({ success: false, error: expect.stringMatching(/changed outside the app/) });
+    expect(ExternalChangeService.getConflicts()).toHaveLength(1);
+    expect(JSON.parse(await backend.readText(`${bookDir}/book.json`) ?? '{}').description).toBe('Edited by hand');
+  });
+
+  it('should ask before dropping a book deleted on disk', async () => {
+    backend.hiddenDirectories.add(bookDir);
+
+    const changes = await ExternalChangeService.checkForChanges();
+
+    expect(changes.map(change => change.kind)).toEqual(['conflict']);
+    expect(ExternalChangeService.getConflicts()[0].deletedOnDisk).toBe(true);
+
+    await ExternalChangeService.resolveConflict(book.id, 'use-disk');
+
+    expect(await StorageService.getBook(book.id)).toBeNull();
+    expect(events).toEqual(['conflict', 'removed']);
+  });
+
+  it('should merge unsaved app changes with edits on disk', async () => {
+    book.description = 'Unsaved app edit';
+    book.stories[0].scenes[0].description = 'Leaving port at dawn';
+    await editOnDisk(storyPath, data => { data.scenes[0].title = 'Setting Sail'; });
+    await ExternalChangeService.checkForChanges();
+
+    expect(await ExternalChangeService.mergeConflict(book.id)).toBeNull();
+    await settle();
+
+    expect(ExternalChangeService.getConflicts()).toEqual([]);
+    const story = JSON.parse(await backend.readText(`${bookDir}/stories/voyage.json`) ?? '{}');
+    expect(story.scenes[0]).toMatchObject({ title: 'Setting Sail', description: 'Leaving port at dawn' });
+    expect(JSON.parse(await backend.readText(`${bookDir}/book.json`) ?? '{}').description).toBe('Unsaved app edit');
+    expect(await BookSnapshotService.listSnapshots(book.id)).toHaveLength(2);
+    expect(events).toEqual(['conflict', 'merged']);
+  });
+
+  it('should wait for conflicting edits to be resolved before saving a merge', async () => {
+    book.stories[0].scenes[0].title = 'Casting Off';
+    await editOnDisk(storyPath, data => { data.scenes[0].title = 'Setting Sail'; });
+    await ExternalChangeService.checkForChanges();
+
+    const merge = await ExternalChangeService.mergeConflict(book.id);
+
+    expect(merge?.conflicts).toMatchObject([{ field: 'title', ours: 'Casting Off', theirs: 'Setting Sail' }]);
+    expect(ExternalChangeService.getPendingMerges()).toHaveLength(1);
+
+    await ExternalChangeService.completeMerge(book.id, { [merge?.conflicts[0].id ?? '']: 'theirs' });
+    await settle();
+
+    expect(ExternalChangeService.getPendingMerges()).toEqual([]);
+    expect((await StorageService.getBook(book.id))?.stories[0].scenes[0].title).toBe('Setting Sail');
+  });
+
+  it('should offer the conflicts left by the git merge driver', async () => {
+    const story = await backend.readText(storyPath) ?? '';
+    const edit = (title: string) => {
+      const data = JSON.parse(story);
+      data.scenes[0].title = title;
+      return JSON.stringify(data, null, 2);
+    };
+    const merged = BookMergeService.mergeFile(story, edit('Casting Off'), edit('Setting Sail'), 'story');
+    await backend.writeText(storyPath, merged.content);
+    await backend.writeText(`${bookDir}/merge-conflicts.json`, BookMergeService.serializeConflictFile(merged.conflicts));
+
+    await ExternalChangeService.checkForChanges();
+    const [merge] = ExternalChangeService.getPendingMerges();
+    expect(merge).toMatchObject({ bookId: book.id, source: 'git', conflicts: [{ ours: 'Casting Off' }] });
+
+    await ExternalChangeService.completeMerge(book.id, { [merge.conflicts[0].id]: 'theirs' });
+    await settle();
+
+    expect(JSON.parse(await backend.readText(storyPath) ?? '{}').scenes[0].title).toBe('Setting Sail');
+    expect(await backend.exists(`${bookDir}/merge-conflicts.json`)).toBe(false);
+  });
+
+  it('should check when the backend reports a change', async () => {
+    expect(backend.onChange).not.toBeNull();
+    await editOnDisk(`${bookDir}/book.json`, data => { data.description = 'Edited by a script'; });
+
+    backend.onChange?.(`${bookDir}/book.json`);
+
+    await vi.waitFor(() => expect(events).toEqual(['reloaded']), { timeout: 2000 });
+    expect((await StorageService.getBook(book.id))?.description).toBe('Edited by a script');
+  });
+});
@@ -8,7 +8,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { FileBasedStorageService } from '../../src/services/FileBasedStorageService';
 import { Book } from '../../src/models/Book';
-import { Story } from '../../src/models/Story';
+import { Story, type CharacterImage } from '../../src/models/Story';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
 
 // Mock ElectronAPI
 const mockElectronAPI = {
@@ -113,6 +115,60 @@ describe('FileBasedStorageService', () => {
       expect(bookData).not.toHaveProperty('stories'); // Stories should not be in book.json
     });
 
+    it('should keep character image provenance without transient urls', async () => {
+      const provenance = { promptStrategy: 'gemini', aspectRatio: '1:1' } as unknown as CharacterImage['provenance'];
+      const book = new Book({
+        title: 'Test Book',
+        characters: [{
+          name: 'Ada',
+          description: 'Navigator',
+          imageGallery: [{ id: 'img-1', url: 'blob:transient', model: 'm', prompt: 'p', timestamp: new Date(0), provenance }]
+        }],
+        stories: []
+      });
+
+      await FileBasedStorageService.saveBook(book);
+
+      const bookJsonCall = mockElectronAPI.writeFile.mock.calls.find(
+        (call: any[]) => call[0].endsWith('/book.json')
+      );
+      const image = JSON.parse(bookJsonCall![1]).characters[0].imageGallery[0];
+
+      expect(image.provenance).toEqual(provenance);
+      expect(image).not.toHaveProperty('url');
+    });
+
+    it('should save book prompt templates in book.json', async () => {
+      const book = new Book({
+        title: 'Test Book',
+        promptTemplates: { scene: 'Draw {{scene.description}}' },
+        stories: []
+      });
+
+      await FileBasedStorageService.saveBook(book);
+
+      const bookJsonCall = mockElectronAPI.writeFile.mock.calls.find(
+        (call: any[]) => call[0].endsWith('/book.json')
+      );
+
+      expect(JSON.parse(bookJsonCall![1]).promptTemplates).toEqual({ scene: 'Draw {{scene.description}}' });
+    });
+
+    it('should save story avoid-lists in story files', async () => {
+      const book = new Book({
+        title: 'Test Book',
+        stories: [new Story({ title: 'Quiet Story', backgroundSetup: 'Setup', avoid: ['text', 'watermarks'] })]
+      });
+
+      await FileBasedStorageService.saveBook(book);
+
+      const storyFileCall = mockElectronAPI.writeFile.mock.calls.find(
+        (call: any[]) => call[0].includes('/stories/') && call[0].endsWith('.json')
+      );
+
+      expect(JSON.parse(storyFileCall![1]).avoid).toEqual(['text', 'watermarks']);
+    });
+
     it('should create story files with correct slugs', async () => {
       const story1 = new Story({ title: 'First Story', backgroundSetup: 'Setup 1' });
       const story2 = new Story({ title: 'Second Story', backgroundSetup: 'Setup 2' });
@@ -456,4 +512,74 @@ describe('FileBasedStorageService', () => {
       expect(storyFileCalls[0][0]).toMatch(/story-[a-f0-9]{8}\.json/);
     });
   });
+
+  describe('story file cleanup', () => {
+    const STORIES_DIR = 'prompter-cache/books/sea-tales/stories';
+    let backend: MemoryStorageBackend;
+
+    beforeEach(() => {
+      backend = new MemoryStorageBackend();
+      FileSystemService.setBackend(backend);
+    });
+
+    afterEach(() => {
+      FileSystemService.setBackend(null);
+    });
+
+    const storyFiles = () => backend.getPaths()
+      .filter(path => path.startsWith(`${STORIES_DIR}/`))
+      .map(path => path.slice(STORIES_DIR.length + 1))
+      .sort();
+
+    it('should delete the files of renamed and deleted stories written by an earlier save', async () => {
+      const voyage = new Story({ title: 'Voyage', backgroundSetup: 'At sea' });
+      const harbor = new Story({ title: 'Harbor', backgroundSetup: 'Back home' });
+      const book = new Book({ title: 'Sea Tales', stories: [voyage, harbor] });
+      await FileBasedStorageService.saveBook(book);
+
+      voyage.title = 'Long Voyage';
+      book.stories = [voyage];
+      await FileBasedStorageService.saveBook(book);
+
+      expect(storyFiles()).toEqual(['long-voyage.json']);
+    });
+
+    it('should keep story files the app did not write', async () => {
+      const book = new Book({ title: 'Sea Tales', stories: [new Story({ title: 'Voyage', backgroundSetup: 'At sea' })] });
+      await FileBasedStorageService.saveBook(book);
+      await backend.writeText(`${STORIES_DIR}/notes.json`, '{"title": "Notes"}');
+
+      await FileBasedStorageService.saveBook(book);
+
+      expect(storyFiles()).toEqual(['notes.json', 'voyage.json']);
+    });
+
+    it('should delete stale files of books saved before story files were tracked once they are loaded', async () => {
+      const voyage = new Story({ title: 'Voyage', backgroundSetup: 'At sea' });
+      const book = new Book({ title: 'Sea Tales', stories: [voyage, new Story({ title: 'Harbor', backgroundSetup: 'Back home' })] });
+      await FileBasedStorageService.saveBook(book);
+      await backend.delete('prompter-cache/books/sea-tales/story-files.json');
+
+      const loaded = await FileBasedStorageService.loadBook('sea-tales');
+      loaded!.stories = loaded!.stories.filter(story => story.id === voyage.id);
+      await FileBasedStorageService.saveBook(loaded!);
+
+      expect(storyFiles()).toEqual(['voyage.json']);
+    });
+
+    it('should replace a hand-added story file the app saves under another name', async () => {
+      const book = new Book({ title: 'Sea Tales', stories: [new Story({ title: 'Voyage', backgroundSetup: 'At sea' })] });
+      await FileBasedStorageService.saveBook(book);
+      await backend.writeText(`${STORIES_DIR}/hand_made.json`, JSON.stringify({
+        id: 'hand-1', title: 'Hand Made', backgroundSetup: 'Written by hand', characters: [], elements: [], scenes: []
+      }));
+
+      const loaded = await FileBasedStorageService.loadBook('sea-tales');
+      await FileBasedStorageService.saveBook(loaded!);
+
+      expect(storyFiles()).toEqual(['hand-made.json', 'voyage.json']);
+      const reloaded = await FileBasedStorageService.loadBook('sea-tales');
+      expect(reloaded!.stories.filter(story => story.id === 'hand-1')).toHaveLength(1);
+    });
+  });
 });
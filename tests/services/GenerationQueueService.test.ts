@@ -0,0 +1,320 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GenerationQueueService } from '../../src/services/GenerationQueueService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { BookService } from '../../src/services/BookService';
+import { SettingsService } from '../../src/services/SettingsService';
+import type { NewGenerationJob } from '../../src/types/GenerationQueue';
+import type { Book } from '../../src/models/Book';
+
+vi.mock('../../src/services/FileSystemService', () => ({
+  FileSystemService: {
+    readTextFile: vi.fn(),
+    writeTextFile: vi.fn()
+  }
+}));
+
+vi.mock('../../src/services/BookService', () => ({
+  BookService: {
+    getAllBooks: vi.fn()
+  }
+}));
+
+vi.mock('../../src/services/SettingsService', () => ({
+  SettingsService: {
+    getGenerationConcurrency: vi.fn().mockResolvedValue(1),
+    setGenerationConcurrency: vi.fn().mockResolvedValue(undefined),
+    getGenerationQueuePaused: vi.fn().mockResolvedValue(false),
+    setGenerationQueuePaused: vi.fn().mockResolvedValue(undefined)
+  }
+}));
+
+vi.mock('../../src/services/GenerationJobExecutor', () => ({
+  executeGenerationJob: vi.fn()
+}));
+
+// Helper to create a scene job
+const sceneJob = (sceneId: string): NewGenerationJob => ({
+  kind: 'scene',
+  bookId: 'book-1',
+  storyId: 'story-1',
+  sceneId,
+  label: `Scene ${sceneId}`,
+  model: 'mock/placeholder'
+});
+
+// Let queued promises settle
+const flush = async () => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('GenerationQueueService', () => {
+  let executor: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    GenerationQueueService.reset();
+    vi.mocked(FileSystemService.readTextFile).mockResolvedValue(null);
+    vi.mocked(FileSystemService.writeTextFile).mockResolvedValue({ success: true });
+    executor = vi.fn().mockResolvedValue({ imageId: 'img-1' });
+    GenerationQueueService.setExecutor(executor);
+  });
+
+  afterEach(() => {
+    GenerationQueueService.reset();
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('enqueue', () => {
+    it('should run queued jobs and mark them completed', async () => {
+      await GenerationQueueService.enqueue([sceneJob('s1'), sceneJob('s2')]);
+      await flush();
+      await flush();
+
+      const { jobs } = GenerationQueueService.getState();
+      expect(jobs.map(j => j.status)).toEqual(['completed', 'completed']);
+      expect(jobs[0].resultImageId).toBe('img-1');
+      expect(executor).toHaveBeenCalledTimes(2);
+    });
+
+    it('should persist the queue by book id', async () => {
+      await GenerationQueueService.enqueue([sceneJob('s1')]);
+
+      expect(FileSystemService.writeTextFile).toHaveBeenCalledWith(
+        'prompter-cache/generation-queues/book-1.json',
+        expect.stringContaining('"sceneId": "s1"')
+      );
+    });
+
+    it('should write each book\'s queue in order', async () => {
+      await GenerationQueueService.pause();
+      const written: string[] = [];
+      let finishFirst: () => void = () => {};
+      vi.mocked(FileSystemService.writeTextFile)
+        .mockImplementationOnce(async (_path, content) => {
+          await new Promise<void>(resolve => { finishFirst = resolve; });
+          written.push(content);
+          return { success: true };
+        })
+        .mockImplementation(async (_path, content) => {
+          written.push(content);
+          return { success: true };
+        });
+
+      const first = GenerationQueueService.enqueue([sceneJob('s1')]);
+      await flush();
+      const second = GenerationQueueService.enqueue([sceneJob('s2')]);
+      await flush();
+      finishFirst();
+      await Promise.all([first, second]);
+
+      const last = JSON.parse(written[written.length - 1]);
+      expect(last.jobs.map((j: { sceneId: string }) => j.sceneId)).toEqual(['s1', 's2']);
+    });
+
+    it('should refuse to enqueue over a queue file that cannot be parsed', async () => {
+      vi.mocked(FileSystemService.readTextFile).mockResolvedValue('{"version": 1, "jobs": [');
+
+      await expect(GenerationQueueService.enqueue([sceneJob('s1')])).rejects.toThrow('is unreadable');
+      await expect(GenerationQueueService.enqueue([sceneJob('s2')])).rejects.toThrow('is unreadable');
+
+      expect(FileSystemService.writeTextFile).not.toHaveBeenCalled();
+      expect(GenerationQueueService.getState().jobs).toHaveLength(0);
+    });
+
+    it('should respect concurrency', async () => {
+      let resolveFirst: (v: { imageId: string }) => void = () => {};
+      executor.mockImplementationOnce(() => new Promise(resolve => { resolveFirst = resolve; }));
+
+      await GenerationQueueService.enqueue([sceneJob('s1'), sceneJob('s2')]);
+      await flush();
+
+      const statuses = GenerationQueueService.getState().jobs.map(j => j.status);
+      expect(statuses).toEqual(['running', 'pending']);
+
+      resolveFirst({ imageId: 'img-1' });
+      await flush();
+      await flush();
+      expect(executor).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('pause and resume', () => {
+    it('should not start jobs while paused', async () => {
+      await GenerationQueueService.pause();
+      await GenerationQueueService.enqueue([sceneJob('s1')]);
+      await flush();
+
+      expect(executor).not.toHaveBeenCalled();
+
+      await GenerationQueueService.resume();
+      await flush();
+      expect(executor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should save the pause state as an app setting', async () => {
+      await GenerationQueueService.pause();
+      expect(SettingsService.setGenerationQueuePaused).toHaveBeenCalledWith(true);
+
+      await GenerationQueueService.resume();
+      expect(SettingsService.setGenerationQueuePaused).toHaveBeenLastCalledWith(false);
+    });
+  });
+
+  describe('retries', () => {
+    it('should back off and retry on 429 errors', async () => {
+      vi.useFakeTimers();
+      executor.mockRejectedValueOnce(new Error('API error (429): rate limited'));
+
+      await GenerationQueueService.enqueue([sceneJob('s1')]);
+      await flush();
+      await flush();
+
+      let job = GenerationQueueService.getState().jobs[0];
+      expect(job.status).toBe('pending');
+      expect(job.nextAttemptAt).toBeInstanceOf(Date);
+      expect(executor).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      await flush();
+
+      job = GenerationQueueService.getState().jobs[0];
+      expect(executor).toHaveBeenCalledTimes(2);
+      expect(job.status).toBe('completed');
+      expect(job.attempts).toBe(2);
+    });
+
+    it('should fail immediately on non-retryable errors', async () => {
+      executor.mockRejectedValueOnce(new Error('Scene no longer exists'));
+
+      await GenerationQueueService.enqueue([sceneJob('s1')]);
+      await flush();
+      await flush();
+
+      const job = GenerationQueueService.getState().jobs[0];
+      expect(job.status).toBe('failed');
+      expect(job.lastError).toBe('Scene no longer exists');
+    });
+
+    it('should grow the retry delay exponentially with a cap', () => {
+      expect(GenerationQueueService.getRetryDelay(1)).toBe(5000);
+      expect(GenerationQueueService.getRetryDelay(2)).toBe(10000);
+      expect(GenerationQueueService.getRetryDelay(3)).toBe(20000);
+      expect(GenerationQueueService.getRetryDelay(20)).toBe(5 * 60 * 1000);
+    });
+
+    it('should classify retryable errors', () => {
+      expect(GenerationQueueService.isRetryableError('API error (503): unavailable')).toBe(true);
+      expect(GenerationQueueService.isRetryableError('Failed to fetch')).toBe(true);
+      expect(GenerationQueueService.isRetryableError('API error (400): bad request')).toBe(false);
+    });
+  });
+
+  describe('queue management', () => {
+    beforeEach(async () => {
+      await GenerationQueueService.pause();
+      await GenerationQueueService.enqueue([sceneJob('s1'), sceneJob('s2'), sceneJob('s3')]);
+    });
+
+    it('should reorder jobs', async () => {
+      const last = GenerationQueueService.getState().jobs[2];
+      await GenerationQueueService.move(last.id, 0);
+
+      expect(GenerationQueueService.getState().jobs.map(j => j.sceneId)).toEqual(['s3', 's1', 's2']);
+    });
+
+    it('should cancel and retry jobs', async () => {
+      const job = GenerationQueueService.getState().jobs[0];
+      await GenerationQueueService.cancel(job.id);
+      expect(GenerationQueueService.getState().jobs[0].status).toBe('cancelled');
+
+      await GenerationQueueService.retry(job.id);
+      expect(GenerationQueueService.getState().jobs[0].status).toBe('pending');
+    });
+
+    it('should clear finished jobs', async () => {
+      const job = GenerationQueueService.getState().jobs[0];
+      await GenerationQueueService.cancel(job.id);
+      await GenerationQueueService.clearFinished();
+
+      expect(GenerationQueueService.getState().jobs).toHaveLength(2);
+    });
+
+    it('should abort a running job when it is cancelled', async () => {
+      let signal: AbortSignal | undefined;
+      executor.mockImplementationOnce((_job, jobSignal: AbortSignal) => {
+        signal = jobSignal;
+        return new Promise(() => {});
+      });
+      await GenerationQueueService.resume();
+      await flush();
+
+      const running = GenerationQueueService.getState().jobs[0];
+      expect(running.status).toBe('running');
+      await GenerationQueueService.cancel(running.id);
+
+      expect(signal?.aborted).toBe(true);
+      expect(GenerationQueueService.getState().jobs[0].status).toBe('cancelled');
+    });
+
+    it('should notify subscribers of changes', async () => {
+      const listener = vi.fn();
+      const unsubscribe = GenerationQueueService.subscribe(listener);
+      await GenerationQueueService.cancel(GenerationQueueService.getState().jobs[0].id);
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(2); // initial state + cancel
+    });
+  });
+
+  describe('loadBookQueue', () => {
+    it('should restore persisted jobs and reset interrupted ones', async () => {
+      await GenerationQueueService.pause();
+      vi.mocked(FileSystemService.readTextFile).mockResolvedValue(JSON.stringify({
+        version: 1,
+        jobs: [
+          { ...sceneJob('s1'), id: 'job-1', status: 'running', attempts: 1, maxAttempts: 5, createdAt: '2025-01-01T00:00:00Z' },
+          { ...sceneJob('s2'), id: 'job-2', status: 'failed', attempts: 5, maxAttempts: 5, createdAt: '2025-01-01T00:00:00Z' }
+        ]
+      }));
+
+      await GenerationQueueService.loadBookQueue('book-1');
+
+      const state = GenerationQueueService.getState();
+      expect(FileSystemService.readTextFile).toHaveBeenCalledWith('prompter-cache/generation-queues/book-1.json');
+      expect(state.jobs.map(j => j.status)).toEqual(['pending', 'failed']);
+      expect(state.jobs[0].createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should take the pause state from the app settings', async () => {
+      await GenerationQueueService.loadBookQueue('book-1');
+      expect(GenerationQueueService.getState().paused).toBe(false);
+
+      GenerationQueueService.reset();
+      vi.mocked(SettingsService.getGenerationQueuePaused).mockResolvedValueOnce(true);
+      await GenerationQueueService.loadBookQueue('book-1');
+      expect(GenerationQueueService.getState().paused).toBe(true);
+    });
+
+    it('should only load each book once', async () => {
+      await GenerationQueueService.loadBookQueue('book-1');
+      const reads = vi.mocked(FileSystemService.readTextFile).mock.calls.length;
+      await GenerationQueueService.loadBookQueue('book-1');
+
+      expect(FileSystemService.readTextFile).toHaveBeenCalledTimes(reads);
+    });
+
+    it('should load the queues of every book', async () => {
+      vi.mocked(BookService.getAllBooks).mockResolvedValue([
+        { id: 'book-1', title: 'My Book' },
+        { id: 'book-2', title: 'Other Book' }
+      ] as unknown as Book[]);
+
+      await GenerationQueueService.loadAllQueues();
+
+      expect(FileSystemService.readTextFile).toHaveBeenCalledWith('prompter-cache/generation-queues/book-1.json');
+      expect(FileSystemService.readTextFile).toHaveBeenCalledWith('prompter-cache/generation-queues/book-2.json');
+    });
+  });
+});
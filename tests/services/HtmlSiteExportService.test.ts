@@ -0,0 +1,196 @@
+/**
+ * HtmlSiteExportService Tests
+ *
+ * Runs the real StorageService/BookCache stack on an in-memory backend;
+ * images come from a mocked ImageStorageService and diagrams from a mocked
+ * DiagramRenderService.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import JSZip from 'jszip';
+import { HtmlSiteExportService } from '../../src/services/HtmlSiteExportService';
+import { StorageService } from '../../src/services/StorageService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import { ImageStorageService } from '../../src/services/ImageStorageService';
+import { renderDiagramToCanvas } from '../../src/services/DiagramRenderService';
+import { bookCache } from '../../src/services/BookCache';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+import { DEFAULT_HTML_SITE_SETTINGS, type HtmlSite, type HtmlSiteSettings } from '../../src/types/HtmlSiteExport';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+vi.mock('../../src/services/ImageStorageService', () => ({
+  ImageStorageService: {
+    getImage: vi.fn(),
+    getCharacterImage: vi.fn(),
+    getBookCharacterImage: vi.fn()
+  }
+}));
+
+vi.mock('../../src/services/DiagramRenderService', () => ({
+  renderDiagramToCanvas: vi.fn(),
+  canvasToDataURL: () => 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
+}));
+
+const settings = (overrides: Partial<HtmlSiteSettings> = {}): HtmlSiteSettings => ({
+  ...DEFAULT_HTML_SITE_SETTINGS,
+  ...overrides
+});
+
+function imagedScene(title: string, data: Partial<Scene> = {}): Scene {
+  return new Scene({
+    title,
+    description: `${title} by the sea`,
+    imageHistory: [{ id: `${title}-image`, modelName: 'test-model', timestamp: new Date() }],
+    ...data
+  });
+}
+
+const fileText = (site: HtmlSite, path: string): string => {
+  const file = site.files.find(f => f.path === path);
+  if (!file || typeof file.content !== 'string') {
+    throw new Error(`No text file ${path}`);
+  }
+  return file.content;
+};
+
+// jsdom's Blob has no arrayBuffer()
+const loadZip = (blob: Blob) => new Promise<JSZip>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => JSZip.loadAsync(reader.result as ArrayBuffer).then(resolve, reject);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+// Let BookCache's background filesystem writes finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('HtmlSiteExportService', () => {
+  let book: Book;
+
+  beforeEach(async () => {
+    FileSystemService.setBackend(new MemoryStorageBackend());
+    bookCache.clear();
+    vi.clearAllMocks();
+    vi.mocked(ImageStorageService.getImage).mockResolvedValue(PNG);
+    vi.mocked(ImageStorageService.getCharacterImage).mockResolvedValue(PNG);
+    vi.mocked(ImageStorageService.getBookCharacterImage).mockResolvedValue(PNG);
+    vi.mocked(renderDiagramToCanvas).mockResolvedValue(document.createElement('canvas'));
+
+    const first = new Story({ title: 'Tide Pools', backgroundSetup: '', description: 'Small <wet> worlds' });
+    first.addScene(imagedScene('Arrival', { textPanel: 'We reached the rocks.\n\nThe tide was low.' }));
+    const chapter = first.addChapter('Exploring');
+    first.insertScene(imagedScene('Crabs', { diagramPanel: { type: 'code', content: 'count(crabs) > 3', language: 'python' } }), chapter.id);
+    first.characters = [{
+      name: 'Mia',
+      description: 'Curious diver',
+      imageGallery: [
+        { id: 'mia-1', model: 'm', prompt: '', timestamp: new Date() },
+        { id: 'mia-2', model: 'm', prompt: '', timestamp: new Date() }
+      ],
+      selectedImageId: 'mia-2'
+    }];
+    const second = new Story({ title: 'Tide Pools', backgroundSetup: '' });
+    second.addScene(new Scene({ title: 'Night', description: '' }));
+
+    book = new Book({ title: 'Sea Days', stories: [first, second] });
+    await StorageService.saveBook(book);
+  });
+
+  afterEach(async () => {
+    await settle();
+    FileSystemService.setBackend(null);
+    bookCache.clear();
+  });
+
+  describe('buildSite', () => {
+    it('should build an index, story pages and a character gallery with relative paths', async () => {
+      const site = await HtmlSiteExportService.buildSite(book.id, settings());
+
+      expect(site.name).toBe('sea-days');
+      expect(site.pageCount).toBe(4);
+      expect(site.files.map(file => file.path)).toEqual(expect.arrayContaining([
+        'index.html', 'story-01-tide-pools.html', 'story-02-tide-pools-1.html', 'characters.html',
+        'assets/site.css', 'assets/site.js', 'images/scenes/scene-001.png', 'images/diagrams/diagram-001.png',
+        'images/characters/character-001.png'
+      ]));
+
+      for (const file of site.files.filter(f => f.path.endsWith('.html'))) {
+        const urls = [...(file.content as string).matchAll(/(?:src|href)="([^"]*)"/g)].map(match => match[1]);
+        expect(urls.filter(url => /^(\/|[a-z]+:)/i.test(url))).toEqual([]);
+      }
+
+      const index = fileText(site, 'index.html');
+      expect(index).toContain('<a href="story-01-tide-pools.html"><img src="images/scenes/scene-001.png" width="1" height="1" alt="">');
+      expect(index).toContain('<p>Small &lt;wet&gt; worlds</p>');
+      expect(index).toContain('<a href="characters.html">Characters</a>');
+    });
+
+    it('should show scenes with text, diagrams and links to the neighbouring scenes', async () => {
+      const site = await HtmlSiteExportService.buildSite(book.id, settings());
+      const page = fileText(site, 'story-01-tide-pools.html');
+
+      expect(page).toContain('<body data-prev="index.html" data-next="story-02-tide-pools-1.html">');
+      expect(page).toContain('<section class="scene" id="scene-1" tabindex="-1" aria-labelledby="scene-1-title">');
+      expect(page).toContain('alt="Arrival by the sea"');
+      expect(page).toContain('<div class="scene-text"><p>We reached the rocks.</p><p>The tide was low.</p></div>');
+      expect(page).toContain('<a href="#scene-2" rel="next">Next scene →</a>');
+      expect(page).toContain('<a href="story-02-tide-pools-1.html" rel="next">Next story →</a>');
+      expect(page).toContain('<pre><code class="language-python">count(crabs) &gt; 3</code></pre>');
+      expect(page.indexOf('<h2>Exploring</h2>')).toBeLessThan(page.indexOf('id="scene-2"'));
+    });
+
+    it('should show the diagram source when rendering fails', async () => {
+      vi.mocked(renderDiagramToCanvas).mockRejectedValue(new Error('no canvas'));
+
+      const site = await HtmlSiteExportService.buildSite(book.id, settings());
+
+      expect(site.files.some(file => file.path.startsWith('images/diagrams/'))).toBe(false);
+      expect(fileText(site, 'story-01-tide-pools.html')).not.toContain('<details>');
+      expect(site.issues.map(issue => issue.message)).toEqual([
+        'Could not render the diagram of scene "Crabs"; its source is shown instead'
+      ]);
+    });
+
+    it('should use only each character\'s selected image', async () => {
+      const site = await HtmlSiteExportService.buildSite(book.id, settings());
+
+      expect(ImageStorageService.getCharacterImage).toHaveBeenCalledTimes(1);
+      expect(ImageStorageService.getCharacterImage).toHaveBeenCalledWith(book.stories[0].id, 'Mia', 'mia-2');
+      expect(fileText(site, 'characters.html')).toContain('<h2>Characters in Tide Pools</h2>');
+    });
+
+    it('should leave out optional parts that are turned off', async () => {
+      const site = await HtmlSiteExportService.buildSite(book.id, settings({ sceneText: false, diagrams: false, characterGallery: false }));
+      const page = fileText(site, 'story-01-tide-pools.html');
+
+      expect(site.files.some(file => file.path === 'characters.html')).toBe(false);
+      expect(page).not.toContain('scene-text');
+      expect(page).not.toContain('class="diagram"');
+      expect(renderDiagramToCanvas).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('output', () => {
+    it('should write the site into a folder named after the book', async () => {
+      const target = new MemoryStorageBackend();
+
+      const result = await HtmlSiteExportService.exportToDirectory(book.id, settings(), target);
+
+      expect(result.path).toBe('sea-days');
+      expect(await target.readText('sea-days/index.html')).toContain('<h1>Sea Days</h1>');
+      expect(await target.readBinary('sea-days/images/scenes/scene-001.png')).toHaveLength(70);
+    });
+
+    it('should zip the site in one folder', async () => {
+      const result = await HtmlSiteExportService.exportToZip(book.id, settings());
+      const zip = await loadZip(result.blob!);
+
+      expect(zip.file('sea-days/index.html')).not.toBeNull();
+      expect(zip.file('sea-days/assets/site.js')).not.toBeNull();
+    });
+  });
+});
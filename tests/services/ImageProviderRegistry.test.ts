@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ImageProviderRegistry } from '../../src/services/ImageProviderRegistry';
+import { ImageGenerationService } from '../../src/services/ImageGenerationService';
+import type { ImageProvider, ImageModelInfo } from '../../src/services/ImageProvider';
+import { SettingsService } from '../../src/services/SettingsService';
+import { getImageModels } from '../../src/constants/imageModels';
+
+vi.mock('../../src/services/SettingsService', () => ({
+  SettingsService: {
+    getApiKey: vi.fn(),
+    getImageGenerationModel: vi.fn()
+  }
+}));
+
+// Helper to create a fake provider
+const createFakeProvider = (id: string, models: string[], acceptsUnlisted = false): ImageProvider => {
+  const modelInfos: ImageModelInfo[] = models.map(value => ({
+    value,
+    label: `${value} label`,
+    providerId: id,
+    capabilities: { supportedAspectRatios: ['1:1'], maxReferenceImages: 1 },
+    cost: { perImage: 0.01 }
+  }));
+  return {
+    id,
+    name: `Fake ${id}`,
+    getModels: () => modelInfos,
+    acceptsUnlistedModels: () => acceptsUnlisted,
+    generate: vi.fn().mockResolvedValue({ success: true, imageUrl: `data:image/png;base64,${id}` })
+  };
+};
+
+describe('ImageProviderRegistry', () => {
+  afterEach(() => {
+    ImageProviderRegistry.unregister('fake');
+    vi.clearAllMocks();
+  });
+
+  describe('Built-in providers', () => {
+    it('should register OpenRouter by default', () => {
+      const provider = ImageProviderRegistry.getProvider('openrouter');
+      expect(provider).toBeDefined();
+      expect(provider?.name).toBe('OpenRouter');
+    });
+
+    it('should expose OpenRouter models through getImageModels', () => {
+      const values = getImageModels().map(m => m.value);
+      expect(values).toContain('google/gemini-2.5-flash-image');
+      expect(values).toContain('openai/gpt-5-image-mini');
+      expect(getImageModels()[0]).toHaveProperty('label');
+    });
+
+    it('should derive aspect ratio lists from model capabilities', () => {
+      const chatGpt = ImageProviderRegistry.getCapabilities('openai/gpt-5-image')!.supportedAspectRatios;
+      const gemini = ImageProviderRegistry.getCapabilities('google/gemini-2.5-flash-image')!.supportedAspectRatios;
+      expect(chatGpt).toEqual(['1:1', '16:9', '9:16']);
+      expect(gemini).toContain('3:4');
+      expect(gemini.length).toBeGreaterThan(chatGpt.length);
+    });
+
+    it('should include cost metadata for built-in models', () => {
+      const model = ImageProviderRegistry.getModel('google/gemini-2.5-flash-image');
+      expect(model?.cost?.perImage).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Provider lookup', () => {
+    it('should route listed models to their provider', () => {
+      ImageProviderRegistry.register(createFakeProvider('fake', ['fake/model']));
+
+      expect(ImageProviderRegistry.getProviderForModel('fake/model')?.id).toBe('fake');
+      expect(ImageProviderRegistry.getAllModels().some(m => m.value === 'fake/model')).toBe(true);
+      expect(getImageModels().some(m => m.value === 'fake/model')).toBe(true);
+      expect(ImageProviderRegistry.getCapabilities('fake/model')?.supportedAspectRatios).toEqual(['1:1']);
+    });
+
+    it('should route unlisted models to the default provider', () => {
+      expect(ImageProviderRegistry.getProviderForModel('some/new-image-model')?.id).toBe('openrouter');
+    });
+
+    it('should have no capabilities for unlisted models', () => {
+      expect(ImageProviderRegistry.getCapabilities('unknown/model')).toBeUndefined();
+    });
+
+    it('should reject an unknown default provider', () => {
+      expect(() => ImageProviderRegistry.setDefaultProvider('missing')).toThrow('Unknown image provider');
+    });
+  });
+});
+
+describe('ImageGenerationService', () => {
+  let fakeProvider: ImageProvider;
+
+  beforeEach(() => {
+    fakeProvider = createFakeProvider('fake', ['fake/model']);
+    ImageProviderRegistry.register(fakeProvider);
+  });
+
+  afterEach(() => {
+    ImageProviderRegistry.unregister('fake');
+    vi.clearAllMocks();
+  });
+
+  it('should delegate to the provider that serves the model', async () => {
+    const result = await ImageGenerationService.generateImage({
+      prompt: 'A cat',
+      model: 'fake/model',
+      aspectRatio: '1:1'
+    });
+
+    expect(result).toEqual({ success: true, imageUrl: 'data:image/png;base64,fake' });
+    expect(fakeProvider.generate).toHaveBeenCalledWith({
+      prompt: 'A cat',
+      model: 'fake/model',
+      aspectRatio: '1:1'
+    });
+  });
+
+  it('should use the model from settings when none is given', async () => {
+    vi.mocked(SettingsService.getImageGenerationModel).mockResolvedValue('fake/model');
+
+    await ImageGenerationService.generateImage({ prompt: 'A dog' });
+
+    expect(fakeProvider.generate).toHaveBeenCalledWith(expect.objectContaining({ model: 'fake/model' }));
+  });
+
+  it('should report an error when OpenRouter has no API key', async () => {
+    vi.mocked(SettingsService.getApiKey).mockResolvedValue(undefined);
+
+    const result = await ImageGenerationService.generateImage({
+      prompt: 'A bird',
+      model: 'google/gemini-2.5-flash-image'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('API key not configured');
+  });
+
+  it('should catch provider exceptions', async () => {
+    vi.mocked(fakeProvider.generate).mockRejectedValueOnce(new Error('boom'));
+
+    const result = await ImageGenerationService.generateImage({ prompt: 'x', model: 'fake/model' });
+
+    expect(result).toEqual({ success: false, error: 'boom' });
+  });
+});
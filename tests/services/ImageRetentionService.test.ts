@@ -0,0 +1,267 @@
+/**
+ * ImageRetentionService Tests
+ *
+ * Books are saved through the real StorageService/BookCache stack on an
+ * in-memory backend; images go into the image store directly.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ImageRetentionService, UNDO_WINDOW_MS } from '../../src/services/ImageRetentionService';
+import { ImageStoreService } from '../../src/services/ImageStoreService';
+import { ExportRecordService } from '../../src/services/ExportRecordService';
+import { BookSnapshotService } from '../../src/services/BookSnapshotService';
+import { BookHistoryService } from '../../src/services/BookHistoryService';
+import { StorageService } from '../../src/services/StorageService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import { bookCache } from '../../src/services/BookCache';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+import type { ImageRetentionPolicy } from '../../src/types/ImageRetention';
+
+const POLICY: ImageRetentionPolicy = { keepLastPerScene: 2, keepStarred: true, keepExported: true, includeCharacterGalleries: false };
+
+const sceneImage = (id: string, day: number, starred?: boolean) =>
+  ({ id, modelName: 'test-model', timestamp: new Date(`2026-01-0${day}`), starred });
+const characterImage = (id: string) => ({ id, model: 'test-model', prompt: 'portrait', timestamp: new Date('2026-01-01') });
+
+function createBook(): Book {
+  const voyage = new Story({
+    title: 'Voyage',
+    backgroundSetup: 'A long sea voyage',
+    characters: [{
+      name: 'Ada',
+      description: 'Navigator',
+      imageGallery: [characterImage('ada-1'), characterImage('ada-2'), characterImage('ada-3')],
+      selectedImageId: 'ada-2'
+    }]
+  });
+  voyage.addScene(new Scene({
+    title: 'Departure',
+    description: 'Leaving port',
+    imageHistory: [sceneImage('s-1', 1), sceneImage('s-2', 2, true), sceneImage('s-3', 3), sceneImage('s-4', 4), sceneImage('s-5', 5)]
+  }));
+
+  return new Book({ title: 'Sea Tales', stories: [voyage] });
+}
+
+// Let BookCache's background filesystem writes finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('ImageRetentionService', () => {
+  let book: Book;
+
+  const ids = (candidates: Array<{ imageId: string }>) => candidates.map(candidate => candidate.imageId).sort();
+  const sceneHistory = async () =>
+    (await StorageService.getBook(book.id))?.stories[0].scenes[0].imageHistory?.map(image => image.id);
+
+  beforeEach(async () => {
+    FileSystemService.setBackend(new MemoryStorageBackend());
+    bookCache.clear();
+    BookHistoryService.reset();
+    BookSnapshotService.reset();
+    ImageStoreService.reset();
+    ExportRecordService.reset();
+    ImageRetentionService.reset();
+
+    // Each image gets its own bytes, so none share a blob
+    const imageIds = ['s-1', 's-2', 's-3', 's-4', 's-5', 'ada-1', 'ada-2', 'ada-3', 'orphan'];
+    for (const [i, imageId] of imageIds.entries()) {
+      await ImageStoreService.putImage(imageId, new Uint8Array(10 + i).fill(i), { kind: 'other' });
+    }
+
+    book = createBook();
+    await StorageService.saveBook(book);
+  });
+
+  afterEach(async () => {
+    await settle();
+    ImageRetentionService.reset();
+    FileSystemService.setBackend(null);
+    bookCache.clear();
+    BookHistoryService.reset();
+    BookSnapshotService.reset();
+    ImageStoreService.reset();
+    ExportRecordService.reset();
+  });
+
+  it('should measure usage per book and story', async () => {
+    const analysis = await ImageRetentionService.analyze(POLICY);
+
+    expect(analysis.totalImages).toBe(9);
+    expect(analysis.totalBytes).toBe(Array.from({ length: 9 }, (_, i) => 10 + i).reduce((a, b) => a + b));
+    expect(analysis.quotaBytes).toBeNull();
+    expect(analysis.books).toHaveLength(1);
+    expect(analysis.books[0]).toMatchObject({ bookTitle: 'Sea Tales', imageCount: 8 });
+    expect(analysis.books[0].stories[0]).toMatchObject({ storyTitle: 'Voyage', imageCount: 8 });
+    expect(analysis.books[0].bytes).toBe(analysis.totalBytes - 18);
+  });
+
+  it('should list orphans and superseded scene images under the policy', async () => {
+    const analysis = await ImageRetentionService.analyze(POLICY);
+
+    expect(ids(analysis.orphaned)).toEqual(['orphan']);
+    // s-4 and s-5 are the newest two, s-2 is starred
+    expect(ids(analysis.superseded)).toEqual(['s-1', 's-3']);
+    expect(analysis.kept).toEqual({ starred: 1, exported: 0, restorable: 0 });
+    expect(analysis.superseded[0].usage).toMatchObject({ kind: 'scene', sceneTitle: 'Departure', storyTitle: 'Voyage' });
+  });
+
+  it('should keep exported images', async () => {
+    await ExportRecordService.recordExport('docx', ['s-1', 'orphan']);
+
+    const analysis = await ImageRetentionService.analyze(POLICY);
+
+    expect(ids(analysis.orphaned)).toEqual([]);
+    expect(ids(analysis.superseded)).toEqual(['s-3']);
+    expect(analysis.kept).toEqual({ starred: 1, exported: 2, restorable: 0 });
+
+    const ignoringExports = await ImageRetentionService.analyze({ ...POLICY, keepExported: false });
+    expect(ids(ignoringExports.superseded)).toEqual(['s-1', 's-3']);
+  });
+
+  it('should only clean up unselected character images when asked to', async () => {
+    const analysis = await ImageRetentionService.analyze({ ...POLICY, keepLastPerScene: 1, includeCharacterGalleries: true });
+
+    // ada-3 is the newest, ada-2 is selected
+    expect(ids(analysis.superseded)).toEqual(['ada-1', 's-1', 's-3', 's-4']);
+  });
+
+  it('should star an image so the policy keeps it', async () => {
+    const before = await ImageRetentionService.analyze(POLICY);
+    const usage = before.superseded.find(candidate => candidate.imageId === 's-3')?.usage;
+    expect(usage).toBeDefined();
+    if (!usage) return;
+
+    expect(await ImageRetentionService.setStarred(usage, true)).toBe(true);
+
+    const after = await ImageRetentionService.analyze(POLICY);
+    expect(ids(after.superseded)).toEqual(['s-1']);
+    expect(after.kept.starred).toBe(2);
+  });
+
+  it('should delete candidates and undo the deletion', async () => {
+    const analysis = await ImageRetentionService.analyze(POLICY);
+    const events: Array<string | null> = [];
+    ImageRetentionService.subscribe(pending => events.push(pending?.id ?? null));
+
+    const pending = await ImageRetentionService.deleteImages([...analysis.superseded, ...analysis.orphaned]);
+
+    expect(pending.imageIds.sort()).toEqual(['orphan', 's-1', 's-3']);
+    expect(pending.expiresAt.getTime() - pending.deletedAt.getTime()).toBe(UNDO_WINDOW_MS);
+    expect(ImageRetentionService.getPendingDeletion()).toEqual(pending);
+    expect(await sceneHistory()).toEqual(['s-2', 's-4', 's-5']);
+    expect(await ImageStoreService.hasImage('orphan')).toBe(false);
+    // The deletion adds no undo step, so nothing brings the scene images back
+    expect(BookHistoryService.getState(book.id).canUndo).toBe(false);
+    expect(pending.keptOnDisk).toBe(0);
+    expect(pending.bytes).toBe(10 + 12 + 18);
+    expect(await ImageStoreService.hasImage('s-1')).toBe(false);
+
+    expect(await ImageRetentionService.undoDeletion()).toBe(3);
+
+    expect(await sceneHistory()).toEqual(['s-1', 's-2', 's-3', 's-4', 's-5']);
+    expect(await ImageStoreService.hasImage('orphan')).toBe(true);
+    expect(await ImageStoreService.readImage('s-1')).toEqual(new Uint8Array(10).fill(0));
+    expect(ImageRetentionService.getPendingDeletion()).toBeNull();
+    expect(events).toEqual([pending.id, null]);
+  });
+
+  it('should delete and restore a scene image together with its image before overlays', async () => {
+    await ImageStoreService.putImage('s-1-base', new Uint8Array(30).fill(30), { kind: 'other' });
+    const stored = await StorageService.getBook(book.id);
+    stored!.stories[0].scenes[0].imageHistory![0].baseImageId = 's-1-base';
+    await StorageService.saveBook(stored!);
+    BookHistoryService.reset();
+
+    const analysis = await ImageRetentionService.analyze(POLICY);
+    expect(ids(analysis.orphaned)).toEqual(['orphan']);
+    expect(analysis.superseded.find(candidate => candidate.imageId === 's-1')?.size).toBe(10 + 30);
+
+    const pending = await ImageRetentionService.deleteImages(analysis.superseded);
+    expect(pending.bytes).toBe(10 + 30 + 12);
+    expect(await ImageStoreService.hasImage('s-1')).toBe(false);
+    expect(await ImageStoreService.hasImage('s-1-base')).toBe(false);
+
+    expect(await ImageRetentionService.undoDeletion()).toBe(2);
+    expect((await StorageService.getBook(book.id))?.stories[0].scenes[0].imageHistory?.[0].baseImageId).toBe('s-1-base');
+    expect(await ImageStoreService.readImage('s-1-base')).toEqual(new Uint8Array(30).fill(30));
+  });
+
+  it('should free the blobs once the deletion is final', async () => {
+    await ImageStoreService.putImage('stray', new Uint8Array(40).fill(40), { kind: 'other' });
+    const analysis = await ImageRetentionService.analyze(POLICY);
+    await ImageRetentionService.deleteImages([...analysis.superseded, ...analysis.orphaned.filter(c => c.imageId === 'orphan')]);
+    // Unreferenced by something else - not this deletion's to free
+    await ImageStoreService.removeImage('stray');
+
+    // Still on disk during the undo window
+    expect((await ImageStoreService.getStorageReport()).unreferencedBlobs).toBe(4);
+
+    expect(await ImageRetentionService.finalizeDeletion()).toBe(10 + 12 + 18);
+    expect((await ImageStoreService.getStorageReport()).unreferencedBlobs).toBe(1);
+    expect(await ImageStoreService.hasImage('s-1')).toBe(false);
+    expect(await ImageRetentionService.undoDeletion()).toBe(0);
+    expect(await sceneHistory()).toEqual(['s-2', 's-4', 's-5']);
+  });
+
+  it('should keep images that only snapshots or undo history use', async () => {
+    await ImageStoreService.putImage('s-0', new Uint8Array(50).fill(50), { kind: 'other' });
+    const stored = await StorageService.getBook(book.id);
+    stored!.stories[0].scenes[0].imageHistory!.unshift(sceneImage('s-0', 1));
+    await StorageService.saveBook(stored!);
+    const snapshot = await BookSnapshotService.createSnapshot(book.id, 'manual');
+
+    // s-0 leaves the book (an undoable save), s-1 only lives on in the snapshot
+    stored!.stories[0].scenes[0].imageHistory!.splice(0, 2);
+    await StorageService.saveBook(stored!);
+    BookHistoryService.reset();
+    const snapshotOnly = await ImageRetentionService.analyze(POLICY);
+    expect(ids(snapshotOnly.orphaned)).toEqual(['orphan']);
+    expect(snapshotOnly.kept.restorable).toBe(2);
+
+    await BookSnapshotService.restoreBook(book.id, snapshot!.id);
+    expect(await sceneHistory()).toEqual(['s-0', 's-1', 's-2', 's-3', 's-4', 's-5']);
+    expect(await ImageStoreService.hasImage('s-0')).toBe(true);
+  });
+
+  it('should offer no candidates while the undo history is unreadable', async () => {
+    await FileSystemService.writeTextFile(`prompter-cache/history/${book.id}.json`, '{ "version": 1, "undo": [');
+
+    await expect(ImageRetentionService.analyze(POLICY)).rejects.toThrow(/undo history/i);
+  });
+
+  it('should offer no candidates while the export records are unreadable', async () => {
+    await FileSystemService.writeTextFile('prompter-cache/export-records.json', '{ "version": 1, "ima');
+
+    await expect(ImageRetentionService.analyze(POLICY)).rejects.toThrow(/export records/i);
+
+    // A later export must not replace the records it couldn't read
+    await ExportRecordService.recordExport('docx', ['s-1']);
+    expect(await FileSystemService.readTextFile('prompter-cache/export-records.json')).toBe('{ "version": 1, "ima');
+  });
+
+  it('should reselect a character image when the selected one is deleted', async () => {
+    const stored = await StorageService.getBook(book.id);
+    const ada = stored?.stories[0].characters[0];
+    expect(ada).toBeDefined();
+    if (!stored || !ada) return;
+
+    const usage = {
+      imageId: 'ada-2', kind: 'character' as const, bookId: book.id, bookTitle: book.title,
+      storyId: stored.stories[0].id, storyTitle: 'Voyage', characterName: 'Ada', starred: false
+    };
+    await ImageRetentionService.deleteImages([{ imageId: 'ada-2', reason: 'superseded', size: 16, usage }]);
+
+    const afterDelete = (await StorageService.getBook(book.id))?.stories[0].characters[0];
+    expect(afterDelete?.imageGallery?.map(image => image.id)).toEqual(['ada-1', 'ada-3']);
+    expect(afterDelete?.selectedImageId).toBe('ada-3');
+
+    await ImageRetentionService.undoDeletion();
+
+    const afterUndo = (await StorageService.getBook(book.id))?.stories[0].characters[0];
+    expect(afterUndo?.imageGallery?.map(image => image.id)).toEqual(['ada-1', 'ada-2', 'ada-3']);
+    expect(afterUndo?.selectedImageId).toBe('ada-2');
+  });
+});
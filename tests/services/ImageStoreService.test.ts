@@ -0,0 +1,183 @@
+/**
+ * ImageStoreService Tests
+ *
+ * Uses an in-memory backend; images go in through FileSystemService as the
+ * app saves them.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ImageStoreService, hashImageBytes } from '../../src/services/ImageStoreService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import { SaveJournalService } from '../../src/services/SaveJournalService';
+
+const PNG_A = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+const PNG_B = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+const BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]);
+
+describe('ImageStoreService', () => {
+  let backend: MemoryStorageBackend;
+
+  const blobPaths = () => backend.getPaths().filter(path => /^prompter-cache\/blobs\/..\//.test(path));
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    FileSystemService.setBackend(backend);
+    ImageStoreService.reset();
+  });
+
+  afterEach(() => {
+    FileSystemService.setBackend(null);
+    ImageStoreService.reset();
+  });
+
+  it('should store identical images once', async () => {
+    await FileSystemService.saveImageById('ref-1', PNG_A, { characterName: 'Ada' });
+    await FileSystemService.saveImageById('ref-2', PNG_A, { characterName: 'Ada' });
+    await FileSystemService.saveImageById('scene-1', PNG_B, { sceneId: 'scene', modelName: 'test-model' });
+
+    expect(blobPaths()).toHaveLength(2);
+    expect(await ImageStoreService.getImage('scene-1')).toMatchObject({ kind: 'scene', sceneId: 'scene', modelName: 'test-model' });
+
+    const report = await ImageStoreService.getStorageReport();
+    expect(report).toMatchObject({ imageCount: 3, blobCount: 2, unreferencedBlobs: 0, legacyFiles: 0 });
+    expect(report.logicalBytes).toBeGreaterThan(report.storedBytes);
+  });
+
+  it('should name blobs by the SHA-256 of their bytes', async () => {
+    const { path, hash } = await ImageStoreService.putImage('img', BYTES, { kind: 'other' });
+
+    expect(hash).toBe(await hashImageBytes(BYTES));
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(path).toBe(`prompter-cache/blobs/${hash.slice(0, 2)}/${hash}.png`);
+    expect(await ImageStoreService.readImage('img')).toEqual(BYTES);
+  });
+
+  it('should keep a shared blob until its last image is removed and collected', async () => {
+    await FileSystemService.saveImageById('ref-1', PNG_A, { characterName: 'Ada' });
+    await FileSystemService.saveImageById('ref-2', PNG_A, { characterName: 'Ada' });
+
+    expect(await FileSystemService.deleteImageById('ref-1')).toBe(true);
+    expect((await ImageStoreService.collectGarbage()).deletedBlobs).toEqual([]);
+    expect(await FileSystemService.loadImageById('ref-2')).toMatch(/^blob:/);
+
+    await FileSystemService.deleteImageById('ref-2');
+    expect(blobPaths()).toHaveLength(1);
+    expect((await ImageStoreService.getStorageReport()).unreferencedBlobs).toBe(1);
+
+    const preview = await ImageStoreService.collectGarbage({ dryRun: true });
+    expect(preview.deletedBlobs).toHaveLength(1);
+    expect(blobPaths()).toHaveLength(1);
+
+    const result = await ImageStoreService.collectGarbage();
+    expect(result.freedBytes).toBeGreaterThan(0);
+    expect(blobPaths()).toEqual([]);
+  });
+
+  it('should release the old blob when an image ID is stored again', async () => {
+    await FileSystemService.saveImageById('img', PNG_A);
+    await FileSystemService.saveImageById('img', PNG_B);
+
+    const report = await ImageStoreService.getStorageReport();
+    expect(report).toMatchObject({ imageCount: 1, blobCount: 2, unreferencedBlobs: 1 });
+  });
+
+  it('should quarantine blob files missing from the index instead of deleting them', async () => {
+    await ImageStoreService.putImage('img', BYTES, { kind: 'other' });
+    await backend.writeBinary('prompter-cache/blobs/ff/ffff.png', BYTES);
+    expect((await ImageStoreService.getStorageReport()).unindexedBlobs).toBe(1);
+
+    const result = await ImageStoreService.collectGarbage();
+
+    expect(result.deletedBlobs).toEqual([]);
+    expect(result.quarantinedBlobs).toEqual(['prompter-cache/blobs/ff/ffff.png']);
+    expect(await backend.readBinary('prompter-cache/blobs-quarantine/ffff.png')).toEqual(BYTES);
+    expect(await ImageStoreService.readImage('img')).toEqual(BYTES);
+  });
+
+  it('should refuse to collect garbage when the index is unreadable', async () => {
+    const { path } = await ImageStoreService.putImage('img', BYTES, { kind: 'other' });
+    await backend.writeText('prompter-cache/blobs/index.json', '{"version": 1, "ima');
+    ImageStoreService.reset();
+
+    await expect(ImageStoreService.collectGarbage()).rejects.toThrow('could not be read');
+    expect((await ImageStoreService.getStorageReport()).indexError).toBeDefined();
+    expect(await backend.readBinary(path)).toEqual(BYTES);
+    expect(backend.getPaths().some(file => file.startsWith('prompter-cache/blobs/index.unreadable-'))).toBe(true);
+  });
+
+  it('should refuse index changes while the index is unreadable', async () => {
+    await ImageStoreService.putImage('img', BYTES, { kind: 'other' });
+    const unreadable = '{"version": 1, "ima';
+    await backend.writeText('prompter-cache/blobs/index.json', unreadable);
+    ImageStoreService.reset();
+
+    await expect(ImageStoreService.putImage('other', BYTES, { kind: 'other' })).rejects.toThrow('could not be read');
+    expect((await FileSystemService.saveImageById('other', PNG_A)).success).toBe(false);
+    expect(await ImageStoreService.getIndexError()).toBeTruthy();
+    expect(await backend.readText('prompter-cache/blobs/index.json')).toBe(unreadable);
+
+    // Every failed attempt reloads the index, but the broken one is kept once
+    await expect(ImageStoreService.putImage('third', BYTES, { kind: 'other' })).rejects.toThrow('could not be read');
+    await expect(ImageStoreService.collectGarbage()).rejects.toThrow('could not be read');
+    const copies = backend.getPaths().filter(file => file.startsWith('prompter-cache/blobs/index.unreadable-'));
+    expect(copies).toHaveLength(1);
+    expect(await backend.readText(copies[0])).toBe(unreadable);
+  });
+
+  it('should recover an index write interrupted after its journal was committed', async () => {
+    // Crash while index.json itself is being written
+    const writeText = backend.writeText.bind(backend);
+    const crash = vi.spyOn(backend, 'writeText').mockImplementation(async (path, content) => {
+      if (path === 'prompter-cache/blobs/index.json') throw new Error('Simulated crash');
+      return writeText(path, content);
+    });
+    await expect(ImageStoreService.putImage('img', BYTES, { kind: 'other' })).rejects.toThrow('Simulated crash');
+
+    crash.mockRestore();
+    await SaveJournalService.recoverInterruptedSaves();
+    ImageStoreService.reset();
+
+    expect(await ImageStoreService.readImage('img')).toEqual(BYTES);
+  });
+
+  it('should keep references when saves overlap', async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, (_, i) => ImageStoreService.putImage(`img-${i}`, BYTES, { kind: 'scene' }))
+    );
+
+    // A fresh load sees every reference
+    ImageStoreService.reset();
+    expect((await ImageStoreService.listImageIds()).sort()).toEqual(['img-0', 'img-1', 'img-2', 'img-3', 'img-4']);
+    expect((await ImageStoreService.getStorageReport()).blobCount).toBe(1);
+  });
+
+  it('should move legacy image files into the store', async () => {
+    await backend.writeBinary('prompter-cache/scenes/scene-1.png', BYTES);
+    await backend.writeText('prompter-cache/scenes/scene-1.json', JSON.stringify({ id: 'scene-1', sceneId: 's1', modelName: 'test-model' }));
+    await backend.writeBinary('prompter-cache/characters/ref-1.png', BYTES);
+    await backend.writeText('prompter-cache/app-metadata.json', '{}');
+
+    // Legacy files are still readable before migration
+    expect(await FileSystemService.imageExists('ref-1')).toBe(true);
+    expect((await ImageStoreService.getStorageReport()).legacyFiles).toBe(2);
+
+    const progress: number[] = [];
+    const result = await ImageStoreService.migrateLegacyImages(p => progress.push(p.current));
+
+    expect(result).toMatchObject({ migrated: 2, deduplicated: 1, bytesSaved: BYTES.byteLength, failed: [] });
+    expect(progress).toEqual([1, 2]);
+    expect(await ImageStoreService.getImage('scene-1')).toMatchObject({ kind: 'scene', sceneId: 's1', modelName: 'test-model' });
+    expect(await ImageStoreService.getImage('ref-1')).toMatchObject({ kind: 'character' });
+    expect(await FileSystemService.readImageBytes('ref-1')).toEqual(BYTES);
+    expect(backend.getPaths().filter(path => !path.startsWith('prompter-cache/blobs/'))).toEqual(['prompter-cache/app-metadata.json']);
+  });
+
+  it('should fall back to legacy files when the store has no entry', async () => {
+    await backend.writeBinary('prompter-cache/characters/old.png', BYTES);
+
+    expect(await FileSystemService.readImageBytes('old')).toEqual(BYTES);
+    expect(await FileSystemService.deleteImageById('old')).toBe(true);
+    expect(await FileSystemService.imageExists('old')).toBe(false);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ImageGenerationService, buildVariationHint } from '../../src/services/ImageGenerationService';
+import { ImageProviderRegistry } from '../../src/services/ImageProviderRegistry';
+import { MockImageProvider, MOCK_IMAGE_MODEL } from '../../src/services/MockImageProvider';
+import { SceneImageGenerationService } from '../../src/services/SceneImageGenerationService';
+import { ImageStorageService } from '../../src/services/ImageStorageService';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+
+vi.mock('../../src/services/SettingsService', () => ({
+  SettingsService: {
+    getApiKey: vi.fn().mockResolvedValue(undefined),
+    getImageGenerationModel: vi.fn().mockResolvedValue('mock/placeholder')
+  }
+}));
+
+vi.mock('../../src/services/ImageStorageService', () => ({
+  ImageStorageService: {
+    getImage: vi.fn()
+  }
+}));
+
+vi.mock('../../src/services/OverlayService', () => ({
+  applyAllOverlays: vi.fn().mockResolvedValue('data:image/png;base64,COMPOSITE')
+}));
+
+const SOURCE_IMAGE = 'data:image/png;base64,SOURCE';
+const CHARACTER_IMAGE = 'data:image/png;base64,CHARACTER';
+
+describe('Seed and variation control', () => {
+  describe('ImageGenerationService', () => {
+    it('should append the source image after other references and add a strength hint', () => {
+      const request = ImageGenerationService.applyVariation({
+        prompt: 'A fox',
+        referenceImages: [CHARACTER_IMAGE],
+        variation: { sourceImage: SOURCE_IMAGE, strength: 0.2 }
+      });
+
+      expect(request.referenceImages).toEqual([CHARACTER_IMAGE, SOURCE_IMAGE]);
+      expect(request.prompt).toContain('A fox');
+      expect(request.prompt).toContain('variation strength 20%');
+    });
+
+    it('should leave requests without a variation unchanged', () => {
+      const options = { prompt: 'A fox', referenceImages: [CHARACTER_IMAGE] };
+
+      expect(ImageGenerationService.applyVariation(options)).toBe(options);
+    });
+
+    it('should describe low and high strengths differently and clamp out-of-range values', () => {
+      expect(buildVariationHint(0.1)).toContain('nearly identical');
+      expect(buildVariationHint(0.9)).toContain('loose inspiration');
+      expect(buildVariationHint(5)).toContain('variation strength 100%');
+    });
+
+    it('should hand the variation to the provider as an extra reference image', async () => {
+      const provider = ImageProviderRegistry.getProviderForModel(MOCK_IMAGE_MODEL)!;
+      const generate = vi.spyOn(provider, 'generate');
+
+      await ImageGenerationService.generateImage({
+        prompt: 'A fox',
+        model: MOCK_IMAGE_MODEL,
+        seed: 7,
+        variation: { sourceImage: SOURCE_IMAGE, strength: 0.5 }
+      });
+
+      const request = generate.mock.calls[0][0];
+      expect(request.seed).toBe(7);
+      expect(request.referenceImages).toEqual([SOURCE_IMAGE]);
+      expect(request.prompt).toContain('VARIATION:');
+      generate.mockRestore();
+    });
+  });
+
+  describe('MockImageProvider', () => {
+    const provider = new MockImageProvider();
+
+    it('should be repeatable for the same seed and differ across seeds', async () => {
+      const a = await provider.generate({ prompt: 'A fox', model: MOCK_IMAGE_MODEL, seed: 1 });
+      const b = await provider.generate({ prompt: 'A fox', model: MOCK_IMAGE_MODEL, seed: 1 });
+      const c = await provider.generate({ prompt: 'A fox', model: MOCK_IMAGE_MODEL, seed: 2 });
+
+      expect(a.imageUrl).toBe(b.imageUrl);
+      expect(c.imageUrl).not.toBe(a.imageUrl);
+    });
+  });
+
+  describe('SceneImageGenerationService', () => {
+    let story: Story;
+    let scene: Scene;
+
+    beforeEach(() => {
+      vi.mocked(ImageStorageService.getImage).mockReset();
+      story = new Story({ title: 'Variation Story', backgroundSetup: 'A meadow' });
+      scene = new Scene({ title: 'Opening', description: 'A fox in a meadow' });
+      story.addScene(scene);
+    });
+
+    it('should record a seed only for models that support seeds', async () => {
+      const generate = vi.spyOn(ImageGenerationService, 'generateImage').mockResolvedValue({ success: true, imageUrl: SOURCE_IMAGE });
+
+      const seeded = await SceneImageGenerationService.generateSceneImageWithProvenance({
+        scene, story, book: null, model: 'google/gemini-2.5-flash-image', seed: 42
+      });
+      const random = await SceneImageGenerationService.generateSceneImageWithProvenance({
+        scene, story, book: null, model: 'google/gemini-2.5-flash-image'
+      });
+      const unseeded = await SceneImageGenerationService.generateSceneImageWithProvenance({
+        scene, story, book: null, model: 'openai/gpt-5-image', seed: 42
+      });
+
+      expect(seeded.provenance.seed).toBe(42);
+      expect(generate.mock.calls[0][0].seed).toBe(42);
+      expect(random.provenance.seed).toEqual(expect.any(Number));
+      expect(unseeded.provenance.seed).toBeUndefined();
+      expect(generate.mock.calls[2][0].seed).toBeUndefined();
+      generate.mockRestore();
+    });
+
+    it('should generate a variation from a history image and reproduce it with the same inputs', async () => {
+      vi.mocked(ImageStorageService.getImage).mockResolvedValue(SOURCE_IMAGE);
+      const generate = vi.spyOn(ImageGenerationService, 'generateImage');
+
+      const { provenance } = await SceneImageGenerationService.generateSceneImageWithProvenance({
+        scene, story, book: null, model: MOCK_IMAGE_MODEL,
+        variationOf: { imageId: 'history-1', strength: 0.3 }
+      });
+      await SceneImageGenerationService.reproduceSceneImage(provenance, { scene, story, book: null });
+
+      expect(ImageStorageService.getImage).toHaveBeenCalledWith('history-1');
+      expect(provenance.variationOf).toEqual({ imageId: 'history-1', strength: 0.3 });
+      const [original, reproduced] = generate.mock.calls.map(call => call[0]);
+      expect(original.variation).toEqual({ sourceImage: SOURCE_IMAGE, strength: 0.3 });
+      expect(reproduced.variation).toEqual(original.variation);
+      expect(reproduced.seed).toBe(original.seed);
+      generate.mockRestore();
+    });
+
+    it('should return the image before overlays alongside the composite', async () => {
+      const generate = vi.spyOn(ImageGenerationService, 'generateImage').mockResolvedValue({ success: true, imageUrl: SOURCE_IMAGE });
+      scene.textPanel = 'Once upon a time';
+
+      const withOverlays = await SceneImageGenerationService.generateCompleteSceneImageWithProvenance({
+        scene, story, book: null, model: MOCK_IMAGE_MODEL
+      });
+      const withoutOverlays = await SceneImageGenerationService.generateCompleteSceneImageWithProvenance({
+        scene, story, book: null, model: MOCK_IMAGE_MODEL, applyOverlays: false
+      });
+
+      expect(withOverlays.imageUrl).toBe('data:image/png;base64,COMPOSITE');
+      expect(withOverlays.baseImageUrl).toBe(SOURCE_IMAGE);
+      expect(withoutOverlays.imageUrl).toBe(SOURCE_IMAGE);
+      expect(withoutOverlays.baseImageUrl).toBeUndefined();
+      generate.mockRestore();
+    });
+
+    it('should fail when the image to vary is gone', async () => {
+      vi.mocked(ImageStorageService.getImage).mockResolvedValue(null);
+
+      await expect(SceneImageGenerationService.generateSceneImageWithProvenance({
+        scene, story, book: null, model: MOCK_IMAGE_MODEL,
+        variationOf: { imageId: 'deleted', strength: 0.3 }
+      })).rejects.toThrow('The image to vary is no longer available');
+    });
+  });
+});
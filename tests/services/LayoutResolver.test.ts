@@ -244,6 +244,25 @@ describe('LayoutResolver', () => {
     });
   });
 
+  describe('getAspectRatio', () => {
+    it('should use the canvas of an inherited layout', () => {
+      const storyLayout = { ...createMockLayout('story-layout'), canvas: { width: 1920, height: 1080, aspectRatio: '16:9' } };
+      const scene = createMockScene('s1', 'Scene 1');
+      const story = createMockStory('st1', 'Story 1', storyLayout);
+      const book = { ...createMockBook('b1', 'Book 1'), aspectRatio: '1:1' };
+
+      expect(LayoutResolver.getAspectRatio(scene, story, book)).toBe('16:9');
+    });
+
+    it('should fall back to the book aspect ratio without any layout', () => {
+      const scene = createMockScene('s1', 'Scene 1');
+      const story = createMockStory('st1', 'Story 1');
+
+      expect(LayoutResolver.getAspectRatio(scene, story, { ...createMockBook('b1', 'Book 1'), aspectRatio: '1:1' })).toBe('1:1');
+      expect(LayoutResolver.getAspectRatio(scene, story, null)).toBe('3:4');
+    });
+  });
+
   describe('hasOwnLayout', () => {
     it('should return true when scene has layout', () => {
       const scene = createMockScene('s1', 'Scene 1', createMockLayout('scene'));
@@ -276,6 +295,41 @@ describe('LayoutResolver', () => {
     });
   });
 
+  describe('chapter layouts', () => {
+    it('should use the chapter layout between scene and story', () => {
+      const chapterLayout = createMockLayout('chapter-layout');
+      const scene = { ...createMockScene('s1', 'Scene 1'), chapterId: 'ch1' };
+      const story = {
+        ...createMockStory('st1', 'Story 1', createMockLayout('story-layout')),
+        chapters: [{ id: 'ch1', title: 'Chapter One', layout: chapterLayout }]
+      };
+
+      expect(LayoutResolver.resolveLayout(scene, story, null)).toBe(chapterLayout);
+      expect(LayoutResolver.getLayoutSource(scene, story, null)).toBe('chapter');
+      expect(LayoutResolver.getLayoutSourceDescription(scene, story, null)).toBe('Chapter layout (Chapter One)');
+    });
+
+    it('should fall back to the story layout when the chapter has none', () => {
+      const storyLayout = createMockLayout('story-layout');
+      const scene = { ...createMockScene('s1', 'Scene 1'), chapterId: 'ch1' };
+      const story = {
+        ...createMockStory('st1', 'Story 1', storyLayout),
+        chapters: [{ id: 'ch1', title: 'Chapter One' }]
+      };
+
+      expect(LayoutResolver.resolveLayout(scene, story, null)).toBe(storyLayout);
+      expect(LayoutResolver.getLayoutSource(scene, story, null)).toBe('story');
+    });
+
+    it('should ignore chapters the story does not have', () => {
+      const scene = { ...createMockScene('s1', 'Scene 1'), chapterId: 'missing' };
+      const story = createMockStory('st1', 'Story 1');
+
+      expect(LayoutResolver.getChapter(scene, story)).toBeUndefined();
+      expect(LayoutResolver.getLayoutSource(scene, story, null)).toBe('default');
+    });
+  });
+
   describe('bookHasDefaultLayout', () => {
     it('should return true when book has default layout', () => {
       const book = createMockBook('b1', 'Book 1', createMockLayout('book'));
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MockImageProvider, MOCK_IMAGE_MODEL } from '../../src/services/MockImageProvider';
+import { HashService } from '../../src/services/HashService';
+import { ImageProviderRegistry } from '../../src/services/ImageProviderRegistry';
+import { ImageGenerationService } from '../../src/services/ImageGenerationService';
+import { SceneImageGenerationService } from '../../src/services/SceneImageGenerationService';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+
+vi.mock('../../src/services/SettingsService', () => ({
+  SettingsService: {
+    getApiKey: vi.fn().mockResolvedValue(undefined),
+    getImageGenerationModel: vi.fn().mockResolvedValue('mock/placeholder')
+  }
+}));
+
+// Helper to read width/height from the PNG IHDR chunk of a data URL
+const readPngSize = (dataUrl: string): { width: number; height: number } => {
+  const bytes = Uint8Array.from(atob(dataUrl.split(',')[1]), c => c.charCodeAt(0));
+  const view = new DataView(bytes.buffer);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+};
+
+describe('MockImageProvider', () => {
+  const provider = new MockImageProvider();
+
+  it('should be registered as a built-in provider', () => {
+    expect(ImageProviderRegistry.getProviderForModel(MOCK_IMAGE_MODEL)?.id).toBe('mock');
+    expect(ImageProviderRegistry.getModel(MOCK_IMAGE_MODEL)?.cost?.perImage).toBe(0);
+  });
+
+  it('should return a PNG data URL', async () => {
+    const result = await provider.generate({ prompt: 'A fox', model: MOCK_IMAGE_MODEL });
+
+    expect(result.success).toBe(true);
+    expect(result.imageUrl).toMatch(/^data:image\/png;base64,/);
+    const bytes = atob(result.imageUrl!.split(',')[1]);
+    expect(bytes.substring(1, 4)).toBe('PNG');
+  });
+
+  it('should be deterministic for the same inputs', async () => {
+    const a = await provider.generate({ prompt: 'A fox', model: MOCK_IMAGE_MODEL, aspectRatio: '1:1' });
+    const b = await provider.generate({ prompt: 'A fox', model: MOCK_IMAGE_MODEL, aspectRatio: '1:1' });
+
+    expect(a.imageUrl).toBe(b.imageUrl);
+  });
+
+  it('should differ when prompt or reference count changes', async () => {
+    const base = await provider.generate({ prompt: 'A fox', model: MOCK_IMAGE_MODEL });
+    const otherPrompt = await provider.generate({ prompt: 'A wolf', model: MOCK_IMAGE_MODEL });
+    const withRefs = await provider.generate({
+      prompt: 'A fox',
+      model: MOCK_IMAGE_MODEL,
+      referenceImages: ['data:image/png;base64,AAAA', 'data:image/png;base64,BBBB']
+    });
+
+    expect(otherPrompt.imageUrl).not.toBe(base.imageUrl);
+    expect(withRefs.imageUrl).not.toBe(base.imageUrl);
+  });
+
+  it('should follow the requested aspect ratio', async () => {
+    const landscape = await provider.generate({ prompt: 'x', model: MOCK_IMAGE_MODEL, aspectRatio: '16:9' });
+    const portrait = await provider.generate({ prompt: 'x', model: MOCK_IMAGE_MODEL, aspectRatio: '3:4' });
+
+    const l = readPngSize(landscape.imageUrl!);
+    const p = readPngSize(portrait.imageUrl!);
+    expect(l.width).toBeGreaterThan(l.height);
+    expect(p.width / p.height).toBeCloseTo(3 / 4, 1);
+  });
+
+  it('should hash prompts stably', () => {
+    expect(HashService.fnv1a('hello')).toBe(HashService.fnv1a('hello'));
+    expect(HashService.fnv1a('hello')).not.toBe(HashService.fnv1a('hello!'));
+  });
+
+  it('should work through ImageGenerationService without an API key', async () => {
+    const result = await ImageGenerationService.generateImage({ prompt: 'Offline', model: MOCK_IMAGE_MODEL });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should generate a scene image end-to-end offline', async () => {
+    const story = new Story({ title: 'Offline Story', backgroundSetup: 'A quiet library' });
+    const scene = new Scene({ title: 'Opening', description: 'A student opens a book' });
+    story.addScene(scene);
+
+    const imageUrl = await SceneImageGenerationService.generateSceneImage({
+      scene,
+      story,
+      book: null,
+      model: MOCK_IMAGE_MODEL,
+      aspectRatio: '4:3'
+    });
+
+    expect(imageUrl).toMatch(/^data:image\/png;base64,/);
+    const size = readPngSize(imageUrl);
+    expect(size.width).toBeGreaterThan(size.height);
+  });
+});
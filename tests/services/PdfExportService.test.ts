@@ -0,0 +1,188 @@
+/**
+ * PdfExportService Tests
+ *
+ * Runs the real StorageService/BookCache stack on an in-memory backend;
+ * scene images come from a mocked ImageStorageService.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { PdfExportService } from '../../src/services/PdfExportService';
+import { StorageService } from '../../src/services/StorageService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import { ImageStorageService } from '../../src/services/ImageStorageService';
+import { bookCache } from '../../src/services/BookCache';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+import { DEFAULT_PDF_PRINT_SETTINGS, type PdfPrintSettings } from '../../src/types/PdfExport';
+
+vi.mock('../../src/services/ImageStorageService', () => ({
+  ImageStorageService: {
+    getImage: vi.fn()
+  }
+}));
+
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+const settings = (overrides: Partial<PdfPrintSettings> = {}): PdfPrintSettings => ({
+  ...DEFAULT_PDF_PRINT_SETTINGS,
+  ...overrides
+});
+
+function imagedScene(title: string): Scene {
+  return new Scene({
+    title,
+    description: '',
+    imageHistory: [{ id: `${title}-image`, modelName: 'test-model', timestamp: new Date() }]
+  });
+}
+
+// jsdom's Blob has no arrayBuffer()
+const loadPdf = (blob: Blob) => new Promise<PDFDocument>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => PDFDocument.load(reader.result as ArrayBuffer).then(resolve, reject);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+// Let BookCache's background filesystem writes finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('PdfExportService', () => {
+  let book: Book;
+
+  beforeEach(async () => {
+    FileSystemService.setBackend(new MemoryStorageBackend());
+    bookCache.clear();
+    vi.mocked(ImageStorageService.getImage).mockResolvedValue(PNG);
+
+    const first = new Story({ title: 'First Story', backgroundSetup: '' });
+    first.addScene(imagedScene('One'));
+    first.addScene(imagedScene('Two'));
+    const chapter = first.addChapter('Later');
+    first.insertScene(imagedScene('Three'), chapter.id);
+    const second = new Story({ title: 'Second Story', backgroundSetup: '' });
+    second.addScene(imagedScene('Four'));
+
+    book = new Book({ title: 'Picture Book', aspectRatio: '1:1', stories: [first, second] });
+    await StorageService.saveBook(book);
+  });
+
+  afterEach(async () => {
+    await settle();
+    FileSystemService.setBackend(null);
+    bookCache.clear();
+  });
+
+  describe('planPages', () => {
+    it('should start sections on right-hand pages when pages face each other', () => {
+      const plan = PdfExportService.planPages(book, book.stories, settings(), true);
+
+      expect(plan.cover?.scene?.title).toBe('One');
+      expect(plan.pages.map(page => page.kind === 'scene' ? page.scene.title : page.kind)).toEqual([
+        'title', 'blank', 'section', 'One', 'Two', 'blank', 'section', 'Three', 'section', 'Four'
+      ]);
+    });
+
+    it('should not add blank pages for single-sided books', () => {
+      const plan = PdfExportService.planPages(book, [book.stories[0]], settings({ facingPages: false, titlePage: false }), false);
+
+      expect(plan.pages.map(page => page.kind)).toEqual(['scene', 'scene', 'section', 'scene']);
+    });
+  });
+
+  describe('layout', () => {
+    it('should mirror margins on left-hand pages', () => {
+      const marginSettings = settings({ imageFit: 'margins' });
+
+      expect(PdfExportService.getPageSide(2, marginSettings)).toBe('left');
+      expect(PdfExportService.getImageArea(marginSettings, 'right').x).toBe(0.625);
+      expect(PdfExportService.getImageArea(marginSettings, 'left').x).toBe(0.5);
+    });
+
+    it('should cover the bleed area for full-page images, cropping them', () => {
+      const area = PdfExportService.getImageArea(settings(), 'right');
+      const placed = PdfExportService.fitImage(1000, 500, area, 'bleed');
+
+      expect(area).toEqual({ x: -0.125, y: -0.125, width: 8.75, height: 8.75 });
+      expect(placed.height).toBeCloseTo(8.75);
+      expect(placed.width).toBeCloseTo(17.5);
+    });
+
+    it('should compute DPI from the printed size', () => {
+      expect(PdfExportService.getEffectiveDpi(1024, 1024, 8.75, 8.75)).toBeCloseTo(117, 0);
+    });
+  });
+
+  describe('checks', () => {
+    it('should warn when the trim size does not match the book aspect ratio', () => {
+      expect(PdfExportService.checkAspectRatio('1:1', settings())).toBeNull();
+      expect(PdfExportService.checkAspectRatio('16:9', settings())?.message).toContain('cropped');
+    });
+
+    it('should reject margins that leave no room', () => {
+      const issues = PdfExportService.validateSettings(settings({
+        margins: { top: 5, bottom: 5, inside: 1, outside: 1 }
+      }));
+
+      expect(issues).toContainEqual({ severity: 'error', message: 'Margins leave no room on the page' });
+    });
+
+    it('should report scenes without images', async () => {
+      book.stories[1].addScene(new Scene({ title: 'Empty', description: '' }));
+      await StorageService.saveBook(book);
+
+      const issues = await PdfExportService.validateExport({ bookId: book.id }, settings());
+
+      expect(issues.filter(issue => issue.severity === 'error').map(issue => issue.message))
+        .toEqual(['Scene "Empty" has no images']);
+    });
+  });
+
+  describe('exportToPdf', () => {
+    it('should export a story with trim and bleed boxes and low-DPI warnings', async () => {
+      const result = await PdfExportService.exportToPdf(
+        { bookId: book.id, storyId: book.stories[0].id },
+        settings({ facingPages: false })
+      );
+
+      // Cover, title, two scenes, chapter page, one scene
+      expect(result.pageCount).toBe(6);
+      expect(result.imageCount).toBe(3);
+      expect(result.issues.filter(issue => issue.message.includes('DPI'))).toHaveLength(4);
+
+      const pdf = await loadPdf(result.blob);
+      const page = pdf.getPage(0);
+      expect(page.getSize()).toEqual({ width: 630, height: 630 });
+      expect(page.getTrimBox()).toMatchObject({ x: 9, y: 9, width: 612, height: 612 });
+    });
+
+    it('should put facing pages side by side as spreads', async () => {
+      const result = await PdfExportService.exportToPdf(
+        { bookId: book.id },
+        settings({ coverPage: false, spreads: true })
+      );
+
+      // Ten interior pages: page 1 alone, then (2, 3) ... (8, 9), then page 10 alone
+      expect(result.pageCount).toBe(6);
+      const pdf = await loadPdf(result.blob);
+      expect(pdf.getPage(1).getWidth()).toBe((8.5 * 2 + 0.25) * 72);
+    });
+
+    it('should leave out scenes whose images cannot be loaded', async () => {
+      vi.mocked(ImageStorageService.getImage).mockImplementation(async (imageId: string) =>
+        imageId === 'Two-image' ? null : PNG
+      );
+
+      const result = await PdfExportService.exportToPdf(
+        { bookId: book.id, storyId: book.stories[0].id },
+        settings({ coverPage: false, titlePage: false, sectionPages: false })
+      );
+
+      expect(result.pageCount).toBe(2);
+      expect(result.issues.map(issue => issue.message)).toContain('Could not load the image of scene "Two"; its page was left out');
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * PptxExportService Tests
+ *
+ * Runs the real StorageService/BookCache stack on an in-memory backend;
+ * images come from a mocked ImageStorageService and diagrams from a mocked
+ * DiagramRenderService.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import JSZip from 'jszip';
+import { PptxExportService } from '../../src/services/PptxExportService';
+import { StorageService } from '../../src/services/StorageService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import { ImageStorageService } from '../../src/services/ImageStorageService';
+import { renderDiagramToCanvas } from '../../src/services/DiagramRenderService';
+import { bookCache } from '../../src/services/BookCache';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+import type { SceneLayout } from '../../src/types/Story';
+import type { ImageProvenance } from '../../src/types/ImageProvenance';
+import { DEFAULT_PPTX_EXPORT_SETTINGS, type PptxExportSettings } from '../../src/types/PptxExport';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+vi.mock('../../src/services/ImageStorageService', () => ({
+  ImageStorageService: {
+    getImage: vi.fn()
+  }
+}));
+
+vi.mock('../../src/services/DiagramRenderService', () => ({
+  renderDiagramToCanvas: vi.fn(),
+  canvasToDataURL: () => 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
+}));
+
+// Square canvas (like the 1x1 test image): picture on the left, text on the right
+const SIDE_BY_SIDE: SceneLayout = {
+  type: 'comic-sidebyside',
+  canvas: { width: 1000, height: 1000, aspectRatio: '1:1' },
+  elements: {
+    image: { x: 0, y: 0, width: 60, height: 100, zIndex: 1 },
+    textPanel: { x: 62, y: 10, width: 36, height: 50, zIndex: 2 },
+    diagramPanel: { x: 62, y: 65, width: 36, height: 30, zIndex: 3 }
+  }
+};
+
+const EMU_PER_INCH = 914400;
+
+const settings = (overrides: Partial<PptxExportSettings> = {}): PptxExportSettings => ({
+  ...DEFAULT_PPTX_EXPORT_SETTINGS,
+  ...overrides
+});
+
+function imagedScene(title: string, data: Partial<Scene> = {}, provenance?: Partial<ImageProvenance>): Scene {
+  return new Scene({
+    title,
+    description: `${title} by the sea`,
+    imageHistory: [{
+      id: `${title}-image`,
+      modelName: 'test-model',
+      timestamp: new Date(),
+      provenance: provenance as ImageProvenance | undefined
+    }],
+    ...data
+  });
+}
+
+// jsdom's Blob has no arrayBuffer()
+const loadZip = (blob: Blob) => new Promise<JSZip>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => JSZip.loadAsync(reader.result as ArrayBuffer).then(resolve, reject);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+const readFile = async (zip: JSZip, path: string): Promise<string> => {
+  const file = zip.file(path);
+  if (!file) {
+    throw new Error(`No file ${path}`);
+  }
+  return file.async('string');
+};
+
+// Let BookCache's background filesystem writes finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('PptxExportService', () => {
+  let book: Book;
+
+  beforeEach(async () => {
+    FileSystemService.setBackend(new MemoryStorageBackend());
+    bookCache.clear();
+    vi.clearAllMocks();
+    vi.mocked(ImageStorageService.getImage).mockResolvedValue(PNG);
+    vi.mocked(renderDiagramToCanvas).mockResolvedValue(document.createElement('canvas'));
+
+    const story = new Story({ title: 'Tide Pools', backgroundSetup: '' });
+    story.addScene(imagedScene('Arrival', { textPanel: 'We reached the rocks.' }));
+    const chapter = story.addChapter('Exploring');
+    story.insertScene(imagedScene('Crabs', { diagramPanel: { type: 'code', content: 'count(crabs) > 3', language: 'python' } }), chapter.id);
+    story.insertScene(new Scene({ title: 'Night', description: '', textPanel: 'Stars.' }), chapter.id);
+
+    book = new Book({ title: 'Sea Days', stories: [story] });
+    await StorageService.saveBook(book);
+  });
+
+  afterEach(async () => {
+    await settle();
+    FileSystemService.setBackend(null);
+    bookCache.clear();
+  });
+
+  describe('placement', () => {
+    it('should fit rectangles centered in their box', () => {
+      expect(PptxExportService.fitRect(2, { x: 0, y: 0, w: 10, h: 10 })).toEqual({ x: 0, y: 2.5, w: 10, h: 5 });
+      expect(PptxExportService.fitRect(0.5, { x: 1, y: 0, w: 10, h: 10 })).toEqual({ x: 3.5, y: 0, w: 5, h: 10 });
+    });
+
+    it('should place layout elements by percentage of the layout frame', () => {
+      const frame = { x: 1, y: 0, w: 8, h: 10 };
+
+      expect(PptxExportService.placeElement(SIDE_BY_SIDE.elements.textPanel!, frame)).toEqual({ x: 1 + 0.62 * 8, y: 1, w: 0.36 * 8, h: 5 });
+    });
+
+    it('should use the resolved layout, or the overlay placement without one', () => {
+      const story = book.stories[0];
+      const scene = story.scenes[0];
+
+      const overlay = PptxExportService.getSlideLayout(scene, story, book, { width: 800, height: 600 });
+      expect(overlay.type).toBe('overlay');
+      expect(overlay.canvas).toMatchObject({ width: 800, height: 600 });
+      // Default panel config: full width, 15% high, at the bottom
+      expect(overlay.elements.textPanel).toMatchObject({ x: 0, y: 85, width: 100, height: 15 });
+
+      story.layout = SIDE_BY_SIDE;
+      expect(PptxExportService.getSlideLayout(scene, story, book, null)).toBe(SIDE_BY_SIDE);
+    });
+  });
+
+  describe('exportToPptx', () => {
+    it('should make a title slide and a slide per scene with editable text and speaker notes', async () => {
+      const result = await PptxExportService.exportToPptx({ bookId: book.id }, settings());
+      const zip = await loadZip(result.blob);
+
+      expect(result).toMatchObject({ slideCount: 4, sceneCount: 3, imageCount: 2, issues: [] });
+      expect(zip.file('ppt/slides/slide5.xml')).toBeNull();
+      expect(await readFile(zip, 'ppt/slides/slide1.xml')).toContain('<a:t>Sea Days</a:t>');
+      expect(await readFile(zip, 'ppt/slides/slide2.xml')).toContain('<a:t>We reached the rocks.</a:t>');
+      expect(await readFile(zip, 'ppt/notesSlides/notesSlide2.xml')).toContain('Arrival by the sea');
+
+      const presentation = await readFile(zip, 'ppt/presentation.xml');
+      expect(presentation).toContain('name="Sea Days"');
+      expect(presentation).toContain('name="Tide Pools"');
+      expect(presentation).toContain('name="Tide Pools: Exploring"');
+    });
+
+    it('should crop images composed with a layout to their picture and place the text where the layout puts it', async () => {
+      const story = book.stories[0];
+      story.layout = SIDE_BY_SIDE;
+      story.scenes[0] = imagedScene('Arrival', { textPanel: 'We reached the rocks.' }, {
+        layout: SIDE_BY_SIDE,
+        overlays: { textPanel: 'We reached the rocks.' }
+      });
+      await StorageService.saveBook(book);
+
+      const result = await PptxExportService.exportToPptx({ bookId: book.id, storyId: story.id }, settings({ titleSlide: false }));
+      const slide = await readFile(await loadZip(result.blob), 'ppt/slides/slide1.xml');
+
+      // 10in square slide: the picture is the left 60% of the image
+      expect(slide).toContain('<a:srcRect l="0" r="40000" t="0" b="0"/>');
+      expect(slide).toContain(`<a:off x="${0.62 * 10 * EMU_PER_INCH}" y="${EMU_PER_INCH}"/>`);
+    });
+
+    it('should render diagrams as pictures, or keep code and math as editable text', async () => {
+      const pictures = await PptxExportService.exportToPptx({ bookId: book.id }, settings({ titleSlide: false }));
+      expect(renderDiagramToCanvas).toHaveBeenCalledTimes(1);
+      expect(await readFile(await loadZip(pictures.blob), 'ppt/slides/slide2.xml')).toContain('descr="code diagram"');
+
+      vi.mocked(renderDiagramToCanvas).mockClear();
+      const editable = await PptxExportService.exportToPptx({ bookId: book.id }, settings({ titleSlide: false, diagramMode: 'editable' }));
+      const slide = await readFile(await loadZip(editable.blob), 'ppt/slides/slide2.xml');
+
+      expect(renderDiagramToCanvas).not.toHaveBeenCalled();
+      expect(slide).toContain('<a:t>count(crabs) &gt; 3</a:t>');
+      expect(slide).toContain('typeface="Courier New"');
+    });
+
+    it('should show the diagram source when rendering fails', async () => {
+      vi.mocked(renderDiagramToCanvas).mockRejectedValue(new Error('no canvas'));
+
+      const result = await PptxExportService.exportToPptx({ bookId: book.id }, settings({ titleSlide: false }));
+
+      expect(await readFile(await loadZip(result.blob), 'ppt/slides/slide2.xml')).toContain('<a:t>count(crabs) &gt; 3</a:t>');
+      expect(result.issues.map(issue => issue.message)).toEqual([
+        'Could not render the diagram of scene "Crabs"; its source is shown as text instead'
+      ]);
+    });
+
+    it('should leave out speaker notes when turned off and report images that fail to load', async () => {
+      vi.mocked(ImageStorageService.getImage).mockResolvedValueOnce(null);
+
+      const result = await PptxExportService.exportToPptx({ bookId: book.id }, settings({ titleSlide: false, speakerNotes: false }));
+      const zip = await loadZip(result.blob);
+
+      expect(result.imageCount).toBe(1);
+      expect(result.issues.map(issue => issue.message)).toEqual([
+        'Could not load the image of scene "Arrival"; its slide has no image'
+      ]);
+      expect(await readFile(zip, 'ppt/notesSlides/notesSlide1.xml')).not.toContain('Arrival by the sea');
+    });
+  });
+});
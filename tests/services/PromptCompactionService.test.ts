@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { PromptCompactionService, DEFAULT_MAX_PROMPT_TOKENS } from '../../src/services/PromptCompactionService';
+import { LegacyPromptBuildingService } from '../../src/services/LegacyPromptBuildingService';
+import { SceneImageGenerationService } from '../../src/services/SceneImageGenerationService';
+import { estimatePromptTokens, type ScenePromptOptions } from '../../src/services/PromptBuildingService';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+
+const sentence = (topic: string, words: number) =>
+  `${topic} ${Array.from({ length: words }, (_, i) => `detail${i}`).join(' ')}.`;
+
+const createOptions = (): ScenePromptOptions => {
+  const book = new Book({
+    title: 'Long Book',
+    style: {
+      artStyle: 'Soft watercolor. Soft watercolor.',
+      colorPalette: 'Warm autumn colors.'
+    }
+  });
+  const story = new Story({
+    title: 'Forest',
+    backgroundSetup: [sentence('The forest', 30), sentence('The river', 30), sentence('The village', 200)].join(' ')
+  });
+  const scene = new Scene({ title: 'Meeting', description: 'Fox meets Owl by the Bridge.' });
+
+  return {
+    scene,
+    story,
+    book,
+    characters: [
+      { name: 'Fox', description: `${sentence('A red fox', 10)} ${sentence('Fur', 150)}` },
+      { name: 'Owl', description: `${sentence('A wise owl', 10)} ${sentence('Feathers', 150)}` },
+      { name: 'Badger', description: `${sentence('A grumpy badger', 10)} ${sentence('Stripes', 150)}` }
+    ],
+    elements: [
+      { name: 'Bridge', description: `${sentence('A stone bridge', 10)} ${sentence('Moss', 150)}` },
+      { name: 'Lantern', description: `${sentence('An old lantern', 10)} ${sentence('Glass', 150)}` }
+    ],
+    hasReferenceImages: false
+  };
+};
+
+describe('PromptCompactionService', () => {
+  const strategy = new LegacyPromptBuildingService();
+
+  it('should leave prompts within budget untouched', () => {
+    const options = createOptions();
+    const uncompacted = strategy.buildScenePrompt(options).prompt;
+
+    const result = PromptCompactionService.buildScenePrompt(strategy, options, 100_000);
+
+    expect(result.prompt).toBe(uncompacted);
+    expect(result.metadata?.budget?.steps).toEqual([]);
+    expect(result.metadata?.budget?.withinBudget).toBe(true);
+  });
+
+  it('should cut lower-priority sections first and stop once the prompt fits', () => {
+    const options = createOptions();
+    const original = estimatePromptTokens(strategy.buildScenePrompt(options).prompt);
+
+    // Shortening elements and the non-focal Badger is enough
+    const result = PromptCompactionService.buildScenePrompt(strategy, options, original - 500);
+    const steps = result.metadata!.budget!.steps;
+
+    expect(steps.map(step => step.section)).toEqual(['elements', 'characters']);
+    expect(steps[0].items).toEqual(['Bridge', 'Lantern']);
+    expect(steps[1].items).toEqual(['Badger']);
+    expect(result.prompt).toContain('Fur detail0');
+    expect(result.prompt).not.toContain('Stripes detail0');
+    expect(result.metadata?.budget?.withinBudget).toBe(true);
+  });
+
+  it('should never cut the scene description and report when the budget cannot be met', () => {
+    const result = PromptCompactionService.buildScenePrompt(strategy, createOptions(), 10);
+    const budget = result.metadata!.budget!;
+
+    expect(result.prompt).toContain('Fox meets Owl by the Bridge.');
+    expect(result.prompt).not.toContain('Lantern');
+    expect(budget.withinBudget).toBe(false);
+    expect(budget.steps.map(step => step.action)).toContain('Removed style text repeated across book style fields');
+    expect(budget.finalTokens).toBeLessThan(budget.originalTokens);
+    expect(result.metadata?.warnings).toContain('Prompt still exceeds the 10 token budget after compaction');
+  });
+
+  it('should not modify the caller\'s scene data', () => {
+    const options = createOptions();
+    const foxDescription = options.characters[0].description;
+
+    PromptCompactionService.buildScenePrompt(strategy, options, 10);
+
+    expect(options.characters[0].description).toBe(foxDescription);
+    expect(options.book?.style.artStyle).toBe('Soft watercolor. Soft watercolor.');
+    expect(options.elements).toHaveLength(2);
+  });
+
+  it('should use the model budget and fall back to the default', () => {
+    expect(PromptCompactionService.getPromptBudget('openai/gpt-5-image')).toBe(8000);
+    expect(PromptCompactionService.getPromptBudget('some/unlisted-model')).toBe(DEFAULT_MAX_PROMPT_TOKENS);
+    expect(PromptCompactionService.getPromptBudget()).toBe(DEFAULT_MAX_PROMPT_TOKENS);
+  });
+
+  it('should report the budget for scene prompts built with a model', () => {
+    const { scene, story, book, characters, elements } = createOptions();
+
+    const result = SceneImageGenerationService.buildScenePromptWithStrategy(
+      scene, story, book, characters, elements, 'google/gemini-2.5-flash-image'
+    );
+
+    expect(result.strategy).toBe('gemini');
+    expect(result.budget?.maxTokens).toBe(2000);
+  });
+});
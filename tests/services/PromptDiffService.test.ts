@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { PromptDiffService } from '../../src/services/PromptDiffService';
+import type { ImageProvenance } from '../../src/types/ImageProvenance';
+import type { PromptDiffCurrentState } from '../../src/types/PromptDiff';
+import type { SceneLayout } from '../../src/types/Story';
+
+const layout: SceneLayout = {
+  type: 'overlay',
+  canvas: { width: 1080, height: 1440, aspectRatio: '3:4' },
+  elements: { image: { x: 0, y: 0, width: 100, height: 100, zIndex: 0 } }
+};
+
+const provenance: ImageProvenance = {
+  prompt: 'A fox reads a book in the library',
+  model: 'google/gemini-2.5-flash-image',
+  promptStrategy: 'gemini',
+  aspectRatio: '3:4',
+  referenceImages: [],
+  characters: ['Fox'],
+  elements: ['Book'],
+  bookStyle: { artStyle: 'watercolor' },
+  layout,
+  appVersion: '3.0.0'
+};
+
+const current = (overrides: Partial<PromptDiffCurrentState>): PromptDiffCurrentState => ({
+  prompt: provenance.prompt,
+  characters: ['Fox'],
+  elements: ['Book'],
+  bookStyle: { artStyle: 'watercolor' },
+  layout,
+  ...overrides
+});
+
+describe('PromptDiffService', () => {
+  describe('diffWords', () => {
+    it('should mark replaced words as removed and added', () => {
+      const segments = PromptDiffService.diffWords('A fox reads a book', 'A fox writes a book');
+
+      expect(segments).toEqual([
+        { op: 'equal', text: 'A fox ' },
+        { op: 'removed', text: 'reads ' },
+        { op: 'added', text: 'writes ' },
+        { op: 'equal', text: 'a book' }
+      ]);
+    });
+
+    it('should reconstruct both prompts from the segments', () => {
+      const before = 'Scene: a fox\nCharacters: Fox, Owl\nStyle: watercolor';
+      const after = 'Scene: a tired fox\nCharacters: Fox\nStyle: watercolor, soft light';
+      const segments = PromptDiffService.diffWords(before, after);
+
+      const rebuiltAfter = segments.filter(s => s.op !== 'removed').map(s => s.text).join('');
+      const rebuiltBeforeWords = segments.filter(s => s.op !== 'added').map(s => s.text).join('').split(/\s+/);
+      expect(rebuiltAfter).toBe(after);
+      expect(rebuiltBeforeWords).toEqual(before.split(/\s+/));
+    });
+
+    it('should ignore whitespace-only differences', () => {
+      const segments = PromptDiffService.diffWords('a  fox\nreads', 'a fox reads');
+
+      expect(segments.every(s => s.op === 'equal')).toBe(true);
+    });
+  });
+
+  describe('compare', () => {
+    it('should report an identical prompt with no changes', () => {
+      const result = PromptDiffService.compare(provenance, current({}));
+
+      expect(result.identical).toBe(true);
+      expect(result.changes).toEqual([]);
+    });
+
+    it('should list added and removed characters and elements', () => {
+      const result = PromptDiffService.compare(provenance, current({ characters: ['Owl'], elements: ['Book', 'Lamp'] }));
+
+      expect(result.changes).toEqual([
+        { category: 'character', label: 'Fox', before: 'Fox' },
+        { category: 'character', label: 'Owl', after: 'Owl' },
+        { category: 'element', label: 'Lamp', after: 'Lamp' }
+      ]);
+    });
+
+    it('should list changed style fields and layout', () => {
+      const result = PromptDiffService.compare(provenance, current({
+        bookStyle: { artStyle: 'pencil', colorPalette: 'pastels' },
+        layout: undefined
+      }));
+
+      expect(result.changes).toContainEqual({ category: 'style', label: 'Art Style', before: 'watercolor', after: 'pencil' });
+      expect(result.changes).toContainEqual({ category: 'style', label: 'Color Palette', before: undefined, after: 'pastels' });
+      expect(result.changes).toContainEqual({
+        category: 'layout',
+        label: 'Layout',
+        before: 'overlay (1080×1440)',
+        after: 'Default overlays'
+      });
+    });
+
+    it('should skip character and element comparison for older provenance', () => {
+      const older = { ...provenance, characters: undefined, elements: undefined };
+      const result = PromptDiffService.compare(older, current({ characters: ['Owl'] }));
+
+      expect(result.changes).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * SaveJournalService Tests
+ *
+ * Crashes are simulated with an in-memory backend that fails writes to
+ * chosen paths, then recovery runs on the files left behind.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SaveJournalService } from '../../src/services/SaveJournalService';
+import { FileBasedStorageService } from '../../src/services/FileBasedStorageService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import { bookCache } from '../../src/services/BookCache';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+
+/**
+ * Memory backend whose writes to matching paths fail, like a crash or a
+ * revoked directory permission at that point of the save
+ */
+class CrashingBackend extends MemoryStorageBackend {
+  failWrite: ((path: string) => boolean) | null = null;
+  failDelete = false;
+
+  async writeText(path: string, content: string): Promise<void> {
+    if (this.failWrite?.(path)) {
+      throw new Error(`Simulated crash writing ${path}`);
+    }
+    await super.writeText(path, content);
+  }
+
+  async delete(path: string): Promise<boolean> {
+    if (this.failDelete) {
+      throw new Error(`Simulated crash deleting ${path}`);
+    }
+    return super.delete(path);
+  }
+}
+
+const BOOK_DIR = 'prompter-cache/books/sea-tales';
+
+function createBook(): Book {
+  return new Book({
+    title: 'Sea Tales',
+    stories: [
+      new Story({ title: 'Voyage', backgroundSetup: 'At sea' }),
+      new Story({ title: 'Harbor', backgroundSetup: 'Back home' })
+    ]
+  });
+}
+
+describe('SaveJournalService', () => {
+  let backend: CrashingBackend;
+  let book: Book;
+
+  const readJson = async (path: string) => JSON.parse((await backend.readText(path))!);
+  const leftovers = () => backend.getPaths().filter(path => path.endsWith('.tmp') || path.includes('/journal/'));
+
+  beforeEach(async () => {
+    backend = new CrashingBackend();
+    FileSystemService.setBackend(backend);
+    SaveJournalService.reset();
+    bookCache.clear();
+
+    // A consistent first version of the book
+    book = createBook();
+    expect((await FileBasedStorageService.saveBook(book)).success).toBe(true);
+    book.description = 'Second version';
+    book.stories[0].description = 'Second version';
+    book.stories[1].description = 'Second version';
+  });
+
+  afterEach(() => {
+    FileSystemService.setBackend(null);
+    SaveJournalService.reset();
+    bookCache.clear();
+  });
+
+  it('should leave no staged files or journal after a save', async () => {
+    await FileBasedStorageService.saveBook(book);
+
+    expect(leftovers()).toEqual([]);
+    expect((await readJson(`${BOOK_DIR}/book.json`)).description).toBe('Second version');
+  });
+
+  it('should leave the previous version intact when staging fails', async () => {
+    backend.failWrite = path => path.includes('/stories/harbor.json.');
+
+    const result = await FileBasedStorageService.saveBook(book);
+
+    expect(result.success).toBe(false);
+    expect((await readJson(`${BOOK_DIR}/book.json`)).description).toBeUndefined();
+    expect(leftovers()).toEqual([]);
+  });
+
+  it('should roll forward a save interrupted after it committed', async () => {
+    // Crash while moving files into place: book.json is new, the stories are not
+    backend.failWrite = path => path === `${BOOK_DIR}/stories/voyage.json`;
+    expect((await FileBasedStorageService.saveBook(book)).success).toBe(false);
+    expect((await readJson(`${BOOK_DIR}/book.json`)).description).toBe('Second version');
+    expect((await readJson(`${BOOK_DIR}/stories/voyage.json`)).description).toBeUndefined();
+
+    // Next start
+    backend.failWrite = null;
+    const report = await SaveJournalService.recoverInterruptedSaves();
+
+    expect(report.entries).toEqual([
+      expect.objectContaining({ action: 'rolled-forward', book: 'Sea Tales', bookId: book.id, errors: [] })
+    ]);
+    expect((await readJson(`${BOOK_DIR}/stories/voyage.json`)).description).toBe('Second version');
+    expect((await readJson(`${BOOK_DIR}/stories/harbor.json`)).description).toBe('Second version');
+    expect(leftovers()).toEqual([]);
+  });
+
+  it('should roll back staged files of a save that never committed', async () => {
+    // Crash after staging, before the journal (cleanup can't run either)
+    backend.failWrite = path => path.startsWith('prompter-cache/journal/');
+    backend.failDelete = true;
+    expect((await FileBasedStorageService.saveBook(book)).success).toBe(false);
+    expect(leftovers().length).toBeGreaterThan(0);
+
+    backend.failWrite = null;
+    backend.failDelete = false;
+    const report = await SaveJournalService.recoverInterruptedSaves();
+
+    expect(report.entries).toEqual([
+      expect.objectContaining({ action: 'rolled-back', book: 'sea-tales', errors: [] })
+    ]);
+    // book.json, two stories and story-files.json
+    expect(report.entries[0].files).toHaveLength(4);
+    expect((await readJson(`${BOOK_DIR}/book.json`)).description).toBeUndefined();
+    expect(leftovers()).toEqual([]);
+  });
+
+  it('should treat a torn journal as uncommitted', async () => {
+    await backend.writeText('prompter-cache/journal/torn.json', '{"version":1,"writes":[{"pa');
+    await backend.writeText(`${BOOK_DIR}/book.json.torn.tmp`, '{"title": "Half"}');
+
+    const report = await SaveJournalService.recoverInterruptedSaves();
+
+    expect(report.entries.map(entry => entry.action)).toEqual(['rolled-back']);
+    expect((await readJson(`${BOOK_DIR}/book.json`)).title).toBe('Sea Tales');
+    expect(leftovers()).toEqual([]);
+  });
+
+  it('should report files that could not be recovered', async () => {
+    backend.failWrite = path => path === `${BOOK_DIR}/stories/voyage.json`;
+    await FileBasedStorageService.saveBook(book);
+
+    // The staged copy is lost as well
+    backend.failWrite = null;
+    const staged = backend.getPaths().find(path => path.startsWith(`${BOOK_DIR}/stories/voyage.json.`))!;
+    await backend.delete(staged);
+
+    const report = await SaveJournalService.recoverInterruptedSaves();
+
+    expect(report.entries[0].errors).toEqual([`${BOOK_DIR}/stories/voyage.json could not be restored`]);
+  });
+
+  it('should apply overlapping saves of a book one after another', async () => {
+    const first = FileBasedStorageService.saveBook(book);
+    book.description = 'Third version';
+    const second = FileBasedStorageService.saveBook(book);
+
+    await Promise.all([first, second]);
+
+    expect((await readJson(`${BOOK_DIR}/book.json`)).description).toBe('Third version');
+    expect(leftovers()).toEqual([]);
+  });
+
+  it('should not roll a failed save forward over a later one', async () => {
+    backend.failWrite = path => path === `${BOOK_DIR}/stories/voyage.json`;
+    expect((await FileBasedStorageService.saveBook(book)).success).toBe(false);
+
+    backend.failWrite = null;
+    book.description = 'Third version';
+    book.stories[0].description = 'Third version';
+    expect((await FileBasedStorageService.saveBook(book)).success).toBe(true);
+    expect(leftovers()).toEqual([]);
+
+    await SaveJournalService.recoverInterruptedSaves();
+
+    expect((await readJson(`${BOOK_DIR}/book.json`)).description).toBe('Third version');
+    expect((await readJson(`${BOOK_DIR}/stories/voyage.json`)).description).toBe('Third version');
+  });
+
+  it('should replay interrupted saves in the order they happened', async () => {
+    backend.failWrite = path => path === `${BOOK_DIR}/stories/voyage.json`;
+    await FileBasedStorageService.saveBook(book);
+
+    // Restarted without recovering, then interrupted again
+    SaveJournalService.reset();
+    book.stories[0].description = 'Third version';
+    book.stories[1].description = 'Third version';
+    backend.failWrite = path => path === `${BOOK_DIR}/stories/harbor.json`;
+    await FileBasedStorageService.saveBook(book);
+
+    backend.failWrite = null;
+    const report = await SaveJournalService.recoverInterruptedSaves();
+
+    expect(report.entries).toHaveLength(2);
+    expect((await readJson(`${BOOK_DIR}/stories/voyage.json`)).description).toBe('Third version');
+    expect((await readJson(`${BOOK_DIR}/stories/harbor.json`)).description).toBe('Third version');
+    expect(leftovers()).toEqual([]);
+  });
+
+  it('should discard staged image store index files that never committed', async () => {
+    await backend.writeText('prompter-cache/blobs/index.json.torn.tmp', '{"version":1');
+
+    const report = await SaveJournalService.recoverInterruptedSaves();
+
+    expect(report.entries).toEqual([
+      expect.objectContaining({ action: 'rolled-back', book: 'Image store index', files: ['prompter-cache/blobs/index.json.torn.tmp'] })
+    ]);
+    expect(leftovers()).toEqual([]);
+  });
+
+  it('should recover before BookCache loads books and report it once', async () => {
+    backend.failWrite = path => path === `${BOOK_DIR}/stories/harbor.json`;
+    await FileBasedStorageService.saveBook(book);
+    backend.failWrite = null;
+
+    await bookCache.loadAll();
+
+    const loaded = bookCache.get(book.id);
+    expect(loaded?.stories.map(story => story.description)).toEqual(['Second version', 'Second version']);
+    expect(SaveJournalService.consumeRecoveryReport()?.entries).toHaveLength(1);
+    expect(SaveJournalService.consumeRecoveryReport()).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SceneImageGenerationService } from '../../src/services/SceneImageGenerationService';
+import { ImageGenerationService } from '../../src/services/ImageGenerationService';
+import { CharacterImageService } from '../../src/services/CharacterImageService';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+import type { ImageProvenance } from '../../src/types/ImageProvenance';
+
+vi.mock('../../src/services/ImageGenerationService', () => ({
+  ImageGenerationService: {
+    generateImage: vi.fn()
+  }
+}));
+
+vi.mock('../../src/services/CharacterImageService', () => ({
+  CharacterImageService: {
+    loadCharacterImage: vi.fn()
+  }
+}));
+
+const IMAGE_URL = 'data:image/png;base64,AAAA';
+
+describe('SceneImageGenerationService provenance', () => {
+  let story: Story;
+  let scene: Scene;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(ImageGenerationService.generateImage).mockResolvedValue({ success: true, imageUrl: IMAGE_URL });
+
+    story = new Story({ title: 'Provenance Story', backgroundSetup: 'A quiet library' });
+    scene = new Scene({ title: 'Opening', description: 'A student opens a book' });
+    story.addScene(scene);
+  });
+
+  it('should record the exact prompt, model and aspect ratio sent to the provider', async () => {
+    const { imageUrl, provenance } = await SceneImageGenerationService.generateSceneImageWithProvenance({
+      scene,
+      story,
+      book: null,
+      model: 'google/gemini-2.5-flash-image',
+      aspectRatio: '4:3'
+    });
+
+    const request = vi.mocked(ImageGenerationService.generateImage).mock.calls[0][0];
+    expect(imageUrl).toBe(IMAGE_URL);
+    expect(provenance.prompt).toBe(request.prompt);
+    expect(provenance.model).toBe('google/gemini-2.5-flash-image');
+    expect(provenance.aspectRatio).toBe('4:3');
+    expect(provenance.promptStrategy).toBe('gemini');
+    expect(provenance.referenceImages).toEqual([]);
+    expect(provenance.appVersion).toBeTruthy();
+  });
+
+  it('should pass the requested prompt strategy through complete generation', async () => {
+    const { provenance } = await SceneImageGenerationService.generateCompleteSceneImageWithProvenance({
+      scene,
+      story,
+      book: null,
+      model: 'google/gemini-2.5-flash-image',
+      promptStrategy: 'legacy',
+      applyOverlays: false
+    });
+
+    expect(provenance.requestedPromptStrategy).toBe('legacy');
+    expect(provenance.promptStrategy).toBe('legacy');
+    expect(provenance.overlays).toBeUndefined();
+  });
+
+  it('should reproduce with the recorded inputs, not the current scene', async () => {
+    const { provenance } = await SceneImageGenerationService.generateSceneImageWithProvenance({
+      scene,
+      story,
+      book: null,
+      model: 'google/gemini-2.5-flash-image',
+      aspectRatio: '4:3'
+    });
+    scene.description = 'Something completely different';
+
+    const result = await SceneImageGenerationService.reproduceSceneImage(
+      provenance,
+      { scene, story, book: null },
+      'original-image'
+    );
+
+    const request = vi.mocked(ImageGenerationService.generateImage).mock.calls[1][0];
+    expect(request.prompt).toBe(provenance.prompt);
+    expect(request.model).toBe(provenance.model);
+    expect(request.aspectRatio).toBe('4:3');
+    expect(result.provenance.prompt).toBe(provenance.prompt);
+    expect(result.provenance.reproducedFrom).toBe('original-image');
+  });
+
+  it('should fail when a recorded reference image no longer exists', async () => {
+    vi.mocked(CharacterImageService.loadCharacterImage).mockResolvedValue(null);
+    const provenance: ImageProvenance = {
+      prompt: 'A scene',
+      model: 'google/gemini-2.5-flash-image',
+      promptStrategy: 'gemini',
+      aspectRatio: '3:4',
+      referenceImages: [{ imageId: 'img-1', characterName: 'Alice', storyId: story.id }],
+      appVersion: '3.0.0'
+    };
+
+    await expect(
+      SceneImageGenerationService.reproduceSceneImage(provenance, { scene, story, book: null })
+    ).rejects.toThrow('Reference image for Alice is no longer available');
+    expect(ImageGenerationService.generateImage).not.toHaveBeenCalled();
+  });
+});
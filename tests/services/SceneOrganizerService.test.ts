@@ -0,0 +1,147 @@
+/**
+ * SceneOrganizerService Tests
+ *
+ * Runs the real StorageService/BookCache stack and image store on an
+ * in-memory backend.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SceneOrganizerService } from '../../src/services/SceneOrganizerService';
+import { StorageService } from '../../src/services/StorageService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { ImageStoreService } from '../../src/services/ImageStoreService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import { bookCache } from '../../src/services/BookCache';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+// Let BookCache's background filesystem writes finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('SceneOrganizerService', () => {
+  let book: Book;
+  let voyage: Story;
+  let harbor: Story;
+
+  const location = (story: Story) => ({ bookId: book.id, storyId: story.id });
+  const loadStory = async (bookId: string, storyId: string) =>
+    (await StorageService.getBook(bookId))!.stories.find(s => s.id === storyId)!;
+
+  beforeEach(async () => {
+    FileSystemService.setBackend(new MemoryStorageBackend());
+    bookCache.clear();
+    ImageStoreService.reset();
+
+    voyage = new Story({
+      title: 'Voyage',
+      backgroundSetup: 'A long sea voyage',
+      characters: [{ name: 'Ada', description: 'Navigator' }],
+      elements: [{ name: 'Compass', description: 'Brass compass' }]
+    });
+    voyage.addScene(new Scene({ title: 'Departure', description: 'Leaving port' }));
+    voyage.addScene(new Scene({
+      title: 'Storm',
+      description: 'Waves everywhere',
+      characters: ['Ada'],
+      elements: ['Compass'],
+      imageHistory: [{ id: 'storm-image', modelName: 'test-model', timestamp: new Date() }]
+    }));
+    harbor = new Story({ title: 'Harbor', backgroundSetup: 'Back home' });
+    harbor.addScene(new Scene({ title: 'Arrival', description: 'Docking' }));
+
+    book = new Book({ title: 'Sea Tales', stories: [voyage, harbor] });
+    await StorageService.saveBook(book);
+    await FileSystemService.saveImageById('storm-image', PNG, { sceneId: voyage.scenes[1].id });
+  });
+
+  afterEach(async () => {
+    await settle();
+    FileSystemService.setBackend(null);
+    bookCache.clear();
+    ImageStoreService.reset();
+  });
+
+  it('should save scene moves and chapters', async () => {
+    const chapter = await SceneOrganizerService.addChapter(location(voyage), 'At Sea');
+    await SceneOrganizerService.moveScene(location(voyage), voyage.scenes[0].id, 0, chapter.id);
+
+    const story = await loadStory(book.id, voyage.id);
+    expect(story.chapters.map(c => c.title)).toEqual(['At Sea']);
+    expect(story.scenes.map(s => s.title)).toEqual(['Storm', 'Departure']);
+    expect(story.scenes[1].chapterId).toBe(chapter.id);
+  });
+
+  it('should move a scene to another story with the characters and elements it uses', async () => {
+    const sceneId = voyage.scenes[1].id;
+    const arrivalId = harbor.scenes[0].id;
+
+    const result = await SceneOrganizerService.transferScene({
+      from: location(voyage),
+      sceneId,
+      to: { ...location(harbor), index: 0 },
+      mode: 'move'
+    });
+
+    expect(result).toEqual({ sceneId, addedCharacters: ['Ada'], addedElements: ['Compass'], skippedImages: 0 });
+    expect((await loadStory(book.id, voyage.id)).scenes.map(s => s.title)).toEqual(['Departure']);
+    const target = await loadStory(book.id, harbor.id);
+    expect(target.scenes.map(s => s.id)).toEqual([sceneId, arrivalId]);
+    expect(target.findCharacterByName('Ada')).toBeDefined();
+  });
+
+  it('should copy a scene to another book with copies of its images', async () => {
+    const other = new Book({ title: 'Other Book', stories: [new Story({ title: 'Elsewhere', backgroundSetup: '' })] });
+    await StorageService.saveBook(other);
+
+    const result = await SceneOrganizerService.transferScene({
+      from: location(voyage),
+      sceneId: voyage.scenes[1].id,
+      to: { bookId: other.id, storyId: other.stories[0].id },
+      mode: 'copy'
+    });
+
+    expect(result.sceneId).not.toBe(voyage.scenes[1].id);
+    expect(result.skippedImages).toBe(0);
+    expect((await loadStory(book.id, voyage.id)).scenes).toHaveLength(2);
+
+    const copy = (await loadStory(other.id, other.stories[0].id)).scenes[0];
+    expect(copy.title).toBe('Storm');
+    expect(copy.imageHistory).toHaveLength(1);
+    expect(copy.imageHistory![0].id).not.toBe('storm-image');
+    expect(await ImageStoreService.getImage(copy.imageHistory![0].id)).toMatchObject({ sceneId: copy.id });
+    expect(await ImageStoreService.hasImage('storm-image')).toBe(true);
+  });
+
+  it('should duplicate within a story and leave out images that are not stored', async () => {
+    const result = await SceneOrganizerService.transferScene({
+      from: location(voyage),
+      sceneId: voyage.scenes[1].id,
+      to: location(voyage),
+      mode: 'copy'
+    });
+
+    expect(result.skippedImages).toBe(0);
+    expect((await loadStory(book.id, voyage.id)).scenes.map(s => s.title)).toEqual(['Departure', 'Storm', 'Storm (Copy)']);
+
+    await ImageStoreService.removeImage('storm-image');
+    const second = await SceneOrganizerService.transferScene({
+      from: location(voyage),
+      sceneId: voyage.scenes[1].id,
+      to: location(harbor),
+      mode: 'copy'
+    });
+    expect(second.skippedImages).toBe(1);
+  });
+
+  it('should reject unknown scenes', async () => {
+    await expect(SceneOrganizerService.transferScene({
+      from: location(voyage),
+      sceneId: 'missing',
+      to: location(harbor),
+      mode: 'move'
+    })).rejects.toThrow('not found');
+  });
+});
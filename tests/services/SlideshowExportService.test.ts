@@ -0,0 +1,171 @@
+/**
+ * SlideshowExportService Tests
+ *
+ * Covers the timeline planning, camera motion and frame layering, which
+ * need no canvas or media recording, plus saving scene timings through the
+ * real StorageService/BookCache stack on an in-memory backend.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SlideshowExportService } from '../../src/services/SlideshowExportService';
+import { StorageService } from '../../src/services/StorageService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import { bookCache } from '../../src/services/BookCache';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+import {
+  DEFAULT_SLIDESHOW_SETTINGS,
+  type SceneAudio,
+  type SlideshowSettings
+} from '../../src/types/Slideshow';
+
+const settings = (overrides: Partial<SlideshowSettings> = {}): SlideshowSettings => ({
+  ...DEFAULT_SLIDESHOW_SETTINGS,
+  ...overrides
+});
+
+const narration: SceneAudio = {
+  path: 'prompter-cache/audio/abc.mp3',
+  fileName: 'narration.mp3',
+  mediaType: 'audio/mpeg',
+  duration: 7.5
+};
+
+// Let BookCache's background filesystem writes finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('SlideshowExportService', () => {
+  let book: Book;
+  let story: Story;
+
+  beforeEach(async () => {
+    FileSystemService.setBackend(new MemoryStorageBackend());
+    bookCache.clear();
+    vi.clearAllMocks();
+
+    story = new Story({ title: 'Tide Pools', backgroundSetup: '' });
+    story.addScene(new Scene({ title: 'Arrival', description: '', textPanel: 'We reached the rocks.' }));
+    story.addScene(new Scene({ title: 'Crabs', description: '', slideshow: { audio: narration } }));
+    story.addScene(new Scene({ title: 'Night', description: '', slideshow: { duration: 3, motion: 'zoom-out' } }));
+
+    book = new Book({ title: 'Sea Days', stories: [story] });
+    await StorageService.saveBook(book);
+  });
+
+  afterEach(async () => {
+    await settle();
+    FileSystemService.setBackend(null);
+    bookCache.clear();
+  });
+
+  describe('buildTimeline', () => {
+    it('should time scenes by their duration, their audio or the default, overlapping by the crossfade', () => {
+      const timeline = SlideshowExportService.buildTimeline(story, settings());
+
+      expect(timeline.crossfade).toBe(1);
+      expect(timeline.entries.map(entry => [entry.title, entry.start, entry.duration])).toEqual([
+        ['Arrival', 0, 5],
+        ['Crabs', 4, 8.5],
+        ['Night', 11.5, 3]
+      ]);
+      expect(timeline.duration).toBe(14.5);
+      expect(timeline.entries[0].caption).toBe('We reached the rocks.');
+      expect(timeline.entries[1].audio).toEqual(narration);
+    });
+
+    it('should leave out audio and captions when turned off and shorten the crossfade to fit', () => {
+      story.scenes[2].slideshow = { duration: 1 };
+
+      const timeline = SlideshowExportService.buildTimeline(story, settings({ audio: false, captions: false, crossfade: 2 }));
+
+      expect(timeline.crossfade).toBe(0.5);
+      expect(timeline.entries[1]).toMatchObject({ duration: 5, audio: undefined });
+      expect(timeline.entries[0].caption).toBeUndefined();
+    });
+
+    it('should pick alternating motions for auto and keep the camera still without Ken Burns', () => {
+      const motions = (s: SlideshowSettings) => SlideshowExportService.buildTimeline(story, s).entries.map(entry => entry.motion);
+
+      expect(motions(settings())).toEqual(['zoom-in', 'pan-right', 'zoom-out']);
+      expect(motions(settings({ kenBurns: false }))).toEqual(['none', 'none', 'none']);
+    });
+
+    it('should warn about missing images and audio longer than its scene', () => {
+      story.scenes[1].slideshow = { audio: narration, duration: 4 };
+
+      const issues = SlideshowExportService.checkTimeline(story, SlideshowExportService.buildTimeline(story, settings()));
+
+      expect(issues.map(issue => issue.message)).toEqual([
+        'Scene "Arrival" has no image; its title is shown instead',
+        'Scene "Crabs" has no image; its title is shown instead',
+        'The audio of scene "Crabs" (7.5 s) is longer than the scene (4.0 s) and will be cut off',
+        'Scene "Night" has no image; its title is shown instead'
+      ]);
+    });
+  });
+
+  describe('frames', () => {
+    it('should fade the next scene in over the previous one during the crossfade', () => {
+      const timeline = SlideshowExportService.buildTimeline(story, settings());
+
+      expect(SlideshowExportService.getFrameLayers(timeline, 2).map(layer => [layer.entry.title, layer.opacity, layer.progress]))
+        .toEqual([['Arrival', 1, 0.4]]);
+      expect(SlideshowExportService.getFrameLayers(timeline, 4.5).map(layer => [layer.entry.title, layer.opacity]))
+        .toEqual([['Arrival', 1], ['Crabs', 0.5]]);
+      expect(SlideshowExportService.getFrameLayers(timeline, 14.5).map(layer => [layer.entry.title, layer.progress]))
+        .toEqual([['Night', 1]]);
+    });
+
+    it('should zoom and pan across the scene', () => {
+      expect(SlideshowExportService.getKenBurnsTransform('zoom-in', 0)).toEqual({ scale: 1, panX: 0 });
+      expect(SlideshowExportService.getKenBurnsTransform('zoom-out', 1).scale).toBeCloseTo(1);
+      expect(SlideshowExportService.getKenBurnsTransform('pan-right', 0.5)).toEqual({ scale: 1.15, panX: 0 });
+      expect(SlideshowExportService.getKenBurnsTransform('pan-left', 1)).toEqual({ scale: 1.15, panX: -1 });
+      expect(SlideshowExportService.getKenBurnsTransform('none', 0.3)).toEqual({ scale: 1, panX: 0 });
+    });
+  });
+
+  describe('ffmpegCommand', () => {
+    it('should delay each audio file to its scene start', () => {
+      const timeline = SlideshowExportService.buildTimeline(story, settings());
+      const crabs = story.scenes[1].id;
+
+      expect(SlideshowExportService.ffmpegCommand(timeline, 30, new Map()))
+        .toBe('ffmpeg -framerate 30 -i frame-%06d.png -c:v libx264 -pix_fmt yuv420p slideshow.mp4');
+      expect(SlideshowExportService.ffmpegCommand(timeline, 30, new Map([[crabs, 'audio/scene-02.mp3']])))
+        .toContain('-i audio/scene-02.mp3 -filter_complex "[1:a]atrim=0:8.5,adelay=4000|4000[a1];[a1]amix=inputs=1:normalize=0,apad[audio]"');
+    });
+
+    it('should pad audio that ends before the last scene so the video is not cut', () => {
+      const timeline = SlideshowExportService.buildTimeline(story, settings());
+      const crabs = story.scenes[1].id;
+      const audioEnd = timeline.entries[1].start + timeline.entries[1].duration;
+
+      const command = SlideshowExportService.ffmpegCommand(timeline, 30, new Map([[crabs, 'audio/scene-02.mp3']]));
+
+      expect(audioEnd).toBeLessThan(timeline.duration);
+      expect(command).toContain('apad[audio]');
+      expect(command).toContain('-shortest slideshow.mp4');
+    });
+  });
+
+  describe('saveSceneTimings', () => {
+    it('should save, keep or clear the timing of each scene', async () => {
+      const [arrival, crabs, night] = story.scenes.map(scene => scene.id);
+
+      await SlideshowExportService.saveSceneTimings({ bookId: book.id, storyId: story.id }, {
+        [arrival]: { duration: 6, motion: 'pan-left' },
+        [night]: { motion: 'auto' }
+      });
+      await settle();
+      bookCache.clear();
+      const saved = (await StorageService.getBook(book.id))!.stories[0].scenes;
+
+      expect(saved.find(scene => scene.id === arrival)!.slideshow).toEqual({ duration: 6, motion: 'pan-left' });
+      expect(saved.find(scene => scene.id === crabs)!.slideshow).toEqual({ audio: narration });
+      expect(saved.find(scene => scene.id === night)!.slideshow).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * StorageBackend Tests
+ *
+ * Runs the same contract checks against the in-memory and Node backends, then
+ * exercises FileSystemService and FileBasedStorageService end-to-end on an
+ * in-memory backend (no window.electronAPI or directory handle mocks).
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { StorageBackend } from '../../src/services/StorageBackend';
+import { joinStoragePath, splitStoragePath } from '../../src/services/StorageBackend';
+import { MemoryStorageBackend } from '../../src/services/MemoryStorageBackend';
+import { NodeStorageBackend } from '../../src/services/NodeStorageBackend';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { FileBasedStorageService } from '../../src/services/FileBasedStorageService';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+
+describe('StorageBackend paths', () => {
+  it('should split paths into non-empty segments', () => {
+    expect(splitStoragePath('/prompter-cache//books/./a.json')).toEqual(['prompter-cache', 'books', 'a.json']);
+    expect(splitStoragePath('')).toEqual([]);
+  });
+
+  it('should join segments ignoring empty ones', () => {
+    expect(joinStoragePath('prompter-cache/', '', 'books', 'a.json')).toBe('prompter-cache/books/a.json');
+  });
+});
+
+const backends: Array<{ name: string; create: () => Promise<{ backend: StorageBackend; cleanup: () => Promise<void> }> }> = [
+  {
+    name: 'MemoryStorageBackend',
+    create: async () => ({ backend: new MemoryStorageBackend(), cleanup: async () => {} })
+  },
+  {
+    name: 'NodeStorageBackend',
+    create: async () => {
+      const root = await mkdtemp(join(tmpdir(), 'prompter-storage-'));
+      return {
+        backend: new NodeStorageBackend(root),
+        cleanup: () => rm(root, { recursive: true, force: true })
+      };
+    }
+  }
+];
+
+describe.each(backends)('$name', ({ create }) => {
+  let backend: StorageBackend;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ backend, cleanup } = await create());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('should report itself as configured', async () => {
+    expect(await backend.isConfigured()).toBe(true);
+  });
+
+  it('should round-trip text and create parent directories', async () => {
+    await backend.writeText('a/b/c.json', '{"ok":true}');
+
+    expect(await backend.readText('a/b/c.json')).toBe('{"ok":true}');
+    expect(await backend.exists('a/b')).toBe(true);
+  });
+
+  it('should round-trip binary data', async () => {
+    const data = new Uint8Array([0, 1, 2, 253, 254, 255]);
+    await backend.writeBinary('images/x.png', data);
+
+    expect(Array.from(await backend.readBinary('images/x.png') ?? [])).toEqual([0, 1, 2, 253, 254, 255]);
+  });
+
+  it('should return null for missing files', async () => {
+    expect(await backend.readText('missing.json')).toBeNull();
+    expect(await backend.readBinary('missing/deeper.png')).toBeNull();
+  });
+
+  it('should list files and directories directly inside a path', async () => {
+    await backend.writeText('books/one.json', '1');
+    await backend.writeText('books/two.json', '2');
+    await backend.writeText('books/nested/three.json', '3');
+    await backend.mkdir('books/empty');
+
+    const listing = await backend.list('books');
+
+    expect(listing.files.sort()).toEqual(['one.json', 'two.json']);
+    expect(listing.directories.sort()).toEqual(['empty', 'nested']);
+  });
+
+  it('should return an empty listing for a missing directory', async () => {
+    expect(await backend.list('nowhere')).toEqual({ files: [], directories: [] });
+  });
+
+  it('should delete files and report whether they existed', async () => {
+    await backend.writeText('a.txt', 'x');
+
+    expect(await backend.delete('a.txt')).toBe(true);
+    expect(await backend.exists('a.txt')).toBe(false);
+    expect(await backend.delete('a.txt')).toBe(false);
+  });
+
+  it('should overwrite existing files', async () => {
+    await backend.writeText('a.txt', 'first');
+    await backend.writeText('a.txt', 'second');
+
+    expect(await backend.readText('a.txt')).toBe('second');
+  });
+
+  it('should report file size and modification time', async () => {
+    await backend.writeText('dir/a.txt', 'first');
+    const before = await backend.stat('dir/a.txt');
+    await backend.writeText('dir/a.txt', 'second write');
+    const after = await backend.stat('dir/a.txt');
+
+    expect(before?.size).toBe(5);
+    expect(after?.size).toBe(12);
+    expect(after?.modifiedAt).toBeGreaterThanOrEqual(before?.modifiedAt ?? Infinity);
+    expect(await backend.stat('dir')).toBeNull();
+    expect(await backend.stat('missing.txt')).toBeNull();
+  });
+});
+
+describe('NodeStorageBackend root confinement', () => {
+  it('should refuse paths that escape the root', async () => {
+    const backend = new NodeStorageBackend(join(tmpdir(), 'prompter-storage-root'));
+
+    await expect(backend.readText('../outside.txt')).rejects.toThrow('escapes the storage root');
+  });
+});
+
+describe('Persistence on an in-memory backend', () => {
+  let storage: MemoryStorageBackend;
+
+  beforeEach(() => {
+    storage = new MemoryStorageBackend();
+    FileSystemService.setBackend(storage);
+  });
+
+  afterEach(() => {
+    FileSystemService.setBackend(null);
+  });
+
+  it('should route FileSystemService through the configured backend', async () => {
+    expect(FileSystemService.getBackend()).toBe(storage);
+    expect(await FileSystemService.isConfigured()).toBe(true);
+  });
+
+  it('should save, list, load and delete book metadata', async () => {
+    await FileSystemService.saveBookMetadata('book-1', '{"id":"book-1"}');
+    await FileSystemService.saveBookMetadata('book-2', '{"id":"book-2"}');
+
+    expect(await FileSystemService.loadBookMetadata('book-1')).toBe('{"id":"book-1"}');
+    expect([...(await FileSystemService.loadAllBooksMetadata()).keys()].sort()).toEqual(['book-1', 'book-2']);
+
+    expect(await FileSystemService.deleteBookMetadata('book-1')).toBe(true);
+    expect(await FileSystemService.loadBookMetadata('book-1')).toBeNull();
+  });
+
+  it('should merge app metadata updates', async () => {
+    await FileSystemService.saveAppMetadata({ activeBookId: 'book-1' });
+    await FileSystemService.saveAppMetadata({ settings: { theme: 'dark' } });
+
+    expect(await FileSystemService.loadAppMetadata()).toMatchObject({ activeBookId: 'book-1', settings: { theme: 'dark' } });
+  });
+
+  it('should store scene images with metadata and load them back', async () => {
+    const result = await FileSystemService.saveImageById('img-1', 'data:image/png;base64,AAEC', { sceneId: 'scene-1' });
+
+    expect(result.success).toBe(true);
+    // Stored by content hash, with the metadata in the image store index
+    expect(storage.getPaths()).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^prompter-cache\/blobs\/[0-9a-f]{2}\/[0-9a-f]{64}\.png$/),
+      'prompter-cache/blobs/index.json'
+    ]));
+    expect(await FileSystemService.loadImageById('img-1')).toBe('blob:mock-url');
+
+    expect(await FileSystemService.deleteImageById('img-1')).toBe(true);
+    expect(await FileSystemService.loadImageById('img-1')).toBeNull();
+  });
+
+  it('should save and load directory-format books', async () => {
+    const book = new Book({
+      title: 'Storage Book',
+      stories: [
+        new Story({ title: 'First Story', backgroundSetup: 'Setup 1' }),
+        new Story({ title: 'Second Story', backgroundSetup: 'Setup 2' })
+      ]
+    });
+
+    expect(await FileBasedStorageService.saveBook(book)).toEqual({ success: true });
+    expect(await FileBasedStorageService.isDirectoryFormat('storage-book')).toBe(true);
+
+    const bySlug = await FileBasedStorageService.loadBook('storage-book');
+    const byId = await FileBasedStorageService.loadBook(book.id);
+
+    expect(bySlug?.id).toBe(book.id);
+    expect(bySlug?.stories.map(story => story.title).sort()).toEqual(['First Story', 'Second Story']);
+    expect(byId?.title).toBe('Storage Book');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { TemplatePromptBuildingService } from '../../src/services/TemplatePromptBuildingService';
+import { SceneImageGenerationService } from '../../src/services/SceneImageGenerationService';
+import { CharacterImageService } from '../../src/services/CharacterImageService';
+import { Book } from '../../src/models/Book';
+import { Story } from '../../src/models/Story';
+import { Scene } from '../../src/models/Scene';
+import { DEFAULT_SCENE_PROMPT_TEMPLATE } from '../../src/types/PromptTemplate';
+
+const createBook = (promptTemplates?: Book['promptTemplates']) => {
+  const book = new Book({
+    title: 'Template Book',
+    style: { artStyle: 'watercolor', colorPalette: 'pastels' },
+    promptTemplates
+  });
+  const story = new Story({ title: 'Library', backgroundSetup: 'A quiet library' });
+  story.characters = [{ name: 'Fox', description: 'A curious fox' }];
+  story.elements = [{ name: 'Book', description: 'An old red book' }];
+  const scene = new Scene({ title: 'Opening', description: 'The fox opens the book', characters: ['Fox'], elements: ['Book'] });
+  story.addScene(scene);
+  book.addStory(story);
+  return { book, story, scene };
+};
+
+describe('TemplatePromptBuildingService', () => {
+  it('should fill placeholders from the book template', () => {
+    const { book, story, scene } = createBook({
+      scene: '{{SceneTitle}} in {{ArtStyle}}: {{SceneDescription}}\nCast: {{CharacterNames}}\n{{Elements}}'
+    });
+
+    const result = new TemplatePromptBuildingService().buildScenePrompt({
+      scene,
+      story,
+      book,
+      characters: story.characters,
+      elements: story.elements,
+      hasReferenceImages: false
+    });
+
+    expect(result.prompt).toBe('Opening in watercolor: The fox opens the book\nCast: Fox\n- Book: An old red book');
+    expect(result.metadata?.strategy).toBe('template');
+    expect(result.metadata?.warnings).toEqual([]);
+  });
+
+  it('should fall back to the default template and collapse empty sections', () => {
+    const { story, scene } = createBook();
+
+    const result = new TemplatePromptBuildingService().buildScenePrompt({
+      scene,
+      story,
+      book: null,
+      characters: [],
+      elements: [],
+      hasReferenceImages: false
+    });
+
+    expect(result.prompt).toContain('The fox opens the book');
+    expect(result.prompt).not.toContain('{{');
+    expect(result.prompt).not.toMatch(/\n{3,}/);
+  });
+
+  it('should prefer draft overrides over the saved template', () => {
+    const { book, story, scene } = createBook({ scene: 'Saved' });
+
+    const result = new TemplatePromptBuildingService({ scene: 'Draft: {{SceneTitle}}' }).buildScenePrompt({
+      scene,
+      story,
+      book,
+      characters: [],
+      elements: [],
+      hasReferenceImages: false
+    });
+
+    expect(result.prompt).toBe('Draft: Opening');
+  });
+
+  it('should keep and report unknown placeholders', () => {
+    const { book, story, scene } = createBook({ scene: '{{SceneTitle}} {{Mood}}' });
+
+    const result = new TemplatePromptBuildingService().buildScenePrompt({
+      scene,
+      story,
+      book,
+      characters: [],
+      elements: [],
+      hasReferenceImages: false
+    });
+
+    expect(result.prompt).toBe('Opening {{Mood}}');
+    expect(result.metadata?.warnings).toEqual(['Unknown placeholder {{Mood}}']);
+    expect(TemplatePromptBuildingService.findUnknownPlaceholders('{{CharacterName}}', 'scene')).toEqual(['CharacterName']);
+  });
+
+  it('should not fill placeholders from Object.prototype', () => {
+    const { book, story, scene } = createBook({ scene: '{{constructor}} {{toString}}' });
+
+    const result = new TemplatePromptBuildingService().buildScenePrompt({
+      scene,
+      story,
+      book,
+      characters: [],
+      elements: [],
+      hasReferenceImages: false
+    });
+
+    expect(result.prompt).toBe('{{constructor}} {{toString}}');
+  });
+
+  it('should never be auto-selected', () => {
+    expect(new TemplatePromptBuildingService().isSuitableForModel()).toBe(false);
+    expect(DEFAULT_SCENE_PROMPT_TEMPLATE).toContain('{{SceneDescription}}');
+  });
+
+  it('should be selectable as the template strategy for scenes and characters', () => {
+    const { book, story, scene } = createBook({
+      scene: 'SCENE {{SceneTitle}}',
+      character: 'CHARACTER {{CharacterName}}: {{CharacterDescription}}'
+    });
+
+    expect(SceneImageGenerationService.buildCurrentScenePrompt(scene, story, book, 'google/gemini-2.5-flash-image', 'template'))
+      .toBe('SCENE Opening');
+    expect(CharacterImageService.buildCharacterPrompt(story.characters[0], story.backgroundSetup, book, undefined, false, 'template'))
+      .toBe('CHARACTER Fox: A curious fox');
+  });
+});
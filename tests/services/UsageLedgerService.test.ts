@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UsageLedgerService } from '../../src/services/UsageLedgerService';
+import { FileSystemService } from '../../src/services/FileSystemService';
+import { SettingsService } from '../../src/services/SettingsService';
+import type { UsageEntry } from '../../src/types/UsageLedger';
+import type { GenerationJob } from '../../src/types/GenerationQueue';
+
+vi.mock('../../src/services/FileSystemService', () => ({
+  FileSystemService: {
+    readTextFile: vi.fn(),
+    writeTextFile: vi.fn(),
+    getBackend: vi.fn()
+  }
+}));
+
+const list = vi.fn();
+
+vi.mock('../../src/services/SettingsService', () => ({
+  SettingsService: {
+    getUsageBudget: vi.fn()
+  }
+}));
+
+// Helper to create a ledger entry
+const entry = (overrides: Partial<UsageEntry>): UsageEntry => ({
+  id: Math.random().toString(36),
+  timestamp: new Date(),
+  kind: 'image',
+  model: 'google/gemini-2.5-flash-image',
+  images: 1,
+  estimatedCost: 0.04,
+  costSource: 'estimated',
+  success: true,
+  ...overrides
+});
+
+describe('UsageLedgerService', () => {
+  beforeEach(() => {
+    UsageLedgerService.reset();
+    list.mockResolvedValue({ files: [], directories: [] });
+    vi.mocked(FileSystemService.getBackend).mockReturnValue({ list } as unknown as ReturnType<typeof FileSystemService.getBackend>);
+    vi.mocked(FileSystemService.readTextFile).mockResolvedValue(null);
+    vi.mocked(FileSystemService.writeTextFile).mockResolvedValue({ success: true });
+    vi.mocked(SettingsService.getUsageBudget).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('estimateCost', () => {
+    it('should prefer the cost reported by the API', () => {
+      const result = UsageLedgerService.estimateCost({
+        kind: 'image',
+        model: 'google/gemini-2.5-flash-image',
+        success: true,
+        usage: { cost: 0.05 }
+      });
+
+      expect(result).toEqual({ cost: 0.05, costSource: 'reported' });
+    });
+
+    it('should estimate image cost from model pricing and prompt tokens', () => {
+      const result = UsageLedgerService.estimateCost({
+        kind: 'image',
+        model: 'google/gemini-2.5-flash-image',
+        success: true,
+        usage: { promptTokens: 1_000_000 }
+      });
+
+      expect(result.costSource).toBe('estimated');
+      expect(result.cost).toBeCloseTo(0.039 + 0.3);
+    });
+
+    it('should treat unreported failures as free', () => {
+      const result = UsageLedgerService.estimateCost({
+        kind: 'image',
+        model: 'google/gemini-2.5-flash-image',
+        success: false
+      });
+
+      expect(result).toEqual({ cost: 0, costSource: 'estimated' });
+    });
+
+    it('should mark unpriced models as unknown', () => {
+      const result = UsageLedgerService.estimateCost({
+        kind: 'text',
+        model: 'google/gemini-2.0-flash-exp',
+        success: true
+      });
+
+      expect(result).toEqual({ cost: 0, costSource: 'unknown' });
+    });
+  });
+
+  describe('record', () => {
+    it('should append entries to the book ledger file', async () => {
+      await UsageLedgerService.record({
+        kind: 'image',
+        model: 'google/gemini-2.5-flash-image',
+        success: true,
+        context: { bookId: 'book-1', storyId: 'story-1', sceneId: 'scene-1', purpose: 'scene' }
+      });
+
+      const [path, content] = vi.mocked(FileSystemService.writeTextFile).mock.calls[0];
+      expect(path).toBe('prompter-cache/usage-ledgers/book-1.json');
+      const file = JSON.parse(content);
+      expect(file.entries).toHaveLength(1);
+      expect(file.entries[0]).toMatchObject({ sceneId: 'scene-1', images: 1, success: true });
+    });
+
+    it('should keep existing entries when appending', async () => {
+      vi.mocked(FileSystemService.readTextFile).mockResolvedValue(JSON.stringify({
+        version: 1,
+        entries: [entry({ bookId: 'book-1', timestamp: new Date('2025-01-15T12:00:00Z') })]
+      }));
+
+      await UsageLedgerService.record({ kind: 'text', model: 'x', success: false, context: { bookId: 'book-1' } });
+
+      const entries = await UsageLedgerService.getEntries('book-1');
+      expect(entries).toHaveLength(2);
+      expect(entries[0].timestamp).toBeInstanceOf(Date);
+      expect(entries[1].images).toBe(0);
+    });
+
+    it('should use the unassigned ledger when there is no book', async () => {
+      await UsageLedgerService.record({ kind: 'text', model: 'x', success: true });
+
+      expect(FileSystemService.writeTextFile).toHaveBeenCalledWith(
+        'prompter-cache/usage-ledger.json',
+        expect.any(String)
+      );
+    });
+
+    it('should not overwrite a ledger that cannot be parsed', async () => {
+      vi.mocked(FileSystemService.readTextFile).mockResolvedValue('{"version": 1, "entries": [');
+
+      const result = await UsageLedgerService.record({ kind: 'text', model: 'x', success: true, context: { bookId: 'book-1' } });
+
+      expect(result).toBeNull();
+      expect(FileSystemService.writeTextFile).not.toHaveBeenCalled();
+      await expect(UsageLedgerService.getEntries('book-1')).rejects.toThrow('is unreadable');
+    });
+
+    it('should never throw when the ledger cannot be written', async () => {
+      vi.mocked(FileSystemService.writeTextFile).mockRejectedValue(new Error('disk full'));
+
+      const result = await UsageLedgerService.record({ kind: 'text', model: 'x', success: true });
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('assignWizardSession', () => {
+    beforeEach(async () => {
+      await UsageLedgerService.record({ kind: 'text', model: 'x', success: true, context: { purpose: 'wizard:concept', wizardSessionId: 'wizard-1' } });
+      await UsageLedgerService.record({ kind: 'text', model: 'x', success: true, context: { purpose: 'experiment' } });
+    });
+
+    it('should move the wizard run entries to the created book', async () => {
+      const moved = await UsageLedgerService.assignWizardSession('wizard-1', 'book-1');
+
+      expect(moved).toBe(1);
+      const bookEntries = await UsageLedgerService.getEntries('book-1');
+      expect(bookEntries).toHaveLength(1);
+      expect(bookEntries[0]).toMatchObject({ bookId: 'book-1', purpose: 'wizard:concept' });
+      const unassigned = await UsageLedgerService.getEntries();
+      expect(unassigned.map(e => e.purpose)).toEqual(['experiment']);
+    });
+
+    it('should keep the entries unassigned when the book ledger cannot be written', async () => {
+      vi.mocked(FileSystemService.writeTextFile).mockResolvedValue({ success: false, error: 'disk full' });
+
+      const moved = await UsageLedgerService.assignWizardSession('wizard-1', 'book-1');
+
+      expect(moved).toBe(0);
+      expect(await UsageLedgerService.getEntries('book-1')).toHaveLength(0);
+      expect(await UsageLedgerService.getEntries()).toHaveLength(2);
+    });
+  });
+
+  describe('summarize', () => {
+    const entries = [
+      entry({ storyId: 's1', timestamp: new Date(2025, 0, 10), estimatedCost: 0.04 }),
+      entry({ storyId: 's1', timestamp: new Date(2025, 1, 3), estimatedCost: 0.04, success: false, images: 0 }),
+      entry({ storyId: 's2', timestamp: new Date(2025, 1, 4), estimatedCost: 0.13, promptTokens: 100, completionTokens: 50 })
+    ];
+
+    it('should total all entries without grouping', () => {
+      const [total] = UsageLedgerService.summarize(entries);
+
+      expect(total.calls).toBe(3);
+      expect(total.failures).toBe(1);
+      expect(total.images).toBe(2);
+      expect(total.tokens).toBe(150);
+      expect(total.cost).toBeCloseTo(0.21);
+    });
+
+    it('should group by story, most expensive first', () => {
+      const rows = UsageLedgerService.summarize(entries, 'story');
+
+      expect(rows.map(r => r.key)).toEqual(['s2', 's1']);
+    });
+
+    it('should group by month, newest first', () => {
+      const rows = UsageLedgerService.summarize(entries, 'month');
+
+      expect(rows.map(r => r.key)).toEqual(['2025-02', '2025-01']);
+      expect(rows[0].calls).toBe(2);
+    });
+  });
+
+  describe('checkBudget', () => {
+    beforeEach(() => {
+      list.mockResolvedValue({ files: ['book-1.json'], directories: [] });
+      vi.mocked(FileSystemService.readTextFile).mockImplementation(async (path: string) =>
+        path.includes('book-1')
+          ? JSON.stringify({ version: 1, entries: [entry({ bookId: 'book-1', estimatedCost: 4 })] })
+          : null
+      );
+    });
+
+    it('should allow anything without a budget', async () => {
+      const result = await UsageLedgerService.checkBudget('book-1', 100);
+
+      expect(result.status).toBe('ok');
+    });
+
+    it('should warn when a monthly budget would be exceeded', async () => {
+      vi.mocked(SettingsService.getUsageBudget).mockResolvedValue({ limit: 5, period: 'month', action: 'warn' });
+
+      const result = await UsageLedgerService.checkBudget('book-1', 2);
+
+      expect(result.status).toBe('warn');
+      expect(result.spent).toBe(4);
+      expect(result.message).toContain('$5.00');
+    });
+
+    it('should count this month\'s spend on books that were deleted since', async () => {
+      vi.mocked(SettingsService.getUsageBudget).mockResolvedValue({ limit: 5, period: 'month', action: 'block' });
+      list.mockResolvedValue({ files: ['book-1.json', 'deleted-book.json'], directories: [] });
+      vi.mocked(FileSystemService.readTextFile).mockImplementation(async (path: string) =>
+        path.includes('deleted-book')
+          ? JSON.stringify({ version: 1, entries: [entry({ bookId: 'deleted-book', estimatedCost: 3 })] })
+          : null
+      );
+
+      const result = await UsageLedgerService.checkBudget('book-1', 1);
+
+      expect(list).toHaveBeenCalledWith('prompter-cache/usage-ledgers');
+      expect(result.spent).toBe(3);
+      expect(result.status).toBe('ok');
+      expect((await UsageLedgerService.checkBudget('book-1', 2.5)).status).toBe('block');
+    });
+
+    it('should block when a book budget would be exceeded', async () => {
+      vi.mocked(SettingsService.getUsageBudget).mockResolvedValue({ limit: 5, period: 'book', action: 'block' });
+
+      expect((await UsageLedgerService.checkBudget('book-1', 0.5)).status).toBe('ok');
+      expect((await UsageLedgerService.checkBudget('book-1', 2)).status).toBe('block');
+    });
+
+    it('should count jobs still waiting in the queue', async () => {
+      vi.mocked(SettingsService.getUsageBudget).mockResolvedValue({ limit: 5, period: 'book', action: 'block' });
+      const job = (bookId: string, status: GenerationJob['status']) => ({
+        id: Math.random().toString(36),
+        kind: 'scene',
+        bookId,
+        label: 'Scene',
+        model: 'google/gemini-2.5-flash-image',
+        status,
+        attempts: 0,
+        maxAttempts: 5,
+        createdAt: new Date()
+      }) as GenerationJob;
+      const perImage = UsageLedgerService.estimateImageCost('google/gemini-2.5-flash-image');
+      const queue = [
+        ...Array.from({ length: Math.ceil(1 / perImage) }, () => job('book-1', 'pending')),
+        job('book-1', 'completed'),
+        job('book-2', 'pending')
+      ];
+
+      const withoutQueue = await UsageLedgerService.checkBudget('book-1', 0.5);
+      const withQueue = await UsageLedgerService.checkBudget('book-1', 0.5, queue);
+
+      expect(withoutQueue.status).toBe('ok');
+      expect(withQueue.queued).toBeCloseTo(Math.ceil(1 / perImage) * perImage);
+      expect(withQueue.status).toBe('block');
+      expect(withQueue.message).toContain('already queued');
+    });
+
+    it('should apply the budget action when a ledger cannot be read', async () => {
+      vi.mocked(SettingsService.getUsageBudget).mockResolvedValue({ limit: 5, period: 'month', action: 'block' });
+      vi.mocked(FileSystemService.readTextFile).mockResolvedValue('not json');
+
+      const result = await UsageLedgerService.checkBudget('book-1', 0.5);
+
+      expect(result.status).toBe('block');
+      expect(result.message).toContain('unknown');
+    });
+  });
+});